@@ -18,6 +18,9 @@ import VerifyEmailPage from "@/pages/VerifyEmailPage";
 import VerificationSentPage from "@/pages/VerificationSentPage";
 import ResendVerificationPage from "@/pages/ResendVerificationPage";
 import ResetPasswordPage from "@/pages/ResetPasswordPage";
+import InterviewManagePage from "@/pages/InterviewManagePage";
+import InterviewBookingPage from "@/pages/InterviewBookingPage";
+import OfferResponsePage from "@/pages/OfferResponsePage";
 import SubscriptionSuccessPage from "@/pages/SubscriptionSuccessPage";
 import SubscriptionCanceledPage from "@/pages/SubscriptionCanceledPage";
 import PaymentSuccessPage from "@/pages/PaymentSuccessPage";
@@ -77,6 +80,13 @@ function Router() {
       {/* Password reset routes - accessible without authentication */}
       <Route path="/reset-password/:token" element={<ResetPasswordPage />} />
 
+      {/* Candidate interview booking and reschedule/cancel links - accessible without authentication */}
+      <Route path="/interviews/manage/:token" element={<InterviewManagePage />} />
+      <Route path="/interviews/book/:token" element={<InterviewBookingPage />} />
+
+      {/* Candidate offer review and e-signature link - accessible without authentication */}
+      <Route path="/offers/:token" element={<OfferResponsePage />} />
+
       {/* Subscription payment routes - accessible without authentication for Stripe redirects */}
       <Route path="/subscription/success" element={<SubscriptionSuccessPage />} />
       <Route path="/subscription/canceled" element={<SubscriptionCanceledPage />} />
@@ -0,0 +1,123 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Activity, Download, Loader2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface ApplicantEvent {
+  id: number;
+  action: string;
+  actorId: string | null;
+  actorName: string | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  metadata: Record<string, any> | null;
+  createdAt: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  stage_changed: "Moved to a new stage",
+  shortlist_removed: "Removed from shortlist",
+  accept_undone: "Acceptance undone",
+  interview_booking_link_sent: "Interview booking link sent",
+  interview_scheduled: "Interview scheduled",
+  interview_updated: "Interview updated",
+  interview_deleted: "Interview cancelled",
+  scorecard_submitted: "Scorecard submitted",
+  offer_sent: "Offer letter sent",
+  offer_responded: "Candidate responded to offer",
+  offer_counter_offer: "Counter-offer logged",
+  offer_expired: "Offer expired",
+  score_updated: "Score updated",
+  profile_regenerated: "Profile regenerated",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  stage: "Stage",
+  status: "Status",
+  scheduledDate: "Date",
+  scheduledTime: "Time",
+  timeZone: "Time zone",
+  scheduledAt: "Starts",
+  interviewType: "Type",
+  meetingLink: "Meeting link",
+  notes: "Notes",
+  matchScore: "Score",
+  componentScores: "Score breakdown",
+  position: "Position",
+  salary: "Salary",
+  start_date: "Start date",
+  benefits: "Benefits",
+  recipientEmail: "Sent to",
+  recommendation: "Recommendation",
+};
+
+const displayValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "-" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+// One line per field that either side of the event mentions
+function changeLines(event: ApplicantEvent) {
+  const fields = Array.from(new Set([...Object.keys(event.before || {}), ...Object.keys(event.after || {})]));
+  return fields.map((field) => ({
+    label: FIELD_LABELS[field] || field,
+    before: event.before ? displayValue(event.before[field]) : null,
+    after: event.after ? displayValue(event.after[field]) : null,
+  }));
+}
+
+export function ApplicantTimeline({ applicationId }: { applicationId: string }) {
+  const { data: events = [], isLoading } = useQuery<ApplicantEvent[]>({
+    queryKey: [`/api/applicants/${applicationId}/events`],
+  });
+
+  return (
+    <Card className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-slate-800 dark:text-slate-200 flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          Activity
+        </CardTitle>
+        {events.length > 0 && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/applicant-events/export?format=csv&applicationId=${encodeURIComponent(applicationId)}`}>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : events.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No activity recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-slate-200 dark:border-slate-700 ml-2 space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-slate-900 bg-slate-300 dark:bg-slate-600" />
+                <p className="text-sm font-medium text-slate-900 dark:text-white">
+                  {ACTION_LABELS[event.action] || event.action}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400" title={format(new Date(event.createdAt), "PPpp")}>
+                  {event.actorName || "System"} · {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                </p>
+                {changeLines(event).map((line) => (
+                  <p key={line.label} className="text-xs text-slate-600 dark:text-slate-300">
+                    <span className="text-slate-500 dark:text-slate-400">{line.label}:</span>{" "}
+                    {line.before !== null && line.after !== null
+                      ? `${line.before} → ${line.after}`
+                      : line.after ?? line.before}
+                  </p>
+                ))}
+                {event.metadata?.reason && (
+                  <p className="text-xs italic text-slate-500 dark:text-slate-400">“{event.metadata.reason}”</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { RequisitionApprovalStep } from "@shared/schema";
+
+const MAX_STEPS = 5;
+
+interface ApprovalChainEditorProps {
+  chain: RequisitionApprovalStep[] | null;
+  members: Array<{ userId: string; name: string; email: string }>;
+}
+
+// Edits the steps draft jobs are approved through before they can be published
+export function ApprovalChainEditor({ chain, members }: ApprovalChainEditorProps) {
+  const { toast } = useToast();
+  const [steps, setSteps] = useState<RequisitionApprovalStep[]>(chain || []);
+
+  useEffect(() => {
+    setSteps(chain || []);
+  }, [chain]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/organizations/current/approval-chain", { chain: steps });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: steps.length ? "Approval chain saved" : "Job approval turned off" });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save approval chain", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const update = (index: number, changes: Partial<RequisitionApprovalStep>) =>
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+
+  const move = (index: number, offset: number) => {
+    const next = steps.slice();
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    setSteps(next);
+  };
+
+  const toggleApprover = (index: number, userId: string, checked: boolean) => {
+    const approverIds = steps[index].approverIds;
+    update(index, { approverIds: checked ? [...approverIds, userId] : approverIds.filter((id) => id !== userId) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        {steps.length
+          ? "Draft jobs are signed off by each step in order before they can be published. Any approver listed on a step can approve it. Changing the salary or headcount after approval needs a new request."
+          : "Jobs are published without approval. Add a step to require sign-off before publishing."}
+      </p>
+
+      <div className="space-y-3">
+        {steps.map((step, index) => (
+          <div key={index} className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-slate-500 w-6">{index + 1}.</span>
+              <Input className="w-[220px]" value={step.name} maxLength={60} placeholder="e.g. Finance"
+                onChange={(e) => update(index, { name: e.target.value })} />
+              <div className="ml-auto flex items-center gap-1">
+                <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" disabled={index === steps.length - 1} onClick={() => move(index, 1)}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setSteps(steps.filter((_, i) => i !== index))}>
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-3 pl-8">
+              {members.map((member) => (
+                <label key={member.userId} className="flex items-center gap-1.5 text-sm text-slate-700 dark:text-slate-300">
+                  <Checkbox checked={step.approverIds.includes(member.userId)}
+                    onCheckedChange={(checked) => toggleApprover(index, member.userId, checked === true)} />
+                  {member.name || member.email}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" disabled={steps.length >= MAX_STEPS}
+          onClick={() => setSteps([...steps, { name: "", approverIds: [] }])}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Step
+        </Button>
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Approval Chain
+        </Button>
+      </div>
+    </div>
+  );
+}
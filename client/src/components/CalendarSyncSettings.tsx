@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Loader2, RefreshCw, Unplug } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalendarConnection {
+  provider: string;
+  url: string;
+  username: string;
+  status: "active" | "error";
+  lastError: string | null;
+  lastSyncedAt: string | null;
+}
+
+interface CalendarSettings {
+  feedUrl: string;
+  providers: string[];
+  connections: CalendarConnection[];
+}
+
+const SETTINGS_KEY = ["/api/calendar/settings"];
+
+// The signed-in user's subscribable interview feed and two-way CalDAV sync
+export function CalendarSyncSettings() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<CalendarSettings>({ queryKey: SETTINGS_KEY });
+  const connection = data?.connections.find((item) => item.provider === "caldav");
+  const [url, setUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  useEffect(() => {
+    setUrl(connection?.url || "");
+    setUsername(connection?.username || "");
+    setPassword("");
+  }, [connection?.url, connection?.username]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: SETTINGS_KEY });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/calendar/feed/regenerate"),
+    onSuccess: () => {
+      toast({ title: "Feed URL regenerated", description: "Calendars subscribed to the old URL will stop updating." });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not regenerate feed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const connectMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", "/api/calendar/connections/caldav", { url, username, password }),
+    onSuccess: () => {
+      toast({ title: "Calendar connected", description: "New and changed interviews will appear in your calendar." });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not connect calendar", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/calendar/connections/caldav"),
+    onSuccess: () => {
+      toast({ title: "Calendar disconnected" });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not disconnect calendar", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async (): Promise<{ updated: number }> => {
+      const response = await apiRequest("POST", "/api/calendar/connections/caldav/sync");
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Calendar synced",
+        description: result.updated > 0 ? `${result.updated} interview(s) moved to match your calendar.` : "Everything is up to date.",
+      });
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/interviews"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not sync calendar", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-3">
+        <Label>Interview feed</Label>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Subscribe to this URL in Google Calendar, Outlook or Apple Calendar to see every interview you run or sit on.
+          Keep it private: anyone with the link can read the feed.
+        </p>
+        <div className="flex gap-2">
+          <Input readOnly value={data.feedUrl} />
+          <Button variant="outline" size="icon"
+            onClick={() => {
+              navigator.clipboard.writeText(data.feedUrl);
+              toast({ title: "Feed URL copied" });
+            }}>
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" onClick={() => regenerateMutation.mutate()} disabled={regenerateMutation.isPending}>
+            {regenerateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Regenerate
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Label>CalDAV sync</Label>
+          {connection && (
+            <Badge variant={connection.status === "active" ? "secondary" : "destructive"}>
+              {connection.status === "active" ? "Connected" : "Error"}
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Interviews are written to your calendar as they are scheduled, moved or cancelled, and moving an
+          interview there reschedules it here.
+        </p>
+        {connection?.lastError && <p className="text-sm text-red-600">{connection.lastError}</p>}
+        {connection?.lastSyncedAt && (
+          <p className="text-xs text-slate-500">Last synced {new Date(connection.lastSyncedAt).toLocaleString()}</p>
+        )}
+        <div className="grid gap-3 max-w-xl">
+          <div>
+            <Label className="text-xs">Calendar URL</Label>
+            <Input className="mt-1" value={url} placeholder="https://caldav.example.com/user/interviews/"
+              onChange={(e) => setUrl(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-xs">Username</Label>
+              <Input className="mt-1" value={username} onChange={(e) => setUsername(e.target.value)} />
+            </div>
+            <div>
+              <Label className="text-xs">Password</Label>
+              <Input className="mt-1" type="password" value={password}
+                placeholder={connection ? "Unchanged" : ""}
+                onChange={(e) => setPassword(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => connectMutation.mutate()} disabled={!url || connectMutation.isPending}>
+            {connectMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {connection ? "Save & Test" : "Connect"}
+          </Button>
+          {connection && (
+            <>
+              <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending}>
+                {syncMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                Sync Now
+              </Button>
+              <Button variant="outline" onClick={() => disconnectMutation.mutate()} disabled={disconnectMutation.isPending}>
+                <Unplug className="w-4 h-4 mr-2" />
+                Disconnect
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
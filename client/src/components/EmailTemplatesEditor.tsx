@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RotateCcw } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  EMAIL_TEMPLATE_TYPES,
+  EMAIL_TEMPLATE_VARIABLES,
+  EMAIL_TEMPLATE_REQUIRED_VARIABLES,
+  type EmailLocale,
+  type EmailTemplateType,
+} from "@shared/schema";
+
+interface EmailTemplateView {
+  type: EmailTemplateType;
+  locale: EmailLocale;
+  subject: string;
+  body: string;
+  customized: boolean;
+  updatedAt: string | null;
+}
+
+interface EmailTemplatesResponse {
+  templates: EmailTemplateView[];
+  emailLocale: EmailLocale;
+}
+
+interface EmailPreview {
+  subject: string;
+  html: string;
+}
+
+const TYPE_LABELS: Record<EmailTemplateType, string> = {
+  interview_scheduled: "Interview scheduled",
+  interview_cancelled: "Interview cancelled",
+  interviewer_rescheduled: "Interviewer notice: candidate rescheduled",
+  interviewer_cancelled: "Interviewer notice: candidate cancelled",
+  interview_invitation: "AI interview invitation",
+  interview_reminder: "AI interview reminder",
+  application_accepted: "Application accepted",
+  application_rejected: "Application rejected",
+  application_shortlisted: "Application shortlisted",
+  offer_letter: "Offer letter",
+  team_invitation: "Team invitation",
+  email_verification: "Email verification",
+  password_reset: "Password reset",
+};
+
+const LOCALE_LABELS: Record<EmailLocale, string> = { en: "English", ar: "العربية" };
+
+// Organization wording for each email, in English and Arabic, with a live preview in the organization's branding
+export function EmailTemplatesEditor() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<EmailTemplatesResponse>({ queryKey: ["/api/email-templates"] });
+  const [type, setType] = useState<EmailTemplateType>("interview_scheduled");
+  const [locale, setLocale] = useState<EmailLocale>("en");
+  const [draft, setDraft] = useState<{ subject: string; body: string } | null>(null);
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const current = data?.templates.find((template) => template.type === type && template.locale === locale);
+
+  useEffect(() => {
+    if (current) {
+      setDraft({ subject: current.subject, body: current.body });
+    }
+  }, [current?.type, current?.locale, current?.subject, current?.body]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/email-templates"] });
+
+  const previewMutation = useMutation({
+    mutationFn: async (text: { subject: string; body: string }) => {
+      const response = await apiRequest("POST", "/api/email-templates/preview", { type, locale, ...text });
+      return response.json() as Promise<EmailPreview>;
+    },
+    onSuccess: (rendered) => {
+      setPreview(rendered);
+      setPreviewError(null);
+    },
+    onError: (error: Error) => setPreviewError(errorMessage(error)),
+  });
+
+  // Re-render the preview once typing pauses
+  useEffect(() => {
+    if (!draft) return;
+    const timer = setTimeout(() => previewMutation.mutate(draft), 400);
+    return () => clearTimeout(timer);
+  }, [draft?.subject, draft?.body, type, locale]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (text: { subject: string; body: string }) => {
+      const response = await apiRequest("PUT", `/api/email-templates/${type}/${locale}`, text);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Email template saved" });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save template", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/email-templates/${type}/${locale}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Template reset to the default wording" });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not reset template", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const localeMutation = useMutation({
+    mutationFn: async (emailLocale: EmailLocale) => {
+      const response = await apiRequest("PUT", "/api/organizations/current/email-settings", { emailLocale });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update email language", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // Insert a variable at the cursor
+  const insertVariable = (variable: string) => {
+    if (!draft) return;
+    const textarea = bodyRef.current;
+    const position = textarea ? textarea.selectionStart : draft.body.length;
+    const token = `{{${variable}}}`;
+    setDraft({ ...draft, body: draft.body.slice(0, position) + token + draft.body.slice(position) });
+  };
+
+  if (isLoading || !data || !draft) {
+    return <Loader2 className="w-5 h-5 animate-spin text-primary" />;
+  }
+
+  const required = EMAIL_TEMPLATE_REQUIRED_VARIABLES[type] || [];
+  const changed = !!current && (draft.subject !== current.subject || draft.body !== current.body);
+  const direction = locale === "ar" ? "rtl" : "ltr";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Label className="font-normal">Send emails in</Label>
+        <Select value={data.emailLocale} onValueChange={(value) => localeMutation.mutate(value as EmailLocale)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(LOCALE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={type} onValueChange={(value) => setType(value as EmailTemplateType)}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EMAIL_TEMPLATE_TYPES.map((value) => (
+              <SelectItem key={value} value={value}>{TYPE_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-1">
+          {(Object.keys(LOCALE_LABELS) as EmailLocale[]).map((value) => (
+            <Button key={value} size="sm" variant={locale === value ? "secondary" : "ghost"} onClick={() => setLocale(value)}>
+              {LOCALE_LABELS[value]}
+            </Button>
+          ))}
+        </div>
+        {current?.customized ? <Badge variant="outline">Customized</Badge> : <Badge variant="secondary">Default</Badge>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <Label>Subject</Label>
+            <Input className="mt-1" dir={direction} value={draft.subject} maxLength={200}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })} />
+          </div>
+          <div>
+            <Label>Email</Label>
+            <div className="flex flex-wrap gap-1.5 my-2">
+              {EMAIL_TEMPLATE_VARIABLES[type].map((variable) => (
+                <Badge key={variable} variant={required.includes(variable) ? "default" : "secondary"}
+                  className="cursor-pointer font-mono text-xs" onClick={() => insertVariable(variable)}>
+                  {`{{${variable}}}`}
+                </Badge>
+              ))}
+            </div>
+            <Textarea ref={bodyRef} rows={18} dir={direction} className="font-mono text-sm" value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })} />
+            <p className="text-xs text-slate-500 mt-1">
+              Leave a blank line between paragraphs. Start a line with "- " for a list, wrap text in **stars** for bold,
+              and put [Button text]({"{{link}}"}) on its own line for a button. Lines using a variable with no value are left out.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => saveMutation.mutate(draft)} disabled={!changed || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+            {changed && (
+              <Button variant="ghost" onClick={() => current && setDraft({ subject: current.subject, body: current.body })}>
+                Discard Changes
+              </Button>
+            )}
+            {current?.customized && (
+              <Button variant="ghost" disabled={resetMutation.isPending} onClick={() => resetMutation.mutate()}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reset to Default
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Preview</Label>
+            {previewMutation.isPending && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+          </div>
+          {previewError ? (
+            <p className="text-sm text-red-600">{previewError}</p>
+          ) : preview && (
+            <p className="text-sm text-slate-700 dark:text-slate-300" dir={direction}>
+              <span className="font-medium">Subject:</span> {preview.subject}
+            </p>
+          )}
+          <iframe title="Email preview" sandbox="" srcDoc={preview?.html || ""}
+            className="w-full h-[600px] rounded-lg border border-slate-200 dark:border-slate-700 bg-white" />
+          <p className="text-xs text-slate-500">Shown with sample values and your organization's logo and color.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
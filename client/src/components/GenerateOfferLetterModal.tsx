@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, FileText, Send, Loader2, ArrowLeft, Eye, Check } from 'lucide-react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { X, FileText, Send, Loader2, ArrowLeft, Eye, Check, Sparkles, History, ShieldCheck, Download, FileSignature } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, errorMessage } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { OfferNegotiationPanel, type OfferNegotiationEntryView } from '@/components/OfferNegotiationPanel';
+import type { OfferLetterStatus, OfferMergeValues } from '@shared/schema';
 
 interface GenerateOfferLetterModalProps {
   isOpen: boolean;
@@ -15,8 +18,79 @@ interface GenerateOfferLetterModalProps {
   jobId: string;
 }
 
+interface OfferTemplateView {
+  id: number;
+  name: string;
+  subject: string | null;
+  body: string;
+  isDefault: boolean;
+}
+
+interface OfferLetterView {
+  id: string;
+  offerContent: string;
+  status: OfferLetterStatus;
+  version: number;
+  templateId: number | null;
+  mergeValues: OfferMergeValues | null;
+  approverId: string | null;
+  approvalNote: string | null;
+  createdBy: string | null;
+  sentAt: string | null;
+  respondedAt: string | null;
+  responseNote: string | null;
+  signerName: string | null;
+  signedAt: string | null;
+  signerIp: string | null;
+  documentHash: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+interface OfferLetterDetails {
+  offer: OfferLetterView;
+  versions: Array<{ id: number; version: number; content: string; note: string | null; editedByName: string; createdAt: string }>;
+  negotiation: OfferNegotiationEntryView[];
+  sendBlocker: string | null;
+  approvalRequired: boolean;
+  responseUrl: string | null;
+}
+
 type Step = 'input' | 'edit' | 'preview' | 'sending' | 'success';
 
+// Merge values the user fills in per offer; the rest come from the applicant and job
+const EDITABLE_FIELDS: Array<{ field: keyof OfferMergeValues; label: string; placeholder: string; multiline?: boolean }> = [
+  { field: 'salary', label: 'Salary', placeholder: 'From the job posting' },
+  { field: 'start_date', label: 'Start Date', placeholder: 'e.g. March 1, 2027' },
+  { field: 'manager_name', label: 'Reporting Manager', placeholder: 'e.g. Sarah Ahmed' },
+  { field: 'benefits', label: 'Benefits (one per line)', placeholder: 'From the job posting', multiline: true },
+];
+
+const STATUS_LABELS: Record<OfferLetterStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Awaiting approval',
+  approved: 'Approved',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  changes_requested: 'Candidate requested changes',
+  expired: 'Expired',
+};
+
+// Statuses where the offer is with the candidate or answered, so there is nothing left to send
+const FINAL_STATUSES: OfferLetterStatus[] = ['sent', 'accepted', 'declined', 'expired'];
+
+const DEFAULT_RESPONSE_DAYS = 7;
+
+// yyyy-mm-dd in local time, as used by date inputs
+const dateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const defaultDeadline = () => dateInputValue(new Date(Date.now() + DEFAULT_RESPONSE_DAYS * 24 * 60 * 60 * 1000));
+
+// Deadlines run to the end of the chosen day in the recruiter's time zone
+const endOfDay = (date: string) => (date ? new Date(`${date}T23:59:59`).toISOString() : null);
+
 export function GenerateOfferLetterModal({
   isOpen,
   onClose,
@@ -24,105 +98,156 @@ export function GenerateOfferLetterModal({
   applicantName,
   applicantEmail,
   jobTitle,
-  jobId
 }: GenerateOfferLetterModalProps) {
   const [step, setStep] = useState<Step>('input');
-  const [customMessage, setCustomMessage] = useState('');
-  const [generatedOffer, setGeneratedOffer] = useState('');
+  const [templateId, setTemplateId] = useState('builtin');
+  const [values, setValues] = useState<OfferMergeValues>({});
+  const [offerId, setOfferId] = useState<string | null>(null);
   const [editedOffer, setEditedOffer] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [suggestion, setSuggestion] = useState<{ text: string; missingValues: string[] } | null>(null);
+  const [approverId, setApproverId] = useState('');
+  const [approvalNote, setApprovalNote] = useState('');
+  const [expiresOn, setExpiresOn] = useState(defaultDeadline);
 
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
+  const offerUrl = offerId ? `/api/offer-letters/${offerId}` : '';
+  const { data: templateData } = useQuery<{ templates: OfferTemplateView[]; builtIn: { name: string } }>({
+    queryKey: ['/api/offer-templates'],
+    enabled: isOpen,
+  });
+  const { data: existingOffers = [] } = useQuery<OfferLetterView[]>({
+    queryKey: [`/api/applicants/${applicantId}/offer-letters`],
+    enabled: isOpen,
+  });
+  const { data: details } = useQuery<OfferLetterDetails>({
+    queryKey: [offerUrl],
+    enabled: isOpen && !!offerId,
+  });
+  const { data: teamMembers = [] } = useQuery<Array<{ userId: string; name: string; email: string }>>({
+    queryKey: ['/api/companies/team'],
+    enabled: isOpen,
+  });
+
+  const templates = templateData?.templates || [];
+  const offer = details?.offer;
+  const isApprover = !!offer && offer.status === 'pending_approval' && offer.approverId === user?.id;
+  const hasUnsavedChanges = !!offer && editedOffer.trim() !== offer.offerContent;
+
   // Reset modal state when it closes
   useEffect(() => {
     if (!isOpen) {
       setTimeout(() => {
         setStep('input');
-        setCustomMessage('');
-        setGeneratedOffer('');
+        setTemplateId('builtin');
+        setValues({});
+        setOfferId(null);
         setEditedOffer('');
+        setInstructions('');
+        setSuggestion(null);
+        setApproverId('');
+        setApprovalNote('');
+        setExpiresOn(defaultDeadline());
       }, 300);
     }
   }, [isOpen]);
 
-  // Debug log when step changes to edit
+  // New offers start from the organization's default template
   useEffect(() => {
-    if (step === 'edit') {
-      console.log('📝 Edit step activated. Current state:', {
-        generatedOfferLength: generatedOffer.length,
-        editedOfferLength: editedOffer.length,
-        generatedOfferPreview: generatedOffer.substring(0, 100),
-        editedOfferPreview: editedOffer.substring(0, 100)
-      });
+    const defaultTemplate = templates.find((template) => template.isDefault);
+    if (defaultTemplate && templateId === 'builtin') {
+      setTemplateId(String(defaultTemplate.id));
     }
-  }, [step, generatedOffer, editedOffer]);
-
-  // Generate offer letter mutation
-  const generateMutation = useMutation({
-    mutationFn: async () => {
-      console.log('📝 Generating offer letter for applicant:', applicantId);
-      console.log('Custom message:', customMessage ? `${customMessage.substring(0, 50)}...` : 'None');
+  }, [templateData]);
 
-      const response = await apiRequest('POST', `/api/applicants/${applicantId}/generate-offer-letter`, {
-        customMessage: customMessage.trim() || undefined
-      });
+  const invalidateOffer = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/applicants/${applicantId}/offer-letters`] });
+    if (offerUrl) {
+      queryClient.invalidateQueries({ queryKey: [offerUrl] });
+    }
+  };
 
-      const data = await response.json();
+  const openOffer = (saved: OfferLetterView) => {
+    setOfferId(saved.id);
+    setEditedOffer(saved.offerContent);
+    setSuggestion(null);
+    setExpiresOn(saved.expiresAt ? dateInputValue(new Date(saved.expiresAt)) : defaultDeadline());
+    setStep(saved.status === 'draft' || saved.status === 'changes_requested' ? 'edit' : 'preview');
+  };
 
-      console.log('✅ Offer letter response received:', {
-        hasOfferText: !!data.offerText,
-        offerTextLength: data.offerText?.length || 0,
-        offerTextPreview: data.offerText?.substring(0, 100) + '...'
+  const createDraftMutation = useMutation({
+    mutationFn: async () => {
+      // Blank fields fall back to the applicant and job
+      const filled = Object.fromEntries(Object.entries(values).filter(([, value]) => value && value.trim()));
+      const response = await apiRequest('POST', `/api/applicants/${applicantId}/offer-letters`, {
+        templateId: templateId === 'builtin' ? null : parseInt(templateId),
+        values: filled,
       });
-
-      return data;
+      return response.json() as Promise<OfferLetterView>;
     },
-    onSuccess: (data) => {
-      console.log('🎯 Processing successful response:', data);
-
-      if (!data.offerText) {
-        console.error('❌ No offerText in response:', data);
-        toast({
-          title: "Error",
-          description: "No offer text was generated. Please try again.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      const offerText = data.offerText.trim();
-      console.log('Setting offer text:', {
-        length: offerText.length,
-        preview: offerText.substring(0, 100)
-      });
+    onSuccess: (created) => {
+      openOffer(created);
+      invalidateOffer();
+      toast({ title: "Draft created", description: "Review and edit the offer letter before sending." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
 
-      setGeneratedOffer(offerText);
-      setEditedOffer(offerText);
-      setStep('edit');
+  const saveMutation = useMutation({
+    mutationFn: async ({ content, note }: { content: string; note?: string }) => {
+      const response = await apiRequest('PUT', offerUrl, { offerContent: content, note });
+      return response.json() as Promise<OfferLetterView>;
+    },
+    onSuccess: (saved) => {
+      setEditedOffer(saved.offerContent);
+      invalidateOffer();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save draft", description: errorMessage(error), variant: "destructive" });
+    },
+  });
 
-      toast({
-        title: "Offer Letter Generated",
-        description: "Review and edit the offer letter before sending.",
-      });
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${offerUrl}/suggest`, { instructions, offerContent: editedOffer });
+      return response.json() as Promise<{ suggestion: string; missingValues: string[] }>;
+    },
+    onSuccess: (result) => setSuggestion({ text: result.suggestion, missingValues: result.missingValues }),
+    onError: (error: Error) => {
+      toast({ title: "Could not suggest edits", description: errorMessage(error), variant: "destructive" });
+    },
+  });
 
-      console.log('✅ State updated, moving to edit step');
+  const approvalMutation = useMutation({
+    mutationFn: async (action: 'request-approval' | 'approve' | 'request-changes') => {
+      const body = action === 'request-approval' ? { approverId } : { note: approvalNote };
+      const response = await apiRequest('POST', `${offerUrl}/${action}`, body);
+      return response.json() as Promise<OfferLetterView>;
     },
-    onError: (error: any) => {
-      console.error('❌ Error generating offer letter:', error);
-      toast({
-        title: "Error",
-        description: error.message || "Failed to generate offer letter",
-        variant: "destructive",
-      });
+    onSuccess: (updated, action) => {
+      const titles = { 'request-approval': 'Approval requested', approve: 'Offer approved', 'request-changes': 'Changes requested' };
+      toast({ title: titles[action] });
+      setApprovalNote('');
+      invalidateOffer();
+      if (updated.status === 'draft' && action === 'request-changes') {
+        setStep('edit');
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
     },
   });
 
-  // Send offer letter mutation
   const sendMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest('POST', `/api/applicants/${applicantId}/send-offer-letter`, {
-        offerContent: editedOffer,
+        offerLetterId: offerId,
+        expiresAt: endOfDay(expiresOn),
       });
       return response.json();
     },
@@ -132,6 +257,7 @@ export function GenerateOfferLetterModal({
         title: "Success!",
         description: `Offer letter sent to ${applicantEmail}`,
       });
+      invalidateOffer();
       queryClient.invalidateQueries({ queryKey: ['/api/applicants'] });
       queryClient.invalidateQueries({ queryKey: ['/api/shortlisted-applicants'] });
 
@@ -140,35 +266,57 @@ export function GenerateOfferLetterModal({
         onClose();
       }, 2000);
     },
-    onError: (error: any) => {
-      setStep('edit');
+    onError: (error: Error) => {
+      setStep('preview');
       toast({
         title: "Error",
-        description: error.message || "Failed to send offer letter",
+        description: errorMessage(error),
         variant: "destructive",
       });
     },
   });
 
-  const handleGenerate = () => {
-    generateMutation.mutate();
-  };
+  const expiryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `${offerUrl}/expiry`, { expiresAt: endOfDay(expiresOn) });
+      return response.json() as Promise<OfferLetterView>;
+    },
+    onSuccess: () => {
+      toast({ title: expiresOn ? 'Deadline updated' : 'Deadline removed' });
+      invalidateOffer();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update deadline", description: errorMessage(error), variant: "destructive" });
+    },
+  });
 
-  const handleSend = () => {
+  // Unsaved edits become a new version before previewing
+  const handlePreview = async () => {
     if (!editedOffer.trim()) {
-      toast({
-        title: "Error",
-        description: "Offer letter cannot be empty",
-        variant: "destructive",
-      });
+      toast({ title: "Error", description: "Offer letter cannot be empty", variant: "destructive" });
       return;
     }
-    setStep('sending');
-    sendMutation.mutate();
+    if (hasUnsavedChanges) {
+      try {
+        await saveMutation.mutateAsync({ content: editedOffer });
+      } catch {
+        return;
+      }
+    }
+    setStep('preview');
+  };
+
+  const applySuggestion = () => {
+    if (!suggestion) return;
+    setEditedOffer(suggestion.text);
+    setSuggestion(null);
+    saveMutation.mutate({ content: suggestion.text, note: 'Applied AI suggestion' });
   };
 
   if (!isOpen) return null;
 
+  const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100 text-sm";
+
   return (
     <AnimatePresence>
       <motion.div
@@ -194,10 +342,11 @@ export function GenerateOfferLetterModal({
               </div>
               <div>
                 <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-                  Generate Offer Letter
+                  Offer Letter
                 </h2>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
                   {applicantName} • {jobTitle}
+                  {offer && ` • ${STATUS_LABELS[offer.status]} • v${offer.version}`}
                 </p>
               </div>
             </div>
@@ -214,9 +363,9 @@ export function GenerateOfferLetterModal({
           <div className="px-6 py-4 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
             <div className="flex items-center justify-between max-w-2xl mx-auto">
               {[
-                { id: 'input', label: 'Customize', icon: FileText },
+                { id: 'input', label: 'Template', icon: FileText },
                 { id: 'edit', label: 'Edit', icon: FileText },
-                { id: 'preview', label: 'Preview', icon: Eye },
+                { id: 'preview', label: 'Review', icon: Eye },
                 { id: 'sending', label: 'Send', icon: Send },
               ].map((s, idx) => {
                 const isActive = step === s.id;
@@ -266,78 +415,173 @@ export function GenerateOfferLetterModal({
 
           {/* Content */}
           <div className="p-6 overflow-y-auto" style={{ maxHeight: 'calc(90vh - 240px)' }}>
-            {/* Step 1: Input Custom Message */}
+            {/* Step 1: Template and merge values */}
             {step === 'input' && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 className="space-y-4"
               >
+                {existingOffers.length > 0 && (
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                    {existingOffers.map((saved) => (
+                      <button
+                        key={saved.id}
+                        onClick={() => openOffer(saved)}
+                        className="w-full flex items-center justify-between px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50 text-left"
+                      >
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {saved.sentAt ? 'Sent offer' : 'Saved offer'} • v{saved.version} • {new Date(saved.createdAt).toLocaleDateString()}
+                        </span>
+                        <span className="text-xs text-gray-500">{STATUS_LABELS[saved.status]}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    Personal Message (Optional)
+                    Template
                   </label>
-                  <textarea
-                    value={customMessage}
-                    onChange={(e) => setCustomMessage(e.target.value)}
-                    placeholder="Add a personalized message to the candidate... (e.g., 'We were particularly impressed with your experience in...')"
-                    className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100 resize-none"
-                    rows={6}
-                  />
-                  <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
-                    This message will be included in the offer letter after the opening greeting.
-                  </p>
+                  <select value={templateId} onChange={(e) => setTemplateId(e.target.value)} className={inputClass}>
+                    {templates.length === 0 && <option value="builtin">{templateData?.builtIn.name || 'Standard offer'}</option>}
+                    {templates.map((template) => (
+                      <option key={template.id} value={String(template.id)}>
+                        {template.name}{template.isDefault ? ' (default)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  {EDITABLE_FIELDS.map(({ field, label, placeholder, multiline }) => (
+                    <div key={field} className={multiline ? 'col-span-2' : ''}>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+                      {multiline ? (
+                        <textarea value={values[field] || ''} rows={3} placeholder={placeholder} className={`${inputClass} resize-none`}
+                          onChange={(e) => setValues({ ...values, [field]: e.target.value })} />
+                      ) : (
+                        <input value={values[field] || ''} placeholder={placeholder} className={inputClass}
+                          onChange={(e) => setValues({ ...values, [field]: e.target.value })} />
+                      )}
+                    </div>
+                  ))}
                 </div>
 
                 <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
                   <p className="text-sm text-blue-800 dark:text-blue-300">
-                    <strong>What happens next:</strong> We'll generate a professional offer letter including job
-                    details, compensation, benefits, and next steps. You'll be able to review and edit it before
-                    sending.
+                    <strong>What happens next:</strong> We'll fill the template with {applicantName}'s details and save it
+                    as a draft. You can edit it, ask AI to polish the wording, and get it approved before sending.
                   </p>
                 </div>
               </motion.div>
             )}
 
-            {/* Step 2: Edit Generated Offer */}
+            {/* Step 2: Edit the draft */}
             {step === 'edit' && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 className="space-y-4"
               >
+                {offer?.responseNote && (offer.status === 'changes_requested' || offer.status === 'draft') && (
+                  <div className="p-3 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg">
+                    <p className="text-sm text-orange-800 dark:text-orange-300">
+                      <strong>{applicantName} asked for changes:</strong> {offer.responseNote}
+                    </p>
+                  </div>
+                )}
+
+                {offer?.approvalNote && offer.status === 'draft' && (
+                  <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+                    <p className="text-sm text-yellow-800 dark:text-yellow-300">
+                      <strong>Changes requested:</strong> {offer.approvalNote}
+                    </p>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Edit Offer Letter
                   </label>
                   <textarea
                     value={editedOffer}
-                    onChange={(e) => {
-                      console.log('Textarea value changed:', e.target.value.length, 'characters');
-                      setEditedOffer(e.target.value);
-                    }}
+                    onChange={(e) => setEditedOffer(e.target.value)}
                     className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100 font-mono text-sm resize-none"
-                    rows={20}
+                    rows={16}
                     style={{ whiteSpace: 'pre-wrap' }}
-                    placeholder="Offer letter text will appear here..."
                   />
                   <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
-                    Edit the offer letter text as needed. The final version will be formatted professionally when sent
-                    via email.
+                    Each save keeps a new version. Editing an approved offer sends it back for approval.
                   </p>
-                  {editedOffer.length === 0 && (
-                    <div className="mt-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
-                      <p className="text-sm text-yellow-800 dark:text-yellow-300">
-                        ⚠️ No offer text loaded. This might indicate an issue with the generation process.
-                      </p>
+                </div>
+
+                {/* AI suggestions stay within the template's wording and facts */}
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                    <Sparkles className="w-4 h-4 text-purple-500" />
+                    Suggest edits with AI
+                  </label>
+                  <div className="flex gap-2">
+                    <input value={instructions} onChange={(e) => setInstructions(e.target.value)} className={inputClass}
+                      placeholder="e.g. Make the tone warmer and mention our remote-first culture" />
+                    <button
+                      onClick={() => suggestMutation.mutate()}
+                      disabled={suggestMutation.isPending}
+                      className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg text-sm whitespace-nowrap disabled:opacity-50"
+                    >
+                      {suggestMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                      Suggest
+                    </button>
+                  </div>
+                  {suggestion && (
+                    <div className="space-y-2">
+                      {suggestion.missingValues.length > 0 && (
+                        <p className="text-sm text-red-600 dark:text-red-400">
+                          ⚠️ This suggestion no longer contains: {suggestion.missingValues.join(', ')}. Check it before applying.
+                        </p>
+                      )}
+                      <pre className="whitespace-pre-wrap font-sans text-sm text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-900 rounded-lg p-3 max-h-64 overflow-y-auto">
+                        {suggestion.text}
+                      </pre>
+                      <div className="flex gap-2">
+                        <button onClick={applySuggestion} className="px-3 py-1.5 bg-primary text-white rounded-lg text-sm">
+                          Apply Suggestion
+                        </button>
+                        <button onClick={() => setSuggestion(null)} className="px-3 py-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-sm">
+                          Discard
+                        </button>
+                      </div>
                     </div>
                   )}
                 </div>
+
+                {details && details.versions.length > 1 && (
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-2">
+                    <p className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                      <History className="w-4 h-4" />
+                      Version History
+                    </p>
+                    {details.versions.map((version) => (
+                      <div key={version.id} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">
+                          v{version.version} • {version.editedByName} • {new Date(version.createdAt).toLocaleString()}
+                          {version.note && ` • ${version.note}`}
+                        </span>
+                        {version.version !== offer?.version && (
+                          <button onClick={() => setEditedOffer(version.content)} className="text-primary text-xs hover:underline">
+                            Restore
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </motion.div>
             )}
 
-            {/* Step 3: Preview */}
-            {step === 'preview' && (
+            {/* Step 3: Review, approval and sending */}
+            {step === 'preview' && offer && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -349,17 +593,140 @@ export function GenerateOfferLetterModal({
                   </label>
                   <div className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-6 shadow-sm">
                     <pre className="whitespace-pre-wrap font-sans text-sm text-gray-900 dark:text-gray-100 leading-relaxed">
-                      {editedOffer}
+                      {offer.offerContent}
                     </pre>
                   </div>
                 </div>
 
-                <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-                  <p className="text-sm text-blue-800 dark:text-blue-300">
-                    <strong>Ready to send?</strong> This offer letter will be sent to{' '}
-                    <strong className="text-blue-900 dark:text-blue-200">{applicantEmail}</strong> and formatted as a professional HTML email.
+                {(offer.status === 'accepted' || offer.status === 'declined') && (
+                  <div className={`border rounded-lg p-4 space-y-1 ${offer.status === 'accepted'
+                    ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                    : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'}`}>
+                    <p className="flex items-center gap-2 text-sm font-medium text-gray-800 dark:text-gray-200">
+                      <FileSignature className="w-4 h-4" />
+                      {offer.status === 'accepted'
+                        ? `Signed by ${offer.signerName} on ${new Date(offer.signedAt!).toLocaleString()}`
+                        : `Declined on ${new Date(offer.respondedAt!).toLocaleString()}`}
+                    </p>
+                    {offer.responseNote && <p className="text-sm text-gray-700 dark:text-gray-300">{offer.responseNote}</p>}
+                    {offer.status === 'accepted' && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 break-all">
+                        IP {offer.signerIp || 'unknown'} • SHA-256 {offer.documentHash}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {offer.status === 'sent' && details?.responseUrl && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 break-all">
+                    Waiting for {applicantName} to respond at <a href={details.responseUrl} target="_blank" rel="noreferrer" className="text-primary hover:underline">{details.responseUrl}</a>
                   </p>
-                </div>
+                )}
+
+                {(offer.status === 'sent' || offer.status === 'expired') && (
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-2">
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      {offer.status === 'expired'
+                        ? `Expired ${new Date(offer.expiresAt!).toLocaleString()}. Set a new deadline to reopen it.`
+                        : offer.expiresAt ? `Candidate must respond by ${new Date(offer.expiresAt).toLocaleString()}` : 'No response deadline'}
+                    </p>
+                    <div className="flex gap-2">
+                      <input type="date" value={expiresOn} min={dateInputValue(new Date())} onChange={(e) => setExpiresOn(e.target.value)} className={inputClass} />
+                      <button
+                        onClick={() => expiryMutation.mutate()}
+                        disabled={expiryMutation.isPending || (!expiresOn && !offer.expiresAt)}
+                        className="px-4 py-2 bg-gray-800 hover:bg-gray-900 text-white rounded-lg text-sm whitespace-nowrap disabled:opacity-50"
+                      >
+                        {offer.status === 'expired' ? 'Reopen' : 'Update Deadline'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <OfferNegotiationPanel
+                  offerId={offer.id}
+                  candidateName={applicantName}
+                  mergeValues={offer.mergeValues}
+                  entries={details?.negotiation || []}
+                  canNegotiate={!!offer.sentAt && offer.status !== 'accepted' && offer.status !== 'declined'}
+                  onChanged={invalidateOffer}
+                  onRevised={(revised) => {
+                    setEditedOffer(revised.offerContent);
+                    setStep('edit');
+                  }}
+                />
+
+                <a href={`${offerUrl}/pdf`} className="inline-flex items-center gap-2 text-sm text-primary hover:underline">
+                  <Download className="w-4 h-4" />
+                  {offer.status === 'accepted' ? 'Download signed PDF' : 'Download PDF'}
+                </a>
+
+                {offer.status === 'draft' && (
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+                    <p className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                      <ShieldCheck className="w-4 h-4" />
+                      {details?.approvalRequired ? 'Approval is required before sending' : 'Ask a teammate to approve (optional)'}
+                    </p>
+                    <div className="flex gap-2">
+                      <select value={approverId} onChange={(e) => setApproverId(e.target.value)} className={inputClass}>
+                        <option value="">Choose an approver...</option>
+                        {teamMembers.filter((member) => member.userId !== user?.id).map((member) => (
+                          <option key={member.userId} value={member.userId}>{member.name || member.email}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => approvalMutation.mutate('request-approval')}
+                        disabled={!approverId || approvalMutation.isPending}
+                        className="px-4 py-2 bg-gray-800 hover:bg-gray-900 text-white rounded-lg text-sm whitespace-nowrap disabled:opacity-50"
+                      >
+                        Request Approval
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {isApprover && (
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300">You were asked to approve this offer</p>
+                    <textarea value={approvalNote} onChange={(e) => setApprovalNote(e.target.value)} rows={2}
+                      placeholder="Note (required when requesting changes)" className={`${inputClass} resize-none`} />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => approvalMutation.mutate('approve')}
+                        disabled={approvalMutation.isPending}
+                        className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => approvalMutation.mutate('request-changes')}
+                        disabled={approvalMutation.isPending || !approvalNote.trim()}
+                        className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-sm disabled:opacity-50"
+                      >
+                        Request Changes
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {FINAL_STATUSES.includes(offer.status) ? null : details?.sendBlocker ? (
+                  <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+                    <p className="text-sm text-yellow-800 dark:text-yellow-300">{details.sendBlocker}</p>
+                  </div>
+                ) : (
+                  <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 space-y-3">
+                    <label className="flex items-center gap-3 text-sm text-blue-800 dark:text-blue-300">
+                      Candidate must respond by
+                      <input type="date" value={expiresOn} min={dateInputValue(new Date())} onChange={(e) => setExpiresOn(e.target.value)}
+                        className="px-2 py-1 border border-blue-200 dark:border-blue-700 rounded dark:bg-gray-800 text-sm" />
+                      <span className="text-xs">(leave empty for no deadline)</span>
+                    </label>
+                    <p className="text-sm text-blue-800 dark:text-blue-300">
+                      <strong>Ready to send?</strong> This offer letter will be sent to{' '}
+                      <strong className="text-blue-900 dark:text-blue-200">{applicantEmail}</strong> and formatted as a professional HTML email.
+                    </p>
+                  </div>
+                )}
               </motion.div>
             )}
 
@@ -404,11 +771,11 @@ export function GenerateOfferLetterModal({
               <button
                 onClick={() => {
                   if (step === 'edit') setStep('input');
-                  else if (step === 'preview') setStep('edit');
+                  else if (step === 'preview') setStep(offer && FINAL_STATUSES.includes(offer.status) ? 'input' : 'edit');
                   else onClose();
                 }}
                 className="flex items-center gap-2 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
-                disabled={generateMutation.isPending}
+                disabled={createDraftMutation.isPending}
               >
                 <ArrowLeft className="w-4 h-4" />
                 {step === 'input' ? 'Cancel' : 'Back'}
@@ -417,38 +784,53 @@ export function GenerateOfferLetterModal({
               <div className="flex items-center gap-3">
                 {step === 'input' && (
                   <button
-                    onClick={handleGenerate}
-                    disabled={generateMutation.isPending}
+                    onClick={() => createDraftMutation.mutate()}
+                    disabled={createDraftMutation.isPending}
                     className="flex items-center gap-2 px-6 py-2 bg-primary hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {generateMutation.isPending ? (
+                    {createDraftMutation.isPending ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        Generating...
+                        Drafting...
                       </>
                     ) : (
                       <>
                         <FileText className="w-4 h-4" />
-                        Generate Offer Letter
+                        Create Draft
                       </>
                     )}
                   </button>
                 )}
 
                 {step === 'edit' && (
-                  <button
-                    onClick={() => setStep('preview')}
-                    className="flex items-center gap-2 px-6 py-2 bg-primary hover:bg-blue-700 text-white rounded-lg transition-colors"
-                  >
-                    <Eye className="w-4 h-4" />
-                    Preview
-                  </button>
+                  <>
+                    <button
+                      onClick={() => saveMutation.mutate({ content: editedOffer }, { onSuccess: () => toast({ title: "Draft saved" }) })}
+                      disabled={!hasUnsavedChanges || saveMutation.isPending}
+                      className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Save Draft
+                    </button>
+                    <button
+                      onClick={handlePreview}
+                      disabled={saveMutation.isPending}
+                      className="flex items-center gap-2 px-6 py-2 bg-primary hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <Eye className="w-4 h-4" />
+                      Review
+                    </button>
+                  </>
                 )}
 
-                {step === 'preview' && (
+                {step === 'preview' && offer && !FINAL_STATUSES.includes(offer.status) && (
                   <button
-                    onClick={handleSend}
-                    className="flex items-center gap-2 px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors font-semibold"
+                    onClick={() => {
+                      setStep('sending');
+                      sendMutation.mutate();
+                    }}
+                    disabled={!!details?.sendBlocker}
+                    className="flex items-center gap-2 px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Send className="w-4 h-4" />
                     Send Offer Letter
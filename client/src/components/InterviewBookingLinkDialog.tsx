@@ -0,0 +1,173 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Loader2, Users } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+interface BookingLinkResult {
+  url: string;
+  expiresAt: string;
+  emailSent: boolean;
+}
+
+interface InterviewBookingLinkDialogProps {
+  applicant: { id: string; applicantName?: string | null; jobTitle?: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Emails a shortlisted candidate a link to pick a slot from the chosen panel's open availability
+export function InterviewBookingLinkDialog({ applicant, onOpenChange }: InterviewBookingLinkDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: teamMembers = [] } = useQuery<Array<{ userId: string; name: string | null; email: string }>>({
+    queryKey: ["/api/companies/team"],
+    enabled: !!applicant,
+  });
+
+  const [panel, setPanel] = useState<string[]>([]);
+  const [durationMinutes, setDurationMinutes] = useState("60");
+  const [interviewType, setInterviewType] = useState("video");
+  const [meetingLink, setMeetingLink] = useState("");
+  const [result, setResult] = useState<BookingLinkResult | null>(null);
+
+  useEffect(() => {
+    if (applicant) {
+      setPanel(user?.id ? [user.id] : []);
+      setResult(null);
+    }
+  }, [applicant, user?.id]);
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<BookingLinkResult> => {
+      const response = await apiRequest("POST", `/api/applicants/${applicant!.id}/booking-link`, {
+        interviewerIds: panel,
+        durationMinutes: parseInt(durationMinutes),
+        interviewType,
+        meetingLink,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      toast({
+        title: "Booking link created",
+        description: data.emailSent ? "The candidate has been emailed their booking link." : "Copy the link below and send it to the candidate.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/applicants/${applicant!.id}/events`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create booking link", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!applicant} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send Booking Link</DialogTitle>
+          <DialogDescription>
+            {applicant?.applicantName || "The candidate"} picks an interview time
+            {applicant?.jobTitle ? ` for ${applicant.jobTitle}` : ""} from when everyone on the panel is free.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3">
+            <Label>Booking link</Label>
+            <div className="flex gap-2">
+              <Input readOnly value={result.url} />
+              <Button variant="outline" size="icon"
+                onClick={() => {
+                  navigator.clipboard.writeText(result.url);
+                  toast({ title: "Link copied" });
+                }}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500">Valid until {new Date(result.expiresAt).toLocaleDateString()}.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2"><Users className="w-4 h-4" />Interview panel</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {teamMembers.map((member) => (
+                  <label key={member.userId} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <Checkbox checked={panel.includes(member.userId)}
+                      onCheckedChange={(checked) => setPanel(checked === true
+                        ? [...panel, member.userId]
+                        : panel.filter((id) => id !== member.userId))} />
+                    <span className="truncate">{member.name || member.email}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500">Each interviewer needs availability set under Settings → Availability.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Duration</Label>
+                <Select value={durationMinutes} onValueChange={setDurationMinutes}>
+                  <SelectTrigger className="mt-2"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {[30, 45, 60, 90].map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Interview Type</Label>
+                <Select value={interviewType} onValueChange={setInterviewType}>
+                  <SelectTrigger className="mt-2"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="video">Video Call</SelectItem>
+                    <SelectItem value="phone">Phone Call</SelectItem>
+                    <SelectItem value="in-person">In-Person</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label>Meeting Link (optional)</Label>
+              <Input className="mt-2" value={meetingLink} placeholder="https://meet.google.com/..."
+                onChange={(e) => setMeetingLink(e.target.value)} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <Button onClick={() => createMutation.mutate()} disabled={panel.length === 0 || createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send Link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
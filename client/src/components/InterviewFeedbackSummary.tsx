@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, EyeOff } from "lucide-react";
+import {
+  PANEL_LABELS,
+  ScorecardAggregateSummary,
+  SubmittedScorecard,
+  type ScorecardView,
+} from "@/components/InterviewScorecardDialog";
+
+const useInterviewFeedback = (applicationId: string) =>
+  useQuery<ScorecardView>({ queryKey: [`/api/applicants/${applicationId}/interview-feedback`] });
+
+// Compact panel recommendation, shown beside the AI score
+export function InterviewRecommendationBadge({ applicationId }: { applicationId: string }) {
+  const { data } = useInterviewFeedback(applicationId);
+  if (!data || data.interviewers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="text-sm font-medium text-slate-600 dark:text-slate-400">Interview Panel</div>
+      {data.blind ? (
+        <Badge variant="outline" className="flex items-center gap-1">
+          <EyeOff className="w-3 h-3" />
+          Submit your scorecard to see
+        </Badge>
+      ) : data.aggregate?.recommendation ? (
+        <Badge className={`text-base px-3 py-1 ${PANEL_LABELS[data.aggregate.recommendation].className}`}>
+          {PANEL_LABELS[data.aggregate.recommendation].label}
+        </Badge>
+      ) : (
+        <Badge variant="outline">Awaiting scorecards</Badge>
+      )}
+      {data.aggregate && data.aggregate.submitted > 0 && (
+        <div className="text-xs text-slate-500 dark:text-slate-400">
+          {data.aggregate.submitted} of {data.aggregate.submitted + data.aggregate.pending} submitted
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Every submitted scorecard for the application, with the panel's combined recommendation
+export function InterviewFeedbackCard({ applicationId }: { applicationId: string }) {
+  const { data } = useInterviewFeedback(applicationId);
+  if (!data || data.interviewers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-slate-800 dark:text-slate-200 flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" />
+          Interview Feedback
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {data.blind ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400 flex items-center gap-2">
+            <EyeOff className="w-4 h-4" />
+            Feedback from other interviewers is hidden until you submit your own scorecard from the Interviews page.
+          </p>
+        ) : (
+          <>
+            {data.aggregate && <ScorecardAggregateSummary aggregate={data.aggregate} />}
+            {data.myScorecard?.status === "submitted" && (
+              <SubmittedScorecard scorecard={data.myScorecard} template={data.template} title="Your scorecard" />
+            )}
+            {data.scorecards.map((scorecard) => (
+              <SubmittedScorecard key={scorecard.id} scorecard={scorecard} template={data.template} title={scorecard.interviewerName} />
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
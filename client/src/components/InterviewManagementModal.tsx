@@ -31,9 +31,10 @@ import {
   Trash2,
   ExternalLink,
 } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { format, parseISO, isAfter, isBefore, startOfDay } from "date-fns";
+import { normalizeTimeZone, timeZoneOptions, formatInstant } from "@/lib/timeZones";
 
 interface Interview {
   id: string;
@@ -44,6 +45,9 @@ interface Interview {
   jobTitle: string;
   scheduledDate: string;
   scheduledTime: string;
+  timeZone?: string;
+  scheduledAt?: string | null;
+  durationMinutes?: number;
   interviewType: string;
   meetingLink?: string;
   interviewer: string;
@@ -63,6 +67,12 @@ interface Interview {
   };
 }
 
+// Stored instant when present; older rows only carry the wall-clock date and time
+const interviewStart = (interview: Interview) =>
+  interview.scheduledAt
+    ? new Date(interview.scheduledAt)
+    : new Date(`${interview.scheduledDate} ${interview.scheduledTime}`);
+
 interface InterviewManagementModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -121,7 +131,7 @@ export function InterviewManagementModal({
       console.error("❌ Error details:", error.message);
       toast({
         title: "Error",
-        description: error.message || "Failed to save interview",
+        description: (error.message && errorMessage(error)) || "Failed to save interview",
         variant: "destructive",
       });
     },
@@ -164,16 +174,12 @@ export function InterviewManagementModal({
   // Filter interviews by status
   const now = new Date();
   const upcomingInterviews = interviews.filter((interview) => {
-    const interviewDateTime = new Date(
-      `${interview.scheduledDate} ${interview.scheduledTime}`,
-    );
+    const interviewDateTime = interviewStart(interview);
     return isAfter(interviewDateTime, now) && interview.status === "scheduled";
   });
 
   const pastInterviews = interviews.filter((interview) => {
-    const interviewDateTime = new Date(
-      `${interview.scheduledDate} ${interview.scheduledTime}`,
-    );
+    const interviewDateTime = interviewStart(interview);
     return isBefore(interviewDateTime, now) || interview.status === "completed";
   });
 
@@ -241,13 +247,19 @@ export function InterviewManagementModal({
           <div className="space-y-3">
             <div className="flex items-center space-x-2 text-sm">
               <Calendar className="h-4 w-4 text-gray-500" />
-              <span>{interview.scheduledDate}</span>
-              <Clock className="h-4 w-4 text-gray-500 ml-2" />
-              <span>{interview.scheduledTime}</span>
-              {interview.timeZone && (
-                <span className="text-xs text-gray-400 ml-1">
-                  ({interview.timeZone})
-                </span>
+              {interview.scheduledAt ? (
+                <span>{formatInstant(interview.scheduledAt)}</span>
+              ) : (
+                <>
+                  <span>{interview.scheduledDate}</span>
+                  <Clock className="h-4 w-4 text-gray-500 ml-2" />
+                  <span>{interview.scheduledTime}</span>
+                  {interview.timeZone && (
+                    <span className="text-xs text-gray-400 ml-1">
+                      ({interview.timeZone})
+                    </span>
+                  )}
+                </>
               )}
             </div>
 
@@ -323,7 +335,7 @@ export function InterviewManagementModal({
       jobTitle: interview?.jobTitle || "",
       scheduledDate: interview?.scheduledDate || "",
       scheduledTime: interview?.scheduledTime || "",
-      timeZone: interview?.timeZone || "UTC",
+      timeZone: normalizeTimeZone(interview?.timeZone),
       interviewType: interview?.interviewType || "video",
       meetingLink: interview?.meetingLink || "",
       notes: interview?.notes || "",
@@ -511,36 +523,11 @@ export function InterviewManagementModal({
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="UTC">UTC</SelectItem>
-                    <SelectItem value="America/New_York">
-                      Eastern Time (ET)
-                    </SelectItem>
-                    <SelectItem value="America/Chicago">
-                      Central Time (CT)
-                    </SelectItem>
-                    <SelectItem value="America/Denver">
-                      Mountain Time (MT)
-                    </SelectItem>
-                    <SelectItem value="America/Los_Angeles">
-                      Pacific Time (PT)
-                    </SelectItem>
-                    <SelectItem value="Europe/London">London (GMT)</SelectItem>
-                    <SelectItem value="Europe/Paris">Paris (CET)</SelectItem>
-                    <SelectItem value="Europe/Berlin">Berlin (CET)</SelectItem>
-                    <SelectItem value="Asia/Tokyo">Tokyo (JST)</SelectItem>
-                    <SelectItem value="Asia/Shanghai">
-                      Shanghai (CST)
-                    </SelectItem>
-                    <SelectItem value="Asia/Dubai">Dubai (GST)</SelectItem>
-                    <SelectItem value="Australia/Sydney">
-                      Sydney (AEST)
-                    </SelectItem>
-                    <SelectItem value="America/Toronto">
-                      Toronto (ET)
-                    </SelectItem>
-                    <SelectItem value="America/Vancouver">
-                      Vancouver (PT)
-                    </SelectItem>
+                    {timeZoneOptions(formData.timeZone).map((tz) => (
+                      <SelectItem key={tz.value} value={tz.value}>
+                        {tz.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -698,12 +685,8 @@ export function InterviewManagementModal({
                 upcomingInterviews
                   .sort(
                     (a, b) =>
-                      new Date(
-                        `${a.scheduledDate} ${a.scheduledTime}`,
-                      ).getTime() -
-                      new Date(
-                        `${b.scheduledDate} ${b.scheduledTime}`,
-                      ).getTime(),
+                      interviewStart(a).getTime() -
+                      interviewStart(b).getTime(),
                   )
                   .map((interview) => (
                     <InterviewCard key={interview.id} interview={interview} />
@@ -726,12 +709,8 @@ export function InterviewManagementModal({
                 pastInterviews
                   .sort(
                     (a, b) =>
-                      new Date(
-                        `${b.scheduledDate} ${b.scheduledTime}`,
-                      ).getTime() -
-                      new Date(
-                        `${a.scheduledDate} ${a.scheduledTime}`,
-                      ).getTime(),
+                      interviewStart(b).getTime() -
+                      interviewStart(a).getTime(),
                   )
                   .map((interview) => (
                     <InterviewCard key={interview.id} interview={interview} />
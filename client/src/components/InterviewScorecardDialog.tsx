@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { EyeOff, Loader2, Lock, Users } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InterviewScorecard, ScorecardRecommendation, ScorecardTemplate } from "@shared/schema";
+
+export type PanelRecommendation = "strong_hire" | "hire" | "mixed" | "no_hire" | "strong_no_hire";
+
+export interface ScorecardAggregate {
+  submitted: number;
+  pending: number;
+  recommendation: PanelRecommendation | null;
+  votes: Record<ScorecardRecommendation, number>;
+  averageRating: number | null;
+  competencyAverages: Array<{ key: string; name: string; average: number; max: number }>;
+}
+
+export interface ScorecardView {
+  template: ScorecardTemplate;
+  interviewers: Array<{ userId: string; name: string; status: string; submittedAt: string | null }>;
+  myScorecard: InterviewScorecard | null;
+  scorecards: Array<InterviewScorecard & { interviewerName: string }>;
+  blind: boolean;
+  aggregate: ScorecardAggregate | null;
+}
+
+export const RECOMMENDATION_LABELS: Record<ScorecardRecommendation, string> = {
+  strong_no: "Strong no",
+  no: "No",
+  yes: "Yes",
+  strong_yes: "Strong yes",
+};
+
+export const PANEL_LABELS: Record<PanelRecommendation, { label: string; className: string }> = {
+  strong_hire: { label: "Strong hire", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" },
+  hire: { label: "Hire", className: "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400" },
+  mixed: { label: "Mixed", className: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300" },
+  no_hire: { label: "No hire", className: "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400" },
+  strong_no_hire: { label: "Strong no hire", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" },
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Not started",
+  draft: "Draft",
+  submitted: "Submitted",
+};
+
+const ratingLabel = (template: ScorecardTemplate, rating: number) =>
+  template.ratingScale.labels[rating - 1] ? `${rating} · ${template.ratingScale.labels[rating - 1]}` : String(rating);
+
+// Panel-level outcome: recommendation, votes and per-competency averages
+export function ScorecardAggregateSummary({ aggregate }: { aggregate: ScorecardAggregate }) {
+  if (aggregate.submitted === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        No scorecards submitted yet{aggregate.pending > 0 ? ` (${aggregate.pending} outstanding)` : ""}.
+      </p>
+    );
+  }
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {aggregate.recommendation && (
+          <Badge className={PANEL_LABELS[aggregate.recommendation].className}>{PANEL_LABELS[aggregate.recommendation].label}</Badge>
+        )}
+        <span className="text-sm text-slate-600 dark:text-slate-400">
+          {aggregate.submitted} submitted{aggregate.pending > 0 ? `, ${aggregate.pending} outstanding` : ""}
+          {aggregate.averageRating !== null ? ` · average rating ${aggregate.averageRating}%` : ""}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(Object.keys(RECOMMENDATION_LABELS) as ScorecardRecommendation[])
+          .filter((recommendation) => aggregate.votes[recommendation] > 0)
+          .map((recommendation) => (
+            <Badge key={recommendation} variant="outline">
+              {RECOMMENDATION_LABELS[recommendation]}: {aggregate.votes[recommendation]}
+            </Badge>
+          ))}
+      </div>
+      {aggregate.competencyAverages.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {aggregate.competencyAverages.map((competency) => (
+            <div key={competency.key} className="p-2 bg-slate-50 dark:bg-slate-800 rounded-lg">
+              <p className="text-xs text-slate-500 dark:text-slate-400">{competency.name}</p>
+              <p className="text-sm font-medium text-slate-900 dark:text-white">{competency.average} / {competency.max}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A submitted scorecard, read-only
+export function SubmittedScorecard({ scorecard, template, title }: {
+  scorecard: InterviewScorecard;
+  template: ScorecardTemplate;
+  title: string;
+}) {
+  const used = scorecard.template || template;
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-sm text-slate-900 dark:text-white">{title}</p>
+        {scorecard.recommendation && (
+          <Badge variant="outline">{RECOMMENDATION_LABELS[scorecard.recommendation]}</Badge>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        {used.competencies.map((competency) => (
+          <p key={competency.key} className="text-slate-700 dark:text-slate-300">
+            <span className="text-slate-500 dark:text-slate-400">{competency.name}:</span>{" "}
+            {scorecard.ratings?.[competency.key] ? ratingLabel(used, scorecard.ratings[competency.key]) : "-"}
+          </p>
+        ))}
+      </div>
+      {used.questions.filter((question) => scorecard.answers?.[question.key]).map((question) => (
+        <div key={question.key} className="text-sm">
+          <p className="text-slate-500 dark:text-slate-400">{question.text}</p>
+          <p className="text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{scorecard.answers![question.key]}</p>
+        </div>
+      ))}
+      {scorecard.notes && (
+        <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{scorecard.notes}</p>
+      )}
+    </div>
+  );
+}
+
+interface InterviewScorecardDialogProps {
+  interview: { id: string; candidateName?: string | null; jobTitle?: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function InterviewScorecardDialog({ interview, onOpenChange }: InterviewScorecardDialogProps) {
+  const { toast } = useToast();
+  const scorecardsUrl = interview ? `/api/interviews/${interview.id}/scorecards` : "";
+  const { data: view, isLoading } = useQuery<ScorecardView>({
+    queryKey: [scorecardsUrl],
+    enabled: !!interview,
+  });
+  const { data: teamMembers = [] } = useQuery<Array<{ userId: string; name: string | null; email: string }>>({
+    queryKey: ["/api/companies/team"],
+    enabled: !!interview,
+  });
+
+  const [panel, setPanel] = useState<string[]>([]);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [recommendation, setRecommendation] = useState<ScorecardRecommendation | null>(null);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (view) {
+      setPanel(view.interviewers.map((interviewer) => interviewer.userId));
+      setRatings(view.myScorecard?.ratings || {});
+      setAnswers(view.myScorecard?.answers || {});
+      setRecommendation(view.myScorecard?.recommendation || null);
+      setNotes(view.myScorecard?.notes || "");
+    }
+  }, [view]);
+
+  const onSaved = (data: ScorecardView) => {
+    queryClient.setQueryData([scorecardsUrl], data);
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).endsWith("/interview-feedback") });
+  };
+
+  const panelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/interviews/${interview!.id}/interviewers`, { userIds: panel });
+      return response.json();
+    },
+    onSuccess: (data: ScorecardView) => {
+      onSaved(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/interviews"] });
+      toast({ title: "Interview panel updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update panel", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const scorecardMutation = useMutation({
+    mutationFn: async (submit: boolean) => {
+      const response = await apiRequest("PUT", `/api/interviews/${interview!.id}/scorecards/mine`, {
+        ratings, answers, recommendation, notes, submit,
+      });
+      return response.json();
+    },
+    onSuccess: (data: ScorecardView, submit) => {
+      onSaved(data);
+      toast({ title: submit ? "Scorecard submitted" : "Draft saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save scorecard", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const template = view?.template;
+  const mine = view?.myScorecard;
+  const editable = !!mine && mine.status !== "submitted";
+
+  return (
+    <Dialog open={!!interview} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Interview Scorecards</DialogTitle>
+          <DialogDescription>
+            {interview?.candidateName}{interview?.jobTitle ? ` · ${interview.jobTitle}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !view || !template ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Panel */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2"><Users className="w-4 h-4" />Interview panel</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {teamMembers.map((member) => {
+                  const assigned = view.interviewers.find((interviewer) => interviewer.userId === member.userId);
+                  return (
+                    <label key={member.userId} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <Checkbox checked={panel.includes(member.userId)}
+                        disabled={assigned?.status === "submitted"}
+                        onCheckedChange={(checked) => setPanel(checked === true
+                          ? [...panel, member.userId]
+                          : panel.filter((id) => id !== member.userId))} />
+                      <span className="truncate">{member.name || member.email}</span>
+                      {assigned && (
+                        <Badge variant="secondary" className="text-xs">{STATUS_LABELS[assigned.status] || assigned.status}</Badge>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+              <Button size="sm" variant="outline" onClick={() => panelMutation.mutate()} disabled={panelMutation.isPending}>
+                {panelMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Panel
+              </Button>
+            </div>
+
+            {/* Own scorecard */}
+            {mine && (
+              editable ? (
+                <div className="space-y-4 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+                  <p className="font-medium text-slate-900 dark:text-white">Your scorecard</p>
+                  {template.competencies.map((competency) => (
+                    <div key={competency.key} className="space-y-1">
+                      <Label>{competency.name}</Label>
+                      {competency.description && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">{competency.description}</p>
+                      )}
+                      <div className="flex flex-wrap gap-1">
+                        {Array.from({ length: template.ratingScale.max }, (_, i) => i + 1).map((rating) => (
+                          <Button key={rating} type="button" size="sm"
+                            variant={ratings[competency.key] === rating ? "default" : "outline"}
+                            title={template.ratingScale.labels[rating - 1] || undefined}
+                            onClick={() => setRatings({ ...ratings, [competency.key]: rating })}>
+                            {rating}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  {template.questions.map((question) => (
+                    <div key={question.key} className="space-y-1">
+                      <Label>{question.text}{question.required && <span className="text-red-500"> *</span>}</Label>
+                      <Textarea rows={2} value={answers[question.key] || ""}
+                        onChange={(e) => setAnswers({ ...answers, [question.key]: e.target.value })} />
+                    </div>
+                  ))}
+                  <div className="space-y-1">
+                    <Label>Notes</Label>
+                    <Textarea rows={3} value={notes} onChange={(e) => setNotes(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Recommendation</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(RECOMMENDATION_LABELS) as ScorecardRecommendation[]).map((option) => (
+                        <Button key={option} type="button" size="sm"
+                          variant={recommendation === option ? "default" : "outline"}
+                          onClick={() => setRecommendation(option)}>
+                          {RECOMMENDATION_LABELS[option]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => scorecardMutation.mutate(false)} disabled={scorecardMutation.isPending}>
+                      Save Draft
+                    </Button>
+                    <Button onClick={() => scorecardMutation.mutate(true)} disabled={scorecardMutation.isPending}>
+                      {scorecardMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Submit Scorecard
+                    </Button>
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                    <Lock className="w-3 h-3" />
+                    Submitted scorecards cannot be changed.
+                  </p>
+                </div>
+              ) : (
+                <SubmittedScorecard scorecard={mine} template={template} title="Your scorecard" />
+              )
+            )}
+
+            {/* Everyone else */}
+            {view.blind ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                <EyeOff className="w-4 h-4" />
+                Other interviewers' feedback is hidden until you submit your own scorecard.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {view.aggregate && <ScorecardAggregateSummary aggregate={view.aggregate} />}
+                {view.scorecards.map((scorecard) => (
+                  <SubmittedScorecard key={scorecard.id} scorecard={scorecard} template={template} title={scorecard.interviewerName} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2, X } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { browserTimeZone, timeZoneOptions } from "@/lib/timeZones";
+import type { WeeklyAvailability } from "@shared/schema";
+
+interface AvailabilitySettings {
+  timeZone: string;
+  weeklyHours: WeeklyAvailability;
+  blackoutDates: string[];
+  configured: boolean;
+}
+
+// Monday first, keyed by the server's Sunday = 0 weekday numbers
+const WEEKDAYS = [
+  { key: "1", label: "Monday" },
+  { key: "2", label: "Tuesday" },
+  { key: "3", label: "Wednesday" },
+  { key: "4", label: "Thursday" },
+  { key: "5", label: "Friday" },
+  { key: "6", label: "Saturday" },
+  { key: "0", label: "Sunday" },
+];
+
+const DEFAULT_WINDOW = { start: "09:00", end: "17:00" };
+
+// An hour-long window starting where the previous one ends
+const windowAfter = (end: string) => {
+  const hour = Math.min(Number(end.slice(0, 2)) + 1, 23);
+  return { start: end, end: hour > Number(end.slice(0, 2)) ? `${String(hour).padStart(2, "0")}${end.slice(2)}` : "23:59" };
+};
+
+// The signed-in user's weekly hours and days off, offered to candidates as bookable interview slots
+export function InterviewerAvailabilityEditor() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<AvailabilitySettings>({ queryKey: ["/api/interviewers/availability"] });
+  const [timeZone, setTimeZone] = useState(browserTimeZone());
+  const [weeklyHours, setWeeklyHours] = useState<WeeklyAvailability>({});
+  const [blackoutDates, setBlackoutDates] = useState<string[]>([]);
+  const [newBlackout, setNewBlackout] = useState("");
+
+  useEffect(() => {
+    if (data) {
+      // First-time users start from a working week in their own zone
+      setTimeZone(data.configured ? data.timeZone : browserTimeZone());
+      setWeeklyHours(data.configured
+        ? data.weeklyHours
+        : Object.fromEntries(["1", "2", "3", "4", "5"].map((day) => [day, [DEFAULT_WINDOW]])));
+      setBlackoutDates(data.blackoutDates);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/interviewers/availability", { timeZone, weeklyHours, blackoutDates });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Availability saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/interviewers/availability"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save availability", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const setDay = (day: string, windows: WeeklyAvailability[string]) => {
+    const next = { ...weeklyHours };
+    if (windows.length > 0) {
+      next[day] = windows;
+    } else {
+      delete next[day];
+    }
+    setWeeklyHours(next);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {data && !data.configured && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          You haven't published availability yet. Candidates can only book you once you save it.
+        </p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Label>Time zone</Label>
+        <Select value={timeZone} onValueChange={setTimeZone}>
+          <SelectTrigger className="w-[260px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {timeZoneOptions(timeZone).map((tz) => (
+              <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Weekly hours</Label>
+        {WEEKDAYS.map(({ key, label }) => {
+          const windows = weeklyHours[key] || [];
+          return (
+            <div key={key} className="grid grid-cols-[140px_1fr] gap-3 items-start">
+              <label className="flex items-center gap-2 text-sm pt-2 text-slate-700 dark:text-slate-300">
+                <Checkbox checked={windows.length > 0}
+                  onCheckedChange={(checked) => setDay(key, checked === true ? [DEFAULT_WINDOW] : [])} />
+                {label}
+              </label>
+              <div className="space-y-2">
+                {windows.length === 0 && <p className="text-sm text-slate-400 pt-2">Unavailable</p>}
+                {windows.map((window, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input type="time" className="w-[130px]" value={window.start}
+                      onChange={(e) => setDay(key, windows.map((item, i) => (i === index ? { ...item, start: e.target.value } : item)))} />
+                    <span className="text-slate-500">–</span>
+                    <Input type="time" className="w-[130px]" value={window.end}
+                      onChange={(e) => setDay(key, windows.map((item, i) => (i === index ? { ...item, end: e.target.value } : item)))} />
+                    <Button type="button" variant="ghost" size="icon"
+                      onClick={() => setDay(key, windows.filter((_, i) => i !== index))}>
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                    {index === windows.length - 1 && (
+                      <Button type="button" variant="ghost" size="icon"
+                        onClick={() => setDay(key, [...windows, windowAfter(window.end)])}>
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <Label>Blackout dates</Label>
+        <div className="flex items-center gap-2">
+          <Input type="date" className="w-[180px]" value={newBlackout} onChange={(e) => setNewBlackout(e.target.value)} />
+          <Button type="button" variant="outline" size="sm" disabled={!newBlackout}
+            onClick={() => {
+              setBlackoutDates(Array.from(new Set([...blackoutDates, newBlackout])).sort());
+              setNewBlackout("");
+            }}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Date
+          </Button>
+        </div>
+        {blackoutDates.length === 0 ? (
+          <p className="text-xs text-slate-500">No days off. Add holidays or leave so candidates can't book them.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {blackoutDates.map((date) => (
+              <Badge key={date} variant="secondary" className="flex items-center gap-1">
+                {date}
+                <button type="button" onClick={() => setBlackoutDates(blackoutDates.filter((item) => item !== date))}>
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+        {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Save Availability
+      </Button>
+    </div>
+  );
+}
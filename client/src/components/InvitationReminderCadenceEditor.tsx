@@ -0,0 +1,71 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { InvitationReminderStep } from "@shared/schema";
+
+export const DEFAULT_REMINDER_CADENCE: InvitationReminderStep[] = [
+  { channel: "email", delayHours: 1 },
+  { channel: "email", delayHours: 24 },
+  { channel: "voice_call", delayHours: 48 },
+];
+
+// "48 hours" reads better as "2 days" next to the input
+const describeDelay = (delayHours: number) =>
+  delayHours >= 24 && delayHours % 24 === 0 ? `${delayHours / 24} day${delayHours === 24 ? "" : "s"}` : null;
+
+interface InvitationReminderCadenceEditorProps {
+  value: InvitationReminderStep[];
+  onChange: (value: InvitationReminderStep[]) => void;
+}
+
+export function InvitationReminderCadenceEditor({ value, onChange }: InvitationReminderCadenceEditorProps) {
+  const setStep = (index: number, step: InvitationReminderStep) =>
+    onChange(value.map((item, i) => (i === index ? step : item)));
+
+  return (
+    <div className="space-y-3">
+      <Label>Reminder steps</Label>
+      {value.length === 0 && (
+        <p className="text-sm text-slate-500">No reminders: candidates only receive the invitation itself.</p>
+      )}
+      {value.map((step, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select value={step.channel}
+            onValueChange={(channel) => setStep(index, { ...step, channel: channel as InvitationReminderStep["channel"] })}>
+            <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="email">Email</SelectItem>
+              <SelectItem value="voice_call">Voice call</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-slate-500">after</span>
+          <Input type="number" min={1} max={720} className="w-[90px]" value={step.delayHours}
+            onChange={(e) => setStep(index, { ...step, delayHours: Math.max(1, parseInt(e.target.value) || 1) })} />
+          <span className="text-sm text-slate-500 w-[110px]">
+            hours{describeDelay(step.delayHours) && ` (${describeDelay(step.delayHours)})`}
+          </span>
+          <Button type="button" variant="ghost" size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}>
+            <Trash2 className="w-4 h-4 text-red-500" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" disabled={value.length >= 10}
+        onClick={() => {
+          const last = value[value.length - 1];
+          onChange([...value, { channel: "email", delayHours: last ? last.delayHours + 24 : 24 }]);
+        }}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Step
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Mail, Phone } from "lucide-react";
+import { format } from "date-fns";
+
+interface InvitationReminderView {
+  id: number;
+  jobId: string;
+  jobTitle: string;
+  stepIndex: number;
+  channel: "email" | "voice_call";
+  finalStep: boolean;
+  scheduledFor: string;
+  status: "pending" | "sent" | "skipped" | "failed" | "cancelled";
+  statusReason: string | null;
+  sentAt: string | null;
+}
+
+interface InvitationRemindersDialogProps {
+  target: { profileId: string; jobId?: string | number | null; name?: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_STYLES: Record<InvitationReminderView["status"], string> = {
+  pending: "bg-blue-100 text-blue-800 border-blue-200",
+  sent: "bg-green-100 text-green-800 border-green-200",
+  skipped: "bg-slate-100 text-slate-700 border-slate-200",
+  failed: "bg-red-100 text-red-800 border-red-200",
+  cancelled: "bg-slate-100 text-slate-500 border-slate-200",
+};
+
+// Why a step didn't go out, in words
+const describeReason = (reason: string | null) => {
+  if (!reason) return null;
+  if (reason === "no_phone_number") return "no phone number on file";
+  if (reason === "replaced") return "invitation was resent";
+  if (reason === "status_expired") return "invitation expired";
+  if (reason === "status_in_progress") return "candidate started the interview";
+  if (reason.startsWith("status_")) return `candidate moved to ${reason.slice("status_".length)}`;
+  return reason.replace(/_/g, " ");
+};
+
+// Pending and past invitation reminders for one candidate
+export function InvitationRemindersDialog({ target, onOpenChange }: InvitationRemindersDialogProps) {
+  const url = target
+    ? `/api/resume-profiles/${target.profileId}/invitation-reminders${target.jobId ? `?jobId=${target.jobId}` : ""}`
+    : "";
+  const { data: reminders = [], isLoading } = useQuery<InvitationReminderView[]>({
+    queryKey: [url],
+    enabled: !!target,
+  });
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invitation Reminders</DialogTitle>
+          <DialogDescription>
+            Reminders for {target?.name || "this candidate"} stop once they start the AI interview.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : reminders.length === 0 ? (
+          <p className="text-sm text-slate-500 py-4 text-center">No reminders have been scheduled.</p>
+        ) : (
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {reminders.map((reminder) => (
+              <div key={reminder.id} className="flex items-start justify-between gap-3 rounded-md border border-slate-200 dark:border-slate-700 p-3">
+                <div className="flex items-start gap-2">
+                  {reminder.channel === "voice_call"
+                    ? <Phone className="w-4 h-4 mt-0.5 text-slate-500" />
+                    : <Mail className="w-4 h-4 mt-0.5 text-slate-500" />}
+                  <div>
+                    <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
+                      {reminder.channel === "voice_call" ? "Voice call" : reminder.finalStep ? "Final email" : "Email"}
+                      <span className="font-normal text-slate-500"> · {reminder.jobTitle}</span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {reminder.sentAt
+                        ? `Sent ${format(new Date(reminder.sentAt), "MMM d, yyyy h:mm a")}`
+                        : `Due ${format(new Date(reminder.scheduledFor), "MMM d, yyyy h:mm a")}`}
+                      {describeReason(reminder.statusReason) && ` · ${describeReason(reminder.statusReason)}`}
+                    </p>
+                  </div>
+                </div>
+                <Badge variant="outline" className={STATUS_STYLES[reminder.status]}>{reminder.status}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
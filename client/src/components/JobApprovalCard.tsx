@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { JobApprovalAction, JobApprovalStatus, RequisitionApprovalStep } from "@shared/schema";
+
+interface JobApprovalRequestView {
+  id: number;
+  status: JobApprovalStatus;
+  chain: RequisitionApprovalStep[];
+  currentStep: number;
+  publishOnApproval: boolean;
+  requestedByName: string;
+  createdAt: string;
+  events: Array<{
+    id: number;
+    action: JobApprovalAction;
+    stepIndex: number | null;
+    actorName: string;
+    comment: string | null;
+    createdAt: string;
+  }>;
+}
+
+interface JobApprovalState {
+  required: boolean;
+  chain: RequisitionApprovalStep[];
+  publishBlocker: string | null;
+  canDecide: boolean;
+  requests: JobApprovalRequestView[];
+}
+
+const STATUS_STYLES: Record<JobApprovalStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 border-amber-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+  cancelled: "bg-slate-100 text-slate-500 border-slate-200",
+};
+
+const ACTION_LABELS: Record<JobApprovalAction, string> = {
+  submitted: "submitted for approval",
+  approved: "approved",
+  rejected: "rejected",
+  commented: "commented",
+  cancelled: "withdrew the request",
+};
+
+// Requisition approval status, history and actions for one job
+export function JobApprovalCard({ jobId, jobStatus }: { jobId: string; jobStatus: string }) {
+  const { toast } = useToast();
+  const [comment, setComment] = useState("");
+  const [publishOnApproval, setPublishOnApproval] = useState(true);
+  const approvalUrl = `/api/job-postings/${jobId}/approval`;
+  const { data, isLoading } = useQuery<JobApprovalState>({ queryKey: [approvalUrl] });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [approvalUrl] });
+    queryClient.invalidateQueries({ queryKey: [`/api/job-postings/${jobId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/job-postings"] });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/job-postings/${jobId}/approval-requests`, { comment, publishOnApproval });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Sent for approval" });
+      setComment("");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not submit for approval", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ requestId, action }: { requestId: number; action: "approve" | "reject" | "comments" | "cancel" }) => {
+      const body = action === "reject" ? { reason: comment } : { comment };
+      const response = await apiRequest("POST", `/api/job-approval-requests/${requestId}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (_result, { action }) => {
+      const titles = { approve: "Approved", reject: "Rejected", comments: "Comment added", cancel: "Request withdrawn" };
+      toast({ title: titles[action] });
+      setComment("");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update approval", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data) {
+    return null;
+  }
+  const latest = data.requests[0];
+  if (!data.required && !latest) {
+    return null;
+  }
+  const canSubmit = data.required && jobStatus === "draft" && latest?.status !== "pending" && !!data.publishBlocker;
+  const busy = submitMutation.isPending || actionMutation.isPending;
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Approval
+          {latest && <Badge variant="outline" className={STATUS_STYLES[latest.status]}>{latest.status}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {latest && (
+          <div className="space-y-1.5">
+            {latest.chain.map((step, index) => {
+              const done = latest.status === "approved" || index < latest.currentStep;
+              const failed = latest.status === "rejected" && index === latest.currentStep;
+              return (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  {done ? <CheckCircle2 className="w-4 h-4 text-green-600" />
+                    : failed ? <XCircle className="w-4 h-4 text-red-600" />
+                    : <Circle className={`w-4 h-4 ${latest.status === "pending" && index === latest.currentStep ? "text-amber-500" : "text-slate-300"}`} />}
+                  <span className="text-slate-700 dark:text-slate-300">{step.name}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {jobStatus === "draft" && data.publishBlocker && latest?.status !== "pending" && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{data.publishBlocker}</p>
+        )}
+
+        {(canSubmit || latest?.status === "pending") && (
+          <Textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={2}
+            placeholder={data.canDecide ? "Comment or reason for rejecting" : "Add a comment"} />
+        )}
+
+        {canSubmit && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox checked={publishOnApproval} onCheckedChange={(checked) => setPublishOnApproval(checked === true)} />
+              <Label className="text-sm font-normal">Publish as soon as it is approved</Label>
+            </div>
+            <Button className="w-full" onClick={() => submitMutation.mutate()} disabled={busy}>
+              {submitMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Submit for Approval
+            </Button>
+          </div>
+        )}
+
+        {latest?.status === "pending" && (
+          <div className="flex flex-wrap gap-2">
+            {data.canDecide && (
+              <>
+                <Button size="sm" disabled={busy}
+                  onClick={() => actionMutation.mutate({ requestId: latest.id, action: "approve" })}>
+                  Approve
+                </Button>
+                <Button size="sm" variant="destructive" disabled={busy || !comment.trim()}
+                  onClick={() => actionMutation.mutate({ requestId: latest.id, action: "reject" })}>
+                  Reject
+                </Button>
+              </>
+            )}
+            <Button size="sm" variant="outline" disabled={busy || !comment.trim()}
+              onClick={() => actionMutation.mutate({ requestId: latest.id, action: "comments" })}>
+              Comment
+            </Button>
+            <Button size="sm" variant="ghost" disabled={busy}
+              onClick={() => actionMutation.mutate({ requestId: latest.id, action: "cancel" })}>
+              Withdraw
+            </Button>
+          </div>
+        )}
+
+        {latest && (
+          <div className="space-y-2 border-t border-slate-200 dark:border-slate-700 pt-3 max-h-64 overflow-y-auto">
+            {latest.events.map((event) => (
+              <div key={event.id} className="text-sm">
+                <p className="text-slate-700 dark:text-slate-300">
+                  <span className="font-medium">{event.actorName}</span> {ACTION_LABELS[event.action]}
+                  {event.stepIndex !== null && latest.chain[event.stepIndex] && ` (${latest.chain[event.stepIndex].name})`}
+                </p>
+                {event.comment && <p className="text-slate-600 dark:text-slate-400 whitespace-pre-wrap">{event.comment}</p>}
+                <p className="text-xs text-slate-400">{format(new Date(event.createdAt), "MMM d, yyyy h:mm a")}</p>
+              </div>
+            ))}
+            {data.requests.length > 1 && (
+              <p className="text-xs text-slate-500">
+                {data.requests.length - 1} earlier request{data.requests.length > 2 ? "s" : ""}:{" "}
+                {data.requests.slice(1).map((request) => request.status).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
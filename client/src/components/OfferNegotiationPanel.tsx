@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { MessagesSquare, Loader2, FileText } from 'lucide-react';
+import { apiRequest, errorMessage } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { OfferMergeValues, OfferNegotiableField, OfferNegotiationSource, OfferTermChanges } from '@shared/schema';
+
+export interface OfferNegotiationEntryView {
+  id: number;
+  source: OfferNegotiationSource;
+  changes: OfferTermChanges;
+  note: string | null;
+  offerVersion: number;
+  revisedVersion: number | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+interface OfferNegotiationPanelProps {
+  offerId: string;
+  candidateName: string;
+  mergeValues: OfferMergeValues | null;
+  entries: OfferNegotiationEntryView[];
+  canNegotiate: boolean;
+  onChanged: () => void;
+  onRevised: (offer: { offerContent: string }) => void;
+}
+
+const TERM_FIELDS: Array<{ field: OfferNegotiableField; label: string }> = [
+  { field: 'salary', label: 'Salary' },
+  { field: 'start_date', label: 'Start Date' },
+  { field: 'benefits', label: 'Benefits' },
+];
+
+// Counter-offers exchanged on a sent offer, and revised letters generated from them
+export function OfferNegotiationPanel({ offerId, candidateName, mergeValues, entries, canNegotiate, onChanged, onRevised }: OfferNegotiationPanelProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<OfferNegotiationSource>('candidate');
+  const [terms, setTerms] = useState<Partial<Record<OfferNegotiableField, string>>>({});
+  const [note, setNote] = useState('');
+
+  const startEntry = () => {
+    setTerms(Object.fromEntries(TERM_FIELDS.map(({ field }) => [field, mergeValues?.[field] || ''])));
+    setNote('');
+    setOpen(true);
+  };
+
+  const logMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/offer-letters/${offerId}/negotiation`, { source, terms, note });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Counter-offer logged' });
+      setOpen(false);
+      onChanged();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not log counter-offer', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const reviseMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      const response = await apiRequest('POST', `/api/offer-negotiation-entries/${entryId}/revise`);
+      return response.json() as Promise<{ offerContent: string }>;
+    },
+    onSuccess: (revised) => {
+      toast({ title: 'Revised letter drafted', description: 'Review it, then send it to replace the earlier version.' });
+      onChanged();
+      onRevised(revised);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not revise offer', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  if (!canNegotiate && entries.length === 0) {
+    return null;
+  }
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100 text-sm";
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <MessagesSquare className="w-4 h-4" />
+          Negotiation
+        </p>
+        {canNegotiate && !open && (
+          <button onClick={startEntry} className="text-sm text-primary hover:underline">Log counter-offer</button>
+        )}
+      </div>
+
+      {open && (
+        <div className="space-y-3 rounded-lg bg-gray-50 dark:bg-gray-900 p-3">
+          <select value={source} onChange={(e) => setSource(e.target.value as OfferNegotiationSource)} className={inputClass}>
+            <option value="candidate">{candidateName} proposed</option>
+            <option value="company">We proposed</option>
+          </select>
+          <div className="grid grid-cols-2 gap-3">
+            {TERM_FIELDS.map(({ field, label }) => (
+              <div key={field} className={field === 'benefits' ? 'col-span-2' : ''}>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+                {field === 'benefits' ? (
+                  <textarea rows={3} value={terms[field] || ''} className={`${inputClass} resize-none`}
+                    onChange={(e) => setTerms({ ...terms, [field]: e.target.value })} />
+                ) : (
+                  <input value={terms[field] || ''} className={inputClass}
+                    onChange={(e) => setTerms({ ...terms, [field]: e.target.value })} />
+                )}
+              </div>
+            ))}
+          </div>
+          <textarea rows={2} value={note} placeholder="Note (optional)" className={`${inputClass} resize-none`}
+            onChange={(e) => setNote(e.target.value)} />
+          <div className="flex gap-2">
+            <button onClick={() => logMutation.mutate()} disabled={logMutation.isPending}
+              className="flex items-center gap-2 px-3 py-1.5 bg-primary text-white rounded-lg text-sm disabled:opacity-50">
+              {logMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+            <button onClick={() => setOpen(false)} className="px-3 py-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-sm">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No counter-offers yet.</p>
+      ) : (
+        <div className="space-y-3 max-h-72 overflow-y-auto">
+          {entries.map((entry) => (
+            <div key={entry.id} className="text-sm border-l-2 border-gray-200 dark:border-gray-700 pl-3 space-y-1">
+              <p className="text-gray-700 dark:text-gray-300">
+                <span className="font-medium">{entry.source === 'candidate' ? candidateName : 'Company'}</span>
+                {' '}on v{entry.offerVersion}
+                {entry.createdByName && ` • logged by ${entry.createdByName}`}
+                {' '}• {new Date(entry.createdAt).toLocaleString()}
+              </p>
+              {TERM_FIELDS.filter(({ field }) => entry.changes[field]).map(({ field, label }) => (
+                <p key={field} className="text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                  {label}: <span className="line-through">{entry.changes[field]!.from || '—'}</span> → <strong>{entry.changes[field]!.to}</strong>
+                </p>
+              ))}
+              {entry.note && <p className="text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{entry.note}</p>}
+              {entry.revisedVersion ? (
+                <p className="text-xs text-green-700 dark:text-green-400">Revised letter: v{entry.revisedVersion}</p>
+              ) : canNegotiate && Object.keys(entry.changes).length > 0 && (
+                <button onClick={() => reviseMutation.mutate(entry.id)} disabled={reviseMutation.isPending}
+                  className="flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50">
+                  <FileText className="w-3 h-3" />
+                  Generate revised letter
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { OFFER_MERGE_FIELDS } from "@shared/schema";
+
+interface OfferTemplateView {
+  id: number;
+  name: string;
+  subject: string | null;
+  body: string;
+  isDefault: boolean;
+}
+
+interface OfferTemplatesResponse {
+  templates: OfferTemplateView[];
+  builtIn: { name: string; subject: string | null; body: string };
+  offerApprovalRequired: boolean;
+}
+
+type TemplateDraft = Omit<OfferTemplateView, "id"> & { id: number | null };
+
+// Organization offer letter templates, plus whether offers need approval before sending
+export function OfferTemplatesEditor() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<OfferTemplatesResponse>({ queryKey: ["/api/offer-templates"] });
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/offer-templates"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (template: TemplateDraft) => {
+      const { id, ...body } = template;
+      const response = id
+        ? await apiRequest("PUT", `/api/offer-templates/${id}`, body)
+        : await apiRequest("POST", "/api/offer-templates", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Template saved" });
+      setDraft(null);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save template", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/offer-templates/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Template deleted" });
+      setDraft(null);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete template", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const approvalMutation = useMutation({
+    mutationFn: async (offerApprovalRequired: boolean) => {
+      const response = await apiRequest("PUT", "/api/organizations/current/offer-settings", { offerApprovalRequired });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update offer settings", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // Insert a merge field at the cursor
+  const insertField = (field: string) => {
+    if (!draft) return;
+    const textarea = bodyRef.current;
+    const position = textarea ? textarea.selectionStart : draft.body.length;
+    const token = `{{${field}}}`;
+    setDraft({ ...draft, body: draft.body.slice(0, position) + token + draft.body.slice(position) });
+  };
+
+  if (isLoading || !data) {
+    return <Loader2 className="w-5 h-5 animate-spin text-primary" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Checkbox checked={data.offerApprovalRequired} disabled={approvalMutation.isPending}
+          onCheckedChange={(checked) => approvalMutation.mutate(checked === true)} />
+        <Label className="font-normal">Require a teammate's approval before an offer is sent</Label>
+      </div>
+
+      <div className="space-y-2">
+        {data.templates.length === 0 && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Offers use the built-in "{data.builtIn.name}" template until you add your own.
+          </p>
+        )}
+        {data.templates.map((template) => (
+          <div key={template.id} className="flex items-center justify-between rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+            <span className="flex items-center gap-2 text-sm font-medium text-slate-800 dark:text-slate-200">
+              {template.name}
+              {template.isDefault && <Badge variant="outline">Default</Badge>}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" onClick={() => setDraft(template)}>Edit</Button>
+              <Button variant="ghost" size="icon" disabled={deleteMutation.isPending} onClick={() => deleteMutation.mutate(template.id)}>
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {!draft && (
+          <Button variant="outline" onClick={() => setDraft({
+            id: null,
+            name: "",
+            subject: data.builtIn.subject,
+            body: data.builtIn.body,
+            isDefault: data.templates.length === 0,
+          })}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Template
+          </Button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Name</Label>
+              <Input className="mt-1" value={draft.name} maxLength={80} placeholder="e.g. Engineering offer"
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div>
+              <Label>Email Subject (optional)</Label>
+              <Input className="mt-1" value={draft.subject || ""} placeholder="Job Offer: {{position}} at {{company_name}}"
+                onChange={(e) => setDraft({ ...draft, subject: e.target.value })} />
+            </div>
+          </div>
+          <div>
+            <Label>Letter</Label>
+            <div className="flex flex-wrap gap-1.5 my-2">
+              {OFFER_MERGE_FIELDS.map((field) => (
+                <Badge key={field} variant="secondary" className="cursor-pointer font-mono text-xs" onClick={() => insertField(field)}>
+                  {`{{${field}}}`}
+                </Badge>
+              ))}
+            </div>
+            <Textarea ref={bodyRef} rows={16} className="font-mono text-sm" value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })} />
+            <p className="text-xs text-slate-500 mt-1">
+              Lines whose merge fields are all empty are left out of the letter. Benefits are listed one per line.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox checked={draft.isDefault} onCheckedChange={(checked) => setDraft({ ...draft, isDefault: checked === true })} />
+            <Label className="font-normal">Use for new offers by default</Label>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+            <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
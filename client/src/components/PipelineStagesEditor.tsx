@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface PipelineStageDefinition {
+  key: string;
+  name: string;
+  category: "active" | "hired" | "rejected";
+  applicationStatus: "applied" | "shortlisted" | "accepted" | "denied";
+  allowedTransitions: string[] | null;
+  color: string | null;
+}
+
+export interface PipelineStagesResponse {
+  stages: PipelineStageDefinition[];
+  source: "job" | "organization" | "default";
+}
+
+const CATEGORY_LABELS: Record<PipelineStageDefinition["category"], string> = {
+  active: "In progress",
+  hired: "Hired",
+  rejected: "Rejected",
+};
+
+const toStageKey = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").replace(/^(\d)/, "s_$1").slice(0, 40) || "stage";
+
+// Edits the organization pipeline, or one job's own stages when jobId is set
+export function PipelineStagesEditor({ jobId }: { jobId: number | null }) {
+  const { toast } = useToast();
+  const stagesUrl = jobId ? `/api/pipeline/stages?jobId=${jobId}` : "/api/pipeline/stages";
+  const { data, isLoading } = useQuery<PipelineStagesResponse>({ queryKey: [stagesUrl] });
+  const [stages, setStages] = useState<PipelineStageDefinition[]>([]);
+  // Keys of stages loaded from the server stay fixed, since applications reference them
+  const [savedKeys, setSavedKeys] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (data) {
+      setStages(data.stages);
+      setSavedKeys(new Set(data.stages.map((stage) => stage.key)));
+    }
+  }, [data]);
+
+  // Stage lists and boards are keyed by URL, so match every pipeline query
+  const invalidate = () =>
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/pipeline/") });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/pipeline/stages", { jobId, stages });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Pipeline saved" });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save pipeline", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/pipeline/stages/jobs/${jobId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "This job now follows the organization pipeline" });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not reset pipeline", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const update = (index: number, changes: Partial<PipelineStageDefinition>) =>
+    setStages(stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+
+  // Unsaved stages take their key from the name; transitions pointing at the old key follow it
+  const rename = (index: number, name: string) => {
+    const previousKey = stages[index].key;
+    if (savedKeys.has(previousKey)) {
+      update(index, { name });
+      return;
+    }
+    const key = toStageKey(name);
+    setStages(stages.map((stage, i) => i === index
+      ? { ...stage, name, key }
+      : stage.allowedTransitions
+        ? { ...stage, allowedTransitions: stage.allowedTransitions.map((target) => (target === previousKey ? key : target)) }
+        : stage));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = stages.slice();
+    const [stage] = next.splice(index, 1);
+    next.splice(index + offset, 0, stage);
+    setStages(next);
+  };
+
+  const remove = (index: number) => {
+    const key = stages[index].key;
+    setStages(stages
+      .filter((_, i) => i !== index)
+      .map((stage) => stage.allowedTransitions
+        ? { ...stage, allowedTransitions: stage.allowedTransitions.filter((target) => target !== key) }
+        : stage));
+  };
+
+  const addStage = () => {
+    let key = "new_stage";
+    for (let n = 2; stages.some((stage) => stage.key === key); n++) key = `new_stage_${n}`;
+    // New stages go before the terminal ones
+    const firstTerminal = stages.findIndex((stage) => stage.category !== "active");
+    const position = firstTerminal === -1 ? stages.length : firstTerminal;
+    const next = stages.slice();
+    next.splice(position, 0, {
+      key, name: "New stage", category: "active", applicationStatus: "applied", allowedTransitions: null, color: "#64748B",
+    });
+    setStages(next);
+  };
+
+  if (isLoading || !data) {
+    return <Loader2 className="w-5 h-5 animate-spin text-primary" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        {data.source === "job" && "This job uses its own stages."}
+        {data.source === "organization" && (jobId ? "This job follows the organization pipeline. Saving gives it its own stages." : "Stages used by every job without its own pipeline.")}
+        {data.source === "default" && "You are using the default pipeline. Saving stores it for your organization."}
+      </p>
+
+      <div className="space-y-3">
+        {stages.map((stage, index) => (
+          <div key={index} className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <input type="color" className="h-8 w-8 rounded border-0 bg-transparent p-0"
+                value={stage.color || "#64748B"} onChange={(e) => update(index, { color: e.target.value })} />
+              <Input className="w-[200px]" value={stage.name}
+                onChange={(e) => rename(index, e.target.value)} />
+              <Badge variant="outline" className="font-mono text-xs">{stage.key}</Badge>
+              <Select value={stage.category}
+                onValueChange={(category: PipelineStageDefinition["category"]) => update(index, {
+                  category,
+                  applicationStatus: category === "hired" ? "accepted" : category === "rejected" ? "denied" : "applied",
+                })}>
+                <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CATEGORY_LABELS) as PipelineStageDefinition["category"][]).map((category) => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {stage.category === "active" && (
+                <Select value={stage.applicationStatus}
+                  onValueChange={(applicationStatus: PipelineStageDefinition["applicationStatus"]) => update(index, { applicationStatus })}>
+                  <SelectTrigger className="w-[190px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="applied">Listed as applicant</SelectItem>
+                    <SelectItem value="shortlisted">Listed as shortlisted</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="ml-auto flex items-center gap-1">
+                <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" disabled={index === stages.length - 1} onClick={() => move(index, 1)}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" disabled={stages.length <= 1} onClick={() => remove(index)}>
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox checked={stage.allowedTransitions !== null}
+                onCheckedChange={(checked) => update(index, { allowedTransitions: checked === true ? [] : null })} />
+              <Label className="text-sm font-normal">Restrict where applicants can move from this stage</Label>
+            </div>
+            {stage.allowedTransitions !== null && (
+              <div className="flex flex-wrap gap-3 pl-6">
+                {stages.filter((target) => target.key !== stage.key).map((target) => (
+                  <label key={target.key} className="flex items-center gap-1.5 text-sm text-slate-700 dark:text-slate-300">
+                    <Checkbox checked={stage.allowedTransitions!.includes(target.key)}
+                      onCheckedChange={(checked) => update(index, {
+                        allowedTransitions: checked === true
+                          ? [...stage.allowedTransitions!, target.key]
+                          : stage.allowedTransitions!.filter((key) => key !== target.key),
+                      })} />
+                    {target.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={addStage}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Stage
+        </Button>
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Pipeline
+        </Button>
+        {jobId && data.source === "job" && (
+          <Button variant="ghost" onClick={() => resetMutation.mutate()} disabled={resetMutation.isPending}>
+            Use organization pipeline
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
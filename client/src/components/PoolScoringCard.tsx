@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, RefreshCw, Square } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+
+interface PoolScoringRun {
+  id: string;
+  trigger: string;
+  scope: string;
+  status: "queued" | "running" | "completed" | "cancelled" | "failed";
+  totalProfiles: number;
+  processedProfiles: number;
+  scoredProfiles: number;
+  cachedProfiles: number;
+  knockedOutProfiles: number;
+  failedProfiles: number;
+  estimatedCredits: number;
+  creditsUsed: number;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface PoolScoringStatus {
+  scope: string;
+  estimate: {
+    totalProfiles: number;
+    upToDate: number;
+    toScore: number;
+    cached: number;
+    estimatedCredits: number;
+    availableCredits: number;
+  };
+  latestRun: PoolScoringRun | null;
+}
+
+const STATUS_LABELS: Record<PoolScoringRun["status"], string> = {
+  queued: "Queued",
+  running: "Scoring",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  failed: "Stopped",
+};
+
+export function PoolScoringCard({ jobId }: { jobId: string }) {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<"all" | "scored">("all");
+  const statusKey = [`/api/job-postings/${jobId}/pool-scoring?scope=${scope}`];
+
+  const { data, isLoading } = useQuery<PoolScoringStatus>({
+    queryKey: statusKey,
+    // Poll while a run is in progress
+    refetchInterval: (query) => {
+      const status = query.state.data?.latestRun?.status;
+      return status === "queued" || status === "running" ? 3000 : false;
+    },
+  });
+
+  const run = data?.latestRun;
+  const isActive = run?.status === "queued" || run?.status === "running";
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/job-postings/${jobId}/pool-scoring`, { scope });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Scoring started", description: "Candidates are being scored in the background." });
+      queryClient.invalidateQueries({ queryKey: statusKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start scoring", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const response = await apiRequest("POST", `/api/pool-scoring-runs/${runId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Scoring cancelled" });
+      queryClient.invalidateQueries({ queryKey: statusKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel scoring", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const estimate = data?.estimate;
+  const insufficientCredits = !!estimate && estimate.estimatedCredits > estimate.availableCredits;
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="w-5 h-5" />
+          Score Talent Pool
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !estimate ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : (
+          <>
+            {run && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-slate-700 dark:text-slate-300">
+                    {STATUS_LABELS[run.status]}
+                    {run.trigger === "job_updated" && " (after job edit)"}
+                  </span>
+                  <span className="text-slate-500 dark:text-slate-400">
+                    {run.processedProfiles}/{run.totalProfiles}
+                  </span>
+                </div>
+                {isActive && (
+                  <Progress value={run.totalProfiles > 0 ? (run.processedProfiles / run.totalProfiles) * 100 : 0} />
+                )}
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {run.scoredProfiles} scored · {run.cachedProfiles} from cache · {run.knockedOutProfiles} knocked out
+                  {run.failedProfiles > 0 && ` · ${run.failedProfiles} failed`} · {run.creditsUsed} credits used
+                </p>
+                {run.error && <p className="text-xs text-red-600">{run.error}</p>}
+                {!isActive && run.completedAt && (
+                  <p className="text-xs text-slate-400">
+                    {formatDistanceToNow(new Date(run.completedAt), { addSuffix: true })}
+                  </p>
+                )}
+                {isActive && (
+                  <Button variant="outline" size="sm" className="w-full"
+                    onClick={() => cancelMutation.mutate(run.id)} disabled={cancelMutation.isPending}>
+                    <Square className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {!isActive && (
+              <div className="space-y-3">
+                <Select value={scope} onValueChange={(value) => setScope(value as "all" | "scored")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All resumes in your bank</SelectItem>
+                    <SelectItem value="scored">Candidates already scored for this job</SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="text-sm space-y-1 text-slate-600 dark:text-slate-400">
+                  <div className="flex justify-between">
+                    <span>Up to date</span>
+                    <span>{estimate.upToDate} of {estimate.totalProfiles}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>To score</span>
+                    <span>{estimate.toScore} ({estimate.cached} cached)</span>
+                  </div>
+                  <div className="flex justify-between font-medium text-slate-800 dark:text-slate-200">
+                    <span>Estimated credits</span>
+                    <span>up to {estimate.estimatedCredits} / {estimate.availableCredits} available</span>
+                  </div>
+                </div>
+                <Button className="w-full" onClick={() => startMutation.mutate()}
+                  disabled={estimate.toScore === 0 || insufficientCredits || startMutation.isPending}>
+                  {startMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {estimate.toScore === 0 ? "All candidates up to date" : `Score ${estimate.toScore} candidates`}
+                </Button>
+                {insufficientCredits && (
+                  <p className="text-xs text-red-600">Not enough credits for this run.</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -62,7 +62,7 @@ export function ResumeSearcherModal({ isOpen, onClose }: ResumeSearcherModalProp
   });
 
   // Calculate the number of jobs to process against
-  const activeJobCount = jobs.filter((job: any) => job.is_active !== false).length;
+  const activeJobCount = jobs.filter((job: any) => job.is_active !== false && job.status === "open").length;
   const targetJobCount = processingJobId === 'all' ? activeJobCount : 1;
 
   // Calculate total credit cost: files * jobs * cost per processing
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, History, Loader2, Minus, Plus } from "lucide-react";
+import { format } from "date-fns";
+
+interface ResumeVersion {
+  id: number;
+  versionNumber: number;
+  fileName: string | null;
+  fileType: string | null;
+  textExtractor: string | null;
+  createdAt: string;
+}
+
+interface VersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  fields: Record<string, { before: string | null; after: string | null }>;
+  lists: Record<string, { added: string[]; removed: string[] }>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  summary: "Summary",
+  headline: "Headline",
+  location: "Location",
+  yearsOfExperience: "Years of experience",
+  seniorityLevel: "Seniority",
+  skills: "Skills",
+  experience: "Roles",
+  education: "Education",
+  certifications: "Certifications",
+  languages: "Languages",
+};
+
+export function ResumeVersionHistory({ profileId }: { profileId: string }) {
+  const [fromVersion, setFromVersion] = useState<string>("");
+  const [toVersion, setToVersion] = useState<string>("");
+
+  const { data, isLoading } = useQuery<{ currentVersion: number; versions: ResumeVersion[] }>({
+    queryKey: [`/api/resume-profiles/${profileId}/versions`],
+  });
+  const versions = data?.versions || [];
+
+  // Default to comparing the previous version with the current one
+  useEffect(() => {
+    if (data && data.versions.length > 1 && !toVersion) {
+      setToVersion(String(data.currentVersion));
+      setFromVersion(String(data.versions.find((v) => v.versionNumber < data.currentVersion)?.versionNumber ?? data.versions[1].versionNumber));
+    }
+  }, [data, toVersion]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<VersionDiff>({
+    queryKey: [`/api/resume-profiles/${profileId}/versions/diff?from=${fromVersion}&to=${toVersion}`],
+    enabled: !!fromVersion && !!toVersion && fromVersion !== toVersion,
+  });
+
+  if (isLoading || versions.length === 0) {
+    return null;
+  }
+
+  const hasChanges = diff && (Object.keys(diff.fields).length > 0 || Object.keys(diff.lists).length > 0);
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Resume Versions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {versions.map((version) => (
+            <div
+              key={version.id}
+              className="flex items-center justify-between gap-3 p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <Badge variant={version.versionNumber === data?.currentVersion ? "default" : "outline"}>
+                  v{version.versionNumber}
+                </Badge>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{version.fileName || "Uploaded resume"}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {format(new Date(version.createdAt), "MMM d, yyyy HH:mm")}
+                    {version.versionNumber === data?.currentVersion && " · current"}
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" asChild>
+                <a href={`/api/resume-profiles/${profileId}/versions/${version.versionNumber}`} download>
+                  <Download className="w-4 h-4" />
+                </a>
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {versions.length > 1 && (
+          <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+            <div className="flex flex-wrap items-center gap-2 pt-3 text-sm">
+              <span className="text-slate-600 dark:text-slate-400">Compare</span>
+              <Select value={fromVersion} onValueChange={setFromVersion}>
+                <SelectTrigger className="w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={String(v.versionNumber)}>v{v.versionNumber}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-slate-600 dark:text-slate-400">with</span>
+              <Select value={toVersion} onValueChange={setToVersion}>
+                <SelectTrigger className="w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={String(v.versionNumber)}>v{v.versionNumber}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isDiffLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            ) : diff && !hasChanges ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No differences in the parsed profile.</p>
+            ) : diff ? (
+              <div className="space-y-3">
+                {Object.entries(diff.lists).map(([field, change]) => (
+                  <div key={field}>
+                    <p className="text-sm font-medium mb-1">{FIELD_LABELS[field] || field}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {change.added.map((item, idx) => (
+                        <Badge key={`a-${idx}`} className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                          <Plus className="w-3 h-3 mr-1" />
+                          {item}
+                        </Badge>
+                      ))}
+                      {change.removed.map((item, idx) => (
+                        <Badge key={`r-${idx}`} className="bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 line-through">
+                          <Minus className="w-3 h-3 mr-1" />
+                          {item}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                {Object.entries(diff.fields).map(([field, change]) => (
+                  <div key={field} className="text-sm">
+                    <p className="font-medium mb-1">{FIELD_LABELS[field] || field}</p>
+                    <p className="text-red-600 dark:text-red-400 line-through">{change.before || "—"}</p>
+                    <p className="text-green-600 dark:text-green-400">{change.after || "—"}</p>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, History, Loader2, Minus, Plus } from "lucide-react";
+import { format } from "date-fns";
+
+interface ScoreRun {
+  ref: string;
+  overallScore: number | null;
+  disqualified: boolean | null;
+  scoringRunId: string | null;
+  scoringModel: string | null;
+  promptVersion: string | null;
+  profileVersion: number | null;
+  scoredAt: string | null;
+}
+
+interface ScoreComparison {
+  from: string;
+  to: string;
+  scores: Record<string, { before: number | null; after: number | null; delta: number }>;
+  causes: Array<{ type: string; before: string | null; after: string | null }>;
+  provenanceUnknown: boolean;
+  strengths: { added: string[]; removed: string[] };
+  improvementAreas: { added: string[]; removed: string[] };
+  disqualification: { before: string | null; after: string | null } | null;
+}
+
+const SCORE_LABELS: Record<string, string> = {
+  overallScore: "Overall",
+  technicalSkillsScore: "Technical skills",
+  experienceScore: "Experience",
+  culturalFitScore: "Cultural fit",
+};
+
+const CAUSE_LABELS: Record<string, string> = {
+  knockout: "Knockout rule result changed",
+  resume: "Candidate uploaded a new resume version",
+  job: "Job description or requirements were edited",
+  custom_rules: "Custom scoring rules changed",
+  prompt: "Scoring prompt was updated",
+  model: "Scoring model changed",
+  weights: "Scoring weights changed",
+};
+
+const emptyCauseValue = (type: string) =>
+  type === "knockout" ? "passed" : type === "weights" ? "AI overall score" : "unknown";
+
+const runLabel = (run: ScoreRun) =>
+  `${run.ref === "current" ? "Current" : run.scoredAt ? format(new Date(run.scoredAt), "MMM d, yyyy") : `#${run.ref}`} · ${run.overallScore ?? "-"}%`;
+
+export function ScoreChangeHistory({ profileId, jobId }: { profileId: string; jobId: string }) {
+  const [fromRef, setFromRef] = useState<string>("");
+  const [toRef, setToRef] = useState<string>("current");
+
+  const { data, isLoading } = useQuery<{ current: ScoreRun | null; history: ScoreRun[] }>({
+    queryKey: [`/api/resume-profiles/${profileId}/job-scores/${jobId}/history`],
+  });
+  const runs = data ? [...(data.current ? [data.current] : []), ...data.history] : [];
+
+  // Default to explaining the latest change
+  useEffect(() => {
+    if (data && !fromRef) {
+      const previous = data.current ? data.history[0] : data.history[1];
+      if (previous) setFromRef(previous.ref);
+    }
+  }, [data, fromRef]);
+
+  const { data: comparison, isLoading: isComparing } = useQuery<ScoreComparison>({
+    queryKey: [`/api/resume-profiles/${profileId}/job-scores/${jobId}/compare?from=${fromRef}&to=${toRef}`],
+    enabled: !!fromRef && fromRef !== toRef,
+  });
+
+  // Nothing to explain until the candidate has been scored more than once
+  if (isLoading || runs.length < 2) {
+    return null;
+  }
+
+  const listChanges = comparison
+    ? [
+        { label: "Strengths", change: comparison.strengths },
+        { label: "Improvement areas", change: comparison.improvementAreas },
+      ].filter(({ change }) => change.added.length > 0 || change.removed.length > 0)
+    : [];
+
+  return (
+    <Card className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-slate-800 dark:text-slate-200 flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Why did this score change?
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-600 dark:text-slate-400">Compare</span>
+          <Select value={fromRef} onValueChange={setFromRef}>
+            <SelectTrigger className="w-[190px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {runs.map((run) => (
+                <SelectItem key={run.ref} value={run.ref}>{runLabel(run)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-slate-600 dark:text-slate-400">with</span>
+          <Select value={toRef} onValueChange={setToRef}>
+            <SelectTrigger className="w-[190px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {runs.map((run) => (
+                <SelectItem key={run.ref} value={run.ref}>{runLabel(run)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isComparing ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : comparison ? (
+          <div className="space-y-4">
+            {/* Score deltas */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {Object.entries(comparison.scores).map(([field, score]) => (
+                <div key={field} className="p-3 bg-slate-50 dark:bg-slate-800 rounded-lg">
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{SCORE_LABELS[field] || field}</p>
+                  <p className="text-sm font-medium text-slate-900 dark:text-white">
+                    {score.before ?? "-"} → {score.after ?? "-"}
+                  </p>
+                  {score.delta !== 0 && (
+                    <p className={`text-xs flex items-center gap-1 ${score.delta > 0 ? "text-green-600" : "text-red-600"}`}>
+                      {score.delta > 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+                      {Math.abs(score.delta)}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* What changed in the inputs */}
+            <div className="space-y-1 text-sm">
+              <p className="font-medium text-slate-800 dark:text-slate-200">Changed inputs</p>
+              {comparison.causes.length > 0 ? (
+                <ul className="list-disc pl-5 text-slate-700 dark:text-slate-300">
+                  {comparison.causes.map((cause) => (
+                    <li key={cause.type}>
+                      {CAUSE_LABELS[cause.type] || cause.type}
+                      {(cause.type === "knockout" || cause.type === "model" || cause.type === "prompt" || cause.type === "resume" || cause.type === "weights") && (
+                        <span className="text-slate-500 dark:text-slate-400">
+                          {" "}({cause.before || emptyCauseValue(cause.type)} → {cause.after || emptyCauseValue(cause.type)})
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-slate-500 dark:text-slate-400">
+                  {comparison.provenanceUnknown
+                    ? "These scores were produced before scoring inputs were recorded."
+                    : "Same resume, job, rules, prompt and model. The difference comes from run-to-run model variation."}
+                </p>
+              )}
+            </div>
+
+            {comparison.disqualification && (
+              <div className="p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg text-sm text-amber-800 dark:text-amber-300">
+                {comparison.disqualification.after
+                  ? `Now disqualified: ${comparison.disqualification.after}`
+                  : `No longer disqualified (was: ${comparison.disqualification.before})`}
+              </div>
+            )}
+
+            {listChanges.map(({ label, change }) => (
+              <div key={label}>
+                <p className="text-sm font-medium mb-1 text-slate-800 dark:text-slate-200">{label}</p>
+                <div className="flex flex-wrap gap-2">
+                  {change.added.map((item, idx) => (
+                    <Badge key={`a-${idx}`} className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                      <Plus className="w-3 h-3 mr-1" />
+                      {item}
+                    </Badge>
+                  ))}
+                  {change.removed.map((item, idx) => (
+                    <Badge key={`r-${idx}`} className="bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 line-through">
+                      <Minus className="w-3 h-3 mr-1" />
+                      {item}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { ScorecardTemplate } from "@shared/schema";
+
+export const DEFAULT_SCORECARD_TEMPLATE: ScorecardTemplate = {
+  competencies: [
+    { key: "technical_skills", name: "Technical skills", description: null },
+    { key: "problem_solving", name: "Problem solving", description: null },
+    { key: "communication", name: "Communication", description: null },
+    { key: "culture_add", name: "Culture add", description: null },
+  ],
+  ratingScale: { max: 5, labels: ["Poor", "Below expectations", "Meets expectations", "Exceeds expectations", "Outstanding"] },
+  questions: [],
+};
+
+interface ScorecardTemplateEditorProps {
+  value: ScorecardTemplate;
+  onChange: (value: ScorecardTemplate) => void;
+}
+
+// New rows get their key from the server on save; existing keys are kept so submitted scorecards still match
+export function ScorecardTemplateEditor({ value, onChange }: ScorecardTemplateEditorProps) {
+  const { competencies, ratingScale, questions } = value;
+
+  const setScaleMax = (max: number) => {
+    const labels = ratingScale.labels.length > 0
+      ? Array.from({ length: max }, (_, i) => ratingScale.labels[i] || "")
+      : [];
+    onChange({ ...value, ratingScale: { max, labels } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Label>Competencies</Label>
+        {competencies.map((competency, index) => (
+          <div key={index} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+            <Input value={competency.name} placeholder="e.g., System design"
+              onChange={(e) => onChange({
+                ...value,
+                competencies: competencies.map((item, i) => (i === index ? { ...item, name: e.target.value } : item)),
+              })} />
+            <Input value={competency.description || ""} placeholder="What interviewers should look for (optional)"
+              onChange={(e) => onChange({
+                ...value,
+                competencies: competencies.map((item, i) => (i === index ? { ...item, description: e.target.value || null } : item)),
+              })} />
+            <Button type="button" variant="ghost" size="icon" disabled={competencies.length <= 1}
+              onClick={() => onChange({ ...value, competencies: competencies.filter((_, i) => i !== index) })}>
+              <Trash2 className="w-4 h-4 text-red-500" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm"
+          onClick={() => onChange({ ...value, competencies: [...competencies, { key: "", name: "", description: null }] })}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Competency
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <Label>Rating scale</Label>
+          <Select value={String(ratingScale.max)} onValueChange={(max) => setScaleMax(parseInt(max))}>
+            <SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {[3, 4, 5, 7, 10].map((max) => (
+                <SelectItem key={max} value={String(max)}>1 – {max}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Checkbox checked={ratingScale.labels.length > 0}
+              onCheckedChange={(checked) => onChange({
+                ...value,
+                ratingScale: { ...ratingScale, labels: checked === true ? Array.from({ length: ratingScale.max }, () => "") : [] },
+              })} />
+            <span className="text-sm text-slate-600 dark:text-slate-400">Label each rating</span>
+          </div>
+        </div>
+        {ratingScale.labels.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            {ratingScale.labels.map((label, index) => (
+              <Input key={index} value={label} placeholder={`${index + 1}`}
+                onChange={(e) => onChange({
+                  ...value,
+                  ratingScale: { ...ratingScale, labels: ratingScale.labels.map((item, i) => (i === index ? e.target.value : item)) },
+                })} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <Label>Questions</Label>
+        {questions.length === 0 && (
+          <p className="text-xs text-slate-500">No questions. Interviewers only rate competencies and leave notes.</p>
+        )}
+        {questions.map((question, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input value={question.text} placeholder="e.g., Describe a project the candidate led"
+              onChange={(e) => onChange({
+                ...value,
+                questions: questions.map((item, i) => (i === index ? { ...item, text: e.target.value } : item)),
+              })} />
+            <label className="flex items-center gap-1.5 text-sm whitespace-nowrap text-slate-700 dark:text-slate-300">
+              <Checkbox checked={question.required}
+                onCheckedChange={(checked) => onChange({
+                  ...value,
+                  questions: questions.map((item, i) => (i === index ? { ...item, required: checked === true } : item)),
+                })} />
+              Required
+            </label>
+            <Button type="button" variant="ghost" size="icon"
+              onClick={() => onChange({ ...value, questions: questions.filter((_, i) => i !== index) })}>
+              <Trash2 className="w-4 h-4 text-red-500" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm"
+          onClick={() => onChange({ ...value, questions: [...questions, { key: "", text: "", required: false }] })}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Question
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import type { ScoringWeights } from "@shared/schema";
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  technicalSkills: 40,
+  experience: 35,
+  culturalFit: 15,
+  education: 10,
+};
+
+const DIMENSIONS: Array<{ key: keyof ScoringWeights; label: string }> = [
+  { key: "technicalSkills", label: "Technical skills" },
+  { key: "experience", label: "Experience" },
+  { key: "culturalFit", label: "Cultural fit" },
+  { key: "education", label: "Education & certifications" },
+];
+
+interface ScoringWeightsEditorProps {
+  value: ScoringWeights;
+  onChange: (value: ScoringWeights) => void;
+}
+
+// Weights are relative; the share column shows what each one contributes to the overall score
+export function ScoringWeightsEditor({ value, onChange }: ScoringWeightsEditorProps) {
+  const total = DIMENSIONS.reduce((sum, { key }) => sum + (value[key] || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      {DIMENSIONS.map(({ key, label }) => (
+        <div key={key} className="grid grid-cols-[180px_1fr_60px] items-center gap-4">
+          <Label className="text-sm">{label}</Label>
+          <Slider min={0} max={100} step={5} value={[value[key] || 0]}
+            onValueChange={([weight]) => onChange({ ...value, [key]: weight })} />
+          <span className="text-sm text-right text-slate-600 dark:text-slate-400">
+            {total > 0 ? Math.round(((value[key] || 0) / total) * 100) : 0}%
+          </span>
+        </div>
+      ))}
+      {total === 0 && (
+        <p className="text-xs text-red-500">At least one weight must be greater than 0.</p>
+      )}
+    </div>
+  );
+}
@@ -11,12 +11,16 @@ import { Badge } from "@/components/ui/badge";
 import { Combobox } from "@/components/ui/combobox";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { X, Sparkles, Loader2, MapPin, DollarSign, Plus, HelpCircle, Mail, Languages, ClipboardList, CheckCircle, XCircle } from "lucide-react";
+import { X, Sparkles, Loader2, MapPin, DollarSign, Plus, HelpCircle, Mail, Languages, ClipboardList, CheckCircle, XCircle, ShieldAlert, Scale, ClipboardCheck, BellRing, CalendarClock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { AssessmentQuestionsBuilder } from "@/components/AssessmentQuestionsBuilder";
-import type { AssessmentQuestion } from "@shared/schema";
+import { ScoringWeightsEditor, DEFAULT_SCORING_WEIGHTS } from "@/components/ScoringWeightsEditor";
+import { ScorecardTemplateEditor, DEFAULT_SCORECARD_TEMPLATE } from "@/components/ScorecardTemplateEditor";
+import { InvitationReminderCadenceEditor, DEFAULT_REMINDER_CADENCE } from "@/components/InvitationReminderCadenceEditor";
+import type { AssessmentQuestion, KnockoutRules, ScoringWeights, ScorecardTemplate, InvitationReminderStep } from "@shared/schema";
 
 const jobFormSchema = z.object({
   title: z.string().min(1, "Job title is required"),
@@ -27,6 +31,7 @@ const jobFormSchema = z.object({
   salaryMin: z.string().optional(),
   salaryMax: z.string().optional(),
   salaryNegotiable: z.boolean().default(false),
+  headcount: z.string().optional(),
   softSkills: z.array(z.string()).default([]),
   technicalSkills: z.array(z.string()).default([]),
   employerQuestions: z.array(z.string()).default([]),
@@ -47,8 +52,25 @@ const jobFormSchema = z.object({
   autoDeniedThreshold: z.coerce.number().int().min(0).max(100).default(30),
 });
 
+type JobFormValues = z.input<typeof jobFormSchema>;
 type JobFormData = z.infer<typeof jobFormSchema>;
 
+// Body of the create and update requests: the form values with numbers parsed, the structured settings and publishing
+type JobPostingPayload = Omit<JobFormData, "salaryMin" | "salaryMax" | "headcount"> & {
+  salaryMin?: number;
+  salaryMax?: number;
+  headcount: number;
+  assessmentQuestions: AssessmentQuestion[] | null;
+  knockoutRules: KnockoutRules;
+  scoringWeights: ScoringWeights | null;
+  scorecardTemplate: ScorecardTemplate | null;
+  reminderCadence: InvitationReminderStep[] | null;
+  invitationExpiryDays: number;
+  closesAt: string | null;
+  status?: string;
+  publishAt?: string | null;
+};
+
 const SALARY_RANGES = [
   "$30,000 - $50,000", "$50,000 - $75,000", "$75,000 - $100,000",
   "$100,000 - $125,000", "$125,000 - $150,000", "$150,000 - $200,000",
@@ -89,6 +111,23 @@ const SOFT_SKILLS = [
   "Customer Focus", "Cultural Awareness", "Decision Making", "Collaboration"
 ];
 
+const DEFAULT_KNOCKOUT_RULES: KnockoutRules = {
+  enabled: false,
+  requireLanguages: true,
+  minYearsExperience: null,
+  allowedLocations: [],
+  skipLocationForRemote: true,
+  requiredCertifications: [],
+  mustHaveSkills: [],
+};
+
+// Stored timestamp <-> value of a datetime-local input, in the browser's time zone
+const toDateTimeInput = (value?: string | null) => value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+const fromDateTimeInput = (value: string) => value ? new Date(value).toISOString() : null;
+
+// Comma-separated input <-> list; empty items are kept while typing and dropped on submit
+const splitList = (value: string) => value.split(",").map((item) => item.trimStart());
+
 interface JobPostingFormProps {
   editJob?: any;
   onSuccess: () => void;
@@ -108,14 +147,24 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
   const [selectedLanguages, setSelectedLanguages] = useState<Array<{language: string, fluency: string}>>([]);
   const [usesEgpSalary, setUsesEgpSalary] = useState(false);
   const [assessmentQuestions, setAssessmentQuestions] = useState<AssessmentQuestion[]>([]);
+  const [knockoutRules, setKnockoutRules] = useState<KnockoutRules>(DEFAULT_KNOCKOUT_RULES);
+  // null inherits the organization's default weights
+  const [scoringWeights, setScoringWeights] = useState<ScoringWeights | null>(null);
+  // null uses the default interview scorecard
+  const [scorecardTemplate, setScorecardTemplate] = useState<ScorecardTemplate | null>(null);
+  // null uses the default invitation reminders
+  const [reminderCadence, setReminderCadence] = useState<InvitationReminderStep[] | null>(null);
+  const [invitationExpiryDays, setInvitationExpiryDays] = useState("14");
+  const [publishAt, setPublishAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
   const [isExtractingSkills, setIsExtractingSkills] = useState(false);
   const [lastExtractedText, setLastExtractedText] = useState("");
 
-  const form = useForm<JobFormData>({
+  const form = useForm<JobFormValues, unknown, JobFormData>({
     resolver: zodResolver(jobFormSchema),
     defaultValues: {
       title: "", description: "", requirements: "", location: "",
-      salaryRange: "", salaryMin: "", salaryMax: "", salaryNegotiable: false,
+      salaryRange: "", salaryMin: "", salaryMax: "", salaryNegotiable: false, headcount: "1",
       softSkills: [], technicalSkills: [], employerQuestions: [], aiPrompt: "",
       employmentType: "", workplaceType: "", seniorityLevel: "", industry: "",
       languagesRequired: [], certifications: "",
@@ -124,7 +173,7 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
     },
   });
 
-  const { data: organization } = useQuery<{ id: number; name: string; companyName?: string }>({
+  const { data: organization } = useQuery<{ id: number; name: string; companyName?: string; defaultScoringWeights?: ScoringWeights | null }>({
     queryKey: ["/api/organizations/current"],
     retry: false,
   });
@@ -141,6 +190,7 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
         salaryMin: editJob.salaryMin || "",
         salaryMax: editJob.salaryMax || "",
         salaryNegotiable: editJob.salaryNegotiable || false,
+        headcount: String(editJob.headcount || 1),
         softSkills: editJob.softSkills || [],
         technicalSkills: editJob.technicalSkills || [],
         employerQuestions: editJob.employerQuestions || [],
@@ -163,6 +213,13 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
       setSelectedLanguages(editJob.languagesRequired || []);
       setUsesEgpSalary(editJob.salaryRange?.includes('EGP') || false);
       setAssessmentQuestions(editJob.assessmentQuestions || []);
+      setKnockoutRules({ ...DEFAULT_KNOCKOUT_RULES, ...(editJob.knockoutRules || {}) });
+      setScoringWeights(editJob.scoringWeights || null);
+      setScorecardTemplate(editJob.scorecardTemplate || null);
+      setReminderCadence(editJob.reminderCadence ?? null);
+      setInvitationExpiryDays(String(editJob.invitationExpiryDays ?? 14));
+      setPublishAt(toDateTimeInput(editJob.publishAt));
+      setClosesAt(toDateTimeInput(editJob.closesAt));
     }
   }, [editJob, form]);
 
@@ -210,12 +267,21 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
   };
 
   const createJobMutation = useMutation({
-    mutationFn: async (data: JobFormData) => {
+    mutationFn: async (data: JobPostingPayload) => {
       const response = await apiRequest("POST", "/api/job-postings", data);
       return response.json();
     },
-    onSuccess: () => {
-      toast({ title: "Success", description: "Job posting created successfully!" });
+    onSuccess: (job, request) => {
+      // Organizations with an approval chain keep new jobs as drafts until they are approved
+      const sentForApproval = job.status === "draft" && request.status !== "draft";
+      const description = sentForApproval
+        ? "Job saved as a draft and sent for approval. It will be published once approved."
+        : job.status === "draft"
+        ? "Draft saved. Publish it from the job list when it's ready."
+        : job.status === "scheduled"
+          ? "Job posting scheduled for publishing."
+          : "Job posting created successfully!";
+      toast({ title: "Success", description });
       queryClient.invalidateQueries({ queryKey: ["/api/job-postings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/job-postings/count"] });
       onSuccess();
@@ -231,13 +297,20 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
   });
 
   const updateJobMutation = useMutation({
-    mutationFn: async (data: JobFormData) => {
+    mutationFn: async (data: JobPostingPayload) => {
       const response = await apiRequest("PUT", `/api/job-postings/${editJob.id}`, data);
       return response.json();
     },
-    onSuccess: () => {
-      toast({ title: "Success", description: "Job posting updated successfully!" });
+    onSuccess: (job: { scoresStale?: boolean }) => {
+      // Existing scores were produced against the old content; re-scoring is started from the talent pool card
+      toast({
+        title: "Success",
+        description: job.scoresStale
+          ? "Job posting updated. Existing candidate scores are now out of date; re-score them from Score Talent Pool on the job page."
+          : "Job posting updated successfully!",
+      });
       queryClient.invalidateQueries({ queryKey: ["/api/job-postings"] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).includes("/pool-scoring") });
       onSuccess();
     },
     onError: (error) => {
@@ -307,12 +380,12 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
     }
   };
 
-  const onSubmit = (data: JobFormData) => {
+  const onSubmit = (data: JobFormData, asDraft = false) => {
     const validQuestions = employerQuestions.filter(q => q.trim() !== '');
     const validLanguages = selectedLanguages.filter(lang => lang.language && lang.fluency);
     const validAssessmentQuestions = assessmentQuestions.filter(q => q.questionText.trim() !== '');
 
-    const jobData = {
+    const jobData: JobPostingPayload = {
       ...data,
       softSkills: selectedSoftSkills,
       technicalSkills: selectedTechnicalSkills,
@@ -322,20 +395,39 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
       interviewLanguage: data.interviewLanguage === "no-preference" ? "" : data.interviewLanguage,
       salaryMin: data.salaryMin ? parseInt(data.salaryMin) : undefined,
       salaryMax: data.salaryMax ? parseInt(data.salaryMax) : undefined,
+      headcount: Math.max(1, parseInt(data.headcount || "1") || 1),
       assessmentQuestions: validAssessmentQuestions.length > 0 ? validAssessmentQuestions : null,
+      knockoutRules: {
+        ...knockoutRules,
+        allowedLocations: knockoutRules.allowedLocations.map((item) => item.trim()).filter(Boolean),
+        requiredCertifications: knockoutRules.requiredCertifications.map((item) => item.trim()).filter(Boolean),
+      },
+      scoringWeights,
+      scorecardTemplate,
+      reminderCadence,
+      invitationExpiryDays: parseInt(invitationExpiryDays) || 14,
+      closesAt: fromDateTimeInput(closesAt),
     };
 
     if (editJob) {
-      updateJobMutation.mutate(jobData);
+      updateJobMutation.mutate({
+        ...jobData,
+        ...(editJob.status === "scheduled" ? { publishAt: fromDateTimeInput(publishAt) } : {}),
+      });
     } else {
-      createJobMutation.mutate(jobData);
+      const newJob: JobPostingPayload = {
+        ...jobData,
+        status: asDraft ? "draft" : publishAt ? "scheduled" : "open",
+        publishAt: asDraft ? null : fromDateTimeInput(publishAt),
+      };
+      createJobMutation.mutate(newJob);
     }
   };
 
   return (
-    <form onSubmit={form.handleSubmit(onSubmit)}>
+    <form onSubmit={form.handleSubmit((data) => onSubmit(data))}>
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3 mb-6">
+        <TabsList className="grid w-full grid-cols-5 mb-6">
           <TabsTrigger value="details" className="flex items-center gap-2">
             <MapPin className="w-4 h-4" />
             Job Details
@@ -348,6 +440,14 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
             <Sparkles className="w-4 h-4" />
             AI Prompt
           </TabsTrigger>
+          <TabsTrigger value="scorecard" className="flex items-center gap-2">
+            <ClipboardCheck className="w-4 h-4" />
+            Scorecard
+          </TabsTrigger>
+          <TabsTrigger value="reminders" className="flex items-center gap-2">
+            <BellRing className="w-4 h-4" />
+            Reminders
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="details" className="space-y-6">
@@ -444,6 +544,26 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
             </div>
           </div>
 
+          <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox checked={scoringWeights !== null}
+                onCheckedChange={(checked) => setScoringWeights(checked === true
+                  ? (organization?.defaultScoringWeights || DEFAULT_SCORING_WEIGHTS)
+                  : null)} />
+              <Label className="flex items-center gap-2"><Scale className="w-4 h-4 text-blue-600" />Custom Scoring Weights</Label>
+            </div>
+            <p className="text-xs text-slate-500">
+              {scoringWeights !== null
+                ? "The overall score is recomputed from each candidate's sub-scores with these weights. Changing them re-ranks existing applicants immediately without re-scoring."
+                : organization?.defaultScoringWeights
+                  ? "Using your organization's default scoring weights."
+                  : "Using the AI's overall score."}
+            </p>
+            {scoringWeights !== null && (
+              <ScoringWeightsEditor value={scoringWeights} onChange={setScoringWeights} />
+            )}
+          </div>
+
           <div>
             <Label className="flex items-center gap-2"><DollarSign className="w-4 h-4 text-green-600" />Salary Range</Label>
             <div className="mt-2 space-y-2">
@@ -454,7 +574,7 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
               <Controller name="salaryRange" control={form.control}
                 render={({ field }) => (
                   <Combobox options={usesEgpSalary ? EGP_SALARY_RANGES : SALARY_RANGES}
-                    value={field.value} onValueChange={field.onChange}
+                    value={field.value || ""} onValueChange={field.onChange}
                     placeholder="Select salary range..." allowCustomValue={true} />
                 )} />
             </div>
@@ -481,6 +601,12 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
             </div>
           </div>
 
+          <div className="w-40">
+            <Label htmlFor="headcount">Headcount</Label>
+            <Input id="headcount" type="number" min={1} {...form.register("headcount")} className="mt-2" />
+            <p className="text-xs text-slate-500 mt-1">Openings to fill for this job</p>
+          </div>
+
           <div>
             <div className="flex items-center justify-between mb-2">
               <Label htmlFor="description">Job Description</Label>
@@ -629,6 +755,98 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
               placeholder="e.g., AWS Certified, PMP, Google Analytics Certified..." rows={3} className="mt-2" />
             <p className="text-xs text-slate-500 mt-1">List any professional certifications required or preferred</p>
           </div>
+
+          <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox checked={knockoutRules.enabled}
+                onCheckedChange={(checked) => setKnockoutRules({ ...knockoutRules, enabled: checked === true })} />
+              <Label className="flex items-center gap-2"><ShieldAlert className="w-4 h-4 text-red-600" />Knockout Rules</Label>
+            </div>
+            <p className="text-xs text-slate-500">Candidates failing any rule are disqualified before AI scoring and no scoring credits are used. Recruiters can still override a knockout.</p>
+
+            {knockoutRules.enabled && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Checkbox checked={knockoutRules.requireLanguages}
+                    onCheckedChange={(checked) => setKnockoutRules({ ...knockoutRules, requireLanguages: checked === true })} />
+                  <Label className="text-sm">Candidate must speak the required languages above</Label>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label className="text-xs">Minimum Years of Experience</Label>
+                    <Input type="number" min={0} step="0.5" className="mt-1" placeholder="e.g., 3"
+                      value={knockoutRules.minYearsExperience ?? ""}
+                      onChange={(e) => setKnockoutRules({ ...knockoutRules, minYearsExperience: e.target.value === "" ? null : parseFloat(e.target.value) })} />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Allowed Candidate Locations</Label>
+                    <Input className="mt-1" placeholder="e.g., Cairo, Giza, Egypt"
+                      value={knockoutRules.allowedLocations.join(",")}
+                      onChange={(e) => setKnockoutRules({ ...knockoutRules, allowedLocations: splitList(e.target.value) })} />
+                    <div className="flex items-center gap-2 mt-2">
+                      <Checkbox checked={knockoutRules.skipLocationForRemote}
+                        onCheckedChange={(checked) => setKnockoutRules({ ...knockoutRules, skipLocationForRemote: checked === true })} />
+                      <Label className="text-xs">Ignore for remote jobs</Label>
+                    </div>
+                  </div>
+                </div>
+
+                <div>
+                  <Label className="text-xs">Required Certifications</Label>
+                  <Input className="mt-1" placeholder="e.g., PMP, AWS Certified Solutions Architect"
+                    value={knockoutRules.requiredCertifications.join(",")}
+                    onChange={(e) => setKnockoutRules({ ...knockoutRules, requiredCertifications: splitList(e.target.value) })} />
+                </div>
+
+                <div>
+                  <Label className="text-xs">Must-have Skills</Label>
+                  <div className="mt-1">
+                    <Combobox options={selectedTechnicalSkills.filter(skill => !knockoutRules.mustHaveSkills.includes(skill))} value=""
+                      onValueChange={(value) => {
+                        if (value && !knockoutRules.mustHaveSkills.includes(value)) {
+                          setKnockoutRules({ ...knockoutRules, mustHaveSkills: [...knockoutRules.mustHaveSkills, value] });
+                        }
+                      }}
+                      placeholder="Add must-have skills..." allowCustomValue={true} />
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {knockoutRules.mustHaveSkills.map((skill) => (
+                        <Badge key={skill} variant="secondary" className="flex items-center gap-1 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">
+                          {skill}
+                          <X className="w-3 h-3 cursor-pointer" onClick={() =>
+                            setKnockoutRules({ ...knockoutRules, mustHaveSkills: knockoutRules.mustHaveSkills.filter(s => s !== skill) })} />
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg space-y-4">
+            <Label className="flex items-center gap-2"><CalendarClock className="w-4 h-4 text-blue-600" />Publishing</Label>
+            <div className="grid grid-cols-2 gap-4">
+              {(!editJob || editJob.status === "scheduled") && (
+                <div>
+                  <Label htmlFor="publishAt" className="text-xs">Publish at</Label>
+                  <Input id="publishAt" type="datetime-local" className="mt-1" value={publishAt}
+                    onChange={(e) => setPublishAt(e.target.value)} />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {editJob ? "The job opens to applicants at this time." : "Leave empty to publish as soon as the job is posted."}
+                  </p>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="closesAt" className="text-xs">Closes at</Label>
+                <Input id="closesAt" type="datetime-local" className="mt-1" value={closesAt}
+                  onChange={(e) => setClosesAt(e.target.value)} />
+                <p className="text-xs text-slate-500 mt-1">
+                  The job closes automatically at this time and stops inviting candidates. Applicants and scores are kept.
+                </p>
+              </div>
+            </div>
+          </div>
         </TabsContent>
 
         <TabsContent value="assessment" className="space-y-6">
@@ -666,6 +884,51 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="scorecard" className="space-y-6">
+          <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox checked={scorecardTemplate !== null}
+                onCheckedChange={(checked) => setScorecardTemplate(checked === true ? DEFAULT_SCORECARD_TEMPLATE : null)} />
+              <Label className="flex items-center gap-2"><ClipboardCheck className="w-4 h-4 text-blue-600" />Custom Interview Scorecard</Label>
+            </div>
+            <p className="text-xs text-slate-500">
+              {scorecardTemplate !== null
+                ? "Every interviewer on this job's interviews rates these competencies and answers these questions before giving a hire recommendation."
+                : "Interviewers use the default scorecard: technical skills, problem solving, communication and culture add on a 1-5 scale."}
+            </p>
+            {scorecardTemplate !== null && (
+              <ScorecardTemplateEditor value={scorecardTemplate} onChange={setScorecardTemplate} />
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="reminders" className="space-y-6">
+          <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg space-y-2">
+            <Label htmlFor="invitationExpiryDays">Invitation expires after (days)</Label>
+            <Input id="invitationExpiryDays" type="number" min={1} max={90} className="w-[120px]"
+              value={invitationExpiryDays} onChange={(e) => setInvitationExpiryDays(e.target.value)} />
+            <p className="text-xs text-slate-500">
+              AI interview links stop working after this many days, and always once the job is closed. Expired candidates can be re-invited with a fresh link.
+            </p>
+          </div>
+
+          <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-lg space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox checked={reminderCadence !== null}
+                onCheckedChange={(checked) => setReminderCadence(checked === true ? DEFAULT_REMINDER_CADENCE : null)} />
+              <Label className="flex items-center gap-2"><BellRing className="w-4 h-4 text-blue-600" />Custom Invitation Reminders</Label>
+            </div>
+            <p className="text-xs text-slate-500">
+              {reminderCadence !== null
+                ? "Candidates invited to the AI interview get these reminders, timed from the invitation. Remaining steps stop as soon as they start the interview."
+                : "Candidates get the default reminders: an email after 1 hour and after 1 day, then a voice call after 2 days."}
+            </p>
+            {reminderCadence !== null && (
+              <InvitationReminderCadenceEditor value={reminderCadence} onChange={setReminderCadence} />
+            )}
+          </div>
+        </TabsContent>
       </Tabs>
 
       <div className="flex justify-end gap-4 pt-6 border-t border-slate-200 dark:border-slate-700 mt-6">
@@ -673,9 +936,15 @@ export function JobPostingForm({ editJob, onSuccess, onCancel }: JobPostingFormP
           disabled={createJobMutation.isPending || updateJobMutation.isPending}>
           Cancel
         </Button>
+        {!editJob && (
+          <Button type="button" variant="outline" disabled={createJobMutation.isPending}
+            onClick={form.handleSubmit((data) => onSubmit(data, true))}>
+            Save as Draft
+          </Button>
+        )}
         <Button type="submit" disabled={createJobMutation.isPending || updateJobMutation.isPending}>
           {(createJobMutation.isPending || updateJobMutation.isPending) && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-          {editJob ? "Update Job" : "Post Job"}
+          {editJob ? "Update Job" : publishAt ? "Schedule Job" : "Post Job"}
         </Button>
       </div>
     </form>
@@ -0,0 +1,47 @@
+import { Badge } from "@/components/ui/badge";
+import type { JobStatus } from "@shared/schema";
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  open: "Open",
+  paused: "Paused",
+  closed: "Closed",
+  archived: "Archived",
+};
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  draft: "bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-700 dark:text-slate-300",
+  scheduled: "bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-900/30 dark:text-blue-400",
+  open: "bg-green-100 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-400",
+  paused: "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-400",
+  closed: "bg-red-100 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-400",
+  archived: "bg-slate-100 text-slate-500 border-slate-200 dark:bg-slate-800 dark:text-slate-400",
+};
+
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+interface JobStatusBadgeProps {
+  job: { status?: JobStatus; publishAt?: string | null; closesAt?: string | null };
+  showDates?: boolean;
+}
+
+// Lifecycle status of a job, with when it opens or closes
+export function JobStatusBadge({ job, showDates = false }: JobStatusBadgeProps) {
+  const status = job.status || "open";
+  const hint = status === "scheduled" && job.publishAt
+    ? `Opens ${formatShortDate(job.publishAt)}`
+    : (status === "open" || status === "paused") && job.closesAt
+      ? `Closes ${formatShortDate(job.closesAt)}`
+      : null;
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <Badge variant="outline" className={STATUS_STYLES[status]}>
+        {JOB_STATUS_LABELS[status]}
+      </Badge>
+      {showDates && hint && <span className="text-xs text-slate-500 dark:text-slate-400">{hint}</span>}
+    </div>
+  );
+}
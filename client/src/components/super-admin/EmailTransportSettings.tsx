@@ -0,0 +1,445 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Inbox, Mail, Paperclip, RefreshCw, Save, Send, Trash2 } from "lucide-react";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { EmailOutboxMessage, EmailTransportKind, SmtpSecurity } from "@shared/schema";
+
+interface EmailSettingsForm {
+  transport: EmailTransportKind;
+  fromEmail: string;
+  fromName: string;
+  sendgridApiKey: string;
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecurity: SmtpSecurity;
+  smtpUsername: string;
+  smtpPassword: string;
+  outboxDirectory: string;
+  clearSendgridApiKey: boolean; // Remove the saved secret instead of keeping it when the field is blank
+  clearSmtpPassword: boolean;
+}
+
+interface EmailSettingsResponse {
+  settings: Omit<EmailSettingsForm, "transport" | "smtpPort" | "clearSendgridApiKey" | "clearSmtpPassword"> & {
+    transport: EmailTransportKind | null;
+    smtpPort: number | null;
+  };
+  status: {
+    transport: EmailTransportKind | null;
+    source: "database" | "environment" | "none";
+    error?: string;
+  };
+}
+
+type OutboxSummary = Omit<EmailOutboxMessage, "text" | "html" | "attachments"> & { attachments: string[] };
+
+const TRANSPORT_LABELS: Record<EmailTransportKind, string> = {
+  sendgrid: "SendGrid",
+  smtp: "SMTP server",
+  outbox: "Outbox (keep messages, don't send)",
+};
+
+const SECURITY_LABELS: Record<SmtpSecurity, string> = {
+  starttls: "STARTTLS (usually port 587)",
+  tls: "TLS (usually port 465)",
+  none: "None (local relays only)",
+};
+
+const OUTBOX_KEY = ["/api/super-admin/settings/email/outbox"];
+const SETTINGS_KEY = ["/api/super-admin/settings/email"];
+
+// Messages the outbox transport kept instead of sending
+function EmailOutbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data, isFetching, refetch } = useQuery<{ messages: OutboxSummary[] }>({
+    queryKey: OUTBOX_KEY,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/super-admin/settings/email/outbox");
+      return res.json();
+    },
+  });
+
+  const { data: selected } = useQuery<EmailOutboxMessage>({
+    queryKey: [...OUTBOX_KEY, selectedId],
+    enabled: selectedId !== null,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/super-admin/settings/email/outbox/${selectedId}`);
+      return res.json();
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/super-admin/settings/email/outbox");
+      return res.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({ title: "Outbox cleared", description: result.message });
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: OUTBOX_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not clear outbox", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const messages = data?.messages || [];
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="w-5 h-5" />
+              Outbox
+            </CardTitle>
+            <CardDescription>Emails kept by the outbox transport, newest first</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => clearMutation.mutate()}
+              disabled={messages.length === 0 || clearMutation.isPending}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {messages.length === 0 ? (
+          <p className="text-sm text-slate-500">No messages yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+            <div className="lg:col-span-2 space-y-1 max-h-[600px] overflow-y-auto">
+              {messages.map((message) => (
+                <button key={message.id} onClick={() => setSelectedId(message.id)}
+                  className={`w-full text-left rounded-lg px-3 py-2 text-sm border ${
+                    selectedId === message.id
+                      ? "border-primary bg-primary/5"
+                      : "border-transparent hover:bg-slate-100 dark:hover:bg-slate-700/50"
+                  }`}>
+                  <p className="font-medium text-slate-800 dark:text-slate-200 truncate">{message.subject}</p>
+                  <p className="text-slate-500 truncate">To {message.toAddress}</p>
+                  <p className="text-xs text-slate-400 flex items-center gap-2">
+                    {message.createdAt && new Date(message.createdAt).toLocaleString()}
+                    {message.attachments.length > 0 && (
+                      <span className="flex items-center gap-1">
+                        <Paperclip className="w-3 h-3" />
+                        {message.attachments.join(", ")}
+                      </span>
+                    )}
+                  </p>
+                </button>
+              ))}
+            </div>
+            <div className="lg:col-span-3">
+              {selected ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-slate-700 dark:text-slate-300">
+                    <span className="font-medium">From:</span> {selected.fromAddress}
+                    <br />
+                    <span className="font-medium">To:</span> {selected.toAddress}
+                    <br />
+                    <span className="font-medium">Subject:</span> {selected.subject}
+                  </p>
+                  {selected.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {selected.attachments.map((attachment) => (
+                        <a key={attachment.filename} download={attachment.filename}
+                          href={`data:${attachment.type.split(";")[0]};base64,${attachment.content}`}
+                          className="flex items-center gap-1 text-sm text-primary hover:underline">
+                          <Paperclip className="w-3 h-3" />
+                          {attachment.filename}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {selected.html ? (
+                    <iframe title="Email" sandbox="" srcDoc={selected.html}
+                      className="w-full h-[520px] rounded-lg border border-slate-200 dark:border-slate-700 bg-white" />
+                  ) : (
+                    <pre className="whitespace-pre-wrap text-sm rounded-lg border border-slate-200 dark:border-slate-700 p-4">{selected.text}</pre>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-500">Select a message to read it.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// A saved secret's masked value, with a way to remove it on the next save
+function SavedSecret({ label, masked, cleared, onChange }: {
+  label: string;
+  masked: string;
+  cleared: boolean;
+  onChange: (cleared: boolean) => void;
+}) {
+  return (
+    <p className="text-xs text-slate-500 flex items-center gap-2">
+      {cleared ? (
+        <span>Removed when you save.</span>
+      ) : (
+        <span>{label}: <span className="font-mono">{masked}</span></span>
+      )}
+      <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onChange(!cleared)}>
+        {cleared ? "Keep it" : "Remove"}
+      </Button>
+    </p>
+  );
+}
+
+// How outgoing email is delivered: SendGrid, an SMTP relay, or the local outbox
+export function EmailTransportSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<EmailSettingsForm | null>(null);
+  const [testTo, setTestTo] = useState("");
+
+  const { data, isLoading } = useQuery<EmailSettingsResponse>({
+    queryKey: SETTINGS_KEY,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/super-admin/settings/email");
+      return res.json();
+    },
+  });
+
+  // Update form when data loads; secrets are left blank so the masked values aren't saved back
+  useEffect(() => {
+    if (data?.settings) {
+      setFormData({
+        ...data.settings,
+        transport: data.settings.transport || data.status.transport || "outbox",
+        smtpPort: data.settings.smtpPort ? String(data.settings.smtpPort) : "",
+        sendgridApiKey: "",
+        smtpPassword: "",
+        clearSendgridApiKey: false,
+        clearSmtpPassword: false,
+      });
+    }
+  }, [data]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (settings: EmailSettingsForm) => {
+      const res = await apiRequest("PUT", "/api/super-admin/settings/email", settings);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Settings updated", description: "Email settings have been saved." });
+      queryClient.invalidateQueries({ queryKey: SETTINGS_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (settings: EmailSettingsForm) => {
+      const res = await apiRequest("POST", "/api/super-admin/settings/email/test", { ...settings, to: testTo });
+      return res.json();
+    },
+    onSuccess: (result: { success: boolean; error?: string }) => {
+      toast({
+        title: result.success ? "Test email sent" : "Test email failed",
+        description: result.success
+          ? formData?.transport === "outbox" ? "It is in the outbox below." : `Check the inbox of ${testTo}.`
+          : result.error,
+        variant: result.success ? "default" : "destructive",
+      });
+      if (result.success && formData?.transport === "outbox") {
+        queryClient.invalidateQueries({ queryKey: OUTBOX_KEY });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Test failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data || !formData) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const set = (field: keyof EmailSettingsForm, value: string) => setFormData({ ...formData, [field]: value });
+  const setClear = (field: "clearSendgridApiKey" | "clearSmtpPassword", value: boolean) => setFormData({ ...formData, [field]: value });
+  const { settings, status } = data;
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="w-5 h-5" />
+                Email Delivery
+              </CardTitle>
+              <CardDescription>Choose how invitations, offers and other emails are sent</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant={status.transport && !status.error ? "default" : "destructive"}>
+                {status.transport ? TRANSPORT_LABELS[status.transport].split(" (")[0] : "Emails disabled"}
+              </Badge>
+              <Badge variant="outline" className="capitalize">Source: {status.source}</Badge>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={(e) => { e.preventDefault(); updateMutation.mutate(formData); }} className="space-y-6">
+            {status.error && (
+              <div className="flex items-start gap-3 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                <p className="text-sm text-red-600 dark:text-red-300">{status.error}</p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Transport</Label>
+              <Select value={formData.transport} onValueChange={(value) => set("transport", value)}>
+                <SelectTrigger className="w-80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TRANSPORT_LABELS) as EmailTransportKind[]).map((value) => (
+                    <SelectItem key={value} value={value}>{TRANSPORT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="fromEmail">Sender email</Label>
+                <Input id="fromEmail" value={formData.fromEmail} placeholder="noreply@platohiring.com"
+                  onChange={(e) => set("fromEmail", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fromName">Sender name</Label>
+                <Input id="fromName" value={formData.fromName} placeholder="Plato Hiring"
+                  onChange={(e) => set("fromName", e.target.value)} />
+              </div>
+            </div>
+
+            {formData.transport === "sendgrid" && (
+              <div className="space-y-2">
+                <Label htmlFor="sendgridApiKey">API key</Label>
+                <Input id="sendgridApiKey" type="password" className="font-mono" value={formData.sendgridApiKey}
+                  disabled={formData.clearSendgridApiKey}
+                  placeholder={settings.sendgridApiKey && !formData.clearSendgridApiKey ? "Enter new key to update" : "Leave blank to use SENDGRID_API_KEY"}
+                  onChange={(e) => set("sendgridApiKey", e.target.value)} />
+                {settings.sendgridApiKey && (
+                  <SavedSecret label="Current key" masked={settings.sendgridApiKey} cleared={formData.clearSendgridApiKey}
+                    onChange={(cleared) => setClear("clearSendgridApiKey", cleared)} />
+                )}
+              </div>
+            )}
+
+            {formData.transport === "smtp" && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="smtpHost">Host</Label>
+                  <Input id="smtpHost" value={formData.smtpHost} placeholder="smtp.example.com"
+                    onChange={(e) => set("smtpHost", e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="smtpPort">Port</Label>
+                  <Input id="smtpPort" inputMode="numeric" value={formData.smtpPort}
+                    placeholder={formData.smtpSecurity === "tls" ? "465" : "587"}
+                    onChange={(e) => set("smtpPort", e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Security</Label>
+                  <Select value={formData.smtpSecurity} onValueChange={(value) => set("smtpSecurity", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SECURITY_LABELS) as SmtpSecurity[]).map((value) => (
+                        <SelectItem key={value} value={value}>{SECURITY_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div />
+                <div className="space-y-2">
+                  <Label htmlFor="smtpUsername">Username</Label>
+                  <Input id="smtpUsername" value={formData.smtpUsername} placeholder="Leave blank if not required"
+                    onChange={(e) => set("smtpUsername", e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="smtpPassword">Password</Label>
+                  <Input id="smtpPassword" type="password" value={formData.smtpPassword}
+                    disabled={formData.clearSmtpPassword}
+                    placeholder={settings.smtpPassword && !formData.clearSmtpPassword ? "Enter new password to update" : ""}
+                    onChange={(e) => set("smtpPassword", e.target.value)} />
+                  {settings.smtpPassword && (
+                    <SavedSecret label="Current password" masked={settings.smtpPassword} cleared={formData.clearSmtpPassword}
+                      onChange={(cleared) => setClear("clearSmtpPassword", cleared)} />
+                  )}
+                </div>
+              </div>
+            )}
+
+            {formData.transport === "outbox" && (
+              <div className="space-y-2">
+                <Label htmlFor="outboxDirectory">Also write .eml files to a folder in uploads/email-outbox</Label>
+                <Input id="outboxDirectory" className="font-mono" value={formData.outboxDirectory} placeholder="Optional, e.g. staging"
+                  onChange={(e) => set("outboxDirectory", e.target.value)} />
+                <p className="text-xs text-slate-500">
+                  Nothing is delivered. Every email is kept below so the invitation and offer flows can be tried without an email provider.
+                </p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-slate-200 dark:border-slate-700">
+              <div className="flex items-center gap-2">
+                <Input className="w-64" type="email" value={testTo} placeholder="Send a test to..."
+                  onChange={(e) => setTestTo(e.target.value)} />
+                <Button type="button" variant="outline" disabled={!testTo || testMutation.isPending}
+                  onClick={() => testMutation.mutate(formData)}>
+                  {testMutation.isPending ? (
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4 mr-2" />
+                  )}
+                  Send Test
+                </Button>
+              </div>
+              <Button type="submit" disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? (
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Changes
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {(status.transport === "outbox" || formData.transport === "outbox") && <EmailOutbox />}
+    </div>
+  );
+}
@@ -58,6 +58,17 @@ export async function apiRequest(
   return res;
 }
 
+// Message from an apiRequest error ("409: {\"message\":...}"): the JSON body's message or error field, else the body
+export function errorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.message || parsed.error || body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
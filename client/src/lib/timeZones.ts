@@ -0,0 +1,71 @@
+export const TIME_ZONES = [
+  { value: "UTC", label: "UTC" },
+  { value: "America/New_York", label: "Eastern Time (ET)" },
+  { value: "America/Chicago", label: "Central Time (CT)" },
+  { value: "America/Denver", label: "Mountain Time (MT)" },
+  { value: "America/Los_Angeles", label: "Pacific Time (PT)" },
+  { value: "America/Toronto", label: "Toronto (ET)" },
+  { value: "America/Vancouver", label: "Vancouver (PT)" },
+  { value: "Europe/London", label: "London (GMT/BST)" },
+  { value: "Europe/Paris", label: "Paris (CET)" },
+  { value: "Europe/Berlin", label: "Berlin (CET)" },
+  { value: "Africa/Cairo", label: "Cairo (EET)" },
+  { value: "Asia/Riyadh", label: "Riyadh (AST)" },
+  { value: "Asia/Dubai", label: "Dubai (GST)" },
+  { value: "Asia/Kolkata", label: "India (IST)" },
+  { value: "Asia/Shanghai", label: "Shanghai (CST)" },
+  { value: "Asia/Tokyo", label: "Tokyo (JST)" },
+  { value: "Australia/Sydney", label: "Sydney (AEST)" },
+];
+
+// Abbreviations older interviews were saved with
+const LEGACY_TIME_ZONES: Record<string, string> = {
+  GMT: "Europe/London",
+  EST: "America/New_York",
+  CST: "America/Chicago",
+  MST: "America/Denver",
+  PST: "America/Los_Angeles",
+  CET: "Europe/Paris",
+  EET: "Africa/Cairo",
+  JST: "Asia/Tokyo",
+  AEST: "Australia/Sydney",
+  IST: "Asia/Kolkata",
+};
+
+export function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export function normalizeTimeZone(value: string | null | undefined): string {
+  if (!value) {
+    return browserTimeZone();
+  }
+  return LEGACY_TIME_ZONES[value] || value;
+}
+
+// Zone options with the given zone included, so the browser's or a saved zone is always selectable
+export function timeZoneOptions(current?: string | null) {
+  if (!current || TIME_ZONES.some((tz) => tz.value === current)) {
+    return TIME_ZONES;
+  }
+  return [{ value: current, label: current.replace(/_/g, " ") }, ...TIME_ZONES];
+}
+
+// e.g. "Mon, Mar 3, 2025, 2:00 PM GMT+2"
+export function formatInstant(instant: string | Date, timeZone?: string, options?: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+    ...(timeZone && { timeZone }),
+    ...options,
+  }).format(new Date(instant));
+}
@@ -0,0 +1,154 @@
+import { useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CalendarClock, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { browserTimeZone, formatInstant } from "@/lib/timeZones";
+
+interface BookingView {
+  candidateName: string;
+  jobTitle: string | null;
+  companyName: string | null;
+  durationMinutes: number;
+  interviewType: string | null;
+  status: "open" | "booked" | "cancelled" | "expired";
+  expiresAt: string;
+  slots: string[];
+  scheduledAt: string | null;
+  manageUrl: string | null;
+}
+
+const CLOSED_MESSAGES: Record<string, string> = {
+  cancelled: "This booking link has been withdrawn. Please contact the hiring team.",
+  expired: "This booking link has expired. Please contact the hiring team for a new one.",
+};
+
+export default function InterviewBookingPage() {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const timeZone = browserTimeZone();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const url = `/api/interview-booking/${token}`;
+  const { data: booking, isLoading, error } = useQuery<BookingView>({
+    queryKey: [url],
+    enabled: !!token,
+    retry: false,
+  });
+
+  // Slots grouped by the candidate's local day
+  const days = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    for (const slot of booking?.slots || []) {
+      const day = formatInstant(slot, timeZone, { hour: undefined, minute: undefined, timeZoneName: undefined });
+      groups.set(day, [...(groups.get(day) || []), slot]);
+    }
+    return Array.from(groups.entries());
+  }, [booking?.slots, timeZone]);
+
+  const bookMutation = useMutation({
+    mutationFn: () => apiRequest("POST", url, { start: selected, timeZone }),
+    onSettled: () => {
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: [url] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!booking || error) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-bold text-gray-900">Booking Link Not Found</h1>
+          <p className="text-gray-600">This link is invalid. Please check your email and try again.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 py-8">
+      <Card className="w-full max-w-2xl mx-4">
+        <CardHeader className="text-center pb-4">
+          <div className="mx-auto mb-4 h-16 w-16 rounded-full flex items-center justify-center bg-blue-100">
+            <CalendarClock className="h-8 w-8 text-blue-600" />
+          </div>
+          <CardTitle className="text-2xl text-gray-900">
+            {booking.status === "booked" ? "Your Interview Is Booked" : "Choose Your Interview Time"}
+          </CardTitle>
+          <p className="text-gray-600">
+            {booking.jobTitle || "Position"}
+            {booking.companyName && ` at ${booking.companyName}`} · {booking.durationMinutes} minutes
+          </p>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {bookMutation.error && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>{errorMessage(bookMutation.error as Error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {booking.status === "booked" ? (
+            <div className="space-y-4">
+              <Alert className="border-green-200 bg-green-50">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-800">
+                  {booking.scheduledAt
+                    ? `You're booked for ${formatInstant(booking.scheduledAt, timeZone)}. A confirmation with a calendar invite is on its way.`
+                    : "Your interview is booked. A confirmation is on its way."}
+                </AlertDescription>
+              </Alert>
+              {booking.manageUrl && (
+                <Button asChild variant="outline" className="w-full">
+                  <Link to={booking.manageUrl}>Reschedule or cancel</Link>
+                </Button>
+              )}
+            </div>
+          ) : booking.status !== "open" ? (
+            <p className="text-center text-gray-600">{CLOSED_MESSAGES[booking.status]}</p>
+          ) : days.length === 0 ? (
+            <p className="text-center text-gray-600">
+              There are no open times right now. Please check back later or reply to your invitation email.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 text-center">Times are shown in your time zone ({timeZone}).</p>
+              <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+                {days.map(([day, slots]) => (
+                  <div key={day}>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">{day}</h3>
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                      {slots.map((slot) => (
+                        <Button key={slot} size="sm" variant={selected === slot ? "default" : "outline"}
+                          onClick={() => setSelected(slot)}>
+                          {formatInstant(slot, timeZone, { weekday: undefined, month: undefined, day: undefined, year: undefined, timeZoneName: undefined })}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <Button className="w-full" size="lg" disabled={!selected || bookMutation.isPending}
+                onClick={() => bookMutation.mutate()}>
+                {bookMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {selected ? `Book ${formatInstant(selected, timeZone)}` : "Select a time"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CalendarClock, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { browserTimeZone, formatInstant } from "@/lib/timeZones";
+
+interface ManagedInterview {
+  candidateName: string;
+  jobTitle: string | null;
+  companyName: string | null;
+  scheduledAt: string | null;
+  timeZone: string | null;
+  durationMinutes: number;
+  interviewType: string;
+  meetingLink: string | null;
+  status: string;
+  canChange: boolean;
+  reason: string | null;
+}
+
+export default function InterviewManagePage() {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const timeZone = browserTimeZone();
+  const [mode, setMode] = useState<"view" | "reschedule" | "cancel">("view");
+  const [scheduledDate, setScheduledDate] = useState("");
+  const [scheduledTime, setScheduledTime] = useState("");
+  const [reason, setReason] = useState("");
+  const [done, setDone] = useState<string | null>(null);
+
+  const url = `/api/interviews/manage/${token}`;
+  const { data: interview, isLoading, error } = useQuery<ManagedInterview>({
+    queryKey: [url],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${url}/reschedule`, { scheduledDate, scheduledTime, timeZone }),
+    onSuccess: () => {
+      setDone("Your interview has been rescheduled. An updated calendar invite is on its way.");
+      setMode("view");
+      queryClient.invalidateQueries({ queryKey: [url] });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${url}/cancel`, { reason }),
+    onSuccess: () => {
+      setDone("Your interview has been cancelled and the hiring team has been notified.");
+      setMode("view");
+      queryClient.invalidateQueries({ queryKey: [url] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!interview || error) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-bold text-gray-900">Interview Not Found</h1>
+          <p className="text-gray-600">This link is invalid or the interview no longer exists.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const mutationError = rescheduleMutation.error || cancelMutation.error;
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 py-8">
+      <Card className="w-full max-w-lg mx-4">
+        <CardHeader className="text-center pb-4">
+          <div className="mx-auto mb-4 h-16 w-16 rounded-full flex items-center justify-center bg-blue-100">
+            <CalendarClock className="h-8 w-8 text-blue-600" />
+          </div>
+          <CardTitle className="text-2xl text-gray-900">Your Interview</CardTitle>
+          <p className="text-gray-600">
+            {interview.jobTitle || "Position"}
+            {interview.companyName && ` at ${interview.companyName}`}
+          </p>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <div className="bg-blue-50 p-4 rounded-lg space-y-1 text-sm text-blue-900">
+            <div>
+              <span className="font-semibold">When: </span>
+              {interview.scheduledAt ? formatInstant(interview.scheduledAt, timeZone) : "To be confirmed"}
+            </div>
+            <div>
+              <span className="font-semibold">Duration: </span>
+              {interview.durationMinutes} minutes
+            </div>
+            <div className="capitalize">
+              <span className="font-semibold">Type: </span>
+              {interview.interviewType}
+            </div>
+            {interview.meetingLink && interview.status !== "cancelled" && (
+              <div>
+                <span className="font-semibold">Meeting link: </span>
+                <a href={interview.meetingLink} className="underline break-all">{interview.meetingLink}</a>
+              </div>
+            )}
+            <div className="text-xs text-blue-700 pt-1">Times are shown in your time zone ({timeZone}).</div>
+          </div>
+
+          {done && (
+            <Alert className="border-green-200 bg-green-50">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800">{done}</AlertDescription>
+            </Alert>
+          )}
+
+          {mutationError && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>{errorMessage(mutationError as Error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {!interview.canChange ? (
+            <p className="text-center text-gray-600">{interview.reason}</p>
+          ) : mode === "reschedule" ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="scheduledDate">New date</Label>
+                  <Input id="scheduledDate" type="date" value={scheduledDate} className="mt-2"
+                    onChange={(e) => setScheduledDate(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="scheduledTime">New time</Label>
+                  <Input id="scheduledTime" type="time" value={scheduledTime} className="mt-2"
+                    onChange={(e) => setScheduledTime(e.target.value)} />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => setMode("view")}>Back</Button>
+                <Button className="flex-1" disabled={!scheduledDate || !scheduledTime || rescheduleMutation.isPending}
+                  onClick={() => rescheduleMutation.mutate()}>
+                  {rescheduleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Confirm New Time
+                </Button>
+              </div>
+            </div>
+          ) : mode === "cancel" ? (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="reason">Reason (optional)</Label>
+                <Textarea id="reason" value={reason} className="mt-2" rows={3}
+                  placeholder="Let the hiring team know why you are cancelling"
+                  onChange={(e) => setReason(e.target.value)} />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => setMode("view")}>Back</Button>
+                <Button variant="destructive" className="flex-1" disabled={cancelMutation.isPending}
+                  onClick={() => cancelMutation.mutate()}>
+                  {cancelMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Cancel Interview
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => { setDone(null); setMode("reschedule"); }}>
+                Reschedule
+              </Button>
+              <Button variant="outline" className="flex-1 text-red-600" onClick={() => { setDone(null); setMode("cancel"); }}>
+                Cancel
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle, Download, FileSignature, Loader2, XCircle } from "lucide-react";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { OfferLetterStatus } from "@shared/schema";
+
+interface OfferView {
+  candidateName: string;
+  position: string;
+  companyName: string | null;
+  status: OfferLetterStatus | "revising";
+  content: string | null;
+  documentHash: string | null;
+  sentAt: string | null;
+  expiresAt: string | null;
+  respondedAt: string | null;
+  responseNote: string | null;
+  signerName: string | null;
+  signedAt: string | null;
+}
+
+type Mode = "accept" | "decline" | "request_changes";
+
+const RESPONDED_MESSAGES: Partial<Record<OfferView["status"], string>> = {
+  declined: "You declined this offer. The hiring team has been told.",
+  changes_requested: "You asked for changes. The hiring team will send you an updated offer.",
+  revising: "This offer is being updated. You'll receive the new version by email.",
+  expired: "This offer has expired. Please contact the hiring team if you're still interested.",
+};
+
+// Canvas the candidate draws their signature on. Exported as JPEG on white so it can be embedded in the PDF.
+function SignaturePad({ onChange }: { onChange: (image: string | null) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.lineWidth = 2.5;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  useEffect(clear, []);
+
+  const point = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((event.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = point(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!drawing.current || !context) return;
+    const { x, y } = point(event);
+    context.lineTo(x, y);
+    context.stroke();
+    hasInk.current = true;
+  };
+
+  const end = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    if (hasInk.current) {
+      onChange(canvasRef.current!.toDataURL("image/jpeg", 0.85));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas ref={canvasRef} width={500} height={150}
+        className="w-full h-[150px] rounded-md border border-gray-300 bg-white touch-none cursor-crosshair"
+        onPointerDown={start} onPointerMove={move} onPointerUp={end} onPointerLeave={end} />
+      <Button type="button" variant="ghost" size="sm" onClick={clear}>Clear</Button>
+    </div>
+  );
+}
+
+export default function OfferResponsePage() {
+  const { token } = useParams<{ token: string }>();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<Mode | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [signatureType, setSignatureType] = useState<"typed" | "drawn">("typed");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [agreed, setAgreed] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const url = `/api/offer-response/${token}`;
+  const { data: offer, isLoading, error } = useQuery<OfferView>({
+    queryKey: [url],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", url, {
+        action: mode,
+        signerName,
+        signatureImage: signatureType === "drawn" ? signatureImage : null,
+        reason,
+        documentHash: offer?.documentHash,
+      });
+      return response.json() as Promise<OfferView>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData([url], updated);
+      setMode(null);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!offer || error) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-bold text-gray-900">Offer Not Found</h1>
+          <p className="text-gray-600">This link is invalid. Please check your email and try again.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const canSign = signerName.trim() && agreed && (signatureType === "typed" || !!signatureImage);
+  const canSubmit = mode === "accept" ? canSign : mode === "request_changes" ? !!reason.trim() : mode === "decline";
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 py-8">
+      <Card className="w-full max-w-3xl mx-4">
+        <CardHeader className="text-center pb-4">
+          <div className="mx-auto mb-4 h-16 w-16 rounded-full flex items-center justify-center bg-blue-100">
+            <FileSignature className="h-8 w-8 text-blue-600" />
+          </div>
+          <CardTitle className="text-2xl text-gray-900">
+            {offer.status === "accepted" ? "Offer Accepted" : "Your Job Offer"}
+          </CardTitle>
+          <p className="text-gray-600">
+            {offer.position}
+            {offer.companyName && ` at ${offer.companyName}`}
+          </p>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {respondMutation.error && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>{errorMessage(respondMutation.error as Error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {offer.status === "accepted" && (
+            <Alert className="border-green-200 bg-green-50">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800">
+                Signed by {offer.signerName}
+                {offer.signedAt && ` on ${new Date(offer.signedAt).toLocaleString()}`}. Welcome aboard! The hiring team will be in touch about next steps.
+              </AlertDescription>
+            </Alert>
+          )}
+          {RESPONDED_MESSAGES[offer.status] && (
+            <p className="text-center text-gray-600">{RESPONDED_MESSAGES[offer.status]}</p>
+          )}
+
+          {offer.content && (
+            <>
+              <div className="rounded-lg border border-gray-200 bg-white p-6 max-h-[50vh] overflow-y-auto">
+                <pre className="whitespace-pre-wrap font-sans text-sm text-gray-900 leading-relaxed">{offer.content}</pre>
+              </div>
+              <Button asChild variant="outline" className="w-full">
+                <a href={`${url}/pdf`} target="_blank" rel="noreferrer">
+                  <Download className="h-4 w-4 mr-2" />
+                  {offer.status === "accepted" ? "Download Signed PDF" : "View as PDF"}
+                </a>
+              </Button>
+            </>
+          )}
+
+          {offer.status === "sent" && (
+            <div className="space-y-4 border-t border-gray-200 pt-6">
+              {offer.expiresAt && (
+                <p className="text-center text-sm text-gray-600">
+                  Please respond by {new Date(offer.expiresAt).toLocaleString([], { dateStyle: "full", timeStyle: "short" })}.
+                </p>
+              )}
+              <div className="grid grid-cols-3 gap-2">
+                <Button variant={mode === "accept" ? "default" : "outline"} onClick={() => setMode("accept")}>Accept</Button>
+                <Button variant={mode === "request_changes" ? "default" : "outline"} onClick={() => setMode("request_changes")}>Request Changes</Button>
+                <Button variant={mode === "decline" ? "destructive" : "outline"} onClick={() => setMode("decline")}>Decline</Button>
+              </div>
+
+              {mode === "accept" && (
+                <div className="space-y-4">
+                  <div>
+                    <Label>Full legal name</Label>
+                    <Input className="mt-1" value={signerName} maxLength={120} onChange={(e) => setSignerName(e.target.value)} />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="button" size="sm" variant={signatureType === "typed" ? "secondary" : "ghost"} onClick={() => setSignatureType("typed")}>
+                      Type signature
+                    </Button>
+                    <Button type="button" size="sm" variant={signatureType === "drawn" ? "secondary" : "ghost"} onClick={() => setSignatureType("drawn")}>
+                      Draw signature
+                    </Button>
+                  </div>
+                  {signatureType === "typed" ? (
+                    <div className="h-[80px] rounded-md border border-gray-300 bg-white flex items-center px-4">
+                      <span className="text-3xl italic text-gray-900 font-serif">{signerName}</span>
+                    </div>
+                  ) : (
+                    <SignaturePad onChange={setSignatureImage} />
+                  )}
+                  <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <Checkbox className="mt-0.5" checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+                    I have read this offer and agree that my electronic signature is as binding as a handwritten one.
+                  </label>
+                </div>
+              )}
+
+              {(mode === "decline" || mode === "request_changes") && (
+                <div>
+                  <Label>{mode === "decline" ? "Reason (optional)" : "What would you like changed?"}</Label>
+                  <Textarea className="mt-1" rows={4} value={reason} maxLength={2000} onChange={(e) => setReason(e.target.value)} />
+                </div>
+              )}
+
+              {mode && (
+                <Button className="w-full" size="lg" variant={mode === "decline" ? "destructive" : "default"}
+                  disabled={!canSubmit || respondMutation.isPending} onClick={() => respondMutation.mutate()}>
+                  {respondMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {mode === "accept" ? "Sign and Accept Offer" : mode === "decline" ? "Decline Offer" : "Send Request"}
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
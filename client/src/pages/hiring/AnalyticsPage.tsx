@@ -1,6 +1,23 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { format, subDays, subMonths } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
 import {
   BarChart3,
   TrendingUp,
@@ -10,9 +27,104 @@ import {
   Target,
   FileText,
   CheckCircle,
+  Clock,
+  Filter,
 } from "lucide-react";
 
+interface MonthlyFunnel {
+  month: string;
+  name: string;
+  applications: number;
+  invitations: number;
+  interviews: number;
+  shortlisted: number;
+  offers: number;
+  hires: number;
+}
+
+interface DurationStats {
+  samples: number;
+  averageDays: number | null;
+  medianDays: number | null;
+}
+
+interface JobConversion {
+  jobId: number;
+  title: string;
+  applications: number;
+  interviews: number;
+  shortlisted: number;
+  offers: number;
+  hires: number;
+  interviewRate: number;
+  shortlistRate: number;
+  hireRate: number;
+}
+
+type RangePreset = "30d" | "90d" | "6m" | "12m" | "custom";
+
+const RANGE_LABELS: Record<RangePreset, string> = {
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  "6m": "Last 6 months",
+  "12m": "Last 12 months",
+  custom: "Custom range",
+};
+
+const funnelChartConfig = {
+  applications: { label: "Applications", color: "#3B82F6" },
+  invitations: { label: "AI Invitations", color: "#8B5CF6" },
+  interviews: { label: "Interviews", color: "#F59E0B" },
+  shortlisted: { label: "Shortlisted", color: "#06B6D4" },
+  offers: { label: "Offers", color: "#EC4899" },
+  hires: { label: "Hires", color: "#10B981" },
+} satisfies ChartConfig;
+
+const presetStart = (preset: RangePreset, now: Date) => {
+  switch (preset) {
+    case "30d": return subDays(now, 30);
+    case "90d": return subDays(now, 90);
+    case "12m": return subMonths(now, 12);
+    default: return subMonths(now, 6);
+  }
+};
+
 export default function AnalyticsPage() {
+  const [rangePreset, setRangePreset] = useState<RangePreset>("6m");
+  const [customFrom, setCustomFrom] = useState(format(subMonths(new Date(), 6), "yyyy-MM-dd"));
+  const [customTo, setCustomTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [jobFilter, setJobFilter] = useState("all");
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const filterParams = new URLSearchParams({
+    from: rangePreset === "custom" ? customFrom : format(presetStart(rangePreset, new Date()), "yyyy-MM-dd"),
+    to: rangePreset === "custom" ? customTo : today,
+  });
+  if (jobFilter !== "all") filterParams.set("jobId", jobFilter);
+  const filterQuery = filterParams.toString();
+
+  const { data: jobs = [] } = useQuery<Array<{ id: number; title: string }>>({
+    queryKey: ["/api/job-postings"],
+  });
+
+  const { data: monthlyFunnel = [] } = useQuery<MonthlyFunnel[]>({
+    queryKey: [`/api/analytics/performance?${filterQuery}`],
+  });
+
+  const { data: durations } = useQuery<{ timeToShortlist: DurationStats; timeToHire: DurationStats }>({
+    queryKey: [`/api/analytics/durations?${filterQuery}`],
+  });
+
+  const { data: jobConversion = [] } = useQuery<JobConversion[]>({
+    queryKey: [`/api/analytics/jobs?${filterQuery}`],
+  });
+
+  const { data: sources = [] } = useQuery<Array<{ name: string; value: number; color: string }>>({
+    queryKey: [`/api/analytics/sources?${filterQuery}`],
+  });
+
+  const sourceTotal = sources.reduce((sum, source) => sum + source.value, 0);
+
   // Fetch analytics data
   const { data: jobCounts = { active: 0 } } = useQuery<{ active: number }>({
     queryKey: ["/api/job-postings/count"],
@@ -276,6 +388,158 @@ export default function AnalyticsPage() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Filters */}
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardContent className="p-4 flex flex-wrap items-center gap-3">
+          <Filter className="w-4 h-4 text-slate-500" />
+          <Select value={rangePreset} onValueChange={(value) => setRangePreset(value as RangePreset)}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RANGE_LABELS) as RangePreset[]).map((preset) => (
+                <SelectItem key={preset} value={preset}>{RANGE_LABELS[preset]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {rangePreset === "custom" && (
+            <>
+              <Input type="date" className="w-[160px]" value={customFrom} max={customTo}
+                onChange={(e) => setCustomFrom(e.target.value)} />
+              <span className="text-sm text-slate-500">to</span>
+              <Input type="date" className="w-[160px]" value={customTo} min={customFrom} max={today}
+                onChange={(e) => setCustomTo(e.target.value)} />
+            </>
+          )}
+          <Select value={jobFilter} onValueChange={setJobFilter}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All jobs</SelectItem>
+              {jobs.map((job) => (
+                <SelectItem key={job.id} value={String(job.id)}>{job.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {/* Monthly Funnel */}
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardHeader>
+          <CardTitle>Hiring Funnel by Month</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={funnelChartConfig} className="h-[320px] w-full aspect-auto">
+            <BarChart data={monthlyFunnel}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              {(Object.keys(funnelChartConfig) as Array<keyof typeof funnelChartConfig>).map((stage) => (
+                <Bar key={stage} dataKey={stage} fill={`var(--color-${stage})`} radius={[3, 3, 0, 0]} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+          <div className="flex flex-wrap justify-center gap-4 pt-3">
+            {Object.entries(funnelChartConfig).map(([stage, { label, color }]) => (
+              <div key={stage} className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-400">
+                <span className="h-2 w-2 rounded-[2px]" style={{ backgroundColor: color }} />
+                {label}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Durations */}
+        {[
+          { label: "Time to Shortlist", stats: durations?.timeToShortlist },
+          { label: "Time to Hire", stats: durations?.timeToHire },
+        ].map(({ label, stats }) => (
+          <Card key={label} className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+            <CardContent className="p-6">
+              <div className="flex items-center gap-2 text-sm font-medium text-slate-500 dark:text-slate-400">
+                <Clock className="w-4 h-4" />
+                {label}
+              </div>
+              <p className="text-3xl font-bold text-slate-900 dark:text-white mt-2">
+                {stats?.medianDays != null ? `${stats.medianDays} days` : "—"}
+              </p>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                {stats && stats.samples > 0
+                  ? `Median of ${stats.samples} candidates · average ${stats.averageDays} days`
+                  : "No candidates reached this stage in the selected range"}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+
+        {/* Sources */}
+        <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+          <CardHeader>
+            <CardTitle>Candidate Sources</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {sources.map((source) => (
+              <div key={source.name}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-700 dark:text-slate-300">{source.name}</span>
+                  <span className="font-medium text-slate-900 dark:text-white">{source.value}</span>
+                </div>
+                <div className="h-2 mt-1 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+                  <div className="h-full rounded-full"
+                    style={{ width: `${sourceTotal > 0 ? (source.value / sourceTotal) * 100 : 0}%`, backgroundColor: source.color }} />
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per-job conversion */}
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardHeader>
+          <CardTitle>Conversion by Job</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {jobConversion.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400 py-4 text-center">No activity in the selected range</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                    <th className="py-2 pr-4 font-medium">Job</th>
+                    <th className="py-2 px-2 font-medium text-right">Applications</th>
+                    <th className="py-2 px-2 font-medium text-right">Interviews</th>
+                    <th className="py-2 px-2 font-medium text-right">Shortlisted</th>
+                    <th className="py-2 px-2 font-medium text-right">Offers</th>
+                    <th className="py-2 px-2 font-medium text-right">Hires</th>
+                    <th className="py-2 pl-2 font-medium text-right">Hire rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobConversion.map((job) => (
+                    <tr key={job.jobId} className="border-b border-slate-100 dark:border-slate-700/50">
+                      <td className="py-2 pr-4 text-slate-900 dark:text-white">{job.title}</td>
+                      <td className="py-2 px-2 text-right">{job.applications}</td>
+                      <td className="py-2 px-2 text-right">{job.interviews} <span className="text-xs text-slate-400">({job.interviewRate}%)</span></td>
+                      <td className="py-2 px-2 text-right">{job.shortlisted} <span className="text-xs text-slate-400">({job.shortlistRate}%)</span></td>
+                      <td className="py-2 px-2 text-right">{job.offers}</td>
+                      <td className="py-2 px-2 text-right">{job.hires}</td>
+                      <td className="py-2 pl-2 text-right font-medium">{job.hireRate}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -16,11 +16,13 @@ import ApplicantsPage from "./applicants/ApplicantsPage";
 import ShortlistedPage from "./applicants/ShortlistedPage";
 import AcceptedPage from "./applicants/AcceptedPage";
 import DeniedPage from "./applicants/DeniedPage";
+import PipelinePage from "./applicants/PipelinePage";
 import ApplicantDetailsPage from "./applicants/ApplicantDetailsPage";
 import ResumesPage from "./resumes/ResumesPage";
 import ResumeSearchPage from "./resumes/ResumeSearchPage";
 import ResumeDetailsPage from "./resumes/ResumeDetailsPage";
 import ResumeUploadPage from "./resumes/ResumeUploadPage";
+import ResumeDuplicatesPage from "./resumes/ResumeDuplicatesPage";
 import InterviewsPage from "./interviews/InterviewsPage";
 import CreateInterviewPage from "./interviews/CreateInterviewPage";
 import AnalyticsPage from "./AnalyticsPage";
@@ -108,12 +110,14 @@ export default function HiringDashboard() {
         <Route path="applicants/shortlisted" element={<ShortlistedPage />} />
         <Route path="applicants/accepted" element={<AcceptedPage />} />
         <Route path="applicants/denied" element={<DeniedPage />} />
+        <Route path="applicants/pipeline" element={<PipelinePage />} />
         <Route path="applicants/:applicantId" element={<ApplicantDetailsPage />} />
 
         {/* Resumes routes */}
         <Route path="resumes" element={<ResumesPage />} />
         <Route path="resumes/upload" element={<ResumeUploadPage />} />
         <Route path="resumes/search" element={<ResumeSearchPage />} />
+        <Route path="resumes/duplicates" element={<ResumeDuplicatesPage />} />
         <Route path="resumes/:resumeId" element={<ResumeDetailsPage />} />
 
         {/* Interviews routes */}
@@ -9,6 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Combobox } from "@/components/ui/combobox";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Building2,
   Users,
@@ -20,12 +21,33 @@ import {
   Settings,
   Loader2,
   Palette,
+  Scale,
+  Workflow,
+  CalendarClock,
+  CalendarSync,
+  ClipboardCheck,
+  FileSignature,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getQueryOptions } from "@/lib/queryConfig";
 import { z } from "zod";
 import LogoUploader from "@/components/LogoUploader";
 import { useBranding } from "@/contexts/BrandingContext";
+import { ScoringWeightsEditor, DEFAULT_SCORING_WEIGHTS } from "@/components/ScoringWeightsEditor";
+import { PipelineStagesEditor } from "@/components/PipelineStagesEditor";
+import { InterviewerAvailabilityEditor } from "@/components/InterviewerAvailabilityEditor";
+import { CalendarSyncSettings } from "@/components/CalendarSyncSettings";
+import { ApprovalChainEditor } from "@/components/ApprovalChainEditor";
+import { OfferTemplatesEditor } from "@/components/OfferTemplatesEditor";
+import { EmailTemplatesEditor } from "@/components/EmailTemplatesEditor";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ScoringWeights, RequisitionApprovalStep } from "@shared/schema";
 
 interface OrganizationData {
   companyName: string;
@@ -272,7 +294,7 @@ export default function SettingsPage() {
       </motion.div>
 
       <Tabs defaultValue="organization" className="w-full">
-        <TabsList className="grid w-full grid-cols-5 max-w-3xl">
+        <TabsList className="grid w-full grid-cols-11 max-w-6xl">
           <TabsTrigger value="organization" className="flex items-center gap-2">
             <Building2 className="w-4 h-4" />
             Organization
@@ -293,6 +315,30 @@ export default function SettingsPage() {
             <Palette className="w-4 h-4" />
             Branding
           </TabsTrigger>
+          <TabsTrigger value="scoring" className="flex items-center gap-2">
+            <Scale className="w-4 h-4" />
+            Scoring
+          </TabsTrigger>
+          <TabsTrigger value="pipeline" className="flex items-center gap-2">
+            <Workflow className="w-4 h-4" />
+            Pipeline
+          </TabsTrigger>
+          <TabsTrigger value="approvals" className="flex items-center gap-2">
+            <ClipboardCheck className="w-4 h-4" />
+            Approvals
+          </TabsTrigger>
+          <TabsTrigger value="offers" className="flex items-center gap-2">
+            <FileSignature className="w-4 h-4" />
+            Offers
+          </TabsTrigger>
+          <TabsTrigger value="emails" className="flex items-center gap-2">
+            <Mail className="w-4 h-4" />
+            Emails
+          </TabsTrigger>
+          <TabsTrigger value="availability" className="flex items-center gap-2">
+            <CalendarClock className="w-4 h-4" />
+            Availability
+          </TabsTrigger>
         </TabsList>
 
         {/* Organization Tab */}
@@ -597,6 +643,67 @@ export default function SettingsPage() {
         <TabsContent value="branding" className="mt-6">
           <BrandingTabContent teamMembers={teamMembers} currentUserId={userProfile?.id} />
         </TabsContent>
+
+        {/* Scoring Tab */}
+        <TabsContent value="scoring" className="mt-6">
+          <ScoringTabContent
+            teamMembers={teamMembers}
+            currentUserId={userProfile?.id}
+            defaultWeights={organization?.defaultScoringWeights || null}
+            autoRescoreNewVersions={!!organization?.autoRescoreNewVersions}
+          />
+        </TabsContent>
+
+        {/* Pipeline Tab */}
+        <TabsContent value="pipeline" className="mt-6">
+          <PipelineTabContent teamMembers={teamMembers} currentUserId={userProfile?.id} />
+        </TabsContent>
+
+        {/* Approvals Tab */}
+        <TabsContent value="approvals" className="mt-6">
+          <ApprovalsTabContent
+            teamMembers={teamMembers}
+            currentUserId={userProfile?.id}
+            chain={organization?.requisitionApprovalChain || null}
+          />
+        </TabsContent>
+
+        {/* Offers Tab */}
+        <TabsContent value="offers" className="mt-6">
+          <OffersTabContent teamMembers={teamMembers} currentUserId={userProfile?.id} />
+        </TabsContent>
+
+        {/* Emails Tab */}
+        <TabsContent value="emails" className="mt-6">
+          <EmailsTabContent teamMembers={teamMembers} currentUserId={userProfile?.id} />
+        </TabsContent>
+
+        {/* Availability Tab */}
+        <TabsContent value="availability" className="mt-6">
+          <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="w-5 h-5 text-blue-600" />
+                Interview Availability
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <InterviewerAvailabilityEditor />
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarSync className="w-5 h-5 text-blue-600" />
+                Calendar Sync
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CalendarSyncSettings />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -770,3 +877,282 @@ function BrandingTabContent({ teamMembers, currentUserId }: { teamMembers: TeamM
     </div>
   );
 }
+
+function ScoringTabContent({ teamMembers, currentUserId, defaultWeights, autoRescoreNewVersions }: {
+  teamMembers: TeamMember[],
+  currentUserId?: string,
+  defaultWeights: ScoringWeights | null,
+  autoRescoreNewVersions: boolean,
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null keeps the AI's overall score for jobs without their own weights
+  const [weights, setWeights] = useState<ScoringWeights | null>(defaultWeights);
+
+  useEffect(() => {
+    setWeights(defaultWeights);
+  }, [defaultWeights]);
+
+  const currentUserMember = teamMembers.find(m => m.userId === currentUserId);
+  const isAdmin = currentUserMember?.role === 'admin' || currentUserMember?.role === 'owner';
+
+  const updateWeightsMutation = useMutation({
+    mutationFn: async (data: ScoringWeights | null) => {
+      const response = await fetch('/api/organizations/current/scoring-weights', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weights: data }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to update scoring weights');
+      }
+      return response.json();
+    },
+    onSuccess: (result: { recomputedScores: number }) => {
+      toast({
+        title: "Success",
+        description: `Default scoring weights saved. ${result.recomputedScores} applicant scores were re-ranked.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const rescoreMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await fetch('/api/organizations/current/rescore-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoRescoreNewVersions: enabled }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to update re-scoring settings');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (!isAdmin) {
+    return (
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardContent className="py-8">
+          <div className="text-center">
+            <Shield className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-600 dark:text-slate-400">
+              Only organization administrators can manage scoring settings.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-blue-600" />
+          Default Scoring Weights
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Jobs without their own weights compute the overall score from these. Saving re-ranks existing applicants from their stored sub-scores; no credits are used.
+        </p>
+        <div className="flex items-center gap-2">
+          <Checkbox checked={weights !== null}
+            onCheckedChange={(checked) => setWeights(checked === true ? (defaultWeights || DEFAULT_SCORING_WEIGHTS) : null)} />
+          <Label>Weight the overall score</Label>
+        </div>
+        {weights !== null ? (
+          <ScoringWeightsEditor value={weights} onChange={setWeights} />
+        ) : (
+          <p className="text-sm text-slate-500">The AI's overall score is used as-is.</p>
+        )}
+        <Button onClick={() => updateWeightsMutation.mutate(weights)} disabled={updateWeightsMutation.isPending}>
+          {updateWeightsMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Weights
+        </Button>
+        <div className="border-t border-slate-200 dark:border-slate-700 pt-4 space-y-1">
+          <div className="flex items-center gap-2">
+            <Checkbox checked={autoRescoreNewVersions} disabled={rescoreMutation.isPending}
+              onCheckedChange={(checked) => rescoreMutation.mutate(checked === true)} />
+            <Label>Re-score updated resumes automatically</Label>
+          </div>
+          <p className="text-sm text-slate-500">
+            When a candidate uploads a new resume version, score it again against the jobs they were already scored for. Each re-score uses CV processing credits; when off, those scores are left as they are.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PipelineTabContent({ teamMembers, currentUserId }: { teamMembers: TeamMember[], currentUserId?: string }) {
+  // "organization" edits the default pipeline; a job id edits that job's own stages
+  const [scope, setScope] = useState("organization");
+  const { data: jobs = [] } = useQuery<Array<{ id: number; title: string }>>({
+    queryKey: ["/api/job-postings"],
+  });
+
+  const currentUserMember = teamMembers.find(m => m.userId === currentUserId);
+  const isAdmin = currentUserMember?.role === 'admin' || currentUserMember?.role === 'owner';
+
+  if (!isAdmin) {
+    return (
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardContent className="py-8">
+          <div className="text-center">
+            <Shield className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-600 dark:text-slate-400">
+              Only organization administrators can manage pipeline stages.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-4">
+          <span className="flex items-center gap-2">
+            <Workflow className="w-5 h-5 text-blue-600" />
+            Hiring Pipeline
+          </span>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="organization">Organization default</SelectItem>
+              {jobs.map((job) => (
+                <SelectItem key={job.id} value={String(job.id)}>{job.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <PipelineStagesEditor key={scope} jobId={scope === "organization" ? null : parseInt(scope)} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function ApprovalsTabContent({ teamMembers, currentUserId, chain }: {
+  teamMembers: TeamMember[],
+  currentUserId?: string,
+  chain: RequisitionApprovalStep[] | null,
+}) {
+  const currentUserMember = teamMembers.find(m => m.userId === currentUserId);
+  const isAdmin = currentUserMember?.role === 'admin' || currentUserMember?.role === 'owner';
+
+  if (!isAdmin) {
+    return (
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardContent className="py-8">
+          <div className="text-center">
+            <Shield className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-600 dark:text-slate-400">
+              Only organization administrators can manage job approvals.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-blue-600" />
+          Job Approval Chain
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ApprovalChainEditor chain={chain} members={teamMembers} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function OffersTabContent({ teamMembers, currentUserId }: { teamMembers: TeamMember[], currentUserId?: string }) {
+  const currentUserMember = teamMembers.find(m => m.userId === currentUserId);
+  const isAdmin = currentUserMember?.role === 'admin' || currentUserMember?.role === 'owner';
+
+  if (!isAdmin) {
+    return (
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardContent className="py-8">
+          <div className="text-center">
+            <Shield className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-600 dark:text-slate-400">
+              Only organization administrators can manage offer templates.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSignature className="w-5 h-5 text-blue-600" />
+          Offer Letter Templates
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <OfferTemplatesEditor />
+      </CardContent>
+    </Card>
+  );
+}
+
+function EmailsTabContent({ teamMembers, currentUserId }: { teamMembers: TeamMember[], currentUserId?: string }) {
+  const currentUserMember = teamMembers.find(m => m.userId === currentUserId);
+  const isAdmin = currentUserMember?.role === 'admin' || currentUserMember?.role === 'owner';
+
+  if (!isAdmin) {
+    return (
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardContent className="py-8">
+          <div className="text-center">
+            <Shield className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-600 dark:text-slate-400">
+              Only organization administrators can manage email templates.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="w-5 h-5 text-blue-600" />
+          Email Templates
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <EmailTemplatesEditor />
+      </CardContent>
+    </Card>
+  );
+}
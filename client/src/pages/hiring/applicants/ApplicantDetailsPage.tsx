@@ -55,6 +55,9 @@ import {
 import { HLSVideoPlayer } from "@/components/HLSVideoPlayer";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { ScoreChangeHistory } from "@/components/ScoreChangeHistory";
+import { ApplicantTimeline } from "@/components/ApplicantTimeline";
+import { InterviewFeedbackCard, InterviewRecommendationBadge } from "@/components/InterviewFeedbackSummary";
 
 // ============================================================================
 // HR-Focused Profile Processing Utilities
@@ -2166,13 +2169,16 @@ function PitchProfile({ profile, applicant }: { profile: AnyObject; applicant: a
             <div className="space-y-6">
               {/* Overall Score - Large Display */}
               {overallScore !== null && (
-                <div className="text-center">
-                  <div className="text-sm font-medium text-slate-600 dark:text-slate-400 mb-2">
-                    Overall Score
-                  </div>
-                  <div className={`text-6xl font-extrabold ${getScoreColor(overallScore)}`}>
-                    {overallScore}%
+                <div className="flex flex-wrap items-center justify-center gap-10">
+                  <div className="text-center">
+                    <div className="text-sm font-medium text-slate-600 dark:text-slate-400 mb-2">
+                      Overall Score
+                    </div>
+                    <div className={`text-6xl font-extrabold ${getScoreColor(overallScore)}`}>
+                      {overallScore}%
+                    </div>
                   </div>
+                  {applicant?.id && <InterviewRecommendationBadge applicationId={String(applicant.id)} />}
                 </div>
               )}
 
@@ -2800,6 +2806,17 @@ export default function ApplicantDetailsPage() {
             </Card>
           )}
 
+          {/* Resume score history for this job */}
+          {applicant.resumeProfileId && applicant.jobId && (
+            <ScoreChangeHistory profileId={applicant.resumeProfileId} jobId={String(applicant.jobId)} />
+          )}
+
+          {/* Interview panel scorecards */}
+          <InterviewFeedbackCard applicationId={applicantId!} />
+
+          {/* Activity log for this application */}
+          <ApplicantTimeline applicationId={applicantId!} />
+
           {/* Interview Video and Transcription Section */}
           {!isIncompleteInterview && applicant.interviewVideoUrl && (
             <InterviewVideoAndTranscription
@@ -40,6 +40,7 @@ import {
   Mail,
   Loader2,
   Filter,
+  Workflow,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -158,6 +159,13 @@ export default function ApplicantsPage() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/hiring/applicants/pipeline")}
+          >
+            <Workflow className="w-4 h-4 mr-2" />
+            Pipeline
+          </Button>
           <Button
             variant="outline"
             onClick={() => navigate("/hiring/applicants/shortlisted")}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowLeft, Loader2, MoreHorizontal, Search, Workflow } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PipelineStageDefinition } from "@/components/PipelineStagesEditor";
+
+interface BoardApplication {
+  id: string;
+  applicantName: string;
+  applicantEmail: string;
+  jobId: string;
+  jobTitle: string;
+  applicationDate: string | null;
+  stageChangedAt: string | null;
+  stage: string;
+  allowedTransitions: string[];
+}
+
+interface PipelineBoard {
+  stages: PipelineStageDefinition[];
+  applications: BoardApplication[];
+}
+
+export default function PipelinePage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [jobFilter, setJobFilter] = useState("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [dragged, setDragged] = useState<BoardApplication | null>(null);
+
+  const { data: jobs = [] } = useQuery<Array<{ id: number; title: string }>>({
+    queryKey: ["/api/job-postings"],
+  });
+
+  const boardUrl = jobFilter === "all" ? "/api/pipeline/board" : `/api/pipeline/board?jobId=${jobFilter}`;
+  const { data: board, isLoading } = useQuery<PipelineBoard>({ queryKey: [boardUrl] });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ application, toStage }: { application: BoardApplication; toStage: string }) => {
+      await apiRequest("POST", `/api/applicants/${application.id}/transition`, { toStage });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [boardUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/applicants"] });
+    },
+    onError: (error: Error) => {
+      const body = error.message.replace(/^\d+:\s*/, "");
+      let description = body;
+      try {
+        description = JSON.parse(body).message || body;
+      } catch {
+        // Plain-text error body
+      }
+      toast({ title: "Could not move applicant", description, variant: "destructive" });
+    },
+  });
+
+  const stages = board?.stages || [];
+  const applications = (board?.applications || []).filter((application) =>
+    application.applicantName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    application.applicantEmail?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const move = (application: BoardApplication, toStage: string) => {
+    if (application.stage !== toStage) {
+      moveMutation.mutate({ application, toStage });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }}
+        className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-200 flex items-center gap-2">
+            <Workflow className="w-6 h-6" />
+            Hiring Pipeline
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1">
+            Drag applicants between stages to move them through your hiring process
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate("/hiring/applicants")}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          All Applicants
+        </Button>
+      </motion.div>
+
+      {/* Filters */}
+      <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+        <CardContent className="p-4">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <Input
+                placeholder="Search by name or email..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={jobFilter} onValueChange={setJobFilter}>
+              <SelectTrigger className="w-[260px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All jobs (organization pipeline)</SelectItem>
+                {jobs.map((job) => (
+                  <SelectItem key={job.id} value={String(job.id)}>{job.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Board */}
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {stages.map((stage) => {
+            const column = applications.filter((application) => application.stage === stage.key);
+            const canDrop = !!dragged && dragged.stage !== stage.key && dragged.allowedTransitions.includes(stage.key);
+            return (
+              <div
+                key={stage.key}
+                className={`w-72 flex-shrink-0 rounded-lg border bg-slate-50/80 dark:bg-slate-900/40 transition-colors ${
+                  canDrop ? "border-blue-400 bg-blue-50/60 dark:bg-blue-900/20" : "border-slate-200 dark:border-slate-700"
+                } ${dragged && !canDrop && dragged.stage !== stage.key ? "opacity-50" : ""}`}
+                onDragOver={(e) => {
+                  if (canDrop) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (dragged && canDrop) move(dragged, stage.key);
+                  setDragged(null);
+                }}
+              >
+                <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200 dark:border-slate-700">
+                  <div className="flex items-center gap-2">
+                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: stage.color || "#64748B" }} />
+                    <span className="font-medium text-sm text-slate-800 dark:text-slate-200">{stage.name}</span>
+                  </div>
+                  <Badge variant="secondary">{column.length}</Badge>
+                </div>
+                <div className="p-2 space-y-2 min-h-[120px] max-h-[65vh] overflow-y-auto">
+                  {column.map((application) => (
+                    <Card
+                      key={application.id}
+                      draggable
+                      onDragStart={() => setDragged(application)}
+                      onDragEnd={() => setDragged(null)}
+                      className="cursor-grab active:cursor-grabbing bg-white dark:bg-slate-800"
+                    >
+                      <CardContent className="p-3 space-y-1">
+                        <div className="flex items-start justify-between gap-2">
+                          <button
+                            className="text-left font-medium text-sm text-slate-900 dark:text-white hover:underline"
+                            onClick={() => navigate(`/hiring/applicants/${application.id}`)}
+                          >
+                            {application.applicantName}
+                          </button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-6 w-6">
+                                <MoreHorizontal className="w-4 h-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                              <DropdownMenuSeparator />
+                              {stages
+                                .filter((target) => application.allowedTransitions.includes(target.key))
+                                .map((target) => (
+                                  <DropdownMenuItem key={target.key} onClick={() => move(application, target.key)}>
+                                    {target.name}
+                                  </DropdownMenuItem>
+                                ))}
+                              {application.allowedTransitions.length === 0 && (
+                                <DropdownMenuItem disabled>No further stages</DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                        {jobFilter === "all" && (
+                          <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{application.jobTitle}</p>
+                        )}
+                        {(application.stageChangedAt || application.applicationDate) && (
+                          <p className="text-xs text-slate-400">
+                            {application.stageChangedAt ? "Moved " : "Applied "}
+                            {formatDistanceToNow(new Date(application.stageChangedAt || application.applicationDate!), { addSuffix: true })}
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
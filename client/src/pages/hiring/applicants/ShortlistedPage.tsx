@@ -33,10 +33,12 @@ import {
   Users,
   Loader2,
   FileText,
+  CalendarClock,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { GenerateOfferLetterModal } from "@/components/GenerateOfferLetterModal";
+import { InterviewBookingLinkDialog } from "@/components/InterviewBookingLinkDialog";
 
 export default function ShortlistedPage() {
   const navigate = useNavigate();
@@ -51,6 +53,7 @@ export default function ShortlistedPage() {
     jobTitle: '',
     jobId: ''
   });
+  const [bookingApplicant, setBookingApplicant] = useState<any | null>(null);
 
   // Fetch shortlisted applicants using status filter
   const { data: shortlistedData, isLoading } = useQuery<any>({
@@ -266,6 +269,15 @@ export default function ShortlistedPage() {
                             <Calendar className="w-4 h-4 mr-2" />
                             Schedule Interview
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setBookingApplicant(applicant);
+                            }}
+                          >
+                            <CalendarClock className="w-4 h-4 mr-2" />
+                            Send Booking Link
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={(e) => {
                               e.stopPropagation();
@@ -324,6 +336,11 @@ export default function ShortlistedPage() {
         jobTitle={offerLetterModal.jobTitle}
         jobId={offerLetterModal.jobId}
       />
+
+      <InterviewBookingLinkDialog
+        applicant={bookingApplicant}
+        onOpenChange={(open) => !open && setBookingApplicant(null)}
+      />
     </div>
   );
 }
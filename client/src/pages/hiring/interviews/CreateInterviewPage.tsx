@@ -25,22 +25,9 @@ import {
   Loader2,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-
-const TIME_ZONES = [
-  { value: "UTC", label: "UTC" },
-  { value: "EST", label: "Eastern (EST/EDT)" },
-  { value: "CST", label: "Central (CST/CDT)" },
-  { value: "MST", label: "Mountain (MST/MDT)" },
-  { value: "PST", label: "Pacific (PST/PDT)" },
-  { value: "GMT", label: "GMT" },
-  { value: "CET", label: "Central European (CET)" },
-  { value: "JST", label: "Japan (JST)" },
-  { value: "AEST", label: "Australian Eastern (AEST)" },
-  { value: "IST", label: "India (IST)" },
-  { value: "EET", label: "Egypt (EET)" },
-];
+import { browserTimeZone, timeZoneOptions } from "@/lib/timeZones";
 
 export default function CreateInterviewPage() {
   const navigate = useNavigate();
@@ -56,7 +43,7 @@ export default function CreateInterviewPage() {
   const [interviewData, setInterviewData] = useState({
     scheduledDate: "",
     scheduledTime: "",
-    timeZone: "EET",
+    timeZone: browserTimeZone(),
     interviewType: "video",
     meetingLink: "",
     notes: "",
@@ -118,7 +105,8 @@ export default function CreateInterviewPage() {
       }
       toast({
         title: "Error",
-        description: "Failed to schedule interview. Please try again.",
+        // A clash with the interviewer's other interviews comes back as 409 with the names
+        description: error.message.startsWith("409") ? errorMessage(error) : "Failed to schedule interview. Please try again.",
         variant: "destructive",
       });
     },
@@ -282,7 +270,7 @@ export default function CreateInterviewPage() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {TIME_ZONES.map((tz) => (
+                        {timeZoneOptions(interviewData.timeZone).map((tz) => (
                           <SelectItem key={tz.value} value={tz.value}>
                             {tz.label}
                           </SelectItem>
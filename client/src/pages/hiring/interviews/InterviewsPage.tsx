@@ -32,12 +32,16 @@ import {
   Loader2,
   Play,
   ExternalLink,
+  ClipboardCheck,
 } from "lucide-react";
+import { InterviewScorecardDialog } from "@/components/InterviewScorecardDialog";
+import { formatInstant } from "@/lib/timeZones";
 
 export default function InterviewsPage() {
   const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState("");
   const [activeTab, setActiveTab] = useState("upcoming");
+  const [scorecardInterview, setScorecardInterview] = useState<any | null>(null);
 
   const { data: interviews = [], isLoading } = useQuery<any[]>({
     queryKey: ["/api/interviews"],
@@ -58,6 +62,12 @@ export default function InterviewsPage() {
     return timeString; // Time is already in HH:MM format
   };
 
+  // The stored instant, shown in the viewer's own zone
+  const interviewStart = (interview: any) =>
+    interview.scheduledAt
+      ? new Date(interview.scheduledAt)
+      : new Date(`${interview.scheduledDate}T${interview.scheduledTime || '00:00'}`);
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "scheduled":
@@ -74,14 +84,13 @@ export default function InterviewsPage() {
   const upcomingInterviews = interviews.filter((i) => {
     if (i.status === "completed" || i.status === "cancelled") return false;
 
-    const scheduledDateTime = new Date(`${i.scheduledDate}T${i.scheduledTime || '00:00'}`);
-    return scheduledDateTime > new Date();
+    return interviewStart(i) > new Date();
   });
 
   const pastInterviews = interviews.filter((i) =>
     i.status === "completed" ||
     i.status === "cancelled" ||
-    new Date(`${i.scheduledDate}T${i.scheduledTime || '00:00'}`) <= new Date()
+    interviewStart(i) <= new Date()
   );
 
   const filteredInterviews =
@@ -212,12 +221,25 @@ export default function InterviewsPage() {
                         </TableCell>
                         <TableCell>
                           <div className="flex flex-col">
-                            <span className="text-slate-900 dark:text-white">
-                              {formatDate(interview.scheduledDate)}
-                            </span>
-                            <span className="text-sm text-slate-500 dark:text-slate-400">
-                              {formatTime(interview.scheduledTime)} {interview.timeZone ? `(${interview.timeZone})` : ''}
-                            </span>
+                            {interview.scheduledAt ? (
+                              <>
+                                <span className="text-slate-900 dark:text-white">
+                                  {formatInstant(interview.scheduledAt, undefined, { hour: undefined, minute: undefined, timeZoneName: undefined })}
+                                </span>
+                                <span className="text-sm text-slate-500 dark:text-slate-400">
+                                  {formatInstant(interview.scheduledAt, undefined, { weekday: undefined, month: undefined, day: undefined, year: undefined })}
+                                </span>
+                              </>
+                            ) : (
+                              <>
+                                <span className="text-slate-900 dark:text-white">
+                                  {formatDate(interview.scheduledDate)}
+                                </span>
+                                <span className="text-sm text-slate-500 dark:text-slate-400">
+                                  {formatTime(interview.scheduledTime)} {interview.timeZone ? `(${interview.timeZone})` : ''}
+                                </span>
+                              </>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -253,6 +275,10 @@ export default function InterviewsPage() {
                                   Watch Recording
                                 </DropdownMenuItem>
                               )}
+                              <DropdownMenuItem onClick={() => setScorecardInterview(interview)}>
+                                <ClipboardCheck className="w-4 h-4 mr-2" />
+                                Scorecards
+                              </DropdownMenuItem>
                               <DropdownMenuItem
                                 onClick={() => navigate(`/hiring/applicants/${interview.candidateId}`)}
                               >
@@ -271,6 +297,11 @@ export default function InterviewsPage() {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <InterviewScorecardDialog
+        interview={scorecardInterview}
+        onOpenChange={(open) => !open && setScorecardInterview(null)}
+      />
     </div>
   );
 }
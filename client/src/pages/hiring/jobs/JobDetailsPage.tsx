@@ -24,6 +24,9 @@ import {
   Loader2,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { PoolScoringCard } from "@/components/PoolScoringCard";
+import { JobApprovalCard } from "@/components/JobApprovalCard";
+import { JobStatusBadge } from "@/components/hiring/jobs/JobStatusBadge";
 
 export default function JobDetailsPage() {
   const { jobId } = useParams<{ jobId: string }>();
@@ -126,9 +129,12 @@ export default function JobDetailsPage() {
             <ArrowLeft className="w-5 h-5" />
           </Button>
           <div>
-            <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-200">
-              {job.title}
-            </h1>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-200">
+                {job.title}
+              </h1>
+              <JobStatusBadge job={job} />
+            </div>
             <div className="flex items-center gap-4 mt-2 text-sm text-slate-500 dark:text-slate-400">
               <span className="flex items-center gap-1">
                 <MapPin className="w-4 h-4" />
@@ -252,6 +258,9 @@ export default function JobDetailsPage() {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Requisition Approval */}
+          <JobApprovalCard jobId={jobId!} jobStatus={job.status} />
+
           {/* Job Details */}
           <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
             <CardHeader>
@@ -294,6 +303,18 @@ export default function JobDetailsPage() {
                 </div>
               </div>
 
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-amber-100 dark:bg-amber-900/30">
+                  <Users className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+                </div>
+                <div>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">Headcount</p>
+                  <p className="font-medium text-slate-900 dark:text-white">
+                    {job.headcount || 1}
+                  </p>
+                </div>
+              </div>
+
               <div className="flex items-center gap-3">
                 <div className="p-2 rounded-lg bg-amber-100 dark:bg-amber-900/30">
                   <GraduationCap className="w-4 h-4 text-amber-600 dark:text-amber-400" />
@@ -348,6 +369,9 @@ export default function JobDetailsPage() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Talent Pool Scoring */}
+          <PoolScoringCard jobId={jobId!} />
         </div>
       </div>
 
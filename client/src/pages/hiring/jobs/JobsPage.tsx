@@ -5,7 +5,22 @@ import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Table,
   TableBody,
@@ -35,15 +50,54 @@ import {
   Calendar,
   Eye,
   Briefcase,
+  Copy,
+  Send,
+  CalendarClock,
+  FilePen,
+  Pause,
+  Play,
+  Lock,
+  Archive,
+  ArchiveRestore,
+  Loader2,
+  type LucideIcon,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { JobStatusBadge, JOB_STATUS_LABELS } from "@/components/hiring/jobs/JobStatusBadge";
+import type { JobStatus } from "@shared/schema";
+
+// Status moves offered from each status; scheduling a draft asks for a date first
+const LIFECYCLE_ACTIONS: Record<JobStatus, Array<{ status: JobStatus; label: string; icon: LucideIcon }>> = {
+  draft: [{ status: "open", label: "Publish Now", icon: Send }],
+  scheduled: [
+    { status: "open", label: "Publish Now", icon: Send },
+    { status: "draft", label: "Move to Drafts", icon: FilePen },
+  ],
+  open: [
+    { status: "paused", label: "Pause", icon: Pause },
+    { status: "closed", label: "Close", icon: Lock },
+  ],
+  paused: [
+    { status: "open", label: "Resume", icon: Play },
+    { status: "closed", label: "Close", icon: Lock },
+  ],
+  closed: [
+    { status: "open", label: "Reopen", icon: Play },
+    { status: "archived", label: "Archive", icon: Archive },
+  ],
+  archived: [{ status: "closed", label: "Restore", icon: ArchiveRestore }],
+};
 
 export default function JobsPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
+  // "current" hides archived jobs
+  const [statusFilter, setStatusFilter] = useState<JobStatus | "current">("current");
+  const [scheduleTarget, setScheduleTarget] = useState<{ id: number; title: string } | null>(null);
+  const [publishAt, setPublishAt] = useState("");
 
   const { data: jobs = [], isLoading } = useQuery<any[]>({
     queryKey: ["/api/job-postings"],
@@ -70,6 +124,39 @@ export default function JobsPage() {
     },
   });
 
+  const statusMutation = useMutation({
+    mutationFn: async ({ jobId, status, publishAt }: { jobId: number; title: string; status: JobStatus; publishAt?: string }) => {
+      await apiRequest("POST", `/api/job-postings/${jobId}/status`, {
+        status,
+        publishAt: publishAt ? new Date(publishAt).toISOString() : undefined,
+      });
+    },
+    onSuccess: (_, { title, status }) => {
+      toast({ title: "Job updated", description: `"${title}" is now ${JOB_STATUS_LABELS[status].toLowerCase()}.` });
+      setScheduleTarget(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/job-postings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-postings/count"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update job", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const cloneJobMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await apiRequest("POST", `/api/job-postings/${jobId}/clone`);
+      return response.json();
+    },
+    onSuccess: (copy) => {
+      toast({ title: "Job cloned", description: "The copy was saved as a draft." });
+      queryClient.invalidateQueries({ queryKey: ["/api/job-postings"] });
+      navigate(`/hiring/jobs/${copy.id}/edit`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not clone job", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
   const handleDeleteJob = (jobId: number, jobTitle: string) => {
     if (window.confirm(`Are you sure you want to delete "${jobTitle}"?`)) {
       deleteJobMutation.mutate(jobId);
@@ -115,8 +202,9 @@ export default function JobsPage() {
   };
 
   const filteredJobs = jobs.filter((job) =>
-    job.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    job.location?.toLowerCase().includes(searchQuery.toLowerCase())
+    (statusFilter === "current" ? job.status !== "archived" : job.status === statusFilter) &&
+    (job.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      job.location?.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
   return (
@@ -128,7 +216,7 @@ export default function JobsPage() {
             Job Postings
           </h1>
           <p className="text-slate-500 dark:text-slate-400 mt-1">
-            Manage your active job listings
+            Manage your job listings from draft to archive
           </p>
         </div>
         <Button
@@ -142,14 +230,25 @@ export default function JobsPage() {
       {/* Search */}
       <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
         <CardContent className="p-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-            <Input
-              placeholder="Search jobs by title or location..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
+          <div className="flex gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <Input
+                placeholder="Search jobs by title or location..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as JobStatus | "current")}>
+              <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">All but archived</SelectItem>
+                {(Object.keys(JOB_STATUS_LABELS) as JobStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>{JOB_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
@@ -167,14 +266,14 @@ export default function JobsPage() {
                 <Briefcase className="w-8 h-8 text-slate-400" />
               </div>
               <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
-                {searchQuery ? "No jobs found" : "No job postings yet"}
+                {searchQuery || statusFilter !== "current" ? "No jobs found" : "No job postings yet"}
               </h3>
               <p className="text-slate-600 dark:text-slate-400 mb-4">
-                {searchQuery
-                  ? "Try adjusting your search"
+                {searchQuery || statusFilter !== "current"
+                  ? "Try adjusting your search or status filter"
                   : "Create your first job posting to start finding candidates"}
               </p>
-              {!searchQuery && (
+              {!searchQuery && statusFilter === "current" && (
                 <Button onClick={() => navigate("/hiring/jobs/new")}>
                   <Plus className="w-4 h-4 mr-2" />
                   Create Job
@@ -239,16 +338,7 @@ export default function JobsPage() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge
-                        variant={job.status === "active" ? "default" : "secondary"}
-                        className={
-                          job.status === "active"
-                            ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
-                            : ""
-                        }
-                      >
-                        {job.status || "Active"}
-                      </Badge>
+                      <JobStatusBadge job={job} showDates />
                     </TableCell>
                     <TableCell className="text-right">
                       <DropdownMenu>
@@ -294,6 +384,51 @@ export default function JobsPage() {
                             <Share2 className="w-4 h-4 mr-2" />
                             Copy Share Link
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              cloneJobMutation.mutate(job.id);
+                            }}
+                          >
+                            <Copy className="w-4 h-4 mr-2" />
+                            Clone as Draft
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          {(LIFECYCLE_ACTIONS[job.status as JobStatus] || []).map(({ status, label, icon: Icon }) => (
+                            <DropdownMenuItem
+                              key={status}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                statusMutation.mutate({ jobId: job.id, title: job.title, status });
+                              }}
+                            >
+                              <Icon className="w-4 h-4 mr-2" />
+                              {label}
+                            </DropdownMenuItem>
+                          ))}
+                          {job.status === "draft" && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setPublishAt("");
+                                setScheduleTarget({ id: job.id, title: job.title });
+                              }}
+                            >
+                              <CalendarClock className="w-4 h-4 mr-2" />
+                              Schedule Publishing
+                            </DropdownMenuItem>
+                          )}
+                          {(job.status === "draft" || job.status === "scheduled") && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                statusMutation.mutate({ jobId: job.id, title: job.title, status: "archived" });
+                              }}
+                            >
+                              <Archive className="w-4 h-4 mr-2" />
+                              Archive
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuSeparator />
                           <DropdownMenuItem
                             onClick={(e) => {
@@ -315,6 +450,36 @@ export default function JobsPage() {
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={!!scheduleTarget} onOpenChange={(open) => !open && setScheduleTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Schedule Publishing</DialogTitle>
+            <DialogDescription>
+              "{scheduleTarget?.title}" opens to applicants automatically at this time.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="publishAt">Publish at</Label>
+            <Input id="publishAt" type="datetime-local" value={publishAt} onChange={(e) => setPublishAt(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScheduleTarget(null)}>Cancel</Button>
+            <Button
+              disabled={!publishAt || statusMutation.isPending}
+              onClick={() => scheduleTarget && statusMutation.mutate({
+                jobId: scheduleTarget.id,
+                title: scheduleTarget.title,
+                status: "scheduled",
+                publishAt,
+              })}
+            >
+              {statusMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useParams, useNavigate, useSearchParams } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { pdf } from "@react-pdf/renderer";
 import { Button } from "@/components/ui/button";
@@ -41,9 +41,13 @@ import {
   MessageSquare,
   Brain,
   FileQuestion,
+  ShieldAlert,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { ProfilePDF } from "@/components/ProfilePDF";
+import { ResumeVersionHistory } from "@/components/ResumeVersionHistory";
+import type { ExperienceEntry, EducationEntry, CareerGap, KnockoutResult } from "@shared/schema";
 
 interface JobScore {
   jobId: string;
@@ -67,6 +71,8 @@ interface JobScore {
   interviewTime?: string | null;
   interviewLink?: string | null;
   fullResponse?: any;
+  knockoutResult?: KnockoutResult | null;
+  knockoutOverriddenBy?: string | null;
 }
 
 interface ResumeProfile {
@@ -80,11 +86,33 @@ interface ResumeProfile {
   education: string[];
   certifications: string[];
   languages: string[];
+  experienceEntries?: ExperienceEntry[] | null;
+  educationEntries?: EducationEntry[] | null;
+  totalTenureMonths?: number | null;
+  careerGaps?: CareerGap[] | null;
   resumeText: string;
   createdAt: string;
   jobScores?: JobScore[];
 }
 
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// "2020-03" -> "Mar 2020", "2020" -> "2020"
+const formatEntryDate = (date: string | null) => {
+  if (!date) return null;
+  const [year, month] = date.split("-");
+  return month ? `${MONTH_NAMES[parseInt(month, 10) - 1]} ${year}` : year;
+};
+
+const formatTenure = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [];
+  if (years > 0) parts.push(`${years} yr${years === 1 ? "" : "s"}`);
+  if (rest > 0 || years === 0) parts.push(`${rest} mo`);
+  return parts.join(" ");
+};
+
 export default function ResumeDetailsPage() {
   const { resumeId } = useParams<{ resumeId: string }>();
   const [searchParams] = useSearchParams();
@@ -116,6 +144,24 @@ export default function ResumeDetailsPage() {
     (js) => js.jobId === selectedJobId
   ) || profile?.jobScores?.[0];
 
+  const overrideKnockoutMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const res = await apiRequest("POST", `/api/resume-profiles/${resumeId}/job-scores/${jobId}/override-knockout`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Knockout overridden", description: "The candidate is queued for full AI scoring." });
+      queryClient.invalidateQueries({ queryKey: [`/api/resume-profiles/${resumeId}`] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to override knockout",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleExport = async () => {
     if (!profile) return;
     setIsExporting(true);
@@ -2199,6 +2245,44 @@ export default function ResumeDetailsPage() {
             </Card>
           )}
 
+          {/* Knockout (pre-screening) result */}
+          {selectedJobScore?.knockoutResult && !selectedJobScore.knockoutResult.passed && (
+            <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ShieldAlert className="w-5 h-5 text-red-600" />
+                  Knocked Out
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+                  {selectedJobScore.knockoutResult.failures.map((failure, idx) => (
+                    <li key={idx} className="flex items-start gap-2">
+                      <X className="w-4 h-4 mt-0.5 text-red-500 shrink-0" />
+                      {failure.message}
+                    </li>
+                  ))}
+                </ul>
+                {selectedJobScore.knockoutOverriddenBy ? (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Overridden by a recruiter. The AI score replaces this result once scoring completes.
+                  </p>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    disabled={overrideKnockoutMutation.isPending}
+                    onClick={() => overrideKnockoutMutation.mutate(String(selectedJobScore.jobId))}
+                  >
+                    {overrideKnockoutMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Override and score with AI
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Languages */}
           {profile.languages && profile.languages.length > 0 && (
             <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
@@ -2269,29 +2353,76 @@ export default function ResumeDetailsPage() {
             </Card>
           )}
 
-          {/* Experience */}
-          {profile.experience && profile.experience.length > 0 && (
+          {/* Experience (structured entries when parsed, legacy strings otherwise) */}
+          {((profile.experienceEntries && profile.experienceEntries.length > 0) ||
+            (profile.experience && profile.experience.length > 0)) && (
             <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
               <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <Briefcase className="w-5 h-5" />
-                  Experience
+                <CardTitle className="text-lg flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <Briefcase className="w-5 h-5" />
+                    Experience
+                  </span>
+                  {profile.totalTenureMonths != null && (
+                    <span className="text-sm font-normal text-slate-500 dark:text-slate-400">
+                      Total tenure: {formatTenure(profile.totalTenureMonths)}
+                    </span>
+                  )}
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
-                  {profile.experience.map((exp, idx) => (
-                    <div key={idx} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
-                      {exp}
+                  {profile.experienceEntries && profile.experienceEntries.length > 0
+                    ? profile.experienceEntries.map((entry, idx) => (
+                        <div key={idx} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+                          <div className="flex items-start justify-between gap-2">
+                            <div>
+                              <p className="font-medium text-slate-900 dark:text-white">{entry.title || "Role"}</p>
+                              <p className="text-sm text-slate-600 dark:text-slate-400">
+                                {entry.company}
+                                {entry.location && ` · ${entry.location}`}
+                              </p>
+                            </div>
+                            {entry.isCurrent && <Badge variant="secondary">Current</Badge>}
+                          </div>
+                          {(entry.startDate || entry.endDate || entry.isCurrent) && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                              {formatEntryDate(entry.startDate) || "?"} – {entry.isCurrent ? "Present" : formatEntryDate(entry.endDate) || "?"}
+                            </p>
+                          )}
+                          {entry.description && (
+                            <p className="text-sm text-slate-700 dark:text-slate-300 mt-2">{entry.description}</p>
+                          )}
+                        </div>
+                      ))
+                    : profile.experience.map((exp, idx) => (
+                        <div key={idx} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+                          {exp}
+                        </div>
+                      ))}
+                  {profile.careerGaps && profile.careerGaps.length > 0 && (
+                    <div className="p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg text-sm text-amber-800 dark:text-amber-300">
+                      <p className="font-medium flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        Career gaps
+                      </p>
+                      <ul className="mt-1 space-y-0.5">
+                        {profile.careerGaps.map((gap, idx) => (
+                          <li key={idx}>
+                            {formatEntryDate(gap.startDate)} – {formatEntryDate(gap.endDate)} ({formatTenure(gap.months)})
+                          </li>
+                        ))}
+                      </ul>
                     </div>
-                  ))}
+                  )}
                 </div>
               </CardContent>
             </Card>
           )}
 
           {/* Education */}
-          {profile.education && profile.education.length > 0 && (
+          {((profile.educationEntries && profile.educationEntries.length > 0) ||
+            (profile.education && profile.education.length > 0)) && (
             <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
               <CardHeader>
                 <CardTitle className="text-lg flex items-center gap-2">
@@ -2301,11 +2432,32 @@ export default function ResumeDetailsPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  {profile.education.map((edu, idx) => (
-                    <div key={idx} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
-                      {edu}
-                    </div>
-                  ))}
+                  {profile.educationEntries && profile.educationEntries.length > 0
+                    ? profile.educationEntries.map((entry, idx) => (
+                        <div key={idx} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+                          <div className="flex items-start justify-between gap-2">
+                            <div>
+                              <p className="font-medium text-slate-900 dark:text-white">
+                                {[entry.degree, entry.field].filter(Boolean).join(", ") || entry.institution}
+                              </p>
+                              {(entry.degree || entry.field) && entry.institution && (
+                                <p className="text-sm text-slate-600 dark:text-slate-400">
+                                  {entry.institution}
+                                  {entry.location && ` · ${entry.location}`}
+                                </p>
+                              )}
+                            </div>
+                            {entry.graduationYear && (
+                              <span className="text-xs text-slate-500 dark:text-slate-400">{entry.graduationYear}</span>
+                            )}
+                          </div>
+                        </div>
+                      ))
+                    : profile.education.map((edu, idx) => (
+                        <div key={idx} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg">
+                          {edu}
+                        </div>
+                      ))}
                 </div>
               </CardContent>
             </Card>
@@ -2332,6 +2484,9 @@ export default function ResumeDetailsPage() {
               </CardContent>
             </Card>
           )}
+
+          {/* Version History */}
+          <ResumeVersionHistory profileId={profile.id} />
         </div>
       </div>
     </div>
@@ -0,0 +1,224 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  ArrowLeft,
+  Copy,
+  Eye,
+  GitMerge,
+  Loader2,
+  Mail,
+  Phone,
+  X,
+} from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface DuplicateProfile {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  summary: string | null;
+  skills: string[] | null;
+  createdAt: string;
+}
+
+interface DuplicatePair {
+  id: number;
+  matchReasons: string[];
+  similarity: number | null;
+  createdAt: string;
+  profile: DuplicateProfile;
+  duplicate: DuplicateProfile;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  email: "Same email",
+  phone: "Same phone",
+  name: "Same name",
+  text: "Similar content",
+};
+
+export default function ResumeDuplicatesPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: pairs = [], isLoading } = useQuery<DuplicatePair[]>({
+    queryKey: ["/api/resume-profiles/duplicates"],
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivorId, sourceId }: { survivorId: string; sourceId: string }) => {
+      const res = await apiRequest("POST", `/api/resume-profiles/${survivorId}/merge`, {
+        sourceProfileIds: [sourceId],
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Profiles merged", description: "Scores, shortlists and invitations now point to the kept profile." });
+      queryClient.invalidateQueries({ queryKey: ["/api/resume-profiles/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/resume-profiles"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to merge profiles",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (pairId: number) => {
+      await apiRequest("POST", `/api/resume-profiles/duplicates/${pairId}/dismiss`);
+    },
+    onSuccess: () => {
+      toast({ title: "Dismissed", description: "These profiles will no longer be flagged." });
+      queryClient.invalidateQueries({ queryKey: ["/api/resume-profiles/duplicates"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to dismiss duplicate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isBusy = mergeMutation.isPending || dismissMutation.isPending;
+
+  const renderProfile = (profile: DuplicateProfile, label: string, otherId: string) => (
+    <div className="flex-1 min-w-0 rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Badge variant="outline">{label}</Badge>
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          Added {format(new Date(profile.createdAt), "MMM d, yyyy")}
+        </span>
+      </div>
+      <p className="font-medium text-slate-900 dark:text-white truncate">{profile.name}</p>
+      <div className="space-y-1 text-sm text-slate-600 dark:text-slate-400">
+        <p className="flex items-center gap-2 truncate">
+          <Mail className="w-3.5 h-3.5 shrink-0" />
+          {profile.email || "-"}
+        </p>
+        <p className="flex items-center gap-2 truncate">
+          <Phone className="w-3.5 h-3.5 shrink-0" />
+          {profile.phone || "-"}
+        </p>
+      </div>
+      {profile.summary && (
+        <p className="text-sm text-slate-500 dark:text-slate-400 line-clamp-2">{profile.summary}</p>
+      )}
+      <div className="flex items-center gap-2 pt-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate(`/hiring/resumes/${profile.id}`)}
+        >
+          <Eye className="w-4 h-4 mr-2" />
+          View
+        </Button>
+        <Button
+          size="sm"
+          disabled={isBusy}
+          onClick={() => mergeMutation.mutate({ survivorId: profile.id, sourceId: otherId })}
+        >
+          <GitMerge className="w-4 h-4 mr-2" />
+          Keep this profile
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate("/hiring/resumes")}
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-200">
+            Possible Duplicates
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1">
+            Profiles that look like the same candidate. Merging keeps one profile and moves its job scores, shortlists and invitations over.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : pairs.length === 0 ? (
+        <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+          <CardContent className="text-center py-12">
+            <div className="w-16 h-16 bg-slate-100 dark:bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Copy className="w-8 h-8 text-slate-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
+              No possible duplicates
+            </h3>
+            <p className="text-slate-600 dark:text-slate-400">
+              Re-uploaded candidates are checked by email, phone, name and resume content
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {pairs.map((pair, index) => (
+            <motion.div
+              key={pair.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.03 }}
+            >
+              <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
+                <CardContent className="p-4 space-y-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {pair.matchReasons.map((reason) => (
+                        <Badge key={reason} variant="secondary">
+                          {REASON_LABELS[reason] || reason}
+                        </Badge>
+                      ))}
+                      {pair.similarity !== null && (
+                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                          {Math.round(pair.similarity * 100)}% content similarity
+                        </span>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => dismissMutation.mutate(pair.id)}
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Not a duplicate
+                    </Button>
+                  </div>
+                  <div className="flex flex-col md:flex-row gap-4">
+                    {renderProfile(pair.duplicate, "Existing", pair.profile.id)}
+                    {renderProfile(pair.profile, "New upload", pair.duplicate.id)}
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
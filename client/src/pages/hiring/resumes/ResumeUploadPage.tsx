@@ -54,7 +54,7 @@ export default function ResumeUploadPage() {
   });
 
   // Calculate the number of jobs to process against
-  const activeJobCount = jobs.filter((job: any) => job.is_active !== false).length;
+  const activeJobCount = jobs.filter((job: any) => job.is_active !== false && job.status === "open").length;
   const targetJobCount = processingJobId === 'all' ? activeJobCount : 1;
 
   // Calculate total credit cost: files * jobs * cost per processing
@@ -292,7 +292,7 @@ export default function ResumeUploadPage() {
                   <SelectValue placeholder="Select a job (optional)" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">Score against all jobs ({activeJobCount} active)</SelectItem>
+                  <SelectItem value="all">Score against all open jobs ({activeJobCount})</SelectItem>
                   {jobs.map((job: any) => (
                     <SelectItem key={job.id} value={job.id}>
                       {job.title}
@@ -76,12 +76,18 @@ import {
   Download,
   Phone,
   CalendarClock,
+  Copy,
+  X,
+  BellRing,
+  Clock,
+  RotateCw,
 } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { ProfilesSummaryPDF } from "@/components/ProfilesSummaryPDF";
 import { ProfilePDF } from "@/components/ProfilePDF";
+import { InvitationRemindersDialog } from "@/components/InvitationRemindersDialog";
 
 interface ResumeProfile {
   id: string;
@@ -105,11 +111,32 @@ interface ResumeProfile {
   }>;
 }
 
+// Structured experience/education filters (sent as query params as-is)
+interface ProfileFilters {
+  employer: string;
+  title: string;
+  degree: string;
+  minTenureYears: string;
+  graduationYearFrom: string;
+  graduationYearTo: string;
+}
+
+const EMPTY_PROFILE_FILTERS: ProfileFilters = {
+  employer: "",
+  title: "",
+  degree: "",
+  minTenureYears: "",
+  graduationYearFrom: "",
+  graduationYearTo: "",
+};
+
 export default function ResumesPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [searchInput, setSearchInput] = useState("");
   const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [profileFilters, setProfileFilters] = useState<ProfileFilters>(EMPTY_PROFILE_FILTERS);
+  const [debouncedProfileFilters, setDebouncedProfileFilters] = useState<ProfileFilters>(EMPTY_PROFILE_FILTERS);
   const [selectedJobFilter, setSelectedJobFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
@@ -125,6 +152,7 @@ export default function ResumesPage() {
     jobTitle: string;
   } | null>(null);
   const [callPhoneNumber, setCallPhoneNumber] = useState("");
+  const [remindersTarget, setRemindersTarget] = useState<{ profileId: string; jobId: string; name: string } | null>(null);
   const [scheduledDate, setScheduledDate] = useState("");
   const [scheduledTime, setScheduledTime] = useState("");
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
@@ -136,19 +164,31 @@ export default function ResumesPage() {
   useEffect(() => {
     debounceRef.current = setTimeout(() => {
       setDebouncedSearch(searchInput);
+      setDebouncedProfileFilters(profileFilters);
       setCurrentPage(1);
     }, 400);
 
     return () => {
       if (debounceRef.current) clearTimeout(debounceRef.current);
     };
-  }, [searchInput]);
+  }, [searchInput, profileFilters]);
+
+  const updateProfileFilter = (key: keyof ProfileFilters, value: string) => {
+    setProfileFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const hasProfileFilters = Object.values(profileFilters).some((value) => value.trim() !== "");
 
   // Fetch jobs for filter
   const { data: jobs = [] } = useQuery<any[]>({
     queryKey: ["/api/job-postings"],
   });
 
+  // Pending possible-duplicate pairs (for the header badge)
+  const { data: duplicates = [] } = useQuery<any[]>({
+    queryKey: ["/api/resume-profiles/duplicates"],
+  });
+
   // Fetch active resume processing jobs
   const { data: activeJobsData } = useQuery<{
     totalFiles: number;
@@ -189,7 +229,7 @@ export default function ResumesPage() {
     data: ResumeProfile[];
     pagination: any;
   }>({
-    queryKey: ["/api/resume-profiles", currentPage, itemsPerPage, debouncedSearch, selectedJobFilter, scoreSortOrder],
+    queryKey: ["/api/resume-profiles", currentPage, itemsPerPage, debouncedSearch, selectedJobFilter, scoreSortOrder, debouncedProfileFilters],
     queryFn: async () => {
       const sortOrder = scoreSortOrder === "scoreAsc" ? "asc" : "desc";
       const params = new URLSearchParams({
@@ -207,6 +247,12 @@ export default function ResumesPage() {
         params.append("jobId", selectedJobFilter);
       }
 
+      Object.entries(debouncedProfileFilters).forEach(([key, value]) => {
+        if (value.trim()) {
+          params.append(key, value.trim());
+        }
+      });
+
       const response = await fetch(`/api/resume-profiles?${params}`, {
         credentials: "include",
       });
@@ -315,6 +361,31 @@ export default function ResumesPage() {
     },
   });
 
+  // Re-invite mutation - issues a fresh link once the old one has expired
+  const reinviteApplicantMutation = useMutation({
+    mutationFn: async ({ profileId, jobId }: { profileId: string; jobId: string }) => {
+      const response = await apiRequest("POST", "/api/reinvite-applicant", {
+        profileId,
+        jobId,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Applicant Re-invited",
+        description: "A new interview link has been sent",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/resume-profiles"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Re-invite Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Schedule call mutation
   const callCandidateMutation = useMutation({
     mutationFn: async ({ toPhoneNumber, profileId, jobId, scheduledAt }: { toPhoneNumber: string; profileId: string; jobId: string; scheduledAt: string }) => {
@@ -581,6 +652,13 @@ export default function ResumesPage() {
             Accepted
           </Badge>
         );
+      case "expired":
+        return (
+          <Badge className="bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+            <Clock className="w-3 h-3 mr-1" />
+            Expired
+          </Badge>
+        );
       default:
         return hasJob ? (
           <Badge variant="outline" className="text-slate-500 dark:text-slate-400 border-slate-300 dark:border-slate-600">
@@ -649,6 +727,18 @@ export default function ResumesPage() {
               Export All
             </Button>
           )}
+          <Button
+            variant="outline"
+            onClick={() => navigate("/hiring/resumes/duplicates")}
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicates
+            {duplicates.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {duplicates.length}
+              </Badge>
+            )}
+          </Button>
           <Button
             variant="outline"
             onClick={() => navigate("/hiring/resumes/search")}
@@ -787,6 +877,8 @@ export default function ResumesPage() {
         </DialogContent>
       </Dialog>
 
+      <InvitationRemindersDialog target={remindersTarget} onOpenChange={(open) => !open && setRemindersTarget(null)} />
+
       {/* Filters */}
       <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-slate-200/60 dark:border-slate-700/60">
         <CardContent className="p-4">
@@ -886,6 +978,60 @@ export default function ResumesPage() {
               </AlertDialog>
             )}
           </div>
+
+          {/* Experience & education filters */}
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <Input
+              placeholder="Employer"
+              value={profileFilters.employer}
+              onChange={(e) => updateProfileFilter("employer", e.target.value)}
+              className="w-[170px]"
+            />
+            <Input
+              placeholder="Job title"
+              value={profileFilters.title}
+              onChange={(e) => updateProfileFilter("title", e.target.value)}
+              className="w-[170px]"
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Min. years tenure"
+              value={profileFilters.minTenureYears}
+              onChange={(e) => updateProfileFilter("minTenureYears", e.target.value)}
+              className="w-[150px]"
+            />
+            <Input
+              placeholder="Degree or field"
+              value={profileFilters.degree}
+              onChange={(e) => updateProfileFilter("degree", e.target.value)}
+              className="w-[170px]"
+            />
+            <Input
+              type="number"
+              placeholder="Graduated from"
+              value={profileFilters.graduationYearFrom}
+              onChange={(e) => updateProfileFilter("graduationYearFrom", e.target.value)}
+              className="w-[140px]"
+            />
+            <Input
+              type="number"
+              placeholder="Graduated to"
+              value={profileFilters.graduationYearTo}
+              onChange={(e) => updateProfileFilter("graduationYearTo", e.target.value)}
+              className="w-[140px]"
+            />
+            {hasProfileFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setProfileFilters(EMPTY_PROFILE_FILTERS)}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Clear filters
+              </Button>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -1020,6 +1166,21 @@ export default function ResumesPage() {
                                   )}
                                   Resend Invitation
                                 </DropdownMenuItem>
+                              ) : row.invitationStatus === "expired" ? (
+                                <DropdownMenuItem
+                                  onClick={() => reinviteApplicantMutation.mutate({
+                                    profileId: row.profileId,
+                                    jobId: row.jobId.toString(),
+                                  })}
+                                  disabled={reinviteApplicantMutation.isPending}
+                                >
+                                  {reinviteApplicantMutation.isPending ? (
+                                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                  ) : (
+                                    <RotateCw className="w-4 h-4 mr-2" />
+                                  )}
+                                  Re-invite
+                                </DropdownMenuItem>
                               ) : (
                                 <DropdownMenuItem
                                   onClick={() => inviteApplicantMutation.mutate({
@@ -1038,6 +1199,18 @@ export default function ResumesPage() {
                               )}
                             </>
                           )}
+                          {row.jobId && row.invitationStatus && (
+                            <DropdownMenuItem
+                              onClick={() => setRemindersTarget({
+                                profileId: row.profileId,
+                                jobId: row.jobId.toString(),
+                                name: row.name || row.email,
+                              })}
+                            >
+                              <BellRing className="w-4 h-4 mr-2" />
+                              Invitation Reminders
+                            </DropdownMenuItem>
+                          )}
                           {/* Call button - only show for invited candidates */}
                           {row.jobId && (
                             <DropdownMenuItem
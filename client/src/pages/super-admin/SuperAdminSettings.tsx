@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Settings,
   Phone,
+  Mail,
   CheckCircle,
   XCircle,
   RefreshCw,
@@ -20,6 +21,7 @@ import {
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { EmailTransportSettings } from "@/components/super-admin/EmailTransportSettings";
 
 interface TwilioSettingsResponse {
   settings: {
@@ -169,6 +171,10 @@ export function SuperAdminSettings() {
             <Phone className="w-4 h-4" />
             Twilio Voice
           </TabsTrigger>
+          <TabsTrigger value="email" className="flex items-center gap-2">
+            <Mail className="w-4 h-4" />
+            Email
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="twilio">
@@ -350,6 +356,10 @@ export function SuperAdminSettings() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="email">
+          <EmailTransportSettings />
+        </TabsContent>
       </Tabs>
     </motion.div>
   );
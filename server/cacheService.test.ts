@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cacheService } from './cacheService';
+
+const pdf = Buffer.from('%PDF-1.4 resume bytes').toString('base64');
+
+test('resume parse keys are addressed by the decoded file content', () => {
+  const fromBase64 = cacheService.resumeParseKey(Buffer.from('Jane Doe\nEngineer').toString('base64'), 'application/pdf');
+  const fromText = cacheService.resumeParseKey('Jane Doe\nEngineer', 'text/plain');
+  assert.equal(fromBase64.split(':')[3], fromText.split(':')[3]);
+  assert.equal(cacheService.resumeParseKey(pdf, 'application/pdf'), cacheService.resumeParseKey(pdf, 'application/pdf'));
+});
+
+test('resume parse keys separate organizations and custom rules', () => {
+  const base = cacheService.resumeParseKey(pdf, 'application/pdf', undefined, 'org-1');
+  assert.notEqual(base, cacheService.resumeParseKey(pdf, 'application/pdf', undefined, 'org-2'));
+  assert.notEqual(base, cacheService.resumeParseKey(pdf, 'application/pdf', 'Prefer Go', 'org-1'));
+  assert.match(cacheService.resumeParseKey(pdf, 'application/pdf'), /^resume_parsing:global:/);
+});
+
+test('job scoring keys change with the job text and rules', () => {
+  const key = cacheService.jobScoringKey('resume', 'Backend Engineer', 'Build APIs', 'Node.js');
+  assert.equal(key, cacheService.jobScoringKey('resume', 'Backend Engineer', 'Build APIs', 'Node.js'));
+  assert.notEqual(key, cacheService.jobScoringKey('resume', 'Backend Engineer', 'Build APIs', 'Node.js', 'Must be remote'));
+  assert.notEqual(key, cacheService.jobScoringKey('resume', 'Backend Engineer', 'Build UIs', 'Node.js'));
+});
+
+test('job scoring keys follow the snapshot used for freshness', () => {
+  const key = cacheService.jobScoringKey('resume', 'Backend Engineer', 'Build APIs', 'Node.js');
+  // A title-only edit changes the snapshot, so it must also change the key
+  assert.notEqual(
+    cacheService.jobSnapshotHash('Backend Engineer', 'Build APIs', 'Node.js'),
+    cacheService.jobSnapshotHash('Platform Engineer', 'Build APIs', 'Node.js')
+  );
+  assert.notEqual(key, cacheService.jobScoringKey('resume', 'Platform Engineer', 'Build APIs', 'Node.js'));
+  assert.equal(key, cacheService.jobScoringKeyForHash(cacheService.generateHash('resume'), 'Backend Engineer', 'Build APIs', 'Node.js'));
+});
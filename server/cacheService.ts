@@ -1,13 +1,55 @@
 import crypto from 'crypto';
 import { db } from './db';
 import { cache } from '../shared/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, or, lt, gt, isNull, inArray, sql } from 'drizzle-orm';
+
+export type CacheNamespace = 'resume_parsing' | 'job_scoring';
+
+export interface CacheSetOptions {
+  namespace?: CacheNamespace;
+  organizationId?: string | null;
+  ttlSeconds?: number;
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  expired: number;
+}
+
+// Bump when the parsing prompt or ProcessedResume shape changes so stale entries are never served
+export const RESUME_PARSER_VERSION = 'v4';
+
+// Bump when the job scoring prompt changes; recorded on every score and part of the scoring cache key
+export const JOB_SCORING_PROMPT_VERSION = 'v1';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Default time-to-live per namespace (overridable via env)
+const DEFAULT_TTL_SECONDS: Record<CacheNamespace, number> = {
+  resume_parsing: parseInt(process.env.CACHE_TTL_RESUME_PARSING_SECONDS || '', 10) || 30 * DAY_SECONDS,
+  job_scoring: parseInt(process.env.CACHE_TTL_JOB_SCORING_SECONDS || '', 10) || 30 * DAY_SECONDS,
+};
 
 export class CacheService {
-  generateHash(input: string): string {
+  // In-process hit/miss counters since startup, per namespace
+  private counters: Map<string, CacheCounters> = new Map();
+
+  generateHash(input: string | Buffer): string {
     return crypto.createHash('sha256').update(input).digest('hex');
   }
 
+  private namespaceOf(key: string): string {
+    return key.split(':')[0] || 'unknown';
+  }
+
+  private bump(key: string, field: keyof CacheCounters): void {
+    const namespace = this.namespaceOf(key);
+    const current = this.counters.get(namespace) || { hits: 0, misses: 0, expired: 0 };
+    current[field] += 1;
+    this.counters.set(namespace, current);
+  }
+
   async get<T>(key: string): Promise<T | null> {
     const result = await db.select()
       .from(cache)
@@ -15,34 +57,152 @@ export class CacheService {
       .limit(1);
 
     if (result.length === 0) {
+      this.bump(key, 'misses');
+      return null;
+    }
+
+    const entry = result[0];
+
+    // Lazily evict expired entries
+    if (entry.expiresAt && entry.expiresAt.getTime() <= Date.now()) {
+      this.bump(key, 'expired');
+      this.bump(key, 'misses');
+      await this.delete(key);
       return null;
     }
 
-    return result[0].value as T;
+    this.bump(key, 'hits');
+    await db.update(cache)
+      .set({
+        hitCount: sql`${cache.hitCount} + 1`,
+        lastAccessedAt: new Date(),
+      })
+      .where(eq(cache.id, entry.id));
+
+    return entry.value as T;
   }
 
-  async set(key: string, value: any): Promise<void> {
+  /**
+   * Keys from the list that have a live entry. Does not count as a hit or touch access stats.
+   */
+  async existingKeys(keys: string[]): Promise<Set<string>> {
+    if (keys.length === 0) {
+      return new Set();
+    }
+    const rows = await db.select({ key: cache.key })
+      .from(cache)
+      .where(and(
+        inArray(cache.key, keys),
+        or(isNull(cache.expiresAt), gt(cache.expiresAt, new Date()))
+      ));
+    return new Set(rows.map((row: { key: string }) => row.key));
+  }
+
+  async set(key: string, value: any, options: CacheSetOptions = {}): Promise<void> {
+    const namespace = options.namespace || (this.namespaceOf(key) as CacheNamespace);
+    const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS[namespace];
+    const expiresAt = ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000) : null;
+
     await db.insert(cache)
-      .values({ key, value })
-      .onConflictDoNothing();
+      .values({
+        key,
+        value,
+        namespace,
+        organizationId: options.organizationId || null,
+        expiresAt,
+      })
+      .onConflictDoUpdate({
+        target: cache.key,
+        set: { value, expiresAt, hitCount: 0, lastAccessedAt: null },
+      });
   }
 
   async delete(key: string): Promise<void> {
     await db.delete(cache).where(eq(cache.key, key));
   }
 
-  // Helper: Resume parsing cache key (based on file size + custom rules)
-  resumeParseKey(fileSize: number, customRules?: string): string {
-    const rulesHash = customRules ? `:${this.generateHash(customRules).slice(0, 16)}` : '';
-    return `resume_parsing:${fileSize}${rulesHash}`;
+  /**
+   * Remove all entries whose TTL has elapsed. Returns the number of rows evicted.
+   */
+  async evictExpired(): Promise<number> {
+    const deleted = await db.delete(cache)
+      .where(lt(cache.expiresAt, new Date()))
+      .returning({ id: cache.id });
+    return deleted.length;
+  }
+
+  /**
+   * Remove all entries belonging to an organization, optionally limited to one namespace.
+   */
+  async purgeOrganization(organizationId: string, namespace?: CacheNamespace): Promise<number> {
+    const conditions = [eq(cache.organizationId, organizationId)];
+    if (namespace) {
+      conditions.push(eq(cache.namespace, namespace));
+    }
+    const deleted = await db.delete(cache)
+      .where(and(...conditions))
+      .returning({ id: cache.id });
+    return deleted.length;
+  }
+
+  /**
+   * Hit/miss counters since process start plus stored entry totals, optionally scoped to an organization.
+   */
+  async getStats(organizationId?: string): Promise<{
+    counters: Record<string, CacheCounters>;
+    entries: Array<{ namespace: string | null; entries: number; totalHits: number; expired: number }>;
+  }> {
+    const entries = await db
+      .select({
+        namespace: cache.namespace,
+        entries: sql<number>`count(*)::int`,
+        totalHits: sql<number>`coalesce(sum(${cache.hitCount}), 0)::int`,
+        expired: sql<number>`count(*) filter (where ${cache.expiresAt} < now())::int`,
+      })
+      .from(cache)
+      .where(organizationId ? eq(cache.organizationId, organizationId) : undefined)
+      .groupBy(cache.namespace);
+
+    return {
+      counters: Object.fromEntries(this.counters),
+      entries,
+    };
+  }
+
+  // Helper: Hash of the decoded file bytes (base64 payloads are decoded; plain text is hashed as-is)
+  fileContentHash(fileData: string, fileType?: string): string {
+    const isText = !fileType || fileType === 'text' || fileType === 'text/plain';
+    const bytes = isText ? Buffer.from(fileData || '', 'utf8') : Buffer.from(fileData || '', 'base64');
+    return this.generateHash(bytes);
+  }
+
+  // Helper: Resume parsing cache key (based on decoded file content hash + parser/model version + custom rules hash)
+  resumeParseKey(fileData: string, fileType?: string, customRules?: string, organizationId?: string): string {
+    const contentHash = this.fileContentHash(fileData, fileType);
+    const model = process.env.OPENAI_MODEL_RESUME_PROCESSING || 'gpt-4o';
+    const modelHash = this.generateHash(`${RESUME_PARSER_VERSION}:${model}`).slice(0, 12);
+    const rulesHash = customRules ? this.generateHash(customRules).slice(0, 16) : 'none';
+    const orgComponent = organizationId ? this.generateHash(organizationId).slice(0, 12) : 'global';
+    return `resume_parsing:${orgComponent}:${modelHash}:${contentHash}:${rulesHash}`;
+  }
+
+  // Helper: Job scoring cache key (based on file hash + prompt/model version + job snapshot + custom rules hash)
+  jobScoringKey(fileContent: string, jobTitle: string, jobDescription: string, jobRequirements: string, customRules?: string): string {
+    return this.jobScoringKeyForHash(this.generateHash(fileContent), jobTitle, jobDescription, jobRequirements, customRules);
+  }
+
+  // Helper: Job scoring cache key for an already hashed resume text
+  jobScoringKeyForHash(fileHash: string, jobTitle: string, jobDescription: string, jobRequirements: string, customRules?: string): string {
+    const model = process.env.OPENAI_MODEL_RESUME_JOB_SCORING || 'gpt-4o';
+    const modelHash = this.generateHash(`${JOB_SCORING_PROMPT_VERSION}:${model}`).slice(0, 12);
+    // Built from the same snapshot scores are checked for freshness against
+    const jobContentHash = this.generateHash(`${this.jobSnapshotHash(jobTitle, jobDescription, jobRequirements)}:${customRules || ''}`);
+    return `job_scoring:${modelHash}:${fileHash}:${jobContentHash}`;
   }
 
-  // Helper: Job scoring cache key (based on file hash + job description + requirements + custom rules hash)
-  jobScoringKey(fileContent: string, jobDescription: string, jobRequirements: string, customRules?: string): string {
-    const fileHash = this.generateHash(fileContent);
-    const rulesComponent = customRules || '';
-    const jobContentHash = this.generateHash(jobDescription + jobRequirements + rulesComponent);
-    return `job_scoring:${fileHash}:${jobContentHash}`;
+  // Helper: Snapshot hash of the job text a score was produced against
+  jobSnapshotHash(jobTitle: string, jobDescription: string, jobRequirements: string): string {
+    return this.generateHash(`${jobTitle}\n${jobDescription}\n${jobRequirements}`).slice(0, 16);
   }
 }
 
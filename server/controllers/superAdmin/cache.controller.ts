@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { db } from '../../db';
+import { organizations } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { cacheService, CacheNamespace } from '../../cacheService';
+
+const CACHE_NAMESPACES: CacheNamespace[] = ['resume_parsing', 'job_scoring'];
+
+/**
+ * Super Admin Cache Controller
+ * Exposes parse/scoring cache statistics and per-organization purges
+ */
+export class CacheController {
+  /**
+   * Get cache hit/miss counters and stored entry totals
+   * Query params: organizationId (optional)
+   */
+  async getStats(req: Request, res: Response) {
+    try {
+      const organizationId = req.query.organizationId as string | undefined;
+      const stats = await cacheService.getStats(organizationId);
+      res.json(stats);
+    } catch (error) {
+      console.error('Error fetching cache stats:', error);
+      res.status(500).json({ error: 'Failed to fetch cache stats' });
+    }
+  }
+
+  /**
+   * Purge cached entries for a single organization
+   * Query params: namespace (optional) - 'resume_parsing' | 'job_scoring'
+   */
+  async purgeOrganization(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const namespace = req.query.namespace as CacheNamespace | undefined;
+
+      if (namespace && !CACHE_NAMESPACES.includes(namespace)) {
+        return res.status(400).json({
+          error: `Invalid namespace. Must be one of: ${CACHE_NAMESPACES.join(', ')}`,
+        });
+      }
+
+      const [organization] = await db
+        .select({ id: organizations.id })
+        .from(organizations)
+        .where(eq(organizations.id, id))
+        .limit(1);
+
+      if (!organization) {
+        return res.status(404).json({ error: 'Organization not found' });
+      }
+
+      const purged = await cacheService.purgeOrganization(id, namespace);
+
+      res.json({
+        message: `Purged ${purged} cache entr${purged === 1 ? 'y' : 'ies'}`,
+        purged,
+      });
+    } catch (error) {
+      console.error('Error purging organization cache:', error);
+      res.status(500).json({ error: 'Failed to purge organization cache' });
+    }
+  }
+
+  /**
+   * Evict all expired cache entries immediately
+   */
+  async evictExpired(req: Request, res: Response) {
+    try {
+      const evicted = await cacheService.evictExpired();
+      res.json({ message: `Evicted ${evicted} expired entries`, evicted });
+    } catch (error) {
+      console.error('Error evicting expired cache entries:', error);
+      res.status(500).json({ error: 'Failed to evict expired cache entries' });
+    }
+  }
+}
+
+export const cacheController = new CacheController();
@@ -1,6 +1,16 @@
 import { Request, Response } from 'express';
 import { systemSettingsService } from '../../services/systemSettingsService';
 import { twilioVoiceService } from '../../services/twilioVoiceService';
+import { emailTransportService } from '../../services/emailTransportService';
+import type { EmailSettings } from '../../services/systemSettingsService';
+
+const mask = (secret: string) => (secret ? `${'*'.repeat(Math.max(0, secret.length - 4))}${secret.slice(-4)}` : '');
+
+const maskEmailSettings = (settings: EmailSettings) => ({
+  ...settings,
+  sendgridApiKey: mask(settings.sendgridApiKey),
+  smtpPassword: mask(settings.smtpPassword),
+});
 
 class SettingsController {
   /**
@@ -158,6 +168,133 @@ class SettingsController {
       });
     }
   }
+
+  /**
+   * Get email transport settings (secrets masked) and which transport is in use
+   */
+  async getEmailSettings(req: Request, res: Response) {
+    try {
+      const settings = await systemSettingsService.getEmailSettings();
+      const status = await emailTransportService.status();
+      res.json({ settings: maskEmailSettings(settings), status });
+    } catch (error) {
+      console.error('Error fetching email settings:', error);
+      res.status(500).json({ error: 'Failed to fetch email settings' });
+    }
+  }
+
+  /**
+   * Update email transport settings. Blank secrets keep the saved ones; the clear flags remove them.
+   */
+  async updateEmailSettings(req: Request, res: Response) {
+    try {
+      const saved = await systemSettingsService.getEmailSettings();
+      let settings: EmailSettings;
+      try {
+        settings = emailTransportService.normalizeSettings(req.body, saved);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid email settings' });
+      }
+
+      const { sendgridApiKey, smtpPassword, ...plain } = settings;
+      await systemSettingsService.setEmailSettings({
+        ...plain,
+        ...(sendgridApiKey !== saved.sendgridApiKey ? { sendgridApiKey } : {}),
+        ...(smtpPassword !== saved.smtpPassword ? { smtpPassword } : {}),
+      });
+      emailTransportService.reload();
+
+      res.json({
+        message: 'Email settings updated successfully',
+        settings: maskEmailSettings(settings),
+        status: await emailTransportService.status(),
+      });
+    } catch (error) {
+      console.error('Error updating email settings:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to update email settings',
+      });
+    }
+  }
+
+  /**
+   * Send a test email with the provided settings (does NOT save them)
+   */
+  async testEmailSettings(req: Request, res: Response) {
+    try {
+      const to = typeof req.body?.to === 'string' ? req.body.to.trim() : '';
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to)) {
+        return res.status(400).json({ success: false, error: 'Enter the email address to send the test to' });
+      }
+      let settings: EmailSettings;
+      try {
+        settings = emailTransportService.normalizeSettings(req.body, await systemSettingsService.getEmailSettings());
+      } catch (error) {
+        return res.status(400).json({ success: false, error: error instanceof Error ? error.message : 'Invalid email settings' });
+      }
+
+      try {
+        await emailTransportService.sendTest(settings, to);
+        res.json({ success: true, transport: settings.transport, to });
+      } catch (sendError: any) {
+        res.json({
+          success: false,
+          transport: settings.transport,
+          to,
+          error: sendError?.response?.body?.errors?.[0]?.message || sendError?.message || 'Test email could not be sent',
+        });
+      }
+    } catch (error) {
+      console.error('Error sending test email:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Test email failed',
+      });
+    }
+  }
+
+  /**
+   * Messages kept by the outbox transport, newest first
+   */
+  async listEmailOutbox(req: Request, res: Response) {
+    try {
+      const to = typeof req.query.to === 'string' && req.query.to ? req.query.to : undefined;
+      res.json({ messages: await emailTransportService.listOutbox(to) });
+    } catch (error) {
+      console.error('Error fetching email outbox:', error);
+      res.status(500).json({ error: 'Failed to fetch email outbox' });
+    }
+  }
+
+  /**
+   * One outbox message with its text, HTML and attachments
+   */
+  async getEmailOutboxMessage(req: Request, res: Response) {
+    try {
+      const id = Number(req.params.id);
+      const message = Number.isInteger(id) ? await emailTransportService.getOutboxMessage(id) : undefined;
+      if (!message) {
+        return res.status(404).json({ error: 'Message not found' });
+      }
+      res.json(message);
+    } catch (error) {
+      console.error('Error fetching outbox message:', error);
+      res.status(500).json({ error: 'Failed to fetch outbox message' });
+    }
+  }
+
+  /**
+   * Empty the outbox
+   */
+  async clearEmailOutbox(req: Request, res: Response) {
+    try {
+      const deleted = await emailTransportService.clearOutbox();
+      res.json({ message: `Deleted ${deleted} message${deleted === 1 ? '' : 's'}`, deleted });
+    } catch (error) {
+      console.error('Error clearing email outbox:', error);
+      res.status(500).json({ error: 'Failed to clear email outbox' });
+    }
+  }
 }
 
 export const settingsController = new SettingsController();
@@ -1,7 +1,7 @@
 import { createBullBoard } from '@bull-board/api';
 import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
 import { ExpressAdapter } from '@bull-board/express';
-import { resumeProcessingQueue, emailQueue, candidateMatchingQueue, voiceCallQueue, interviewReminderQueue } from './queues';
+import { resumeProcessingQueue, emailQueue, candidateMatchingQueue, voiceCallQueue, interviewReminderQueue, maintenanceQueue } from './queues';
 
 export function setupBullDashboard(app: any) {
   const serverAdapter = new ExpressAdapter();
@@ -14,6 +14,7 @@ export function setupBullDashboard(app: any) {
       new BullMQAdapter(candidateMatchingQueue),
       new BullMQAdapter(voiceCallQueue),
       new BullMQAdapter(interviewReminderQueue),
+      new BullMQAdapter(maintenanceQueue),
     ],
     serverAdapter: serverAdapter,
   });
@@ -1,4 +1,5 @@
 import * as schema from "@shared/schema";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
 
 if (!process.env.DATABASE_URL) {
   throw new Error(
@@ -44,4 +45,9 @@ async function initializeDatabase() {
 // Initialize the database
 await initializeDatabase();
 
-export { pool, db };
\ No newline at end of file
+export { pool, db };
+
+// Both drivers expose the same query builder; these types describe it for code that runs inside a transaction
+export type Database = NodePgDatabase<typeof schema>;
+export type DbTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+export type DbExecutor = Database | DbTransaction;
\ No newline at end of file
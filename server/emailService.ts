@@ -1,5 +1,7 @@
-import { MailService } from '@sendgrid/mail';
 import { getAppBaseUrl } from '../server/auth';
+import { emailTemplateService } from './services/emailTemplateService';
+import { emailTransportService } from './services/emailTransportService';
+import type { EmailLocale } from '@shared/schema';
 
 interface InterviewEmailData {
   applicantName: string;
@@ -12,6 +14,57 @@ interface InterviewEmailData {
   meetingLink?: string;
   timeZone: string;
   notes?: string;
+  manageUrl?: string;   // Candidate-facing reschedule/cancel page
+  ics?: string | null;  // Calendar invite attached as invite.ics
+  rescheduled?: boolean;
+  reminder?: '24h' | '1h';  // Sent ahead of the interview rather than when it is booked
+  organizationId?: string | null;  // Picks the organization's template, language and branding
+}
+
+interface InterviewCancelledEmailData {
+  applicantName: string;
+  applicantEmail: string;
+  jobTitle: string;
+  companyName: string;
+  ics?: string | null;
+  organizationId?: string | null;
+}
+
+interface InterviewBookingLinkEmailData {
+  applicantName: string;
+  applicantEmail: string;
+  jobTitle: string;
+  companyName: string;
+  bookingUrl: string;
+  durationMinutes: number;
+  expiresAt: Date;
+}
+
+interface InterviewChangeNotificationData {
+  recipientEmail: string;
+  recipientName: string;
+  candidateName: string;
+  jobTitle: string;
+  companyName: string;
+  change: 'rescheduled' | 'cancelled';
+  previousStart: { date: string; time: string; zoneName: string } | null;
+  newStart: { date: string; time: string; zoneName: string } | null;
+  reason: string | null;
+  ics?: string | null;
+  organizationId?: string | null;
+}
+
+interface JobApprovalNotificationData {
+  recipientEmail: string;
+  recipientName: string;
+  kind: 'requested' | 'approved' | 'rejected' | 'commented';
+  actorName: string;
+  jobTitle: string;
+  companyName: string;
+  stepName: string | null;  // The chain step awaiting the recipient, or the one just decided
+  termsSummary: string;     // Salary range and headcount being approved
+  comment: string | null;   // Comment or rejection reason
+  jobUrl: string;
 }
 
 interface VerificationEmailData {
@@ -45,6 +98,7 @@ interface ApplicantStatusEmailData {
   skills?: string[];
   experience?: string;
   matchScore?: number;
+  organizationId?: string | null;
 }
 
 interface OfferLetterEmailData {
@@ -53,208 +107,454 @@ interface OfferLetterEmailData {
   companyName: string;
   jobTitle: string;
   offerContentText: string;
+  subject?: string; // From the offer template; defaults to the standard job offer subject
+  responseUrl?: string | null; // Public page where the candidate signs, declines or asks for changes
+  expiresAt?: Date | null;
+  organizationId?: string | null;
 }
 
-class EmailService {
-  private mailService: MailService | null;
-
-  constructor() {
-    // Use the environment variable for SendGrid API key
-    const apiKey = (process.env.SENDGRID_API_KEY || '').trim();
-    if (!apiKey) {
-      this.mailService = null;
-      console.warn('📧 SendGrid disabled: missing SENDGRID_API_KEY. Emails will be skipped.');
-      return;
-    }
+interface OfferReminderEmailData {
+  recipientEmail: string;
+  recipientName: string;
+  companyName: string;
+  position: string;
+  expiresAt: Date;
+  responseUrl: string;
+}
+
+interface OfferResponseNotificationData {
+  recipientEmail: string;
+  recipientName: string;
+  response: 'accepted' | 'declined' | 'changes_requested' | 'expired';
+  candidateName: string;
+  position: string;
+  companyName: string;
+  note: string | null;
+  reviewUrl: string;
+  signedPdf?: { fileName: string; content: Buffer };
+}
+
+interface OfferApprovalNotificationData {
+  recipientEmail: string;
+  recipientName: string;
+  kind: 'requested' | 'approved' | 'changes_requested';
+  actorName: string;
+  candidateName: string;
+  position: string;
+  companyName: string;
+  note: string | null;
+  reviewUrl: string;
+}
 
-    this.mailService = new MailService();
-    this.mailService.setApiKey(apiKey);
-    console.log('📧 EmailService initialized with SendGrid');
+class EmailService {
+  /**
+   * Sender address and display name every email goes out from.
+   */
+  sender(): { email: string; name: string } {
+    return emailTransportService.sender();
   }
 
   async sendInterviewScheduledEmail(data: InterviewEmailData): Promise<boolean> {
     try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping interview email: SendGrid not configured');
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping interview email: no email transport configured');
         return false;
       }
-      const emailHTML = this.generateInterviewEmailHTML(data);
-      const emailText = this.generateInterviewEmailText(data);
+      const context = await emailTemplateService.contextFor(data.organizationId);
+      const phrases = emailTemplateService.phrases(context.locale);
+      const email = await emailTemplateService.render('interview_scheduled', context, {
+        candidate_name: data.applicantName,
+        job_title: data.jobTitle,
+        company_name: data.companyName,
+        notice: data.reminder ? phrases.interviewReminder[data.reminder] : data.rescheduled ? phrases.interviewRescheduled : '',
+        interview_date: data.interviewDate,
+        interview_time: data.interviewTime,
+        time_zone: data.timeZone,
+        interview_type: phrases.interviewTypes[data.interviewType] || data.interviewType,
+        meeting_link: data.meetingLink ? this.formatMeetingLink(data.meetingLink) : '',
+        notes: data.notes,
+        manage_url: data.manageUrl,
+      });
+      const prefix = data.reminder ? phrases.subjectPrefix.reminder : data.rescheduled ? phrases.subjectPrefix.rescheduled : '';
 
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-      await this.mailService.send({
+      await transport.send({
         to: data.applicantEmail,
-        from: { email: fromEmail, name: fromName }, // Verified sender email with display name
-        subject: `🎯 Interview Scheduled: ${data.applicantName} - ${data.jobTitle} at ${data.companyName}`,
-        text: emailText,
-        html: emailHTML,
+        from: this.sender(),
+        subject: `${prefix}${email.subject}`,
+        text: email.text,
+        html: email.html,
+        attachments: data.ics ? [this.icsAttachment(data.ics, 'REQUEST')] : undefined,
       });
 
       console.log(`✅ Interview email sent successfully to ${data.applicantEmail}`);
       return true;
     } catch (error) {
-      console.error('❌ SendGrid email error:', error);
+      console.error('❌ Interview email error:', error);
       return false;
     }
   }
 
-  private generateInterviewEmailHTML(data: InterviewEmailData): string {
-    const meetingLinkSection = data.meetingLink ? `
-      <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 24px; border-radius: 12px; margin: 24px 0; text-align: center; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
-        <h3 style="color: white; margin: 0 0 16px 0; font-size: 20px;">🔗 Join Your Interview</h3>
-        <p style="color: #d1fae5; margin: 0 0 16px 0; font-size: 16px;">Click below to join the meeting for ${data.applicantName}</p>
-        <a href="${this.formatMeetingLink(data.meetingLink)}" 
-           style="background: white; color: #059669; padding: 16px 32px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold; font-size: 18px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); transition: all 0.3s ease;">
-          🚀 JOIN INTERVIEW NOW
-        </a>
-        <div style="margin-top: 16px; padding: 12px; background: rgba(255,255,255,0.2); border-radius: 6px;">
-          <p style="color: #d1fae5; margin: 0; font-size: 14px; word-break: break-all;">Meeting Link: ${data.meetingLink}</p>
-        </div>
-      </div>
-    ` : '';
+  private icsAttachment(ics: string, method: 'REQUEST' | 'CANCEL') {
+    return {
+      content: Buffer.from(ics).toString('base64'),
+      filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+      type: `text/calendar; charset=utf-8; method=${method}`,
+      disposition: 'attachment',
+    };
+  }
 
-    const notesSection = data.notes ? `
-      <div style="margin: 20px 0;">
-        <h3 style="color: #374151; margin: 0 0 8px 0;">Additional Notes</h3>
-        <p style="color: #6b7280; line-height: 1.6;">${data.notes}</p>
-      </div>
-    ` : '';
+  async sendInterviewCancelledEmail(data: InterviewCancelledEmailData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping interview cancellation email: no email transport configured');
+        return false;
+      }
 
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Interview Scheduled</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
-        
-        <div style="text-align: center; margin-bottom: 40px;">
-          <h1 style="color: #2563eb; margin: 0; font-size: 28px;">Interview Scheduled</h1>
-          <p style="color: #6b7280; margin: 8px 0 0 0; font-size: 16px;">We're excited to meet with you!</p>
-        </div>
+      const context = await emailTemplateService.contextFor(data.organizationId);
+      const email = await emailTemplateService.render('interview_cancelled', context, {
+        candidate_name: data.applicantName,
+        job_title: data.jobTitle,
+        company_name: data.companyName,
+      });
 
-        <div style="background-color: white; border: 1px solid #e5e7eb; border-radius: 12px; padding: 32px; margin-bottom: 24px;">
-          
-          <div style="text-align: center; margin-bottom: 32px;">
-            <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 16px; width: 60px; height: 60px; background-color: #2563eb; border-radius: 50%;">
-              <tr>
-                <td style="text-align: center; vertical-align: middle; font-size: 24px; line-height: 60px;">📅</td>
-              </tr>
-            </table>
-            <h2 style="color: #1f2937; margin: 0; font-size: 24px;">Interview Details</h2>
-          </div>
+      await transport.send({
+        to: data.applicantEmail,
+        from: this.sender(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+        attachments: data.ics ? [this.icsAttachment(data.ics, 'CANCEL')] : undefined,
+      });
 
-          <div style="text-align: center; margin-bottom: 32px; padding: 20px; background: linear-gradient(135deg, #f0f9ff 0%, #e0f2fe 100%); border-radius: 12px; border: 2px solid #2563eb;">
-            <h3 style="color: #1e40af; margin: 0 0 12px 0; font-size: 24px;">👋 Hello ${data.applicantName}!</h3>
-            <p style="color: #1f2937; margin: 0; line-height: 1.6; font-size: 18px;">
-              We're excited to invite you for an interview for the <strong style="color: #2563eb;">${data.jobTitle}</strong> position at <strong style="color: #2563eb;">${data.companyName}</strong>.
-            </p>
-          </div>
+      console.log(`✅ Interview cancellation email sent to ${data.applicantEmail}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Interview cancellation email error:', error);
+      return false;
+    }
+  }
 
-          <div style="display: grid; gap: 16px; margin: 24px 0;">
-            
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">📅</span>
-              <div>
-                <strong style="color: #374151;">Date:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.interviewDate}</span>
-              </div>
-            </div>
+  /**
+   * Tell an interviewer that the candidate rescheduled or cancelled through their interview link.
+   */
+  async sendInterviewChangeNotification(data: InterviewChangeNotificationData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping interview change notification: no email transport configured');
+        return false;
+      }
 
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">🕐</span>
-              <div>
-                <strong style="color: #374151;">Time:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.interviewTime} ${data.timeZone}</span>
-              </div>
-            </div>
+      const context = await emailTemplateService.contextFor(data.organizationId);
+      const phrases = emailTemplateService.phrases(context.locale);
+      const email = await emailTemplateService.render(data.change === 'rescheduled' ? 'interviewer_rescheduled' : 'interviewer_cancelled', context, {
+        recipient_name: data.recipientName,
+        candidate_name: data.candidateName,
+        job_title: data.jobTitle,
+        company_name: data.companyName,
+        previous_time: data.previousStart ? phrases.interviewTime(data.previousStart) : '',
+        new_time: data.newStart ? phrases.interviewTime(data.newStart) : '',
+        reason: data.reason,
+      });
 
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">${this.getInterviewTypeIcon(data.interviewType)}</span>
-              <div>
-                <strong style="color: #374151;">Type:</strong>
-                <span style="color: #6b7280; margin-left: 8px; text-transform: capitalize;">${data.interviewType}</span>
-              </div>
-            </div>
+      await transport.send({
+        to: data.recipientEmail,
+        from: this.sender(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+        attachments: data.ics ? [this.icsAttachment(data.ics, data.change === 'cancelled' ? 'CANCEL' : 'REQUEST')] : undefined,
+      });
 
-            <div style="display: flex; align-items: center; padding: 12px 0;">
-              <span style="margin-right: 12px; font-size: 18px;">🏢</span>
-              <div>
-                <strong style="color: #374151;">Company:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.companyName}</span>
-              </div>
-            </div>
+      console.log(`✅ Interview ${data.change} notification sent to ${data.recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Interview change notification error:', error);
+      return false;
+    }
+  }
 
-          </div>
+  /**
+   * Tell a team member about a job requisition approval: that one awaits them, or how theirs was decided.
+   */
+  async sendJobApprovalNotification(data: JobApprovalNotificationData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping job approval notification: no email transport configured');
+        return false;
+      }
 
-          ${meetingLinkSection}
-          ${notesSection}
+      const step = data.stepName ? ` (${data.stepName})` : '';
+      const { subject, summary, action } = {
+        requested: {
+          subject: `Approval needed${step}: ${data.jobTitle}`,
+          summary: `${data.actorName} is asking for your approval${step} to publish the ${data.jobTitle} job.`,
+          action: 'Review Request',
+        },
+        approved: {
+          subject: `Job approved: ${data.jobTitle}`,
+          summary: `${data.actorName} gave the final approval${step} for the ${data.jobTitle} job. It can now be published.`,
+          action: 'View Job',
+        },
+        rejected: {
+          subject: `Job not approved: ${data.jobTitle}`,
+          summary: `${data.actorName} rejected the ${data.jobTitle} job${step}.`,
+          action: 'View Job',
+        },
+        commented: {
+          subject: `New comment on ${data.jobTitle} approval`,
+          summary: `${data.actorName} commented on the approval request for the ${data.jobTitle} job.`,
+          action: 'View Request',
+        },
+      }[data.kind];
+      const commentLabel = data.kind === 'rejected' ? 'Reason' : 'Comment';
+
+      await transport.send({
+        to: data.recipientEmail,
+        from: this.sender(),
+        subject,
+        text: `Hello ${data.recipientName},
+
+${summary}
+
+Terms: ${data.termsSummary}
+${data.comment ? `${commentLabel}: ${data.comment}\n` : ''}
+${data.jobUrl}
+
+${data.companyName} Hiring`,
+        html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #111827;">Hello ${data.recipientName},</h2>
+          <p>${summary}</p>
+          <p style="color: #6b7280;">Terms: ${data.termsSummary}</p>
+          ${data.comment ? `<p style="padding: 12px 16px; background-color: #f3f4f6; border-radius: 8px;"><strong>${commentLabel}:</strong> ${data.comment}</p>` : ''}
+          <p style="text-align: center; margin: 32px 0;">
+            <a href="${data.jobUrl}" style="background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600;">${action}</a>
+          </p>
+        </div>`,
+      });
 
-          <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #f3f4f6;">
-            <p style="color: #6b7280; margin: 0; font-size: 14px; line-height: 1.6;">
-              Please reply to this email if you need to reschedule or have any questions. We look forward to speaking with you!
-            </p>
-          </div>
+      console.log(`✅ Job approval ${data.kind} notification sent to ${data.recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Job approval notification error:', error);
+      return false;
+    }
+  }
 
-        </div>
+  /**
+   * Tell a teammate an offer letter needs their approval, or tell its author how the approval went.
+   */
+  async sendOfferApprovalNotification(data: OfferApprovalNotificationData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping offer approval notification: no email transport configured');
+        return false;
+      }
 
-        <div style="text-align: center; color: #9ca3af; font-size: 14px;">
-          <p style="margin: 0;">Best regards,<br>The ${data.companyName} Hiring Team</p>
-        </div>
+      const offer = `the ${data.position} offer for ${data.candidateName}`;
+      const { subject, summary } = {
+        requested: {
+          subject: `Offer approval needed: ${data.candidateName}`,
+          summary: `${data.actorName} is asking you to approve ${offer} before it is sent.`,
+        },
+        approved: {
+          subject: `Offer approved: ${data.candidateName}`,
+          summary: `${data.actorName} approved ${offer}. It can now be sent.`,
+        },
+        changes_requested: {
+          subject: `Changes requested: ${data.candidateName} offer`,
+          summary: `${data.actorName} asked for changes to ${offer}.`,
+        },
+      }[data.kind];
+
+      await transport.send({
+        to: data.recipientEmail,
+        from: this.sender(),
+        subject,
+        text: `Hello ${data.recipientName},
+
+${summary}
+${data.note ? `Note: ${data.note}\n` : ''}
+${data.reviewUrl}
+
+${data.companyName} Hiring`,
+        html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #111827;">Hello ${data.recipientName},</h2>
+          <p>${summary}</p>
+          ${data.note ? `<p style="padding: 12px 16px; background-color: #f3f4f6; border-radius: 8px;"><strong>Note:</strong> ${data.note}</p>` : ''}
+          <p style="text-align: center; margin: 32px 0;">
+            <a href="${data.reviewUrl}" style="background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600;">Review Offer</a>
+          </p>
+        </div>`,
+      });
 
-      </body>
-      </html>
-    `;
+      console.log(`✅ Offer approval ${data.kind} notification sent to ${data.recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Offer approval notification error:', error);
+      return false;
+    }
   }
 
-  private generateInterviewEmailText(data: InterviewEmailData): string {
-    const meetingLinkText = data.meetingLink ? `
-🔗 INTERVIEW MEETING LINK FOR ${data.applicantName.toUpperCase()}:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${data.meetingLink}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🚀 CLICK THE LINK ABOVE TO JOIN YOUR INTERVIEW
+  /**
+   * Tell the offer's sender that the candidate accepted, declined or asked for changes.
+   */
+  async sendOfferResponseNotification(data: OfferResponseNotificationData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping offer response notification: no email transport configured');
+        return false;
+      }
 
-` : '';
+      const offer = `the ${data.position} offer`;
+      const { subject, summary } = {
+        accepted: {
+          subject: `Offer accepted: ${data.candidateName}`,
+          summary: `${data.candidateName} accepted and signed ${offer}. The signed letter is attached.`,
+        },
+        declined: {
+          subject: `Offer declined: ${data.candidateName}`,
+          summary: `${data.candidateName} declined ${offer}.`,
+        },
+        changes_requested: {
+          subject: `Changes requested: ${data.candidateName} offer`,
+          summary: `${data.candidateName} asked for changes to ${offer}.`,
+        },
+        expired: {
+          subject: `Offer expired: ${data.candidateName}`,
+          summary: `The ${data.position} offer for ${data.candidateName} passed its response deadline without an answer. You can extend the deadline or revise the offer.`,
+        },
+      }[data.response];
+
+      await transport.send({
+        to: data.recipientEmail,
+        from: this.sender(),
+        subject,
+        text: `Hello ${data.recipientName},
+
+${summary}
+${data.note ? `Candidate's note: ${data.note}\n` : ''}
+${data.reviewUrl}
+
+${data.companyName} Hiring`,
+        html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #111827;">Hello ${data.recipientName},</h2>
+          <p>${summary}</p>
+          ${data.note ? `<p style="padding: 12px 16px; background-color: #f3f4f6; border-radius: 8px;"><strong>Candidate's note:</strong> ${data.note}</p>` : ''}
+          <p style="text-align: center; margin: 32px 0;">
+            <a href="${data.reviewUrl}" style="background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600;">View Offer</a>
+          </p>
+        </div>`,
+        attachments: data.signedPdf ? [{
+          content: data.signedPdf.content.toString('base64'),
+          filename: data.signedPdf.fileName,
+          type: 'application/pdf',
+          disposition: 'attachment',
+        }] : undefined,
+      });
 
-    const notesText = data.notes ? `
-📝 IMPORTANT NOTES:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${data.notes}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      console.log(`✅ Offer ${data.response} notification sent to ${data.recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Offer response notification error:', error);
+      return false;
+    }
+  }
 
-` : '';
+  /**
+   * Remind a candidate that their offer's response deadline is coming up.
+   */
+  async sendOfferReminderEmail(data: OfferReminderEmailData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping offer reminder email: no email transport configured');
+        return false;
+      }
 
-    return `
-🎯 INTERVIEW SCHEDULED: ${data.jobTitle} at ${data.companyName}
+      const deadline = this.formatOfferDeadline(data.expiresAt);
+      await transport.send({
+        to: data.recipientEmail,
+        from: this.sender(),
+        subject: `Reminder: your ${data.position} offer from ${data.companyName} expires soon`,
+        text: `Hello ${data.recipientName},
+
+Your offer for the ${data.position} position at ${data.companyName} is waiting for your response. Please accept, decline or ask for changes by ${deadline}.
+
+${data.responseUrl}
+
+${data.companyName} Hiring Team`,
+        html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #111827;">Hello ${data.recipientName},</h2>
+          <p>Your offer for the <strong>${data.position}</strong> position at ${data.companyName} is waiting for your response.</p>
+          <p>Please accept, decline or ask for changes by <strong>${deadline}</strong>.</p>
+          <p style="text-align: center; margin: 32px 0;">
+            <a href="${data.responseUrl}" style="background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600;">Review Your Offer</a>
+          </p>
+        </div>`,
+      });
 
-👋 Hello ${data.applicantName.toUpperCase()}!
+      console.log(`✅ Offer reminder sent to ${data.recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Offer reminder error:', error);
+      return false;
+    }
+  }
 
-We're excited to invite you for an interview for the ${data.jobTitle} position at ${data.companyName}.
+  /**
+   * Invite a candidate to pick their own interview time from the panel's open slots.
+   */
+  async sendInterviewBookingLinkEmail(data: InterviewBookingLinkEmailData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping interview booking email: no email transport configured');
+        return false;
+      }
 
-📅 INTERVIEW DETAILS:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-📅 Date: ${data.interviewDate}
-⏰ Time: ${data.interviewTime} (${data.timeZone})
-💼 Role: ${data.jobTitle}
-🏢 Company: ${data.companyName}
-📹 Type: ${data.interviewType}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      const expires = data.expiresAt.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' });
+      await transport.send({
+        to: data.applicantEmail,
+        from: this.sender(),
+        subject: `📅 Pick your interview time: ${data.jobTitle} at ${data.companyName}`,
+        text: `Hello ${data.applicantName},
 
-${meetingLinkText}${notesText}
+${data.companyName} would like to interview you for the ${data.jobTitle} position. Choose a ${data.durationMinutes}-minute slot that suits you:
 
-Please confirm your attendance by replying to this email.
-If you need to reschedule or have questions, don't hesitate to contact us.
+${data.bookingUrl}
 
-We're excited to meet you, ${data.applicantName}!
+Times are shown in your own time zone. This link is valid until ${expires}.
 
 Best regards,
-${data.companyName} Hiring Team
-    `.trim();
+${data.companyName} Hiring Team`,
+        html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #111827;">Hello ${data.applicantName},</h2>
+          <p><strong>${data.companyName}</strong> would like to interview you for the <strong>${data.jobTitle}</strong> position. Choose a ${data.durationMinutes}-minute slot that suits you.</p>
+          <p style="text-align: center; margin: 32px 0;">
+            <a href="${data.bookingUrl}" style="background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600;">Choose Interview Time</a>
+          </p>
+          <p style="color: #6b7280; font-size: 14px;">Times are shown in your own time zone. This link is valid until ${expires}.</p>
+          <p>Best regards,<br>The ${data.companyName} Hiring Team</p>
+        </div>`,
+      });
+
+      console.log(`✅ Interview booking email sent to ${data.applicantEmail}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Interview booking email error:', error);
+      return false;
+    }
   }
 
   private formatMeetingLink(link: string): string {
@@ -264,29 +564,6 @@ ${data.companyName} Hiring Team
     return `https://${link}`;
   }
 
-  private getInterviewTypeIcon(type: string): string {
-    switch (type) {
-      case 'video':
-        return '📹';
-      case 'phone':
-        return '📞';
-      case 'in-person':
-        return '🏢';
-      default:
-        return '💼';
-    }
-  }
-
-  private getExpirationDateTime(): string {
-    const expirationDate = new Date();
-    const options: Intl.DateTimeFormatOptions = {
-      weekday: 'long',
-      month: 'long',
-      day: 'numeric'
-    };
-    return expirationDate.toLocaleDateString('en-US', options);
-  }
-
   async sendInterviewInvitationEmail(params: {
     applicantName: string;
     applicantEmail: string;
@@ -295,72 +572,33 @@ ${data.companyName} Hiring Team
     invitationLink: string;
     matchScore?: number;
     matchSummary?: string;
+    organizationId?: string | null;
   }): Promise<boolean> {
     try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping invitation email: SendGrid not configured');
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping invitation email: no email transport configured');
         return false;
       }
-      const subject = `Your Application with Orange – Next Steps`;
-
-      const html = `
-        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 640px; margin: 0 auto; padding: 20px;">
-          <h2 style="color: #111827;">Dear ${params.applicantName},</h2>
-          <p>Thank you for applying to Orange. After reviewing your resume, we are pleased to inform you that you have been identified as a strong potential candidate for the <strong>${params.jobTitle}</strong> position.</p>
-          <p>As the next step in our hiring process, we invite you to complete a short AI-powered interview through our platform. This will allow us to get to know you better and assess your fit for the role.</p>
-          <div style="margin: 16px 0; padding: 12px 16px; background-color: #fef3c7; border-radius: 8px; border-left: 4px solid #f59e0b;">
-            <p style="color: #92400e; margin: 0; font-weight: 600;">We apologize for the hassle and any confusion caused by recent bugs.</p>
-          </div>
-          <p style="color: #b45309; font-weight: 600;">Please note: the interview cannot be opened on mobile devices. Use a desktop or laptop.</p>
-          <p>Please use the link below to complete your interview:</p>
-          <div style="margin: 24px 0; text-align: center;">
-            <a href="${params.invitationLink}" style="background: linear-gradient(135deg, #2563eb, #7c3aed); color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600;">Start Your Interview</a>
-          </div>
-          <p>If the button doesn't work, copy and paste this link into your browser:</p>
-          <p style="word-break: break-all; color: #2563eb;">${params.invitationLink}</p>
-          <div style="margin-top: 24px; padding: 16px; background-color: #fef3c7; border-radius: 8px; border-left: 4px solid #f59e0b;">
-            <p style="color: #92400e; margin: 0; font-weight: 600;">Important:</p>
-            <p style="color: #92400e; margin: 8px 0 0 0;">The link will expire today by 11:59 pm.</p>
-            <p style="color: #92400e; margin: 8px 0 0 0;">If you face any bugs, contact us at 01022330092 or raef@platohiring.com.</p>
-          </div>
-          <p>We look forward to learning more about you.</p>
-          <p>Best regards,<br>The Plato Team<br><em>(On behalf of Orange)</em></p>
-        </div>`;
-
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-      await this.mailService.send({
-        to: process.env.TO_EMAIL || params.applicantEmail || 'adam.1.elshanawany@gmail.com',
-        from: { email: fromEmail, name: fromName },
-        subject,
-        text: `Dear ${params.applicantName},
-
-Thank you for applying to Orange. After reviewing your resume, we are pleased to inform you that you have been identified as a strong potential candidate for the ${params.jobTitle} position.
-
-As the next step in our hiring process, we invite you to complete a short AI-powered interview through our platform. This will allow us to get to know you better and assess your fit for the role.
-
-We apologize for the hassle and any confusion caused by recent bugs.
-
-Please note: the interview cannot be opened on mobile devices. Use a desktop or laptop.
-
-Please use the link below to complete your interview:
-
-${params.invitationLink}
-
-IMPORTANT: The link will expire today by 11:59 pm.
-If you face any bugs, contact us at 01022330092 or raef@platohiring.com.
-
-We look forward to learning more about you.
+      const context = await emailTemplateService.contextFor(params.organizationId);
+      const email = await emailTemplateService.render('interview_invitation', context, {
+        candidate_name: params.applicantName,
+        job_title: params.jobTitle,
+        company_name: params.companyName,
+        invitation_link: params.invitationLink,
+      });
 
-Best regards,
-The Plato Team
-(On behalf of Orange)`,
-        html,
+      await transport.send({
+        to: process.env.TO_EMAIL || params.applicantEmail,
+        from: this.sender(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
       });
       console.log(`✅ Invitation email sent to ${params.applicantEmail}`);
       return true;
     } catch (error) {
-      console.error('❌ SendGrid invitation email error:', error);
+      console.error('❌ Invitation email error:', error);
       return false;
     }
   }
@@ -371,75 +609,36 @@ The Plato Team
     jobTitle: string;
     companyName: string;
     invitationLink: string;
-    reminderType: '1h' | '24h';
+    reminderType: '1h' | '24h' | 'followup' | 'final';
+    organizationId?: string | null;
   }): Promise<boolean> {
     try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping reminder email: SendGrid not configured');
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping reminder email: no email transport configured');
         return false;
       }
+      const context = await emailTemplateService.contextFor(params.organizationId);
+      const email = await emailTemplateService.render('interview_reminder', context, {
+        candidate_name: params.applicantName,
+        job_title: params.jobTitle,
+        company_name: params.companyName,
+        reminder_message: emailTemplateService.phrases(context.locale).invitationReminder[params.reminderType],
+        invitation_link: params.invitationLink,
+      });
 
-      const urgencyText = params.reminderType === '1h'
-        ? 'Your interview invitation expires soon!'
-        : 'Don\'t forget to complete your interview!';
-
-      const subject = `Reminder: Complete Your AI Interview for ${params.jobTitle} at Orange`;
-
-      const html = `
-        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 640px; margin: 0 auto; padding: 20px;">
-          <h2 style="color: #111827;">Dear ${params.applicantName},</h2>
-          <div style="margin: 16px 0; padding: 12px 16px; background-color: #fef3c7; border-radius: 8px; border-left: 4px solid #f59e0b;">
-            <p style="color: #92400e; margin: 0; font-weight: 600;">${urgencyText}</p>
-          </div>
-          <p>This is a friendly reminder that you have a pending AI interview for the <strong>${params.jobTitle}</strong> position at Orange.</p>
-          <div style="margin: 16px 0; padding: 12px 16px; background-color: #fef3c7; border-radius: 8px; border-left: 4px solid #f59e0b;">
-            <p style="color: #92400e; margin: 0; font-weight: 600;">We apologize for the hassle and any confusion caused by recent bugs.</p>
-          </div>
-          <p style="color: #b45309; font-weight: 600;">Please note: the interview cannot be opened on mobile devices. Use a desktop or laptop.</p>
-          <p>Please complete your interview using the link below:</p>
-          <div style="margin: 24px 0; text-align: center;">
-            <a href="${params.invitationLink}" style="background: linear-gradient(135deg, #f59e0b, #d97706); color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600;">Complete Your Interview</a>
-          </div>
-          <p>If the button doesn't work, copy and paste this link into your browser:</p>
-          <p style="word-break: break-all; color: #2563eb;">${params.invitationLink}</p>
-          <p style="color: #92400e; margin-top: 12px;">Need help? Contact 01022330092 or raef@platohiring.com for bugs.</p>
-          <p>We look forward to learning more about you.</p>
-          <p>Best regards,<br>The Plato Team<br><em>(On behalf of Orange)</em></p>
-        </div>`;
-
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-
-      await this.mailService.send({
+      await transport.send({
         to: process.env.TO_EMAIL || params.applicantEmail,
-        from: { email: fromEmail, name: fromName },
-        subject,
-        text: `Dear ${params.applicantName},
-
-${urgencyText}
-
-This is a friendly reminder that you have a pending AI interview for the ${params.jobTitle} position at Orange.
-
-We apologize for the hassle and any confusion caused by recent bugs.
-
-Please note: the interview cannot be opened on mobile devices. Use a desktop or laptop.
-
-Please complete your interview using the link below:
-
-${params.invitationLink}
-
-We look forward to learning more about you.
-
-Best regards,
-The Plato Team
-(On behalf of Orange)`,
-        html,
+        from: this.sender(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
       });
 
       console.log(`✅ Interview reminder email (${params.reminderType}) sent to ${params.applicantEmail}`);
       return true;
     } catch (error) {
-      console.error('❌ SendGrid reminder email error:', error);
+      console.error('❌ Reminder email error:', error);
       return false;
     }
   }
@@ -452,357 +651,97 @@ The Plato Team
     message: string;
     registrationLink: string;
     inviteCode: string;
+    organizationId?: string | null;
   }): Promise<boolean> {
     try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping team invitation email: SendGrid not configured');
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping team invitation email: no email transport configured');
+        return false;
+      }
+      const context = await emailTemplateService.contextFor(params.organizationId);
+      const email = await emailTemplateService.render('team_invitation', context, {
+        company_name: params.organizationName,
+        invited_by: params.invitedByName,
+        role: emailTemplateService.phrases(context.locale).roles[params.role] || params.role,
+        message: params.message,
+        registration_link: params.registrationLink,
+        invite_code: params.inviteCode,
+      });
+
+      await transport.send({
+        to: params.email,
+        from: this.sender(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      });
+
+      console.log(`✅ Team invitation email sent to ${params.email}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Team invitation email error:', error);
+      return false;
+    }
+  }
+
+  async sendVerificationEmail(data: VerificationEmailData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping verification email: no email transport configured');
         return false;
       }
+      const context = await emailTemplateService.contextFor(null);
+      const email = await emailTemplateService.render('email_verification', context, {
+        first_name: data.firstName || 'there',
+        verification_link: data.verificationLink,
+      });
 
-      const subject = `You've been added to ${params.organizationName} on Plato Hiring`;
+      await transport.send({
+        to: data.email,
+        from: this.sender(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      });
+
+      console.log(`✅ Verification email sent successfully to ${data.email}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Verification email error:', error);
+      return false;
+    }
+  }
 
-      const html = this.generateTeamInvitationHTML(params);
-      const text = this.generateTeamInvitationText(params);
+  async sendVerificationSuccessEmail(data: VerificationSuccessEmailData): Promise<boolean> {
+    try {
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping verification success email: no email transport configured');
+        return false;
+      }
 
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
+      const subject = 'Email Verified Successfully - Welcome to Plato Hiring!';
+      const html = this.generateVerificationSuccessEmailHTML(data);
+      const text = this.generateVerificationSuccessEmailText(data);
 
-      await this.mailService.send({
-        to: params.email,
-        from: { email: fromEmail, name: fromName },
+      await transport.send({
+        to: data.email,
+        from: this.sender(),
         subject,
         text,
         html,
       });
 
-      console.log(`✅ Team invitation email sent to ${params.email}`);
+      console.log(`✅ Verification success email sent to ${data.email}`);
       return true;
     } catch (error) {
-      console.error('❌ SendGrid team invitation email error:', error);
+      console.error('❌ Verification success email error:', error);
       return false;
     }
   }
 
-  private generateTeamInvitationHTML(params: {
-    email: string;
-    organizationName: string;
-    invitedByName: string;
-    role: string;
-    message: string;
-    registrationLink: string;
-    inviteCode: string;
-  }): string {
-    const messageSection = params.message ? `
-      <div style="margin: 24px 0; padding: 20px; background-color: #f8fafc; border-radius: 8px; border-left: 4px solid #3b82f6;">
-        <h3 style="color: #1e40af; margin: 0 0 12px 0;">Personal Message</h3>
-        <p style="color: #374151; margin: 0; line-height: 1.6; font-style: italic;">"${params.message}"</p>
-      </div>
-    ` : '';
-
-    const roleDescription = {
-      admin: 'full administrative access including managing team members, jobs, and settings',
-      member: 'access to create and manage jobs, view candidates, and participate in hiring',
-      viewer: 'read-only access to view jobs, candidates, and hiring analytics'
-    };
-
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Team Invitation</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
-
-        <div style="text-align: center; margin-bottom: 40px;">
-          <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 20px; width: 80px; height: 80px; background: linear-gradient(135deg, #3b82f6 0%, #8b5cf6 100%); border-radius: 50%;">
-            <tr>
-              <td style="text-align: center; vertical-align: middle; font-size: 32px; line-height: 80px;">👥</td>
-            </tr>
-          </table>
-          <h1 style="color: #1f2937; margin: 0; font-size: 28px;">You've Been Added to the Team!</h1>
-          <p style="color: #6b7280; margin: 8px 0 0 0; font-size: 16px;">Welcome to ${params.organizationName}</p>
-        </div>
-
-        <div style="background-color: white; border: 1px solid #e5e7eb; border-radius: 12px; padding: 32px; margin-bottom: 24px; box-shadow: 0 4px 6px rgba(0,0,0,0.05);">
-
-          <div style="text-align: center; margin-bottom: 32px;">
-            <h2 style="color: #1f2937; margin: 0; font-size: 24px;">Welcome to ${params.organizationName}!</h2>
-            <p style="color: #6b7280; margin: 8px 0 0 0;">
-              ${params.invitedByName} has added you to the team as a <strong style="color: #3b82f6; text-transform: capitalize;">${params.role}</strong>
-            </p>
-          </div>
-
-          <div style="margin: 24px 0; padding: 20px; background: linear-gradient(135deg, #f0f9ff 0%, #e0f2fe 100%); border-radius: 8px; border: 2px solid #3b82f6;">
-            <h3 style="color: #1e40af; margin: 0 0 12px 0;">What you'll have access to:</h3>
-            <p style="color: #374151; margin: 0; line-height: 1.6;">
-              ${roleDescription[params.role as keyof typeof roleDescription] || 'access to team collaboration tools'}
-            </p>
-          </div>
-
-          ${messageSection}
-
-          <div style="text-align: center; margin: 32px 0;">
-            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 32px; border-radius: 12px; margin-bottom: 24px;">
-              <h3 style="color: white; margin: 0 0 16px 0; font-size: 20px;">🚀 Get Started</h3>
-              <p style="color: #d1fae5; margin: 0 0 24px 0; font-size: 16px;">Click below to set up your account and join ${params.organizationName}</p>
-              <a href="${params.registrationLink}"
-                 style="background: white; color: #059669; padding: 16px 32px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold; font-size: 18px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); transition: all 0.3s ease;">
-                Set Up Account
-              </a>
-            </div>
-
-            <div style="background-color: #fef3c7; border-radius: 8px; padding: 16px; margin-bottom: 20px;">
-              <p style="color: #92400e; margin: 0; font-weight: 600; margin-bottom: 8px;">Access Code: <span style="font-family: 'Courier New', monospace; font-size: 18px; background: #fff; padding: 4px 8px; border-radius: 4px; border: 1px solid #d97706;">${params.inviteCode}</span></p>
-              <p style="color: #92400e; margin: 0; font-size: 14px;">You can also use this code to set up your account on the registration page</p>
-            </div>
-
-            <p style="color: #6b7280; margin: 0; font-size: 14px;">
-              If the button doesn't work, copy and paste this link into your browser:
-            </p>
-            <p style="word-break: break-all; color: #3b82f6; font-size: 12px; margin: 8px 0 0 0;">
-              ${params.registrationLink}
-            </p>
-          </div>
-
-          <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #f3f4f6;">
-            <p style="color: #6b7280; margin: 0; font-size: 14px; line-height: 1.6;">
-              <strong>Important:</strong> This link will expire in 7 days. If you need assistance or have questions, please contact ${params.invitedByName} or our support team.
-            </p>
-          </div>
-
-        </div>
-
-        <div style="text-align: center; color: #9ca3af; font-size: 14px; margin-top: 24px;">
-          <p style="margin: 0;">
-            Best regards,<br>
-            The ${params.organizationName} Team<br>
-            <em>Added by ${params.invitedByName}</em>
-          </p>
-        </div>
-
-      </body>
-      </html>
-    `;
-  }
-
-  private generateTeamInvitationText(params: {
-    email: string;
-    organizationName: string;
-    invitedByName: string;
-    role: string;
-    message: string;
-    registrationLink: string;
-    inviteCode: string;
-  }): string {
-    const messageSection = params.message ? `
-
-📝 PERSONAL MESSAGE:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-"${params.message}"
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    ` : '';
-
-    return `
-👥 YOU'VE BEEN ADDED TO ${params.organizationName.toUpperCase()}!
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${params.invitedByName} has added you to the team as a ${params.role.toUpperCase()}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-Welcome to ${params.organizationName}! We're excited to have you join our hiring team.
-
-${messageSection}
-
-🚀 GET STARTED:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-Click here to set up your account: ${params.registrationLink}
-
-Access Code: ${params.inviteCode}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-IMPORTANT: This link will expire in 7 days.
-
-If you have any questions or need assistance, please contact ${params.invitedByName}.
-
-We look forward to having you on the team!
-
-Best regards,
-${params.organizationName} Team
-Added by ${params.invitedByName}
-    `.trim();
-  }
-
-  async sendVerificationEmail(data: VerificationEmailData): Promise<boolean> {
-    try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping verification email: SendGrid not configured');
-        return false;
-      }
-
-      const subject = 'Verify Your Email Address - Plato Hiring';
-      const html = this.generateVerificationEmailHTML(data);
-      const text = this.generateVerificationEmailText(data);
-
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-
-      await this.mailService.send({
-        to: data.email,
-        from: { email: fromEmail, name: fromName },
-        subject,
-        text,
-        html,
-      });
-
-      console.log(`✅ Verification email sent successfully to ${data.email}`);
-      return true;
-    } catch (error) {
-      console.error('❌ SendGrid verification email error:', error);
-      return false;
-    }
-  }
-
-  async sendVerificationSuccessEmail(data: VerificationSuccessEmailData): Promise<boolean> {
-    try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping verification success email: SendGrid not configured');
-        return false;
-      }
-
-      const subject = 'Email Verified Successfully - Welcome to Plato Hiring!';
-      const html = this.generateVerificationSuccessEmailHTML(data);
-      const text = this.generateVerificationSuccessEmailText(data);
-
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-
-      await this.mailService.send({
-        to: data.email,
-        from: { email: fromEmail, name: fromName },
-        subject,
-        text,
-        html,
-      });
-
-      console.log(`✅ Verification success email sent to ${data.email}`);
-      return true;
-    } catch (error) {
-      console.error('❌ SendGrid verification success email error:', error);
-      return false;
-    }
-  }
-
-  private generateVerificationEmailHTML(data: VerificationEmailData): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Verify Your Email Address</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
-
-        <div style="text-align: center; margin-bottom: 40px;">
-          <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 20px; width: 80px; height: 80px; background: linear-gradient(135deg, #3b82f6 0%, #8b5cf6 100%); border-radius: 50%;">
-            <tr>
-              <td style="text-align: center; vertical-align: middle; font-size: 32px; line-height: 80px;">✉️</td>
-            </tr>
-          </table>
-          <h1 style="color: #1f2937; margin: 0; font-size: 28px;">Verify Your Email</h1>
-          <p style="color: #6b7280; margin: 8px 0 0 0; font-size: 16px;">Welcome to Plato Hiring!</p>
-        </div>
-
-        <div style="background-color: white; border: 1px solid #e5e7eb; border-radius: 12px; padding: 32px; margin-bottom: 24px; box-shadow: 0 4px 6px rgba(0,0,0,0.05);">
-
-          <div style="text-align: center; margin-bottom: 32px;">
-            <h2 style="color: #1f2937; margin: 0; font-size: 24px;">Hi ${data.firstName}!</h2>
-            <p style="color: #6b7280; margin: 8px 0 0 0;">Thanks for signing up for Plato Hiring.</p>
-          </div>
-
-          <div style="margin: 24px 0; padding: 20px; background: linear-gradient(135deg, #f0f9ff 0%, #e0f2fe 100%); border-radius: 12px; border: 2px solid #3b82f6;">
-            <h3 style="color: #1e40af; margin: 0 0 12px 0;">Please verify your email address</h3>
-            <p style="color: #374151; margin: 0; line-height: 1.6;">
-              To complete your registration and access all features of Plato Hiring, please verify your email address by clicking the button below.
-            </p>
-          </div>
-
-          <div style="text-align: center; margin: 32px 0;">
-            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 32px; border-radius: 12px; margin-bottom: 24px;">
-              <h3 style="color: white; margin: 0 0 16px 0; font-size: 20px;">🚀 Verify Your Email</h3>
-              <p style="color: #d1fae5; margin: 0 0 24px 0; font-size: 16px;">Click below to verify your email and activate your account</p>
-              <a href="${data.verificationLink}"
-                 style="background: white; color: #059669; padding: 16px 32px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold; font-size: 18px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); transition: all 0.3s ease;">
-                Verify Email Address
-              </a>
-            </div>
-
-            <div style="background-color: #fef3c7; border-radius: 8px; padding: 16px; margin-bottom: 20px;">
-              <p style="color: #92400e; margin: 0; font-weight: 600;">Important:</p>
-              <p style="color: #92400e; margin: 8px 0 0 0; font-size: 14px;">This verification link will expire in 1 week for security reasons.</p>
-            </div>
-
-            <p style="color: #6b7280; margin: 0; font-size: 14px;">
-              If the button doesn't work, copy and paste this link into your browser:
-            </p>
-            <p style="word-break: break-all; color: #3b82f6; font-size: 12px; margin: 8px 0 0 0;">
-              ${data.verificationLink}
-            </p>
-          </div>
-
-          <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #f3f4f6;">
-            <p style="color: #6b7280; margin: 0; font-size: 14px; line-height: 1.6;">
-              If you didn't create an account with Plato Hiring, you can safely ignore this email.
-              The verification link will expire automatically.
-            </p>
-          </div>
-
-        </div>
-
-        <div style="text-align: center; color: #9ca3af; font-size: 14px; margin-top: 24px;">
-          <p style="margin: 0;">
-            Best regards,<br>
-            The Plato Hiring Team
-          </p>
-        </div>
-
-      </body>
-      </html>
-    `;
-  }
-
-  private generateVerificationEmailText(data: VerificationEmailData): string {
-    return `
-✉️ VERIFY YOUR EMAIL ADDRESS - PLATO HIRING
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-Hi ${data.firstName}!
-
-Welcome to Plato Hiring! Thanks for signing up for our platform.
-
-VERIFY YOUR EMAIL:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-To complete your registration and access all features, please verify your email address by clicking the link below:
-
-${data.verificationLink}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🚀 CLICK THE LINK ABOVE TO VERIFY YOUR EMAIL
-
-IMPORTANT: This verification link will expire in 1 week for security reasons.
-
-If you didn't create an account with Plato Hiring, you can safely ignore this email. The verification link will expire automatically.
-
-We're excited to have you join our platform!
-
-Best regards,
-The Plato Hiring Team
-    `.trim();
-  }
-
   private generateVerificationSuccessEmailHTML(data: VerificationSuccessEmailData): string {
     return `
       <!DOCTYPE html>
@@ -907,38 +846,38 @@ The Plato Hiring Team
 
   async sendPasswordResetEmail(data: PasswordResetEmailData): Promise<boolean> {
     try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping password reset email: SendGrid not configured');
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping password reset email: no email transport configured');
         return false;
       }
+      const context = await emailTemplateService.contextFor(null);
+      const email = await emailTemplateService.render('password_reset', context, {
+        first_name: data.firstName || 'there',
+        reset_link: data.resetLink,
+      });
 
-      const subject = 'Reset Your Password - Plato Hiring';
-      const html = this.generatePasswordResetEmailHTML(data);
-      const text = this.generatePasswordResetEmailText(data);
-
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-
-      await this.mailService.send({
+      await transport.send({
         to: data.email,
-        from: { email: fromEmail, name: fromName },
-        subject,
-        text,
-        html,
+        from: this.sender(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
       });
 
       console.log(`✅ Password reset email sent to ${data.email}`);
       return true;
     } catch (error) {
-      console.error('❌ SendGrid password reset email error:', error);
+      console.error('❌ Password reset email error:', error);
       return false;
     }
   }
 
   async sendPasswordResetSuccessEmail(data: PasswordResetSuccessEmailData): Promise<boolean> {
     try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping password reset success email: SendGrid not configured');
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping password reset success email: no email transport configured');
         return false;
       }
 
@@ -946,12 +885,9 @@ The Plato Hiring Team
       const html = this.generatePasswordResetSuccessEmailHTML(data);
       const text = this.generatePasswordResetSuccessEmailText(data);
 
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-
-      await this.mailService.send({
+      await transport.send({
         to: data.email,
-        from: { email: fromEmail, name: fromName },
+        from: this.sender(),
         subject,
         text,
         html,
@@ -960,64 +896,57 @@ The Plato Hiring Team
       console.log(`✅ Password reset success email sent to ${data.email}`);
       return true;
     } catch (error) {
-      console.error('❌ SendGrid password reset success email error:', error);
+      console.error('❌ Password reset success email error:', error);
       return false;
     }
   }
 
-  private generatePasswordResetEmailHTML(data: PasswordResetEmailData): string {
+  private generatePasswordResetSuccessEmailHTML(data: PasswordResetSuccessEmailData): string {
     return `
       <!DOCTYPE html>
       <html>
       <head>
         <meta charset="utf-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Reset Your Password</title>
+        <title>Password Reset Successfully</title>
       </head>
       <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
 
         <div style="text-align: center; margin-bottom: 40px;">
-          <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 20px; width: 80px; height: 80px; background: linear-gradient(135deg, #3b82f6 0%, #8b5cf6 100%); border-radius: 50%;">
+          <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 20px; width: 80px; height: 80px; background: linear-gradient(135deg, #10b981 0%, #059669 100%); border-radius: 50%;">
             <tr>
-              <td style="text-align: center; vertical-align: middle; font-size: 32px; line-height: 80px;">🔐</td>
+              <td style="text-align: center; vertical-align: middle; font-size: 32px; line-height: 80px;">✅</td>
             </tr>
           </table>
-          <h1 style="color: #1f2937; font-size: 28px; font-weight: 700; margin-bottom: 10px;">Reset Your Password</h1>
-          <p style="color: #6b7280; font-size: 16px;">Hi ${data.firstName || 'there'}, we received a request to reset your password</p>
+          <h1 style="color: #1f2937; font-size: 28px; font-weight: 700; margin-bottom: 10px;">Password Reset Successfully!</h1>
+          <p style="color: #6b7280; font-size: 16px;">Hi ${data.firstName || 'there'}, your password has been reset</p>
         </div>
 
-        <div style="background: #f9fafb; border-radius: 12px; padding: 30px; margin-bottom: 30px;">
-          <h2 style="color: #1f2937; font-size: 20px; font-weight: 600; margin-bottom: 15px;">Password Reset Request</h2>
-          <p style="color: #6b7280; margin-bottom: 20px;">
-            We received a request to reset the password for your Plato Hiring account. If you made this request, click the button below to reset your password:
+        <div style="background: #f0fdf4; border: 1px solid #bbf7d0; border-radius: 12px; padding: 30px; margin-bottom: 30px;">
+          <h2 style="color: #166534; font-size: 20px; font-weight: 600; margin-bottom: 15px;">✅ Password Reset Complete</h2>
+          <p style="color: #166534; margin-bottom: 20px;">
+            Your password for your Plato Hiring account has been successfully reset. You can now use your new password to log in to your account.
           </p>
 
           <div style="text-align: center; margin: 30px 0;">
-            <a href="${data.resetLink}" style="background: linear-gradient(135deg, #3b82f6 0%, #8b5cf6 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px; display: inline-block;">
-              Reset Password
+            <a href="${getAppBaseUrl()}/signin" style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px; display: inline-block;">
+              Log In to Your Account
             </a>
           </div>
-
-          <p style="color: #6b7280; font-size: 14px; text-align: center;">
-            or copy and paste this link into your browser:
-          </p>
-          <p style="background: #f3f4f6; padding: 10px; border-radius: 6px; word-break: break-all; font-size: 12px; text-align: center; color: #6b7280;">
-            ${data.resetLink}
-          </p>
         </div>
 
-        <div style="background: #fef3c7; border: 1px solid #fcd34d; border-radius: 8px; padding: 20px; margin-bottom: 30px;">
-          <h3 style="color: #92400e; font-size: 16px; font-weight: 600; margin-bottom: 10px;">⚠️ Security Notice</h3>
-          <ul style="color: #92400e; margin: 0; padding-left: 20px; font-size: 14px;">
-            <li>This link will expire in 1 hour for security reasons</li>
-            <li>If you didn't request this password reset, please ignore this email</li>
-            <li>Your password will remain unchanged if you don't click the link</li>
-            <li>Never share this link with anyone</li>
+        <div style="background: #f3f4f6; border-radius: 8px; padding: 20px; margin-bottom: 30px;">
+          <h3 style="color: #1f2937; font-size: 16px; font-weight: 600; margin-bottom: 10px;">🔐 Security Tips</h3>
+          <ul style="color: #6b7280; margin: 0; padding-left: 20px; font-size: 14px;">
+            <li>Use a strong, unique password for your account</li>
+            <li>Never share your password with anyone</li>
+            <li>Enable two-factor authentication if available</li>
+            <li>Change your password regularly</li>
           </ul>
         </div>
 
         <div style="border-top: 1px solid #e5e7eb; padding-top: 20px; text-align: center; color: #9ca3af; font-size: 12px;">
-          <p>If you have any questions or concerns, contact our support team at support@platohiring.com</p>
+          <p>If you didn't reset your password, please contact our support team immediately at support@platohiring.com</p>
           <p style="margin-top: 10px;">© 2024 Plato Hiring. All rights reserved.</p>
         </div>
 
@@ -1026,115 +955,28 @@ The Plato Hiring Team
     `.trim();
   }
 
-  private generatePasswordResetEmailText(data: PasswordResetEmailData): string {
+  private generatePasswordResetSuccessEmailText(data: PasswordResetSuccessEmailData): string {
     return `
-RESET YOUR PASSWORD
+PASSWORD RESET SUCCESSFUL
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 Hi ${data.firstName || 'there'},
 
-We received a request to reset the password for your Plato Hiring account.
-
-RESET LINK:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${data.resetLink}
+Your password for your Plato Hiring account has been successfully reset!
 
-INSTRUCTIONS:
+LOGIN:
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-1. Click the link above or copy and paste it into your browser
-2. Create a new password for your account
-3. Use your new password to log in
+You can now log in to your account with your new password:
+${getAppBaseUrl()}/signin
 
-SECURITY NOTICE:
+SECURITY TIPS:
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-• This link expires in 1 hour for security reasons
-• If you didn't request this reset, please ignore this email
-• Your password will remain unchanged if you don't use the link
-• Never share this link with anyone
+• Use a strong, unique password
+• Never share your password with anyone
+• Enable two-factor authentication if available
+• Change your password regularly
 
-If you have any questions, contact us at support@platohiring.com
-
-Best regards,
-The Plato Hiring Team
-    `.trim();
-  }
-
-  private generatePasswordResetSuccessEmailHTML(data: PasswordResetSuccessEmailData): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Password Reset Successfully</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
-
-        <div style="text-align: center; margin-bottom: 40px;">
-          <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 20px; width: 80px; height: 80px; background: linear-gradient(135deg, #10b981 0%, #059669 100%); border-radius: 50%;">
-            <tr>
-              <td style="text-align: center; vertical-align: middle; font-size: 32px; line-height: 80px;">✅</td>
-            </tr>
-          </table>
-          <h1 style="color: #1f2937; font-size: 28px; font-weight: 700; margin-bottom: 10px;">Password Reset Successfully!</h1>
-          <p style="color: #6b7280; font-size: 16px;">Hi ${data.firstName || 'there'}, your password has been reset</p>
-        </div>
-
-        <div style="background: #f0fdf4; border: 1px solid #bbf7d0; border-radius: 12px; padding: 30px; margin-bottom: 30px;">
-          <h2 style="color: #166534; font-size: 20px; font-weight: 600; margin-bottom: 15px;">✅ Password Reset Complete</h2>
-          <p style="color: #166534; margin-bottom: 20px;">
-            Your password for your Plato Hiring account has been successfully reset. You can now use your new password to log in to your account.
-          </p>
-
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${getAppBaseUrl()}/signin" style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px; display: inline-block;">
-              Log In to Your Account
-            </a>
-          </div>
-        </div>
-
-        <div style="background: #f3f4f6; border-radius: 8px; padding: 20px; margin-bottom: 30px;">
-          <h3 style="color: #1f2937; font-size: 16px; font-weight: 600; margin-bottom: 10px;">🔐 Security Tips</h3>
-          <ul style="color: #6b7280; margin: 0; padding-left: 20px; font-size: 14px;">
-            <li>Use a strong, unique password for your account</li>
-            <li>Never share your password with anyone</li>
-            <li>Enable two-factor authentication if available</li>
-            <li>Change your password regularly</li>
-          </ul>
-        </div>
-
-        <div style="border-top: 1px solid #e5e7eb; padding-top: 20px; text-align: center; color: #9ca3af; font-size: 12px;">
-          <p>If you didn't reset your password, please contact our support team immediately at support@platohiring.com</p>
-          <p style="margin-top: 10px;">© 2024 Plato Hiring. All rights reserved.</p>
-        </div>
-
-      </body>
-      </html>
-    `.trim();
-  }
-
-  private generatePasswordResetSuccessEmailText(data: PasswordResetSuccessEmailData): string {
-    return `
-PASSWORD RESET SUCCESSFUL
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-Hi ${data.firstName || 'there'},
-
-Your password for your Plato Hiring account has been successfully reset!
-
-LOGIN:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-You can now log in to your account with your new password:
-${getAppBaseUrl()}/signin
-
-SECURITY TIPS:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-• Use a strong, unique password
-• Never share your password with anyone
-• Enable two-factor authentication if available
-• Change your password regularly
-
-If you didn't reset your password, please contact us immediately at support@platohiring.com
+If you didn't reset your password, please contact us immediately at support@platohiring.com
 
 Best regards,
 The Plato Hiring Team
@@ -1142,598 +984,56 @@ The Plato Hiring Team
   }
 
   async sendApplicantAcceptanceEmail(data: ApplicantStatusEmailData): Promise<boolean> {
-    try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping applicant acceptance email: SendGrid not configured');
-        return false;
-      }
-      const emailHTML = this.generateApplicantAcceptanceEmailHTML(data);
-      const emailText = this.generateApplicantAcceptanceEmailText(data);
-
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-      await this.mailService.send({
-        to: data.applicantEmail,
-        from: { email: fromEmail, name: fromName },
-        subject: `🎉 Congratulations! Your Application for ${data.jobTitle} at ${data.companyName}`,
-        text: emailText,
-        html: emailHTML,
-      });
-
-      console.log(`✅ Applicant acceptance email sent successfully to ${data.applicantEmail}`);
-      return true;
-    } catch (error) {
-      console.error('❌ SendGrid applicant acceptance email error:', error);
-      return false;
-    }
+    return this.sendApplicantStatusEmail('application_accepted', data);
   }
 
   async sendApplicantRejectionEmail(data: ApplicantStatusEmailData): Promise<boolean> {
-    try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping applicant rejection email: SendGrid not configured');
-        return false;
-      }
-      const emailHTML = this.generateApplicantRejectionEmailHTML(data);
-      const emailText = this.generateApplicantRejectionEmailText(data);
-
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-      await this.mailService.send({
-        to: data.applicantEmail,
-        from: { email: fromEmail, name: fromName },
-        subject: `Update on Your Application for ${data.jobTitle} at ${data.companyName}`,
-        text: emailText,
-        html: emailHTML,
-      });
-
-      console.log(`✅ Applicant rejection email sent successfully to ${data.applicantEmail}`);
-      return true;
-    } catch (error) {
-      console.error('❌ SendGrid applicant rejection email error:', error);
-      return false;
-    }
+    return this.sendApplicantStatusEmail('application_rejected', data);
   }
 
   async sendApplicantShortlistEmail(data: ApplicantStatusEmailData): Promise<boolean> {
+    return this.sendApplicantStatusEmail('application_shortlisted', data);
+  }
+
+  private async sendApplicantStatusEmail(
+    type: 'application_accepted' | 'application_rejected' | 'application_shortlisted',
+    data: ApplicantStatusEmailData
+  ): Promise<boolean> {
+    const label = type.replace('application_', 'applicant ');
     try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping applicant shortlist email: SendGrid not configured');
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn(`📧 Skipping ${label} email: no email transport configured`);
         return false;
       }
-      const emailHTML = this.generateApplicantShortlistEmailHTML(data);
-      const emailText = this.generateApplicantShortlistEmailText(data);
+      const context = await emailTemplateService.contextFor(data.organizationId);
+      const email = await emailTemplateService.render(type, context, {
+        candidate_name: data.applicantName,
+        job_title: data.jobTitle,
+        company_name: data.companyName,
+        applied_date: data.appliedDate,
+        skills: data.skills?.join(', '),
+        match_score: data.matchScore ? `${data.matchScore}%` : '',
+      });
 
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-      await this.mailService.send({
+      await transport.send({
         to: data.applicantEmail,
-        from: { email: fromEmail, name: fromName },
-        subject: `📋 Great News! You've been Shortlisted for ${data.jobTitle} at ${data.companyName}`,
-        text: emailText,
-        html: emailHTML,
+        from: this.sender(),
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
       });
 
-      console.log(`✅ Applicant shortlist email sent successfully to ${data.applicantEmail}`);
+      console.log(`✅ ${label[0].toUpperCase()}${label.slice(1)} email sent successfully to ${data.applicantEmail}`);
       return true;
     } catch (error) {
-      console.error('❌ SendGrid applicant shortlist email error:', error);
+      console.error(`❌ ${label[0].toUpperCase()}${label.slice(1)} email error:`, error);
       return false;
     }
   }
 
-  private generateApplicantAcceptanceEmailHTML(data: ApplicantStatusEmailData): string {
-    const skillsSection = data.skills && data.skills.length > 0 ? `
-      <div style="margin: 20px 0;">
-        <h4 style="color: #374151; margin: 0 0 8px 0; font-size: 14px;">Your Key Skills That Impressed Us:</h4>
-        <div style="display: flex; flex-wrap: wrap; gap: 8px;">
-          ${data.skills.map(skill => `<span style="background: linear-gradient(135deg, #dbeafe 0%, #bfdbfe 100%); color: #1e40af; padding: 4px 12px; border-radius: 16px; font-size: 12px; font-weight: 500;">${skill}</span>`).join('')}
-        </div>
-      </div>
-    ` : '';
-
-    const matchScoreSection = data.matchScore ? `
-      <div style="margin: 20px 0; padding: 16px; background: linear-gradient(135deg, #ecfdf5 0%, #d1fae5 100%); border-radius: 8px; border: 2px solid #10b981;">
-        <h4 style="color: #065f46; margin: 0 0 8px 0; font-size: 14px;">AI Match Score: ${data.matchScore}%</h4>
-        <p style="color: #065f46; margin: 0; font-size: 13px;">Our AI analysis found strong alignment between your profile and this role's requirements.</p>
-      </div>
-    ` : '';
-
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Application Accepted</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
-
-        <div style="text-align: center; margin-bottom: 40px;">
-          <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 20px; width: 80px; height: 80px; background: linear-gradient(135deg, #10b981 0%, #059669 100%); border-radius: 50%;">
-            <tr>
-              <td style="text-align: center; vertical-align: middle; font-size: 32px; line-height: 80px;">🎉</td>
-            </tr>
-          </table>
-          <h1 style="color: #059669; margin: 0; font-size: 28px;">Congratulations!</h1>
-          <p style="color: #6b7280; margin: 8px 0 0 0; font-size: 16px;">Your application has been accepted</p>
-        </div>
-
-        <div style="background-color: white; border: 1px solid #e5e7eb; border-radius: 12px; padding: 32px; margin-bottom: 24px;">
-
-          <div style="text-align: center; margin-bottom: 32px;">
-            <h2 style="color: #1f2937; margin: 0; font-size: 24px;">Dear ${data.applicantName},</h2>
-            <p style="color: #6b7280; margin: 8px 0 0 0;">
-              We are thrilled to offer you the <strong style="color: #059669;">${data.jobTitle}</strong> position at <strong style="color: #059669;">${data.companyName}</strong>!
-            </p>
-          </div>
-
-          <div style="margin: 24px 0; padding: 20px; background: linear-gradient(135deg, #ecfdf5 0%, #d1fae5 100%); border-radius: 12px; border: 2px solid #10b981;">
-            <h3 style="color: #065f46; margin: 0 0 12px 0;">🌟 Welcome to the Team!</h3>
-            <p style="color: #065f46; margin: 0; line-height: 1.6;">
-              After careful review of your application, we were impressed with your qualifications and experience. We believe you'll be a valuable addition to our team and are excited to have you join us.
-            </p>
-          </div>
-
-          ${skillsSection}
-          ${matchScoreSection}
-
-          <div style="display: grid; gap: 16px; margin: 24px 0;">
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">💼</span>
-              <div>
-                <strong style="color: #374151;">Position:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.jobTitle}</span>
-              </div>
-            </div>
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">🏢</span>
-              <div>
-                <strong style="color: #374151;">Company:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.companyName}</span>
-              </div>
-            </div>
-            <div style="display: flex; align-items: center; padding: 12px 0;">
-              <span style="margin-right: 12px; font-size: 18px;">📅</span>
-              <div>
-                <strong style="color: #374151;">Applied:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.appliedDate || 'Recently'}</span>
-              </div>
-            </div>
-          </div>
-
-          <div style="text-align: center; margin: 32px 0;">
-            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 32px; border-radius: 12px;">
-              <h3 style="color: white; margin: 0 0 16px 0; font-size: 20px;">🚀 What's Next?</h3>
-              <p style="color: #d1fae5; margin: 0 0 24px 0; font-size: 16px;">
-                Our HR team will contact you shortly with the formal offer letter and next steps for onboarding.
-              </p>
-              <p style="color: #d1fae5; margin: 0; font-size: 14px;">
-                Please keep an eye on your email for important follow-up communications.
-              </p>
-            </div>
-          </div>
-
-          <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #f3f4f6;">
-            <p style="color: #6b7280; margin: 0; font-size: 14px; line-height: 1.6;">
-              If you have any questions or need to discuss anything, please don't hesitate to reach out to us. We're here to support your transition and help you get started.
-            </p>
-          </div>
-
-        </div>
-
-        <div style="text-align: center; color: #9ca3af; font-size: 14px;">
-          <p style="margin: 0;">
-            Congratulations again, and welcome aboard!<br>
-            The ${data.companyName} Hiring Team
-          </p>
-        </div>
-
-      </body>
-      </html>
-    `;
-  }
-
-  private generateApplicantAcceptanceEmailText(data: ApplicantStatusEmailData): string {
-    return `
-🎉 CONGRATULATIONS! YOUR APPLICATION HAS BEEN ACCEPTED
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-Dear ${data.applicantName},
-
-We are thrilled to offer you the ${data.jobTitle} position at ${data.companyName}!
-
-After careful review of your application, we were impressed with your qualifications and experience. We believe you'll be a valuable addition to our team and are excited to have you join us.
-
-${data.matchScore ? `🎯 AI Match Score: ${data.matchScore}%
-Our AI analysis found strong alignment between your profile and this role's requirements.` : ''}
-
-${data.skills && data.skills.length > 0 ? `🔑 Your Key Skills That Impressed Us:
-${data.skills.join(', ')}` : ''}
-
-JOB DETAILS:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-💼 Position: ${data.jobTitle}
-🏢 Company: ${data.companyName}
-📅 Applied: ${data.appliedDate || 'Recently'}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🚀 WHAT'S NEXT?
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-Our HR team will contact you shortly with the formal offer letter and next steps for onboarding.
-
-Please keep an eye on your email for important follow-up communications.
-
-If you have any questions or need to discuss anything, please don't hesitate to reach out to us.
-
-Congratulations again, and welcome aboard!
-
-${data.companyName} Hiring Team
-    `.trim();
-  }
-
-  private generateApplicantRejectionEmailHTML(data: ApplicantStatusEmailData): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Application Update</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
-
-        <div style="text-align: center; margin-bottom: 40px;">
-          <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 20px; width: 80px; height: 80px; background: linear-gradient(135deg, #6b7280 0%, #4b5563 100%); border-radius: 50%;">
-            <tr>
-              <td style="text-align: center; vertical-align: middle; font-size: 32px; line-height: 80px;">📧</td>
-            </tr>
-          </table>
-          <h1 style="color: #4b5563; margin: 0; font-size: 28px;">Application Update</h1>
-          <p style="color: #6b7280; margin: 8px 0 0 0; font-size: 16px;">Thank you for your interest</p>
-        </div>
-
-        <div style="background-color: white; border: 1px solid #e5e7eb; border-radius: 12px; padding: 32px; margin-bottom: 24px;">
-
-          <div style="text-align: center; margin-bottom: 32px;">
-            <h2 style="color: #1f2937; margin: 0; font-size: 24px;">Dear ${data.applicantName},</h2>
-            <p style="color: #6b7280; margin: 8px 0 0 0;">
-              Thank you for your interest in the <strong style="color: #4b5563;">${data.jobTitle}</strong> position at <strong style="color: #4b5563;">${data.companyName}</strong>.
-            </p>
-          </div>
-
-          <div style="margin: 24px 0; padding: 20px; background: linear-gradient(135deg, #f9fafb 0%, #f3f4f6 100%); border-radius: 12px; border: 2px solid #d1d5db;">
-            <h3 style="color: #4b5563; margin: 0 0 12px 0;">📝 Application Status Update</h3>
-            <p style="color: #4b5563; margin: 0; line-height: 1.6;">
-              After careful consideration of your application and qualifications, we have decided to move forward with other candidates whose experience more closely aligns with the specific requirements of this role.
-            </p>
-          </div>
-
-          <div style="margin: 24px 0; padding: 20px; background: linear-gradient(135deg, #fef3c7 0%, #fde68a 100%); border-radius: 12px; border: 2px solid #f59e0b;">
-            <h3 style="color: #92400e; margin: 0 0 12px 0;">💡 Keep in Touch</h3>
-            <p style="color: #92400e; margin: 0; line-height: 1.6;">
-              We were impressed with your background and encourage you to apply for future positions that match your skills and experience. We'll keep your resume on file for future opportunities.
-            </p>
-          </div>
-
-          <div style="display: grid; gap: 16px; margin: 24px 0;">
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">💼</span>
-              <div>
-                <strong style="color: #374151;">Position Applied:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.jobTitle}</span>
-              </div>
-            </div>
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">🏢</span>
-              <div>
-                <strong style="color: #374151;">Company:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.companyName}</span>
-              </div>
-            </div>
-            <div style="display: flex; align-items: center; padding: 12px 0;">
-              <span style="margin-right: 12px; font-size: 18px;">📅</span>
-              <div>
-                <strong style="color: #374151;">Applied:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.appliedDate || 'Recently'}</span>
-              </div>
-            </div>
-          </div>
-
-          <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #f3f4f6;">
-            <h3 style="color: #374151; margin: 0 0 12px 0;">🌟 Best Wishes for Your Job Search</h3>
-            <p style="color: #6b7280; margin: 0; font-size: 14px; line-height: 1.6;">
-              We appreciate the time and effort you invested in your application and wish you the very best in your job search. We hope you find a great opportunity that matches your talents and career goals.
-            </p>
-          </div>
-
-        </div>
-
-        <div style="text-align: center; color: #9ca3af; font-size: 14px;">
-          <p style="margin: 0;">
-            Best regards,<br>
-            The ${data.companyName} Hiring Team
-          </p>
-        </div>
-
-      </body>
-      </html>
-    `;
-  }
-
-  private generateApplicantRejectionEmailText(data: ApplicantStatusEmailData): string {
-    return `
-📧 APPLICATION UPDATE
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-Dear ${data.applicantName},
-
-Thank you for your interest in the ${data.jobTitle} position at ${data.companyName}.
-
-APPLICATION STATUS:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-After careful consideration of your application and qualifications, we have decided to move forward with other candidates whose experience more closely aligns with the specific requirements of this role.
-
-💡 KEEP IN TOUCH:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-We were impressed with your background and encourage you to apply for future positions that match your skills and experience. We'll keep your resume on file for future opportunities.
-
-JOB DETAILS:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-💼 Position Applied: ${data.jobTitle}
-🏢 Company: ${data.companyName}
-📅 Applied: ${data.appliedDate || 'Recently'}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🌟 BEST WISHES FOR YOUR JOB SEARCH
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-We appreciate the time and effort you invested in your application and wish you the very best in your job search. We hope you find a great opportunity that matches your talents and career goals.
-
-Best regards,
-${data.companyName} Hiring Team
-    `.trim();
-  }
-
-  private generateApplicantShortlistEmailHTML(data: ApplicantStatusEmailData): string {
-    const skillsSection = data.skills && data.skills.length > 0 ? `
-      <div style="margin: 20px 0;">
-        <h4 style="color: #374151; margin: 0 0 8px 0; font-size: 14px;">Your Relevant Skills:</h4>
-        <div style="display: flex; flex-wrap: wrap; gap: 8px;">
-          ${data.skills.map(skill => `<span style="background: linear-gradient(135deg, #dbeafe 0%, #bfdbfe 100%); color: #1e40af; padding: 4px 12px; border-radius: 16px; font-size: 12px; font-weight: 500;">${skill}</span>`).join('')}
-        </div>
-      </div>
-    ` : '';
-
-    const matchScoreSection = data.matchScore ? `
-      <div style="margin: 20px 0; padding: 16px; background: linear-gradient(135deg, #f0f9ff 0%, #e0f2fe 100%); border-radius: 8px; border: 2px solid #3b82f6;">
-        <h4 style="color: #1e40af; margin: 0 0 8px 0; font-size: 14px;">AI Match Score: ${data.matchScore}%</h4>
-        <p style="color: #1e40af; margin: 0; font-size: 13px;">Our AI analysis identified strong alignment between your profile and this role.</p>
-      </div>
-    ` : '';
-
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>You've Been Shortlisted</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
-
-        <div style="text-align: center; margin-bottom: 40px;">
-          <table cellpadding="0" cellspacing="0" border="0" style="margin: 0 auto 20px; width: 80px; height: 80px; background: linear-gradient(135deg, #2563eb 0%, #3b82f6 100%); border-radius: 50%;">
-            <tr>
-              <td style="text-align: center; vertical-align: middle; font-size: 32px; line-height: 80px;">📋</td>
-            </tr>
-          </table>
-          <h1 style="color: #2563eb; margin: 0; font-size: 28px;">You've Been Shortlisted!</h1>
-          <p style="color: #6b7280; margin: 8px 0 0 0; font-size: 16px;">Great news about your application</p>
-        </div>
-
-        <div style="background-color: white; border: 1px solid #e5e7eb; border-radius: 12px; padding: 32px; margin-bottom: 24px;">
-
-          <div style="text-align: center; margin-bottom: 32px;">
-            <h2 style="color: #1f2937; margin: 0; font-size: 24px;">Dear ${data.applicantName},</h2>
-            <p style="color: #6b7280; margin: 8px 0 0 0;">
-              Great news! You've been shortlisted for the <strong style="color: #2563eb;">${data.jobTitle}</strong> position at <strong style="color: #2563eb;">${data.companyName}</strong>!
-            </p>
-          </div>
-
-          <div style="margin: 24px 0; padding: 20px; background: linear-gradient(135deg, #f0f9ff 0%, #e0f2fe 100%); border-radius: 12px; border: 2px solid #2563eb;">
-            <h3 style="color: #1e40af; margin: 0 0 12px 0;">🌟 Congratulations on Making the Shortlist!</h3>
-            <p style="color: #1e40af; margin: 0; line-height: 1.6;">
-              After reviewing your application, our team was impressed with your qualifications and experience. You've been selected as one of our top candidates and we'd like to move forward with the next steps in the hiring process.
-            </p>
-          </div>
-
-          ${skillsSection}
-          ${matchScoreSection}
-
-          <div style="display: grid; gap: 16px; margin: 24px 0;">
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">💼</span>
-              <div>
-                <strong style="color: #374151;">Position:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.jobTitle}</span>
-              </div>
-            </div>
-            <div style="display: flex; align-items: center; padding: 12px 0; border-bottom: 1px solid #f3f4f6;">
-              <span style="margin-right: 12px; font-size: 18px;">🏢</span>
-              <div>
-                <strong style="color: #374151;">Company:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.companyName}</span>
-              </div>
-            </div>
-            <div style="display: flex; align-items: center; padding: 12px 0;">
-              <span style="margin-right: 12px; font-size: 18px;">📅</span>
-              <div>
-                <strong style="color: #374151;">Applied:</strong>
-                <span style="color: #6b7280; margin-left: 8px;">${data.appliedDate || 'Recently'}</span>
-              </div>
-            </div>
-          </div>
-
-          <div style="text-align: center; margin: 32px 0;">
-            <div style="background: linear-gradient(135deg, #2563eb 0%, #3b82f6 100%); padding: 32px; border-radius: 12px;">
-              <h3 style="color: white; margin: 0 0 16px 0; font-size: 20px;">🚀 What's Next?</h3>
-              <p style="color: #dbeafe; margin: 0 0 24px 0; font-size: 16px;">
-                Our hiring team will review the shortlisted candidates and contact you within 3-5 business days to schedule an interview or discuss the next steps.
-              </p>
-              <div style="background: rgba(255,255,255,0.2); border-radius: 8px; padding: 16px;">
-                <p style="color: white; margin: 0; font-size: 14px;">
-                  <strong>💡 Tip:</strong> Keep an eye on your email for interview invitations and be prepared to discuss your experience and how it relates to this role.
-                </p>
-              </div>
-            </div>
-          </div>
-
-          <div style="margin-top: 32px; padding-top: 24px; border-top: 1px solid #f3f4f6;">
-            <p style="color: #6b7280; margin: 0; font-size: 14px; line-height: 1.6;">
-              We're excited about the possibility of working with you! If you have any questions in the meantime, please don't hesitate to reach out.
-            </p>
-          </div>
-
-        </div>
-
-        <div style="text-align: center; color: #9ca3af; font-size: 14px;">
-          <p style="margin: 0;">
-            Best regards,<br>
-            The ${data.companyName} Hiring Team
-          </p>
-        </div>
-
-      </body>
-      </html>
-    `;
-  }
-
-  private generateApplicantShortlistEmailText(data: ApplicantStatusEmailData): string {
-    return `
-📋 YOU'VE BEEN SHORTLISTED!
-
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-Dear ${data.applicantName},
-
-Great news! You've been shortlisted for the ${data.jobTitle} position at ${data.companyName}!
-
-🌟 CONGRATULATIONS ON MAKING THE SHORTLIST!
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-After reviewing your application, our team was impressed with your qualifications and experience. You've been selected as one of our top candidates and we'd like to move forward with the next steps in the hiring process.
-
-${data.matchScore ? `🎯 AI Match Score: ${data.matchScore}%
-Our AI analysis identified strong alignment between your profile and this role.` : ''}
-
-${data.skills && data.skills.length > 0 ? `🔑 Your Relevant Skills:
-${data.skills.join(', ')}` : ''}
-
-JOB DETAILS:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-💼 Position: ${data.jobTitle}
-🏢 Company: ${data.companyName}
-📅 Applied: ${data.appliedDate || 'Recently'}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-🚀 WHAT'S NEXT?
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-Our hiring team will review the shortlisted candidates and contact you within 3-5 business days to schedule an interview or discuss the next steps.
-
-💡 TIP: Keep an eye on your email for interview invitations and be prepared to discuss your experience and how it relates to this role.
-
-We're excited about the possibility of working with you! If you have any questions in the meantime, please don't hesitate to reach out.
-
-Best regards,
-${data.companyName} Hiring Team
-    `.trim();
-  }
-
-  /**
-   * Convert plain text offer letter to professional HTML email
-   */
-  private convertTextOfferToHTML(text: string, companyName: string, jobTitle: string): string {
-    // Split text into lines and process
-    const lines = text.split('\n');
-
-    // Convert plain text to HTML with formatting
-    let htmlBody = '';
-    let inSection = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmedLine = line.trim();
-
-      // Skip empty lines (we'll add spacing manually)
-      if (!trimmedLine) {
-        htmlBody += '<div style="margin: 12px 0;"></div>';
-        continue;
-      }
-
-      // Detect section headers (all caps or contains dashes)
-      if (trimmedLine.match(/^[A-Z\s:━]+$/) || trimmedLine.includes('━━━')) {
-        if (trimmedLine.includes('━━━')) {
-          // Separator line
-          htmlBody += '<div style="border-top: 2px solid #e5e7eb; margin: 20px 0;"></div>';
-        } else {
-          // Section header
-          htmlBody += `<h3 style="color: #2563eb; margin: 24px 0 12px 0; font-size: 16px; font-weight: 600;">${trimmedLine}</h3>`;
-        }
-        inSection = true;
-        continue;
-      }
-
-      // Detect bullet points
-      if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-')) {
-        const bulletText = trimmedLine.substring(1).trim();
-        htmlBody += `<div style="margin: 8px 0; padding-left: 20px;"><span style="color: #2563eb; margin-right: 8px;">•</span>${bulletText}</div>`;
-        continue;
-      }
-
-      // Detect key-value pairs (e.g., "Role: Software Engineer")
-      if (trimmedLine.includes(':') && trimmedLine.split(':')[0].length < 30) {
-        const [key, ...valueParts] = trimmedLine.split(':');
-        const value = valueParts.join(':').trim();
-        htmlBody += `<div style="margin: 10px 0;"><strong style="color: #374151;">${key}:</strong> <span style="color: #6b7280;">${value}</span></div>`;
-        continue;
-      }
-
-      // Regular paragraph
-      htmlBody += `<p style="color: #4b5563; line-height: 1.6; margin: 12px 0;">${trimmedLine}</p>`;
-    }
-
-    // Wrap in professional email template
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Job Offer - ${jobTitle}</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; max-width: 700px; margin: 0 auto; padding: 20px; background-color: #f9fafb;">
-
-        <div style="text-align: center; margin-bottom: 40px;">
-          <div style="display: inline-block; width: 80px; height: 80px; background: linear-gradient(135deg, #2563eb 0%, #1e40af 100%); border-radius: 50%; margin: 0 auto 20px; line-height: 80px; font-size: 36px;">
-            🎉
-          </div>
-          <h1 style="color: #1e40af; margin: 0; font-size: 32px; font-weight: 700;">Job Offer</h1>
-          <p style="color: #6b7280; margin: 8px 0 0 0; font-size: 18px;">We're excited to offer you this opportunity!</p>
-        </div>
-
-        <div style="background: white; border: 2px solid #e5e7eb; border-radius: 12px; padding: 32px; margin-bottom: 24px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
-          ${htmlBody}
-        </div>
-
-        <div style="text-align: center; margin-top: 32px; color: #9ca3af; font-size: 13px;">
-          <p style="margin: 0;">This offer letter was sent from ${companyName}</p>
-          <p style="margin: 8px 0 0 0;">© ${new Date().getFullYear()} ${companyName}. All rights reserved.</p>
-        </div>
-
-      </body>
-      </html>
-    `;
+  private formatOfferDeadline(expiresAt: Date, locale: EmailLocale = 'en'): string {
+    return expiresAt.toLocaleString(locale === 'ar' ? 'ar-EG' : 'en-US', { weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: 'UTC', timeZoneName: 'short' });
   }
 
   /**
@@ -1741,29 +1041,27 @@ ${data.companyName} Hiring Team
    */
   async sendOfferLetterEmail(data: OfferLetterEmailData): Promise<boolean> {
     try {
-      if (!this.mailService) {
-        console.warn('📧 Skipping offer letter email: SendGrid not configured');
+      const transport = await emailTransportService.current();
+      if (!transport) {
+        console.warn('📧 Skipping offer letter email: no email transport configured');
         return false;
       }
+      const context = await emailTemplateService.contextFor(data.organizationId);
+      const email = await emailTemplateService.render('offer_letter', context, {
+        candidate_name: data.recipientName,
+        job_title: data.jobTitle,
+        company_name: data.companyName,
+        offer_content: data.offerContentText,
+        response_url: data.responseUrl,
+        response_deadline: data.responseUrl && data.expiresAt ? this.formatOfferDeadline(data.expiresAt, context.locale) : '',
+      });
 
-      const subject = `🎉 Job Offer: ${data.jobTitle} at ${data.companyName}`;
-
-      // Convert plain text to HTML
-      const htmlContent = this.convertTextOfferToHTML(
-        data.offerContentText,
-        data.companyName,
-        data.jobTitle
-      );
-
-      const fromEmail = (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim();
-      const fromName = (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim();
-
-      await this.mailService.send({
+      await transport.send({
         to: data.recipientEmail,
-        from: { email: fromEmail, name: fromName },
-        subject: subject,
-        text: data.offerContentText, // Plain text version
-        html: htmlContent,           // HTML version
+        from: this.sender(),
+        subject: data.subject || email.subject,
+        text: email.text,
+        html: email.html,
       });
 
       console.log(`✅ Offer letter email sent to ${data.recipientEmail} for ${data.jobTitle}`);
@@ -1776,4 +1074,4 @@ ${data.companyName} Hiring Team
 }
 
 export const emailService = new EmailService();
-export { InterviewEmailData, VerificationEmailData, VerificationSuccessEmailData, PasswordResetEmailData, PasswordResetSuccessEmailData, ApplicantStatusEmailData, OfferLetterEmailData };
\ No newline at end of file
+export { InterviewEmailData, InterviewCancelledEmailData, InterviewBookingLinkEmailData, InterviewChangeNotificationData, JobApprovalNotificationData, VerificationEmailData, VerificationSuccessEmailData, PasswordResetEmailData, PasswordResetSuccessEmailData, ApplicantStatusEmailData, OfferLetterEmailData, OfferApprovalNotificationData, OfferResponseNotificationData, OfferReminderEmailData };
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { resumeProcessingQueue, emailQueue, candidateMatchingQueue, voiceCallQueue } from './queues';
+import { resumeProcessingQueue, emailQueue, candidateMatchingQueue, voiceCallQueue, interviewReminderQueue, maintenanceQueue } from './queues';
 import { InterviewEmailData } from './emailService';
 
 // Resume processing job producer
@@ -165,6 +165,55 @@ export const addSingleResumeProcessingJob = async (data: {
   });
 };
 
+// Re-score the newest version of a resume profile against jobs it was already scored for.
+// Delayed so queue jobs from the same upload (which score their own target job) finish first.
+// Paid scoring calls only run when the organization has opted into automatic re-scoring.
+export const addProfileRescoreJob = async (data: {
+  profileId: string;
+  versionNumber: number;
+  organizationId: string;
+  userId: string;
+  jobIds: number[];
+}) => {
+  return await resumeProcessingQueue.add('rescore-profile-version', data, {
+    priority: 12,
+    delay: 60000,
+    jobId: `rescore-${data.profileId}-v${data.versionNumber}`,
+    attempts: 2,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+  });
+};
+
+// Full AI scoring of a candidate a recruiter let through despite failing the job's knockout rules
+export const addKnockoutOverrideScoringJob = async (data: {
+  profileId: string;
+  versionNumber: number;
+  organizationId: string;
+  userId: string;
+  jobId: number;
+}) => {
+  return await resumeProcessingQueue.add('rescore-profile-version', {
+    profileId: data.profileId,
+    versionNumber: data.versionNumber,
+    organizationId: data.organizationId,
+    userId: data.userId,
+    jobIds: [data.jobId],
+    force: true,
+    userInitiated: true,
+  }, {
+    priority: 5,
+    jobId: `knockout-override-${data.profileId}-${data.jobId}-${Date.now()}`,
+    attempts: 2,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+  });
+};
+
 // Interview reminder email job producer
 // Schedules a reminder email with a unique jobId for potential cancellation
 export const scheduleInterviewReminderJob = async (
@@ -187,6 +236,24 @@ export const scheduleInterviewReminderJob = async (
   });
 };
 
+// Reminder email ahead of a scheduled interview. Keyed by the interview's icsSequence so the
+// worker can skip reminders for a time the interview has since moved from.
+export const scheduleUpcomingInterviewReminderJob = async (
+  data: {
+    interviewId: string;
+    reminderType: '1h' | '24h';
+    icsSequence: number;
+  },
+  delay: number
+) => {
+  const jobId = `interview-reminder-${data.reminderType}-${data.interviewId}-${data.icsSequence}`;
+  return await emailQueue.add('send-upcoming-interview-reminder', data, {
+    delay,
+    priority: 3,
+    jobId,
+  });
+};
+
 // Cancel a scheduled reminder job by jobId
 export const cancelScheduledReminderJob = async (jobId: string) => {
   try {
@@ -215,4 +282,70 @@ export const scheduleVoiceCallJob = async (
   delay: number
 ) => {
   return await voiceCallQueue.add('voice-call', data, { delay });
-};
\ No newline at end of file
+};
+
+// One step of an AI interview invitation's reminder sequence, keyed by its invitation_reminders row
+export const scheduleInvitationReminderJob = async (reminderId: number, delay: number) => {
+  return await interviewReminderQueue.add('invitation-reminder', { reminderId }, {
+    delay,
+    jobId: `invitation-reminder-${reminderId}`,
+  });
+};
+
+export const cancelInvitationReminderJob = async (reminderId: number) => {
+  try {
+    const job = await interviewReminderQueue.getJob(`invitation-reminder-${reminderId}`);
+    if (job) {
+      await job.remove();
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error cancelling invitation reminder job ${reminderId}:`, error);
+    return false;
+  }
+};
+
+// Mirror an interview's current state into its participants' connected calendars
+export const addInterviewCalendarSyncJob = async (data: { organizationId: string; interviewId: string }) => {
+  return await maintenanceQueue.add('interview-calendar-sync', data);
+};
+
+// Register recurring maintenance jobs (idempotent - safe to call on every worker start)
+export const scheduleMaintenanceJobs = async () => {
+  const SIX_HOURS_MS = 6 * 60 * 60 * 1000;
+  const FIFTEEN_MINUTES_MS = 15 * 60 * 1000;
+  const FIVE_MINUTES_MS = 5 * 60 * 1000;
+  const ONE_HOUR_MS = 60 * 60 * 1000;
+  return await Promise.all([
+    maintenanceQueue.upsertJobScheduler(
+      'cache-eviction',
+      { every: SIX_HOURS_MS },
+      { name: 'cache-eviction', data: {} }
+    ),
+    // Pull interview moves made in interviewers' external calendars
+    maintenanceQueue.upsertJobScheduler(
+      'calendar-sync',
+      { every: FIFTEEN_MINUTES_MS },
+      { name: 'calendar-sync', data: {} }
+    ),
+    // Publish scheduled jobs and close jobs on their closing date
+    maintenanceQueue.upsertJobScheduler(
+      'job-lifecycle',
+      { every: FIVE_MINUTES_MS },
+      { name: 'job-lifecycle', data: {} }
+    ),
+    // Move AI interview invitations past their job's expiry window to 'expired'
+    maintenanceQueue.upsertJobScheduler(
+      'invitation-expiry',
+      { every: ONE_HOUR_MS },
+      { name: 'invitation-expiry', data: {} }
+    ),
+    // Remind candidates of offer deadlines and expire unanswered offers
+    maintenanceQueue.upsertJobScheduler(
+      'offer-deadlines',
+      { every: ONE_HOUR_MS },
+      { name: 'offer-deadlines', data: {} }
+    ),
+  ]);
+};
@@ -1,6 +1,8 @@
 import { db } from './db';
 import * as schema from '../shared/schema';
-import { eq, and, or, ilike, desc, asc, inArray } from 'drizzle-orm';
+import { eq, and, or, ilike, desc, asc, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import { pipelineService } from './services/pipelineService';
+import { invitationReminderService } from './services/invitationReminderService';
 import {
   AirtableUserProfile,
   InsertAirtableUserProfile,
@@ -60,6 +62,7 @@ export class LocalDatabaseService {
       return await db
         .select()
         .from(schema.airtableUserProfiles)
+        .where(isNull(schema.airtableUserProfiles.mergedInto))
         .orderBy(desc(schema.airtableUserProfiles.createdAt));
     } catch (error) {
       console.error('Error getting all user profiles:', error);
@@ -72,14 +75,15 @@ export class LocalDatabaseService {
       return await db
         .select()
         .from(schema.airtableUserProfiles)
-        .where(
+        .where(and(
+          isNull(schema.airtableUserProfiles.mergedInto),
           or(
             ilike(schema.airtableUserProfiles.name, `%${query}%`),
             ilike(schema.airtableUserProfiles.email, `%${query}%`),
             ilike(schema.airtableUserProfiles.professionalSummary, `%${query}%`),
             ilike(schema.airtableUserProfiles.location, `%${query}%`)
           )
-        )
+        ))
         .orderBy(desc(schema.airtableUserProfiles.createdAt));
     } catch (error) {
       console.error('Error searching user profiles:', error);
@@ -278,17 +282,29 @@ export class LocalDatabaseService {
         }
       }
 
+      // An organization without jobs has no applications
+      if (organizationId && resolvedJobIds && resolvedJobIds.length === 0) {
+        return [];
+      }
+
+      // Conditions are combined in a single where(); chained where() calls replace each other
+      const conditions: SQL[] = [];
       if (jobId) {
         // Convert jobId to string for comparison since jobId in database is varchar
         // Handle both string and number jobId from URL params
-        const jobIdStr = String(jobId);
-        query = query.where(eq(schema.airtableJobApplications.jobId, jobIdStr));
-      } else if (resolvedJobIds && resolvedJobIds.length > 0) {
-        query = query.where(inArray(schema.airtableJobApplications.jobId, resolvedJobIds));
+        conditions.push(eq(schema.airtableJobApplications.jobId, String(jobId)));
+      }
+      if (resolvedJobIds && resolvedJobIds.length > 0) {
+        conditions.push(inArray(schema.airtableJobApplications.jobId, resolvedJobIds));
       }
 
       if (status) {
-        query = query.where(eq(schema.airtableJobApplications.status, status));
+        // Match every spelling older code stored for the status ('Accepted', 'declined', ...)
+        conditions.push(inArray(sql`lower(${schema.airtableJobApplications.status})`, pipelineService.statusAliases(status)));
+      }
+
+      if (conditions.length > 0) {
+        query = query.where(and(...conditions));
       }
 
       query = query.orderBy(desc(schema.airtableJobApplications.applicationDate));
@@ -400,6 +416,9 @@ export class LocalDatabaseService {
         .set({ ...data, updatedAt: new Date() })
         .where(eq(schema.airtableJobMatches.id, id))
         .returning();
+      if (match && data.status && data.status !== 'invited') {
+        await invitationReminderService.cancelForMatch(id, `status_${data.status}`);
+      }
       return match || null;
     } catch (error) {
       console.error('Error updating job match:', error);
@@ -414,6 +433,10 @@ export class LocalDatabaseService {
         .set({ status, updatedAt: new Date() })
         .where(eq(schema.airtableJobMatches.id, id))
         .returning();
+      // Reminders only chase invitations the candidate hasn't acted on
+      if (match && status !== 'invited') {
+        await invitationReminderService.cancelForMatch(id, `status_${status}`);
+      }
       return match || null;
     } catch (error) {
       console.error('Error updating job match status:', error);
@@ -434,6 +457,9 @@ export class LocalDatabaseService {
         })
         .where(eq(schema.airtableJobMatches.id, id))
         .returning();
+      if (match) {
+        await invitationReminderService.cancelForMatch(id, 'status_scheduled');
+      }
       return match || null;
     } catch (error) {
       console.error('Error scheduling interview:', error);
@@ -102,7 +102,7 @@ export class MatchingService {
   // Bulk match all active jobs against candidate database
   async bulkMatchAllJobs(organizationId: number) {
     try {
-      const jobs = await storage.getJobsByOrganization(organizationId);
+      const jobs = (await storage.getJobsByOrganization(organizationId)).filter(job => job.status === 'open');
       const results = [];
 
       for (const job of jobs) {
@@ -67,6 +67,16 @@ export const interviewReminderQueue = new Queue('interview-reminders', {
   },
 });
 
+// Periodic housekeeping jobs (cache eviction, etc.) registered as job schedulers
+export const maintenanceQueue = new Queue('maintenance', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    removeOnComplete: 20,
+    removeOnFail: 20,
+    attempts: 1,
+  },
+});
+
 // Close queues and Redis connection
 export const closeQueues = async () => {
   await Promise.all([
@@ -75,6 +85,7 @@ export const closeQueues = async () => {
     candidateMatchingQueue.close(),
     voiceCallQueue.close(),
     interviewReminderQueue.close(),
+    maintenanceQueue.close(),
   ]);
   await closeRedisConnection();
 };
\ No newline at end of file
@@ -1,7 +1,17 @@
 import OpenAI from "openai";
 import { toFile } from "openai/uploads";
 import { wrapOpenAIRequest } from "./openaiTracker";
-import { cacheService } from "./cacheService";
+import crypto from "crypto";
+import { cacheService, JOB_SCORING_PROMPT_VERSION } from "./cacheService";
+import { textExtractionService } from "./services/textExtractionService";
+import {
+  normalizeExperienceEntries,
+  normalizeEducationEntries,
+  normalizeCertificationEntries,
+  experienceEntriesFromLegacy,
+  computeCareerTimeline,
+} from "./utils/careerTimeline";
+import type { ExperienceEntry, EducationEntry, CertificationEntry, CareerGap, KnockoutResult, ScoringWeights } from "@shared/schema";
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
@@ -24,6 +34,13 @@ export interface ProcessedResume {
   seniorityLevel?: string;
   specializations?: string[];
   fileId?: string;
+  textExtractor?: string;
+  textExtractionConfidence?: number;
+  experienceEntries?: ExperienceEntry[];
+  educationEntries?: EducationEntry[];
+  certificationEntries?: CertificationEntry[];
+  totalTenureMonths?: number | null;
+  careerGaps?: CareerGap[];
 }
 
 export interface JobMatchScore {
@@ -72,6 +89,16 @@ export interface JobMatchScore {
     reason: string;
   }>;
   fullResponse?: any;
+  // Provenance of the scoring run (a cached result keeps the run that originally produced it)
+  scoringRunId?: string;
+  scoringModel?: string;
+  promptVersion?: string;
+  jobSnapshotHash?: string;
+  customRulesHash?: string | null;
+  knockoutResult?: KnockoutResult | null;
+  // Model's overall score when overallScore was recomputed from job scoring weights
+  aiOverallScore?: number;
+  scoringWeights?: ScoringWeights | null;
 }
 
 export class ResumeProcessingService {
@@ -97,114 +124,144 @@ export class ResumeProcessingService {
     }
     throw new Error('Failed to extract valid JSON object from text');
   }
-  private async extractTextFromFile(fileData: string, fileType: string): Promise<{ text: string; fileId?: string }> {
+  private async extractTextFromFile(fileData: string, fileType: string): Promise<{ text: string; fileId?: string; extractor?: string; confidence?: number }> {
     console.log(`🔄 Extracting text from file type: ${fileType}, data length: ${fileData?.length}`);
 
-    // For text files, return the data directly without processing
+    // For text files, the data is already the text (not base64)
     if (fileType === 'text' || fileType === 'text/plain') {
       console.log(`📝 Text file detected - returning content directly`);
-      return { text: fileData };
+      const quality = textExtractionService.measureQuality(fileData);
+      return { text: fileData, extractor: 'plain_text', confidence: quality.confidence };
     }
 
-    // Process any file format using OpenAI Files + Responses API
-    if (fileData) {
-      try {
-        const buffer = Buffer.from(fileData, 'base64');
-
-        // Determine file extension from mime type - support all file types
-        let extension = '';
-        if (fileType === 'application/pdf') extension = '.pdf';
-        else if (fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') extension = '.docx';
-        else if (fileType === 'application/msword') extension = '.doc';
-        else if (fileType === 'text/plain') extension = '.txt';
-        else if (fileType === 'text/csv') extension = '.csv';
-        else if (fileType === 'text/html') extension = '.html';
-        else if (fileType === 'text/rtf' || fileType === 'application/rtf') extension = '.rtf';
-        else if (fileType === 'image/jpeg' || fileType === 'image/jpg') extension = '.jpg';
-        else if (fileType === 'image/png') extension = '.png';
-        else if (fileType === 'image/gif') extension = '.gif';
-        else if (fileType === 'image/tiff') extension = '.tiff';
-        else if (fileType === 'image/bmp') extension = '.bmp';
-        else if (fileType === 'application/vnd.ms-excel') extension = '.xls';
-        else if (fileType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') extension = '.xlsx';
-        else if (fileType === 'application/vnd.ms-powerpoint') extension = '.ppt';
-        else if (fileType === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') extension = '.pptx';
-        else if (fileType.startsWith('image/')) {
-          // Handle any image type
-          extension = '.' + fileType.split('/')[1];
-        }
-        else if (fileType.startsWith('text/')) {
-          // Handle any text type
-          extension = '.' + fileType.split('/')[1];
-        }
-        else if (fileType.startsWith('application/')) {
-          // Handle application types by using a generic .bin extension
-          extension = '.bin';
-        }
-        else extension = '.file'; // fallback for unknown types
+    if (!fileData) {
+      return { text: '' };
+    }
 
-        const inferredName = `resume${extension}`;
+    // Try the local extractor chain first (PDF, DOCX, RTF, HTML, text)
+    const buffer = Buffer.from(fileData, 'base64');
+    const local = await textExtractionService.extractLocally(buffer, fileType);
+    if (local && textExtractionService.isAcceptable(local)) {
+      console.log(`✅ Local ${local.extractor} extraction accepted (confidence: ${local.confidence}, length: ${local.charCount})`);
+      return { text: local.text, extractor: local.extractor, confidence: local.confidence };
+    }
 
-        console.log(`📤 Uploading file to OpenAI Files API for text extraction...`);
-        const uploaded = await openai.files.create({
-          file: await toFile(buffer, inferredName),
-          purpose: 'assistants'
-        });
+    // Escalate to the model for images (OCR), unsupported formats or low-quality local text
+    const reason = !local ? 'no local extractor' : `low confidence ${local.confidence}`;
+    console.log(`🔁 Escalating text extraction to model (${reason})`);
+    try {
+      const modelResult = await this.extractTextWithModel(buffer, fileType);
+      const quality = textExtractionService.measureQuality(modelResult.text);
+      return {
+        ...modelResult,
+        extractor: fileType.startsWith('image/') ? 'openai_ocr' : 'openai_files',
+        confidence: quality.confidence,
+      };
+    } catch (error) {
+      // Prefer imperfect local text over failing the whole upload
+      if (local && local.charCount > 0) {
+        console.warn(`⚠️ Model extraction failed, falling back to local ${local.extractor} text (confidence: ${local.confidence})`);
+        return { text: local.text, extractor: local.extractor, confidence: local.confidence };
+      }
+      throw error;
+    }
+  }
 
-        console.log(`🔎 Requesting text extraction via Responses API for file ${uploaded.id} (${inferredName})`);
-        const response: any = await (openai as any).responses.create({
-          model: process.env.OPENAI_MODEL_TEXT_EXTRACTION || 'gpt-5',
-          input: [
-            {
-              role: 'user',
-              content: [
-                { type: 'input_text', text: 'Extract all readable text from the attached resume file and return plain text only. Preserve natural reading order; omit images and formatting artifacts.' },
-                { type: 'input_file', file_id: uploaded.id }
-              ]
-            }
-          ],
-          max_output_tokens: 4000
-        });
-
-        // Best-effort extraction of text from Responses API
-        const extractedText = response?.output_text
-          || response?.output?.flatMap((o: any) => o?.content || [])
-              .map((c: any) => c?.text?.value || '')
-              .join('\n')
-          || '';
-
-        if (!extractedText || extractedText.trim().length < 50) {
-          throw new Error('Insufficient text extracted from file');
-        }
+  private async extractTextWithModel(buffer: Buffer, fileType: string): Promise<{ text: string; fileId?: string }> {
+    // Process any file format using OpenAI Files + Responses API
+    try {
+      // Determine file extension from mime type - support all file types
+      let extension = '';
+      if (fileType === 'application/pdf') extension = '.pdf';
+      else if (fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') extension = '.docx';
+      else if (fileType === 'application/msword') extension = '.doc';
+      else if (fileType === 'text/plain') extension = '.txt';
+      else if (fileType === 'text/csv') extension = '.csv';
+      else if (fileType === 'text/html') extension = '.html';
+      else if (fileType === 'text/rtf' || fileType === 'application/rtf') extension = '.rtf';
+      else if (fileType === 'image/jpeg' || fileType === 'image/jpg') extension = '.jpg';
+      else if (fileType === 'image/png') extension = '.png';
+      else if (fileType === 'image/gif') extension = '.gif';
+      else if (fileType === 'image/tiff') extension = '.tiff';
+      else if (fileType === 'image/bmp') extension = '.bmp';
+      else if (fileType === 'application/vnd.ms-excel') extension = '.xls';
+      else if (fileType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') extension = '.xlsx';
+      else if (fileType === 'application/vnd.ms-powerpoint') extension = '.ppt';
+      else if (fileType === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') extension = '.pptx';
+      else if (fileType.startsWith('image/')) {
+        // Handle any image type
+        extension = '.' + fileType.split('/')[1];
+      }
+      else if (fileType.startsWith('text/')) {
+        // Handle any text type
+        extension = '.' + fileType.split('/')[1];
+      }
+      else if (fileType.startsWith('application/')) {
+        // Handle application types by using a generic .bin extension
+        extension = '.bin';
+      }
+      else extension = '.file'; // fallback for unknown types
 
-        console.log(`✅ File text extraction successful. Length: ${extractedText.length}`);
-        return { text: extractedText, fileId: uploaded.id };
-      } catch (error) {
-        console.error('File-to-text extraction failed via Files API:', error);
-        throw new Error(`Unable to extract text from file using OpenAI Files API: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const inferredName = `resume${extension}`;
+
+      console.log(`📤 Uploading file to OpenAI Files API for text extraction...`);
+      const uploaded = await openai.files.create({
+        file: await toFile(buffer, inferredName),
+        purpose: 'assistants'
+      });
+
+      console.log(`🔎 Requesting text extraction via Responses API for file ${uploaded.id} (${inferredName})`);
+      const response: any = await (openai as any).responses.create({
+        model: process.env.OPENAI_MODEL_TEXT_EXTRACTION || 'gpt-5',
+        input: [
+          {
+            role: 'user',
+            content: [
+              { type: 'input_text', text: 'Extract all readable text from the attached resume file and return plain text only. Preserve natural reading order; omit images and formatting artifacts.' },
+              { type: 'input_file', file_id: uploaded.id }
+            ]
+          }
+        ],
+        max_output_tokens: 4000
+      });
+
+      // Best-effort extraction of text from Responses API
+      const extractedText = response?.output_text
+        || response?.output?.flatMap((o: any) => o?.content || [])
+            .map((c: any) => c?.text?.value || '')
+            .join('\n')
+        || '';
+
+      if (!extractedText || extractedText.trim().length < 50) {
+        throw new Error('Insufficient text extracted from file');
       }
-    }
 
-    // If no file data or unsupported type, return empty text
-    return { text: '' };
+      console.log(`✅ File text extraction successful. Length: ${extractedText.length}`);
+      return { text: extractedText, fileId: uploaded.id };
+    } catch (error) {
+      console.error('File-to-text extraction failed via Files API:', error);
+      throw new Error(`Unable to extract text from file using OpenAI Files API: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  async processResume(resumeText: string, fileType?: string, customRules?: string, fileSize?: number): Promise<ProcessedResume> {
+  async processResume(resumeText: string, fileType?: string, customRules?: string, organizationId?: string): Promise<ProcessedResume> {
     try {
-      // Check cache for parsed resume (based on file size + custom rules)
-      if (fileSize) {
-        const cacheKey = cacheService.resumeParseKey(fileSize, customRules);
+      // Check cache for parsed resume (based on decoded file content hash + model version + custom rules)
+      const cacheKey = resumeText ? cacheService.resumeParseKey(resumeText, fileType, customRules, organizationId) : null;
+      if (cacheKey) {
         const cachedResult = await cacheService.get<ProcessedResume>(cacheKey);
         if (cachedResult) {
-          console.log(`✅ Cache hit for resume parsing (fileSize: ${fileSize}, hasCustomRules: ${!!customRules})`);
+          console.log(`✅ Cache hit for resume parsing (hasCustomRules: ${!!customRules})`);
           return cachedResult;
         }
-        console.log(`📝 Cache miss for resume parsing (fileSize: ${fileSize}, hasCustomRules: ${!!customRules}), processing...`);
+        console.log(`📝 Cache miss for resume parsing (hasCustomRules: ${!!customRules}), processing...`);
       }
 
       // Extract text from file if needed
       console.log(`🔄 Starting resume processing. File type: ${fileType}, text length: ${resumeText?.length}`);
-      const extraction = fileType ? await this.extractTextFromFile(resumeText, fileType) : { text: resumeText };
+      const extraction: { text: string; fileId?: string; extractor?: string; confidence?: number } = fileType
+        ? await this.extractTextFromFile(resumeText, fileType)
+        : { text: resumeText };
       const extractedText = extraction.text;
       console.log(`📄 Text extraction complete. Extracted length: ${extractedText?.length}`);
 
@@ -315,6 +372,35 @@ Respond with JSON in this EXACT format (no markdown, no commentary):
     "Language (Proficiency Level)",
     "e.g., 'English (Native)', 'Arabic (Professional)', 'Spanish (Intermediate)'"
   ],
+  "experienceEntries": [
+    {
+      "company": "Company Name",
+      "title": "Exact Job Title",
+      "startDate": "YYYY-MM (or YYYY if only the year is given)",
+      "endDate": "YYYY-MM, YYYY, or null if current",
+      "isCurrent": false,
+      "location": "City, Country or null"
+    }
+  ],
+  "educationEntries": [
+    {
+      "degree": "Degree type (e.g., 'Bachelor of Science', 'MBA') or null",
+      "field": "Field of study or null",
+      "institution": "Institution Name",
+      "startDate": "YYYY-MM, YYYY, or null",
+      "endDate": "YYYY-MM, YYYY, or null",
+      "graduationYear": 2018,
+      "location": "City, Country or null"
+    }
+  ],
+  "certificationEntries": [
+    {
+      "name": "Exact Certification Name",
+      "issuer": "Issuing Organization or null",
+      "issueDate": "YYYY-MM, YYYY, or null",
+      "expiryDate": "YYYY-MM, YYYY, or null"
+    }
+  ],
   "industries": [
     "Industries the candidate has worked in",
     "e.g., 'FinTech', 'Healthcare', 'E-commerce', 'SaaS'"
@@ -370,6 +456,7 @@ Before responding, verify:
 ✓ Achievements include metrics where available
 ✓ Education includes degree, field, institution, and year
 ✓ Certifications are complete with issuing body
+✓ experienceEntries, educationEntries and certificationEntries mirror the text arrays, one object per role/degree/certification
 ✓ Summary is substantive (not just repeating the skills list)
 
 ═══════════════════════════════════════════════════════════════
@@ -463,6 +550,9 @@ Extract and return the structured JSON profile.`
           industries: Array.isArray(resultRetry.industries) ? resultRetry.industries : [],
           seniorityLevel: resultRetry.seniorityLevel || "",
           specializations: Array.isArray(resultRetry.specializations) ? resultRetry.specializations : [],
+          ...this.buildStructuredEntities(resultRetry),
+          textExtractor: extraction.extractor,
+          textExtractionConfidence: extraction.confidence,
         };
       }
       let result: any;
@@ -514,16 +604,18 @@ Extract and return the structured JSON profile.`
         industries: Array.isArray(result.industries) ? result.industries : [],
         seniorityLevel: result.seniorityLevel || "",
         specializations: Array.isArray(result.specializations) ? result.specializations : [],
+        ...this.buildStructuredEntities(result),
         fileId: extraction.fileId,
+        textExtractor: extraction.extractor,
+        textExtractionConfidence: extraction.confidence,
       };
 
       // Store in cache (without fileId since it's specific to this upload)
-      if (fileSize) {
-        const cacheKey = cacheService.resumeParseKey(fileSize, customRules);
+      if (cacheKey) {
         const cacheValue: ProcessedResume = { ...processedResume };
         delete cacheValue.fileId;
-        await cacheService.set(cacheKey, cacheValue);
-        console.log(`💾 Cached resume parsing result (fileSize: ${fileSize}, hasCustomRules: ${!!customRules})`);
+        await cacheService.set(cacheKey, cacheValue, { namespace: 'resume_parsing', organizationId });
+        console.log(`💾 Cached resume parsing result (hasCustomRules: ${!!customRules})`);
       }
 
       return processedResume;
@@ -534,6 +626,23 @@ Extract and return the structured JSON profile.`
     }
   }
 
+  // Typed experience/education/certification entries plus tenure and gaps computed from the roles
+  private buildStructuredEntities(result: any): Pick<ProcessedResume, 'experienceEntries' | 'educationEntries' | 'certificationEntries' | 'totalTenureMonths' | 'careerGaps'> {
+    let experienceEntries = normalizeExperienceEntries(result.experienceEntries);
+    if (experienceEntries.length === 0 && Array.isArray(result.experience)) {
+      experienceEntries = experienceEntriesFromLegacy(result.experience);
+    }
+    const { totalTenureMonths, careerGaps } = computeCareerTimeline(experienceEntries);
+
+    return {
+      experienceEntries,
+      educationEntries: normalizeEducationEntries(result.educationEntries),
+      certificationEntries: normalizeCertificationEntries(result.certificationEntries),
+      totalTenureMonths,
+      careerGaps,
+    };
+  }
+
   async processBulkResumes(resumesText: string): Promise<ProcessedResume[]> {
     // Split resumes by the separator "---"
     const resumeTexts = resumesText
@@ -563,12 +672,13 @@ Extract and return the structured JSON profile.`
     jobRequirements: string,
     customRules?: string,
     jobId?: number,
-    fileContent?: string
+    fileContent?: string,
+    organizationId?: string
   ): Promise<JobMatchScore> {
     try {
-      // Check cache for job scoring result (based on file hash + job description + requirements + custom rules)
+      // Check cache for job scoring result (based on file hash + job title, description, requirements + custom rules)
       if (fileContent) {
-        const cacheKey = cacheService.jobScoringKey(fileContent, jobDescription, jobRequirements, customRules);
+        const cacheKey = cacheService.jobScoringKey(fileContent, jobTitle, jobDescription, jobRequirements, customRules);
         const cachedResult = await cacheService.get<JobMatchScore>(cacheKey);
         if (cachedResult) {
           console.log(`✅ Cache hit for job scoring (hasCustomRules: ${!!customRules})`);
@@ -577,9 +687,10 @@ Extract and return the structured JSON profile.`
         console.log(`📝 Cache miss for job scoring (hasCustomRules: ${!!customRules}), calling OpenAI...`);
       }
 
+      const scoringModel = process.env.OPENAI_MODEL_RESUME_JOB_SCORING || "gpt-4o";
       const response = await wrapOpenAIRequest(
         () => openai.chat.completions.create({
-          model: process.env.OPENAI_MODEL_RESUME_JOB_SCORING || "gpt-4o",
+          model: scoringModel,
           messages: [
             {
               role: "system",
@@ -1215,7 +1326,7 @@ Analyze this candidate with full truth. No assumptions. No vagueness. No generic
         }),
         {
           requestType: "resume_job_scoring",
-          model: process.env.OPENAI_MODEL_RESUME_JOB_SCORING || "gpt-4o",
+          model: scoringModel,
           requestData: { resumeName: resume.name, jobTitle, skills: resume.skills },
           metadata: { candidateName: resume.name, jobTitle }
         }
@@ -1264,13 +1375,18 @@ Analyze this candidate with full truth. No assumptions. No vagueness. No generic
         disqualified: result.disqualified,
         disqualificationReason: result.disqualificationReason,
         redFlags: Array.isArray(result.redFlags) ? result.redFlags : undefined,
-        fullResponse: result
+        fullResponse: result,
+        scoringRunId: crypto.randomUUID(),
+        scoringModel,
+        promptVersion: JOB_SCORING_PROMPT_VERSION,
+        jobSnapshotHash: cacheService.jobSnapshotHash(jobTitle, jobDescription, jobRequirements),
+        customRulesHash: customRules ? cacheService.generateHash(customRules).slice(0, 16) : null,
       };
 
       // Store in cache
       if (fileContent) {
-        const cacheKey = cacheService.jobScoringKey(fileContent, jobDescription, jobRequirements, customRules);
-        await cacheService.set(cacheKey, scoringResult);
+        const cacheKey = cacheService.jobScoringKey(fileContent, jobTitle, jobDescription, jobRequirements, customRules);
+        await cacheService.set(cacheKey, scoringResult, { namespace: 'job_scoring', organizationId });
         console.log(`💾 Cached job scoring result (hasCustomRules: ${!!customRules})`);
       }
 
@@ -4,7 +4,7 @@ import express from "express";
 import fetch from "node-fetch";
 import crypto from "crypto";
 import { createVoiceStreamServer } from "./websocket/voiceStreamServer";
-import { storage } from "./storage";
+import { storage, type ResumeProfileFilters } from "./storage";
 import { setupAuth, requireAuth, requireVerifiedAuth, requireAuthOrService } from "./auth";
 import { requireCredits, deductCredits, attachCreditBalance } from "./creditMiddleware";
 import { requireResumeProcessingCredits, deductResumeProcessingCredits } from "./resumeCreditMiddleware";
@@ -12,16 +12,36 @@ import { creditService } from "./creditService";
 import { stripeService } from "./stripeService";
 import { subscriptionService } from "./subscriptionService";
 import { setupSubscriptionSystem } from "./setupSubscriptionSystem";
-import { airtableUserProfiles, applicantProfiles, insertJobSchema, insertOrganizationSchema, type InsertOrganization, users, organizations, offerLetters } from "@shared/schema";
-import { generateJobDescription, generateJobRequirements, extractTechnicalSkills, generateCandidateMatchRating, generateOfferLetter } from "./openai";
+import { airtableUserProfiles, applicantProfiles, insertJobSchema, insertOrganizationSchema, type InsertOrganization, users, organizations } from "@shared/schema";
+import { generateJobDescription, generateJobRequirements, extractTechnicalSkills, generateCandidateMatchRating, suggestOfferLetterEdits } from "./openai";
 import { wrapOpenAIRequest } from "./openaiTracker";
 import { localDatabaseService } from "./localDatabaseService";
 import { interviewQuestionsService } from "./interviewQuestionsService";
 import { resumeProcessingService } from "./resumeProcessingService";
+import { cacheService } from "./cacheService";
 import { fileStorageService } from "./fileStorageService";
 import { emailService } from "./emailService";
 import { ragIndexingService } from "./ragIndexingService";
 import { resumeRagService } from "./resumeRagService";
+import { candidateDedupService } from "./services/candidateDedupService";
+import { resumeVersionService } from "./services/resumeVersionService";
+import { scoreHistoryService } from "./services/scoreHistoryService";
+import { scoringWeightsService } from "./services/scoringWeightsService";
+import { poolScoringService, type PoolScoringScope } from "./services/poolScoringService";
+import { analyticsService, type AnalyticsFilters } from "./services/analyticsService";
+import { pipelineService, type ApplicationStatus } from "./services/pipelineService";
+import { applicantEventService } from "./services/applicantEventService";
+import { scorecardService } from "./services/scorecardService";
+import { interviewScheduleService, DEFAULT_INTERVIEW_MINUTES } from "./services/interviewScheduleService";
+import { interviewBookingService } from "./services/interviewBookingService";
+import { calendarSyncService, CALENDAR_PROVIDERS } from "./services/calendarSyncService";
+import { invitationReminderService } from "./services/invitationReminderService";
+import { aiInterviewInvitationService } from "./services/aiInterviewInvitationService";
+import { jobLifecycleService } from "./services/jobLifecycleService";
+import { jobApprovalService } from "./services/jobApprovalService";
+import { offerLetterService, DEFAULT_OFFER_TEMPLATE } from "./services/offerLetterService";
+import { offerNegotiationService } from "./services/offerNegotiationService";
+import { emailTemplateService } from "./services/emailTemplateService";
 import { db } from "./db";
 import { eq, desc, and } from "drizzle-orm";
 import { setupBullDashboard } from "./dashboard";
@@ -235,6 +255,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update default scoring weights used by jobs without their own
+  app.put('/api/organizations/current/scoring-weights', requireVerifiedAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const isAdmin = await storage.isOrganizationAdmin(userId, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can update scoring weights" });
+      }
+
+      let weights;
+      try {
+        weights = scoringWeightsService.normalize(req.body.weights);
+      } catch (weightsError) {
+        return res.status(400).json({ message: weightsError instanceof Error ? weightsError.message : "Invalid scoring weights" });
+      }
+
+      const updatedOrg = await storage.updateOrganization(organization.id, { defaultScoringWeights: weights });
+
+      // Jobs inheriting the default are re-ranked from stored sub-scores
+      const changed = await scoringWeightsService.recomputeOrganization(organization.id);
+      console.log(`⚖️ Default scoring weights updated for organization ${organization.id}: ${changed} scores changed`);
+
+      res.json({ defaultScoringWeights: updatedOrg.defaultScoringWeights, recomputedScores: changed });
+    } catch (error) {
+      console.error("Error updating scoring weights:", error);
+      res.status(500).json({ message: "Failed to update scoring weights" });
+    }
+  });
+
+  // Opt in to spending credits on re-scoring re-uploaded resumes against the jobs they were scored for
+  app.put('/api/organizations/current/rescore-settings', requireVerifiedAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can update scoring settings" });
+      }
+
+      const updatedOrg = await storage.updateOrganization(organization.id, { autoRescoreNewVersions: !!req.body.autoRescoreNewVersions });
+      res.json({ autoRescoreNewVersions: updatedOrg.autoRescoreNewVersions });
+    } catch (error) {
+      console.error("Error updating re-scoring settings:", error);
+      res.status(500).json({ message: "Failed to update re-scoring settings" });
+    }
+  });
+
+  // Set the approval chain draft jobs go through before they can be published; an empty chain turns approval off
+  app.put('/api/organizations/current/approval-chain', requireVerifiedAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const isAdmin = await storage.isOrganizationAdmin(userId, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can update the approval chain" });
+      }
+
+      let chain;
+      try {
+        const members = await storage.getOrganizationMembers(organization.id);
+        chain = jobApprovalService.normalizeChain(req.body.chain, members.map(member => member.userId));
+      } catch (chainError) {
+        return res.status(400).json({ message: chainError instanceof Error ? chainError.message : "Invalid approval chain" });
+      }
+
+      // Requests already in flight keep the chain they were submitted with
+      const updatedOrg = await storage.updateOrganization(organization.id, { requisitionApprovalChain: chain });
+      res.json({ requisitionApprovalChain: updatedOrg.requisitionApprovalChain });
+    } catch (error) {
+      console.error("Error updating approval chain:", error);
+      res.status(500).json({ message: "Failed to update approval chain" });
+    }
+  });
+
   // Delete organization logo
   app.delete('/api/organizations/current/branding/logo', requireVerifiedAuth, async (req: any, res) => {
     try {
@@ -1099,13 +1206,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No organization found. Please create one first." });
       }
 
+      let scoringWeights;
+      try {
+        scoringWeights = scoringWeightsService.normalize(req.body.scoringWeights);
+      } catch (weightsError) {
+        return res.status(400).json({ message: weightsError instanceof Error ? weightsError.message : "Invalid scoring weights" });
+      }
+
+      let scorecardTemplate;
+      try {
+        scorecardTemplate = scorecardService.normalizeTemplate(req.body.scorecardTemplate);
+      } catch (templateError) {
+        return res.status(400).json({ message: templateError instanceof Error ? templateError.message : "Invalid scorecard template" });
+      }
+
+      let reminderCadence;
+      let invitationExpiryDays;
+      try {
+        reminderCadence = invitationReminderService.normalizeCadence(req.body.reminderCadence);
+        invitationExpiryDays = aiInterviewInvitationService.normalizeExpiryDays(req.body.invitationExpiryDays);
+      } catch (invitationError) {
+        return res.status(400).json({ message: invitationError instanceof Error ? invitationError.message : "Invalid invitation settings" });
+      }
+
+      let schedule;
+      try {
+        schedule = jobLifecycleService.normalizeNewSchedule(req.body);
+      } catch (scheduleError) {
+        return res.status(400).json({ message: scheduleError instanceof Error ? scheduleError.message : "Invalid job schedule" });
+      }
+
+      // Jobs that need approval start as drafts and publish as requested once the chain signs them off
+      const requested = schedule;
+      if (requested.status !== 'draft' && jobApprovalService.isRequired(organization)) {
+        schedule = { ...requested, status: 'draft', publishAt: null };
+      }
+
       const jobData = insertJobSchema.parse({
         ...req.body,
+        scoringWeights,
+        scorecardTemplate,
+        reminderCadence,
+        invitationExpiryDays,
+        ...schedule,
+        postedAt: schedule.status === 'open' ? new Date() : null,
         organizationId: organization.id,
         createdById: userId
       });
 
       const job = await storage.createJob(jobData);
+      if (requested !== schedule) {
+        const submitted = await jobApprovalService.submit({ job, organization }, userId, {
+          publishOnApproval: true,
+          publishAt: requested.publishAt,
+        });
+        if (!submitted.success) {
+          console.warn(`⚠️ Job ${job.id} was created as a draft but not submitted for approval: ${submitted.message}`);
+        }
+      }
 
       // Get organization info for Airtable sync
       const org = await storage.getOrganizationByUser(userId);
@@ -1215,18 +1373,204 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Talent pool scoring: score the organization's resume bank against one job
+  const parsePoolScope = (value: any): PoolScoringScope => value === 'scored' ? 'scored' : 'all';
+
+  app.get('/api/job-postings/:id/pool-scoring', requireAuth, async (req: any, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const job = await storage.getJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const scope = parsePoolScope(req.query.scope);
+      const [estimate, latestRun] = await Promise.all([
+        poolScoringService.estimate(job, organization.id, scope),
+        poolScoringService.getLatestRun(jobId),
+      ]);
+
+      res.json({ scope, estimate, latestRun: latestRun || null });
+    } catch (error) {
+      console.error("Error estimating pool scoring:", error);
+      res.status(500).json({ message: "Failed to estimate talent pool scoring" });
+    }
+  });
+
+  app.post('/api/job-postings/:id/pool-scoring', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const jobId = parseInt(req.params.id);
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const job = await storage.getJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (await poolScoringService.getActiveRun(jobId)) {
+        return res.status(409).json({ message: "A talent pool scoring run is already in progress for this job" });
+      }
+
+      const scope = parsePoolScope(req.body.scope);
+      const estimate = await poolScoringService.estimate(job, organization.id, scope);
+      if (estimate.toScore === 0) {
+        return res.status(400).json({ message: "All candidates are already scored against the current job" });
+      }
+      if (estimate.estimatedCredits > estimate.availableCredits) {
+        return res.status(402).json({
+          message: `This run needs up to ${estimate.estimatedCredits} credits but only ${estimate.availableCredits} are available`,
+          estimate,
+        });
+      }
+
+      const run = await poolScoringService.startRun({
+        job,
+        organizationId: organization.id,
+        requestedBy: userId,
+        scope,
+        trigger: 'manual',
+        estimate,
+      });
+
+      res.status(202).json(run);
+    } catch (error) {
+      console.error("Error starting pool scoring:", error);
+      res.status(500).json({ message: "Failed to start talent pool scoring" });
+    }
+  });
+
+  app.post('/api/pool-scoring-runs/:runId/cancel', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const run = await poolScoringService.getRun(req.params.runId);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      if (run.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const cancelled = await poolScoringService.cancelRun(run.id);
+      if (!cancelled) {
+        return res.status(409).json({ message: `Run is already ${run.status}` });
+      }
+
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling pool scoring:", error);
+      res.status(500).json({ message: "Failed to cancel talent pool scoring" });
+    }
+  });
+
   app.put('/api/job-postings/:id', requireAuth, async (req: any, res) => {
     try {
       const jobId = parseInt(req.params.id);
       const userId = req.user.id;
-      const jobData = insertJobSchema.partial().parse(req.body);
+      // Status moves go through /status; dates are validated against the current status below
+      const { status, publishAt, closesAt, postedAt, closedAt, archivedAt, clonedFromId, ...fields } = req.body;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const previous = await storage.getJob(jobId);
+      if (!previous) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (previous.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const jobData = insertJobSchema.partial().parse(fields);
+
+      let weightsChanged = false;
+      if (req.body.scoringWeights !== undefined) {
+        try {
+          jobData.scoringWeights = scoringWeightsService.normalize(req.body.scoringWeights);
+        } catch (weightsError) {
+          return res.status(400).json({ message: weightsError instanceof Error ? weightsError.message : "Invalid scoring weights" });
+        }
+        weightsChanged = !scoringWeightsService.sameWeights(previous.scoringWeights, jobData.scoringWeights);
+      }
+      if (req.body.scorecardTemplate !== undefined) {
+        try {
+          jobData.scorecardTemplate = scorecardService.normalizeTemplate(req.body.scorecardTemplate);
+        } catch (templateError) {
+          return res.status(400).json({ message: templateError instanceof Error ? templateError.message : "Invalid scorecard template" });
+        }
+      }
+      if (req.body.reminderCadence !== undefined) {
+        try {
+          jobData.reminderCadence = invitationReminderService.normalizeCadence(req.body.reminderCadence);
+        } catch (cadenceError) {
+          return res.status(400).json({ message: cadenceError instanceof Error ? cadenceError.message : "Invalid reminder cadence" });
+        }
+      }
+      if (req.body.invitationExpiryDays !== undefined) {
+        try {
+          jobData.invitationExpiryDays = aiInterviewInvitationService.normalizeExpiryDays(req.body.invitationExpiryDays);
+        } catch (expiryError) {
+          return res.status(400).json({ message: expiryError instanceof Error ? expiryError.message : "Invalid invitation expiry" });
+        }
+      }
+      if (publishAt !== undefined || closesAt !== undefined) {
+        try {
+          Object.assign(jobData, jobLifecycleService.normalizeScheduleUpdate(previous, { publishAt, closesAt }));
+        } catch (scheduleError) {
+          return res.status(400).json({ message: scheduleError instanceof Error ? scheduleError.message : "Invalid job schedule" });
+        }
+      }
 
       const job = await storage.updateJob(jobId, jobData);
 
+      // Approvers signed off on the old salary and headcount
+      if (await jobApprovalService.cancelIfTermsChanged(previous, job, userId)) {
+        console.log(`📝 Job ${jobId} terms changed: withdrew its pending approval request`);
+      }
+
+      // Edited content makes existing scores stale; the recruiter re-scores from the pool scoring estimate
+      const snapshotOf = (j: typeof job) => cacheService.jobSnapshotHash(j.title, j.description, j.requirements || j.description);
+      const scoresStale = snapshotOf(previous) !== snapshotOf(job);
+      if (scoresStale) {
+        try {
+          // A run in progress is scoring against the old content
+          const activeRun = await poolScoringService.getActiveRun(jobId);
+          if (activeRun) {
+            await poolScoringService.cancelRun(activeRun.id);
+            console.log(`🛑 Job ${jobId} edited: cancelled pool scoring run ${activeRun.id} scoring the old content`);
+          }
+        } catch (cancelError) {
+          console.error("❌ Error cancelling pool scoring after job update:", cancelError);
+        }
+      }
+
+      // Re-rank existing applicants from their stored sub-scores; no model call is needed
+      if (weightsChanged) {
+        const changed = await scoringWeightsService.recomputeJob(jobId);
+        console.log(`⚖️ Recomputed overall scores for job ${jobId} with new weights: ${changed} changed`);
+      }
+
       // Re-index updated job in RAG system
       try {
         console.log(`📚 Re-indexing job ${jobId} in RAG system after update...`);
-        const organization = await storage.getOrganizationByUser(userId);
         const ragResult = await ragIndexingService.indexJob({
           id: job.id,
           title: job.title,
@@ -1240,7 +1584,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           seniorityLevel: job.seniorityLevel,
           industry: job.industry,
           location: job.location,
-          organizationId: organization?.id
+          organizationId: organization.id
         });
 
         if (ragResult.success) {
@@ -1253,204 +1597,389 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("❌ Error re-indexing job in RAG:", ragError);
       }
 
-      res.json(job);
+      res.json({ ...job, scoresStale });
     } catch (error) {
       console.error("Error updating job:", error);
       res.status(500).json({ message: "Failed to update job posting" });
     }
   });
 
-  app.delete('/api/job-postings/:id', requireAuth, async (req: any, res) => {
+  // Move a job through draft -> scheduled -> open <-> paused -> closed -> archived
+  app.post('/api/job-postings/:id/status', requireAuth, async (req: any, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      const userId = req.user.id;
-
-      console.log(`🗑️  User ${userId} attempting to delete job ${jobId}`);
-
-      // Validate job ID
-      if (isNaN(jobId) || jobId <= 0) {
-        console.error('Invalid job ID:', req.params.id);
-        return res.status(400).json({ message: "Invalid job ID" });
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
       }
 
-      // Check if job exists and belongs to user's organization
-      const job = await storage.getJobById(jobId);
-      if (!job) {
-        console.error('Job not found:', jobId);
+      const job = await storage.getJobById(parseInt(req.params.id));
+      if (!job || !job.is_active) {
         return res.status(404).json({ message: "Job not found" });
       }
-
-      // Verify user has permission to delete this job
-      const organization = await storage.getOrganizationByUser(userId);
-      if (!organization || job.organizationId !== organization.id) {
-        console.error('User does not have permission to delete this job');
-        return res.status(403).json({ message: "You don't have permission to delete this job" });
+      if (job.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      console.log(`✅ Job ${jobId} found and user has permission. Proceeding with deletion...`);
-
-      // Delete from database first (mark as inactive)
-      await storage.deleteJob(jobId);
-      console.log(`✅ Job ${jobId} marked as inactive in database`);
-
-      // Remove job from RAG system
-      try {
-        console.log(`📚 Removing job ${jobId} from RAG system...`);
-        const ragResult = await ragIndexingService.removeJob(jobId);
-
-        if (ragResult.success) {
-          console.log(`✅ ${ragResult.message}`);
-        } else {
-          console.warn(`⚠️ ${ragResult.message}`);
+      if (job.status === 'draft' && (req.body.status === 'open' || req.body.status === 'scheduled')) {
+        const blocker = await jobApprovalService.publishBlocker(job, organization);
+        if (blocker) {
+          return res.status(409).json({ message: blocker });
         }
-      } catch (ragError) {
-        // Log error but don't fail the job deletion
-        console.error("❌ Error removing job from RAG:", ragError);
       }
 
-      res.json({ message: "Job deleted successfully" });
+      const result = await jobLifecycleService.transition(job, req.body.status, { publishAt: req.body.publishAt });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.job);
     } catch (error) {
-      console.error("❌ Error deleting job:", error);
-      res.status(500).json({ message: "Failed to delete job posting" });
+      console.error("Error changing job status:", error);
+      res.status(500).json({ message: "Failed to change job status" });
     }
   });
 
-  // Count endpoints for dashboard
-  app.get('/api/applicants/count', requireAuth, async (req: any, res) => {
+  // Copy a job's content and settings into a new draft
+  app.post('/api/job-postings/:id/clone', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const organization = await storage.getOrganizationByUser(userId);
-
+      const organization = await storage.getOrganizationByUser(req.user.id);
       if (!organization) {
-        return res.json({ count: 0 });
+        return res.status(404).json({ message: "Organization not found" });
       }
 
-      // Use local database service instead of Airtable
-      const applicants = await localDatabaseService.getAllJobApplications();
-
-      // Filter to only show applicants for this organization's jobs AND exclude accepted applicants
-      const organizationJobs = await storage.getJobsByOrganization(organization.id);
-      const organizationJobIds = new Set(organizationJobs.map(job => job.id.toString()));
-      const filteredApplicants = applicants.filter(app =>
-        organizationJobIds.has(app.jobId) && app.status !== 'Accepted'
-      );
+      const job = await storage.getJobById(parseInt(req.params.id));
+      if (!job || !job.is_active) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      res.json({ count: filteredApplicants.length });
+      const copy = await jobLifecycleService.clone(job, req.user.id);
+      res.status(201).json(copy);
     } catch (error) {
-      console.error("Error counting applicants:", error);
-      res.json({ count: 0 });
+      console.error("Error cloning job:", error);
+      res.status(500).json({ message: "Failed to clone job posting" });
     }
   });
 
-  app.get('/api/candidates/count', requireAuth, async (req: any, res) => {
+  // Approval history for a job, with what the current user can do about it
+  app.get('/api/job-postings/:id/approval', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const organization = await storage.getOrganizationByUser(userId);
-
+      const organization = await storage.getOrganizationByUser(req.user.id);
       if (!organization) {
-        return res.json({ count: 0 });
+        return res.status(404).json({ message: "Organization not found" });
       }
 
-      // Count from job matches table (AI matched candidates)
-      const matches = await localDatabaseService.getAllJobMatches();
+      const job = await storage.getJobById(parseInt(req.params.id));
+      if (!job || !job.is_active) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      // Filter for this organization's job matches
-      const organizationJobs = await storage.getJobsByOrganization(organization.id);
-      const organizationJobIds = new Set(organizationJobs.map(job => job.id.toString()));
-      const organizationMatches = matches.filter(match => organizationJobIds.has(match.jobId));
-
-      res.json({ count: organizationMatches.length });
+      const requests = await jobApprovalService.listForJob(job.id);
+      const pending = requests.find(request => request.status === 'pending');
+      res.json({
+        required: jobApprovalService.isRequired(organization),
+        chain: organization.requisitionApprovalChain ?? [],
+        publishBlocker: job.status === 'draft' ? await jobApprovalService.publishBlocker(job, organization) : null,
+        canDecide: !!pending && pending.chain[pending.currentStep].approverIds.includes(req.user.id),
+        requests,
+      });
     } catch (error) {
-      console.error("Error counting candidates:", error);
-      res.json({ count: 0 });
+      console.error("Error fetching job approval:", error);
+      res.status(500).json({ message: "Failed to fetch job approval" });
     }
   });
 
-  // Analytics endpoints for real data
-  app.get('/api/analytics/performance', requireAuth, async (req: any, res) => {
+  // Send a draft job down the organization's approval chain
+  app.post('/api/job-postings/:id/approval-requests', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const organization = await storage.getOrganizationByUser(userId);
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const job = await storage.getJobById(parseInt(req.params.id));
+      if (!job || !job.is_active) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let publishAt: Date | null = null;
+      if (req.body.publishAt) {
+        publishAt = new Date(req.body.publishAt);
+        if (isNaN(publishAt.getTime()) || publishAt <= new Date()) {
+          return res.status(400).json({ message: "The publish date must be in the future" });
+        }
+      }
+
+      const result = await jobApprovalService.submit({ job, organization }, req.user.id, {
+        comment: req.body.comment,
+        publishOnApproval: !!req.body.publishOnApproval,
+        publishAt,
+      });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.status(201).json(result.request);
+    } catch (error) {
+      console.error("Error submitting job for approval:", error);
+      res.status(500).json({ message: "Failed to submit job for approval" });
+    }
+  });
 
+  // Pending approval requests waiting on the current user
+  app.get('/api/job-approval-requests/pending', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
       if (!organization) {
         return res.json([]);
       }
 
-      // Get organization jobs
-      const organizationJobs = await storage.getJobsByOrganization(organization.id);
-      const organizationJobIds = new Set(organizationJobs.map(job => job.id.toString()));
+      const requests = await jobApprovalService.listAwaiting(organization.id, req.user.id);
+      const jobs = await storage.getJobsByOrganization(organization.id);
+      res.json(requests.map(request => ({
+        ...request,
+        jobTitle: jobs.find(job => job.id === request.jobId)?.title || 'Deleted job',
+      })));
+    } catch (error) {
+      console.error("Error fetching pending job approvals:", error);
+      res.status(500).json({ message: "Failed to fetch pending approvals" });
+    }
+  });
 
-      // Use local database service instead of Airtable
-      const applicants = await localDatabaseService.getAllJobApplications();
-      const organizationApplicants = applicants.filter(app => organizationJobIds.has(app.jobId));
+  // Approve, reject, comment on or withdraw an approval request
+  app.post('/api/job-approval-requests/:id/:action', requireAuth, async (req: any, res) => {
+    try {
+      const { action } = req.params;
+      if (!['approve', 'reject', 'comments', 'cancel'].includes(action)) {
+        return res.status(404).json({ message: "Unknown approval action" });
+      }
 
-      // Get interviews count
-      const interviews = await storage.getAllInterviews();
-      const organizationInterviews = interviews.filter(interview => {
-        return organizationJobs.some(job => job.id === interview.jobId);
-      });
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const request = await jobApprovalService.getRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Approval request not found" });
+      }
+      if (request.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const job = await storage.getJobById(request.jobId);
+      if (!job || !job.is_active) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const context = { job, organization };
+      let result;
+      if (action === 'approve') {
+        result = await jobApprovalService.approve(request, context, req.user.id, req.body.comment);
+      } else if (action === 'reject') {
+        result = await jobApprovalService.reject(request, context, req.user.id, req.body.reason);
+      } else if (action === 'comments') {
+        result = await jobApprovalService.comment(request, context, req.user.id, req.body.comment);
+      } else {
+        const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+        if (request.requestedById !== req.user.id && !isAdmin) {
+          return res.status(403).json({ message: "Only the requester or an administrator can withdraw this request" });
+        }
+        result = await jobApprovalService.cancel(request, req.user.id, req.body.reason);
+      }
 
-      // Calculate monthly data based on actual data
-      const now = new Date();
-      const monthsData = [];
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.request);
+    } catch (error) {
+      console.error(`Error handling job approval ${req.params.action}:`, error);
+      res.status(500).json({ message: "Failed to update approval request" });
+    }
+  });
 
-      for (let i = 5; i >= 0; i--) {
-        const monthDate = new Date(now.getFullYear(), now.getMonth() - i, 1);
-        const monthName = monthDate.toLocaleDateString('en-US', { month: 'short' });
+  app.delete('/api/job-postings/:id', requireAuth, async (req: any, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const userId = req.user.id;
 
-        // For demonstration, we'll use current data divided by 6 months
-        // In real app, you'd filter by actual dates
-        const applications = Math.floor(organizationApplicants.length / 6);
-        const interviewsCount = Math.floor(organizationInterviews.length / 6);
-        const hires = Math.floor(interviewsCount * 0.4); // 40% hire rate
+      console.log(`🗑️  User ${userId} attempting to delete job ${jobId}`);
 
-        monthsData.push({
-          name: monthName,
-          applications: applications + Math.floor(Math.random() * 5),
-          interviews: interviewsCount + Math.floor(Math.random() * 3),
-          hires: hires + Math.floor(Math.random() * 2)
-        });
+      // Validate job ID
+      if (isNaN(jobId) || jobId <= 0) {
+        console.error('Invalid job ID:', req.params.id);
+        return res.status(400).json({ message: "Invalid job ID" });
+      }
+
+      // Check if job exists and belongs to user's organization
+      const job = await storage.getJobById(jobId);
+      if (!job) {
+        console.error('Job not found:', jobId);
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      // Verify user has permission to delete this job
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization || job.organizationId !== organization.id) {
+        console.error('User does not have permission to delete this job');
+        return res.status(403).json({ message: "You don't have permission to delete this job" });
+      }
+
+      console.log(`✅ Job ${jobId} found and user has permission. Proceeding with deletion...`);
+
+      // Delete from database first (mark as inactive)
+      await storage.deleteJob(jobId);
+      console.log(`✅ Job ${jobId} marked as inactive in database`);
+
+      // Remove job from RAG system
+      try {
+        console.log(`📚 Removing job ${jobId} from RAG system...`);
+        const ragResult = await ragIndexingService.removeJob(jobId);
+
+        if (ragResult.success) {
+          console.log(`✅ ${ragResult.message}`);
+        } else {
+          console.warn(`⚠️ ${ragResult.message}`);
+        }
+      } catch (ragError) {
+        // Log error but don't fail the job deletion
+        console.error("❌ Error removing job from RAG:", ragError);
       }
 
-      res.json(monthsData);
+      res.json({ message: "Job deleted successfully" });
     } catch (error) {
-      console.error("Error fetching performance analytics:", error);
-      res.json([]);
+      console.error("❌ Error deleting job:", error);
+      res.status(500).json({ message: "Failed to delete job posting" });
     }
   });
 
-  app.get('/api/analytics/sources', requireAuth, async (req: any, res) => {
+  // Count endpoints for dashboard
+  app.get('/api/applicants/count', requireAuth, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const organization = await storage.getOrganizationByUser(userId);
 
       if (!organization) {
-        return res.json([]);
+        return res.json({ count: 0 });
       }
 
-      // Get real counts
+      // Use local database service instead of Airtable
+      const applicants = await localDatabaseService.getAllJobApplications();
+
+      // Filter to only show applicants for this organization's jobs AND exclude accepted applicants
       const organizationJobs = await storage.getJobsByOrganization(organization.id);
       const organizationJobIds = new Set(organizationJobs.map(job => job.id.toString()));
+      const filteredApplicants = applicants.filter(app =>
+        organizationJobIds.has(app.jobId) && !pipelineService.statusIs(app.status, 'accepted')
+      );
 
-      // Direct applicants - use local database service instead of Airtable
-      const applicants = await localDatabaseService.getAllJobApplications();
-      const directApplicants = applicants.filter(app => organizationJobIds.has(app.jobId)).length;
+      res.json({ count: filteredApplicants.length });
+    } catch (error) {
+      console.error("Error counting applicants:", error);
+      res.json({ count: 0 });
+    }
+  });
+
+  app.get('/api/candidates/count', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+
+      if (!organization) {
+        return res.json({ count: 0 });
+      }
 
-      // AI matched candidates
+      // Count from job matches table (AI matched candidates)
       const matches = await localDatabaseService.getAllJobMatches();
-      const aiCandidates = matches.filter(match => organizationJobIds.has(match.jobId)).length;
 
-      const sourceData = [
-        { name: 'Direct Applications', value: directApplicants, color: '#3B82F6' },
-        { name: 'AI Matched Candidates', value: aiCandidates, color: '#8B5CF6' },
-        { name: 'Referrals', value: Math.floor(directApplicants * 0.2), color: '#10B981' },
-        { name: 'Job Boards', value: Math.floor(directApplicants * 0.3), color: '#F59E0B' },
-      ];
+      // Filter for this organization's job matches
+      const organizationJobs = await storage.getJobsByOrganization(organization.id);
+      const organizationJobIds = new Set(organizationJobs.map(job => job.id.toString()));
+      const organizationMatches = matches.filter(match => organizationJobIds.has(match.jobId));
+
+      res.json({ count: organizationMatches.length });
+    } catch (error) {
+      console.error("Error counting candidates:", error);
+      res.json({ count: 0 });
+    }
+  });
+
+  // Analytics endpoints for real data
+  // Filters: ?from=&to= (ISO dates, default the last six months) and ?jobId=
+  const parseAnalyticsFilters = (query: any, organizationId: string): AnalyticsFilters => {
+    const now = new Date();
+    const parseDate = (value: any) => {
+      const date = typeof value === 'string' && value ? new Date(value) : null;
+      return date && !isNaN(date.getTime()) ? date : null;
+    };
+    const to = parseDate(query.to) || now;
+    // A bare date for "to" covers that whole day
+    if (typeof query.to === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+      to.setUTCHours(23, 59, 59, 999);
+    }
+    const from = parseDate(query.from) || new Date(to.getFullYear(), to.getMonth() - 5, 1);
+    const jobId = parseInt(query.jobId, 10);
+    return { organizationId, from, to, jobId: isNaN(jobId) ? undefined : jobId };
+  };
+
+  app.get('/api/analytics/performance', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.json([]);
+      }
+
+      res.json(await analyticsService.getMonthlyFunnel(parseAnalyticsFilters(req.query, organization.id)));
+    } catch (error) {
+      console.error("Error fetching performance analytics:", error);
+      res.status(500).json({ message: "Failed to fetch performance analytics" });
+    }
+  });
+
+  app.get('/api/analytics/sources', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.json([]);
+      }
 
-      res.json(sourceData);
+      res.json(await analyticsService.getSources(parseAnalyticsFilters(req.query, organization.id)));
     } catch (error) {
       console.error("Error fetching source analytics:", error);
-      res.json([]);
+      res.status(500).json({ message: "Failed to fetch source analytics" });
+    }
+  });
+
+  app.get('/api/analytics/durations', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      res.json(await analyticsService.getDurations(parseAnalyticsFilters(req.query, organization.id)));
+    } catch (error) {
+      console.error("Error fetching duration analytics:", error);
+      res.status(500).json({ message: "Failed to fetch duration analytics" });
+    }
+  });
+
+  app.get('/api/analytics/jobs', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.json([]);
+      }
+
+      res.json(await analyticsService.getJobConversion(parseAnalyticsFilters(req.query, organization.id)));
+    } catch (error) {
+      console.error("Error fetching job conversion analytics:", error);
+      res.status(500).json({ message: "Failed to fetch job conversion analytics" });
     }
   });
 
@@ -1492,14 +2021,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Apply status filtering
       if (statusFilter === 'active') {
         // Show only active applicants (not declined, not shortlisted, not accepted)
-        applicants = applicants.filter(app =>
-          app.status?.toLowerCase() !== 'declined' &&
-          app.status?.toLowerCase() !== 'shortlisted' &&
-          app.status?.toLowerCase() !== 'accepted'
-        );
+        applicants = applicants.filter(app => pipelineService.statusIs(app.status, 'applied'));
       } else if (statusFilter === 'denied') {
         // Show only declined applicants
-        applicants = applicants.filter(app => app.status?.toLowerCase() === 'declined');
+        applicants = applicants.filter(app => pipelineService.statusIs(app.status, 'denied'));
       }
       // If statusFilter === 'all', don't filter by status
 
@@ -1654,7 +2179,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       console.log(`📊 Found ${applicants.length} applicants for jobId: ${jobId || 'all'}`);
-      res.json(applicants);
+      res.json(applicants.map(app => ({ ...app, status: pipelineService.normalizeStatus(app.status) })));
     } catch (error) {
       console.error("Error fetching applicants:", error);
       res.status(500).json({ message: "Failed to fetch applicants" });
@@ -1706,6 +2231,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if there's a matching resume profile with detailed analysis
       let fullResponse = null;
+      let resumeProfileId: string | null = null;
       try {
         // Try to find a resume profile that matches this applicant by email
         const resumeProfiles = await storage.getResumeProfilesByOrganization(organization.id.toString());
@@ -1721,6 +2247,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (matchingJobScore?.fullResponse) {
             fullResponse = matchingJobScore.fullResponse;
           }
+          if (matchingJobScore) {
+            resumeProfileId = matchingProfile.id;
+          }
         }
       } catch (e) {
         console.log('Could not fetch resume profile for detailed analysis:', e);
@@ -2027,6 +2556,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Detailed analysis (if available from resume profile)
         fullResponse: fullResponse,
+        resumeProfileId: resumeProfileId,
 
         // Interview video URL and transcription
         interviewVideoUrl: interviewVideoUrl,
@@ -2055,74 +2585,295 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/applicants/:id/accept', requireAuth, async (req: any, res) => {
+  // Accept, decline/deny and shortlist move the application through the pipeline to the first stage with that status
+  const legacyStatusActions: Array<{ action: string; status: ApplicationStatus; verb: string }> = [
+    { action: 'accept', status: 'accepted', verb: 'accepted' },
+    { action: 'decline', status: 'denied', verb: 'declined' },
+    { action: 'deny', status: 'denied', verb: 'denied' },
+    { action: 'shortlist', status: 'shortlisted', verb: 'shortlisted' },
+  ];
+
+  for (const { action, status, verb } of legacyStatusActions) {
+    app.post(`/api/applicants/:id/${action}`, requireAuth, async (req: any, res) => {
+      try {
+        const organization = await storage.getOrganizationByUser(req.user.id);
+        if (!organization) {
+          return res.status(404).json({ message: "Organization not found" });
+        }
+
+        const result = await pipelineService.moveToStatus({
+          applicationId: req.params.id,
+          status,
+          organizationId: organization.id,
+          changedBy: req.user.id,
+        });
+        if (!result.success) {
+          return res.status(result.status).json({ message: result.message });
+        }
+        res.json({ message: `Applicant ${verb} successfully`, application: result.application });
+      } catch (error) {
+        console.error(`Error updating applicant (${action}):`, error);
+        res.status(500).json({ message: `Failed to ${action} applicant` });
+      }
+    });
+  }
+
+  // Move an application to any stage of its job's pipeline
+  app.post('/api/applicants/:id/transition', requireAuth, async (req: any, res) => {
     try {
-      const applicantId = req.params.id;
-      await localDatabaseService.updateJobApplication(applicantId, { status: 'accepted' });
-      res.json({ message: "Applicant accepted successfully" });
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const { toStage, reason } = req.body;
+      if (typeof toStage !== 'string' || !toStage) {
+        return res.status(400).json({ message: "toStage is required" });
+      }
+
+      const result = await pipelineService.transition({
+        applicationId: req.params.id,
+        toStage,
+        organizationId: organization.id,
+        changedBy: req.user.id,
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+      });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result);
     } catch (error) {
-      console.error("Error accepting applicant:", error);
-      res.status(500).json({ message: "Failed to accept applicant" });
+      console.error("Error moving applicant:", error);
+      res.status(500).json({ message: "Failed to move applicant" });
     }
   });
 
-  app.post('/api/applicants/:id/decline', requireAuth, async (req: any, res) => {
+  app.get('/api/applicants/:id/stage-history', requireAuth, async (req: any, res) => {
     try {
-      const applicantId = req.params.id;
-      await localDatabaseService.updateJobApplication(applicantId, { status: 'declined' });
-      res.json({ message: "Applicant declined successfully" });
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const history = await pipelineService.getHistory(req.params.id);
+      res.json(history.filter(entry => entry.organizationId === organization.id));
     } catch (error) {
-      console.error("Error declining applicant:", error);
-      res.status(500).json({ message: "Failed to decline applicant" });
+      console.error("Error fetching stage history:", error);
+      res.status(500).json({ message: "Failed to fetch stage history" });
     }
   });
 
-  // Alias for deny (same as decline)
-  app.post('/api/applicants/:id/deny', requireAuth, async (req: any, res) => {
+  // Append-only activity timeline of one application
+  app.get('/api/applicants/:id/events', requireAuth, async (req: any, res) => {
     try {
-      const applicantId = req.params.id;
-      await localDatabaseService.updateJobApplication(applicantId, { status: 'denied' });
-      res.json({ message: "Applicant denied successfully" });
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      res.json(await applicantEventService.listForApplication(req.params.id, organization.id));
     } catch (error) {
-      console.error("Error denying applicant:", error);
-      res.status(500).json({ message: "Failed to deny applicant" });
+      console.error("Error fetching applicant events:", error);
+      res.status(500).json({ message: "Failed to fetch applicant events" });
     }
   });
 
-  // Shortlist an applicant
-  app.post('/api/applicants/:id/shortlist', requireAuth, async (req: any, res) => {
+  // Interview panel feedback across all of an application's interviews
+  app.get('/api/applicants/:id/interview-feedback', requireAuth, async (req: any, res) => {
     try {
-      const applicantId = req.params.id;
-      await localDatabaseService.updateJobApplication(applicantId, { status: 'shortlisted' });
-      res.json({ message: "Applicant shortlisted successfully" });
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const view = await scorecardService.getApplicationView(req.params.id, organization.id, userId);
+      if (!view) {
+        return res.status(404).json({ message: "Applicant not found" });
+      }
+      res.json(view);
     } catch (error) {
-      console.error("Error shortlisting applicant:", error);
-      res.status(500).json({ message: "Failed to shortlist applicant" });
+      console.error("Error fetching interview feedback:", error);
+      res.status(500).json({ message: "Failed to fetch interview feedback" });
     }
   });
 
-  // Get detailed user profile by userId from Airtable
-  app.get('/api/user-profile/:userId', requireAuth, async (req: any, res) => {
+  // Compliance export of applicant events (?format=csv|json&from&to&applicationId).
+  // A single application's log is open to the team; the organization-wide log is admin only.
+  app.get('/api/applicant-events/export', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.params.userId;
-      console.log(`🔍 Fetching detailed profile for user ID: ${userId}`);
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
 
-      // Get user profile from platouserprofiles table
-      const { UserProfilesAirtableService } = await import('./userProfilesAirtableService');
-      const AIRTABLE_API_KEY = 'pat770a3TZsbDther.a2b72657b27da4390a5215e27f053a3f0a643d66b43168adb6817301ad5051c0';
-      const userProfilesService = new UserProfilesAirtableService(AIRTABLE_API_KEY);
-      const userProfile = await userProfilesService.getUserProfileByUserId(userId);
+      const applicationId = typeof req.query.applicationId === 'string' && req.query.applicationId ? req.query.applicationId : undefined;
+      if (!applicationId) {
+        const isAdmin = await storage.isOrganizationAdmin(userId, organization.id);
+        if (!isAdmin) {
+          return res.status(403).json({ message: "Only organization admins can export the full event log" });
+        }
+      }
 
-      if (!userProfile) {
-        console.log(`❌ User profile not found for ID: ${userId}`);
-        return res.status(404).json({ message: "User profile not found" });
+      const from = req.query.from ? new Date(req.query.from) : undefined;
+      const to = req.query.to ? new Date(req.query.to) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "Invalid date range" });
       }
 
-      console.log(`✅ Found user profile for ${userProfile.name || 'Unknown'}`);
-      res.json(userProfile);
+      const events = await applicantEventService.listForExport(organization.id, { from, to, applicationId });
+      const fileName = `applicant-events-${applicationId || organization.id}-${new Date().toISOString().slice(0, 10)}`;
+
+      if (req.query.format === 'json') {
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+        return res.json(events);
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      res.send(applicantEventService.toCsv(events));
     } catch (error) {
-      console.error("Error fetching user profile:", error);
-      res.status(500).json({ message: "Failed to fetch user profile" });
+      console.error("Error exporting applicant events:", error);
+      res.status(500).json({ message: "Failed to export applicant events" });
+    }
+  });
+
+  // Pipeline stages: organization default, or a job's own stages with ?jobId=
+  app.get('/api/pipeline/stages', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const jobId = req.query.jobId ? parseInt(req.query.jobId) : null;
+      if (jobId) {
+        const job = await storage.getJob(jobId);
+        if (!job || job.organizationId !== organization.id) {
+          return res.status(404).json({ message: "Job not found" });
+        }
+      }
+
+      res.json(await pipelineService.getStages(organization.id, jobId));
+    } catch (error) {
+      console.error("Error fetching pipeline stages:", error);
+      res.status(500).json({ message: "Failed to fetch pipeline stages" });
+    }
+  });
+
+  app.put('/api/pipeline/stages', requireVerifiedAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const isAdmin = await storage.isOrganizationAdmin(userId, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can change pipeline stages" });
+      }
+
+      const jobId = req.body.jobId ? parseInt(req.body.jobId) : null;
+      if (jobId) {
+        const job = await storage.getJob(jobId);
+        if (!job || job.organizationId !== organization.id) {
+          return res.status(404).json({ message: "Job not found" });
+        }
+      }
+
+      const validated = pipelineService.validateStages(req.body.stages);
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error });
+      }
+
+      const saved = await pipelineService.saveStages(organization.id, jobId, validated.stages);
+      if (saved.error) {
+        return res.status(409).json({ message: saved.error });
+      }
+      res.json(await pipelineService.getStages(organization.id, jobId));
+    } catch (error) {
+      console.error("Error saving pipeline stages:", error);
+      res.status(500).json({ message: "Failed to save pipeline stages" });
+    }
+  });
+
+  // Remove a job's own stages so it follows the organization pipeline
+  app.delete('/api/pipeline/stages/jobs/:jobId', requireVerifiedAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const isAdmin = await storage.isOrganizationAdmin(userId, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can change pipeline stages" });
+      }
+
+      const job = await storage.getJob(parseInt(req.params.jobId));
+      if (!job || job.organizationId !== organization.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const reset = await pipelineService.resetJobStages(organization.id, job.id);
+      if (reset.error) {
+        return res.status(409).json({ message: reset.error });
+      }
+      res.json(await pipelineService.getStages(organization.id, job.id));
+    } catch (error) {
+      console.error("Error resetting job pipeline stages:", error);
+      res.status(500).json({ message: "Failed to reset pipeline stages" });
+    }
+  });
+
+  // Kanban board: applications grouped by stage, for one job or the whole organization
+  app.get('/api/pipeline/board', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const jobId = req.query.jobId ? parseInt(req.query.jobId) : null;
+      if (jobId) {
+        const job = await storage.getJob(jobId);
+        if (!job || job.organizationId !== organization.id) {
+          return res.status(404).json({ message: "Job not found" });
+        }
+      }
+
+      res.json(await pipelineService.getBoard(organization.id, jobId));
+    } catch (error) {
+      console.error("Error fetching pipeline board:", error);
+      res.status(500).json({ message: "Failed to fetch pipeline board" });
+    }
+  });
+
+  // Get detailed user profile by userId from Airtable
+  app.get('/api/user-profile/:userId', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.params.userId;
+      console.log(`🔍 Fetching detailed profile for user ID: ${userId}`);
+
+      // Get user profile from platouserprofiles table
+      const { UserProfilesAirtableService } = await import('./userProfilesAirtableService');
+      const AIRTABLE_API_KEY = 'pat770a3TZsbDther.a2b72657b27da4390a5215e27f053a3f0a643d66b43168adb6817301ad5051c0';
+      const userProfilesService = new UserProfilesAirtableService(AIRTABLE_API_KEY);
+      const userProfile = await userProfilesService.getUserProfileByUserId(userId);
+
+      if (!userProfile) {
+        console.log(`❌ User profile not found for ID: ${userId}`);
+        return res.status(404).json({ message: "User profile not found" });
+      }
+
+      console.log(`✅ Found user profile for ${userProfile.name || 'Unknown'}`);
+      res.json(userProfile);
+    } catch (error) {
+      console.error("Error fetching user profile:", error);
+      res.status(500).json({ message: "Failed to fetch user profile" });
     }
   });
 
@@ -2145,6 +2896,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const interview = await storage.createInterview(interviewData);
+      await applicantEventService.record({
+        applicationId: applicantId,
+        action: 'interview_scheduled',
+        actorId: userId,
+        after: { scheduledDate, scheduledTime, interviewType, meetingLink },
+        metadata: { interviewId: interview.id },
+      });
       res.json(interview);
     } catch (error) {
       console.error("Error scheduling interview:", error);
@@ -2152,227 +2910,661 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate offer letter for applicant
-  app.post('/api/applicants/:id/generate-offer-letter', requireAuth, async (req: any, res) => {
+  // Offer templates the organization drafts offer letters from
+  app.get('/api/offer-templates', requireAuth, async (req: any, res) => {
     try {
-      const applicantId = req.params.id;
-      const { customMessage } = req.body;
-      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
 
-      console.log(`📝 Generating AI offer letter for applicant ${applicantId}...`);
-      console.log(`Custom message provided: ${customMessage ? 'Yes' : 'No'}`);
+      const templates = await offerLetterService.listTemplates(organization.id);
+      res.json({ templates, builtIn: DEFAULT_OFFER_TEMPLATE, offerApprovalRequired: organization.offerApprovalRequired });
+    } catch (error) {
+      console.error("Error fetching offer templates:", error);
+      res.status(500).json({ message: "Failed to fetch offer templates" });
+    }
+  });
 
-      // Get applicant details
-      const application = await localDatabaseService.getJobApplication(applicantId);
-      if (!application) {
-        console.error(`❌ Applicant ${applicantId} not found`);
-        return res.status(404).json({ message: "Applicant not found" });
+  app.post('/api/offer-templates', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can manage offer templates" });
       }
 
-      // Get job details
-      const job = await storage.getJob(application.jobId);
-      if (!job) {
-        console.error(`❌ Job ${application.jobId} not found`);
-        return res.status(404).json({ message: "Job not found" });
+      let input;
+      try {
+        input = offerLetterService.normalizeTemplate(req.body);
+      } catch (templateError) {
+        return res.status(400).json({ message: templateError instanceof Error ? templateError.message : "Invalid offer template" });
       }
 
-      // Get organization details from user
-      const organization = await storage.getOrganizationByUser(userId);
+      const template = await offerLetterService.createTemplate(organization.id, req.user.id, input);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error creating offer template:", error);
+      res.status(500).json({ message: "Failed to create offer template" });
+    }
+  });
+
+  app.put('/api/offer-templates/:id', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
       if (!organization) {
-        console.error(`❌ Organization not found for user ${userId}`);
         return res.status(404).json({ message: "Organization not found" });
       }
+      const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can manage offer templates" });
+      }
 
-      // Extract applicant profile data
-      const applicantName = application.applicantName || 'Candidate';
-      const jobTitle = application.jobTitle || job.title;
-      const companyName = organization.companyName || 'Our Company';
-      const location = job.location || 'Not specified';
-      const employmentType = job.employmentType || 'Full-time';
-      const workplaceType = job.workplaceType || 'On-site';
-      const salaryRange = job.salaryRange || (job.salaryMin && job.salaryMax ? `$${job.salaryMin.toLocaleString()} - $${job.salaryMax.toLocaleString()}` : 'Competitive compensation');
-      const benefits = job.benefits || [];
-
-      // Parse applicant profile for AI personalization
-      let applicantSkills = [];
-      let applicantExperience = '';
-      try {
-        const generatedProfile = typeof application.generatedProfile === 'string'
-          ? JSON.parse(application.generatedProfile)
-          : application.generatedProfile;
+      const template = await offerLetterService.getTemplate(parseInt(req.params.id));
+      if (!template || template.archivedAt) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      if (template.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-        if (generatedProfile) {
-          applicantSkills = generatedProfile.skills || [];
-          if (generatedProfile.strengths && generatedProfile.strengths.length > 0) {
-            applicantExperience = generatedProfile.strengths.join(', ');
-          }
-        }
-      } catch (e) {
-        console.log('Note: Could not parse applicant profile for personalization');
+      let input;
+      try {
+        input = offerLetterService.normalizeTemplate(req.body);
+      } catch (templateError) {
+        return res.status(400).json({ message: templateError instanceof Error ? templateError.message : "Invalid offer template" });
       }
 
-      console.log(`🤖 Using AI to generate personalized offer letter...`);
+      // Offers already drafted keep their own text; the template only shapes new ones
+      res.json(await offerLetterService.updateTemplate(template, input));
+    } catch (error) {
+      console.error("Error updating offer template:", error);
+      res.status(500).json({ message: "Failed to update offer template" });
+    }
+  });
 
-      let offerText = '';
-      try {
-        offerText = await generateOfferLetter({
-          applicantName,
-          jobTitle,
-          companyName,
-          location,
-          employmentType,
-          workplaceType,
-          salaryRange,
-          benefits,
-          customMessage,
-          applicantSkills,
-          applicantExperience
-        });
+  app.delete('/api/offer-templates/:id', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can manage offer templates" });
+      }
 
-        console.log(`✅ AI-generated offer letter created (${offerText.length} characters)`);
-      } catch (aiError) {
-        console.error('⚠️  AI generation failed, falling back to template:', aiError);
+      const template = await offerLetterService.getTemplate(parseInt(req.params.id));
+      if (!template || template.archivedAt) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      if (template.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-        // Fallback to template-based generation
-        offerText = `Dear ${applicantName},
+      await offerLetterService.archiveTemplate(template);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting offer template:", error);
+      res.status(500).json({ message: "Failed to delete offer template" });
+    }
+  });
 
-We are delighted to offer you the position of ${jobTitle} at ${companyName}.`;
+  // Require a teammate's approval before any offer is sent
+  app.put('/api/organizations/current/offer-settings', requireVerifiedAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can update offer settings" });
+      }
 
-        if (customMessage) {
-          offerText += `\n\n${customMessage}`;
-        }
+      const updatedOrg = await storage.updateOrganization(organization.id, { offerApprovalRequired: !!req.body.offerApprovalRequired });
+      res.json({ offerApprovalRequired: updatedOrg.offerApprovalRequired });
+    } catch (error) {
+      console.error("Error updating offer settings:", error);
+      res.status(500).json({ message: "Failed to update offer settings" });
+    }
+  });
 
-        offerText += `\n\nPOSITION DETAILS:
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-Role: ${jobTitle}
-Location: ${location}
-Employment Type: ${employmentType}
-Workplace: ${workplaceType}
-Compensation: ${salaryRange}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`;
+  // Wording of the emails sent for the organization, in English and Arabic
+  app.get('/api/email-templates', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
 
-        if (benefits.length > 0) {
-          offerText += `\n\nBENEFITS:`;
-          benefits.forEach((benefit: string) => {
-            offerText += `\n• ${benefit}`;
-          });
-        }
+      const templates = await emailTemplateService.list(organization.id);
+      res.json({ templates, emailLocale: organization.emailLocale });
+    } catch (error) {
+      console.error("Error fetching email templates:", error);
+      res.status(500).json({ message: "Failed to fetch email templates" });
+    }
+  });
 
-        offerText += `\n\nNEXT STEPS:
-Please review this offer carefully. Our HR team will contact you soon with formal documentation and additional details about the onboarding process.
+  // Render unsaved template text with sample values and the organization's branding
+  app.post('/api/email-templates/preview', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const { type, locale } = req.body;
+      if (!emailTemplateService.isType(type) || !emailTemplateService.isLocale(locale)) {
+        return res.status(400).json({ message: "Unknown email type or language" });
+      }
 
-We're excited about the possibility of you joining our team and look forward to your response!
+      let template;
+      try {
+        template = emailTemplateService.normalize(type, req.body);
+      } catch (templateError) {
+        return res.status(400).json({ message: templateError instanceof Error ? templateError.message : "Invalid email template" });
+      }
 
-Best regards,
-${companyName} Hiring Team
+      res.json(emailTemplateService.preview(type, template, { organization, locale }));
+    } catch (error) {
+      console.error("Error previewing email template:", error);
+      res.status(500).json({ message: "Failed to preview email template" });
+    }
+  });
 
----
-This is a preliminary offer. A formal offer letter with complete terms will follow.`;
+  app.put('/api/email-templates/:type/:locale', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can manage email templates" });
+      }
+      const { type, locale } = req.params;
+      if (!emailTemplateService.isType(type) || !emailTemplateService.isLocale(locale)) {
+        return res.status(404).json({ message: "Email template not found" });
       }
 
-      // Ensure offerText is not empty
-      if (!offerText || offerText.trim().length === 0) {
-        throw new Error('Generated offer text is empty');
+      let input;
+      try {
+        input = emailTemplateService.normalize(type, req.body);
+      } catch (templateError) {
+        return res.status(400).json({ message: templateError instanceof Error ? templateError.message : "Invalid email template" });
       }
 
-      const response = {
-        offerText: offerText.trim(),
-        applicantName,
-        jobTitle,
-        companyName
-      };
+      res.json(await emailTemplateService.save(organization.id, req.user.id, type, locale, input));
+    } catch (error) {
+      console.error("Error saving email template:", error);
+      res.status(500).json({ message: "Failed to save email template" });
+    }
+  });
 
-      console.log(`✅ Offer letter response prepared:`, {
-        offerTextLength: response.offerText.length,
-        applicantName: response.applicantName,
-        jobTitle: response.jobTitle
-      });
+  app.delete('/api/email-templates/:type/:locale', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can manage email templates" });
+      }
+      const { type, locale } = req.params;
+      if (!emailTemplateService.isType(type) || !emailTemplateService.isLocale(locale)) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
 
-      res.json(response);
+      res.json(await emailTemplateService.reset(organization.id, type, locale));
+    } catch (error) {
+      console.error("Error resetting email template:", error);
+      res.status(500).json({ message: "Failed to reset email template" });
+    }
+  });
+
+  // Language candidates and invitees receive templated emails in
+  app.put('/api/organizations/current/email-settings', requireVerifiedAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const isAdmin = await storage.isOrganizationAdmin(req.user.id, organization.id);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only administrators can update email settings" });
+      }
+      if (!emailTemplateService.isLocale(req.body.emailLocale)) {
+        return res.status(400).json({ message: "Email language must be 'en' or 'ar'" });
+      }
 
+      const updatedOrg = await storage.updateOrganization(organization.id, { emailLocale: req.body.emailLocale });
+      res.json({ emailLocale: updatedOrg.emailLocale });
     } catch (error) {
-      console.error("❌ Error generating offer letter:", error);
-      res.status(500).json({
-        message: "Failed to generate offer letter",
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      console.error("Error updating email settings:", error);
+      res.status(500).json({ message: "Failed to update email settings" });
     }
   });
 
-  // Send offer letter email to applicant
-  app.post('/api/applicants/:id/send-offer-letter', requireAuth, async (req: any, res) => {
+  // Draft and sent offers for an applicant
+  app.get('/api/applicants/:id/offer-letters', requireAuth, async (req: any, res) => {
     try {
-      const applicantId = req.params.id;
-      const { offerContent, subject } = req.body;
-      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
 
-      console.log(`📧 Sending offer letter to applicant ${applicantId}...`);
+      const offers = await offerLetterService.listForApplicant(req.params.id);
+      res.json(offers.filter(offer => offer.organizationId === organization.id));
+    } catch (error) {
+      console.error("Error fetching offer letters:", error);
+      res.status(500).json({ message: "Failed to fetch offer letters" });
+    }
+  });
 
-      // Validate offer content is provided
-      if (!offerContent || offerContent.trim().length === 0) {
-        return res.status(400).json({ message: "Offer content is required" });
+  // Start a draft offer from a template with this applicant's merge values
+  app.post('/api/applicants/:id/offer-letters', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
       }
 
-      // Get applicant details
-      const application = await localDatabaseService.getJobApplication(applicantId);
+      const application = await localDatabaseService.getJobApplication(req.params.id);
       if (!application) {
         return res.status(404).json({ message: "Applicant not found" });
       }
-
-      if (!application.applicantEmail) {
-        return res.status(400).json({ message: "Applicant has no email address" });
-      }
-
-      // Get job details
       const job = await storage.getJob(application.jobId);
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
+      if (job.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      // Get organization details from user
-      const organization = await storage.getOrganizationByUser(userId);
-      if (!organization) {
-        return res.status(404).json({ message: "Organization not found" });
+      let template = null;
+      if (req.body.templateId) {
+        template = await offerLetterService.getTemplate(parseInt(req.body.templateId));
+        if (!template || template.archivedAt || template.organizationId !== organization.id) {
+          return res.status(404).json({ message: "Template not found" });
+        }
       }
 
-      const applicantName = application.applicantName || 'Candidate';
-      const jobTitle = application.jobTitle || job.title;
-      const companyName = organization.companyName || 'Our Company';
-      const salaryRange = job.salaryRange || (job.salaryMin && job.salaryMax ? `$${job.salaryMin.toLocaleString()} - $${job.salaryMax.toLocaleString()}` : undefined);
+      const values = offerLetterService.mergeValuesFor(application, job, organization, req.body.values);
+      const offer = await offerLetterService.createDraft({ application, job, organization, template, values, userId });
+      console.log(`📝 Drafted offer ${offer.id} for applicant ${application.id} from ${template ? `template ${template.id}` : 'the built-in template'}`);
+      res.status(201).json(offer);
+    } catch (error) {
+      console.error("Error drafting offer letter:", error);
+      res.status(500).json({ message: "Failed to draft offer letter" });
+    }
+  });
+
+  // An offer with its version history and whether it can be sent yet
+  app.get('/api/offer-letters/:id', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const offer = await offerLetterService.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const versions = await offerLetterService.listVersions(offer.id);
+      const negotiation = await offerNegotiationService.list(offer.id);
+      res.json({
+        offer,
+        versions,
+        negotiation,
+        sendBlocker: offerLetterService.sendBlocker(offer, organization),
+        approvalRequired: organization.offerApprovalRequired,
+        responseUrl: offerLetterService.responseUrl(offer),
+      });
+    } catch (error) {
+      console.error("Error fetching offer letter:", error);
+      res.status(500).json({ message: "Failed to fetch offer letter" });
+    }
+  });
+
+  // The letter as a PDF; signed once the candidate has accepted
+  app.get('/api/offer-letters/:id/pdf', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const offer = await offerLetterService.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const pdf = await offerLetterService.renderPdf(offer, organization);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${offerLetterService.pdfFileName(offer)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error rendering offer letter PDF:", error);
+      res.status(500).json({ message: "Failed to render offer letter" });
+    }
+  });
+
+  // Save edited offer text as a new version
+  app.put('/api/offer-letters/:id', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const offer = await offerLetterService.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await offerLetterService.saveVersion(offer, req.body.offerContent, req.user.id, req.body.note);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.offer);
+    } catch (error) {
+      console.error("Error saving offer letter:", error);
+      res.status(500).json({ message: "Failed to save offer letter" });
+    }
+  });
+
+  // AI wording suggestions for a drafted offer; nothing is saved until the user applies them
+  app.post('/api/offer-letters/:id/suggest', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const offer = await offerLetterService.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (offer.status === 'sent') {
+        return res.status(409).json({ message: "This offer has already been sent" });
+      }
+
+      const letter = typeof req.body.offerContent === 'string' && req.body.offerContent.trim() ? req.body.offerContent : offer.offerContent;
+      const keepValues = offerLetterService.keptValues(offer);
+      const suggestion = (await suggestOfferLetterEdits({
+        letter,
+        instructions: typeof req.body.instructions === 'string' ? req.body.instructions.trim().slice(0, 1000) : undefined,
+        companyName: organization.companyName,
+        jobTitle: offer.position,
+        keepValues,
+      })).trim();
+      if (!suggestion) {
+        return res.status(502).json({ message: "No suggestion was generated. Please try again." });
+      }
+
+      // Facts from the merge fields the suggestion dropped or changed; shown so the user can check before applying
+      res.json({ suggestion, missingValues: keepValues.filter(value => !suggestion.includes(value)) });
+    } catch (error) {
+      console.error("Error suggesting offer letter edits:", error);
+      res.status(500).json({ message: "Failed to suggest offer letter edits" });
+    }
+  });
+
+  // Ask a teammate to approve an offer before it is sent
+  app.post('/api/offer-letters/:id/request-approval', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const offer = await offerLetterService.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const members = await storage.getOrganizationMembers(organization.id);
+      const result = await offerLetterService.requestApproval(
+        offer, req.body.approverId, req.user.id, members.map(member => member.userId), organization
+      );
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.offer);
+    } catch (error) {
+      console.error("Error requesting offer approval:", error);
+      res.status(500).json({ message: "Failed to request offer approval" });
+    }
+  });
+
+  // The approver signs off an offer or sends it back with a note
+  // Log a counter-offer or proposal against a sent offer
+  app.post('/api/offer-letters/:id/negotiation', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
 
-      // Create offer letter record in database
-      const sentAt = new Date();
-      const offerLetterId = crypto.randomUUID();
+      const offer = await offerLetterService.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
+      let input;
       try {
-        await db.insert(offerLetters).values({
-          id: offerLetterId,
-          applicantId,
-          jobId: application.jobId,
-          organizationId: organization.id,
-          offerContent,
-          position: jobTitle,
-          salary: salaryRange,
-          recipientEmail: application.applicantEmail,
-          recipientName: applicantName,
-          status: 'sent',
-          sentAt,
-          sentBy: userId,
-        });
-        console.log(`✅ Offer letter record created in database: ${offerLetterId}`);
-      } catch (dbError) {
-        console.error('❌ Error creating offer letter record:', dbError);
-        // Continue anyway - email is more important
+        input = offerNegotiationService.normalizeEntry(req.body, offer);
+      } catch (entryError) {
+        return res.status(400).json({ message: entryError instanceof Error ? entryError.message : "Invalid counter-offer" });
+      }
+
+      const result = await offerNegotiationService.log(offer, input, req.user.id);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await applicantEventService.record({
+        applicationId: offer.applicantId,
+        organizationId: organization.id,
+        action: 'offer_counter_offer',
+        actorId: req.user.id,
+        before: Object.fromEntries(Object.entries(input.changes).map(([field, change]) => [field, change!.from])),
+        after: Object.fromEntries(Object.entries(input.changes).map(([field, change]) => [field, change!.to])),
+        metadata: { offerLetterId: offer.id, entryId: result.entry.id, source: input.source, ...(input.note && { note: input.note }) },
+      });
+      res.status(201).json(result.entry);
+    } catch (error) {
+      console.error("Error logging offer negotiation:", error);
+      res.status(500).json({ message: "Failed to log counter-offer" });
+    }
+  });
+
+  // Generate a revised letter from a counter-offer's terms
+  app.post('/api/offer-negotiation-entries/:id/revise', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const entry = await offerNegotiationService.getEntry(parseInt(req.params.id));
+      const offer = entry ? await offerLetterService.getOffer(entry.offerLetterId) : undefined;
+      if (!entry || !offer) {
+        return res.status(404).json({ message: "Counter-offer not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await offerNegotiationService.revise(entry, offer, req.user.id);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.offer);
+    } catch (error) {
+      console.error("Error revising offer from counter-offer:", error);
+      res.status(500).json({ message: "Failed to revise offer letter" });
+    }
+  });
+
+  // Move, clear or extend the candidate's response deadline
+  app.put('/api/offer-letters/:id/expiry', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const offer = await offerLetterService.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let expiresAt;
+      try {
+        expiresAt = offerLetterService.normalizeExpiry(req.body.expiresAt);
+      } catch (expiryError) {
+        return res.status(400).json({ message: expiryError instanceof Error ? expiryError.message : "Invalid response deadline" });
+      }
+
+      const result = await offerLetterService.setExpiry(offer, expiresAt);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.offer);
+    } catch (error) {
+      console.error("Error updating offer deadline:", error);
+      res.status(500).json({ message: "Failed to update response deadline" });
+    }
+  });
+
+  app.post('/api/offer-letters/:id/:decision', requireAuth, async (req: any, res) => {
+    try {
+      if (!['approve', 'request-changes'].includes(req.params.decision)) {
+        return res.status(404).json({ message: "Unknown offer action" });
+      }
+
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const offer = await offerLetterService.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await offerLetterService.decide(offer, req.user.id, req.params.decision === 'approve', req.body.note, organization);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.offer);
+    } catch (error) {
+      console.error("Error deciding offer approval:", error);
+      res.status(500).json({ message: "Failed to update offer approval" });
+    }
+  });
+
+  // Send a saved offer letter to the applicant
+  app.post('/api/applicants/:id/send-offer-letter', requireAuth, async (req: any, res) => {
+    try {
+      const applicantId = req.params.id;
+      const { offerLetterId } = req.body;
+      const userId = req.user.id;
+
+      console.log(`📧 Sending offer letter ${offerLetterId} to applicant ${applicantId}...`);
+
+      if (!offerLetterId) {
+        return res.status(400).json({ message: "Save the offer as a draft before sending it" });
+      }
+
+      // Get organization details from user
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const offer = await offerLetterService.getOffer(offerLetterId);
+      if (!offer || offer.applicantId !== applicantId) {
+        return res.status(404).json({ message: "Offer letter not found" });
+      }
+      if (offer.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const blocker = offerLetterService.sendBlocker(offer, organization);
+      if (blocker) {
+        return res.status(409).json({ message: blocker });
+      }
+
+      let expiresAt;
+      try {
+        expiresAt = offerLetterService.normalizeExpiry(req.body.expiresAt);
+      } catch (expiryError) {
+        return res.status(400).json({ message: expiryError instanceof Error ? expiryError.message : "Invalid response deadline" });
+      }
+
+      // Get applicant details
+      const application = await localDatabaseService.getJobApplication(applicantId);
+      if (!application) {
+        return res.status(404).json({ message: "Applicant not found" });
+      }
+
+      if (!application.applicantEmail) {
+        return res.status(400).json({ message: "Applicant has no email address" });
+      }
+
+      const template = offer.templateId ? await offerLetterService.getTemplate(offer.templateId) : undefined;
+      const companyName = organization.companyName || 'Our Company';
+
+      // Claim the offer first so a double click can't send it twice
+      const sent = await offerLetterService.markSent(offer, userId, expiresAt);
+      if (!sent) {
+        return res.status(409).json({ message: "The offer was changed by someone else. Reload and try again." });
       }
 
       // Send email
+      let emailSent = false;
       try {
-        const emailSent = await emailService.sendOfferLetterEmail({
+        emailSent = await emailService.sendOfferLetterEmail({
           recipientEmail: application.applicantEmail,
-          recipientName: applicantName,
+          recipientName: offer.recipientName,
           companyName,
-          jobTitle,
-          offerContentText: offerContent,
+          jobTitle: offer.position,
+          offerContentText: offer.offerContent,
+          subject: template?.subject ? offerLetterService.render(template.subject, offer.mergeValues || {}) : undefined,
+          responseUrl: offerLetterService.responseUrl(sent),
+          expiresAt,
+          organizationId: offer.organizationId,
         });
 
         if (emailSent) {
@@ -2385,10 +3577,19 @@ This is a preliminary offer. A formal offer letter with complete terms will foll
         // Continue with response even if email fails
       }
 
+      await applicantEventService.record({
+        applicationId: applicantId,
+        organizationId: organization.id,
+        action: 'offer_sent',
+        actorId: userId,
+        after: { position: offer.position, salary: offer.salary || null, recipientEmail: application.applicantEmail },
+        metadata: { offerLetterId: offer.id, version: offer.version, emailSent, ...(expiresAt && { expiresAt }) },
+      });
+
       res.json({
         success: true,
         message: "Offer letter sent successfully",
-        sentAt: sentAt.toISOString()
+        sentAt: sent.sentAt!.toISOString()
       });
 
     } catch (error) {
@@ -2407,12 +3608,10 @@ This is a preliminary offer. A formal offer letter with complete terms will foll
       console.log(`🔄 Request body:`, { matchScore, matchSummary: matchSummary?.substring(0, 50) + '...', componentScores });
 
       // Update score using local database service instead of Airtable
-      console.log(`🔄 Calling updateJobApplicationStatus with comprehensive data...`);
-      // Note: We may need to extend the localDatabaseService to handle scoring updates
-      // For now, we'll update the application status
+      // The status is left alone: it is owned by the hiring pipeline
+      const previous = await localDatabaseService.getJobApplication(applicantId);
       try {
         await localDatabaseService.updateJobApplication(applicantId, {
-          status: 'scored',
           // Add scoring data if the schema supports it
           ...(matchScore !== undefined && { matchScore }),
           ...(matchSummary && { matchSummary })
@@ -2421,6 +3620,14 @@ This is a preliminary offer. A formal offer letter with complete terms will foll
         console.warn('⚠️ Could not update application with scoring data, this may require schema extension:', error);
       }
 
+      await applicantEventService.record({
+        applicationId: applicantId,
+        action: 'score_updated',
+        actorId: req.user.id,
+        before: previous ? { matchScore: (previous as any).matchScore ?? null } : null,
+        after: { matchScore: matchScore ?? null, componentScores: componentScores ?? null },
+      });
+
       console.log(`✅ Successfully updated applicant ${applicantId} with all analysis data`);
 
       res.json({
@@ -2601,12 +3808,20 @@ This is a preliminary offer. A formal offer letter with complete terms will foll
       }
 
       // Check if already shortlisted
-      if (applicant.status === 'shortlisted') {
+      if (pipelineService.statusIs(applicant.status, 'shortlisted')) {
         return res.status(400).json({ message: "Applicant already shortlisted for this job" });
       }
 
-      // Update status to 'shortlisted'
-      await localDatabaseService.updateJobApplication(applicantId, { status: 'shortlisted' });
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      const result = await pipelineService.moveToStatus({
+        applicationId: applicantId,
+        status: 'shortlisted',
+        organizationId: organization?.id,
+        changedBy: req.user.id,
+      });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
 
       console.log(`✅ Updated applicant ${applicantId} status to 'shortlisted'`);
       res.json({ success: true, message: "Applicant shortlisted successfully" });
@@ -2636,7 +3851,7 @@ This is a preliminary offer. A formal offer letter with complete terms will foll
 
       // Filter by organization's jobs and status = 'shortlisted'
       const shortlistedApplicants = allApplicants.filter((app: any) =>
-        organizationJobIds.has(app.jobId?.toString()) && app.status === 'shortlisted'
+        organizationJobIds.has(app.jobId?.toString()) && pipelineService.statusIs(app.status, 'shortlisted')
       );
 
       console.log(`✅ Found ${shortlistedApplicants.length} shortlisted applicants by status`);
@@ -2676,7 +3891,16 @@ This is a preliminary offer. A formal offer letter with complete terms will foll
   app.delete('/api/shortlisted-applicants/:id', requireAuth, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const shortlisted = (await storage.getShortlistedApplicants(req.user.id)).find(entry => entry.id === id);
       await storage.removeFromShortlist(id);
+      if (shortlisted?.applicantId) {
+        await applicantEventService.record({
+          applicationId: shortlisted.applicantId,
+          action: 'shortlist_removed',
+          actorId: req.user.id,
+          before: { shortlistId: id, note: shortlisted.note || null },
+        });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error removing from shortlist:", error);
@@ -2690,7 +3914,7 @@ This is a preliminary offer. A formal offer letter with complete terms will foll
 
       // Check status from the main applicant record
       const applicant = await localDatabaseService.getJobApplication(applicantId);
-      const isShortlisted = applicant?.status === 'shortlisted';
+      const isShortlisted = !!applicant && pipelineService.statusIs(applicant.status, 'shortlisted');
 
       res.json({ isShortlisted });
     } catch (error) {
@@ -4085,7 +5309,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
       const matchingApplication = allApplications.find(app =>
         app.applicantName === candidateName &&
         app.jobTitle === jobTitle &&
-        app.status === 'Accepted'
+        pipelineService.statusIs(app.status, 'accepted')
       );
 
       if (!matchingApplication) {
@@ -4134,17 +5358,43 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
 
       console.log(`⏪ Undoing accept for applicant ${applicantName}...`);
 
-      // Create record back in job applications using local database
-      await localDatabaseService.createJobApplication({
-        applicantName,
-        applicantUserId: userId,
-        applicantEmail: '', // Email not provided in request body
-        jobTitle,
-        jobId: req.params.id,
-        company: companyName,
-        status: 'applied',
-        jobDescription
-      });
+      const organization = await storage.getOrganizationByUser(req.user.id);
+
+      // Move the existing application back so its history is kept; only recreate it when none exists
+      const existing = (await localDatabaseService.getJobApplicationsByJob(req.params.id))
+        .find(application => application.applicantUserId === userId);
+      if (existing) {
+        const transition = await pipelineService.moveToStatus({
+          applicationId: existing.id,
+          status: 'applied',
+          organizationId: organization?.id,
+          changedBy: req.user.id,
+          reason: 'Accept undone',
+          override: true,
+        });
+        if (!transition.success) {
+          return res.status(transition.status).json({ message: transition.message });
+        }
+      } else {
+        const restored = await localDatabaseService.createJobApplication({
+          applicantName,
+          applicantUserId: userId,
+          applicantEmail: '', // Email not provided in request body
+          jobTitle,
+          jobId: req.params.id,
+          company: companyName,
+          status: 'applied',
+          jobDescription
+        });
+        await applicantEventService.record({
+          applicationId: restored.id,
+          organizationId: organization?.id,
+          action: 'accept_undone',
+          actorId: req.user.id,
+          after: { status: 'applied' },
+          metadata: { recreated: true },
+        });
+      }
 
       // Delete from job matches using local database
       const jobMatches = await localDatabaseService.getJobMatchesByUser(userId);
@@ -4159,8 +5409,6 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
       }
 
       // Remove from local accepted applicants storage
-      const user = req.user.id;
-      const organization = await storage.getOrganizationByUser(user);
       if (organization) {
         try {
           await storage.removeAcceptedApplicant(userId, req.params.id, organization.id);
@@ -4630,12 +5878,20 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         return res.status(404).json({ message: "Organization not found" });
       }
 
-      console.log(`🔄 Updating status to 'Accepted' for applicant ${application.applicantName}...`);
+      console.log(`🔄 Moving ${application.applicantName} to the hired stage...`);
 
-      // First, update the status to "Accepted"
-      await localDatabaseService.updateJobApplication(applicantId, { status: 'Accepted' });
+      // First, move the application to the pipeline's accepted (hired) stage
+      const transition = await pipelineService.moveToStatus({
+        applicationId: applicantId,
+        status: 'accepted',
+        organizationId: organization.id,
+        changedBy: userId,
+      });
+      if (!transition.success) {
+        return res.status(transition.status).json({ message: transition.message });
+      }
 
-      console.log(`✅ Status updated to 'Accepted' for ${application.applicantName}`);
+      console.log(`✅ Status updated to 'accepted' for ${application.applicantName}`);
 
       // // Then create job match record
       // console.log(`🔄 Creating job match record for ${application.applicantName}...`);
@@ -4662,7 +5918,8 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
           appliedDate: application.createdAt ? new Date(application.createdAt).toLocaleDateString() : undefined,
           skills: application.skills || [],
           experience: application.experience || undefined,
-          matchScore: application.matchScore || undefined
+          matchScore: application.matchScore || undefined,
+          organizationId: organization.id,
         });
 
         if (emailSent) {
@@ -4680,7 +5937,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         message: "Candidate successfully accepted and status updated",
         applicant: {
           ...application,
-          status: 'Accepted'
+          status: transition.application.status
         }
       });
     } catch (error) {
@@ -4721,9 +5978,18 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         console.warn('⚠️ Could not fetch applicant or organization details:', error);
       }
 
-      // Update the applicant record status in local database instead of deleting
+      // Move the application to the rejected stage instead of deleting it
       try {
-        await localDatabaseService.updateJobApplication(applicantId, { status: 'declined' } as any);
+        const transition = await pipelineService.moveToStatus({
+          applicationId: applicantId,
+          status: 'denied',
+          organizationId: organization?.id,
+          changedBy: userId || null,
+          reason: userId ? null : 'Declined automatically',
+        });
+        if (!transition.success) {
+          console.warn(`⚠️ Could not decline application ${applicantId}: ${transition.message}`);
+        }
       } catch (error) {
         console.warn('⚠️ Could not update application status to declined:', error);
       }
@@ -4742,7 +6008,8 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
             appliedDate: application.createdAt ? new Date(application.createdAt).toLocaleDateString() : undefined,
             skills: application.skills || [],
             experience: application.experience || undefined,
-            matchScore: application.matchScore || undefined
+            matchScore: application.matchScore || undefined,
+            organizationId: organization.id,
           });
 
           if (emailSent) {
@@ -4825,6 +6092,18 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
 
       await storage.addToShortlist(shortlistedData);
 
+      // Keep the application's pipeline stage in step with the shortlist table
+      const transition = await pipelineService.moveToStatus({
+        applicationId: applicantId,
+        status: 'shortlisted',
+        organizationId: organization.id,
+        changedBy: userId || null,
+        reason: userId ? null : 'Auto-shortlisted based on interview score',
+      });
+      if (!transition.success) {
+        console.warn(`⚠️ Could not move application ${applicantId} to shortlisted: ${transition.message}`);
+      }
+
       console.log(`✅ DATABASE SHORTLIST SUCCESS: Applicant ${applicantId} added to database shortlist`);
 
       // Send shortlist email
@@ -4838,7 +6117,8 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
           appliedDate: applicant.createdAt ? new Date(applicant.createdAt).toLocaleDateString() : undefined,
           skills: applicant.skills || [],
           experience: applicant.experience || undefined,
-          matchScore: applicant.matchScore || undefined
+          matchScore: applicant.matchScore || undefined,
+          organizationId: organization.id,
         });
 
         if (emailSent) {
@@ -4908,6 +6188,8 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         interviewer: userId,
         status: 'scheduled' as const,
         notes: `Moved from shortlist to interview`,
+        manageToken: interviewScheduleService.newManageToken(),
+        createdBy: userId,
         organizationId: organization.id,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -4918,6 +6200,15 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
       // Remove from shortlist
       await storage.removeFromShortlist(shortlistId);
 
+      await applicantEventService.record({
+        applicationId: applicantDetails.id,
+        organizationId: organization.id,
+        action: 'interview_scheduled',
+        actorId: userId,
+        after: { scheduledDate: interviewData.scheduledDate, scheduledTime: interviewData.scheduledTime, interviewType: interviewData.interviewType },
+        metadata: { interviewId: interviewData.id, source: 'shortlist_accept' },
+      });
+
       console.log(`✅ ACCEPT SUCCESS: Applicant ${shortlistedApplicant.applicantId} moved to interviews`);
 
       res.json({
@@ -4949,7 +6240,12 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
 
       console.log(`✅ SCHEDULE SHORTLISTED: User ${userId} scheduling interview for shortlisted applicant ${shortlistId}...`);
 
-      const { scheduledDate, scheduledTime, timeZone, interviewType, meetingLink, notes } = req.body;
+      const { scheduledDate, scheduledTime, timeZone, candidateTimeZone, durationMinutes, interviewType, meetingLink, notes } = req.body;
+
+      const scheduled = interviewScheduleService.schedule(scheduledDate, scheduledTime, timeZone);
+      if (!scheduled.success) {
+        return res.status(400).json({ message: scheduled.message });
+      }
 
       // Get shortlisted applicant details
       const shortlistedApplicants = await storage.getShortlistedApplicants(userId);
@@ -4978,6 +6274,11 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
       const interviewId = nanoid();
       const interviewer = user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email || 'Unknown';
 
+      const conflict = await interviewBookingService.recruiterConflict(organization.id, { createdBy: userId }, scheduled.values.scheduledAt, parseInt(durationMinutes) || DEFAULT_INTERVIEW_MINUTES);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
       // Get candidate name - use applicantName or fallback to name
       const candidateName = shortlistedApplicant.applicantName || shortlistedApplicant.name || 'Unknown Applicant';
       console.log('🔍 Using candidateName:', candidateName, '(applicantName:', shortlistedApplicant.applicantName, ', name:', shortlistedApplicant.name, ')');
@@ -4989,12 +6290,14 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         candidateId: applicantDetails.applicantUserId,
         jobId: shortlistedApplicant.jobId,
         jobTitle: shortlistedApplicant.jobTitle,
-        scheduledDate,
-        scheduledTime,
-        timeZone: timeZone || 'UTC',
+        ...scheduled.values,
+        durationMinutes: parseInt(durationMinutes) || DEFAULT_INTERVIEW_MINUTES,
+        candidateTimeZone: interviewScheduleService.resolveTimeZone(candidateTimeZone),
         interviewType: interviewType || 'video',
         meetingLink: meetingLink || '',
         interviewer,
+        manageToken: interviewScheduleService.newManageToken(),
+        createdBy: userId,
         status: 'scheduled',
         notes: notes || `Interview scheduled for shortlisted candidate`,
         organizationId: organization.id.toString(),
@@ -5002,26 +6305,26 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
 
       console.log(`✅ SCHEDULE SUCCESS: Interview created for ${candidateName}`);
 
+      await applicantEventService.record({
+        applicationId: applicantDetails.id,
+        organizationId: organization.id,
+        action: 'interview_scheduled',
+        actorId: userId,
+        after: { scheduledAt: scheduled.values.scheduledAt.toISOString(), timeZone: scheduled.values.timeZone, interviewType: interviewType || 'video', meetingLink: meetingLink || null },
+        metadata: { interviewId },
+      });
+      await interviewScheduleService.scheduleReminders(interview);
+      await calendarSyncService.queueSync(interview);
+
       // Send email notification to the candidate
       const finalEmail = (applicantDetails.applicantEmail || '').trim();
       if (finalEmail && finalEmail.includes('@')) {
         try {
           const { emailService } = await import('./emailService');
-          const { format } = await import('date-fns');
-
-          const formattedDate = format(new Date(scheduledDate), 'EEEE, MMMM do, yyyy');
 
           const emailData = {
-            applicantName: shortlistedApplicant.applicantName,
+            ...interviewScheduleService.candidateEmailFields(interview, organization.companyName || 'Company'),
             applicantEmail: finalEmail,
-            interviewDate: formattedDate,
-            interviewTime: scheduledTime,
-            jobTitle: shortlistedApplicant.jobTitle,
-            companyName: organization.name || 'Company',
-            interviewType: interviewType || 'video',
-            meetingLink: meetingLink,
-            timeZone: timeZone || 'UTC',
-            notes: notes
           };
 
           const emailSent = await emailService.sendInterviewScheduledEmail(emailData);
@@ -5053,9 +6356,21 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
 
       console.log(`❌ DENY SHORTLISTED: User ${userId} denying shortlisted applicant ${shortlistId}...`);
 
+      const shortlisted = (await storage.getShortlistedApplicants(userId)).find(entry => entry.id === shortlistId);
+
       // Simply remove from shortlist
       await storage.removeFromShortlist(shortlistId);
 
+      if (shortlisted?.applicantId) {
+        await applicantEventService.record({
+          applicationId: shortlisted.applicantId,
+          action: 'shortlist_removed',
+          actorId: userId,
+          before: { shortlistId, note: shortlisted.note || null },
+          metadata: { source: 'shortlist_deny' },
+        });
+      }
+
       console.log(`✅ DENY SUCCESS: Applicant removed from shortlist`);
 
       res.json({
@@ -5072,22 +6387,27 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
   app.post('/api/real-applicants/:id/unshortlist', requireAuth, async (req: any, res) => {
     try {
       const applicantId = req.params.id;
-      // Use local database service instead of Airtable
+      const organization = await storage.getOrganizationByUser(req.user.id);
 
       console.log(`🗑️ Removing applicant ${applicantId} from shortlist...`);
 
-      // Update the status in local database back to "pending" or empty
-      try {
-        await localDatabaseService.updateJobApplication(applicantId, { status: 'pending' } as any);
-      } catch (error) {
-        console.warn('⚠️ Could not update application status to pending:', error);
+      // Move the application back to the first stage with the applied status
+      const transition = await pipelineService.moveToStatus({
+        applicationId: applicantId,
+        status: 'applied',
+        organizationId: organization?.id,
+        changedBy: req.user.id,
+        reason: 'Removed from shortlist',
+      });
+      if (!transition.success) {
+        return res.status(transition.status).json({ message: transition.message });
       }
 
       console.log(`✅ Successfully removed applicant ${applicantId} from shortlist`);
       res.json({
         success: true,
         message: "Candidate removed from shortlist successfully",
-        status: 'pending'
+        status: transition.application.status
       });
     } catch (error) {
       console.error("❌ Error removing applicant from shortlist:", error);
@@ -5139,6 +6459,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
 
       const result = await response.json();
       console.log(`✅ Profile regenerated successfully for applicant ${applicantId}`);
+      await applicantEventService.record({ applicationId: applicantId, action: 'profile_regenerated', actorId: req.user.id });
       res.json(result);
 
     } catch (error) {
@@ -5238,22 +6559,370 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
     }
   });
 
-  app.get('/api/interviews', requireAuth, async (req: any, res) => {
+  // The signed-in user's own interview availability
+  app.get('/api/interviewers/availability', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const organization = await storage.getOrganizationByUser(userId);
-      const { candidateId } = req.query; // Optional filter by candidate/applicant user ID
-
+      const organization = await storage.getOrganizationByUser(req.user.id);
       if (!organization) {
         return res.status(404).json({ message: "Organization not found" });
       }
 
-      const { realInterviews, users } = await import('@shared/schema');
-      const { eq, and } = await import('drizzle-orm');
-      const { db } = await import('./db');
-
-      // Build query conditions
-      const conditions = [eq(realInterviews.organizationId, organization.id.toString())];
+      res.json(await interviewBookingService.getAvailability(organization.id, req.user.id));
+    } catch (error) {
+      console.error("Error fetching interviewer availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
+  app.put('/api/interviewers/availability', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      let settings;
+      try {
+        settings = interviewBookingService.normalizeAvailability(req.body);
+      } catch (validationError: any) {
+        return res.status(400).json({ message: validationError.message });
+      }
+
+      await interviewBookingService.saveAvailability(organization.id, req.user.id, settings);
+      res.json({ ...settings, configured: true });
+    } catch (error) {
+      console.error("Error saving interviewer availability:", error);
+      res.status(500).json({ message: "Failed to save availability" });
+    }
+  });
+
+  // The signed-in user's interview feed and connected calendars
+  app.get('/api/calendar/settings', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const token = await calendarSyncService.getFeedToken(organization.id, req.user.id);
+      res.json({
+        feedUrl: calendarSyncService.feedUrl(token),
+        providers: CALENDAR_PROVIDERS,
+        connections: await calendarSyncService.getConnections(organization.id, req.user.id),
+      });
+    } catch (error) {
+      console.error("Error fetching calendar settings:", error);
+      res.status(500).json({ message: "Failed to fetch calendar settings" });
+    }
+  });
+
+  app.post('/api/calendar/feed/regenerate', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const token = await calendarSyncService.getFeedToken(organization.id, req.user.id, true);
+      res.json({ feedUrl: calendarSyncService.feedUrl(token) });
+    } catch (error) {
+      console.error("Error regenerating calendar feed:", error);
+      res.status(500).json({ message: "Failed to regenerate calendar feed" });
+    }
+  });
+
+  app.put('/api/calendar/connections/:provider', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const { url, username, password } = req.body;
+      const result = await calendarSyncService.connect(organization.id, req.user.id, req.params.provider, { url, username, password });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ connections: await calendarSyncService.getConnections(organization.id, req.user.id) });
+    } catch (error) {
+      console.error("Error connecting calendar:", error);
+      res.status(500).json({ message: "Failed to connect calendar" });
+    }
+  });
+
+  app.delete('/api/calendar/connections/:provider', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const removed = await calendarSyncService.disconnect(organization.id, req.user.id, req.params.provider);
+      if (!removed) {
+        return res.status(404).json({ message: "Calendar not connected" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error disconnecting calendar:", error);
+      res.status(500).json({ message: "Failed to disconnect calendar" });
+    }
+  });
+
+  // Pull changes made in the external calendar now rather than waiting for the background sync
+  app.post('/api/calendar/connections/:provider/sync', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const updated = await calendarSyncService.pullForUser(organization.id, req.user.id, req.params.provider);
+      if (updated === null) {
+        return res.status(404).json({ message: "Calendar not connected" });
+      }
+      res.json({ updated, connections: await calendarSyncService.getConnections(organization.id, req.user.id) });
+    } catch (error) {
+      console.error("Error syncing calendar:", error);
+      res.status(500).json({ message: "Failed to sync calendar" });
+    }
+  });
+
+  // Public iCalendar feed, authorized by the secret token in its URL
+  app.get('/api/calendar/feed/:token', async (req, res) => {
+    try {
+      const feed = await calendarSyncService.renderFeed(req.params.token.replace(/\.ics$/, ''));
+      if (!feed) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(feed);
+    } catch (error) {
+      console.error("Error rendering calendar feed:", error);
+      res.status(500).json({ message: "Failed to render calendar feed" });
+    }
+  });
+
+  // Send a shortlisted candidate a link to book their own interview slot
+  app.post('/api/applicants/:id/booking-link', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const { interviewerIds, durationMinutes, interviewType, meetingLink, notes } = req.body;
+      const result = await interviewBookingService.createLink(organization.id, userId, req.params.id, {
+        interviewerIds: Array.isArray(interviewerIds) ? interviewerIds : undefined,
+        durationMinutes,
+        interviewType,
+        meetingLink,
+        notes,
+      });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ url: result.url, expiresAt: result.link.expiresAt, emailSent: result.emailSent });
+    } catch (error) {
+      console.error("Error creating interview booking link:", error);
+      res.status(500).json({ message: "Failed to create booking link" });
+    }
+  });
+
+  // Public self-service booking, authorized by the token in the booking email
+  app.get('/api/interview-booking/:token', async (req, res) => {
+    try {
+      const view = await interviewBookingService.getPublicView(req.params.token);
+      if (!view) {
+        return res.status(404).json({ message: "Booking link not found" });
+      }
+      res.json(view);
+    } catch (error) {
+      console.error("Error fetching interview booking link:", error);
+      res.status(500).json({ message: "Failed to fetch booking link" });
+    }
+  });
+
+  app.post('/api/interview-booking/:token', async (req, res) => {
+    try {
+      const result = await interviewBookingService.book(req.params.token, { start: req.body.start, timeZone: req.body.timeZone });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await calendarSyncService.queueSync(result.interview);
+      res.json({
+        success: true,
+        scheduledAt: result.interview.scheduledAt,
+        manageUrl: result.interview.manageToken ? `/interviews/manage/${result.interview.manageToken}` : null,
+      });
+    } catch (error) {
+      console.error("Error booking interview slot:", error);
+      res.status(500).json({ message: "Failed to book interview" });
+    }
+  });
+
+  // Candidate offer page, authorized by the token in the offer email
+  app.get('/api/offer-response/:token', async (req, res) => {
+    try {
+      const offer = await offerLetterService.getByResponseToken(req.params.token);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      const organization = await storage.getOrganizationById(offer.organizationId);
+      res.json(offerLetterService.publicView(offer, organization));
+    } catch (error) {
+      console.error("Error fetching offer by response token:", error);
+      res.status(500).json({ message: "Failed to fetch offer" });
+    }
+  });
+
+  app.get('/api/offer-response/:token/pdf', async (req, res) => {
+    try {
+      const offer = await offerLetterService.getByResponseToken(req.params.token);
+      if (!offer || !offerLetterService.visibleToCandidate(offer)) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      const organization = await storage.getOrganizationById(offer.organizationId);
+      const pdf = await offerLetterService.renderPdf(offer, organization);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${offerLetterService.pdfFileName(offer)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error rendering offer PDF by response token:", error);
+      res.status(500).json({ message: "Failed to render offer" });
+    }
+  });
+
+  app.post('/api/offer-response/:token', async (req, res) => {
+    try {
+      const offer = await offerLetterService.getByResponseToken(req.params.token);
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+
+      const signerIp = req.ip || req.socket?.remoteAddress || null;
+      const result = await offerLetterService.respond(offer, req.body || {}, signerIp);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const updated = result.offer;
+
+      // Requested changes open the negotiation thread for the recruiter to act on
+      if (updated.status === 'changes_requested' && updated.responseNote) {
+        await offerNegotiationService.log(updated, { source: 'candidate', changes: {}, note: updated.responseNote }, null);
+      }
+
+      await applicantEventService.record({
+        applicationId: updated.applicantId,
+        organizationId: updated.organizationId,
+        action: 'offer_responded',
+        before: { status: offer.status },
+        after: { status: updated.status },
+        metadata: {
+          offerLetterId: updated.id,
+          version: updated.version,
+          ...(updated.responseNote && { note: updated.responseNote }),
+          ...(updated.status === 'accepted' && { signerName: updated.signerName, signerIp, documentHash: updated.documentHash }),
+        },
+      });
+
+      if (updated.status === 'accepted') {
+        const transition = await pipelineService.moveToStatus({
+          applicationId: updated.applicantId,
+          status: 'accepted',
+          organizationId: updated.organizationId,
+          reason: 'Offer accepted',
+        });
+        if (!transition.success) {
+          console.warn(`⚠️ Could not move application ${updated.applicantId} to hired after offer acceptance: ${transition.message}`);
+        }
+      }
+
+      const organization = await storage.getOrganizationById(updated.organizationId);
+      await offerLetterService.notifyResponse(updated, organization);
+      res.json(offerLetterService.publicView(updated, organization));
+    } catch (error) {
+      console.error("Error responding to offer:", error);
+      res.status(500).json({ message: "Failed to record your response" });
+    }
+  });
+
+  // Candidate-facing interview management, authorized by the token in the invitation email
+  app.get('/api/interviews/manage/:token', async (req, res) => {
+    try {
+      const interview = await interviewScheduleService.getByManageToken(req.params.token);
+      if (!interview) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+
+      const organization = interview.organizationId ? await storage.getOrganizationById(interview.organizationId) : undefined;
+      const check = interviewScheduleService.canChange(interview);
+      res.json({
+        candidateName: interview.candidateName,
+        jobTitle: interview.jobTitle,
+        companyName: organization?.companyName || null,
+        scheduledAt: interviewScheduleService.startOf(interview)?.toISOString() || null,
+        timeZone: interview.timeZone,
+        durationMinutes: interview.durationMinutes || DEFAULT_INTERVIEW_MINUTES,
+        interviewType: interview.interviewType,
+        meetingLink: interview.meetingLink || null,
+        status: interview.status,
+        canChange: check.allowed,
+        reason: check.reason || null,
+      });
+    } catch (error) {
+      console.error("Error fetching interview by manage token:", error);
+      res.status(500).json({ message: "Failed to fetch interview" });
+    }
+  });
+
+  app.post('/api/interviews/manage/:token/reschedule', async (req, res) => {
+    try {
+      const { scheduledDate, scheduledTime, timeZone } = req.body;
+      const result = await interviewScheduleService.reschedule(req.params.token, { scheduledDate, scheduledTime, timeZone });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await calendarSyncService.queueSync(result.interview);
+      res.json({ success: true, scheduledAt: result.interview.scheduledAt });
+    } catch (error) {
+      console.error("Error rescheduling interview:", error);
+      res.status(500).json({ message: "Failed to reschedule interview" });
+    }
+  });
+
+  app.post('/api/interviews/manage/:token/cancel', async (req, res) => {
+    try {
+      const reason = typeof req.body.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim().slice(0, 1000) : null;
+      const result = await interviewScheduleService.cancel(req.params.token, reason);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await calendarSyncService.queueSync(result.interview);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling interview:", error);
+      res.status(500).json({ message: "Failed to cancel interview" });
+    }
+  });
+
+  app.get('/api/interviews', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      const { candidateId } = req.query; // Optional filter by candidate/applicant user ID
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const { realInterviews, users } = await import('@shared/schema');
+      const { eq, and } = await import('drizzle-orm');
+      const { db } = await import('./db');
+
+      // Build query conditions
+      const conditions = [eq(realInterviews.organizationId, organization.id.toString())];
 
       // Add candidateId filter if provided
       if (candidateId) {
@@ -5272,6 +6941,9 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
           scheduledDate: realInterviews.scheduledDate,
           scheduledTime: realInterviews.scheduledTime,
           timeZone: realInterviews.timeZone,
+          scheduledAt: realInterviews.scheduledAt,
+          durationMinutes: realInterviews.durationMinutes,
+          candidateTimeZone: realInterviews.candidateTimeZone,
           interviewType: realInterviews.interviewType,
           meetingLink: realInterviews.meetingLink,
           interviewer: realInterviews.interviewer,
@@ -5294,7 +6966,11 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         .leftJoin(users, eq(realInterviews.candidateId, users.id))
         .where(conditions.length > 1 ? and(...conditions) : conditions[0]);
 
-      res.json(userInterviews);
+      // Rows created before instants were stored get one derived from their date, time and zone
+      res.json(userInterviews.map((interview: any) => ({
+        ...interview,
+        scheduledAt: interviewScheduleService.startOf(interview),
+      })));
     } catch (error) {
       console.error("Error fetching interviews:", error);
       res.status(500).json({ message: "Failed to fetch interviews" });
@@ -5315,7 +6991,12 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         return res.status(404).json({ message: "User not found" });
       }
 
-      const { candidateName, candidateEmail, candidateId, jobId, jobTitle, scheduledDate, scheduledTime, timeZone, interviewType, meetingLink, notes } = req.body;
+      const { candidateName, candidateEmail, candidateId, jobId, jobTitle, scheduledDate, scheduledTime, timeZone, candidateTimeZone, durationMinutes, interviewType, meetingLink, notes } = req.body;
+
+      const scheduled = interviewScheduleService.schedule(scheduledDate, scheduledTime, timeZone);
+      if (!scheduled.success) {
+        return res.status(400).json({ message: scheduled.message });
+      }
 
       const { realInterviews } = await import('@shared/schema');
       const { nanoid } = await import('nanoid');
@@ -5324,6 +7005,11 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
       const interviewId = nanoid();
       const interviewer = user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email || 'Unknown';
 
+      const conflict = await interviewBookingService.recruiterConflict(organization.id, { createdBy: userId }, scheduled.values.scheduledAt, parseInt(durationMinutes) || DEFAULT_INTERVIEW_MINUTES);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
       const [interview] = await db.insert(realInterviews).values({
         id: interviewId,
         candidateName,
@@ -5331,19 +7017,31 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         candidateId, // candidateId should be the applicant's user ID from the client
         jobId,
         jobTitle,
-        scheduledDate,
-        scheduledTime,
-        timeZone: timeZone || 'UTC',
+        ...scheduled.values,
+        durationMinutes: parseInt(durationMinutes) || DEFAULT_INTERVIEW_MINUTES,
+        candidateTimeZone: interviewScheduleService.resolveTimeZone(candidateTimeZone),
         interviewType: interviewType || 'video',
         meetingLink: meetingLink || '',
         interviewer,
         status: 'scheduled',
         notes: notes || '',
+        manageToken: interviewScheduleService.newManageToken(),
+        createdBy: userId,
         organizationId: organization.id.toString(),
       }).returning();
 
       console.log(`✅ Created interview for ${candidateName} on ${scheduledDate} at ${scheduledTime}`);
 
+      await applicantEventService.recordForCandidate({ applicantUserId: candidateId, jobId }, {
+        organizationId: organization.id,
+        action: 'interview_scheduled',
+        actorId: userId,
+        after: { scheduledAt: scheduled.values.scheduledAt.toISOString(), timeZone: scheduled.values.timeZone, interviewType: interviewType || 'video', meetingLink: meetingLink || null },
+        metadata: { interviewId },
+      });
+      await interviewScheduleService.scheduleReminders(interview);
+      await calendarSyncService.queueSync(interview);
+
       // Send email notification to the candidate
       console.log(`📧 EMAIL DEBUG: candidateEmail='${candidateEmail}', candidateName='${candidateName}'`);
 
@@ -5354,22 +7052,11 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         try {
           console.log(`📧 SENDING EMAIL: Attempting to send interview notification to ${finalEmail}`);
           const { emailService } = await import('./emailService');
-          const { formatDistanceToNow, format } = await import('date-fns');
-
-          // Format the date for display
-          const formattedDate = format(new Date(scheduledDate), 'EEEE, MMMM do, yyyy');
 
+          // Date and time are rendered in the candidate's zone, with a calendar invite and reschedule link
           const emailData = {
-            applicantName: candidateName,
+            ...interviewScheduleService.candidateEmailFields(interview, organization.companyName || 'Company'),
             applicantEmail: finalEmail,
-            interviewDate: formattedDate,
-            interviewTime: scheduledTime,
-            jobTitle: jobTitle || 'Position',
-            companyName: organization.name || 'Company',
-            interviewType: interviewType || 'video',
-            meetingLink: meetingLink,
-            timeZone: timeZone || 'UTC',
-            notes: notes
           };
 
           console.log(`📧 EMAIL DATA:`, emailData);
@@ -5470,27 +7157,68 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         return res.status(404).json({ message: "Organization not found" });
       }
 
-      const { scheduledDate, scheduledTime, timeZone, interviewType, meetingLink, notes, status } = req.body;
+      const { scheduledDate, scheduledTime, timeZone, durationMinutes, interviewType, meetingLink, notes, status } = req.body;
 
       const { realInterviews } = await import('@shared/schema');
       const { eq, and } = await import('drizzle-orm');
       const { db } = await import('./db');
 
+      const [previousInterview] = await db.select().from(realInterviews)
+        .where(and(
+          eq(realInterviews.id, interviewId),
+          eq(realInterviews.organizationId, organization.id.toString())
+        ));
+
+      if (!previousInterview) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+
       const updateData: any = {
         updatedAt: new Date(),
       };
 
-      if (scheduledDate !== undefined) updateData.scheduledDate = scheduledDate;
-      if (scheduledTime !== undefined) updateData.scheduledTime = scheduledTime;
-      if (timeZone !== undefined) updateData.timeZone = timeZone;
+      // Any change to the date, time or zone re-resolves the stored instant from the merged values
+      if (scheduledDate !== undefined || scheduledTime !== undefined || timeZone !== undefined) {
+        const scheduled = interviewScheduleService.schedule(
+          scheduledDate ?? previousInterview.scheduledDate,
+          scheduledTime ?? previousInterview.scheduledTime,
+          timeZone ?? previousInterview.timeZone,
+        );
+        if (!scheduled.success) {
+          return res.status(400).json({ message: scheduled.message });
+        }
+        Object.assign(updateData, scheduled.values);
+      }
+      if (durationMinutes !== undefined) updateData.durationMinutes = parseInt(durationMinutes) || DEFAULT_INTERVIEW_MINUTES;
       if (interviewType !== undefined) updateData.interviewType = interviewType;
       if (meetingLink !== undefined) updateData.meetingLink = meetingLink;
       if (notes !== undefined) updateData.notes = notes;
       if (status !== undefined) updateData.status = status;
 
-      // Ensure timezone has a default value if not provided
-      if (timeZone === undefined && !updatedInterview?.timeZone) {
-        updateData.timeZone = 'UTC';
+      // A moved or lengthened interview must still fit around its interviewers' other interviews
+      const previousStart = interviewScheduleService.startOf(previousInterview);
+      const nextStart: Date | null = updateData.scheduledAt || previousStart;
+      const nextStatus = status ?? previousInterview.status;
+      const moved = !!updateData.scheduledAt && updateData.scheduledAt.getTime() !== previousStart?.getTime();
+      const lengthened = updateData.durationMinutes !== undefined && updateData.durationMinutes > (previousInterview.durationMinutes || DEFAULT_INTERVIEW_MINUTES);
+      const reopened = previousInterview.status === 'cancelled' && nextStatus !== 'cancelled';
+      if (nextStart && nextStatus !== 'cancelled' && (moved || lengthened || reopened)) {
+        const conflict = await interviewBookingService.recruiterConflict(
+          organization.id,
+          previousInterview,
+          nextStart,
+          updateData.durationMinutes ?? previousInterview.durationMinutes ?? DEFAULT_INTERVIEW_MINUTES
+        );
+        if (conflict) {
+          return res.status(409).json({ message: conflict });
+        }
+      }
+
+      // Calendar clients only replace an invite whose sequence has moved on
+      if ((updateData.scheduledAt && updateData.scheduledAt.getTime() !== previousStart?.getTime()) ||
+          (updateData.durationMinutes !== undefined && updateData.durationMinutes !== previousInterview.durationMinutes) ||
+          (status !== undefined && status !== previousInterview.status)) {
+        updateData.icsSequence = (previousInterview.icsSequence || 0) + 1;
       }
 
       console.log(`🔄 Updating interview ${interviewId} with data:`, updateData);
@@ -5509,6 +7237,24 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         return res.status(404).json({ message: "Interview not found" });
       }
 
+      if (updateData.icsSequence !== undefined) {
+        await interviewScheduleService.scheduleReminders(updatedInterview);
+      }
+      await calendarSyncService.queueSync(updatedInterview);
+
+      const changedFields = Object.keys(updateData).filter(field =>
+        !['updatedAt', 'scheduledAt', 'icsSequence'].includes(field) && String(previousInterview?.[field] ?? '') !== String(updateData[field] ?? ''));
+      if (changedFields.length > 0) {
+        await applicantEventService.recordForCandidate({ applicantUserId: updatedInterview.candidateId, jobId: updatedInterview.jobId }, {
+          organizationId: organization.id,
+          action: 'interview_updated',
+          actorId: userId,
+          before: Object.fromEntries(changedFields.map(field => [field, previousInterview?.[field] ?? null])),
+          after: Object.fromEntries(changedFields.map(field => [field, updateData[field] ?? null])),
+          metadata: { interviewId },
+        });
+      }
+
       // Auto-update Airtable whenever any interview field is updated
       try {
         console.log('🔄 Auto-updating Airtable platojobmatches for interview changes...');
@@ -5621,6 +7367,20 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         return res.status(404).json({ message: "Interview not found" });
       }
 
+      await applicantEventService.recordForCandidate({ applicantUserId: deletedInterview.candidateId, jobId: deletedInterview.jobId }, {
+        organizationId: organization.id,
+        action: 'interview_deleted',
+        actorId: userId,
+        before: {
+          scheduledDate: deletedInterview.scheduledDate,
+          scheduledTime: deletedInterview.scheduledTime,
+          interviewType: deletedInterview.interviewType,
+          status: deletedInterview.status,
+        },
+        metadata: { interviewId },
+      });
+      await calendarSyncService.queueSync(deletedInterview);
+
       // Auto-clear interview details from Airtable platojobmatches when interview is deleted
       try {
         console.log('🔄 Auto-clearing interview details from Airtable platojobmatches...');
@@ -5703,6 +7463,84 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
     }
   });
 
+  // Interview scorecards: panel, the viewer's own scorecard and, once it is submitted, everyone else's
+  app.get('/api/interviews/:id/scorecards', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const interview = await scorecardService.getInterview(req.params.id, organization.id);
+      if (!interview) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+
+      res.json(await scorecardService.getInterviewView(interview, userId));
+    } catch (error) {
+      console.error("Error fetching interview scorecards:", error);
+      res.status(500).json({ message: "Failed to fetch interview scorecards" });
+    }
+  });
+
+  app.put('/api/interviews/:id/interviewers', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      if (!Array.isArray(req.body.userIds)) {
+        return res.status(400).json({ message: "userIds must be an array" });
+      }
+
+      const interview = await scorecardService.getInterview(req.params.id, organization.id);
+      if (!interview) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+
+      const result = await scorecardService.setInterviewers(interview, req.body.userIds, userId);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await calendarSyncService.queueSync(interview);
+
+      res.json(await scorecardService.getInterviewView(interview, userId));
+    } catch (error) {
+      console.error("Error assigning interviewers:", error);
+      res.status(500).json({ message: "Failed to assign interviewers" });
+    }
+  });
+
+  // Save the current user's scorecard as a draft, or submit it with { submit: true }
+  app.put('/api/interviews/:id/scorecards/mine', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const interview = await scorecardService.getInterview(req.params.id, organization.id);
+      if (!interview) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+
+      const { ratings, answers, recommendation, notes, submit } = req.body;
+      const result = await scorecardService.saveScorecard(interview, userId, { ratings, answers, recommendation, notes, submit: submit === true });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+
+      res.json(await scorecardService.getInterviewView(interview, userId));
+    } catch (error) {
+      console.error("Error saving scorecard:", error);
+      res.status(500).json({ message: "Failed to save scorecard" });
+    }
+  });
+
   // Get accepted applicants - now queries by status from airtableJobApplications
   app.get('/api/accepted-applicants', requireAuth, async (req: any, res) => {
     try {
@@ -5724,7 +7562,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
 
       // Filter by organization's jobs and status = 'accepted'
       const acceptedApplicants = allApplicants.filter((app: any) =>
-        organizationJobIds.has(app.jobId?.toString()) && app.status === 'accepted'
+        organizationJobIds.has(app.jobId?.toString()) && pipelineService.statusIs(app.status, 'accepted')
       );
 
       console.log(`✅ Found ${acceptedApplicants.length} accepted applicants by status`);
@@ -5766,7 +7604,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
 
       // Filter by jobId and status = 'accepted'
       const acceptedApplicants = allApplicants.filter((app: any) =>
-        app.jobId?.toString() === jobId && app.status === 'accepted'
+        app.jobId?.toString() === jobId && pipelineService.statusIs(app.status, 'accepted')
       );
 
       console.log(`✅ Found ${acceptedApplicants.length} accepted applicants for Job ID ${jobId}`);
@@ -5811,7 +7649,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
       // Filter by organization's jobs and status = 'shortlisted' OR 'accepted'
       let interviewableApplicants = allApplicants.filter((app: any) =>
         organizationJobIds.has(app.jobId?.toString()) &&
-        (app.status === 'shortlisted' || app.status === 'accepted')
+        (pipelineService.statusIs(app.status, 'shortlisted') || pipelineService.statusIs(app.status, 'accepted'))
       );
 
       // Optionally filter by specific job
@@ -6180,6 +8018,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
             message: message || '',
             registrationLink: registrationLink,
             inviteCode: inviteCode,
+            organizationId: organization.id,
           });
 
           if (emailSent) {
@@ -6313,161 +8152,524 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         hasActiveJobs: allJobs.length > 0
       });
     } catch (error) {
-      console.error("Error fetching active jobs:", error);
-      res.status(500).json({ message: "Failed to fetch active jobs" });
+      console.error("Error fetching active jobs:", error);
+      res.status(500).json({ message: "Failed to fetch active jobs" });
+    }
+  });
+
+  // Get all resume profiles for organization (optimized - slim response with DB-level filtering)
+  app.get('/api/resume-profiles', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { jobId, page = 1, limit = 10, sortBy = 'score', sortOrder = 'desc', search, status } = req.query;
+      const organization = await storage.getOrganizationByUser(userId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      // Parse pagination parameters
+      const pageNum = parseInt(page, 10);
+      const limitNum = parseInt(limit, 10);
+      const validPage = pageNum > 0 ? pageNum : 1;
+      // Allow large limit for "All" option (10000), otherwise cap at 100
+      const validLimit = limitNum > 0 ? (limitNum >= 10000 ? 10000 : Math.min(limitNum, 100)) : 10;
+
+      // Structured experience/education filters
+      const parseNumber = (value: unknown) => {
+        const parsed = parseFloat(String(value ?? ''));
+        return Number.isFinite(parsed) ? parsed : undefined;
+      };
+      const profileFilters: ResumeProfileFilters = {
+        employer: typeof req.query.employer === 'string' ? req.query.employer : undefined,
+        title: typeof req.query.title === 'string' ? req.query.title : undefined,
+        degree: typeof req.query.degree === 'string' ? req.query.degree : undefined,
+        minTenureYears: parseNumber(req.query.minTenureYears),
+        maxTenureYears: parseNumber(req.query.maxTenureYears),
+        graduationYearFrom: parseNumber(req.query.graduationYearFrom),
+        graduationYearTo: parseNumber(req.query.graduationYearTo),
+      };
+
+      // Import localDatabaseService for job matches lookup
+      const { localDatabaseService } = await import('./localDatabaseService');
+
+      // Get filtered count and slim profiles using database-level filtering
+      // This avoids loading ALL profiles into memory
+      const filteredTotalCount = await storage.getResumeProfilesCountFiltered(
+        organization.id,
+        search,
+        status,
+        jobId,
+        profileFilters
+      );
+
+      // Get only the paginated slim profiles (excludes resumeText, experience, skills, etc.)
+      const slimProfiles = await storage.getResumeProfilesSlimWithFilters(
+        organization.id,
+        validPage,
+        validLimit,
+        sortBy,
+        sortOrder,
+        search,
+        status,
+        jobId,
+        profileFilters
+      );
+
+      // Get all organization jobs for title lookup
+      const jobs = await storage.getJobsByOrganization(organization.id);
+      const jobsMap = new Map(jobs.map(job => [job.id, job]));
+
+      // Get slim job scores for only the paginated profiles (excludes fullResponse)
+      const profileIds = slimProfiles.map(profile => profile.id);
+      const allJobScores = await storage.getJobScoresSlimByProfileIds(profileIds);
+
+      // Group job scores by profile ID for quick lookup
+      const jobScoresByProfile = new Map<string, typeof allJobScores>();
+      for (const score of allJobScores) {
+        if (!score.profileId) continue;
+        const existing = jobScoresByProfile.get(score.profileId) || [];
+        existing.push(score);
+        jobScoresByProfile.set(score.profileId, existing);
+      }
+
+      // Batch fetch job matches for invitation status
+      const uniqueJobIds = [...new Set(allJobScores.map(score => String(score.jobId)))];
+      const allJobMatches = await localDatabaseService.getJobMatchesByJobIds(uniqueJobIds);
+
+      // Index job matches by jobId + profileId for quick lookup
+      const jobMatchesIndex = new Map<string, typeof allJobMatches[0]>();
+      for (const match of allJobMatches) {
+        const key = `${match.jobId}:${match.userId}`;
+        jobMatchesIndex.set(key, match);
+      }
+
+      // Build profiles with scores
+      let profilesWithScores = slimProfiles.map(profile => {
+        const profileJobScores = jobScoresByProfile.get(profile.id) || [];
+
+        // Filter job scores by specific jobId if provided
+        const filteredJobScores = jobId
+          ? profileJobScores.filter(score => String(score.jobId) === String(jobId))
+          : profileJobScores;
+
+        // Add invitation status from pre-fetched job matches
+        const jobScoresWithInvitationStatus = filteredJobScores.map(score => {
+          const matchKey = `${score.jobId}:${profile.id}`;
+          const existingMatch = jobMatchesIndex.get(matchKey);
+
+          return {
+            ...score,
+            jobTitle: jobsMap.get(score.jobId!)?.title || 'Unknown Job',
+            invitationStatus: existingMatch ? existingMatch.status : null,
+            interviewDate: existingMatch?.interviewDate || null,
+            interviewTime: existingMatch?.interviewTime || null,
+            interviewLink: existingMatch?.interviewLink || null,
+          };
+        });
+
+        return {
+          ...profile,
+          jobScores: jobScoresWithInvitationStatus
+        };
+      });
+
+      // Apply invited/not-invited status filter in-memory (requires job matches data)
+      // Note: qualified/disqualified and search filters are handled at DB level
+      if (status === 'invited') {
+        profilesWithScores = profilesWithScores.filter(profile =>
+          profile.jobScores.some(score => score.invitationStatus === 'invited')
+        );
+      } else if (status === 'not-invited') {
+        profilesWithScores = profilesWithScores.filter(profile =>
+          profile.jobScores.some(score =>
+            !score.disqualified && score.invitationStatus !== 'invited'
+          )
+        );
+      }
+
+      // Calculate stats for response
+      let qualifiedCount = 0;
+      let disqualifiedCount = 0;
+
+      profilesWithScores.forEach(profile => {
+        profile.jobScores.forEach(jobScore => {
+          if (jobScore.disqualified) {
+            disqualifiedCount++;
+          } else {
+            qualifiedCount++;
+          }
+        });
+      });
+
+      // Calculate pagination
+      const filteredTotalPages = Math.ceil(filteredTotalCount / validLimit);
+
+      res.json({
+        data: profilesWithScores,
+        pagination: {
+          currentPage: validPage,
+          totalPages: filteredTotalPages,
+          totalItems: filteredTotalCount,
+          itemsPerPage: validLimit,
+          hasNextPage: validPage < filteredTotalPages,
+          hasPrevPage: validPage > 1
+        },
+        stats: {
+          totalProfiles: filteredTotalCount,
+          qualifiedCount,
+          disqualifiedCount
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching resume profiles:", error);
+      res.status(500).json({ message: "Failed to fetch resume profiles" });
+    }
+  });
+
+  // Possible duplicate profiles flagged at ingest (pending recruiter review)
+  app.get('/api/resume-profiles/duplicates', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const groups = await candidateDedupService.getPossibleDuplicates(organization.id);
+
+      // Strip the raw file payload; the review screen only needs parsed fields
+      const slim = ({ resumeText, ...profile }: any) => profile;
+      res.json(groups.map(group => ({
+        ...group.pair,
+        profile: slim(group.profile),
+        duplicate: slim(group.duplicate),
+      })));
+    } catch (error) {
+      console.error("Error fetching possible duplicates:", error);
+      res.status(500).json({ message: "Failed to fetch possible duplicates" });
+    }
+  });
+
+  // Dismiss a possible duplicate pair (the profiles are different people)
+  app.post('/api/resume-profiles/duplicates/:id/dismiss', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const pairId = parseInt(req.params.id, 10);
+
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const pair = await candidateDedupService.getDuplicatePair(pairId);
+      if (!pair || pair.organizationId !== organization.id) {
+        return res.status(404).json({ message: "Duplicate pair not found" });
+      }
+
+      const dismissed = await candidateDedupService.dismissDuplicate(pairId, userId);
+      res.json(dismissed);
+    } catch (error) {
+      console.error("Error dismissing duplicate:", error);
+      res.status(500).json({ message: "Failed to dismiss duplicate" });
+    }
+  });
+
+  // Merge duplicate profiles into the profile in the URL (the survivor)
+  app.post('/api/resume-profiles/:id/merge', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { id } = req.params;
+      const { sourceProfileIds } = req.body;
+
+      if (!Array.isArray(sourceProfileIds) || sourceProfileIds.length === 0) {
+        return res.status(400).json({ message: "sourceProfileIds must be a non-empty array" });
+      }
+      if (sourceProfileIds.includes(id)) {
+        return res.status(400).json({ message: "A profile cannot be merged into itself" });
+      }
+
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      for (const profileId of [id, ...sourceProfileIds]) {
+        const profile = await storage.getResumeProfileById(profileId);
+        if (!profile) {
+          return res.status(404).json({ message: `Profile ${profileId} not found` });
+        }
+        if (profile.organizationId !== organization.id) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const result = await candidateDedupService.mergeProfiles(id, sourceProfileIds, userId);
+      const { resumeText, ...survivor } = result.survivor;
+
+      console.log(`✅ Merged profiles ${sourceProfileIds.join(', ')} into ${id} by user ${userId}`);
+
+      res.json({ ...result, survivor });
+    } catch (error) {
+      console.error("Error merging resume profiles:", error);
+      res.status(500).json({
+        message: "Failed to merge profiles",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Invitation reminders scheduled for a candidate, pending and past, optionally for one job
+  app.get('/api/resume-profiles/:id/invitation-reminders', requireAuth, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const profile = await storage.getResumeProfileById(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (profile.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const jobIds = typeof req.query.jobId === 'string' && req.query.jobId ? [req.query.jobId] : undefined;
+      const reminders = await invitationReminderService.listForProfile(organization.id, req.params.id, jobIds);
+      res.json(reminders.map(({ payload, ...reminder }) => ({ ...reminder, jobTitle: payload.jobTitle })));
+    } catch (error) {
+      console.error("Error fetching invitation reminders:", error);
+      res.status(500).json({ message: "Failed to fetch invitation reminders" });
+    }
+  });
+
+  // Version history of a resume profile (newest first, without file contents)
+  app.get('/api/resume-profiles/:id/versions', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { id } = req.params;
+
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const profile = await storage.getResumeProfileById(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (profile.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const versions = await resumeVersionService.getVersions(id);
+      res.json({
+        currentVersion: profile.currentVersion,
+        versions: versions.map(({ resumeText, parsedData, ...version }) => version),
+      });
+    } catch (error) {
+      console.error("Error fetching resume versions:", error);
+      res.status(500).json({ message: "Failed to fetch resume versions" });
+    }
+  });
+
+  // Compare two versions of a resume profile (?from=1&to=2, defaults to previous vs current)
+  app.get('/api/resume-profiles/:id/versions/diff', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { id } = req.params;
+
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const profile = await storage.getResumeProfileById(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (profile.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const to = req.query.to ? parseInt(req.query.to as string, 10) : profile.currentVersion;
+      const from = req.query.from ? parseInt(req.query.from as string, 10) : to - 1;
+
+      const [fromVersion, toVersion] = await Promise.all([
+        resumeVersionService.getVersion(id, from),
+        resumeVersionService.getVersion(id, to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      res.json(resumeVersionService.diffVersions(fromVersion, toVersion));
+    } catch (error) {
+      console.error("Error comparing resume versions:", error);
+      res.status(500).json({ message: "Failed to compare resume versions" });
     }
   });
 
-  // Get all resume profiles for organization (optimized - slim response with DB-level filtering)
-  app.get('/api/resume-profiles', requireAuth, async (req: any, res) => {
+  // Download the original file of a specific version
+  app.get('/api/resume-profiles/:id/versions/:version', requireAuth, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { jobId, page = 1, limit = 10, sortBy = 'score', sortOrder = 'desc', search, status } = req.query;
-      const organization = await storage.getOrganizationByUser(userId);
+      const { id } = req.params;
+      const versionNumber = parseInt(req.params.version, 10);
 
+      const organization = await storage.getOrganizationByUser(userId);
       if (!organization) {
         return res.status(404).json({ message: "Organization not found" });
       }
 
-      // Parse pagination parameters
-      const pageNum = parseInt(page, 10);
-      const limitNum = parseInt(limit, 10);
-      const validPage = pageNum > 0 ? pageNum : 1;
-      // Allow large limit for "All" option (10000), otherwise cap at 100
-      const validLimit = limitNum > 0 ? (limitNum >= 10000 ? 10000 : Math.min(limitNum, 100)) : 10;
+      const profile = await storage.getResumeProfileById(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (profile.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-      // Import localDatabaseService for job matches lookup
-      const { localDatabaseService } = await import('./localDatabaseService');
+      const version = await resumeVersionService.getVersion(id, versionNumber);
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
 
-      // Get filtered count and slim profiles using database-level filtering
-      // This avoids loading ALL profiles into memory
-      const filteredTotalCount = await storage.getResumeProfilesCountFiltered(
-        organization.id,
-        search,
-        status,
-        jobId
-      );
+      // Uploaded files are stored base64-encoded (see fileStorageService.readFileAsBase64)
+      const content = Buffer.from(version.resumeText, 'base64');
+      const fileName = version.fileName || `${(profile.name || 'resume').replace(/\s+/g, '_')}_v${version.versionNumber}`;
 
-      // Get only the paginated slim profiles (excludes resumeText, experience, skills, etc.)
-      const slimProfiles = await storage.getResumeProfilesSlimWithFilters(
-        organization.id,
-        validPage,
-        validLimit,
-        sortBy,
-        sortOrder,
-        search,
-        status,
-        jobId
-      );
+      res.setHeader('Content-Type', version.fileType && version.fileType !== 'text' ? version.fileType : 'text/plain');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/"/g, '')}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Error downloading resume version:", error);
+      res.status(500).json({ message: "Failed to download resume version" });
+    }
+  });
 
-      // Get all organization jobs for title lookup
-      const jobs = await storage.getJobsByOrganization(organization.id);
-      const jobsMap = new Map(jobs.map(job => [job.id, job]));
+  // Current and archived scores of a profile against a job, with the inputs of each scoring run
+  app.get('/api/resume-profiles/:id/job-scores/:jobId/history', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { id } = req.params;
+      const jobId = parseInt(req.params.jobId, 10);
 
-      // Get slim job scores for only the paginated profiles (excludes fullResponse)
-      const profileIds = slimProfiles.map(profile => profile.id);
-      const allJobScores = await storage.getJobScoresSlimByProfileIds(profileIds);
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
 
-      // Group job scores by profile ID for quick lookup
-      const jobScoresByProfile = new Map<string, typeof allJobScores>();
-      for (const score of allJobScores) {
-        if (!score.profileId) continue;
-        const existing = jobScoresByProfile.get(score.profileId) || [];
-        existing.push(score);
-        jobScoresByProfile.set(score.profileId, existing);
+      const profile = await storage.getResumeProfileById(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (profile.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      // Batch fetch job matches for invitation status
-      const uniqueJobIds = [...new Set(allJobScores.map(score => String(score.jobId)))];
-      const allJobMatches = await localDatabaseService.getJobMatchesByJobIds(uniqueJobIds);
+      const { current, history } = await scoreHistoryService.getHistory(id, jobId);
+      const slim = ({ fullResponse, ...score }: any) => score;
+      res.json({
+        current: current ? slim(current) : null,
+        history: history.map(slim),
+      });
+    } catch (error) {
+      console.error("Error fetching job score history:", error);
+      res.status(500).json({ message: "Failed to fetch job score history" });
+    }
+  });
 
-      // Index job matches by jobId + profileId for quick lookup
-      const jobMatchesIndex = new Map<string, typeof allJobMatches[0]>();
-      for (const match of allJobMatches) {
-        const key = `${match.jobId}:${match.userId}`;
-        jobMatchesIndex.set(key, match);
+  // Why a score changed: compare two scores ("current" or a history id) of a profile against a job
+  app.get('/api/resume-profiles/:id/job-scores/:jobId/compare', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { id } = req.params;
+      const jobId = parseInt(req.params.jobId, 10);
+
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
       }
 
-      // Build profiles with scores
-      let profilesWithScores = slimProfiles.map(profile => {
-        const profileJobScores = jobScoresByProfile.get(profile.id) || [];
+      const profile = await storage.getResumeProfileById(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (profile.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
 
-        // Filter job scores by specific jobId if provided
-        const filteredJobScores = jobId
-          ? profileJobScores.filter(score => String(score.jobId) === String(jobId))
-          : profileJobScores;
+      const { current, history } = await scoreHistoryService.getHistory(id, jobId);
+      const snapshots = current ? [current, ...history] : history;
+      const to = snapshots.find(s => s.ref === String(req.query.to || 'current'));
+      // Defaults to the score the target replaced
+      const from = req.query.from
+        ? snapshots.find(s => s.ref === String(req.query.from))
+        : snapshots[snapshots.findIndex(s => s === to) + 1];
+      if (!from || !to) {
+        return res.status(404).json({ message: "Score not found" });
+      }
 
-        // Add invitation status from pre-fetched job matches
-        const jobScoresWithInvitationStatus = filteredJobScores.map(score => {
-          const matchKey = `${score.jobId}:${profile.id}`;
-          const existingMatch = jobMatchesIndex.get(matchKey);
+      res.json(scoreHistoryService.compare(from, to));
+    } catch (error) {
+      console.error("Error comparing job scores:", error);
+      res.status(500).json({ message: "Failed to compare job scores" });
+    }
+  });
 
-          return {
-            ...score,
-            jobTitle: jobsMap.get(score.jobId!)?.title || 'Unknown Job',
-            invitationStatus: existingMatch ? existingMatch.status : null,
-            interviewDate: existingMatch?.interviewDate || null,
-            interviewTime: existingMatch?.interviewTime || null,
-            interviewLink: existingMatch?.interviewLink || null,
-          };
-        });
+  // Let a candidate who failed the job's knockout rules through to full AI scoring
+  app.post('/api/resume-profiles/:id/job-scores/:jobId/override-knockout', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { id } = req.params;
+      const jobId = parseInt(req.params.jobId, 10);
 
-        return {
-          ...profile,
-          jobScores: jobScoresWithInvitationStatus
-        };
-      });
+      const organization = await storage.getOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
 
-      // Apply invited/not-invited status filter in-memory (requires job matches data)
-      // Note: qualified/disqualified and search filters are handled at DB level
-      if (status === 'invited') {
-        profilesWithScores = profilesWithScores.filter(profile =>
-          profile.jobScores.some(score => score.invitationStatus === 'invited')
-        );
-      } else if (status === 'not-invited') {
-        profilesWithScores = profilesWithScores.filter(profile =>
-          profile.jobScores.some(score =>
-            !score.disqualified && score.invitationStatus !== 'invited'
-          )
-        );
+      const profile = await storage.getResumeProfileById(id);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (profile.organizationId !== organization.id) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      // Calculate stats for response
-      let qualifiedCount = 0;
-      let disqualifiedCount = 0;
+      const score = (await storage.getJobScoresByProfile(id)).find(s => s.jobId === jobId);
+      if (!score || !score.knockoutResult || score.knockoutResult.passed) {
+        return res.status(400).json({ message: "Candidate was not knocked out for this job" });
+      }
+      if (score.knockoutOverriddenBy) {
+        return res.status(409).json({ message: "Knockout already overridden" });
+      }
 
-      profilesWithScores.forEach(profile => {
-        profile.jobScores.forEach(jobScore => {
-          if (jobScore.disqualified) {
-            disqualifiedCount++;
-          } else {
-            qualifiedCount++;
-          }
-        });
-      });
+      const hasCredits = await creditService.checkCredits(organization.id, await creditService.getActionCost('resume_processing'), 'cv_processing');
+      if (!hasCredits) {
+        return res.status(402).json({ message: "Insufficient credits to score this candidate" });
+      }
 
-      // Calculate pagination
-      const filteredTotalPages = Math.ceil(filteredTotalCount / validLimit);
+      const updated = await storage.updateJobScore(score.id, {
+        knockoutOverriddenBy: userId,
+        knockoutOverriddenAt: new Date(),
+      });
 
-      res.json({
-        data: profilesWithScores,
-        pagination: {
-          currentPage: validPage,
-          totalPages: filteredTotalPages,
-          totalItems: filteredTotalCount,
-          itemsPerPage: validLimit,
-          hasNextPage: validPage < filteredTotalPages,
-          hasPrevPage: validPage > 1
-        },
-        stats: {
-          totalProfiles: filteredTotalCount,
-          qualifiedCount,
-          disqualifiedCount
-        }
+      const { addKnockoutOverrideScoringJob } = await import('./jobProducers');
+      await addKnockoutOverrideScoringJob({
+        profileId: id,
+        versionNumber: profile.currentVersion,
+        organizationId: organization.id,
+        userId,
+        jobId,
       });
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching resume profiles:", error);
-      res.status(500).json({ message: "Failed to fetch resume profiles" });
+      console.error("Error overriding knockout:", error);
+      res.status(500).json({ message: "Failed to override knockout" });
     }
   });
 
@@ -6833,10 +9035,10 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         }
         targetJobs = [job];
       } else {
-        // All jobs - need 1 credit per job
-        targetJobs = await storage.getJobsByOrganization(organization.id);
+        // All open jobs - need 1 credit per job
+        targetJobs = (await storage.getJobsByOrganization(organization.id)).filter(job => jobLifecycleService.isAcceptingCandidates(job));
         if (targetJobs.length === 0) {
-          return res.status(400).json({ message: "No active jobs found. Please create at least one job posting first." });
+          return res.status(400).json({ message: "No open jobs found. Please create or open a job posting first." });
         }
       }
 
@@ -6975,10 +9177,10 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         }
         targetJobs = [job];
       } else {
-        // All jobs - need 1 credit per file per job
-        targetJobs = await storage.getJobsByOrganization(organization.id);
+        // All open jobs - need 1 credit per file per job
+        targetJobs = (await storage.getJobsByOrganization(organization.id)).filter(job => jobLifecycleService.isAcceptingCandidates(job));
         if (targetJobs.length === 0) {
-          return res.status(400).json({ message: "No active jobs found. Please create at least one job posting first." });
+          return res.status(400).json({ message: "No open jobs found. Please create or open a job posting first." });
         }
       }
 
@@ -7245,6 +9447,12 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
       if (existingMatch && existingMatch.status === 'invited') {
         return res.status(400).json({ message: "Applicant already invited" });
       }
+      if (existingMatch && existingMatch.status === 'expired') {
+        return res.status(409).json({ message: "This applicant's invitation expired. Re-invite them to send a fresh link." });
+      }
+      if (!jobLifecycleService.isAcceptingCandidates(job)) {
+        return res.status(409).json({ message: "Open the job before inviting applicants" });
+      }
 
       // Extract resume data for invitation
       const processedResume = {
@@ -7300,6 +9508,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
           status: 'invited',
           interviewDate: new Date(),
           token: token,
+          expiresAt: aiInterviewInvitationService.expiryFor(job),
         } as any);
         console.log(`✅ Successfully created interview invitation in local database`);
       } catch (aiErr) {
@@ -7322,55 +9531,28 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
           invitationLink,
           matchScore: 0, // Manual invitation
           matchSummary: "Manual invitation by employer",
+          organizationId: job.organizationId,
         });
         console.log(`📧 Invitation email sent to ${processedResume.email}`);
       } catch (emailErr) {
         console.warn('📧 Invitation email failed (non-blocking):', emailErr);
       }
 
-      // Schedule reminder emails (1h and 24h after invitation)
+      // Schedule the job's reminder sequence
       try {
-        const { scheduleInterviewReminderJob } = await import('./jobProducers');
-
-        // Get the newly created job match to get its ID
         const newMatch = await localDatabaseService.getJobMatchByUserAndJob(profileId, jobIdString);
-
         if (newMatch) {
-          const ONE_HOUR_MS = 60 * 60 * 1000;
-          const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
-
-          // Schedule 1-hour reminder
-          const reminder1hJob = await scheduleInterviewReminderJob({
-            applicantName: processedResume.name || processedResume.email,
-            applicantEmail: processedResume.email,
-            jobTitle: job.title,
-            companyName,
-            invitationLink,
-            matchId: newMatch.id,
-            reminderType: '1h',
-          }, ONE_HOUR_MS);
-
-          // Schedule 24-hour reminder
-          const reminder24hJob = await scheduleInterviewReminderJob({
+          await invitationReminderService.scheduleForMatch(newMatch, job, {
             applicantName: processedResume.name || processedResume.email,
             applicantEmail: processedResume.email,
+            applicantPhone: profile.phone || null,
             jobTitle: job.title,
             companyName,
             invitationLink,
-            matchId: newMatch.id,
-            reminderType: '24h',
-          }, TWENTY_FOUR_HOURS_MS);
-
-          // Store job IDs for potential cancellation
-          await localDatabaseService.updateJobMatch(newMatch.id, {
-            reminder1hJobId: `reminder-1h-${newMatch.id}`,
-            reminder24hJobId: `reminder-24h-${newMatch.id}`,
           });
-
-          console.log(`⏰ Scheduled reminder emails for match ${newMatch.id}`);
         }
       } catch (reminderErr) {
-        console.warn('⏰ Failed to schedule reminder emails (non-blocking):', reminderErr);
+        console.warn('⏰ Failed to schedule invitation reminders (non-blocking):', reminderErr);
       }
 
       res.json({
@@ -7430,6 +9612,9 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
           message: `Cannot resend invitation - current status is '${existingMatch.status}'`
         });
       }
+      if (!jobLifecycleService.isAcceptingCandidates(job)) {
+        return res.status(409).json({ message: "Open the job before resending invitations" });
+      }
 
       // Build invitation link using existing token
       const baseUrl = process.env.APPLICANTS_APP_URL || 'https://applicants.platohiring.com';
@@ -7448,6 +9633,7 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
           invitationLink,
           matchScore: existingMatch.matchScore || 0,
           matchSummary: "Invitation resent by employer",
+          organizationId: job.organizationId,
         });
         console.log(`📧 Invitation email resent to ${profile.email}`);
       } catch (emailErr) {
@@ -7455,53 +9641,19 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
         return res.status(500).json({ message: "Failed to send invitation email" });
       }
 
-      // Cancel old reminders and reschedule new ones
+      // Resending restarts the expiry window and the job's reminder sequence
+      await localDatabaseService.updateJobMatch(existingMatch.id, { expiresAt: aiInterviewInvitationService.expiryFor(job) });
       try {
-        const { scheduleInterviewReminderJob, cancelScheduledReminderJob } = await import('./jobProducers');
-
-        // Cancel existing reminders if they exist
-        if (existingMatch.reminder1hJobId) {
-          await cancelScheduledReminderJob(existingMatch.reminder1hJobId);
-        }
-        if (existingMatch.reminder24hJobId) {
-          await cancelScheduledReminderJob(existingMatch.reminder24hJobId);
-        }
-
-        const ONE_HOUR_MS = 60 * 60 * 1000;
-        const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
-
-        // Reschedule reminders
-        await scheduleInterviewReminderJob({
-          applicantName: profile.name || profile.email,
-          applicantEmail: profile.email,
-          jobTitle: job.title,
-          companyName,
-          invitationLink,
-          matchId: existingMatch.id,
-          reminderType: '1h',
-        }, ONE_HOUR_MS);
-
-        await scheduleInterviewReminderJob({
+        await invitationReminderService.scheduleForMatch(existingMatch, job, {
           applicantName: profile.name || profile.email,
           applicantEmail: profile.email,
+          applicantPhone: profile.phone || null,
           jobTitle: job.title,
           companyName,
           invitationLink,
-          matchId: existingMatch.id,
-          reminderType: '24h',
-        }, TWENTY_FOUR_HOURS_MS);
-
-        // Update reminder job IDs and reset sent flags
-        await localDatabaseService.updateJobMatch(existingMatch.id, {
-          reminder1hJobId: `reminder-1h-${existingMatch.id}`,
-          reminder24hJobId: `reminder-24h-${existingMatch.id}`,
-          reminder1hSent: false,
-          reminder24hSent: false,
         });
-
-        console.log(`⏰ Rescheduled reminder emails for match ${existingMatch.id}`);
       } catch (reminderErr) {
-        console.warn('⏰ Failed to reschedule reminder emails (non-blocking):', reminderErr);
+        console.warn('⏰ Failed to reschedule invitation reminders (non-blocking):', reminderErr);
       }
 
       res.json({
@@ -7519,6 +9671,74 @@ Be specific, avoid generic responses, and base analysis on the actual profile da
     }
   });
 
+  // Issue a fresh invitation token, e.g. after the previous one expired
+  app.post('/api/reinvite-applicant', requireAuth, async (req: any, res) => {
+    try {
+      const { profileId, jobId } = req.body;
+      if (!profileId || !jobId) {
+        return res.status(400).json({ message: "Profile ID and Job ID are required" });
+      }
+
+      const organization = await storage.getOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const profile = await storage.getResumeProfileById(profileId);
+      const job = await storage.getJobById(parseInt(jobId));
+      if (!profile || profile.organizationId !== organization.id) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      if (!job || job.organizationId !== organization.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (!profile.email) {
+        return res.status(400).json({ message: "This profile has no email address" });
+      }
+
+      const { localDatabaseService } = await import('./localDatabaseService');
+      const existingMatch = await localDatabaseService.getJobMatchByUserAndJob(profileId, String(jobId));
+      if (!existingMatch) {
+        return res.status(404).json({ message: "No existing invitation found for this profile and job" });
+      }
+
+      const result = await aiInterviewInvitationService.reinvite(existingMatch, job, {
+        name: profile.name || profile.email,
+        email: profile.email,
+        phone: profile.phone || null,
+      }, organization.companyName || 'Our Company');
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+
+      res.json({ success: true, message: "Applicant re-invited with a new link", invitationLink: result.invitationLink, emailSent: result.emailSent });
+    } catch (error) {
+      console.error("Error re-inviting applicant:", error);
+      res.status(500).json({ message: "Failed to re-invite applicant" });
+    }
+  });
+
+  // Called by the candidate app before an AI interview begins; refuses expired invitations and closed jobs
+  app.post('/api/ai-interview-invitations/:token/start', async (req, res) => {
+    try {
+      const result = await aiInterviewInvitationService.start(req.params.token);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({
+        matchId: result.match.id,
+        status: result.match.status,
+        jobId: result.job.id,
+        jobTitle: result.job.title,
+        companyName: result.match.companyName,
+        expiresAt: aiInterviewInvitationService.expiresAtOf(result.match, result.job),
+      });
+    } catch (error) {
+      console.error("Error starting AI interview invitation:", error);
+      res.status(500).json({ message: "Failed to start interview" });
+    }
+  });
+
   // Bulk index all jobs in RAG system
   app.get('/api/jobs/bulk-index-rag', requireAuth, async (req: any, res) => {
     try {
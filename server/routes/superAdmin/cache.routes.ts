@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { requireSuperAdmin } from '../../middleware/superAdmin.middleware';
+import { cacheController } from '../../controllers/superAdmin/cache.controller';
+
+const router = Router();
+
+// All routes require super admin authentication
+router.use(requireSuperAdmin);
+
+/**
+ * GET /api/super-admin/cache/stats
+ * Get cache hit/miss counters and entry totals
+ * Query params: organizationId
+ */
+router.get('/cache/stats', (req, res) =>
+  cacheController.getStats(req, res)
+);
+
+/**
+ * DELETE /api/super-admin/cache/organizations/:id
+ * Purge cached resume parses and job scores for an organization
+ * Query params: namespace ('resume_parsing' | 'job_scoring')
+ */
+router.delete('/cache/organizations/:id', (req, res) =>
+  cacheController.purgeOrganization(req, res)
+);
+
+/**
+ * POST /api/super-admin/cache/evict-expired
+ * Evict expired cache entries now instead of waiting for the scheduled sweep
+ */
+router.post('/cache/evict-expired', (req, res) =>
+  cacheController.evictExpired(req, res)
+);
+
+export default router;
@@ -5,6 +5,7 @@ import creditPackagesRoutes from './creditPackages.routes';
 import usersRoutes from './users.routes';
 import tutorialSlidesRoutes from './tutorialSlides.routes';
 import settingsRoutes from './settings.routes';
+import cacheRoutes from './cache.routes';
 
 const router = Router();
 
@@ -26,4 +27,7 @@ router.use('/', tutorialSlidesRoutes);
 // Mount settings management routes
 router.use('/', settingsRoutes);
 
+// Mount cache management routes
+router.use('/', cacheRoutes);
+
 export default router;
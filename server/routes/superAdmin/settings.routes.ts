@@ -32,4 +32,56 @@ router.post('/settings/twilio/test', (req, res) =>
   settingsController.testTwilioConnection(req, res)
 );
 
+/**
+ * GET /api/super-admin/settings/email
+ * Get email transport settings (secrets masked) and status
+ */
+router.get('/settings/email', (req, res) =>
+  settingsController.getEmailSettings(req, res)
+);
+
+/**
+ * PUT /api/super-admin/settings/email
+ * Update email transport settings
+ * Body: { transport: 'sendgrid' | 'smtp' | 'outbox', fromEmail?, fromName?, sendgridApiKey?, smtpHost?, smtpPort?,
+ *         smtpSecurity?, smtpUsername?, smtpPassword?, outboxDirectory?, clearSendgridApiKey?, clearSmtpPassword? }
+ */
+router.put('/settings/email', (req, res) =>
+  settingsController.updateEmailSettings(req, res)
+);
+
+/**
+ * POST /api/super-admin/settings/email/test
+ * Send a test email with the provided settings
+ * Body: same as PUT, plus { to: string }
+ */
+router.post('/settings/email/test', (req, res) =>
+  settingsController.testEmailSettings(req, res)
+);
+
+/**
+ * GET /api/super-admin/settings/email/outbox
+ * List messages kept by the outbox transport
+ * Query: to (optional recipient filter)
+ */
+router.get('/settings/email/outbox', (req, res) =>
+  settingsController.listEmailOutbox(req, res)
+);
+
+/**
+ * GET /api/super-admin/settings/email/outbox/:id
+ * Get one outbox message in full
+ */
+router.get('/settings/email/outbox/:id', (req, res) =>
+  settingsController.getEmailOutboxMessage(req, res)
+);
+
+/**
+ * DELETE /api/super-admin/settings/email/outbox
+ * Delete every outbox message
+ */
+router.delete('/settings/email/outbox', (req, res) =>
+  settingsController.clearEmailOutbox(req, res)
+);
+
 export default router;
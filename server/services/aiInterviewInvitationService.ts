@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { airtableJobMatches, jobs, type AirtableJobMatch, type Job } from '@shared/schema';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { emailService } from '../emailService';
+import { invitationReminderService } from './invitationReminderService';
+import { jobLifecycleService } from './jobLifecycleService';
+
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 14;
+const MAX_INVITATION_EXPIRY_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A fresh link can replace one that lapsed or was withdrawn, or rotate one still outstanding
+const REINVITABLE_STATUSES = ['invited', 'expired', 'cancelled'];
+
+type InvitationResult =
+  | { success: true; match: AirtableJobMatch; job: Job }
+  | { success: false; status: number; message: string };
+
+class AiInterviewInvitationService {
+  normalizeExpiryDays(input: any): number | undefined {
+    if (input === null || input === undefined || input === '') {
+      return undefined;
+    }
+    const days = Number(input);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_INVITATION_EXPIRY_DAYS) {
+      throw new Error(`Invitations must expire after between 1 and ${MAX_INVITATION_EXPIRY_DAYS} days`);
+    }
+    return days;
+  }
+
+  newToken(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+
+  invitationLink(token: string): string {
+    const baseUrl = process.env.APPLICANTS_APP_URL || 'https://applicants.platohiring.com';
+    return `${baseUrl.replace(/\/$/, '')}/ai-interview-initation?token=${encodeURIComponent(token)}`;
+  }
+
+  expiryFor(job: Pick<Job, 'invitationExpiryDays'>, from = new Date()): Date {
+    return new Date(from.getTime() + (job.invitationExpiryDays || DEFAULT_INVITATION_EXPIRY_DAYS) * DAY_MS);
+  }
+
+  // Invitations sent before expiry existed run out a full window after they were created
+  expiresAtOf(match: AirtableJobMatch, job: Pick<Job, 'invitationExpiryDays'>): Date {
+    return match.expiresAt || this.expiryFor(job, match.createdAt || new Date());
+  }
+
+  private async load(token: string): Promise<{ match: AirtableJobMatch; job: Job | undefined } | null> {
+    const [match] = await db.select().from(airtableJobMatches).where(eq(airtableJobMatches.token, token));
+    if (!match) {
+      return null;
+    }
+    const jobId = Number(match.jobId);
+    const [job] = Number.isInteger(jobId) ? await db.select().from(jobs).where(eq(jobs.id, jobId)) : [];
+    return { match, job };
+  }
+
+  /**
+   * Gate for the candidate app: an invitation can be started while it is unexpired and its job is open.
+   * Starting moves it to 'in_progress', which also stops its reminders; starting again resumes.
+   */
+  async start(token: string): Promise<InvitationResult> {
+    const loaded = await this.load(token);
+    if (!loaded) {
+      return { success: false, status: 404, message: 'Invitation not found' };
+    }
+    const { match, job } = loaded;
+    if (!job || !jobLifecycleService.isAcceptingCandidates(job)) {
+      return { success: false, status: 409, message: 'This position is not accepting interviews right now' };
+    }
+    if (match.status === 'in_progress') {
+      return { success: true, match, job };
+    }
+    if (match.status === 'expired' || (match.status === 'invited' && this.expiresAtOf(match, job) <= new Date())) {
+      await this.expire([match.id]);
+      return { success: false, status: 410, message: 'This invitation has expired. Please contact the hiring team for a new one.' };
+    }
+    if (match.status !== 'invited') {
+      return { success: false, status: 409, message: 'This invitation has already been used' };
+    }
+
+    const [started] = await db
+      .update(airtableJobMatches)
+      .set({ status: 'in_progress', updatedAt: new Date() })
+      .where(and(eq(airtableJobMatches.id, match.id), eq(airtableJobMatches.status, 'invited')))
+      .returning();
+    if (started) {
+      await invitationReminderService.cancelForMatch(match.id, 'status_in_progress');
+    }
+    return { success: true, match: started || match, job };
+  }
+
+  /**
+   * Expire invitations past their window and withdraw those whose job has been closed, archived or deleted.
+   * Invitations for a paused job wait for it to reopen.
+   * Run periodically from the maintenance queue.
+   */
+  async expireStale(): Promise<number> {
+    const stale: Array<{ id: string }> = await db
+      .select({ id: airtableJobMatches.id })
+      .from(airtableJobMatches)
+      .innerJoin(jobs, eq(sql`${jobs.id}::text`, airtableJobMatches.jobId))
+      .where(and(
+        eq(airtableJobMatches.status, 'invited'),
+        sql`(${jobs.is_active} = false OR ${jobs.status} in ('closed', 'archived') OR coalesce(${airtableJobMatches.expiresAt}, ${airtableJobMatches.createdAt} + ${jobs.invitationExpiryDays} * interval '1 day') <= now())`
+      ));
+    return await this.expire(stale.map(row => row.id));
+  }
+
+  private async expire(matchIds: string[]): Promise<number> {
+    if (matchIds.length === 0) {
+      return 0;
+    }
+    const expired: AirtableJobMatch[] = await db
+      .update(airtableJobMatches)
+      .set({ status: 'expired', updatedAt: new Date() })
+      .where(and(inArray(airtableJobMatches.id, matchIds), eq(airtableJobMatches.status, 'invited')))
+      .returning();
+    for (const match of expired) {
+      await invitationReminderService.cancelForMatch(match.id, 'status_expired');
+    }
+    return expired.length;
+  }
+
+  /**
+   * Issue a new token for an existing invitation, email it and restart the job's reminders.
+   * The old link stops working immediately.
+   */
+  async reinvite(
+    match: AirtableJobMatch,
+    job: Job,
+    candidate: { name: string; email: string; phone: string | null },
+    companyName: string
+  ): Promise<{ success: true; invitationLink: string; emailSent: boolean } | { success: false; status: number; message: string }> {
+    if (!jobLifecycleService.isAcceptingCandidates(job)) {
+      return { success: false, status: 409, message: 'Open the job before re-inviting candidates' };
+    }
+    if (!REINVITABLE_STATUSES.includes(match.status || '')) {
+      return { success: false, status: 409, message: `Cannot re-invite - current status is '${match.status}'` };
+    }
+
+    const token = this.newToken();
+    const [reissued] = await db
+      .update(airtableJobMatches)
+      .set({
+        token,
+        status: 'invited',
+        expiresAt: this.expiryFor(job),
+        reminder1hSent: false,
+        reminder24hSent: false,
+        updatedAt: new Date(),
+      })
+      .where(eq(airtableJobMatches.id, match.id))
+      .returning();
+
+    const invitationLink = this.invitationLink(token);
+    const emailSent = await emailService.sendInterviewInvitationEmail({
+      applicantName: candidate.name,
+      applicantEmail: candidate.email,
+      jobTitle: job.title,
+      companyName,
+      invitationLink,
+      matchScore: match.matchScore || 0,
+      matchSummary: 'Invitation reissued by employer',
+      organizationId: job.organizationId,
+    });
+    await invitationReminderService.scheduleForMatch(reissued, job, {
+      applicantName: candidate.name,
+      applicantEmail: candidate.email,
+      applicantPhone: candidate.phone,
+      jobTitle: job.title,
+      companyName,
+      invitationLink,
+    });
+    return { success: true, invitationLink, emailSent };
+  }
+}
+
+export const aiInterviewInvitationService = new AiInterviewInvitationService();
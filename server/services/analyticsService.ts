@@ -0,0 +1,296 @@
+import { db } from '../db';
+import {
+  jobs,
+  airtableJobApplications,
+  airtableJobMatches,
+  realInterviews,
+  shortlistedApplicants,
+  offerLetters,
+  resumeJobScores,
+} from '@shared/schema';
+import { eq, and, gte, lte, inArray, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { pipelineService } from './pipelineService';
+
+export interface AnalyticsFilters {
+  organizationId: string;
+  from: Date;
+  to: Date;
+  jobId?: number;
+}
+
+export type FunnelStage = 'applications' | 'invitations' | 'interviews' | 'shortlisted' | 'offers' | 'hires';
+
+export type MonthlyFunnel = { month: string; name: string } & Record<FunnelStage, number>;
+
+export interface DurationStats {
+  samples: number;
+  averageDays: number | null;
+  medianDays: number | null;
+}
+
+export interface JobConversion {
+  jobId: number;
+  title: string;
+  applications: number;
+  interviews: number;
+  shortlisted: number;
+  offers: number;
+  hires: number;
+  // Share of applications that reached each stage, 0-100
+  interviewRate: number;
+  shortlistRate: number;
+  hireRate: number;
+}
+
+const FUNNEL_STAGES: FunnelStage[] = ['applications', 'invitations', 'interviews', 'shortlisted', 'offers', 'hires'];
+
+// Applications in a hired stage carry the accepted status; older rows may use another spelling
+const isHired = () => inArray(sql`lower(${airtableJobApplications.status})`, pipelineService.statusAliases('accepted'));
+
+// When an application was hired: its last stage change, or its last update for rows that predate the pipeline
+const hiredAt = () => sql<Date>`coalesce(${airtableJobApplications.stageChangedAt}, ${airtableJobApplications.updatedAt})`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+function durationStats(days: number[]): DurationStats {
+  if (days.length === 0) {
+    return { samples: 0, averageDays: null, medianDays: null };
+  }
+  const sorted = days.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    samples: sorted.length,
+    averageDays: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    medianDays: round(median),
+  };
+}
+
+const rate = (count: number, total: number) => total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+
+class AnalyticsService {
+  /**
+   * Jobs the filters cover: every job of the organization (closed ones included, so history is kept)
+   * or the single requested job.
+   */
+  private async jobsInScope(filters: AnalyticsFilters): Promise<Array<{ id: number; title: string }>> {
+    const conditions = [eq(jobs.organizationId, filters.organizationId)];
+    if (filters.jobId) {
+      conditions.push(eq(jobs.id, filters.jobId));
+    }
+    return await db.select({ id: jobs.id, title: jobs.title }).from(jobs).where(and(...conditions));
+  }
+
+  private inRange(column: PgColumn, filters: AnalyticsFilters): SQL {
+    return and(gte(column, filters.from), lte(column, filters.to))!;
+  }
+
+  /**
+   * Where clauses for each funnel stage. Application-side tables store job ids as text.
+   */
+  // Raw expressions get no column encoding, so bounds are bound as UTC ISO strings like the timestamp columns
+  private hiredInRange(filters: AnalyticsFilters): SQL {
+    return and(gte(hiredAt(), filters.from.toISOString()), lte(hiredAt(), filters.to.toISOString()))!;
+  }
+
+  private stageConditions(filters: AnalyticsFilters, jobIds: number[]): Record<FunnelStage, { table: any; date: PgColumn | SQL; job: PgColumn; where: SQL }> {
+    const textIds = jobIds.map(String);
+    return {
+      applications: {
+        table: airtableJobApplications,
+        date: airtableJobApplications.applicationDate,
+        job: airtableJobApplications.jobId,
+        where: and(inArray(airtableJobApplications.jobId, textIds), this.inRange(airtableJobApplications.applicationDate, filters))!,
+      },
+      invitations: {
+        table: airtableJobMatches,
+        date: airtableJobMatches.createdAt,
+        job: airtableJobMatches.jobId,
+        where: and(inArray(airtableJobMatches.jobId, textIds), this.inRange(airtableJobMatches.createdAt, filters))!,
+      },
+      interviews: {
+        table: realInterviews,
+        date: realInterviews.createdAt,
+        job: realInterviews.jobId,
+        where: and(
+          eq(realInterviews.organizationId, filters.organizationId),
+          inArray(realInterviews.jobId, textIds),
+          this.inRange(realInterviews.createdAt, filters)
+        )!,
+      },
+      shortlisted: {
+        table: shortlistedApplicants,
+        date: shortlistedApplicants.dateShortlisted,
+        job: shortlistedApplicants.jobId,
+        where: and(inArray(shortlistedApplicants.jobId, textIds), this.inRange(shortlistedApplicants.dateShortlisted, filters))!,
+      },
+      offers: {
+        table: offerLetters,
+        date: offerLetters.sentAt,
+        job: offerLetters.jobId,
+        where: and(
+          eq(offerLetters.organizationId, filters.organizationId),
+          inArray(offerLetters.jobId, textIds),
+          this.inRange(offerLetters.sentAt, filters)
+        )!,
+      },
+      hires: {
+        table: airtableJobApplications,
+        date: hiredAt(),
+        job: airtableJobApplications.jobId,
+        where: and(
+          inArray(airtableJobApplications.jobId, textIds),
+          isHired(),
+          this.hiredInRange(filters)
+        )!,
+      },
+    };
+  }
+
+  private async countBy(
+    stage: { table: any; where: SQL },
+    key: SQL<string>
+  ): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ key, count: sql<number>`count(*)::int` })
+      .from(stage.table)
+      .where(stage.where)
+      .groupBy(key);
+    return new Map(rows.map((row: { key: string; count: number }) => [row.key, Number(row.count)]));
+  }
+
+  /**
+   * Funnel counts per calendar month, every month in the range included.
+   */
+  async getMonthlyFunnel(filters: AnalyticsFilters): Promise<MonthlyFunnel[]> {
+    const months: MonthlyFunnel[] = [];
+    const cursor = new Date(filters.from.getFullYear(), filters.from.getMonth(), 1);
+    while (cursor <= filters.to) {
+      const month = { month: monthKey(cursor), name: cursor.toLocaleDateString('en-US', { month: 'short', year: '2-digit' }) } as MonthlyFunnel;
+      for (const stage of FUNNEL_STAGES) month[stage] = 0;
+      months.push(month);
+      cursor.setMonth(cursor.getMonth() + 1);
+    }
+
+    const scope = await this.jobsInScope(filters);
+    if (scope.length === 0) {
+      return months;
+    }
+
+    const stages = this.stageConditions(filters, scope.map(job => job.id));
+    for (const stage of FUNNEL_STAGES) {
+      const counts = await this.countBy(stages[stage], sql<string>`to_char(${stages[stage].date}, 'YYYY-MM')`);
+      for (const month of months) {
+        month[stage] = counts.get(month.month) || 0;
+      }
+    }
+    return months;
+  }
+
+  /**
+   * Days from application to shortlist and from application to hire, for events inside the range.
+   */
+  async getDurations(filters: AnalyticsFilters): Promise<{ timeToShortlist: DurationStats; timeToHire: DurationStats }> {
+    const scope = await this.jobsInScope(filters);
+    if (scope.length === 0) {
+      return { timeToShortlist: durationStats([]), timeToHire: durationStats([]) };
+    }
+    const textIds = scope.map(job => String(job.id));
+
+    const shortlists = await db
+      .select({ appliedAt: airtableJobApplications.applicationDate, shortlistedAt: shortlistedApplicants.dateShortlisted })
+      .from(shortlistedApplicants)
+      .innerJoin(airtableJobApplications, eq(airtableJobApplications.id, shortlistedApplicants.applicantId))
+      .where(and(inArray(shortlistedApplicants.jobId, textIds), this.inRange(shortlistedApplicants.dateShortlisted, filters)));
+
+    const hires = await db
+      .select({ appliedAt: airtableJobApplications.applicationDate, hiredAt: hiredAt().mapWith(airtableJobApplications.updatedAt) })
+      .from(airtableJobApplications)
+      .where(and(
+        inArray(airtableJobApplications.jobId, textIds),
+        isHired(),
+        this.hiredInRange(filters)
+      ));
+
+    const daysBetween = (start: Date | null, end: Date | null) =>
+      start && end && end >= start ? (end.getTime() - start.getTime()) / DAY_MS : null;
+
+    return {
+      timeToShortlist: durationStats(shortlists
+        .map((row: { appliedAt: Date | null; shortlistedAt: Date | null }) => daysBetween(row.appliedAt, row.shortlistedAt))
+        .filter((days: number | null): days is number => days !== null)),
+      timeToHire: durationStats(hires
+        .map((row: { appliedAt: Date | null; hiredAt: Date | null }) => daysBetween(row.appliedAt, row.hiredAt))
+        .filter((days: number | null): days is number => days !== null)),
+    };
+  }
+
+  /**
+   * Funnel counts and conversion rates per job, busiest jobs first.
+   */
+  async getJobConversion(filters: AnalyticsFilters): Promise<JobConversion[]> {
+    const scope = await this.jobsInScope(filters);
+    if (scope.length === 0) {
+      return [];
+    }
+
+    const stages = this.stageConditions(filters, scope.map(job => job.id));
+    const counts: Partial<Record<FunnelStage, Map<string, number>>> = {};
+    for (const stage of ['applications', 'interviews', 'shortlisted', 'offers', 'hires'] as const) {
+      counts[stage] = await this.countBy(stages[stage], sql<string>`${stages[stage].job}::text`);
+    }
+
+    return scope
+      .map(job => {
+        const key = String(job.id);
+        const get = (stage: FunnelStage) => counts[stage]?.get(key) || 0;
+        const applications = get('applications');
+        return {
+          jobId: job.id,
+          title: job.title,
+          applications,
+          interviews: get('interviews'),
+          shortlisted: get('shortlisted'),
+          offers: get('offers'),
+          hires: get('hires'),
+          interviewRate: rate(get('interviews'), applications),
+          shortlistRate: rate(get('shortlisted'), applications),
+          hireRate: rate(get('hires'), applications),
+        };
+      })
+      .filter(job => job.applications + job.interviews + job.shortlisted + job.offers + job.hires > 0)
+      .sort((a, b) => b.applications - a.applications);
+  }
+
+  /**
+   * Where candidates in the range came from.
+   */
+  async getSources(filters: AnalyticsFilters): Promise<Array<{ name: string; value: number; color: string }>> {
+    const scope = await this.jobsInScope(filters);
+    const jobIds = scope.map(job => job.id);
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const stages = this.stageConditions(filters, jobIds);
+    const total = sql<string>`'total'`;
+    const applications = (await this.countBy(stages.applications, total)).get('total') || 0;
+    const invitations = (await this.countBy(stages.invitations, total)).get('total') || 0;
+    const resumeBank = (await this.countBy({
+      table: resumeJobScores,
+      where: and(inArray(resumeJobScores.jobId, jobIds), this.inRange(resumeJobScores.scoredAt, filters))!,
+    }, total)).get('total') || 0;
+
+    return [
+      { name: 'Direct Applications', value: applications, color: '#3B82F6' },
+      { name: 'AI Interview Invitations', value: invitations, color: '#8B5CF6' },
+      { name: 'Resume Bank Matches', value: resumeBank, color: '#10B981' },
+    ];
+  }
+}
+
+export const analyticsService = new AnalyticsService();
@@ -0,0 +1,181 @@
+import { db, type DbExecutor, type DbTransaction } from '../db';
+import {
+  applicantEvents,
+  airtableJobApplications,
+  jobs,
+  users,
+  type ApplicantEvent,
+  type InsertApplicantEvent,
+} from '@shared/schema';
+import { eq, and, gte, lte, desc, inArray, sql, type SQL } from 'drizzle-orm';
+
+export type ApplicantEventAction =
+  | 'stage_changed'
+  | 'shortlist_removed'
+  | 'accept_undone'
+  | 'interview_booking_link_sent'
+  | 'interview_scheduled'
+  | 'interview_updated'
+  | 'interview_deleted'
+  | 'scorecard_submitted'
+  | 'offer_sent'
+  | 'offer_responded'
+  | 'offer_counter_offer'
+  | 'offer_expired'
+  | 'score_updated'
+  | 'profile_regenerated';
+
+export interface RecordEventInput {
+  applicationId: string;
+  action: ApplicantEventAction;
+  actorId?: string | null;
+  organizationId?: string | null; // Resolved from the application's job when omitted
+  jobId?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any> | null;
+}
+
+export type ApplicantEventWithActor = ApplicantEvent & { actorName: string | null };
+
+const EXPORT_COLUMNS = ['createdAt', 'applicationId', 'applicantName', 'jobId', 'action', 'actorId', 'actorName', 'before', 'after', 'metadata'] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+class ApplicantEventService {
+  /**
+   * Append an event. Failures are logged rather than thrown so an audit write never undoes the action it describes.
+   * Inside a caller's transaction they are thrown instead: Postgres aborts the transaction on a failed statement,
+   * so the caller's change would be rolled back at commit while it reports success.
+   */
+  async record(input: RecordEventInput, transaction?: DbTransaction): Promise<ApplicantEvent | undefined> {
+    const executor: DbExecutor = transaction || db;
+    try {
+      let organizationId = input.organizationId || null;
+      let jobId = input.jobId ?? null;
+      if (!organizationId || jobId === null) {
+        const [application] = await executor
+          .select({ jobId: airtableJobApplications.jobId, organizationId: jobs.organizationId })
+          .from(airtableJobApplications)
+          .leftJoin(jobs, eq(sql`${jobs.id}::text`, airtableJobApplications.jobId))
+          .where(eq(airtableJobApplications.id, input.applicationId));
+        jobId = jobId ?? application?.jobId ?? null;
+        organizationId = organizationId || application?.organizationId || null;
+      }
+      if (!organizationId) {
+        console.warn(`⚠️ Skipping ${input.action} event for application ${input.applicationId}: organization unknown`);
+        return undefined;
+      }
+
+      const values: InsertApplicantEvent = {
+        organizationId,
+        applicationId: input.applicationId,
+        jobId,
+        actorId: input.actorId || null,
+        action: input.action,
+        before: input.before ?? null,
+        after: input.after ?? null,
+        metadata: input.metadata ?? null,
+      };
+      const [event] = await executor.insert(applicantEvents).values(values).returning();
+      return event;
+    } catch (error) {
+      if (transaction) {
+        throw error;
+      }
+      console.error(`❌ Failed to record ${input.action} event for application ${input.applicationId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Record an event for the application of a candidate (by applicant user id) to a job, when one exists.
+   * Interviews reference candidates this way rather than by application id.
+   */
+  async recordForCandidate(
+    candidate: { applicantUserId: string | null | undefined; jobId: string | number | null | undefined },
+    input: Omit<RecordEventInput, 'applicationId'>
+  ): Promise<ApplicantEvent | undefined> {
+    if (!candidate.applicantUserId || candidate.jobId === null || candidate.jobId === undefined) {
+      return undefined;
+    }
+    const [application] = await db
+      .select({ id: airtableJobApplications.id })
+      .from(airtableJobApplications)
+      .where(and(
+        eq(airtableJobApplications.applicantUserId, candidate.applicantUserId),
+        eq(airtableJobApplications.jobId, String(candidate.jobId))
+      ))
+      .orderBy(desc(airtableJobApplications.applicationDate))
+      .limit(1);
+    if (!application) {
+      return undefined;
+    }
+    return await this.record({ ...input, applicationId: application.id, jobId: String(candidate.jobId) });
+  }
+
+  private async withActors(events: ApplicantEvent[]): Promise<ApplicantEventWithActor[]> {
+    const actorIds = Array.from(new Set(events.map(event => event.actorId).filter((id): id is string => !!id)));
+    const actors = actorIds.length > 0
+      ? await db
+          .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email })
+          .from(users)
+          .where(inArray(users.id, actorIds))
+      : [];
+    const names = new Map<string, string>(actors.map((actor: { id: string; firstName: string | null; lastName: string | null; email: string }) => [
+      actor.id,
+      [actor.firstName, actor.lastName].filter(Boolean).join(' ') || actor.email,
+    ]));
+    return events.map(event => ({ ...event, actorName: event.actorId ? names.get(event.actorId) || null : null }));
+  }
+
+  /**
+   * Timeline of one application, newest first.
+   */
+  async listForApplication(applicationId: string, organizationId: string): Promise<ApplicantEventWithActor[]> {
+    const events = await db
+      .select()
+      .from(applicantEvents)
+      .where(and(eq(applicantEvents.applicationId, applicationId), eq(applicantEvents.organizationId, organizationId)))
+      .orderBy(desc(applicantEvents.createdAt));
+    return await this.withActors(events);
+  }
+
+  /**
+   * Events of an organization for compliance export, oldest first.
+   */
+  async listForExport(organizationId: string, filters: { from?: Date; to?: Date; applicationId?: string }): Promise<Array<ApplicantEventWithActor & { applicantName: string | null }>> {
+    const conditions: SQL[] = [eq(applicantEvents.organizationId, organizationId)];
+    if (filters.from) conditions.push(gte(applicantEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(applicantEvents.createdAt, filters.to));
+    if (filters.applicationId) conditions.push(eq(applicantEvents.applicationId, filters.applicationId));
+
+    const rows = await db
+      .select({ event: applicantEvents, applicantName: airtableJobApplications.applicantName })
+      .from(applicantEvents)
+      .leftJoin(airtableJobApplications, eq(airtableJobApplications.id, applicantEvents.applicationId))
+      .where(and(...conditions))
+      .orderBy(applicantEvents.createdAt);
+
+    const events = await this.withActors(rows.map((row: { event: ApplicantEvent }) => row.event));
+    return events.map((event, index) => ({ ...event, applicantName: rows[index].applicantName ?? null }));
+  }
+
+  toCsv(events: Array<ApplicantEventWithActor & { applicantName: string | null }>): string {
+    const lines = [EXPORT_COLUMNS.join(',')];
+    for (const event of events) {
+      lines.push(EXPORT_COLUMNS.map(column => csvCell(event[column])).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+}
+
+export const applicantEventService = new ApplicantEventService();
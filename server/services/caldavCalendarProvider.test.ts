@@ -0,0 +1,126 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { CaldavCalendarProvider, caldavCalendarProvider } from './caldavCalendarProvider';
+import { isPublicAddress } from '../utils/publicNetwork';
+
+interface Recorded {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A tiny CalDAV server: the next response is set per test and every request is recorded
+const requests: Recorded[] = [];
+let reply: { status: number; headers?: Record<string, string>; body?: string } = { status: 200 };
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method || '', url: req.url || '', headers: req.headers, body });
+      res.writeHead(reply.status, reply.headers);
+      res.end(reply.body || '');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+const local = new CaldavCalendarProvider({ allowPrivateNetwork: true });
+const config = () => ({ url: `${baseUrl}/dav/calendars/sara/interviews`, username: 'sara', password: 'secret' });
+
+test('only public addresses are allowed', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+  for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111']) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+  assert.equal(isPublicAddress('calendar.example.com'), false);
+});
+
+test('private targets are refused before any request with a generic message', async () => {
+  requests.length = 0;
+  reply = { status: 207, body: '<d:resourcetype><c:calendar/></d:resourcetype>' };
+  const port = (server.address() as AddressInfo).port;
+
+  for (const url of [`${baseUrl}/dav/`, `http://localhost:${port}/dav/`, `http://[::ffff:127.0.0.1]:${port}/dav/`]) {
+    await assert.rejects(
+      caldavCalendarProvider.verify({ url, username: 'sara', password: 'secret' }),
+      { message: 'Could not reach a calendar at that URL' },
+    );
+  }
+  assert.equal(requests.length, 0);
+});
+
+test('verify checks the collection with the saved credentials', async () => {
+  requests.length = 0;
+  reply = { status: 207, body: '<d:multistatus><d:resourcetype><d:collection/><c:calendar/></d:resourcetype></d:multistatus>' };
+
+  await local.verify(config());
+  assert.equal(requests[0].method, 'PROPFIND');
+  assert.equal(requests[0].url, '/dav/calendars/sara/interviews/');
+  assert.equal(requests[0].headers.depth, '0');
+  assert.equal(requests[0].headers.authorization, `Basic ${Buffer.from('sara:secret').toString('base64')}`);
+});
+
+test('verify explains rejected credentials and hides other answers', async () => {
+  reply = { status: 401 };
+  await assert.rejects(local.verify(config()), { message: 'The calendar server rejected the username or password' });
+
+  reply = { status: 207, body: '<d:resourcetype><d:collection/></d:resourcetype>' };
+  await assert.rejects(local.verify(config()), { message: 'That URL is not a calendar collection' });
+
+  for (const status of [404, 500]) {
+    reply = { status };
+    await assert.rejects(local.verify(config()), { message: 'Could not reach a calendar at that URL' });
+  }
+
+  // Redirects are not followed
+  reply = { status: 301, headers: { Location: 'http://169.254.169.254/' } };
+  await assert.rejects(local.verify(config()), { message: 'Could not reach a calendar at that URL' });
+});
+
+test('events are created without clobbering and updated in place', async () => {
+  requests.length = 0;
+  reply = { status: 201, headers: { ETag: '"v1"' } };
+
+  const created = await local.upsertEvent(config(), { uid: 'interview-1@platohiring.com', ics: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n' }, null);
+  assert.deepEqual(created, { externalId: `${baseUrl}/dav/calendars/sara/interviews/interview-1%40platohiring.com.ics`, etag: '"v1"' });
+  assert.equal(requests[0].method, 'PUT');
+  assert.equal(requests[0].headers['if-none-match'], '*');
+  assert.equal(requests[0].body, 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+
+  reply = { status: 204, headers: { ETag: '"v2"' } };
+  const updated = await local.upsertEvent(config(), { uid: 'interview-1@platohiring.com', ics: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n' }, created);
+  assert.equal(updated.etag, '"v2"');
+  assert.equal(requests[1].headers['if-none-match'], undefined);
+
+  reply = { status: 412 };
+  await assert.rejects(local.upsertEvent(config(), { uid: 'taken', ics: '' }, null), /CalDAV PUT failed with 412/);
+});
+
+test('events already gone count as deleted and fetched events carry their etag', async () => {
+  reply = { status: 404 };
+  await local.deleteEvent(config(), `${baseUrl}/dav/calendars/sara/interviews/a.ics`);
+  assert.equal(await local.fetchEvent(config(), `${baseUrl}/dav/calendars/sara/interviews/a.ics`), null);
+
+  reply = { status: 500 };
+  await assert.rejects(local.deleteEvent(config(), `${baseUrl}/dav/calendars/sara/interviews/a.ics`), /CalDAV DELETE failed with 500/);
+
+  reply = { status: 200, headers: { ETag: '"v3"' }, body: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n' };
+  assert.deepEqual(await local.fetchEvent(config(), `${baseUrl}/dav/calendars/sara/interviews/a.ics`), {
+    etag: '"v3"',
+    ics: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+  });
+});
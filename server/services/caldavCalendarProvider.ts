@@ -0,0 +1,140 @@
+import http from 'http';
+import https from 'https';
+import type { CalendarConnectionConfig } from '@shared/schema';
+import type { CalendarProvider, CalendarEventPayload, StoredEvent } from './calendarSyncService';
+import { ipLiteralOf, isPublicAddress, publicOnlyLookup, NonPublicAddressError } from '../utils/publicNetwork';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_RESPONSE_BYTES = 1024 * 1024;
+const UNREACHABLE_MESSAGE = 'Could not reach a calendar at that URL';
+
+interface CaldavResponse {
+  ok: boolean;
+  status: number;
+  etag: string | null;
+  body: string;
+}
+
+/**
+ * CalDAV (RFC 4791) calendar: each interview is one .ics resource in the configured collection.
+ * Works against any standards-compliant server reachable on a public address. The URL comes from the user,
+ * so requests only go to public addresses (checked after DNS resolution) and redirects are not followed.
+ */
+export class CaldavCalendarProvider implements CalendarProvider {
+  constructor(private readonly options: { allowPrivateNetwork?: boolean } = {}) {}
+
+  private authHeader(config: CalendarConnectionConfig): string {
+    return `Basic ${Buffer.from(`${config.username}:${config.password}`).toString('base64')}`;
+  }
+
+  private collectionUrl(config: CalendarConnectionConfig): string {
+    return config.url.endsWith('/') ? config.url : `${config.url}/`;
+  }
+
+  private request(config: CalendarConnectionConfig, method: string, url: string, headers: Record<string, string> = {}, body?: string): Promise<CaldavResponse> {
+    const target = new URL(url);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return Promise.reject(new Error(`Unsupported calendar URL scheme ${target.protocol}`));
+    }
+    const literal = ipLiteralOf(target);
+    if (!this.options.allowPrivateNetwork && literal && !isPublicAddress(literal)) {
+      return Promise.reject(new NonPublicAddressError(literal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = (target.protocol === 'https:' ? https : http).request(target, {
+        method,
+        headers: {
+          Authorization: this.authHeader(config),
+          ...headers,
+          ...(body !== undefined ? { 'Content-Length': String(Buffer.byteLength(body)) } : {}),
+        },
+        lookup: this.options.allowPrivateNetwork ? undefined : publicOnlyLookup,
+        timeout: REQUEST_TIMEOUT_MS,
+      }, (response) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_RESPONSE_BYTES) {
+            request.destroy(new Error('The calendar server response is too large'));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => {
+          const status = response.statusCode || 0;
+          resolve({
+            ok: status >= 200 && status < 300,
+            status,
+            etag: response.headers.etag || null,
+            body: Buffer.concat(chunks).toString('utf8'),
+          });
+        });
+        response.on('error', reject);
+      });
+      request.on('timeout', () => request.destroy(new Error('The calendar server did not respond in time')));
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * Check the URL is a calendar collection the credentials can read. Anything short of that gets the same
+   * message, so the check cannot be used to probe which hosts and ports answer.
+   */
+  async verify(config: CalendarConnectionConfig): Promise<void> {
+    let response: CaldavResponse;
+    try {
+      response = await this.request(config, 'PROPFIND', this.collectionUrl(config), {
+        Depth: '0',
+        'Content-Type': 'application/xml; charset=utf-8',
+      }, '<?xml version="1.0" encoding="utf-8"?><d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/></d:prop></d:propfind>');
+    } catch {
+      throw new Error(UNREACHABLE_MESSAGE);
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('The calendar server rejected the username or password');
+    }
+    if (response.status !== 207) {
+      throw new Error(UNREACHABLE_MESSAGE);
+    }
+    if (!/calendar/i.test(response.body)) {
+      throw new Error('That URL is not a calendar collection');
+    }
+  }
+
+  async upsertEvent(config: CalendarConnectionConfig, event: CalendarEventPayload, existing: StoredEvent | null): Promise<StoredEvent> {
+    const url = existing?.externalId || new URL(`${encodeURIComponent(event.uid)}.ics`, this.collectionUrl(config)).toString();
+    // Creating must not clobber another resource; updates overwrite, since the app holds the authoritative time
+    const precondition: Record<string, string> = existing ? {} : { 'If-None-Match': '*' };
+    const response = await this.request(config, 'PUT', url, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      ...precondition,
+    }, event.ics);
+    if (!response.ok) {
+      throw new Error(`CalDAV PUT failed with ${response.status}`);
+    }
+    return { externalId: url, etag: response.etag };
+  }
+
+  async deleteEvent(config: CalendarConnectionConfig, externalId: string): Promise<void> {
+    const response = await this.request(config, 'DELETE', externalId);
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+      throw new Error(`CalDAV DELETE failed with ${response.status}`);
+    }
+  }
+
+  async fetchEvent(config: CalendarConnectionConfig, externalId: string): Promise<{ etag: string | null; ics: string } | null> {
+    const response = await this.request(config, 'GET', externalId, { Accept: 'text/calendar' });
+    if (response.status === 404 || response.status === 410) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`CalDAV GET failed with ${response.status}`);
+    }
+    return { etag: response.etag, ics: response.body };
+  }
+}
+
+export const caldavCalendarProvider = new CaldavCalendarProvider();
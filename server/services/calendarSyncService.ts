@@ -0,0 +1,488 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import {
+  calendarConnections,
+  calendarEventLinks,
+  interviewCalendarFeeds,
+  interviewScorecards,
+  realInterviews,
+  type CalendarConnection,
+  type CalendarConnectionConfig,
+  type CalendarEventLink,
+  type CalendarProviderName,
+  type StoredCalendarConnectionConfig,
+} from '@shared/schema';
+import { eq, and, or, inArray, gte } from 'drizzle-orm';
+import { getAppBaseUrl } from '../auth';
+import { storage } from '../storage';
+import { emailService } from '../emailService';
+import { applicantEventService } from './applicantEventService';
+import { interviewScheduleService, DEFAULT_INTERVIEW_MINUTES } from './interviewScheduleService';
+import { caldavCalendarProvider } from './caldavCalendarProvider';
+import { encrypt, decrypt, isEncryptionAvailable } from '../utils/encryption';
+
+type RealInterview = typeof realInterviews.$inferSelect;
+
+export interface CalendarEventPayload {
+  uid: string;
+  ics: string;
+}
+
+export interface StoredEvent {
+  externalId: string;
+  etag: string | null;
+}
+
+/**
+ * An external calendar interviews are mirrored into. Methods throw with a user-readable message on failure.
+ */
+export interface CalendarProvider {
+  verify(config: CalendarConnectionConfig): Promise<void>;
+  upsertEvent(config: CalendarConnectionConfig, event: CalendarEventPayload, existing: StoredEvent | null): Promise<StoredEvent>;
+  deleteEvent(config: CalendarConnectionConfig, externalId: string): Promise<void>;
+  fetchEvent(config: CalendarConnectionConfig, externalId: string): Promise<{ etag: string | null; ics: string } | null>;
+}
+
+const PROVIDERS: Record<CalendarProviderName, CalendarProvider> = {
+  caldav: caldavCalendarProvider,
+};
+
+export const CALENDAR_PROVIDERS = Object.keys(PROVIDERS) as CalendarProviderName[];
+
+// Connection as shown to its owner; the password never leaves the server
+export type CalendarConnectionView = Omit<CalendarConnection, 'config'> & { url: string; username: string };
+
+// Connections saved before passwords were encrypted still hold it in plaintext
+type SavedConfig = StoredCalendarConnectionConfig & { password?: string };
+
+function encryptConfig(config: CalendarConnectionConfig): StoredCalendarConnectionConfig {
+  return { url: config.url, username: config.username, encryptedPassword: encrypt(config.password) };
+}
+
+function decryptConfig(saved: SavedConfig): CalendarConnectionConfig {
+  return {
+    url: saved.url,
+    username: saved.username,
+    password: saved.encryptedPassword ? decrypt(saved.encryptedPassword) : saved.password || '',
+  };
+}
+
+const FEED_PAST_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Continuation lines start with a space or tab and belong to the line before
+const unfoldIcs = (ics: string) => ics.replace(/\r?\n[ \t]/g, '');
+
+/**
+ * Start and end of the first event in an iCalendar document. Handles UTC, floating and TZID-qualified
+ * date-times; all-day events are ignored since an interview always has a time.
+ */
+export function parseEventTimes(ics: string): { start: Date; end: Date | null } | null {
+  const event = unfoldIcs(ics).split(/\r?\n/);
+  const begin = event.indexOf('BEGIN:VEVENT');
+  const lines = begin >= 0 ? event.slice(begin) : event;
+
+  const readTime = (name: string): Date | null => {
+    const line = lines.find(entry => entry.startsWith(`${name}:`) || entry.startsWith(`${name};`));
+    if (!line) {
+      return null;
+    }
+    const [params, value] = [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 1).trim()];
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+    if (!match) {
+      return null;
+    }
+    const [, year, month, day, hour, minute, second, utc] = match;
+    if (utc) {
+      return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+    }
+    const zone = interviewScheduleService.resolveTimeZone(params.match(/TZID=([^;:]+)/)?.[1]?.replace(/"/g, '')) || 'UTC';
+    return interviewScheduleService.toInstant(`${year}-${month}-${day}`, `${hour}:${minute}`, zone);
+  };
+
+  const start = readTime('DTSTART');
+  return start ? { start, end: readTime('DTEND') } : null;
+}
+
+class CalendarSyncService {
+  /**
+   * The user's feed token, created on first use. Regenerating invalidates previously shared feed URLs.
+   */
+  async getFeedToken(organizationId: string, userId: string, regenerate = false): Promise<string> {
+    const [existing] = await db
+      .select()
+      .from(interviewCalendarFeeds)
+      .where(and(eq(interviewCalendarFeeds.organizationId, organizationId), eq(interviewCalendarFeeds.userId, userId)));
+    if (existing && !regenerate) {
+      return existing.token;
+    }
+    const token = crypto.randomBytes(24).toString('hex');
+    await db
+      .insert(interviewCalendarFeeds)
+      .values({ organizationId, userId, token })
+      .onConflictDoUpdate({
+        target: [interviewCalendarFeeds.organizationId, interviewCalendarFeeds.userId],
+        set: { token, createdAt: new Date() },
+      });
+    return token;
+  }
+
+  feedUrl(token: string): string {
+    return `${getAppBaseUrl()}/api/calendar/feed/${token}.ics`;
+  }
+
+  /**
+   * Subscribable calendar of every interview the feed's owner runs or sits on, from a month back onwards.
+   */
+  async renderFeed(token: string): Promise<string | null> {
+    const [feed] = await db.select().from(interviewCalendarFeeds).where(eq(interviewCalendarFeeds.token, token));
+    if (!feed) {
+      return null;
+    }
+    const organization = await storage.getOrganizationById(feed.organizationId);
+    const companyName = organization?.companyName || 'Company';
+    const interviews = await this.interviewsFor(feed.organizationId, feed.userId, new Date(Date.now() - FEED_PAST_DAYS * DAY_MS));
+    const events = interviews
+      .map(interview => interviewScheduleService.interviewerEvent(interview, companyName))
+      .filter(<T>(event: T | null): event is T => event !== null);
+    return interviewScheduleService.buildCalendar(events, { name: `${companyName} Interviews` });
+  }
+
+  private async interviewsFor(organizationId: string, userId: string, since: Date): Promise<RealInterview[]> {
+    const panel = await db
+      .select({ interviewId: interviewScorecards.interviewId })
+      .from(interviewScorecards)
+      .where(and(eq(interviewScorecards.organizationId, organizationId), eq(interviewScorecards.interviewerId, userId)));
+    const panelIds: string[] = panel.map((row: { interviewId: string }) => row.interviewId);
+    return await db
+      .select()
+      .from(realInterviews)
+      .where(and(
+        eq(realInterviews.organizationId, organizationId),
+        gte(realInterviews.scheduledAt, since),
+        panelIds.length > 0
+          ? or(eq(realInterviews.createdBy, userId), inArray(realInterviews.id, panelIds))
+          : eq(realInterviews.createdBy, userId)
+      ))
+      .orderBy(realInterviews.scheduledAt);
+  }
+
+  async getConnections(organizationId: string, userId: string): Promise<CalendarConnectionView[]> {
+    const connections: CalendarConnection[] = await db
+      .select()
+      .from(calendarConnections)
+      .where(and(eq(calendarConnections.organizationId, organizationId), eq(calendarConnections.userId, userId)));
+    return connections.map(({ config, ...connection }) => ({ ...connection, url: config.url, username: config.username }));
+  }
+
+  /**
+   * Save a calendar connection after checking the server accepts it. A blank password keeps the saved one.
+   */
+  async connect(organizationId: string, userId: string, provider: string, input: Partial<CalendarConnectionConfig>):
+    Promise<{ success: true } | { success: false; status: number; message: string }> {
+    const implementation = PROVIDERS[provider as CalendarProviderName];
+    if (!implementation) {
+      return { success: false, status: 400, message: `Unsupported calendar provider: ${provider}` };
+    }
+    if (!isEncryptionAvailable()) {
+      return { success: false, status: 503, message: 'Calendar connections are unavailable until ENCRYPTION_KEY is configured' };
+    }
+    const url = String(input.url || '').trim();
+    if (!/^https?:\/\//i.test(url)) {
+      return { success: false, status: 400, message: 'Enter the full calendar URL, starting with http:// or https://' };
+    }
+    const [existing] = await db
+      .select()
+      .from(calendarConnections)
+      .where(and(
+        eq(calendarConnections.organizationId, organizationId),
+        eq(calendarConnections.userId, userId),
+        eq(calendarConnections.provider, provider as CalendarProviderName)
+      ));
+    const config: CalendarConnectionConfig = {
+      url,
+      username: String(input.username || '').trim(),
+      password: input.password ? String(input.password) : existing ? decryptConfig(existing.config).password : '',
+    };
+
+    try {
+      await implementation.verify(config);
+    } catch (error: any) {
+      return { success: false, status: 400, message: error.message || 'Could not reach the calendar' };
+    }
+
+    await db
+      .insert(calendarConnections)
+      .values({ organizationId, userId, provider: provider as CalendarProviderName, config: encryptConfig(config) })
+      .onConflictDoUpdate({
+        target: [calendarConnections.organizationId, calendarConnections.userId, calendarConnections.provider],
+        set: { config: encryptConfig(config), status: 'active', lastError: null, updatedAt: new Date() },
+      });
+    // A different calendar starts without any of the old one's events
+    if (existing && existing.config.url !== config.url) {
+      await db.delete(calendarEventLinks).where(eq(calendarEventLinks.connectionId, existing.id));
+    }
+    return { success: true };
+  }
+
+  async disconnect(organizationId: string, userId: string, provider: string): Promise<boolean> {
+    const [removed] = await db
+      .delete(calendarConnections)
+      .where(and(
+        eq(calendarConnections.organizationId, organizationId),
+        eq(calendarConnections.userId, userId),
+        eq(calendarConnections.provider, provider as CalendarProviderName)
+      ))
+      .returning();
+    if (!removed) {
+      return false;
+    }
+    await db.delete(calendarEventLinks).where(eq(calendarEventLinks.connectionId, removed.id));
+    return true;
+  }
+
+  /**
+   * Queue a calendar sync for the interview; the worker mirrors whatever state it is in by then.
+   */
+  async queueSync(interview: Pick<RealInterview, 'id' | 'organizationId'>): Promise<void> {
+    if (!interview.organizationId) {
+      return;
+    }
+    try {
+      const { addInterviewCalendarSyncJob } = await import('../jobProducers');
+      await addInterviewCalendarSyncJob({ organizationId: interview.organizationId, interviewId: interview.id });
+    } catch (error) {
+      console.error(`❌ Failed to queue calendar sync for interview ${interview.id}:`, error);
+    }
+  }
+
+  /**
+   * Mirror an interview into the connected calendars of everyone on it: create or update while it is
+   * scheduled, remove once it is cancelled or deleted. Failures are recorded on the connection, never thrown.
+   */
+  async syncInterview(organizationId: string, interviewId: string): Promise<void> {
+    try {
+      const [interview]: RealInterview[] = await db
+        .select()
+        .from(realInterviews)
+        .where(and(eq(realInterviews.id, interviewId), eq(realInterviews.organizationId, organizationId)));
+      const participants = interview ? await this.participants(interview) : [];
+      const links: CalendarEventLink[] = await db
+        .select()
+        .from(calendarEventLinks)
+        .where(eq(calendarEventLinks.interviewId, interviewId));
+      const connectionIds = links.map(link => link.connectionId);
+      const connections: CalendarConnection[] = participants.length > 0 || connectionIds.length > 0
+        ? await db
+            .select()
+            .from(calendarConnections)
+            .where(and(
+              eq(calendarConnections.organizationId, organizationId),
+              or(
+                participants.length > 0 ? inArray(calendarConnections.userId, participants) : undefined,
+                connectionIds.length > 0 ? inArray(calendarConnections.id, connectionIds) : undefined
+              )
+            ))
+        : [];
+      if (connections.length === 0) {
+        return;
+      }
+
+      const organization = interview ? await storage.getOrganizationById(organizationId) : undefined;
+      const event = interview ? interviewScheduleService.interviewerEvent(interview, organization?.companyName || 'Company') : null;
+      const keep = !!interview && interview.status !== 'cancelled' && !!event;
+
+      for (const connection of connections) {
+        const link = links.find(entry => entry.connectionId === connection.id) || null;
+        // People taken off the panel lose the event too
+        const onInterview = participants.includes(connection.userId);
+        await this.withConnection(connection, async (provider, config) => {
+          if (keep && onInterview) {
+            const stored = await provider.upsertEvent(config, {
+              uid: event!.uid,
+              ics: interviewScheduleService.buildCalendar([event!]),
+            }, link ? { externalId: link.externalId, etag: link.etag } : null);
+            await this.saveLink(connection.id, interview!, stored);
+          } else if (link) {
+            await provider.deleteEvent(config, link.externalId);
+            await db.delete(calendarEventLinks).where(eq(calendarEventLinks.id, link.id));
+          }
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Calendar sync failed for interview ${interviewId}:`, error);
+    }
+  }
+
+  // Whoever scheduled the interview and its panel
+  private async participants(interview: RealInterview): Promise<string[]> {
+    const panel = await db
+      .select({ interviewerId: interviewScorecards.interviewerId })
+      .from(interviewScorecards)
+      .where(eq(interviewScorecards.interviewId, interview.id));
+    return Array.from(new Set([
+      ...(interview.createdBy ? [interview.createdBy] : []),
+      ...panel.map((row: { interviewerId: string }) => row.interviewerId),
+    ]));
+  }
+
+  private async saveLink(connectionId: number, interview: RealInterview, stored: StoredEvent): Promise<void> {
+    await db
+      .insert(calendarEventLinks)
+      .values({
+        connectionId,
+        interviewId: interview.id,
+        externalId: stored.externalId,
+        etag: stored.etag,
+        syncedSequence: interview.icsSequence || 0,
+      })
+      .onConflictDoUpdate({
+        target: [calendarEventLinks.connectionId, calendarEventLinks.interviewId],
+        set: { externalId: stored.externalId, etag: stored.etag, syncedSequence: interview.icsSequence || 0, updatedAt: new Date() },
+      });
+  }
+
+  // Run provider calls for a connection, keeping its status and last error current
+  private async withConnection(connection: CalendarConnection, work: (provider: CalendarProvider, config: CalendarConnectionConfig) => Promise<void>): Promise<boolean> {
+    const provider = PROVIDERS[connection.provider];
+    if (!provider) {
+      return false;
+    }
+    try {
+      const saved: SavedConfig = connection.config;
+      const config = decryptConfig(saved);
+      await work(provider, config);
+      // A plaintext password from before encryption is re-saved encrypted on first use
+      const reencrypted = !saved.encryptedPassword && isEncryptionAvailable() ? { config: encryptConfig(config) } : {};
+      await db.update(calendarConnections)
+        .set({ status: 'active', lastError: null, lastSyncedAt: new Date(), ...reencrypted })
+        .where(eq(calendarConnections.id, connection.id));
+      return true;
+    } catch (error: any) {
+      console.error(`❌ Calendar connection ${connection.id} (${connection.provider}) failed:`, error);
+      await db.update(calendarConnections)
+        .set({ status: 'error', lastError: String(error?.message || error).slice(0, 500), updatedAt: new Date() })
+        .where(eq(calendarConnections.id, connection.id));
+      return false;
+    }
+  }
+
+  /**
+   * Pull back changes interviewers made in their own calendars, for every connection.
+   */
+  async pullAll(): Promise<{ connections: number; updated: number }> {
+    const connections: CalendarConnection[] = await db.select().from(calendarConnections);
+    let updated = 0;
+    for (const connection of connections) {
+      updated += await this.pullConnection(connection);
+    }
+    return { connections: connections.length, updated };
+  }
+
+  async pullForUser(organizationId: string, userId: string, provider: string): Promise<number | null> {
+    const [connection] = await db
+      .select()
+      .from(calendarConnections)
+      .where(and(
+        eq(calendarConnections.organizationId, organizationId),
+        eq(calendarConnections.userId, userId),
+        eq(calendarConnections.provider, provider as CalendarProviderName)
+      ));
+    return connection ? await this.pullConnection(connection) : null;
+  }
+
+  /**
+   * Apply moves made in the external calendar to upcoming interviews. An event deleted there only unlinks
+   * it: cancelling a candidate's interview stays an explicit action in the app.
+   */
+  private async pullConnection(connection: CalendarConnection): Promise<number> {
+    const rows: Array<{ link: CalendarEventLink; interview: RealInterview }> = await db
+      .select({ link: calendarEventLinks, interview: realInterviews })
+      .from(calendarEventLinks)
+      .innerJoin(realInterviews, eq(realInterviews.id, calendarEventLinks.interviewId))
+      .where(and(
+        eq(calendarEventLinks.connectionId, connection.id),
+        eq(realInterviews.status, 'scheduled'),
+        gte(realInterviews.scheduledAt, new Date())
+      ));
+
+    let updated = 0;
+    const moved: RealInterview[] = [];
+    await this.withConnection(connection, async (provider, config) => {
+      for (const { link, interview } of rows) {
+        const remote = await provider.fetchEvent(config, link.externalId);
+        if (!remote) {
+          await db.delete(calendarEventLinks).where(eq(calendarEventLinks.id, link.id));
+          continue;
+        }
+        if (remote.etag && remote.etag === link.etag) {
+          continue;
+        }
+        const times = parseEventTimes(remote.ics);
+        await db.update(calendarEventLinks)
+          .set({ etag: remote.etag, updatedAt: new Date() })
+          .where(eq(calendarEventLinks.id, link.id));
+        if (!times) {
+          continue;
+        }
+
+        const start = interviewScheduleService.startOf(interview);
+        const durationMinutes = times.end
+          ? Math.round((times.end.getTime() - times.start.getTime()) / 60000)
+          : interview.durationMinutes || DEFAULT_INTERVIEW_MINUTES;
+        if (start?.getTime() === times.start.getTime() && durationMinutes === (interview.durationMinutes || DEFAULT_INTERVIEW_MINUTES)) {
+          continue;
+        }
+        if (times.start.getTime() <= Date.now() || durationMinutes <= 0) {
+          continue;
+        }
+        moved.push(await this.applyCalendarMove(connection, interview, times.start, durationMinutes));
+        updated++;
+      }
+    });
+
+    // Everyone else's calendar, and the candidate, follow the move
+    for (const interview of moved) {
+      await this.syncInterview(connection.organizationId, interview.id);
+    }
+    return updated;
+  }
+
+  private async applyCalendarMove(connection: CalendarConnection, interview: RealInterview, start: Date, durationMinutes: number): Promise<RealInterview> {
+    const previousStart = interviewScheduleService.startOf(interview);
+    const zone = interviewScheduleService.resolveTimeZone(interview.timeZone) || 'UTC';
+    const wallClock = interviewScheduleService.toWallClock(start, zone);
+    const [updated] = await db.update(realInterviews)
+      .set({
+        scheduledAt: start,
+        scheduledDate: wallClock.date,
+        scheduledTime: wallClock.time,
+        durationMinutes,
+        icsSequence: (interview.icsSequence || 0) + 1,
+        updatedAt: new Date(),
+      })
+      .where(eq(realInterviews.id, interview.id))
+      .returning();
+
+    await applicantEventService.recordForCandidate({ applicantUserId: interview.candidateId, jobId: interview.jobId }, {
+      organizationId: interview.organizationId,
+      action: 'interview_updated',
+      actorId: connection.userId,
+      before: { scheduledAt: previousStart?.toISOString() || null, durationMinutes: interview.durationMinutes },
+      after: { scheduledAt: start.toISOString(), durationMinutes },
+      metadata: { interviewId: interview.id, source: 'calendar_sync', provider: connection.provider },
+    });
+
+    if (updated.candidateEmail) {
+      const organization = updated.organizationId ? await storage.getOrganizationById(updated.organizationId) : undefined;
+      await emailService.sendInterviewScheduledEmail({
+        ...interviewScheduleService.candidateEmailFields(updated, organization?.companyName || 'Company'),
+        rescheduled: true,
+      });
+    }
+    await interviewScheduleService.scheduleReminders(updated);
+    return updated;
+  }
+}
+
+export const calendarSyncService = new CalendarSyncService();
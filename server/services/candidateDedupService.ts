@@ -0,0 +1,611 @@
+import { db, type DbTransaction } from '../db';
+import {
+  resumeProfiles,
+  resumeJobScores,
+  resumeJobScoreHistory,
+  resumeProfileDuplicates,
+  shortlistedApplicants,
+  airtableJobApplications,
+  airtableJobMatches,
+  airtableUserProfiles,
+  applicationStageHistory,
+  applicantEvents,
+  interviewBookingLinks,
+  offerLetters,
+  invitationReminders,
+  type AirtableJobMatch,
+  type ResumeProfile,
+  type InsertResumeProfile,
+  type ResumeProfileDuplicate,
+} from '@shared/schema';
+import { eq, and, or, ne, inArray, asc, desc } from 'drizzle-orm';
+import { cacheService } from '../cacheService';
+import { ragIndexingService } from '../ragIndexingService';
+import { resumeVersionService, type VersionMetadata } from './resumeVersionService';
+import { invitationReminderService } from './invitationReminderService';
+
+export type DuplicateMatchReason = 'email' | 'phone' | 'name' | 'text';
+
+export interface ProfileFingerprint {
+  normalizedEmail: string | null;
+  normalizedPhone: string | null;
+  normalizedName: string | null;
+  contentHash: string | null;
+}
+
+export interface IngestResult {
+  profile: ResumeProfile;
+  reused: boolean; // true when the exact same file was already stored for this organization
+  isNewVersion: boolean; // true when the upload became a new version of an existing candidate
+}
+
+export interface PossibleDuplicateGroup {
+  pair: ResumeProfileDuplicate;
+  profile: ResumeProfile;
+  duplicate: ResumeProfile;
+}
+
+export interface MergeResult {
+  survivor: ResumeProfile;
+  mergedProfileIds: string[];
+  movedJobScores: number;
+  droppedJobScores: number;
+  movedApplications: number;
+  mergedApplications: number;
+  movedShortlists: number;
+  movedJobMatches: number;
+  droppedJobMatches: number;
+}
+
+// How far an interview invitation got, for keeping the further one when both merged profiles were invited to a job
+const MATCH_PROGRESS = ['cancelled', 'expired', 'pending', 'invited', 'scheduled', 'in_progress'];
+
+// Minimum fuzzy text similarity for a name-only match to be flagged as a possible duplicate
+const TEXT_SIMILARITY_THRESHOLD = parseFloat(process.env.DEDUP_TEXT_SIMILARITY_THRESHOLD || '') || 0.6;
+
+// Emails where dots in the local part are ignored and "+tag" suffixes are aliases
+const DOT_INSENSITIVE_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+const ARRAY_FIELDS = ['experience', 'skills', 'education', 'certifications', 'languages'] as const;
+
+class CandidateDedupService {
+  normalizeEmail(email?: string | null): string | null {
+    const trimmed = (email || '').trim().toLowerCase();
+    const at = trimmed.lastIndexOf('@');
+    if (at <= 0 || at === trimmed.length - 1) {
+      return null;
+    }
+
+    let local = trimmed.slice(0, at).split('+')[0];
+    let domain = trimmed.slice(at + 1);
+    if (DOT_INSENSITIVE_DOMAINS.includes(domain)) {
+      local = local.replace(/\./g, '');
+      domain = 'gmail.com';
+    }
+    return `${local}@${domain}`;
+  }
+
+  /**
+   * Digits only, without international/trunk prefixes, keeping the last 9 digits so that
+   * "+966 50 123 4567" and "050-123-4567" normalize to the same value.
+   */
+  normalizePhone(phone?: string | null): string | null {
+    const digits = (phone || '').replace(/\D/g, '');
+    if (digits.length < 7) {
+      return null;
+    }
+    return digits.slice(-9);
+  }
+
+  /**
+   * Lowercased, accent-free name tokens in sorted order ("Doe, John" === "john doe").
+   */
+  normalizeName(name?: string | null): string | null {
+    const tokens = (name || '')
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9\u0600-\u06ff\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 1);
+    if (tokens.length === 0) {
+      return null;
+    }
+    return tokens.sort().join(' ');
+  }
+
+  fingerprint(
+    profile: Pick<InsertResumeProfile, 'name' | 'email' | 'phone'>,
+    fileContent?: string,
+    fileType?: string
+  ): ProfileFingerprint {
+    return {
+      normalizedEmail: this.normalizeEmail(profile.email),
+      normalizedPhone: this.normalizePhone(profile.phone),
+      normalizedName: this.normalizeName(profile.name),
+      contentHash: fileContent ? cacheService.fileContentHash(fileContent, fileType) : null,
+    };
+  }
+
+  private profileText(profile: ResumeProfile): string {
+    return [
+      profile.summary || '',
+      ...(profile.experience || []),
+      ...(profile.skills || []),
+      ...(profile.education || []),
+      ...(profile.certifications || []),
+    ].join(' ');
+  }
+
+  private shingles(text: string): Set<string> {
+    const words = text.toLowerCase().split(/[^a-z0-9\u0600-\u06ff]+/).filter(Boolean);
+    const result = new Set<string>();
+    if (words.length < 2) {
+      words.forEach(word => result.add(word));
+      return result;
+    }
+    for (let i = 0; i < words.length - 1; i++) {
+      result.add(`${words[i]} ${words[i + 1]}`);
+    }
+    return result;
+  }
+
+  /**
+   * Jaccard similarity over word bigrams of the parsed profile content (0-1).
+   */
+  textSimilarity(a: ResumeProfile, b: ResumeProfile): number {
+    const left = this.shingles(this.profileText(a));
+    const right = this.shingles(this.profileText(b));
+    if (left.size === 0 || right.size === 0) {
+      return 0;
+    }
+    let intersection = 0;
+    left.forEach(shingle => {
+      if (right.has(shingle)) intersection++;
+    });
+    return Math.round((intersection / (left.size + right.size - intersection)) * 100) / 100;
+  }
+
+  /**
+   * Store a newly parsed profile. The same file already stored for this organization reuses that
+   * profile; an updated CV from a known candidate (same normalized email) becomes a new version of
+   * their profile; anything else creates a new profile. Relies on the (organizationId, contentHash)
+   * unique index so concurrent queue jobs for the same upload converge on a single profile.
+   */
+  async ingestProfile(profileData: InsertResumeProfile, metadata: VersionMetadata): Promise<IngestResult> {
+    const fingerprint = this.fingerprint(profileData, profileData.resumeText, metadata.fileType);
+    const organizationId = profileData.organizationId!;
+
+    if (fingerprint.contentHash) {
+      const existing = await resumeVersionService.findProfileByContentHash(organizationId, fingerprint.contentHash);
+      if (existing) {
+        return { profile: existing, reused: true, isNewVersion: false };
+      }
+    }
+
+    if (fingerprint.normalizedEmail && fingerprint.contentHash) {
+      const [sameCandidate] = await db
+        .select()
+        .from(resumeProfiles)
+        .where(and(
+          eq(resumeProfiles.organizationId, organizationId),
+          eq(resumeProfiles.normalizedEmail, fingerprint.normalizedEmail)
+        ))
+        .orderBy(asc(resumeProfiles.createdAt))
+        .limit(1);
+
+      if (sameCandidate) {
+        const appended = await resumeVersionService.appendVersion(sameCandidate.id, { ...profileData, ...fingerprint }, metadata);
+        if (appended) {
+          return { profile: appended.profile, reused: false, isNewVersion: true };
+        }
+        const current = await resumeVersionService.findProfileByContentHash(organizationId, fingerprint.contentHash);
+        return { profile: current || sameCandidate, reused: true, isNewVersion: false };
+      }
+    }
+
+    const [created] = await db
+      .insert(resumeProfiles)
+      .values({ ...profileData, ...fingerprint })
+      .onConflictDoNothing({ target: [resumeProfiles.organizationId, resumeProfiles.contentHash] })
+      .returning();
+
+    if (created) {
+      await resumeVersionService.recordInitialVersion(created, metadata);
+      return { profile: created, reused: false, isNewVersion: false };
+    }
+
+    const existing = await resumeVersionService.findProfileByContentHash(organizationId, fingerprint.contentHash!);
+    return { profile: existing!, reused: true, isNewVersion: false };
+  }
+
+  /**
+   * Compare a profile against others in its organization sharing a normalized email, phone or
+   * name and record any possible duplicates for recruiter review.
+   */
+  async detectDuplicates(profile: ResumeProfile): Promise<ResumeProfileDuplicate[]> {
+    if (!profile.organizationId) {
+      return [];
+    }
+
+    const keyConditions = [
+      profile.normalizedEmail ? eq(resumeProfiles.normalizedEmail, profile.normalizedEmail) : undefined,
+      profile.normalizedPhone ? eq(resumeProfiles.normalizedPhone, profile.normalizedPhone) : undefined,
+      profile.normalizedName ? eq(resumeProfiles.normalizedName, profile.normalizedName) : undefined,
+    ].filter(Boolean);
+
+    if (keyConditions.length === 0) {
+      return [];
+    }
+
+    const candidates: ResumeProfile[] = await db
+      .select()
+      .from(resumeProfiles)
+      .where(and(
+        eq(resumeProfiles.organizationId, profile.organizationId),
+        ne(resumeProfiles.id, profile.id),
+        or(...keyConditions)
+      ))
+      .limit(50);
+
+    const recorded: ResumeProfileDuplicate[] = [];
+    for (const candidate of candidates) {
+      const reasons: DuplicateMatchReason[] = [];
+      if (profile.normalizedEmail && candidate.normalizedEmail === profile.normalizedEmail) reasons.push('email');
+      if (profile.normalizedPhone && candidate.normalizedPhone === profile.normalizedPhone) reasons.push('phone');
+      if (profile.normalizedName && candidate.normalizedName === profile.normalizedName) reasons.push('name');
+
+      const similarity = this.textSimilarity(profile, candidate);
+      if (similarity >= TEXT_SIMILARITY_THRESHOLD) reasons.push('text');
+
+      // A shared name alone is too weak (common names) unless the content also matches
+      const isDuplicate = reasons.includes('email') || reasons.includes('phone') ||
+        (reasons.includes('name') && reasons.includes('text'));
+      if (!isDuplicate) {
+        continue;
+      }
+
+      const [pair] = await db
+        .insert(resumeProfileDuplicates)
+        .values({
+          organizationId: profile.organizationId,
+          profileId: profile.id,
+          duplicateProfileId: candidate.id,
+          matchReasons: reasons,
+          similarity,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (pair) {
+        recorded.push(pair);
+      }
+    }
+
+    if (recorded.length > 0) {
+      console.log(`👥 Flagged ${recorded.length} possible duplicate(s) for resume profile ${profile.id}`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Unresolved duplicate pairs for an organization, joined with both profiles.
+   */
+  async getPossibleDuplicates(organizationId: string): Promise<PossibleDuplicateGroup[]> {
+    const pairs: ResumeProfileDuplicate[] = await db
+      .select()
+      .from(resumeProfileDuplicates)
+      .where(and(
+        eq(resumeProfileDuplicates.organizationId, organizationId),
+        eq(resumeProfileDuplicates.status, 'pending')
+      ))
+      .orderBy(desc(resumeProfileDuplicates.createdAt));
+
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    const profileIds = Array.from(new Set(pairs.flatMap(pair => [pair.profileId, pair.duplicateProfileId])));
+    const profiles: ResumeProfile[] = await db
+      .select()
+      .from(resumeProfiles)
+      .where(inArray(resumeProfiles.id, profileIds));
+    const profilesById = new Map(profiles.map(profile => [profile.id, profile]));
+
+    return pairs
+      .filter(pair => profilesById.has(pair.profileId) && profilesById.has(pair.duplicateProfileId))
+      .map(pair => ({
+        pair,
+        profile: profilesById.get(pair.profileId)!,
+        duplicate: profilesById.get(pair.duplicateProfileId)!,
+      }));
+  }
+
+  async getDuplicatePair(id: number): Promise<ResumeProfileDuplicate | undefined> {
+    const [pair] = await db
+      .select()
+      .from(resumeProfileDuplicates)
+      .where(eq(resumeProfileDuplicates.id, id));
+    return pair;
+  }
+
+  async dismissDuplicate(id: number, userId: string): Promise<ResumeProfileDuplicate> {
+    const [pair] = await db
+      .update(resumeProfileDuplicates)
+      .set({ status: 'dismissed', resolvedBy: userId, resolvedAt: new Date() })
+      .where(eq(resumeProfileDuplicates.id, id))
+      .returning();
+    return pair;
+  }
+
+  /**
+   * Merge source profiles into the survivor: job scores, applications, shortlists, interview matches and
+   * version history are re-pointed. When both have a record for the same job, the survivor's score wins, a
+   * duplicate application is folded into the survivor's and the invitation that got further is kept. Empty
+   * survivor fields are filled from the sources, list fields are unioned, and the source resume profiles are
+   * deleted and removed from the RAG index. Source candidate records are kept with `mergedInto` set.
+   */
+  async mergeProfiles(survivorId: string, sourceIds: string[], userId: string): Promise<MergeResult> {
+    const ids = Array.from(new Set(sourceIds)).filter(id => id !== survivorId);
+    if (ids.length === 0) {
+      throw new Error('At least one profile to merge is required');
+    }
+
+    const profiles: ResumeProfile[] = await db
+      .select()
+      .from(resumeProfiles)
+      .where(inArray(resumeProfiles.id, [survivorId, ...ids]));
+    const survivor = profiles.find(profile => profile.id === survivorId);
+    const sources = profiles.filter(profile => profile.id !== survivorId);
+
+    if (!survivor || sources.length !== ids.length) {
+      throw new Error('Profile not found');
+    }
+    if (sources.some(source => source.organizationId !== survivor.organizationId)) {
+      throw new Error('Profiles belong to different organizations');
+    }
+
+    const result: MergeResult = {
+      survivor,
+      mergedProfileIds: ids,
+      movedJobScores: 0,
+      droppedJobScores: 0,
+      movedApplications: 0,
+      mergedApplications: 0,
+      movedShortlists: 0,
+      movedJobMatches: 0,
+      droppedJobMatches: 0,
+    };
+    const droppedMatchIds: string[] = [];
+
+    await db.transaction(async (tx: DbTransaction) => {
+      // Job scores: keep the survivor's score for a job, otherwise take the newest source score
+      const scores = await tx
+        .select()
+        .from(resumeJobScores)
+        .where(inArray(resumeJobScores.profileId, [survivorId, ...ids]))
+        .orderBy(desc(resumeJobScores.scoredAt));
+      const scoredJobIds = new Set(scores.filter(score => score.profileId === survivorId).map(score => score.jobId));
+      for (const score of scores) {
+        if (score.profileId === survivorId) continue;
+        if (scoredJobIds.has(score.jobId)) {
+          await tx.delete(resumeJobScores).where(eq(resumeJobScores.id, score.id));
+          result.droppedJobScores++;
+        } else {
+          await tx.update(resumeJobScores)
+            .set({ profileId: survivorId, updatedAt: new Date() })
+            .where(eq(resumeJobScores.id, score.id));
+          scoredJobIds.add(score.jobId);
+          result.movedJobScores++;
+        }
+      }
+      await tx.update(resumeJobScoreHistory)
+        .set({ profileId: survivorId })
+        .where(inArray(resumeJobScoreHistory.profileId, ids));
+
+      // Applications move to the survivor. Where the survivor already applied to the same job, the source's
+      // application is folded into the survivor's: its shortlists (shortlistedApplicants.applicantId holds the
+      // application id), stage history, events, booking links and offers move over and the duplicate is deleted.
+      const applications = await tx
+        .select({ id: airtableJobApplications.id, applicantUserId: airtableJobApplications.applicantUserId, jobId: airtableJobApplications.jobId })
+        .from(airtableJobApplications)
+        .where(inArray(airtableJobApplications.applicantUserId, [survivorId, ...ids]));
+      const survivorApplicationByJob = new Map(
+        applications.filter(application => application.applicantUserId === survivorId).map(application => [application.jobId, application.id])
+      );
+      for (const application of applications) {
+        if (application.applicantUserId === survivorId) continue;
+
+        const survivorApplicationId = survivorApplicationByJob.get(application.jobId);
+        if (!survivorApplicationId) {
+          await tx.update(airtableJobApplications)
+            .set({ applicantUserId: survivorId, applicantName: survivor.name, updatedAt: new Date() })
+            .where(eq(airtableJobApplications.id, application.id));
+          result.movedApplications++;
+          survivorApplicationByJob.set(application.jobId, application.id);
+          await tx.update(shortlistedApplicants)
+            .set({ applicantName: survivor.name, updatedAt: new Date() })
+            .where(eq(shortlistedApplicants.applicantId, application.id));
+          continue;
+        }
+        const shortlists = await tx
+          .select()
+          .from(shortlistedApplicants)
+          .where(inArray(shortlistedApplicants.applicantId, [survivorApplicationId, application.id]));
+        const shortlistedBy = new Set(
+          shortlists.filter(shortlist => shortlist.applicantId === survivorApplicationId).map(shortlist => shortlist.employerId)
+        );
+        for (const shortlist of shortlists) {
+          if (shortlist.applicantId === survivorApplicationId) continue;
+          if (shortlistedBy.has(shortlist.employerId)) {
+            await tx.delete(shortlistedApplicants).where(eq(shortlistedApplicants.id, shortlist.id));
+          } else {
+            await tx.update(shortlistedApplicants)
+              .set({ applicantId: survivorApplicationId, applicantName: survivor.name, updatedAt: new Date() })
+              .where(eq(shortlistedApplicants.id, shortlist.id));
+            shortlistedBy.add(shortlist.employerId);
+            result.movedShortlists++;
+          }
+        }
+        await tx.update(applicationStageHistory)
+          .set({ applicationId: survivorApplicationId })
+          .where(eq(applicationStageHistory.applicationId, application.id));
+        await tx.update(applicantEvents)
+          .set({ applicationId: survivorApplicationId })
+          .where(eq(applicantEvents.applicationId, application.id));
+        await tx.update(interviewBookingLinks)
+          .set({ applicationId: survivorApplicationId })
+          .where(eq(interviewBookingLinks.applicationId, application.id));
+        await tx.update(offerLetters)
+          .set({ applicantId: survivorApplicationId })
+          .where(eq(offerLetters.applicantId, application.id));
+        await tx.delete(airtableJobApplications).where(eq(airtableJobApplications.id, application.id));
+        result.mergedApplications++;
+      }
+
+      // Interview invitations (job matches are keyed by the resume profile id). Where both profiles were invited to
+      // the same job, the invitation that got further is kept and the other is deleted; its reminders are cancelled below.
+      const matches: AirtableJobMatch[] = await tx
+        .select()
+        .from(airtableJobMatches)
+        .where(inArray(airtableJobMatches.userId, [survivorId, ...ids]));
+      const matchByJob = new Map(matches.filter(match => match.userId === survivorId).map(match => [match.jobId, match]));
+      for (const match of matches) {
+        if (match.userId === survivorId) continue;
+        const kept = matchByJob.get(match.jobId);
+        if (kept && this.matchProgress(kept) >= this.matchProgress(match)) {
+          await tx.delete(airtableJobMatches).where(eq(airtableJobMatches.id, match.id));
+          droppedMatchIds.push(match.id);
+          continue;
+        }
+        if (kept) {
+          await tx.delete(airtableJobMatches).where(eq(airtableJobMatches.id, kept.id));
+          droppedMatchIds.push(kept.id);
+        }
+        await tx.update(airtableJobMatches)
+          .set({ userId: survivorId, updatedAt: new Date() })
+          .where(eq(airtableJobMatches.id, match.id));
+        matchByJob.set(match.jobId, { ...match, userId: survivorId });
+        result.movedJobMatches++;
+      }
+      result.droppedJobMatches = droppedMatchIds.length;
+      await tx.update(invitationReminders)
+        .set({ profileId: survivorId })
+        .where(inArray(invitationReminders.profileId, ids));
+
+      // Candidate records of the sources are kept, marked as merged, so their history still resolves
+      await tx.update(airtableUserProfiles)
+        .set({ mergedInto: survivorId, updatedAt: new Date() })
+        .where(inArray(airtableUserProfiles.userId, ids));
+
+      // Version history of the merged profiles joins the survivor's
+      const currentVersion = await resumeVersionService.moveVersions(tx, survivor, sources);
+
+      // Fill gaps on the survivor and union list fields
+      const updates: Partial<InsertResumeProfile> = { currentVersion, updatedAt: new Date() };
+      for (const source of sources) {
+        if (!survivor.email && !updates.email && source.email) {
+          updates.email = source.email;
+          updates.normalizedEmail = source.normalizedEmail;
+        }
+        if (!survivor.phone && !updates.phone && source.phone) {
+          updates.phone = source.phone;
+          updates.normalizedPhone = source.normalizedPhone;
+        }
+        if (!survivor.summary && !updates.summary && source.summary) {
+          updates.summary = source.summary;
+        }
+        if (!survivor.experienceEntries?.length && !updates.experienceEntries && source.experienceEntries?.length) {
+          updates.experienceEntries = source.experienceEntries;
+          updates.totalTenureMonths = source.totalTenureMonths;
+          updates.careerGaps = source.careerGaps;
+        }
+        if (!survivor.educationEntries?.length && !updates.educationEntries && source.educationEntries?.length) {
+          updates.educationEntries = source.educationEntries;
+        }
+      }
+      for (const field of ARRAY_FIELDS) {
+        const merged = Array.from(new Set([survivor, ...sources].flatMap(profile => profile[field] || [])));
+        if (merged.length !== (survivor[field] || []).length) {
+          updates[field] = merged;
+        }
+      }
+      const [updated] = await tx.update(resumeProfiles)
+        .set(updates)
+        .where(eq(resumeProfiles.id, survivorId))
+        .returning();
+      result.survivor = updated;
+
+      // Resolve pairs between the merged profiles and re-point remaining pairs to the survivor
+      await tx.update(resumeProfileDuplicates)
+        .set({ status: 'merged', resolvedBy: userId, resolvedAt: new Date() })
+        .where(and(
+          eq(resumeProfileDuplicates.status, 'pending'),
+          or(
+            and(eq(resumeProfileDuplicates.profileId, survivorId), inArray(resumeProfileDuplicates.duplicateProfileId, ids)),
+            and(inArray(resumeProfileDuplicates.profileId, ids), eq(resumeProfileDuplicates.duplicateProfileId, survivorId)),
+            and(inArray(resumeProfileDuplicates.profileId, ids), inArray(resumeProfileDuplicates.duplicateProfileId, ids))
+          )
+        ));
+      await tx.delete(resumeProfileDuplicates)
+        .where(and(
+          ne(resumeProfileDuplicates.status, 'merged'),
+          or(
+            inArray(resumeProfileDuplicates.profileId, ids),
+            inArray(resumeProfileDuplicates.duplicateProfileId, ids)
+          )
+        ));
+
+      await tx.delete(resumeProfiles).where(inArray(resumeProfiles.id, ids));
+    });
+
+    for (const matchId of droppedMatchIds) {
+      try {
+        await invitationReminderService.cancelForMatch(matchId, 'merged');
+      } catch (reminderError) {
+        console.error(`⚠️ Failed to cancel reminders of merged invitation ${matchId} (non-blocking):`, reminderError);
+      }
+    }
+
+    // RAG index: drop merged profiles, re-index the survivor with its merged content
+    for (const id of ids) {
+      try {
+        await ragIndexingService.removeResume(id);
+      } catch (ragError) {
+        console.error(`⚠️ Failed to remove merged resume ${id} from RAG index (non-blocking):`, ragError);
+      }
+    }
+    try {
+      const survivorProfile = result.survivor;
+      await ragIndexingService.indexResume({
+        id: survivorProfile.id,
+        name: survivorProfile.name,
+        email: survivorProfile.email || '',
+        phone: survivorProfile.phone || undefined,
+        summary: survivorProfile.summary || '',
+        experience: survivorProfile.experience || [],
+        skills: survivorProfile.skills || [],
+        education: survivorProfile.education || [],
+        certifications: survivorProfile.certifications || [],
+        languages: survivorProfile.languages || [],
+        resumeText: survivorProfile.resumeText,
+        organizationId: survivorProfile.organizationId || undefined,
+      });
+    } catch (ragError) {
+      console.error(`⚠️ Failed to re-index merged resume ${survivorId} in RAG (non-blocking):`, ragError);
+    }
+
+    console.log(`🔀 Merged ${ids.length} profile(s) into ${survivorId}: ${result.movedJobScores} scores moved, ${result.droppedJobScores} dropped`);
+    return result;
+  }
+
+  // A scored invitation is furthest along; statuses not in the list rank with pending ones
+  private matchProgress(match: AirtableJobMatch): number {
+    if (match.score !== null && match.score !== undefined) {
+      return MATCH_PROGRESS.length;
+    }
+    const index = MATCH_PROGRESS.indexOf(match.status || 'pending');
+    return index === -1 ? MATCH_PROGRESS.indexOf('pending') : index;
+  }
+}
+
+export const candidateDedupService = new CandidateDedupService();
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EMAIL_TEMPLATE_TYPES, EMAIL_LOCALES, type Organization } from '@shared/schema';
+import { DEFAULT_EMAIL_TEMPLATES, emailTemplateService, type EmailContext } from './emailTemplateService';
+
+const english: EmailContext = { organization: null, locale: 'en' };
+const arabic: EmailContext = { organization: null, locale: 'ar' };
+
+test('every default template passes its own validation in both languages', () => {
+  for (const type of EMAIL_TEMPLATE_TYPES) {
+    for (const locale of EMAIL_LOCALES) {
+      assert.doesNotThrow(() => emailTemplateService.normalize(type, DEFAULT_EMAIL_TEMPLATES[type][locale]), `${type}/${locale}`);
+    }
+  }
+});
+
+test('templates are rejected for unknown or missing variables', () => {
+  assert.throws(
+    () => emailTemplateService.normalize('interview_cancelled', { subject: 'Cancelled', body: 'Hi {{first_name}}' }),
+    /Unknown variable \{\{first_name\}\}/,
+  );
+  assert.throws(
+    () => emailTemplateService.normalize('password_reset', { subject: 'Reset', body: 'Hi {{first_name}}' }),
+    { message: 'The email text must include {{reset_link}}' },
+  );
+  assert.throws(() => emailTemplateService.normalize('password_reset', { subject: ' ', body: '{{reset_link}}' }), /Subject must be/);
+});
+
+test('markup becomes HTML and plain text, and lines with empty variables are left out', () => {
+  const email = emailTemplateService.renderTemplate({
+    subject: 'Hello {{candidate_name}}',
+    body: 'Hi **{{candidate_name}}**\n\n**Notes:** {{notes}}\n\n- One\n- Two\n\n[Join]({{meeting_link}})',
+  }, english, { candidate_name: 'Sara', notes: '', meeting_link: 'https://meet.example.com/abc' });
+
+  assert.equal(email.subject, 'Hello Sara');
+  assert.match(email.html, /<strong>Sara<\/strong>/);
+  assert.match(email.html, /<ul[^>]*><li[^>]*>One<\/li><li[^>]*>Two<\/li><\/ul>/);
+  assert.match(email.html, /<a href="https:\/\/meet\.example\.com\/abc"[^>]*>Join<\/a>/);
+  assert.ok(!email.html.includes('Notes'));
+  assert.equal(email.text, 'Hi Sara\n\n- One\n- Two\n\nJoin: https://meet.example.com/abc');
+});
+
+test('variable values are escaped and cannot add markup of their own', () => {
+  const email = emailTemplateService.renderTemplate(DEFAULT_EMAIL_TEMPLATES.interviewer_cancelled.en, english, {
+    recipient_name: '<img src=x onerror=alert(1)>',
+    candidate_name: 'Sam **Lee**',
+    job_title: 'Engineer',
+    company_name: 'Acme & Co',
+    previous_time: 'Monday, March 3, 2025 at 2:00 PM (GMT+2)',
+    reason: 'Please [confirm here](https://evil.example/phish) instead',
+  });
+
+  assert.ok(!email.html.includes('<img'));
+  assert.match(email.html, /Hello &lt;img src=x onerror=alert\(1\)&gt;/);
+  assert.match(email.html, /Acme &amp; Co/);
+  assert.ok(!email.html.includes('href="https://evil.example'));
+  assert.ok(email.html.includes('Please [confirm here](https://evil.example/phish) instead'));
+  assert.ok(email.html.includes('Sam **Lee** cancelled'));
+  assert.equal(email.subject, 'Interview cancelled: Sam **Lee** - Engineer');
+  assert.ok(email.text.includes('Reason given: Please [confirm here](https://evil.example/phish) instead'));
+  assert.ok(!/[\uE000-\uE002]/.test(email.html + email.text + email.subject));
+});
+
+test('interviewer notices leave out the times and reason they do not have', () => {
+  const email = emailTemplateService.renderTemplate(DEFAULT_EMAIL_TEMPLATES.interviewer_rescheduled.en, english, {
+    recipient_name: 'Omar',
+    candidate_name: 'Sara',
+    job_title: 'Designer',
+    company_name: 'Acme',
+    previous_time: '',
+    new_time: 'Thursday, March 12 at 11:00 AM (GMT+2)',
+    reason: null,
+  });
+
+  assert.ok(email.text.includes('- Now: Thursday, March 12 at 11:00 AM (GMT+2)'));
+  assert.ok(!email.text.includes('Previously'));
+  assert.ok(!email.text.includes('Reason given'));
+});
+
+test('Arabic emails are laid out right to left in the organization\'s colors', () => {
+  const organization = { id: 'org-1', companyName: 'شركة النور', brandPrimaryColor: '0, 100%, 50%', brandLogoPath: null } as Organization;
+  const email = emailTemplateService.preview('interview_cancelled', DEFAULT_EMAIL_TEMPLATES.interview_cancelled.ar, { ...arabic, organization });
+
+  assert.match(email.html, /<html lang="ar" dir="rtl">/);
+  assert.match(email.html, /text-align: right/);
+  assert.match(email.html, /border-top: 4px solid #ff0000/);
+  assert.equal(email.subject, 'إلغاء المقابلة: مصمم منتجات أول في شركة النور');
+  assert.ok(email.html.includes('أُرسلت من شركة النور عبر Plato Hiring'));
+});
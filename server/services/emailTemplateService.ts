@@ -0,0 +1,824 @@
+import { db } from '../db';
+import {
+  emailTemplates,
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATE_TYPES,
+  EMAIL_TEMPLATE_VARIABLES,
+  EMAIL_TEMPLATE_REQUIRED_VARIABLES,
+  type EmailLocale,
+  type EmailTemplate,
+  type EmailTemplateType,
+  type Organization,
+} from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { getAppBaseUrl } from '../auth';
+import { storage } from '../storage';
+import type { FormattedInstant } from './interviewScheduleService';
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 20000;
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const LINK_PATTERN = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g;
+const DEFAULT_BRAND_COLOR = '#2563eb';
+// Markup characters in variable values stand in as private-use characters until the markup is applied,
+// so a name or reason can't turn itself into bold text or a link
+const MARKUP_CHARACTERS = '*[]';
+const LITERAL_PATTERN = /[*[\]]/g;
+const PLACEHOLDER_PATTERN = /[\uE000-\uE002]/g;
+
+export interface EmailTemplateText {
+  subject: string;
+  body: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Who an email is sent on behalf of, which decides its template, language and branding
+export interface EmailContext {
+  organization: Organization | null;
+  locale: EmailLocale;
+}
+
+export type EmailVariables = Record<string, string | null | undefined>;
+
+export interface EmailTemplateView extends EmailTemplateText {
+  type: EmailTemplateType;
+  locale: EmailLocale;
+  customized: boolean;
+  updatedAt: Date | null;
+}
+
+/**
+ * Built-in wording, used until an organization writes its own. Bodies are plain text: a blank line starts a
+ * paragraph, "- " starts a list item, **text** is bold, and [label](url) on a line of its own becomes a button.
+ */
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateType, Record<EmailLocale, EmailTemplateText>> = {
+  interview_scheduled: {
+    en: {
+      subject: 'Your interview for {{job_title}} at {{company_name}}',
+      body: `Hello {{candidate_name}},
+
+{{notice}}
+
+We're excited to invite you to an interview for the **{{job_title}}** position at **{{company_name}}**.
+
+- **Date:** {{interview_date}}
+- **Time:** {{interview_time}} ({{time_zone}})
+- **Type:** {{interview_type}}
+
+[Join the Interview]({{meeting_link}})
+
+**Notes:** {{notes}}
+
+The attached invite adds this interview to your calendar in your own time zone. Can't make it? [Reschedule or cancel this interview]({{manage_url}})
+
+Please reply to this email if you have any questions. We look forward to speaking with you!
+
+Best regards,
+The {{company_name}} Hiring Team`,
+    },
+    ar: {
+      subject: 'مقابلتك لوظيفة {{job_title}} في {{company_name}}',
+      body: `مرحباً {{candidate_name}}،
+
+{{notice}}
+
+يسعدنا دعوتك لإجراء مقابلة لوظيفة **{{job_title}}** في **{{company_name}}**.
+
+- **التاريخ:** {{interview_date}}
+- **الوقت:** {{interview_time}} ({{time_zone}})
+- **نوع المقابلة:** {{interview_type}}
+
+[انضم إلى المقابلة]({{meeting_link}})
+
+**ملاحظات:** {{notes}}
+
+تضيف الدعوة المرفقة هذه المقابلة إلى تقويمك بتوقيتك المحلي. لا يناسبك الموعد؟ [أعد جدولة المقابلة أو ألغها]({{manage_url}})
+
+إذا كانت لديك أي أسئلة، يُرجى الرد على هذه الرسالة. نتطلع إلى التحدث معك!
+
+مع أطيب التحيات،
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  interview_cancelled: {
+    en: {
+      subject: 'Interview cancelled: {{job_title}} at {{company_name}}',
+      body: `Hello {{candidate_name}},
+
+Your interview for the **{{job_title}}** position at **{{company_name}}** has been cancelled. The attached update removes it from your calendar.
+
+Best regards,
+The {{company_name}} Hiring Team`,
+    },
+    ar: {
+      subject: 'إلغاء المقابلة: {{job_title}} في {{company_name}}',
+      body: `مرحباً {{candidate_name}}،
+
+تم إلغاء مقابلتك لوظيفة **{{job_title}}** في **{{company_name}}**. يزيل التحديث المرفق المقابلة من تقويمك.
+
+مع أطيب التحيات،
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  interviewer_rescheduled: {
+    en: {
+      subject: 'Interview rescheduled: {{candidate_name}} - {{job_title}}',
+      body: `Hello {{recipient_name}},
+
+{{candidate_name}} moved their interview for **{{job_title}}** to a new time.
+
+- **Previously:** {{previous_time}}
+- **Now:** {{new_time}}
+
+**Reason given:** {{reason}}
+
+The attached calendar update reflects the change.
+
+{{company_name}} Hiring`,
+    },
+    ar: {
+      subject: 'تغيير موعد مقابلة: {{candidate_name}} - {{job_title}}',
+      body: `مرحباً {{recipient_name}}،
+
+غيّر {{candidate_name}} موعد مقابلته لوظيفة **{{job_title}}**.
+
+- **الموعد السابق:** {{previous_time}}
+- **الموعد الجديد:** {{new_time}}
+
+**السبب:** {{reason}}
+
+يعكس تحديث التقويم المرفق هذا التغيير.
+
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  interviewer_cancelled: {
+    en: {
+      subject: 'Interview cancelled: {{candidate_name}} - {{job_title}}',
+      body: `Hello {{recipient_name}},
+
+{{candidate_name}} cancelled their interview for **{{job_title}}**.
+
+**Was scheduled for:** {{previous_time}}
+
+**Reason given:** {{reason}}
+
+The attached calendar update removes it from your calendar.
+
+{{company_name}} Hiring`,
+    },
+    ar: {
+      subject: 'إلغاء مقابلة: {{candidate_name}} - {{job_title}}',
+      body: `مرحباً {{recipient_name}}،
+
+ألغى {{candidate_name}} مقابلته لوظيفة **{{job_title}}**.
+
+**الموعد الملغى:** {{previous_time}}
+
+**السبب:** {{reason}}
+
+يزيل تحديث التقويم المرفق المقابلة من تقويمك.
+
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  interview_invitation: {
+    en: {
+      subject: 'Your application for {{job_title}} at {{company_name}}: next steps',
+      body: `Dear {{candidate_name}},
+
+Thank you for applying to {{company_name}}. After reviewing your resume, we are pleased to let you know that you have been identified as a strong potential candidate for the **{{job_title}}** position.
+
+As the next step in our hiring process, we invite you to complete a short AI-powered interview. It helps us get to know you better and assess your fit for the role.
+
+Please note: the interview can't be opened on mobile devices. Use a desktop or laptop.
+
+[Start Your Interview]({{invitation_link}})
+
+If the button doesn't work, copy this link into your browser: {{invitation_link}}
+
+We look forward to learning more about you.
+
+Best regards,
+The {{company_name}} Hiring Team`,
+    },
+    ar: {
+      subject: 'طلبك لوظيفة {{job_title}} في {{company_name}}: الخطوات التالية',
+      body: `عزيزي/عزيزتي {{candidate_name}}،
+
+شكراً لتقديمك إلى {{company_name}}. بعد مراجعة سيرتك الذاتية، يسعدنا إبلاغك بأنك من المرشحين المميزين لوظيفة **{{job_title}}**.
+
+كخطوة تالية في عملية التوظيف، ندعوك لإجراء مقابلة قصيرة مدعومة بالذكاء الاصطناعي، تساعدنا على التعرف عليك بشكل أفضل وتقييم مدى ملاءمتك للوظيفة.
+
+يُرجى ملاحظة أنه لا يمكن فتح المقابلة من الهاتف المحمول. استخدم جهاز كمبيوتر مكتبي أو محمول.
+
+[ابدأ المقابلة]({{invitation_link}})
+
+إذا لم يعمل الزر، انسخ هذا الرابط في متصفحك: {{invitation_link}}
+
+نتطلع إلى التعرف عليك أكثر.
+
+مع أطيب التحيات،
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  interview_reminder: {
+    en: {
+      subject: 'Reminder: complete your interview for {{job_title}} at {{company_name}}',
+      body: `Dear {{candidate_name}},
+
+**{{reminder_message}}**
+
+This is a friendly reminder that you have a pending AI interview for the **{{job_title}}** position at {{company_name}}.
+
+Please note: the interview can't be opened on mobile devices. Use a desktop or laptop.
+
+[Complete Your Interview]({{invitation_link}})
+
+If the button doesn't work, copy this link into your browser: {{invitation_link}}
+
+We look forward to learning more about you.
+
+Best regards,
+The {{company_name}} Hiring Team`,
+    },
+    ar: {
+      subject: 'تذكير: أكمل مقابلتك لوظيفة {{job_title}} في {{company_name}}',
+      body: `عزيزي/عزيزتي {{candidate_name}}،
+
+**{{reminder_message}}**
+
+نود تذكيرك بأن لديك مقابلة بالذكاء الاصطناعي لم تكتمل بعد لوظيفة **{{job_title}}** في {{company_name}}.
+
+يُرجى ملاحظة أنه لا يمكن فتح المقابلة من الهاتف المحمول. استخدم جهاز كمبيوتر مكتبي أو محمول.
+
+[أكمل المقابلة]({{invitation_link}})
+
+إذا لم يعمل الزر، انسخ هذا الرابط في متصفحك: {{invitation_link}}
+
+نتطلع إلى التعرف عليك أكثر.
+
+مع أطيب التحيات،
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  application_accepted: {
+    en: {
+      subject: 'Congratulations! Your application for {{job_title}} at {{company_name}}',
+      body: `Dear {{candidate_name}},
+
+We are thrilled to let you know that your application for the **{{job_title}}** position at {{company_name}} has been accepted!
+
+After careful review, we were impressed with your qualifications and experience, and we're excited to have you join us.
+
+**Skills that stood out:** {{skills}}
+
+**Applied:** {{applied_date}}
+
+Our HR team will contact you shortly with the formal offer and next steps for onboarding. Please keep an eye on your inbox.
+
+Congratulations again, and welcome aboard!
+
+Best regards,
+The {{company_name}} Hiring Team`,
+    },
+    ar: {
+      subject: 'تهانينا! طلبك لوظيفة {{job_title}} في {{company_name}}',
+      body: `عزيزي/عزيزتي {{candidate_name}}،
+
+يسعدنا إبلاغك بأنه تم قبول طلبك لوظيفة **{{job_title}}** في {{company_name}}!
+
+بعد مراجعة دقيقة، أعجبنا بمؤهلاتك وخبراتك، ونتطلع بحماس لانضمامك إلينا.
+
+**المهارات التي لفتت انتباهنا:** {{skills}}
+
+**تاريخ التقديم:** {{applied_date}}
+
+سيتواصل معك فريق الموارد البشرية قريباً بالعرض الرسمي والخطوات التالية للانضمام. يُرجى متابعة بريدك الإلكتروني.
+
+تهانينا مرة أخرى، ومرحباً بك في الفريق!
+
+مع أطيب التحيات،
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  application_rejected: {
+    en: {
+      subject: 'Update on your application for {{job_title}} at {{company_name}}',
+      body: `Dear {{candidate_name}},
+
+Thank you for your interest in the **{{job_title}}** position at {{company_name}} and for the time you put into your application.
+
+After careful consideration, we have decided to move forward with other candidates whose experience more closely matches our current needs.
+
+This wasn't an easy decision, and it doesn't reflect on your abilities. We'd be glad to see your application for future openings that match your background.
+
+We wish you the very best in your job search.
+
+Best regards,
+The {{company_name}} Hiring Team`,
+    },
+    ar: {
+      subject: 'تحديث بشأن طلبك لوظيفة {{job_title}} في {{company_name}}',
+      body: `عزيزي/عزيزتي {{candidate_name}}،
+
+نشكرك على اهتمامك بوظيفة **{{job_title}}** في {{company_name}} وعلى الوقت الذي خصصته لتقديم طلبك.
+
+بعد دراسة متأنية، قررنا المضي قدماً مع مرشحين آخرين تتوافق خبراتهم بشكل أكبر مع احتياجاتنا الحالية.
+
+لم يكن هذا القرار سهلاً، وهو لا يقلل من قدراتك. يسعدنا أن تتقدم للوظائف المستقبلية التي تناسب خبراتك.
+
+نتمنى لك كل التوفيق في بحثك عن عمل.
+
+مع أطيب التحيات،
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  application_shortlisted: {
+    en: {
+      subject: "Great news! You've been shortlisted for {{job_title}} at {{company_name}}",
+      body: `Dear {{candidate_name}},
+
+Great news! Your application for the **{{job_title}}** position at {{company_name}} has been shortlisted.
+
+Your profile stood out among the applications we received, and we'd like to learn more about you.
+
+**Skills that stood out:** {{skills}}
+
+**Match score:** {{match_score}}
+
+Our hiring team will contact you soon about the next stage of the process. Please keep an eye on your inbox.
+
+Best regards,
+The {{company_name}} Hiring Team`,
+    },
+    ar: {
+      subject: 'أخبار سارة! تم اختيارك ضمن القائمة المختصرة لوظيفة {{job_title}} في {{company_name}}',
+      body: `عزيزي/عزيزتي {{candidate_name}}،
+
+أخبار سارة! تم اختيار طلبك لوظيفة **{{job_title}}** في {{company_name}} ضمن القائمة المختصرة.
+
+تميز ملفك بين الطلبات التي تلقيناها، ونود التعرف عليك أكثر.
+
+**المهارات التي لفتت انتباهنا:** {{skills}}
+
+**نسبة التوافق:** {{match_score}}
+
+سيتواصل معك فريق التوظيف قريباً بشأن المرحلة التالية. يُرجى متابعة بريدك الإلكتروني.
+
+مع أطيب التحيات،
+فريق التوظيف في {{company_name}}`,
+    },
+  },
+  offer_letter: {
+    en: {
+      subject: 'Job Offer: {{job_title}} at {{company_name}}',
+      body: `{{offer_content}}
+
+[Review & Sign Your Offer]({{response_url}})
+
+Accept with an electronic signature, decline, or ask for changes by {{response_deadline}}.`,
+    },
+    ar: {
+      subject: 'عرض عمل: {{job_title}} في {{company_name}}',
+      body: `{{offer_content}}
+
+[راجع العرض ووقّعه]({{response_url}})
+
+يمكنك قبول العرض بتوقيع إلكتروني أو رفضه أو طلب تعديلات قبل {{response_deadline}}.`,
+    },
+  },
+  team_invitation: {
+    en: {
+      subject: "You've been added to {{company_name}} on Plato Hiring",
+      body: `Hello,
+
+{{invited_by}} has added you to the **{{company_name}}** hiring team on Plato Hiring as a **{{role}}**.
+
+**Message from {{invited_by}}:** {{message}}
+
+[Set Up Your Account]({{registration_link}})
+
+Your access code is **{{invite_code}}**. This link expires in 7 days.
+
+If you have any questions, please contact {{invited_by}}. We look forward to having you on the team!
+
+Best regards,
+The {{company_name}} Team`,
+    },
+    ar: {
+      subject: 'تمت إضافتك إلى {{company_name}} على Plato Hiring',
+      body: `مرحباً،
+
+أضافك {{invited_by}} إلى فريق التوظيف في **{{company_name}}** على Plato Hiring بصلاحية **{{role}}**.
+
+**رسالة من {{invited_by}}:** {{message}}
+
+[أنشئ حسابك]({{registration_link}})
+
+رمز الدخول الخاص بك هو **{{invite_code}}**. تنتهي صلاحية هذا الرابط خلال 7 أيام.
+
+إذا كانت لديك أي أسئلة، يُرجى التواصل مع {{invited_by}}. نتطلع إلى انضمامك إلى الفريق!
+
+مع أطيب التحيات،
+فريق {{company_name}}`,
+    },
+  },
+  email_verification: {
+    en: {
+      subject: 'Verify Your Email Address - Plato Hiring',
+      body: `Hi {{first_name}},
+
+Welcome to Plato Hiring! Please verify your email address to complete your registration.
+
+[Verify Email Address]({{verification_link}})
+
+If the button doesn't work, copy this link into your browser: {{verification_link}}
+
+This link expires in 1 week. If you didn't create an account with Plato Hiring, you can safely ignore this email.
+
+Best regards,
+The Plato Hiring Team`,
+    },
+    ar: {
+      subject: 'تأكيد عنوان بريدك الإلكتروني - Plato Hiring',
+      body: `مرحباً {{first_name}}،
+
+مرحباً بك في Plato Hiring! يُرجى تأكيد عنوان بريدك الإلكتروني لإكمال التسجيل.
+
+[تأكيد البريد الإلكتروني]({{verification_link}})
+
+إذا لم يعمل الزر، انسخ هذا الرابط في متصفحك: {{verification_link}}
+
+تنتهي صلاحية هذا الرابط خلال أسبوع. إذا لم تقم بإنشاء حساب على Plato Hiring، يمكنك تجاهل هذه الرسالة.
+
+مع أطيب التحيات،
+فريق Plato Hiring`,
+    },
+  },
+  password_reset: {
+    en: {
+      subject: 'Reset Your Password - Plato Hiring',
+      body: `Hi {{first_name}},
+
+We received a request to reset the password for your Plato Hiring account.
+
+[Reset Password]({{reset_link}})
+
+If the button doesn't work, copy this link into your browser: {{reset_link}}
+
+This link expires in 1 hour. If you didn't request a reset, you can ignore this email and your password will stay the same. Never share this link with anyone.
+
+Best regards,
+The Plato Hiring Team`,
+    },
+    ar: {
+      subject: 'إعادة تعيين كلمة المرور - Plato Hiring',
+      body: `مرحباً {{first_name}}،
+
+تلقينا طلباً لإعادة تعيين كلمة المرور لحسابك على Plato Hiring.
+
+[إعادة تعيين كلمة المرور]({{reset_link}})
+
+إذا لم يعمل الزر، انسخ هذا الرابط في متصفحك: {{reset_link}}
+
+تنتهي صلاحية هذا الرابط خلال ساعة واحدة. إذا لم تطلب إعادة التعيين، يمكنك تجاهل هذه الرسالة وستبقى كلمة المرور كما هي. لا تشارك هذا الرابط مع أي شخص.
+
+مع أطيب التحيات،
+فريق Plato Hiring`,
+    },
+  },
+};
+
+// Wording the send methods put into variables, in each language
+const PHRASES = {
+  en: {
+    interviewRescheduled: 'Your interview has been moved to a new time. The details below replace the ones we sent before.',
+    interviewReminder: { '24h': 'This is a reminder that your interview is tomorrow.', '1h': 'This is a reminder that your interview starts in about an hour.' },
+    subjectPrefix: { rescheduled: 'Rescheduled: ', reminder: 'Reminder: ' },
+    interviewTypes: { video: 'Video call', phone: 'Phone call', 'in-person': 'In person' } as Record<string, string>,
+    invitationReminder: {
+      '1h': 'Your interview invitation expires soon!',
+      final: 'This is your final reminder to complete your interview.',
+      followup: "Don't forget to complete your interview!",
+      '24h': "Don't forget to complete your interview!",
+    },
+    roles: { admin: 'Admin', member: 'Member', viewer: 'Viewer' } as Record<string, string>,
+    interviewTime: (start: FormattedInstant) => `${start.date} at ${start.time} (${start.zoneName})`,
+    footer: (companyName: string) => `Sent by ${companyName} with Plato Hiring`,
+  },
+  ar: {
+    interviewRescheduled: 'تم تغيير موعد مقابلتك. التفاصيل أدناه تحل محل ما أرسلناه سابقاً.',
+    interviewReminder: { '24h': 'نذكّرك بأن موعد مقابلتك غداً.', '1h': 'نذكّرك بأن مقابلتك ستبدأ خلال ساعة تقريباً.' },
+    subjectPrefix: { rescheduled: 'موعد جديد: ', reminder: 'تذكير: ' },
+    interviewTypes: { video: 'مكالمة فيديو', phone: 'مكالمة هاتفية', 'in-person': 'مقابلة حضورية' } as Record<string, string>,
+    invitationReminder: {
+      '1h': 'تنتهي صلاحية دعوة المقابلة قريباً!',
+      final: 'هذا هو التذكير الأخير لإكمال مقابلتك.',
+      followup: 'لا تنسَ إكمال مقابلتك!',
+      '24h': 'لا تنسَ إكمال مقابلتك!',
+    },
+    roles: { admin: 'مسؤول', member: 'عضو', viewer: 'مشاهد' } as Record<string, string>,
+    interviewTime: (start: FormattedInstant) => `${start.date} الساعة ${start.time} (${start.zoneName})`,
+    footer: (companyName: string) => `أُرسلت من ${companyName} عبر Plato Hiring`,
+  },
+};
+
+// Stand-in values for the settings preview
+const SAMPLE_VARIABLES: Record<EmailLocale, EmailVariables> = {
+  en: {
+    candidate_name: 'Sara Ahmed',
+    first_name: 'Sara',
+    job_title: 'Senior Product Designer',
+    notice: '',
+    interview_date: 'Tuesday, March 10',
+    interview_time: '2:00 PM',
+    time_zone: 'GMT+2, Africa/Cairo',
+    interview_type: 'Video call',
+    meeting_link: 'https://meet.example.com/abc-defg-hij',
+    notes: 'Please have your portfolio ready to share.',
+    reminder_message: "Don't forget to complete your interview!",
+    applied_date: 'March 2',
+    skills: 'Figma, Design systems, User research',
+    match_score: '87%',
+    offer_content: 'Dear Sara Ahmed,\n\nWe are delighted to offer you the position of Senior Product Designer.\n\nStart Date: April 1\nCompensation: $95,000 per year',
+    response_deadline: 'Friday, March 20, 11:59 PM UTC',
+    invited_by: 'Omar Hassan',
+    role: 'Member',
+    message: 'Looking forward to hiring together!',
+    invite_code: 'X7K2P9',
+    recipient_name: 'Omar Hassan',
+    previous_time: 'Tuesday, March 10 at 2:00 PM (GMT+2)',
+    new_time: 'Thursday, March 12 at 11:00 AM (GMT+2)',
+    reason: 'I have a conflicting exam that morning.',
+  },
+  ar: {
+    candidate_name: 'سارة أحمد',
+    first_name: 'سارة',
+    job_title: 'مصمم منتجات أول',
+    notice: '',
+    interview_date: 'الثلاثاء، 10 مارس',
+    interview_time: '2:00 م',
+    time_zone: 'GMT+2, Africa/Cairo',
+    interview_type: 'مكالمة فيديو',
+    meeting_link: 'https://meet.example.com/abc-defg-hij',
+    notes: 'يُرجى تجهيز ملف أعمالك لمشاركته.',
+    reminder_message: 'لا تنسَ إكمال مقابلتك!',
+    applied_date: '2 مارس',
+    skills: 'Figma، أنظمة التصميم، أبحاث المستخدمين',
+    match_score: '87%',
+    offer_content: 'عزيزتي سارة أحمد،\n\nيسعدنا أن نعرض عليك وظيفة مصمم منتجات أول.\n\nتاريخ البدء: 1 أبريل\nالراتب: 95,000 دولار سنوياً',
+    response_deadline: 'الجمعة، 20 مارس، 11:59 م UTC',
+    invited_by: 'عمر حسن',
+    role: 'عضو',
+    message: 'نتطلع إلى العمل معاً!',
+    invite_code: 'X7K2P9',
+    recipient_name: 'عمر حسن',
+    previous_time: 'الثلاثاء، 10 مارس الساعة 2:00 م (GMT+2)',
+    new_time: 'الخميس، 12 مارس الساعة 11:00 ص (GMT+2)',
+    reason: 'لدي امتحان في نفس الصباح.',
+  },
+};
+
+class EmailTemplateService {
+  isType(value: any): value is EmailTemplateType {
+    return (EMAIL_TEMPLATE_TYPES as readonly string[]).includes(value);
+  }
+
+  isLocale(value: any): value is EmailLocale {
+    return (EMAIL_LOCALES as readonly string[]).includes(value);
+  }
+
+  phrases(locale: EmailLocale) {
+    return PHRASES[locale];
+  }
+
+  /**
+   * Subject and body from a request body. Every {{variable}} must be one the email type provides, and the
+   * type's required variables (usually the link the email exists to deliver) must appear in the body.
+   */
+  normalize(type: EmailTemplateType, input: any): EmailTemplateText {
+    const subject = typeof input?.subject === 'string' ? input.subject.trim() : '';
+    if (!subject || subject.length > MAX_SUBJECT_LENGTH) {
+      throw new Error(`Subject must be 1-${MAX_SUBJECT_LENGTH} characters`);
+    }
+    const body = typeof input.body === 'string' ? input.body.trim() : '';
+    if (!body || body.length > MAX_BODY_LENGTH) {
+      throw new Error(`Email text must be 1-${MAX_BODY_LENGTH} characters`);
+    }
+    const allowed = EMAIL_TEMPLATE_VARIABLES[type];
+    const unknown = [subject, body]
+      .flatMap(text => this.variablesIn(text))
+      .find(variable => !allowed.includes(variable));
+    if (unknown) {
+      throw new Error(`Unknown variable {{${unknown}}}. This email can use: ${allowed.map(variable => `{{${variable}}}`).join(', ')}`);
+    }
+    const used = this.variablesIn(body);
+    const missing = (EMAIL_TEMPLATE_REQUIRED_VARIABLES[type] || []).find(variable => !used.includes(variable));
+    if (missing) {
+      throw new Error(`The email text must include {{${missing}}}`);
+    }
+    return { subject, body };
+  }
+
+  /**
+   * Every type in both languages, with the organization's wording where it has saved some.
+   */
+  async list(organizationId: string): Promise<EmailTemplateView[]> {
+    const saved: EmailTemplate[] = await db.select().from(emailTemplates).where(eq(emailTemplates.organizationId, organizationId));
+    return EMAIL_TEMPLATE_TYPES.flatMap(type => EMAIL_LOCALES.map(locale => {
+      const template = saved.find(row => row.type === type && row.locale === locale);
+      return template
+        ? { type, locale, subject: template.subject, body: template.body, customized: true, updatedAt: template.updatedAt }
+        : { type, locale, ...DEFAULT_EMAIL_TEMPLATES[type][locale], customized: false, updatedAt: null };
+    }));
+  }
+
+  async save(organizationId: string, userId: string, type: EmailTemplateType, locale: EmailLocale, input: EmailTemplateText): Promise<EmailTemplate> {
+    const [template] = await db
+      .insert(emailTemplates)
+      .values({ organizationId, type, locale, ...input, updatedById: userId })
+      .onConflictDoUpdate({
+        target: [emailTemplates.organizationId, emailTemplates.type, emailTemplates.locale],
+        set: { ...input, updatedById: userId, updatedAt: new Date() },
+      })
+      .returning();
+    return template;
+  }
+
+  /**
+   * Go back to the built-in wording for a type and language.
+   */
+  async reset(organizationId: string, type: EmailTemplateType, locale: EmailLocale): Promise<EmailTemplateText> {
+    await db
+      .delete(emailTemplates)
+      .where(and(eq(emailTemplates.organizationId, organizationId), eq(emailTemplates.type, type), eq(emailTemplates.locale, locale)));
+    return DEFAULT_EMAIL_TEMPLATES[type][locale];
+  }
+
+  /**
+   * Emails not sent for an organization (sign-up, password reset) use the built-in English templates and Plato branding.
+   */
+  async contextFor(organizationId: string | null | undefined): Promise<EmailContext> {
+    const organization = organizationId ? await storage.getOrganizationById(organizationId) : undefined;
+    return { organization: organization || null, locale: organization?.emailLocale || 'en' };
+  }
+
+  async render(type: EmailTemplateType, context: EmailContext, variables: EmailVariables): Promise<RenderedEmail> {
+    let template: EmailTemplateText = DEFAULT_EMAIL_TEMPLATES[type][context.locale];
+    if (context.organization) {
+      const [saved] = await db
+        .select()
+        .from(emailTemplates)
+        .where(and(
+          eq(emailTemplates.organizationId, context.organization.id),
+          eq(emailTemplates.type, type),
+          eq(emailTemplates.locale, context.locale),
+        ));
+      if (saved) {
+        template = saved;
+      }
+    }
+    return this.renderTemplate(template, context, variables);
+  }
+
+  /**
+   * A template filled with sample values, as the settings page shows it.
+   */
+  preview(type: EmailTemplateType, template: EmailTemplateText, context: EmailContext): RenderedEmail {
+    const samples = SAMPLE_VARIABLES[context.locale];
+    const variables: EmailVariables = { company_name: context.organization?.companyName || 'Plato Hiring' };
+    for (const variable of EMAIL_TEMPLATE_VARIABLES[type]) {
+      variables[variable] ??= samples[variable] ?? `${getAppBaseUrl()}/example`;
+    }
+    return this.renderTemplate(template, context, variables);
+  }
+
+  renderTemplate(template: EmailTemplateText, context: EmailContext, variables: EmailVariables): RenderedEmail {
+    const subject = this.restore(this.fill(template.subject, variables).replace(/\s+/g, ' ').trim());
+    const body = this.fill(template.body, variables);
+    return {
+      subject,
+      html: this.restore(this.layout(subject, this.toHtml(body, context), context)),
+      text: this.restore(this.toText(body)),
+    };
+  }
+
+  private variablesIn(text: string): string[] {
+    return Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]);
+  }
+
+  // Fill in variables, leaving out any line that uses a variable with no value
+  private fill(text: string, variables: EmailVariables): string {
+    return text
+      .replace(/\r\n/g, '\n')
+      .split('\n')
+      .filter(line => this.variablesIn(line).every(variable => variables[variable]?.trim()))
+      .map(line => line.replace(VARIABLE_PATTERN, (_match, variable) => this.literal(variables[variable]!.trim())))
+      .join('\n')
+      .replace(/\n\s*\n(\s*\n)+/g, '\n\n')
+      .trim();
+  }
+
+  private literal(value: string): string {
+    return value.replace(LITERAL_PATTERN, character => String.fromCharCode(0xE000 + MARKUP_CHARACTERS.indexOf(character)));
+  }
+
+  private restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, character => MARKUP_CHARACTERS[character.charCodeAt(0) - 0xE000]);
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private inline(line: string, color: string): string {
+    return this.escape(line)
+      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+      .replace(LINK_PATTERN, (_match, label, url) => `<a href="${url}" style="color: ${color}; font-weight: 600;">${label}</a>`);
+  }
+
+  private toHtml(body: string, context: EmailContext): string {
+    const color = this.brandColor(context.organization);
+    return body
+      .split(/\n\s*\n/)
+      .map(block => block.split('\n').map(line => line.trim()).filter(Boolean))
+      .filter(lines => lines.length > 0)
+      .map(lines => {
+        const button = lines.length === 1 ? new RegExp(`^${LINK_PATTERN.source}$`).exec(lines[0]) : null;
+        if (button) {
+          return `<div style="margin: 28px 0; text-align: center;">`
+            + `<a href="${this.escape(button[2])}" style="background-color: ${color}; color: #ffffff; padding: 12px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">${this.escape(button[1])}</a>`
+            + `</div>`;
+        }
+        if (lines.every(line => line.startsWith('- '))) {
+          return `<ul style="margin: 16px 0; padding-inline-start: 20px;">`
+            + lines.map(line => `<li style="margin: 6px 0;">${this.inline(line.slice(2), color)}</li>`).join('')
+            + `</ul>`;
+        }
+        return `<p style="margin: 16px 0;">${lines.map(line => this.inline(line, color)).join('<br>')}</p>`;
+      })
+      .join('\n');
+  }
+
+  private toText(body: string): string {
+    return body
+      .replace(LINK_PATTERN, (_match, label, url) => `${label}: ${url}`)
+      .replace(/\*\*(.+?)\*\*/g, '$1');
+  }
+
+  private layout(subject: string, content: string, context: EmailContext): string {
+    const { organization, locale } = context;
+    const direction = locale === 'ar' ? 'rtl' : 'ltr';
+    const color = this.brandColor(organization);
+    const companyName = organization?.companyName || 'Plato Hiring';
+    const logoUrl = organization?.brandLogoPath
+      ? `${getAppBaseUrl()}/api/organizations/logos/${organization.id}/${organization.brandLogoPath}`
+      : null;
+    const header = logoUrl
+      ? `<img src="${this.escape(logoUrl)}" alt="${this.escape(companyName)}" style="max-height: 48px; max-width: 200px;">`
+      : `<span style="color: ${color}; font-size: 22px; font-weight: 700;">${this.escape(companyName)}</span>`;
+    return `<!DOCTYPE html>
+<html lang="${locale}" dir="${direction}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escape(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f3f4f6;">
+  <div dir="${direction}" style="max-width: 600px; margin: 0 auto; padding: 24px 16px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Tahoma, Arial, sans-serif; line-height: 1.6; color: #374151; text-align: ${direction === 'rtl' ? 'right' : 'left'};">
+    <div style="text-align: center; padding: 16px 0 24px;">${header}</div>
+    <div style="background-color: #ffffff; border-top: 4px solid ${color}; border-radius: 12px; padding: 16px 32px;">
+${content}
+    </div>
+    <p style="text-align: center; color: #9ca3af; font-size: 12px; margin: 24px 0 0;">${this.escape(PHRASES[locale].footer(companyName))}</p>
+  </div>
+</body>
+</html>`;
+  }
+
+  // Organizations store their color as an HSL triple ("207, 90%, 54%"); email clients need hex
+  private brandColor(organization: Organization | null): string {
+    const match = /^(\d+),\s*(\d+)%,\s*(\d+)%$/.exec(organization?.brandPrimaryColor || '');
+    if (!match) {
+      return DEFAULT_BRAND_COLOR;
+    }
+    const hue = Number(match[1]) % 360;
+    const saturation = Math.min(Number(match[2]), 100) / 100;
+    const lightness = Math.min(Number(match[3]), 100) / 100;
+    const chroma = saturation * Math.min(lightness, 1 - lightness);
+    const channel = (n: number) => {
+      const k = (n + hue / 30) % 12;
+      const value = lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+      return Math.round(value * 255).toString(16).padStart(2, '0');
+    };
+    return `#${channel(0)}${channel(8)}${channel(4)}`;
+  }
+}
+
+export const emailTemplateService = new EmailTemplateService();
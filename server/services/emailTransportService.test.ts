@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { emailTransportService, outboxDirectoryPath } from './emailTransportService';
+import type { EmailSettings } from './systemSettingsService';
+
+const saved: EmailSettings = {
+  transport: 'smtp',
+  fromEmail: 'jobs@acme.example',
+  fromName: 'Acme',
+  sendgridApiKey: 'SG.saved-key',
+  smtpHost: 'smtp.acme.example',
+  smtpPort: 587,
+  smtpSecurity: 'starttls',
+  smtpUsername: '',
+  smtpPassword: 'saved-password',
+  outboxDirectory: '',
+};
+
+test('outbox files stay inside uploads/email-outbox', () => {
+  const root = path.join(process.cwd(), 'uploads', 'email-outbox');
+  assert.equal(outboxDirectoryPath(''), null);
+  assert.equal(outboxDirectoryPath('staging'), path.join(root, 'staging'));
+  assert.equal(outboxDirectoryPath('./qa/run-1/'), path.join(root, 'qa', 'run-1'));
+  for (const folder of ['/etc', '../server', 'qa/../../server', 'C:\\Windows', '..\\server']) {
+    assert.throws(() => outboxDirectoryPath(folder), /relative path inside uploads\/email-outbox/, folder);
+  }
+  assert.throws(
+    () => emailTransportService.normalizeSettings({ transport: 'outbox', outboxDirectory: '/var/www' }, saved),
+    /relative path inside uploads\/email-outbox/,
+  );
+});
+
+test('blank secrets keep the saved ones and the clear flags remove them', () => {
+  const kept = emailTransportService.normalizeSettings({ transport: 'smtp', smtpHost: 'smtp.acme.example', sendgridApiKey: '', smtpPassword: '' }, saved);
+  assert.equal(kept.sendgridApiKey, 'SG.saved-key');
+  assert.equal(kept.smtpPassword, 'saved-password');
+
+  const replaced = emailTransportService.normalizeSettings({ transport: 'smtp', smtpHost: 'smtp.acme.example', smtpPassword: 'new-password' }, saved);
+  assert.equal(replaced.smtpPassword, 'new-password');
+
+  const cleared = emailTransportService.normalizeSettings({
+    transport: 'smtp',
+    smtpHost: 'smtp.acme.example',
+    clearSendgridApiKey: true,
+    clearSmtpPassword: true,
+    smtpPassword: 'ignored',
+  }, saved);
+  assert.equal(cleared.sendgridApiKey, '');
+  assert.equal(cleared.smtpPassword, '');
+
+  assert.throws(
+    () => emailTransportService.normalizeSettings({ transport: 'smtp', smtpHost: 'smtp.acme.example', smtpUsername: 'relay', clearSmtpPassword: true }, saved),
+    { message: 'Enter the SMTP password for that username' },
+  );
+});
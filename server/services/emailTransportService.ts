@@ -0,0 +1,279 @@
+import { MailService } from '@sendgrid/mail';
+import fs from 'fs/promises';
+import path from 'path';
+import { db } from '../db';
+import {
+  emailOutbox,
+  EMAIL_TRANSPORTS,
+  SMTP_SECURITY_MODES,
+  type EmailOutboxMessage,
+  type EmailTransportKind,
+} from '@shared/schema';
+import { desc, eq } from 'drizzle-orm';
+import { systemSettingsService, type EmailSettings } from './systemSettingsService';
+import { buildMimeMessage, sendSmtp, type SmtpConfig } from './smtpClient';
+
+const CACHE_TTL = 60000; // Matches the settings cache, so the worker picks up changes made in the web process
+const OUTBOX_LIST_LIMIT = 100;
+// The outbox only writes .eml files inside this directory; the setting names a folder within it
+const OUTBOX_ROOT = path.join(process.cwd(), 'uploads', 'email-outbox');
+
+export interface OutgoingEmail {
+  to: string;
+  from: { email: string; name: string };
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: Array<{ content: string; filename: string; type: string; disposition: string }>;
+}
+
+export interface EmailTransport {
+  readonly kind: EmailTransportKind;
+  send(message: OutgoingEmail): Promise<void>;
+}
+
+export interface EmailTransportStatus {
+  transport: EmailTransportKind | null;
+  source: 'database' | 'environment' | 'none';
+  error?: string;
+}
+
+class SendGridTransport implements EmailTransport {
+  readonly kind = 'sendgrid' as const;
+  private mailService = new MailService();
+
+  constructor(apiKey: string) {
+    this.mailService.setApiKey(apiKey);
+  }
+
+  async send(message: OutgoingEmail): Promise<void> {
+    await this.mailService.send(message);
+  }
+}
+
+class SmtpTransport implements EmailTransport {
+  readonly kind = 'smtp' as const;
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    await sendSmtp(this.config, message);
+  }
+}
+
+/**
+ * Keeps every message in the email_outbox table, and as a .eml file when a directory is configured,
+ * so invitation and offer flows can run without an email provider.
+ */
+class OutboxTransport implements EmailTransport {
+  readonly kind = 'outbox' as const;
+
+  constructor(private directory: string | null) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const [stored] = await db
+      .insert(emailOutbox)
+      .values({
+        toAddress: message.to,
+        fromAddress: message.from.email,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: (message.attachments || []).map(({ filename, type, content }) => ({ filename, type, content })),
+      })
+      .returning();
+    if (this.directory) {
+      await fs.mkdir(this.directory, { recursive: true });
+      const name = `${stored.id}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`;
+      await fs.writeFile(path.join(this.directory, name), buildMimeMessage(message, stored.createdAt || new Date()));
+    }
+    console.log(`📥 Email to ${message.to} kept in the outbox (#${stored.id})`);
+  }
+}
+
+/**
+ * Where the outbox writes .eml files for a saved folder name, or null when it keeps messages in the database only.
+ * Absolute paths and ".." are refused so the setting can't reach outside the outbox directory.
+ */
+export function outboxDirectoryPath(folder: string): string | null {
+  if (!folder) {
+    return null;
+  }
+  const segments = folder.split(/[\\/]+/).filter(segment => segment && segment !== '.');
+  if (path.isAbsolute(folder) || /^[a-zA-Z]:/.test(folder) || segments.includes('..') || folder.includes('\0')) {
+    throw new Error('The outbox folder must be a relative path inside uploads/email-outbox');
+  }
+  return path.join(OUTBOX_ROOT, ...segments);
+}
+
+class EmailTransportService {
+  private cached: { transport: EmailTransport | null; settings: EmailSettings; loadedAt: number } | null = null;
+
+  /**
+   * The saved transport, or SendGrid from SENDGRID_API_KEY when none has been picked. Null means emails are skipped.
+   */
+  async current(): Promise<EmailTransport | null> {
+    if (!this.cached || Date.now() - this.cached.loadedAt > CACHE_TTL) {
+      const settings = await systemSettingsService.getEmailSettings();
+      let transport: EmailTransport | null = null;
+      try {
+        transport = this.build(settings);
+      } catch (error) {
+        console.warn(`📧 Email transport not usable: ${error instanceof Error ? error.message : error}`);
+      }
+      this.cached = { transport, settings, loadedAt: Date.now() };
+    }
+    return this.cached.transport;
+  }
+
+  /**
+   * Drop the cached transport after its settings change.
+   */
+  reload(): void {
+    systemSettingsService.clearCategoryCache('email');
+    this.cached = null;
+  }
+
+  /**
+   * Sender address and display name every email goes out from: the saved sender, else SENDGRID_FROM.
+   */
+  sender(): { email: string; name: string } {
+    const settings = this.cached?.settings;
+    return {
+      email: settings?.fromEmail || (process.env.SENDGRID_FROM || 'noreply@platohiring.com').trim(),
+      name: settings?.fromName || (process.env.SENDGRID_FROM_NAME || 'Plato Hiring').trim(),
+    };
+  }
+
+  /**
+   * The transport the given settings describe. Throws when the chosen one is missing what it needs.
+   */
+  build(settings: EmailSettings): EmailTransport | null {
+    const envApiKey = (process.env.SENDGRID_API_KEY || '').trim();
+    switch (settings.transport) {
+      case 'sendgrid': {
+        const apiKey = settings.sendgridApiKey || envApiKey;
+        if (!apiKey) {
+          throw new Error('SendGrid needs an API key');
+        }
+        return new SendGridTransport(apiKey);
+      }
+      case 'smtp':
+        if (!settings.smtpHost) {
+          throw new Error('SMTP needs a server host');
+        }
+        return new SmtpTransport({
+          host: settings.smtpHost,
+          port: settings.smtpPort || (settings.smtpSecurity === 'tls' ? 465 : 587),
+          security: settings.smtpSecurity,
+          username: settings.smtpUsername,
+          password: settings.smtpPassword,
+        });
+      case 'outbox':
+        return new OutboxTransport(outboxDirectoryPath(settings.outboxDirectory));
+      default:
+        return envApiKey ? new SendGridTransport(envApiKey) : null;
+    }
+  }
+
+  async status(): Promise<EmailTransportStatus> {
+    const settings = await systemSettingsService.getEmailSettings();
+    try {
+      const transport = this.build(settings);
+      return {
+        transport: transport?.kind || null,
+        source: settings.transport ? 'database' : transport ? 'environment' : 'none',
+      };
+    } catch (error) {
+      return { transport: settings.transport, source: 'database', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Settings from a super-admin request, merged over the saved ones. Blank secrets keep the saved value;
+   * clearSendgridApiKey and clearSmtpPassword remove it.
+   */
+  normalizeSettings(input: any, saved: EmailSettings): EmailSettings {
+    const text = (value: unknown, max = 255) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+    if (!EMAIL_TRANSPORTS.includes(input?.transport)) {
+      throw new Error(`Transport must be one of: ${EMAIL_TRANSPORTS.join(', ')}`);
+    }
+    const fromEmail = text(input.fromEmail);
+    if (fromEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(fromEmail)) {
+      throw new Error('Sender email is not a valid email address');
+    }
+    const smtpSecurity = input.smtpSecurity || 'starttls';
+    if (!SMTP_SECURITY_MODES.includes(smtpSecurity)) {
+      throw new Error(`SMTP security must be one of: ${SMTP_SECURITY_MODES.join(', ')}`);
+    }
+    let smtpPort: number | null = null;
+    if (input.smtpPort !== undefined && input.smtpPort !== null && input.smtpPort !== '') {
+      smtpPort = Number(input.smtpPort);
+      if (!Number.isInteger(smtpPort) || smtpPort < 1 || smtpPort > 65535) {
+        throw new Error('SMTP port must be a number between 1 and 65535');
+      }
+    }
+    const settings: EmailSettings = {
+      transport: input.transport,
+      fromEmail,
+      fromName: text(input.fromName, 100),
+      sendgridApiKey: input.clearSendgridApiKey === true ? '' : text(input.sendgridApiKey, 500) || saved.sendgridApiKey,
+      smtpHost: text(input.smtpHost),
+      smtpPort,
+      smtpSecurity,
+      smtpUsername: text(input.smtpUsername),
+      smtpPassword: input.clearSmtpPassword === true
+        ? ''
+        : typeof input.smtpPassword === 'string' && input.smtpPassword ? input.smtpPassword : saved.smtpPassword,
+      outboxDirectory: text(input.outboxDirectory, 500),
+    };
+    if (settings.smtpUsername && !settings.smtpPassword && settings.transport === 'smtp') {
+      throw new Error('Enter the SMTP password for that username');
+    }
+    this.build(settings);
+    return settings;
+  }
+
+  /**
+   * Send a short message through the given settings without saving them.
+   */
+  async sendTest(settings: EmailSettings, to: string): Promise<void> {
+    const transport = this.build(settings);
+    if (!transport) {
+      throw new Error('No email transport is configured');
+    }
+    const defaults = this.sender();
+    await transport.send({
+      to,
+      from: { email: settings.fromEmail || defaults.email, name: settings.fromName || defaults.name },
+      subject: 'Test email from Plato Hiring',
+      text: `This test was sent through the ${transport.kind} email transport. If you can read it, email delivery works.`,
+      html: `<p>This test was sent through the <strong>${transport.kind}</strong> email transport. If you can read it, email delivery works.</p>`,
+    });
+  }
+
+  async listOutbox(to?: string): Promise<Array<Omit<EmailOutboxMessage, 'text' | 'html' | 'attachments'> & { attachments: string[] }>> {
+    const rows: EmailOutboxMessage[] = await db
+      .select()
+      .from(emailOutbox)
+      .where(to ? eq(emailOutbox.toAddress, to) : undefined)
+      .orderBy(desc(emailOutbox.createdAt), desc(emailOutbox.id))
+      .limit(OUTBOX_LIST_LIMIT);
+    return rows.map(({ text, html, attachments, ...message }) => ({
+      ...message,
+      attachments: attachments.map(attachment => attachment.filename),
+    }));
+  }
+
+  async getOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined> {
+    const [message] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return message;
+  }
+
+  async clearOutbox(): Promise<number> {
+    const deleted = await db.delete(emailOutbox).returning({ id: emailOutbox.id });
+    return deleted.length;
+  }
+}
+
+export const emailTransportService = new EmailTransportService();
@@ -0,0 +1,572 @@
+import crypto from 'crypto';
+import { nanoid } from 'nanoid';
+import { db, type DbTransaction, type DbExecutor } from '../db';
+import {
+  interviewerAvailability,
+  interviewBookingLinks,
+  interviewScorecards,
+  realInterviews,
+  airtableJobApplications,
+  jobs,
+  users,
+  organizationMembers,
+  type AvailabilityWindow,
+  type WeeklyAvailability,
+  type InterviewBookingLink,
+  type InterviewerAvailability,
+} from '@shared/schema';
+import { eq, ne, and, inArray, gte, lt, or, isNull, sql } from 'drizzle-orm';
+import { getAppBaseUrl } from '../auth';
+import { storage } from '../storage';
+import { emailService } from '../emailService';
+import { applicantEventService } from './applicantEventService';
+import { interviewScheduleService, DEFAULT_INTERVIEW_MINUTES } from './interviewScheduleService';
+
+type RealInterview = typeof realInterviews.$inferSelect;
+
+const SLOT_STEP_MINUTES = 30;
+const MIN_NOTICE_HOURS = 12;     // Earliest a candidate can book ahead of the interview
+const BOOKING_HORIZON_DAYS = 14; // How far ahead slots are offered
+const LINK_VALID_DAYS = 7;
+const MINUTE_MS = 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface AvailabilitySettings {
+  timeZone: string;
+  weeklyHours: WeeklyAvailability;
+  blackoutDates: string[];
+}
+
+export interface BookingLinkInput {
+  interviewerIds?: string[];
+  durationMinutes?: number;
+  interviewType?: string;
+  meetingLink?: string;
+  notes?: string;
+}
+
+export interface PublicBookingView {
+  candidateName: string;
+  jobTitle: string | null;
+  companyName: string | null;
+  durationMinutes: number;
+  interviewType: string | null;
+  status: 'open' | 'booked' | 'cancelled' | 'expired';
+  expiresAt: Date;
+  slots: string[];          // ISO start instants, only while the link is open
+  scheduledAt: string | null;
+  manageUrl: string | null; // Where a booked candidate can reschedule or cancel
+}
+
+type ServiceResult<T> =
+  | ({ success: true } & T)
+  | { success: false; status: number; message: string };
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const overlaps = (a: Interval, b: Interval) => a.start < b.end && b.start < a.end;
+
+class InterviewBookingService {
+  /**
+   * Validate availability from the settings form. Throws with a message suitable for a 400 response.
+   */
+  normalizeAvailability(input: any): AvailabilitySettings {
+    const timeZone = interviewScheduleService.resolveTimeZone(input?.timeZone);
+    if (!timeZone) {
+      throw new Error(`Unknown time zone: ${input?.timeZone}`);
+    }
+
+    const weeklyHours: WeeklyAvailability = {};
+    for (const [day, windows] of Object.entries(input?.weeklyHours || {})) {
+      if (!/^[0-6]$/.test(day)) {
+        throw new Error(`Invalid weekday: ${day}`);
+      }
+      if (!Array.isArray(windows)) {
+        throw new Error('Weekly hours must be lists of time windows');
+      }
+      const sorted = (windows as AvailabilityWindow[])
+        .map(window => ({ start: String(window?.start || ''), end: String(window?.end || '') }))
+        .sort((a, b) => a.start.localeCompare(b.start));
+      sorted.forEach((window, index) => {
+        if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+          throw new Error('Times must be in HH:mm format');
+        }
+        if (window.start >= window.end) {
+          throw new Error('Each time window must end after it starts');
+        }
+        if (index > 0 && window.start < sorted[index - 1].end) {
+          throw new Error('Time windows on the same day cannot overlap');
+        }
+      });
+      if (sorted.length > 0) {
+        weeklyHours[day] = sorted;
+      }
+    }
+
+    const blackoutDates = Array.from(new Set((input?.blackoutDates || []).map((date: unknown) => String(date)))).sort() as string[];
+    if (blackoutDates.some(date => !DATE_PATTERN.test(date) || isNaN(Date.parse(`${date}T00:00:00Z`)))) {
+      throw new Error('Blackout dates must be in YYYY-MM-DD format');
+    }
+    if (blackoutDates.length > 366) {
+      throw new Error('Too many blackout dates');
+    }
+
+    return { timeZone, weeklyHours, blackoutDates };
+  }
+
+  async getAvailability(organizationId: string, userId: string): Promise<AvailabilitySettings & { configured: boolean }> {
+    const [row] = await db
+      .select()
+      .from(interviewerAvailability)
+      .where(and(eq(interviewerAvailability.organizationId, organizationId), eq(interviewerAvailability.userId, userId)));
+    if (!row) {
+      return { timeZone: 'UTC', weeklyHours: {}, blackoutDates: [], configured: false };
+    }
+    return { timeZone: row.timeZone, weeklyHours: row.weeklyHours, blackoutDates: row.blackoutDates, configured: true };
+  }
+
+  async saveAvailability(organizationId: string, userId: string, settings: AvailabilitySettings): Promise<InterviewerAvailability> {
+    const [row] = await db
+      .insert(interviewerAvailability)
+      .values({ organizationId, userId, ...settings, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [interviewerAvailability.organizationId, interviewerAvailability.userId],
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  bookingUrl(token: string): string {
+    return `${getAppBaseUrl()}/interviews/book/${token}`;
+  }
+
+  /**
+   * Send a shortlisted candidate a link to book their own interview. Replaces any open link for the application.
+   */
+  async createLink(organizationId: string, createdBy: string, applicationId: string, input: BookingLinkInput): Promise<ServiceResult<{ link: InterviewBookingLink; url: string; emailSent: boolean }>> {
+    const [application] = await db
+      .select({ application: airtableJobApplications })
+      .from(airtableJobApplications)
+      .innerJoin(jobs, eq(sql`${jobs.id}::text`, airtableJobApplications.jobId))
+      .where(and(eq(airtableJobApplications.id, applicationId), eq(jobs.organizationId, organizationId)));
+    if (!application) {
+      return { success: false, status: 404, message: 'Applicant not found' };
+    }
+    const applicant = application.application;
+
+    const interviewerIds = Array.from(new Set((input.interviewerIds?.length ? input.interviewerIds : [createdBy])
+      .filter(id => typeof id === 'string' && id)));
+    const members = await db
+      .select({ userId: organizationMembers.userId })
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), inArray(organizationMembers.userId, interviewerIds)));
+    if (new Set(members.map((member: { userId: string | null }) => member.userId)).size !== interviewerIds.length) {
+      return { success: false, status: 400, message: 'Interviewers must be members of your organization' };
+    }
+
+    const configured = await db
+      .select({ userId: interviewerAvailability.userId, weeklyHours: interviewerAvailability.weeklyHours })
+      .from(interviewerAvailability)
+      .where(and(eq(interviewerAvailability.organizationId, organizationId), inArray(interviewerAvailability.userId, interviewerIds)));
+    const withHours = new Set(configured
+      .filter((row: { weeklyHours: WeeklyAvailability }) => Object.keys(row.weeklyHours || {}).length > 0)
+      .map((row: { userId: string }) => row.userId));
+    const missing = interviewerIds.filter(id => !withHours.has(id));
+    if (missing.length > 0) {
+      const names = await this.interviewerNames(missing);
+      return { success: false, status: 400, message: `No availability set for: ${names.join(', ')}` };
+    }
+
+    const durationMinutes = Number(input.durationMinutes) || DEFAULT_INTERVIEW_MINUTES;
+    if (durationMinutes < 15 || durationMinutes > 240) {
+      return { success: false, status: 400, message: 'Duration must be between 15 and 240 minutes' };
+    }
+
+    const link: InterviewBookingLink = await db.transaction(async (tx: DbTransaction) => {
+      await tx.update(interviewBookingLinks)
+        .set({ status: 'cancelled' })
+        .where(and(eq(interviewBookingLinks.applicationId, applicationId), eq(interviewBookingLinks.status, 'open')));
+      const [created] = await tx.insert(interviewBookingLinks).values({
+        token: crypto.randomBytes(24).toString('hex'),
+        organizationId,
+        applicationId,
+        candidateId: applicant.applicantUserId,
+        candidateName: applicant.applicantName,
+        candidateEmail: applicant.applicantEmail,
+        jobId: applicant.jobId,
+        jobTitle: applicant.jobTitle,
+        interviewerIds,
+        durationMinutes,
+        interviewType: input.interviewType || 'video',
+        meetingLink: input.meetingLink || null,
+        notes: input.notes || null,
+        expiresAt: new Date(Date.now() + LINK_VALID_DAYS * 24 * 60 * MINUTE_MS),
+        createdBy,
+      }).returning();
+      await applicantEventService.record({
+        applicationId,
+        organizationId,
+        action: 'interview_booking_link_sent',
+        actorId: createdBy,
+        metadata: { interviewerIds, durationMinutes, expiresAt: created.expiresAt.toISOString() },
+      }, tx);
+      return created;
+    });
+
+    const url = this.bookingUrl(link.token);
+    const organization = await storage.getOrganizationById(organizationId);
+    const emailSent = applicant.applicantEmail
+      ? await emailService.sendInterviewBookingLinkEmail({
+          applicantName: applicant.applicantName,
+          applicantEmail: applicant.applicantEmail,
+          jobTitle: applicant.jobTitle,
+          companyName: organization?.companyName || 'Company',
+          bookingUrl: url,
+          durationMinutes,
+          expiresAt: link.expiresAt,
+        })
+      : false;
+
+    return { success: true, link, url, emailSent };
+  }
+
+  /**
+   * Start instants every interviewer on the link is free for: inside their weekly hours, off their
+   * blackout dates, and clear of any other interview they are on anywhere in the organization.
+   */
+  async openSlots(link: InterviewBookingLink, executor: DbExecutor = db): Promise<Date[]> {
+    const from = Date.now() + MIN_NOTICE_HOURS * 60 * MINUTE_MS;
+    const to = Date.now() + BOOKING_HORIZON_DAYS * 24 * 60 * MINUTE_MS;
+    const duration = link.durationMinutes * MINUTE_MS;
+    const interviewerIds = link.interviewerIds;
+
+    const availability: InterviewerAvailability[] = await executor
+      .select()
+      .from(interviewerAvailability)
+      .where(and(eq(interviewerAvailability.organizationId, link.organizationId), inArray(interviewerAvailability.userId, interviewerIds)));
+    if (availability.length !== interviewerIds.length) {
+      return [];
+    }
+
+    const busy = await this.busyIntervals(link.organizationId, interviewerIds, from - 24 * 60 * MINUTE_MS, to, executor);
+    const windows = new Map(availability.map(row => [row.userId, this.windowsBetween(row, from, to)]));
+
+    const slots: Date[] = [];
+    const step = SLOT_STEP_MINUTES * MINUTE_MS;
+    for (let start = Math.ceil(from / step) * step; start + duration <= to; start += step) {
+      const slot = { start, end: start + duration };
+      const free = interviewerIds.every(id =>
+        windows.get(id)!.some(window => window.start <= slot.start && slot.end <= window.end) &&
+        !(busy.get(id) || []).some(interval => overlaps(interval, slot)));
+      if (free) {
+        slots.push(new Date(start));
+      }
+    }
+    return slots;
+  }
+
+  // An interviewer's weekly hours as instants, skipping their blackout dates
+  private windowsBetween(row: InterviewerAvailability, from: number, to: number): Interval[] {
+    const zone = interviewScheduleService.resolveTimeZone(row.timeZone) || 'UTC';
+    const blackout = new Set(row.blackoutDates || []);
+    const last = interviewScheduleService.toWallClock(new Date(to), zone).date;
+    const intervals: Interval[] = [];
+    for (let date = interviewScheduleService.toWallClock(new Date(from), zone).date; date <= last; date = addDays(date, 1)) {
+      if (blackout.has(date)) {
+        continue;
+      }
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      for (const window of row.weeklyHours?.[String(weekday)] || []) {
+        const start = interviewScheduleService.toInstant(date, window.start, zone);
+        const end = interviewScheduleService.toInstant(date, window.end, zone);
+        if (start && end && start < end) {
+          intervals.push({ start: start.getTime(), end: end.getTime() });
+        }
+      }
+    }
+    return intervals;
+  }
+
+  /**
+   * Interviewers among the given ones who are already on another interview overlapping the time.
+   */
+  async conflictingInterviewers(
+    organizationId: string,
+    interviewerIds: string[],
+    start: Date,
+    durationMinutes: number,
+    options: { excludeInterviewId?: string; executor?: DbExecutor } = {}
+  ): Promise<string[]> {
+    if (interviewerIds.length === 0) {
+      return [];
+    }
+    const slot = { start: start.getTime(), end: start.getTime() + durationMinutes * MINUTE_MS };
+    const busy = await this.busyIntervals(organizationId, interviewerIds, slot.start - 24 * 60 * MINUTE_MS, slot.end, options.executor || db, options.excludeInterviewId);
+    return interviewerIds.filter(id => (busy.get(id) || []).some(interval => overlaps(interval, slot)));
+  }
+
+  /**
+   * Conflict check for a recruiter scheduling or moving an interview: whoever scheduled it and its panel
+   * must be free at the time. Returns a message naming who is busy, or null.
+   */
+  async recruiterConflict(
+    organizationId: string,
+    interview: { id?: string; createdBy: string | null },
+    start: Date,
+    durationMinutes: number
+  ): Promise<string | null> {
+    const panel: Array<{ interviewerId: string }> = interview.id
+      ? await db
+          .select({ interviewerId: interviewScorecards.interviewerId })
+          .from(interviewScorecards)
+          .where(eq(interviewScorecards.interviewId, interview.id))
+      : [];
+    const interviewerIds = Array.from(new Set([
+      ...(interview.createdBy ? [interview.createdBy] : []),
+      ...panel.map(member => member.interviewerId),
+    ]));
+    const conflicting = await this.conflictingInterviewers(organizationId, interviewerIds, start, durationMinutes, { excludeInterviewId: interview.id });
+    if (conflicting.length === 0) {
+      return null;
+    }
+    const names = await this.interviewerNames(conflicting);
+    return `${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} already on another interview at that time`;
+  }
+
+  // Interviews that aren't cancelled, keyed by each interviewer who runs or sits on them. Rows without
+  // a stored instant are placed by their date, time and zone.
+  private async busyIntervals(
+    organizationId: string,
+    interviewerIds: string[],
+    from: number,
+    to: number,
+    executor: DbExecutor,
+    excludeInterviewId?: string
+  ): Promise<Map<string, Interval[]>> {
+    const active = and(
+      eq(realInterviews.organizationId, organizationId),
+      or(isNull(realInterviews.status), ne(realInterviews.status, 'cancelled')),
+      or(isNull(realInterviews.scheduledAt), and(gte(realInterviews.scheduledAt, new Date(from)), lt(realInterviews.scheduledAt, new Date(to)))),
+      excludeInterviewId ? ne(realInterviews.id, excludeInterviewId) : undefined
+    );
+    const panel: Array<{ interviewId: string; interviewerId: string }> = await executor
+      .select({ interviewId: interviewScorecards.interviewId, interviewerId: interviewScorecards.interviewerId })
+      .from(interviewScorecards)
+      .innerJoin(realInterviews, eq(realInterviews.id, interviewScorecards.interviewId))
+      .where(and(
+        eq(interviewScorecards.organizationId, organizationId),
+        inArray(interviewScorecards.interviewerId, interviewerIds),
+        active
+      ));
+    const panelIds = panel.map(row => row.interviewId);
+
+    const interviews: RealInterview[] = await executor
+      .select()
+      .from(realInterviews)
+      .where(and(
+        active,
+        panelIds.length > 0
+          ? or(inArray(realInterviews.createdBy, interviewerIds), inArray(realInterviews.id, panelIds))
+          : inArray(realInterviews.createdBy, interviewerIds)
+      ));
+
+    const busy = new Map<string, Interval[]>();
+    const add = (interviewerId: string, interview: RealInterview) => {
+      const start = interviewScheduleService.startOf(interview)?.getTime();
+      if (start === undefined || start < from || start >= to) {
+        return;
+      }
+      const interval = { start, end: start + (interview.durationMinutes || DEFAULT_INTERVIEW_MINUTES) * MINUTE_MS };
+      busy.set(interviewerId, [...(busy.get(interviewerId) || []), interval]);
+    };
+    const byId = new Map(interviews.map(interview => [interview.id, interview]));
+    for (const interview of interviews) {
+      if (interview.createdBy && interviewerIds.includes(interview.createdBy)) {
+        add(interview.createdBy, interview);
+      }
+    }
+    for (const row of panel) {
+      const interview = byId.get(row.interviewId);
+      if (interview && interview.createdBy !== row.interviewerId) {
+        add(row.interviewerId, interview);
+      }
+    }
+    return busy;
+  }
+
+  async getLink(token: string): Promise<InterviewBookingLink | undefined> {
+    if (!token) {
+      return undefined;
+    }
+    const [link] = await db.select().from(interviewBookingLinks).where(eq(interviewBookingLinks.token, token));
+    return link;
+  }
+
+  private statusOf(link: InterviewBookingLink): PublicBookingView['status'] {
+    if (link.status === 'open' && link.expiresAt.getTime() <= Date.now()) {
+      return 'expired';
+    }
+    return link.status as PublicBookingView['status'];
+  }
+
+  async getPublicView(token: string): Promise<PublicBookingView | null> {
+    const link = await this.getLink(token);
+    if (!link) {
+      return null;
+    }
+    const organization = await storage.getOrganizationById(link.organizationId);
+    const status = this.statusOf(link);
+
+    let interview: RealInterview | undefined;
+    if (link.interviewId) {
+      [interview] = await db.select().from(realInterviews).where(eq(realInterviews.id, link.interviewId));
+    }
+    const slots = status === 'open' ? await this.openSlots(link) : [];
+
+    return {
+      candidateName: link.candidateName,
+      jobTitle: link.jobTitle,
+      companyName: organization?.companyName || null,
+      durationMinutes: link.durationMinutes,
+      interviewType: link.interviewType,
+      status,
+      expiresAt: link.expiresAt,
+      slots: slots.map(slot => slot.toISOString()),
+      scheduledAt: interview ? interviewScheduleService.startOf(interview)?.toISOString() || null : null,
+      manageUrl: interview?.manageToken ? `/interviews/manage/${interview.manageToken}` : null,
+    };
+  }
+
+  /**
+   * Book a slot from the link. The interviewers' availability rows are locked for the duration, so two
+   * candidates racing for the same interviewer's time cannot both get it.
+   */
+  async book(token: string, input: { start: string; timeZone?: string }): Promise<ServiceResult<{ interview: RealInterview }>> {
+    const start = new Date(input.start);
+    if (isNaN(start.getTime())) {
+      return { success: false, status: 400, message: 'Choose a time slot' };
+    }
+
+    const result: ServiceResult<{ interview: RealInterview }> = await db.transaction(async (tx: DbTransaction) => {
+      const [link]: InterviewBookingLink[] = await tx
+        .select()
+        .from(interviewBookingLinks)
+        .where(eq(interviewBookingLinks.token, token))
+        .for('update');
+      if (!link) {
+        return { success: false, status: 404, message: 'Booking link not found' };
+      }
+      const status = this.statusOf(link);
+      if (status !== 'open') {
+        return { success: false, status: 409, message: status === 'booked' ? 'This interview has already been booked' : `This booking link has ${status === 'expired' ? 'expired' : 'been withdrawn'}` };
+      }
+
+      await tx
+        .select({ id: interviewerAvailability.id })
+        .from(interviewerAvailability)
+        .where(and(eq(interviewerAvailability.organizationId, link.organizationId), inArray(interviewerAvailability.userId, link.interviewerIds)))
+        .for('update');
+      const slots = await this.openSlots(link, tx);
+      if (!slots.some(slot => slot.getTime() === start.getTime())) {
+        return { success: false, status: 409, message: 'That time is no longer available. Please choose another slot.' };
+      }
+
+      // The interview is kept in the zone of whoever sent the link, or the first interviewer's
+      const ownerId = link.createdBy && link.interviewerIds.includes(link.createdBy) ? link.createdBy : link.interviewerIds[0];
+      const [owner] = await tx
+        .select({ timeZone: interviewerAvailability.timeZone })
+        .from(interviewerAvailability)
+        .where(and(eq(interviewerAvailability.organizationId, link.organizationId), eq(interviewerAvailability.userId, ownerId)));
+      const zone = interviewScheduleService.resolveTimeZone(owner?.timeZone) || 'UTC';
+      const wallClock = interviewScheduleService.toWallClock(start, zone);
+      const names = await this.interviewerNames(link.interviewerIds, tx);
+
+      const [interview] = await tx.insert(realInterviews).values({
+        id: nanoid(),
+        candidateName: link.candidateName,
+        candidateEmail: link.candidateEmail || '',
+        candidateId: link.candidateId,
+        jobId: link.jobId,
+        jobTitle: link.jobTitle,
+        scheduledDate: wallClock.date,
+        scheduledTime: wallClock.time,
+        timeZone: zone,
+        scheduledAt: start,
+        durationMinutes: link.durationMinutes,
+        candidateTimeZone: interviewScheduleService.resolveTimeZone(input.timeZone),
+        interviewType: link.interviewType || 'video',
+        meetingLink: link.meetingLink || '',
+        interviewer: names.join(', '),
+        status: 'scheduled',
+        notes: link.notes || '',
+        manageToken: interviewScheduleService.newManageToken(),
+        createdBy: link.createdBy,
+        organizationId: link.organizationId,
+      }).returning();
+
+      await tx.insert(interviewScorecards).values(link.interviewerIds.map(interviewerId => ({
+        interviewId: interview.id,
+        organizationId: link.organizationId,
+        interviewerId,
+        assignedBy: link.createdBy,
+      })));
+
+      await tx.update(interviewBookingLinks)
+        .set({ status: 'booked', interviewId: interview.id, bookedAt: new Date() })
+        .where(eq(interviewBookingLinks.id, link.id));
+
+      await applicantEventService.record({
+        applicationId: link.applicationId,
+        organizationId: link.organizationId,
+        action: 'interview_scheduled',
+        actorId: null,
+        after: { scheduledAt: start.toISOString(), timeZone: zone, interviewType: interview.interviewType, meetingLink: interview.meetingLink || null },
+        metadata: { interviewId: interview.id, source: 'candidate_booking' },
+      }, tx);
+
+      return { success: true, interview };
+    });
+
+    if (result.success) {
+      await this.afterBooking(result.interview);
+    }
+    return result;
+  }
+
+  // Same confirmation email and reminders as an interview a recruiter schedules
+  private async afterBooking(interview: RealInterview): Promise<void> {
+    try {
+      if (interview.candidateEmail) {
+        const organization = interview.organizationId ? await storage.getOrganizationById(interview.organizationId) : undefined;
+        const { addInterviewScheduledEmailJob } = await import('../jobProducers');
+        await addInterviewScheduledEmailJob(interviewScheduleService.candidateEmailFields(interview, organization?.companyName || 'Company'));
+      }
+    } catch (error) {
+      console.error(`❌ Failed to queue confirmation email for booked interview ${interview.id}:`, error);
+    }
+    await interviewScheduleService.scheduleReminders(interview);
+  }
+
+  private async interviewerNames(userIds: string[], executor: DbExecutor = db): Promise<string[]> {
+    const people = await executor
+      .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    const byId = new Map(people.map((person: { id: string; firstName: string | null; lastName: string | null; email: string | null }) =>
+      [person.id, [person.firstName, person.lastName].filter(Boolean).join(' ') || person.email || 'Unknown']));
+    return userIds.map(id => (byId.get(id) as string) || 'Unknown');
+  }
+}
+
+export const interviewBookingService = new InterviewBookingService();
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { interviewScheduleService } from './interviewScheduleService';
+import { parseEventTimes } from './calendarSyncService';
+
+test('legacy zone abbreviations resolve to IANA zones', () => {
+  assert.equal(interviewScheduleService.resolveTimeZone('EET'), 'Africa/Cairo');
+  assert.equal(interviewScheduleService.resolveTimeZone(' Asia/Riyadh '), 'Asia/Riyadh');
+  assert.equal(interviewScheduleService.resolveTimeZone('Mars/Olympus'), null);
+  assert.equal(interviewScheduleService.resolveTimeZone(''), null);
+});
+
+test('wall-clock times convert to instants in the given zone', () => {
+  assert.equal(interviewScheduleService.toInstant('2025-03-03', '14:00', 'UTC')?.toISOString(), '2025-03-03T14:00:00.000Z');
+  assert.equal(interviewScheduleService.toInstant('2025-03-03', '14:00', 'Asia/Riyadh')?.toISOString(), '2025-03-03T11:00:00.000Z');
+  assert.equal(interviewScheduleService.toInstant('2025-01-15', '9:30', 'America/New_York')?.toISOString(), '2025-01-15T14:30:00.000Z');
+  assert.equal(interviewScheduleService.toInstant('03/03/2025', '14:00', 'UTC'), null);
+  assert.equal(interviewScheduleService.toInstant('2025-03-03', '', 'UTC'), null);
+});
+
+test('instants on either side of a daylight saving change use that day\'s offset', () => {
+  // New York moved to EDT (UTC-4) on 9 March 2025
+  assert.equal(interviewScheduleService.toInstant('2025-03-08', '10:00', 'America/New_York')?.toISOString(), '2025-03-08T15:00:00.000Z');
+  assert.equal(interviewScheduleService.toInstant('2025-03-09', '10:00', 'America/New_York')?.toISOString(), '2025-03-09T14:00:00.000Z');
+  // London moved back to GMT on 26 October 2025
+  assert.equal(interviewScheduleService.toInstant('2025-10-26', '09:00', 'Europe/London')?.toISOString(), '2025-10-26T09:00:00.000Z');
+});
+
+test('wall-clock round-trips through an instant', () => {
+  const instant = interviewScheduleService.toInstant('2025-07-01', '23:45', 'Australia/Sydney')!;
+  assert.deepEqual(interviewScheduleService.toWallClock(instant, 'Australia/Sydney'), { date: '2025-07-01', time: '23:45' });
+  assert.deepEqual(interviewScheduleService.toWallClock(instant, 'UTC'), { date: '2025-07-01', time: '13:45' });
+});
+
+test('schedule resolves the stored columns or explains what is wrong', () => {
+  const scheduled = interviewScheduleService.schedule('2025-03-03', '14:00', 'EET');
+  assert.ok(scheduled.success);
+  assert.equal(scheduled.values.timeZone, 'Africa/Cairo');
+  assert.equal(scheduled.values.scheduledAt.toISOString(), '2025-03-03T12:00:00.000Z');
+
+  const unknownZone = interviewScheduleService.schedule('2025-03-03', '14:00', 'Nowhere/City');
+  assert.deepEqual(unknownZone, { success: false, message: 'Unknown time zone: Nowhere/City' });
+  assert.equal(interviewScheduleService.schedule('', '14:00', 'UTC').success, false);
+});
+
+test('event times are read from UTC, TZID-qualified and floating date-times', () => {
+  const utc = parseEventTimes('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART:20250303T120000Z\r\nDTEND:20250303T130000Z\r\nEND:VEVENT\r\nEND:VCALENDAR');
+  assert.equal(utc?.start.toISOString(), '2025-03-03T12:00:00.000Z');
+  assert.equal(utc?.end?.toISOString(), '2025-03-03T13:00:00.000Z');
+
+  const zoned = parseEventTimes('BEGIN:VEVENT\nDTSTART;TZID="Africa/Cairo":20250303T140000\nEND:VEVENT');
+  assert.equal(zoned?.start.toISOString(), '2025-03-03T12:00:00.000Z');
+  assert.equal(zoned?.end, null);
+
+  const floating = parseEventTimes('BEGIN:VEVENT\nDTSTART:20250303T140000\nEND:VEVENT');
+  assert.equal(floating?.start.toISOString(), '2025-03-03T14:00:00.000Z');
+});
+
+test('folded lines are unfolded and all-day events are ignored', () => {
+  const folded = parseEventTimes('BEGIN:VEVENT\r\nDTSTART;TZID=America/New_Y\r\n ork:20250115T093000\r\nEND:VEVENT');
+  assert.equal(folded?.start.toISOString(), '2025-01-15T14:30:00.000Z');
+  assert.equal(parseEventTimes('BEGIN:VEVENT\nDTSTART;VALUE=DATE:20250303\nEND:VEVENT'), null);
+  assert.equal(parseEventTimes(''), null);
+});
+
+test('calendar lines longer than 75 octets are folded', () => {
+  const ics = interviewScheduleService.buildCalendar([{
+    uid: 'abc@platohiring.com',
+    sequence: 0,
+    method: 'REQUEST',
+    start: new Date('2025-03-03T12:00:00Z'),
+    durationMinutes: 45,
+    summary: `Interview: ${'مقابلة '.repeat(20)}`,
+    description: 'Line one\nLine two; with, specials',
+    organizer: { name: 'Acme', email: 'jobs@acme.example' },
+    attendees: [],
+  }], { method: 'REQUEST' });
+
+  assert.ok(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75));
+  assert.match(ics, /DTEND:20250303T124500Z/);
+  assert.match(ics, /DESCRIPTION:Line one\\nLine two\\; with\\, specials/);
+  assert.deepEqual(parseEventTimes(ics)?.start, new Date('2025-03-03T12:00:00Z'));
+});
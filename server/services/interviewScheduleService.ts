@@ -0,0 +1,537 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { realInterviews, interviewScorecards, interviewerAvailability, users } from '@shared/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { getAppBaseUrl } from '../auth';
+import { storage } from '../storage';
+import { emailService } from '../emailService';
+import { applicantEventService } from './applicantEventService';
+
+type RealInterview = typeof realInterviews.$inferSelect;
+
+export const DEFAULT_INTERVIEW_MINUTES = 60;
+
+// Abbreviations the scheduling forms used to send; mapped to the zone people mean by them
+const LEGACY_TIME_ZONES: Record<string, string> = {
+  UTC: 'UTC',
+  GMT: 'Europe/London',
+  EST: 'America/New_York',
+  CST: 'America/Chicago',
+  MST: 'America/Denver',
+  PST: 'America/Los_Angeles',
+  CET: 'Europe/Paris',
+  EET: 'Africa/Cairo',
+  JST: 'Asia/Tokyo',
+  AEST: 'Australia/Sydney',
+  IST: 'Asia/Kolkata',
+};
+
+export interface FormattedInstant {
+  date: string;     // e.g. "Monday, March 3, 2025"
+  time: string;     // e.g. "2:00 PM"
+  zoneName: string; // e.g. "GMT+2"
+}
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  method: 'REQUEST' | 'CANCEL';
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description: string;
+  location?: string | null;
+  url?: string | null;
+  organizer: { name: string; email: string };
+  attendees: Array<{ name: string; email: string }>;
+}
+
+type ChangeResult =
+  | { success: true; interview: RealInterview }
+  | { success: false; status: number; message: string };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Text values in iCalendar escape backslashes, semicolons, commas and newlines
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const icsDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  // The leading space counts toward a continuation line's 75 octets
+  let limit = 75;
+  while (Buffer.byteLength(rest) > limit) {
+    let cut = limit;
+    while (Buffer.byteLength(rest.slice(0, cut)) > limit) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+    limit = 74;
+  }
+  parts.push(rest);
+  return parts.join('\r\n ');
+}
+
+class InterviewScheduleService {
+  /**
+   * IANA zone for a submitted zone, accepting the legacy abbreviations. Null when unknown.
+   */
+  resolveTimeZone(input: string | null | undefined): string | null {
+    const value = (input || '').trim();
+    if (!value) {
+      return null;
+    }
+    const zone = LEGACY_TIME_ZONES[value.toUpperCase()] || value;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      return zone;
+    } catch {
+      return null;
+    }
+  }
+
+  // Milliseconds the zone is ahead of UTC at the given instant
+  private zoneOffset(instant: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(instant);
+    const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0');
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+  }
+
+  /**
+   * The instant a wall-clock date ("2025-03-03") and time ("14:00") denote in a zone, or null when unparseable.
+   */
+  toInstant(date: string, time: string, timeZone: string): Date | null {
+    const dateMatch = /^(\d{4})-(\d{2})-(\d{2})/.exec(date || '');
+    const timeMatch = /^(\d{1,2}):(\d{2})/.exec(time || '');
+    if (!dateMatch || !timeMatch) {
+      return null;
+    }
+    const wallClock = Date.UTC(+dateMatch[1], +dateMatch[2] - 1, +dateMatch[3], +timeMatch[1], +timeMatch[2]);
+    if (isNaN(wallClock)) {
+      return null;
+    }
+    // The offset depends on the instant itself; the second pass settles days when DST changes
+    let instant = wallClock - this.zoneOffset(new Date(wallClock), timeZone);
+    instant = wallClock - this.zoneOffset(new Date(instant), timeZone);
+    return new Date(instant);
+  }
+
+  /**
+   * Wall-clock date and time of an instant in a zone, in the format the legacy columns store.
+   */
+  toWallClock(instant: Date, timeZone: string): { date: string; time: string } {
+    const local = new Date(instant.getTime() + this.zoneOffset(instant, timeZone));
+    return {
+      date: `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}`,
+      time: `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}`,
+    };
+  }
+
+  format(instant: Date, timeZone: string, locale = 'en-US'): FormattedInstant {
+    const zoneName = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+      .formatToParts(instant)
+      .find(part => part.type === 'timeZoneName')?.value || timeZone;
+    return {
+      date: instant.toLocaleDateString(locale, { timeZone, weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+      time: instant.toLocaleTimeString(locale, { timeZone, hour: 'numeric', minute: '2-digit' }),
+      zoneName,
+    };
+  }
+
+  /**
+   * Instant of an interview: the stored one, else derived from rows that predate it.
+   */
+  startOf(interview: Pick<RealInterview, 'scheduledAt' | 'scheduledDate' | 'scheduledTime' | 'timeZone'>): Date | null {
+    if (interview.scheduledAt) {
+      return interview.scheduledAt;
+    }
+    const zone = this.resolveTimeZone(interview.timeZone) || 'UTC';
+    return this.toInstant(interview.scheduledDate || '', interview.scheduledTime || '', zone);
+  }
+
+  /**
+   * Resolve the columns describing when an interview happens from a submitted date, time and zone.
+   */
+  schedule(date: string, time: string, timeZone: string | null | undefined):
+    { success: true; values: { scheduledDate: string; scheduledTime: string; timeZone: string; scheduledAt: Date } } |
+    { success: false; message: string } {
+    const zone = this.resolveTimeZone(timeZone || 'UTC');
+    if (!zone) {
+      return { success: false, message: `Unknown time zone: ${timeZone}` };
+    }
+    const scheduledAt = this.toInstant(date, time, zone);
+    if (!scheduledAt) {
+      return { success: false, message: 'Interview date and time are required (YYYY-MM-DD and HH:mm)' };
+    }
+    const wallClock = this.toWallClock(scheduledAt, zone);
+    return { success: true, values: { scheduledDate: wallClock.date, scheduledTime: wallClock.time, timeZone: zone, scheduledAt } };
+  }
+
+  newManageToken(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+
+  manageUrl(token: string): string {
+    return `${getAppBaseUrl()}/interviews/manage/${token}`;
+  }
+
+  buildIcs(event: IcsEvent): string {
+    return this.buildCalendar([event], { method: event.method });
+  }
+
+  /**
+   * A calendar of several events. Invites carry a METHOD; subscription feeds and CalDAV resources must not.
+   */
+  buildCalendar(events: IcsEvent[], options: { method?: 'REQUEST' | 'CANCEL'; name?: string } = {}): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Plato Hiring//Interviews//EN',
+      'CALSCALE:GREGORIAN',
+      ...(options.method ? [`METHOD:${options.method}`] : []),
+      ...(options.name ? [`X-WR-CALNAME:${icsText(options.name)}`] : []),
+      ...events.flatMap(event => this.eventLines(event)),
+      'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  private eventLines(event: IcsEvent): string[] {
+    const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000);
+    return [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${icsDate(new Date())}`,
+      `DTSTART:${icsDate(event.start)}`,
+      `DTEND:${icsDate(end)}`,
+      `SUMMARY:${icsText(event.summary)}`,
+      `DESCRIPTION:${icsText(event.description)}`,
+      ...(event.location ? [`LOCATION:${icsText(event.location)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      `ORGANIZER;CN=${icsText(event.organizer.name)}:mailto:${event.organizer.email}`,
+      ...event.attendees.map(attendee =>
+        `ATTENDEE;CN=${icsText(attendee.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${attendee.email}`),
+      `STATUS:${event.method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT',
+    ];
+  }
+
+  /**
+   * Calendar event for an interview; the UID stays fixed so updates replace the original entry.
+   */
+  icsFor(interview: RealInterview, companyName: string, method: 'REQUEST' | 'CANCEL' = 'REQUEST'): string | null {
+    const start = this.startOf(interview);
+    if (!start) {
+      return null;
+    }
+    const fromEmail = emailService.sender().email;
+    const manage = interview.manageToken ? this.manageUrl(interview.manageToken) : null;
+    return this.buildIcs({
+      uid: `${interview.id}@platohiring.com`,
+      sequence: interview.icsSequence || 0,
+      method,
+      start,
+      durationMinutes: interview.durationMinutes || DEFAULT_INTERVIEW_MINUTES,
+      summary: `Interview: ${interview.jobTitle || 'Position'} at ${companyName}`,
+      description: [
+        `Interview with ${companyName} for ${interview.jobTitle || 'the position'}.`,
+        interview.meetingLink ? `Join: ${interview.meetingLink}` : '',
+        manage ? `Reschedule or cancel: ${manage}` : '',
+      ].filter(Boolean).join('\n'),
+      location: interview.meetingLink || null,
+      url: interview.meetingLink || null,
+      organizer: { name: companyName, email: fromEmail },
+      attendees: interview.candidateEmail ? [{ name: interview.candidateName, email: interview.candidateEmail }] : [],
+    });
+  }
+
+  /**
+   * The interview as it appears on an interviewer's own calendar. Shares the candidate invite's UID.
+   */
+  interviewerEvent(interview: RealInterview, companyName: string): IcsEvent | null {
+    const start = this.startOf(interview);
+    if (!start) {
+      return null;
+    }
+    const fromEmail = emailService.sender().email;
+    return {
+      uid: `${interview.id}@platohiring.com`,
+      sequence: interview.icsSequence || 0,
+      method: interview.status === 'cancelled' ? 'CANCEL' : 'REQUEST',
+      start,
+      durationMinutes: interview.durationMinutes || DEFAULT_INTERVIEW_MINUTES,
+      summary: `Interview: ${interview.candidateName} - ${interview.jobTitle || 'Position'}`,
+      description: [
+        `${interview.interviewType || 'video'} interview with ${interview.candidateName} for ${interview.jobTitle || 'the position'}.`,
+        interview.interviewer ? `Panel: ${interview.interviewer}` : '',
+        interview.meetingLink ? `Join: ${interview.meetingLink}` : '',
+        `Scorecards: ${getAppBaseUrl()}/hiring/interviews`,
+      ].filter(Boolean).join('\n'),
+      location: interview.meetingLink || null,
+      url: interview.meetingLink || null,
+      organizer: { name: companyName, email: fromEmail },
+      attendees: interview.candidateEmail ? [{ name: interview.candidateName, email: interview.candidateEmail }] : [],
+    };
+  }
+
+  /**
+   * Interview email fields for the candidate, with the time shown in their zone when known.
+   */
+  candidateEmailFields(interview: RealInterview, companyName: string) {
+    const start = this.startOf(interview);
+    const zone = this.resolveTimeZone(interview.candidateTimeZone) || this.resolveTimeZone(interview.timeZone) || 'UTC';
+    const local = start ? this.format(start, zone) : null;
+    return {
+      applicantName: interview.candidateName,
+      applicantEmail: interview.candidateEmail || '',
+      interviewDate: local?.date || interview.scheduledDate || '',
+      interviewTime: local?.time || interview.scheduledTime || '',
+      timeZone: local ? `${local.zoneName}, ${zone}` : interview.timeZone || 'UTC',
+      jobTitle: interview.jobTitle || 'Position',
+      companyName,
+      interviewType: interview.interviewType || 'video',
+      meetingLink: interview.meetingLink || undefined,
+      notes: interview.notes || undefined,
+      manageUrl: interview.manageToken ? this.manageUrl(interview.manageToken) : undefined,
+      ics: this.icsFor(interview, companyName),
+      organizationId: interview.organizationId,
+    };
+  }
+
+  /**
+   * Queue the candidate's 24h and 1h reminder emails for the interview's current time.
+   */
+  async scheduleReminders(interview: RealInterview): Promise<void> {
+    const start = this.startOf(interview);
+    if (!start || !interview.candidateEmail) {
+      return;
+    }
+    try {
+      const { scheduleUpcomingInterviewReminderJob } = await import('../jobProducers');
+      for (const [reminderType, hours] of [['24h', 24], ['1h', 1]] as const) {
+        const delay = start.getTime() - hours * 60 * 60 * 1000 - Date.now();
+        if (delay > 0) {
+          await scheduleUpcomingInterviewReminderJob({ interviewId: interview.id, reminderType, icsSequence: interview.icsSequence || 0 }, delay);
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Failed to schedule reminders for interview ${interview.id}:`, error);
+    }
+  }
+
+  /**
+   * Send a queued reminder, unless the interview was cancelled or moved since it was queued.
+   */
+  async sendReminder(interviewId: string, reminderType: '24h' | '1h', icsSequence: number): Promise<{ success: boolean; reason?: string }> {
+    const [interview] = await db.select().from(realInterviews).where(eq(realInterviews.id, interviewId));
+    if (!interview) {
+      return { success: false, reason: 'interview_not_found' };
+    }
+    if (interview.status !== 'scheduled' || (interview.icsSequence || 0) !== icsSequence) {
+      return { success: false, reason: 'interview_changed' };
+    }
+    if (!interview.candidateEmail) {
+      return { success: false, reason: 'no_candidate_email' };
+    }
+    const organization = interview.organizationId ? await storage.getOrganizationById(interview.organizationId) : undefined;
+    const sent = await emailService.sendInterviewScheduledEmail({
+      ...this.candidateEmailFields(interview, organization?.companyName || 'Company'),
+      reminder: reminderType,
+    });
+    return { success: sent };
+  }
+
+  async getByManageToken(token: string): Promise<RealInterview | undefined> {
+    if (!token) {
+      return undefined;
+    }
+    const [interview] = await db.select().from(realInterviews).where(eq(realInterviews.manageToken, token));
+    return interview;
+  }
+
+  /**
+   * Whether the candidate may still change the interview through their link.
+   */
+  canChange(interview: RealInterview): { allowed: boolean; reason?: string } {
+    if (interview.status === 'cancelled') {
+      return { allowed: false, reason: 'This interview has been cancelled' };
+    }
+    if (interview.status === 'completed') {
+      return { allowed: false, reason: 'This interview has already taken place' };
+    }
+    const start = this.startOf(interview);
+    if (start && start.getTime() <= Date.now()) {
+      return { allowed: false, reason: 'This interview has already started' };
+    }
+    return { allowed: true };
+  }
+
+  async reschedule(token: string, input: { scheduledDate: string; scheduledTime: string; timeZone: string }): Promise<ChangeResult> {
+    const interview = await this.getByManageToken(token);
+    if (!interview) {
+      return { success: false, status: 404, message: 'Interview not found' };
+    }
+    const check = this.canChange(interview);
+    if (!check.allowed) {
+      return { success: false, status: 409, message: check.reason! };
+    }
+    const scheduled = this.schedule(input.scheduledDate, input.scheduledTime, input.timeZone);
+    if (!scheduled.success) {
+      return { success: false, status: 400, message: scheduled.message };
+    }
+    if (scheduled.values.scheduledAt.getTime() <= Date.now()) {
+      return { success: false, status: 400, message: 'Choose a time in the future' };
+    }
+
+    const previousStart = this.startOf(interview);
+    // The interview keeps the zone it was scheduled in; the candidate's zone only interprets their input
+    const wallClock = this.toWallClock(scheduled.values.scheduledAt, this.resolveTimeZone(interview.timeZone) || scheduled.values.timeZone);
+    const [updated] = await db.update(realInterviews)
+      .set({
+        scheduledAt: scheduled.values.scheduledAt,
+        scheduledDate: wallClock.date,
+        scheduledTime: wallClock.time,
+        timeZone: this.resolveTimeZone(interview.timeZone) || scheduled.values.timeZone,
+        candidateTimeZone: scheduled.values.timeZone,
+        icsSequence: (interview.icsSequence || 0) + 1,
+        updatedAt: new Date(),
+      })
+      .where(eq(realInterviews.id, interview.id))
+      .returning();
+
+    await applicantEventService.recordForCandidate({ applicantUserId: interview.candidateId, jobId: interview.jobId }, {
+      organizationId: interview.organizationId,
+      action: 'interview_updated',
+      actorId: null,
+      before: { scheduledAt: previousStart?.toISOString() || null },
+      after: { scheduledAt: scheduled.values.scheduledAt.toISOString() },
+      metadata: { interviewId: interview.id, source: 'candidate_reschedule' },
+    });
+
+    await this.notifyChange(updated, 'rescheduled', previousStart, null);
+    await this.scheduleReminders(updated);
+    return { success: true, interview: updated };
+  }
+
+  async cancel(token: string, reason: string | null): Promise<ChangeResult> {
+    const interview = await this.getByManageToken(token);
+    if (!interview) {
+      return { success: false, status: 404, message: 'Interview not found' };
+    }
+    const check = this.canChange(interview);
+    if (!check.allowed) {
+      return { success: false, status: 409, message: check.reason! };
+    }
+
+    const [updated] = await db.update(realInterviews)
+      .set({ status: 'cancelled', icsSequence: (interview.icsSequence || 0) + 1, updatedAt: new Date() })
+      .where(eq(realInterviews.id, interview.id))
+      .returning();
+
+    await applicantEventService.recordForCandidate({ applicantUserId: interview.candidateId, jobId: interview.jobId }, {
+      organizationId: interview.organizationId,
+      action: 'interview_updated',
+      actorId: null,
+      before: { status: interview.status },
+      after: { status: 'cancelled' },
+      metadata: { interviewId: interview.id, source: 'candidate_cancel', ...(reason && { reason }) },
+    });
+
+    await this.notifyChange(updated, 'cancelled', this.startOf(interview), reason);
+    return { success: true, interview: updated };
+  }
+
+  /**
+   * People to tell about a candidate's change: whoever scheduled the interview and its panel, with the
+   * zone their availability is kept in when they have one.
+   */
+  private async interviewerContacts(interview: RealInterview): Promise<Array<{ name: string; email: string; timeZone: string | null }>> {
+    const panel = await db
+      .select({ interviewerId: interviewScorecards.interviewerId })
+      .from(interviewScorecards)
+      .where(eq(interviewScorecards.interviewId, interview.id));
+    const ids = Array.from(new Set([
+      ...(interview.createdBy ? [interview.createdBy] : []),
+      ...panel.map((member: { interviewerId: string }) => member.interviewerId),
+    ]));
+    if (ids.length === 0) {
+      return [];
+    }
+    const people: Array<{ firstName: string | null; lastName: string | null; email: string | null; timeZone: string | null }> = await db
+      .select({ firstName: users.firstName, lastName: users.lastName, email: users.email, timeZone: interviewerAvailability.timeZone })
+      .from(users)
+      .leftJoin(interviewerAvailability, and(
+        eq(interviewerAvailability.userId, users.id),
+        eq(interviewerAvailability.organizationId, interview.organizationId || '')
+      ))
+      .where(inArray(users.id, ids));
+    return people
+      .filter((person): person is typeof person & { email: string } => !!person.email)
+      .map(person => ({
+        name: [person.firstName, person.lastName].filter(Boolean).join(' ') || person.email,
+        email: person.email,
+        timeZone: this.resolveTimeZone(person.timeZone),
+      }));
+  }
+
+  private async notifyChange(interview: RealInterview, change: 'rescheduled' | 'cancelled', previousStart: Date | null, reason: string | null): Promise<void> {
+    try {
+      const organization = interview.organizationId ? await storage.getOrganizationById(interview.organizationId) : undefined;
+      const companyName = organization?.companyName || 'Company';
+      const interviewZone = this.resolveTimeZone(interview.timeZone) || 'UTC';
+      const start = this.startOf(interview);
+      const ics = this.icsFor(interview, companyName, change === 'cancelled' ? 'CANCEL' : 'REQUEST');
+
+      for (const contact of await this.interviewerContacts(interview)) {
+        const zone = contact.timeZone || interviewZone;
+        await emailService.sendInterviewChangeNotification({
+          recipientEmail: contact.email,
+          recipientName: contact.name,
+          candidateName: interview.candidateName,
+          jobTitle: interview.jobTitle || 'Position',
+          companyName,
+          change,
+          previousStart: previousStart ? this.format(previousStart, zone) : null,
+          newStart: change === 'rescheduled' && start ? this.format(start, zone) : null,
+          reason,
+          ics,
+          organizationId: interview.organizationId,
+        });
+      }
+
+      // The candidate's calendar entry follows the change too
+      if (interview.candidateEmail && start) {
+        if (change === 'cancelled') {
+          await emailService.sendInterviewCancelledEmail({
+            applicantName: interview.candidateName,
+            applicantEmail: interview.candidateEmail,
+            jobTitle: interview.jobTitle || 'Position',
+            companyName,
+            ics,
+            organizationId: interview.organizationId,
+          });
+        } else {
+          await emailService.sendInterviewScheduledEmail({
+            ...this.candidateEmailFields(interview, companyName),
+            rescheduled: true,
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Failed to send ${change} notifications for interview ${interview.id}:`, error);
+    }
+  }
+}
+
+export const interviewScheduleService = new InterviewScheduleService();
@@ -0,0 +1,258 @@
+import { db } from '../db';
+import {
+  airtableJobMatches,
+  invitationReminders,
+  jobs,
+  type AirtableJobMatch,
+  type InvitationReminder,
+  type InvitationReminderPayload,
+  type InvitationReminderStep,
+} from '@shared/schema';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { emailService } from '../emailService';
+import { jobLifecycleService } from './jobLifecycleService';
+
+// Email an hour and a day after the invitation, then call on day two
+export const DEFAULT_REMINDER_CADENCE: InvitationReminderStep[] = [
+  { channel: 'email', delayHours: 1 },
+  { channel: 'email', delayHours: 24 },
+  { channel: 'voice_call', delayHours: 48 },
+];
+
+const CHANNELS = ['email', 'voice_call'];
+const MAX_STEPS = 10;
+const MAX_DELAY_HOURS = 30 * 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+class InvitationReminderService {
+  /**
+   * Validate a job's reminder sequence. null keeps the default; an empty list turns reminders off.
+   */
+  normalizeCadence(input: any): InvitationReminderStep[] | null {
+    if (input === null || input === undefined) {
+      return null;
+    }
+    if (!Array.isArray(input)) {
+      throw new Error('Reminder cadence must be a list of steps');
+    }
+    if (input.length > MAX_STEPS) {
+      throw new Error(`A reminder cadence can have at most ${MAX_STEPS} steps`);
+    }
+
+    const steps = input.map((step: any) => {
+      if (!step || !CHANNELS.includes(step.channel)) {
+        throw new Error('Each reminder step must be an email or a voice call');
+      }
+      const delayHours = Number(step.delayHours);
+      if (!Number.isInteger(delayHours) || delayHours < 1 || delayHours > MAX_DELAY_HOURS) {
+        throw new Error(`Reminder delays must be whole hours between 1 and ${MAX_DELAY_HOURS}`);
+      }
+      return { channel: step.channel, delayHours };
+    });
+    const delays = new Set(steps.map(step => `${step.channel}:${step.delayHours}`));
+    if (delays.size !== steps.length) {
+      throw new Error('Two reminder steps use the same channel at the same time');
+    }
+    return steps.sort((a, b) => a.delayHours - b.delayHours);
+  }
+
+  resolveCadence(job: { reminderCadence?: InvitationReminderStep[] | null }): InvitationReminderStep[] {
+    return job.reminderCadence ?? DEFAULT_REMINDER_CADENCE;
+  }
+
+  /**
+   * Queue the job's reminder sequence for an invitation, replacing whatever was pending for it.
+   */
+  async scheduleForMatch(
+    match: AirtableJobMatch,
+    job: { id: number; organizationId: string | null; reminderCadence?: InvitationReminderStep[] | null },
+    payload: InvitationReminderPayload
+  ): Promise<InvitationReminder[]> {
+    await this.cancelForMatch(match.id, 'replaced');
+
+    const steps = this.resolveCadence(job);
+    if (steps.length === 0) {
+      return [];
+    }
+    const sentAt = Date.now();
+    const rows: InvitationReminder[] = await db
+      .insert(invitationReminders)
+      .values(steps.map((step, index) => ({
+        matchId: match.id,
+        organizationId: job.organizationId,
+        profileId: match.userId,
+        jobId: String(job.id),
+        stepIndex: index,
+        channel: step.channel,
+        finalStep: index === steps.length - 1,
+        payload,
+        scheduledFor: new Date(sentAt + step.delayHours * HOUR_MS),
+      })))
+      .returning();
+
+    const { scheduleInvitationReminderJob } = await import('../jobProducers');
+    for (const row of rows) {
+      await scheduleInvitationReminderJob(row.id, Math.max(0, row.scheduledFor.getTime() - Date.now()));
+    }
+    console.log(`⏰ Scheduled ${rows.length} invitation reminder(s) for match ${match.id}`);
+    return rows;
+  }
+
+  /**
+   * Cancel every pending step for an invitation, including jobs queued by the old fixed 1h/24h reminders.
+   */
+  async cancelForMatch(matchId: string, reason: string): Promise<number> {
+    const cancelled: InvitationReminder[] = await db
+      .update(invitationReminders)
+      .set({ status: 'cancelled', statusReason: reason })
+      .where(and(eq(invitationReminders.matchId, matchId), eq(invitationReminders.status, 'pending')))
+      .returning();
+
+    const [match] = await db
+      .select({ reminder1hJobId: airtableJobMatches.reminder1hJobId, reminder24hJobId: airtableJobMatches.reminder24hJobId })
+      .from(airtableJobMatches)
+      .where(eq(airtableJobMatches.id, matchId));
+    const legacyJobIds = [match?.reminder1hJobId, match?.reminder24hJobId].filter((id): id is string => !!id);
+    if (cancelled.length === 0 && legacyJobIds.length === 0) {
+      return 0;
+    }
+
+    const { cancelInvitationReminderJob, cancelScheduledReminderJob } = await import('../jobProducers');
+    for (const reminder of cancelled) {
+      await cancelInvitationReminderJob(reminder.id);
+    }
+    if (legacyJobIds.length > 0) {
+      for (const jobId of legacyJobIds) {
+        await cancelScheduledReminderJob(jobId);
+      }
+      await db.update(airtableJobMatches)
+        .set({ reminder1hJobId: null, reminder24hJobId: null })
+        .where(eq(airtableJobMatches.id, matchId));
+    }
+    return cancelled.length;
+  }
+
+  /**
+   * Send one queued step, unless the candidate has moved on since it was scheduled.
+   */
+  async sendReminder(reminderId: number): Promise<{ success: boolean; reason?: string }> {
+    const [reminder]: InvitationReminder[] = await db
+      .select()
+      .from(invitationReminders)
+      .where(eq(invitationReminders.id, reminderId));
+    if (!reminder || reminder.status !== 'pending') {
+      return { success: false, reason: reminder ? `reminder_${reminder.status}` : 'reminder_not_found' };
+    }
+
+    const [match] = await db.select().from(airtableJobMatches).where(eq(airtableJobMatches.id, reminder.matchId));
+    if (!match || match.status !== 'invited') {
+      await this.cancelForMatch(reminder.matchId, match ? `status_${match.status}` : 'match_deleted');
+      return { success: false, reason: 'interview_already_started' };
+    }
+
+    // A paused or closed job can't be interviewed for; its step is skipped rather than sent
+    const [job] = await db.select().from(jobs).where(eq(sql`${jobs.id}::text`, reminder.jobId));
+    if (job && !jobLifecycleService.isAcceptingCandidates(job)) {
+      await db.update(invitationReminders)
+        .set({ status: 'skipped', statusReason: job.is_active ? `job_${job.status}` : 'job_deleted' })
+        .where(and(eq(invitationReminders.id, reminderId), eq(invitationReminders.status, 'pending')));
+      return { success: false, reason: 'job_not_open' };
+    }
+
+    // Claim the step so a retried or duplicated queue job can't send it twice
+    const [claimed] = await db
+      .update(invitationReminders)
+      .set({ status: 'sent', sentAt: new Date() })
+      .where(and(eq(invitationReminders.id, reminderId), eq(invitationReminders.status, 'pending')))
+      .returning();
+    if (!claimed) {
+      return { success: false, reason: 'already_sent' };
+    }
+
+    let outcome: { status: 'sent' | 'skipped' | 'failed'; reason?: string };
+    try {
+      outcome = await this.deliver(reminder, match);
+    } catch (error: any) {
+      console.error(`Error sending invitation reminder ${reminderId}:`, error);
+      outcome = { status: 'failed', reason: String(error?.message || error).slice(0, 200) };
+    }
+
+    if (outcome.status !== 'sent') {
+      await db.update(invitationReminders)
+        .set({ status: outcome.status, statusReason: outcome.reason || null, sentAt: null })
+        .where(eq(invitationReminders.id, reminderId));
+    }
+    return { success: outcome.status === 'sent', reason: outcome.reason };
+  }
+
+  private async deliver(reminder: InvitationReminder, match: AirtableJobMatch): Promise<{ status: 'sent' | 'skipped' | 'failed'; reason?: string }> {
+    const { payload } = reminder;
+    if (reminder.channel === 'voice_call') {
+      return payload.applicantPhone
+        ? await this.placeReminderCall({
+            applicantPhone: payload.applicantPhone,
+            jobTitle: payload.jobTitle,
+            companyName: payload.companyName,
+            invitedAt: reminder.createdAt || match.createdAt || new Date(),
+          })
+        : { status: 'skipped', reason: 'no_phone_number' };
+    }
+    const sent = await emailService.sendInterviewReminderEmail({
+      applicantName: payload.applicantName,
+      applicantEmail: payload.applicantEmail,
+      jobTitle: payload.jobTitle,
+      companyName: payload.companyName,
+      invitationLink: payload.invitationLink,
+      reminderType: reminder.finalStep ? 'final' : 'followup',
+      organizationId: reminder.organizationId,
+    });
+    return sent ? { status: 'sent' } : { status: 'failed', reason: 'email_not_sent' };
+  }
+
+  /**
+   * Phone a candidate who hasn't started their AI interview, speaking Egyptian Arabic.
+   */
+  async placeReminderCall(params: { applicantPhone: string; jobTitle: string; companyName: string; invitedAt: Date }):
+    Promise<{ status: 'sent' | 'failed'; reason?: string }> {
+    const days = Math.round((Date.now() - params.invitedAt.getTime()) / (24 * HOUR_MS));
+    const elapsed = days <= 0 ? 'earlier today' : days === 1 ? 'yesterday' : `${days} days ago`;
+    const elapsedArabic = days <= 0 ? 'النهارده' : days === 1 ? 'امبارح' : days === 2 ? 'قبل يومين' : 'من كام يوم';
+
+    const systemPrompt = `You are an AI recruitment assistant. The candidate was invited to interview for the ${params.jobTitle} position at ${params.companyName} ${elapsed} but hasn't started yet. Your goal is to remind them about this opportunity and encourage them to complete their interview. Be professional, friendly, and create urgency without being pushy.
+
+CRITICAL LANGUAGE REQUIREMENT: You must speak Egyptian Arabic dialect ONLY. All responses must be in Egyptian Arabic, not formal Arabic or any other dialect. Use common Egyptian expressions and phrases that Egyptians use in daily conversation.`;
+
+    const greetingMessage = `اهلاً! أنا بلاتو بتكلم بالنيابة عن ${params.companyName}. اتم دعيتك للمقابلة بتاعة وظيفة ${params.jobTitle} ${elapsedArabic}. عاوز أتأكد لو عندك أي أسئلة عن الفرصة دي!`;
+
+    const { twilioVoiceService } = await import('./twilioVoiceService');
+    const result = await twilioVoiceService.initiateCall({
+      toPhoneNumber: params.applicantPhone,
+      systemPrompt,
+      voice: 'marin',
+      greetingMessage,
+    });
+    if (!result.success) {
+      console.error(`❌ Failed to initiate reminder call: ${result.error}`);
+      return { status: 'failed', reason: result.error || 'call_failed' };
+    }
+    console.log(`✅ Interview reminder call initiated: ${result.callId}`);
+    return { status: 'sent' };
+  }
+
+  /**
+   * Every reminder scheduled for a candidate in the organization, newest invitation first.
+   */
+  async listForProfile(organizationId: string, profileId: string, jobIds?: string[]): Promise<InvitationReminder[]> {
+    return await db
+      .select()
+      .from(invitationReminders)
+      .where(and(
+        eq(invitationReminders.organizationId, organizationId),
+        eq(invitationReminders.profileId, profileId),
+        jobIds && jobIds.length > 0 ? inArray(invitationReminders.jobId, jobIds) : undefined
+      ))
+      .orderBy(desc(invitationReminders.createdAt), invitationReminders.stepIndex);
+  }
+}
+
+export const invitationReminderService = new InvitationReminderService();
@@ -0,0 +1,394 @@
+import { db } from '../db';
+import {
+  jobApprovalRequests,
+  jobApprovalEvents,
+  users,
+  type Job,
+  type Organization,
+  type JobApprovalRequest,
+  type JobApprovalEvent,
+  type RequisitionApprovalStep,
+  type RequisitionTerms,
+} from '@shared/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { emailService } from '../emailService';
+import { getAppBaseUrl } from '../auth';
+import { jobLifecycleService } from './jobLifecycleService';
+
+const MAX_STEPS = 5;
+const MAX_STEP_NAME_LENGTH = 60;
+const MAX_COMMENT_LENGTH = 2000;
+
+type ApprovalContext = { job: Job; organization: Organization };
+
+export type ApprovalResult =
+  | { success: true; request: JobApprovalRequest }
+  | { success: false; status: 400 | 403 | 409; message: string };
+
+export interface JobApprovalRequestView extends JobApprovalRequest {
+  requestedByName: string;
+  events: Array<JobApprovalEvent & { actorName: string }>;
+}
+
+function cleanComment(input: any): string | null {
+  const comment = typeof input === 'string' ? input.trim() : '';
+  return comment ? comment.slice(0, MAX_COMMENT_LENGTH) : null;
+}
+
+class JobApprovalService {
+  /**
+   * Validate an organization's approval chain. null or an empty list turns approval off.
+   */
+  normalizeChain(input: any, memberIds: string[]): RequisitionApprovalStep[] | null {
+    if (input === null || input === undefined || (Array.isArray(input) && input.length === 0)) {
+      return null;
+    }
+    if (!Array.isArray(input)) {
+      throw new Error('The approval chain must be a list of steps');
+    }
+    if (input.length > MAX_STEPS) {
+      throw new Error(`An approval chain can have at most ${MAX_STEPS} steps`);
+    }
+
+    return input.map((step: any) => {
+      const name = typeof step?.name === 'string' ? step.name.trim() : '';
+      if (!name || name.length > MAX_STEP_NAME_LENGTH) {
+        throw new Error(`Each approval step needs a name of up to ${MAX_STEP_NAME_LENGTH} characters`);
+      }
+      const approverIds: string[] = Array.isArray(step.approverIds) ? Array.from(new Set(step.approverIds.map(String))) : [];
+      if (approverIds.length === 0) {
+        throw new Error(`The ${name} step needs at least one approver`);
+      }
+      if (approverIds.some(id => !memberIds.includes(id))) {
+        throw new Error(`Approvers for the ${name} step must be members of the organization`);
+      }
+      return { name, approverIds };
+    });
+  }
+
+  isRequired(organization: Pick<Organization, 'requisitionApprovalChain'>): boolean {
+    return (organization.requisitionApprovalChain?.length ?? 0) > 0;
+  }
+
+  termsOf(job: Pick<Job, 'salaryRange' | 'salaryMin' | 'salaryMax' | 'headcount'>): RequisitionTerms {
+    return {
+      salaryRange: job.salaryRange || null,
+      salaryMin: job.salaryMin ?? null,
+      salaryMax: job.salaryMax ?? null,
+      headcount: job.headcount ?? 1,
+    };
+  }
+
+  sameTerms(a: RequisitionTerms, b: RequisitionTerms): boolean {
+    return a.salaryRange === b.salaryRange && a.salaryMin === b.salaryMin && a.salaryMax === b.salaryMax && a.headcount === b.headcount;
+  }
+
+  describeTerms(terms: RequisitionTerms): string {
+    const salary = terms.salaryRange
+      || (terms.salaryMin && terms.salaryMax ? `${terms.salaryMin.toLocaleString()} - ${terms.salaryMax.toLocaleString()}` : null)
+      || (terms.salaryMin ? `from ${terms.salaryMin.toLocaleString()}` : null)
+      || (terms.salaryMax ? `up to ${terms.salaryMax.toLocaleString()}` : null)
+      || 'salary not specified';
+    return `${salary}, headcount ${terms.headcount}`;
+  }
+
+  async getLatest(jobId: number): Promise<JobApprovalRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(jobApprovalRequests)
+      .where(eq(jobApprovalRequests.jobId, jobId))
+      .orderBy(desc(jobApprovalRequests.createdAt), desc(jobApprovalRequests.id))
+      .limit(1);
+    return request;
+  }
+
+  async getRequest(requestId: number): Promise<JobApprovalRequest | undefined> {
+    const [request] = await db.select().from(jobApprovalRequests).where(eq(jobApprovalRequests.id, requestId));
+    return request;
+  }
+
+  /**
+   * Why a draft can't be published yet, or null when it can: approval is off, or the latest request
+   * was approved on the job's current salary and headcount.
+   */
+  async publishBlocker(job: Job, organization: Organization): Promise<string | null> {
+    if (!this.isRequired(organization)) {
+      return null;
+    }
+    const latest = await this.getLatest(job.id);
+    if (latest?.status === 'approved') {
+      return this.sameTerms(latest.terms, this.termsOf(job))
+        ? null
+        : 'The salary or headcount changed after approval. Submit the job for approval again.';
+    }
+    if (latest?.status === 'pending') {
+      return `This job is waiting for ${latest.chain[latest.currentStep].name} approval`;
+    }
+    return 'This job needs approval before it can be published. Submit it for approval first.';
+  }
+
+  /**
+   * Start a draft job down the organization's chain. With publishOnApproval the job is published,
+   * or scheduled for publishAt, as soon as the last step approves it.
+   */
+  async submit(
+    { job, organization }: ApprovalContext,
+    actorId: string,
+    options: { comment?: any; publishOnApproval?: boolean; publishAt?: Date | null } = {}
+  ): Promise<ApprovalResult> {
+    const chain = organization.requisitionApprovalChain ?? [];
+    if (chain.length === 0) {
+      return { success: false, status: 409, message: "This organization doesn't require job approval" };
+    }
+    if (job.status !== 'draft') {
+      return { success: false, status: 409, message: 'Only draft jobs can be submitted for approval' };
+    }
+    const latest = await this.getLatest(job.id);
+    if (latest?.status === 'pending') {
+      return { success: false, status: 409, message: 'This job already has a pending approval request' };
+    }
+
+    const [request] = await db
+      .insert(jobApprovalRequests)
+      .values({
+        jobId: job.id,
+        organizationId: organization.id,
+        requestedById: actorId,
+        chain,
+        terms: this.termsOf(job),
+        publishOnApproval: !!options.publishOnApproval,
+        publishAt: options.publishAt ?? null,
+      })
+      .returning();
+    await this.record(request, actorId, 'submitted', null, cleanComment(options.comment));
+
+    await this.notify(chain[0].approverIds, request, { job, organization }, 'requested', request.requestedById, cleanComment(options.comment));
+    console.log(`📝 Job ${job.id} submitted for approval (request ${request.id}, ${chain.length} step(s))`);
+    return { success: true, request };
+  }
+
+  /**
+   * Sign off the current step. The last approval completes the request and, if asked, publishes the job.
+   */
+  async approve(request: JobApprovalRequest, context: ApprovalContext, actorId: string, comment?: any): Promise<ApprovalResult> {
+    const checked = this.checkApprover(request, actorId);
+    if (checked) {
+      return checked;
+    }
+
+    const isLast = request.currentStep === request.chain.length - 1;
+    const now = new Date();
+    const [updated] = await db
+      .update(jobApprovalRequests)
+      .set(isLast
+        ? { status: 'approved', decidedAt: now, updatedAt: now }
+        : { currentStep: request.currentStep + 1, updatedAt: now })
+      .where(and(
+        eq(jobApprovalRequests.id, request.id),
+        eq(jobApprovalRequests.status, 'pending'),
+        eq(jobApprovalRequests.currentStep, request.currentStep)
+      ))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: 'This request was already decided. Reload and try again.' };
+    }
+    await this.record(request, actorId, 'approved', request.currentStep, cleanComment(comment));
+
+    if (!isLast) {
+      await this.notify(request.chain[updated.currentStep].approverIds, updated, context, 'requested', request.requestedById, null);
+      return { success: true, request: updated };
+    }
+
+    await this.notify([request.requestedById], updated, context, 'approved', actorId, cleanComment(comment));
+    if (updated.publishOnApproval && context.job.status === 'draft') {
+      const target = updated.publishAt && updated.publishAt > now ? 'scheduled' : 'open';
+      const published = await jobLifecycleService.transition(context.job, target, { publishAt: updated.publishAt });
+      if (!published.success) {
+        console.warn(`⚠️ Job ${context.job.id} approved but not published: ${published.message}`);
+      }
+    }
+    console.log(`✅ Job ${context.job.id} approved (request ${request.id})`);
+    return { success: true, request: updated };
+  }
+
+  async reject(request: JobApprovalRequest, context: ApprovalContext, actorId: string, reason: any): Promise<ApprovalResult> {
+    const checked = this.checkApprover(request, actorId);
+    if (checked) {
+      return checked;
+    }
+    const comment = cleanComment(reason);
+    if (!comment) {
+      return { success: false, status: 400, message: 'Give a reason for rejecting the job' };
+    }
+
+    const now = new Date();
+    const [updated] = await db
+      .update(jobApprovalRequests)
+      .set({ status: 'rejected', decidedAt: now, updatedAt: now })
+      .where(and(
+        eq(jobApprovalRequests.id, request.id),
+        eq(jobApprovalRequests.status, 'pending'),
+        eq(jobApprovalRequests.currentStep, request.currentStep)
+      ))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: 'This request was already decided. Reload and try again.' };
+    }
+    await this.record(request, actorId, 'rejected', request.currentStep, comment);
+    await this.notify([request.requestedById], updated, context, 'rejected', actorId, comment);
+    console.log(`🚫 Job ${context.job.id} rejected at step ${request.currentStep} (request ${request.id})`);
+    return { success: true, request: updated };
+  }
+
+  /**
+   * Add a comment. The requester and the approvers of a pending step hear about it.
+   */
+  async comment(request: JobApprovalRequest, context: ApprovalContext, actorId: string, text: any): Promise<ApprovalResult> {
+    const comment = cleanComment(text);
+    if (!comment) {
+      return { success: false, status: 400, message: 'Comment cannot be empty' };
+    }
+    await this.record(request, actorId, 'commented', null, comment);
+
+    const recipients = [request.requestedById, ...(request.status === 'pending' ? request.chain[request.currentStep].approverIds : [])];
+    await this.notify(recipients.filter(id => id !== actorId), request, context, 'commented', actorId, comment);
+    return { success: true, request };
+  }
+
+  async cancel(request: JobApprovalRequest, actorId: string, reason?: any): Promise<ApprovalResult> {
+    const now = new Date();
+    const [updated] = await db
+      .update(jobApprovalRequests)
+      .set({ status: 'cancelled', decidedAt: now, updatedAt: now })
+      .where(and(eq(jobApprovalRequests.id, request.id), eq(jobApprovalRequests.status, 'pending')))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: `This request is already ${request.status}` };
+    }
+    await this.record(request, actorId, 'cancelled', null, cleanComment(reason));
+    return { success: true, request: updated };
+  }
+
+  /**
+   * Withdraw a pending request when an edit changes what the approvers are signing off.
+   */
+  async cancelIfTermsChanged(previous: Job, job: Job, actorId: string): Promise<boolean> {
+    if (this.sameTerms(this.termsOf(previous), this.termsOf(job))) {
+      return false;
+    }
+    const latest = await this.getLatest(job.id);
+    if (latest?.status !== 'pending') {
+      return false;
+    }
+    const cancelled = await this.cancel(latest, actorId, 'Salary or headcount changed while awaiting approval');
+    return cancelled.success;
+  }
+
+  /**
+   * Every request for a job, newest first, with its history.
+   */
+  async listForJob(jobId: number): Promise<JobApprovalRequestView[]> {
+    const requests: JobApprovalRequest[] = await db
+      .select()
+      .from(jobApprovalRequests)
+      .where(eq(jobApprovalRequests.jobId, jobId))
+      .orderBy(desc(jobApprovalRequests.createdAt), desc(jobApprovalRequests.id));
+    if (requests.length === 0) {
+      return [];
+    }
+    const events: JobApprovalEvent[] = await db
+      .select()
+      .from(jobApprovalEvents)
+      .where(inArray(jobApprovalEvents.requestId, requests.map(request => request.id)))
+      .orderBy(jobApprovalEvents.createdAt, jobApprovalEvents.id);
+    const names = await this.names([...requests.map(request => request.requestedById), ...events.map(event => event.actorId)]);
+
+    return requests.map(request => ({
+      ...request,
+      requestedByName: names.get(request.requestedById) || 'Unknown user',
+      events: events
+        .filter(event => event.requestId === request.id)
+        .map(event => ({ ...event, actorName: names.get(event.actorId) || 'Unknown user' })),
+    }));
+  }
+
+  /**
+   * Pending requests in the organization whose current step the user can sign off.
+   */
+  async listAwaiting(organizationId: string, userId: string): Promise<JobApprovalRequest[]> {
+    const pending: JobApprovalRequest[] = await db
+      .select()
+      .from(jobApprovalRequests)
+      .where(and(eq(jobApprovalRequests.organizationId, organizationId), eq(jobApprovalRequests.status, 'pending')))
+      .orderBy(jobApprovalRequests.createdAt);
+    return pending.filter(request => request.chain[request.currentStep]?.approverIds.includes(userId));
+  }
+
+  private checkApprover(request: JobApprovalRequest, actorId: string): ApprovalResult | null {
+    if (request.status !== 'pending') {
+      return { success: false, status: 409, message: `This request is already ${request.status}` };
+    }
+    const step = request.chain[request.currentStep];
+    if (!step.approverIds.includes(actorId)) {
+      return { success: false, status: 403, message: `Only ${step.name} approvers can decide this step` };
+    }
+    return null;
+  }
+
+  private async record(request: JobApprovalRequest, actorId: string, action: JobApprovalEvent['action'], stepIndex: number | null, comment: string | null) {
+    await db.insert(jobApprovalEvents).values({ requestId: request.id, stepIndex, actorId, action, comment });
+  }
+
+  private async people(ids: string[]): Promise<Array<{ id: string; name: string; email: string }>> {
+    const unique = Array.from(new Set(ids));
+    if (unique.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(users)
+      .where(inArray(users.id, unique));
+    return rows.map((person: { id: string; firstName: string | null; lastName: string | null; email: string }) => ({
+      id: person.id,
+      name: [person.firstName, person.lastName].filter(Boolean).join(' ') || person.email,
+      email: person.email,
+    }));
+  }
+
+  private async names(ids: string[]): Promise<Map<string, string>> {
+    return new Map((await this.people(ids)).map(person => [person.id, person.name]));
+  }
+
+  // Notifications are best effort; a failed email never blocks the decision itself
+  private async notify(
+    recipientIds: string[],
+    request: JobApprovalRequest,
+    { job, organization }: ApprovalContext,
+    kind: 'requested' | 'approved' | 'rejected' | 'commented',
+    actorId: string,
+    comment: string | null
+  ) {
+    try {
+      const [recipients, actorNames] = await Promise.all([this.people(recipientIds), this.names([actorId])]);
+      const step = request.chain[request.currentStep];
+      for (const recipient of recipients) {
+        await emailService.sendJobApprovalNotification({
+          recipientEmail: recipient.email,
+          recipientName: recipient.name,
+          kind,
+          actorName: actorNames.get(actorId) || 'A team member',
+          jobTitle: job.title,
+          companyName: organization.companyName,
+          stepName: step?.name || null,
+          termsSummary: this.describeTerms(request.terms),
+          comment,
+          jobUrl: `${getAppBaseUrl()}/hiring/jobs/${job.id}`,
+        });
+      }
+    } catch (error) {
+      console.error(`Error sending job approval notifications for request ${request.id}:`, error);
+    }
+  }
+}
+
+export const jobApprovalService = new JobApprovalService();
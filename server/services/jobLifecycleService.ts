@@ -0,0 +1,216 @@
+import { db } from '../db';
+import { jobs, JOB_STATUSES, type Job, type JobStatus } from '@shared/schema';
+import { eq, and, inArray, lte, isNotNull } from 'drizzle-orm';
+
+// Statuses a new job can be created in
+const INITIAL_STATUSES: JobStatus[] = ['draft', 'scheduled', 'open'];
+
+const ALLOWED_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  draft: ['scheduled', 'open', 'archived'],
+  scheduled: ['draft', 'open', 'archived'],
+  open: ['paused', 'closed'],
+  paused: ['open', 'closed'],
+  closed: ['open', 'archived'],
+  archived: ['closed'],
+};
+
+export interface JobSchedule {
+  status: JobStatus;
+  publishAt: Date | null;
+  closesAt: Date | null;
+}
+
+export type JobTransitionResult =
+  | { success: true; job: Job }
+  | { success: false; status: 400 | 409; message: string };
+
+function parseDate(input: any, label: string): Date | null {
+  if (input === null || input === undefined || input === '') {
+    return null;
+  }
+  const date = new Date(input);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${label} is not a valid date`);
+  }
+  return date;
+}
+
+class JobLifecycleService {
+  /**
+   * Whether a job takes new applicants, AI interviews and auto-invites right now.
+   * A closing date that has passed counts even before the scheduler has closed the job.
+   */
+  isAcceptingCandidates(job: Pick<Job, 'is_active' | 'status' | 'closesAt'>, now = new Date()): boolean {
+    return job.is_active && job.status === 'open' && (!job.closesAt || job.closesAt > now);
+  }
+
+  /**
+   * Status and dates for a new job. Without a status it opens immediately, or on its publish date if one is given.
+   */
+  normalizeNewSchedule(input: { status?: any; publishAt?: any; closesAt?: any }, now = new Date()): JobSchedule {
+    const publishAt = parseDate(input.publishAt, 'Publish date');
+    const closesAt = parseDate(input.closesAt, 'Closing date');
+    const status: JobStatus = input.status || (publishAt ? 'scheduled' : 'open');
+    if (!INITIAL_STATUSES.includes(status)) {
+      throw new Error('A new job must be a draft, scheduled or open');
+    }
+    if (status === 'scheduled' && (!publishAt || publishAt <= now)) {
+      throw new Error('Scheduled jobs need a publish date in the future');
+    }
+    const schedule = { status, publishAt: status === 'scheduled' ? publishAt : null, closesAt };
+    this.checkClosingDate(schedule, now);
+    return schedule;
+  }
+
+  /**
+   * Date changes from a job edit. Only scheduled jobs have a publish date; the closing date can be moved or cleared.
+   */
+  normalizeScheduleUpdate(job: Job, input: { publishAt?: any; closesAt?: any }, now = new Date()): Partial<JobSchedule> {
+    const changes: Partial<JobSchedule> = {};
+    if (input.publishAt !== undefined) {
+      const publishAt = parseDate(input.publishAt, 'Publish date');
+      if (job.status !== 'scheduled') {
+        if (publishAt) {
+          throw new Error('Only scheduled jobs have a publish date');
+        }
+      } else if (!publishAt || publishAt <= now) {
+        throw new Error('Scheduled jobs need a publish date in the future');
+      } else {
+        changes.publishAt = publishAt;
+      }
+    }
+    if (input.closesAt !== undefined) {
+      changes.closesAt = parseDate(input.closesAt, 'Closing date');
+    }
+    this.checkClosingDate({ status: job.status, publishAt: job.publishAt, closesAt: job.closesAt, ...changes }, now);
+    return changes;
+  }
+
+  private checkClosingDate(schedule: JobSchedule, now: Date) {
+    const closed = schedule.status === 'closed' || schedule.status === 'archived';
+    if (!schedule.closesAt || closed) {
+      return;
+    }
+    if (schedule.closesAt <= now) {
+      throw new Error('The closing date must be in the future');
+    }
+    if (schedule.publishAt && schedule.closesAt <= schedule.publishAt) {
+      throw new Error('The closing date must be after the publish date');
+    }
+  }
+
+  /**
+   * Move a job to another status. Publishing stamps postedAt; closing and archiving keep every applicant.
+   */
+  async transition(job: Job, target: any, options: { publishAt?: any } = {}): Promise<JobTransitionResult> {
+    if (!JOB_STATUSES.includes(target)) {
+      return { success: false, status: 400, message: `Unknown job status '${target}'` };
+    }
+    if (!ALLOWED_TRANSITIONS[job.status].includes(target)) {
+      return { success: false, status: 409, message: `A ${job.status} job cannot be moved to ${target}` };
+    }
+
+    const now = new Date();
+    const changes: Partial<Job> = { status: target };
+    switch (target as JobStatus) {
+      case 'draft':
+        changes.publishAt = null;
+        break;
+      case 'scheduled': {
+        let publishAt: Date | null;
+        try {
+          publishAt = parseDate(options.publishAt, 'Publish date');
+        } catch (error) {
+          return { success: false, status: 400, message: (error as Error).message };
+        }
+        if (!publishAt || publishAt <= now) {
+          return { success: false, status: 400, message: 'Scheduled jobs need a publish date in the future' };
+        }
+        if (job.closesAt && job.closesAt <= publishAt) {
+          return { success: false, status: 400, message: 'The closing date must be after the publish date' };
+        }
+        changes.publishAt = publishAt;
+        break;
+      }
+      case 'open':
+        if (job.closesAt && job.closesAt <= now) {
+          return { success: false, status: 409, message: 'The closing date has passed. Move or clear it before opening the job.' };
+        }
+        if (job.status === 'draft' || job.status === 'scheduled') {
+          changes.postedAt = now;
+          changes.publishAt = null;
+        }
+        changes.closedAt = null;
+        break;
+      case 'closed':
+        changes.closedAt = job.closedAt && job.status === 'archived' ? job.closedAt : now;
+        changes.archivedAt = null;
+        break;
+      case 'archived':
+        changes.archivedAt = now;
+        break;
+    }
+
+    // Guard on the current status so a concurrent change isn't overwritten
+    const [updated] = await db
+      .update(jobs)
+      .set({ ...changes, updatedAt: now })
+      .where(and(eq(jobs.id, job.id), eq(jobs.status, job.status)))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: 'The job was changed by someone else. Reload and try again.' };
+    }
+    console.log(`📋 Job ${job.id} moved from ${job.status} to ${target}`);
+    return { success: true, job: updated };
+  }
+
+  /**
+   * Publish scheduled jobs whose date has come and close jobs past their closing date.
+   * Run periodically from the maintenance queue.
+   */
+  async runScheduled(now = new Date()): Promise<{ published: number; closed: number }> {
+    const published: Job[] = await db
+      .update(jobs)
+      .set({ status: 'open', postedAt: now, publishAt: null, updatedAt: now })
+      .where(and(eq(jobs.status, 'scheduled'), isNotNull(jobs.publishAt), lte(jobs.publishAt, now)))
+      .returning();
+    const closed: Job[] = await db
+      .update(jobs)
+      .set({ status: 'closed', closedAt: now, updatedAt: now })
+      .where(and(inArray(jobs.status, ['open', 'paused']), isNotNull(jobs.closesAt), lte(jobs.closesAt, now)))
+      .returning();
+
+    for (const job of published) {
+      console.log(`📢 Published scheduled job ${job.id} (${job.title})`);
+    }
+    for (const job of closed) {
+      console.log(`🔒 Closed job ${job.id} (${job.title}) on its closing date`);
+    }
+    return { published: published.length, closed: closed.length };
+  }
+
+  /**
+   * Copy a job's content and settings into a new draft. Applicants, dates and counters are not copied.
+   */
+  async clone(job: Job, userId: string): Promise<Job> {
+    const {
+      id, createdAt, updatedAt, views, airtableRecordId, postedAt, status, publishAt, closesAt, closedAt, archivedAt,
+      clonedFromId, createdById, is_active, ...settings
+    } = job;
+    const [copy] = await db
+      .insert(jobs)
+      .values({
+        ...settings,
+        title: `${job.title} (copy)`,
+        status: 'draft',
+        postedAt: null,
+        createdById: userId,
+        clonedFromId: job.id,
+      })
+      .returning();
+    console.log(`📋 Cloned job ${job.id} into draft ${copy.id}`);
+    return copy;
+  }
+}
+
+export const jobLifecycleService = new JobLifecycleService();
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Job, KnockoutRules } from '@shared/schema';
+import type { ProcessedResume } from '../resumeProcessingService';
+import { knockoutRulesService } from './knockoutRulesService';
+
+function jobWith(rules: Partial<KnockoutRules> | null, fields: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    title: 'Backend Engineer',
+    knockoutRules: rules ? { enabled: true, ...rules } : null,
+    languagesRequired: [],
+    workplaceType: 'onsite',
+    ...fields,
+  } as unknown as Job;
+}
+
+function resumeWith(fields: Partial<ProcessedResume>): ProcessedResume {
+  return {
+    name: 'Layla Hassan',
+    email: 'layla@example.com',
+    summary: '',
+    skills: [],
+    experience: [],
+    education: [],
+    certifications: [],
+    languages: [],
+    ...fields,
+  } as ProcessedResume;
+}
+
+test('jobs without enabled rules are not evaluated', () => {
+  const resume = resumeWith({});
+  assert.equal(knockoutRulesService.evaluate(resume, jobWith(null)), null);
+  assert.equal(knockoutRulesService.evaluate(resume, jobWith({ enabled: false, mustHaveSkills: ['Go'] })), null);
+});
+
+test('languages match native spellings and fail only on an explicitly lower fluency', () => {
+  const job = jobWith({ requireLanguages: true }, {
+    languagesRequired: [{ language: 'Arabic', fluency: 'Native' }, { language: 'English', fluency: 'Fluent' }],
+  } as Partial<Job>);
+
+  const passing = knockoutRulesService.evaluate(resumeWith({ languages: ['العربية (اللغة الأم)', 'English'] }), job);
+  assert.equal(passing?.passed, true);
+  assert.deepEqual(passing?.evaluatedRules, ['languages']);
+
+  const failing = knockoutRulesService.evaluate(resumeWith({ languages: ['Arabic - native', 'English (basic)'] }), job);
+  assert.equal(failing?.passed, false);
+  assert.deepEqual(failing?.failures[0].missing, ['English (Fluent)']);
+});
+
+test('minimum experience prefers computed tenure and is unverifiable without data', () => {
+  const job = jobWith({ minYearsExperience: 5 });
+
+  const short = knockoutRulesService.evaluate(resumeWith({ totalTenureMonths: 42, yearsOfExperience: '10 years' }), job);
+  assert.equal(short?.passed, false);
+  assert.match(short!.failures[0].message, /^3\.5 years of experience, at least 5 required$/);
+
+  const stated = knockoutRulesService.evaluate(resumeWith({ yearsOfExperience: '7+ years' }), job);
+  assert.equal(stated?.passed, true);
+
+  const unknown = knockoutRulesService.evaluate(resumeWith({}), job);
+  assert.equal(unknown?.passed, true);
+  assert.deepEqual(unknown?.unverifiableRules, ['minYearsExperience']);
+});
+
+test('location rules are skipped for remote jobs when configured', () => {
+  const rules = { allowedLocations: ['Cairo', 'Giza'], skipLocationForRemote: true };
+  const resume = resumeWith({ location: 'Alexandria, Egypt' });
+
+  const onsite = knockoutRulesService.evaluate(resume, jobWith(rules));
+  assert.equal(onsite?.failures[0].rule, 'location');
+
+  const remote = knockoutRulesService.evaluate(resume, jobWith(rules, { workplaceType: 'Remote' } as Partial<Job>));
+  assert.equal(remote?.passed, true);
+  assert.deepEqual(remote?.evaluatedRules, []);
+
+  const inCairo = knockoutRulesService.evaluate(resumeWith({ location: 'New Cairo, Egypt' }), jobWith(rules));
+  assert.equal(inCairo?.passed, true);
+});
+
+test('must-have skills match whole terms anywhere in the profile', () => {
+  const job = jobWith({ mustHaveSkills: ['C++', 'Node.js', 'Kubernetes'] });
+
+  const result = knockoutRulesService.evaluate(resumeWith({
+    skills: ['C++', 'TypeScript'],
+    experienceEntries: [{ company: 'Acme', title: 'Engineer', startDate: null, endDate: null, isCurrent: false, location: null, description: 'Built APIs with Node.js.' }],
+    summary: 'Go developer',
+  }), job);
+
+  assert.equal(result?.passed, false);
+  assert.deepEqual(result?.failures.map(failure => failure.missing), [['Kubernetes']]);
+});
+
+test('certifications are matched against names and structured entries', () => {
+  const job = jobWith({ requiredCertifications: ['AWS Solutions Architect', 'PMP'] });
+  const result = knockoutRulesService.evaluate(resumeWith({
+    certificationEntries: [{ name: 'AWS Solutions Architect - Associate', issuer: 'Amazon', issueDate: null, expiryDate: null }],
+  }), job);
+
+  assert.deepEqual(result?.failures.map(failure => failure.missing), [['PMP']]);
+});
+
+test('knockout score disqualifies with the failure reasons', () => {
+  const result = knockoutRulesService.evaluate(resumeWith({ skills: [] }), jobWith({ mustHaveSkills: ['Rust'] }))!;
+  const score = knockoutRulesService.knockoutScore(result);
+
+  assert.equal(score.overallScore, 0);
+  assert.equal(score.disqualified, true);
+  assert.equal(score.disqualificationReason, 'Knockout: Missing must-have skill: Rust');
+  assert.equal(score.knockoutResult, result);
+});
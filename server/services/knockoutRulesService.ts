@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import type { Job, KnockoutRules, KnockoutResult, KnockoutFailure, KnockoutRuleType } from '@shared/schema';
+import type { ProcessedResume, JobMatchScore } from '../resumeProcessingService';
+
+const FLUENCY_RANK: Record<string, number> = {
+  basic: 1, beginner: 1, elementary: 1,
+  intermediate: 2, conversational: 2, working: 2,
+  fluent: 3, advanced: 3, proficient: 3, professional: 3,
+  native: 4, bilingual: 4, 'mother tongue': 4,
+};
+
+// Native spellings of languages commonly listed on Arabic resumes
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  arabic: ['arabic', 'العربية', 'عربي'],
+  english: ['english', 'الإنجليزية', 'الانجليزية', 'انجليزي'],
+  french: ['french', 'français', 'الفرنسية'],
+};
+
+// Used when a stored rule set predates a field
+const DEFAULT_RULES: KnockoutRules = {
+  enabled: false,
+  requireLanguages: false,
+  minYearsExperience: null,
+  allowedLocations: [],
+  skipLocationForRemote: true,
+  requiredCertifications: [],
+  mustHaveSkills: [],
+};
+
+function normalize(text: string | null | undefined): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0600-\u06ff+#.]+/g, ' ')
+    .replace(/\.(?=\s|$)/g, '')
+    .trim();
+}
+
+function fluencyRank(text: string): number | null {
+  const lower = text.toLowerCase();
+  let rank: number | null = null;
+  for (const [word, value] of Object.entries(FLUENCY_RANK)) {
+    if (lower.includes(word)) {
+      rank = Math.max(rank ?? 0, value);
+    }
+  }
+  return rank;
+}
+
+class KnockoutRulesService {
+  rulesFor(job: Pick<Job, 'knockoutRules'>): KnockoutRules | null {
+    if (!job.knockoutRules || !job.knockoutRules.enabled) {
+      return null;
+    }
+    return { ...DEFAULT_RULES, ...job.knockoutRules };
+  }
+
+  private yearsOfExperience(resume: ProcessedResume): number | null {
+    if (typeof resume.totalTenureMonths === 'number') {
+      return resume.totalTenureMonths / 12;
+    }
+    const match = (resume.yearsOfExperience || '').match(/\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  }
+
+  private checkLanguages(resume: ProcessedResume, required: Array<{ language: string; fluency: string }>): string[] {
+    const listed = (resume.languages || []).map(language => language.toLowerCase());
+    const missing: string[] = [];
+    for (const requirement of required) {
+      const name = requirement.language.trim().toLowerCase();
+      const aliases = LANGUAGE_ALIASES[name] || [name];
+      const entry = listed.find(language => aliases.some(alias => language.includes(alias)));
+      if (!entry) {
+        missing.push(requirement.language);
+        continue;
+      }
+      // Only an explicitly lower fluency fails; an unstated level is given the benefit of the doubt
+      const requiredRank = fluencyRank(requirement.fluency || '');
+      const listedRank = fluencyRank(entry);
+      if (requiredRank !== null && listedRank !== null && listedRank < requiredRank) {
+        missing.push(`${requirement.language} (${requirement.fluency})`);
+      }
+    }
+    return missing;
+  }
+
+  private missingTerms(required: string[], haystack: string): string[] {
+    return required
+      .filter(term => term.trim())
+      .filter(term => !` ${haystack} `.includes(` ${normalize(term)} `));
+  }
+
+  /**
+   * Evaluate a job's knockout rules against a parsed resume. Returns null when the job has no
+   * enabled rules. Rules the resume has no data for are reported as unverifiable and never fail.
+   */
+  evaluate(resume: ProcessedResume, job: Job): KnockoutResult | null {
+    const rules = this.rulesFor(job);
+    if (!rules) {
+      return null;
+    }
+
+    const failures: KnockoutFailure[] = [];
+    const evaluatedRules: KnockoutRuleType[] = [];
+    const unverifiableRules: KnockoutRuleType[] = [];
+
+    const requiredLanguages = Array.isArray(job.languagesRequired)
+      ? (job.languagesRequired as Array<{ language: string; fluency: string }>).filter(l => l && l.language)
+      : [];
+    if (rules.requireLanguages && requiredLanguages.length > 0) {
+      evaluatedRules.push('languages');
+      const missing = this.checkLanguages(resume, requiredLanguages);
+      if (missing.length > 0) {
+        failures.push({ rule: 'languages', message: `Missing required language: ${missing.join(', ')}`, missing });
+      }
+    }
+
+    if (rules.minYearsExperience !== null && rules.minYearsExperience > 0) {
+      const years = this.yearsOfExperience(resume);
+      if (years === null) {
+        unverifiableRules.push('minYearsExperience');
+      } else {
+        evaluatedRules.push('minYearsExperience');
+        if (years < rules.minYearsExperience) {
+          failures.push({
+            rule: 'minYearsExperience',
+            message: `${Math.round(years * 10) / 10} years of experience, at least ${rules.minYearsExperience} required`,
+            missing: [`${rules.minYearsExperience}+ years`],
+          });
+        }
+      }
+    }
+
+    const isRemote = (job.workplaceType || '').toLowerCase() === 'remote';
+    const allowedLocations = rules.allowedLocations.filter(location => location.trim());
+    if (allowedLocations.length > 0 && !(isRemote && rules.skipLocationForRemote)) {
+      if (!resume.location) {
+        unverifiableRules.push('location');
+      } else {
+        evaluatedRules.push('location');
+        const location = normalize(resume.location);
+        if (!allowedLocations.some(allowed => location.includes(normalize(allowed)))) {
+          failures.push({
+            rule: 'location',
+            message: `Located in ${resume.location}, must be in ${allowedLocations.join(' / ')}`,
+            missing: allowedLocations,
+          });
+        }
+      }
+    }
+
+    if (rules.requiredCertifications.some(certification => certification.trim())) {
+      evaluatedRules.push('certifications');
+      const certifications = normalize([
+        ...(resume.certifications || []),
+        ...(resume.certificationEntries || []).map(entry => entry.name),
+      ].join(' | '));
+      const missing = this.missingTerms(rules.requiredCertifications, certifications);
+      if (missing.length > 0) {
+        failures.push({ rule: 'certifications', message: `Missing required certification: ${missing.join(', ')}`, missing });
+      }
+    }
+
+    if (rules.mustHaveSkills.some(skill => skill.trim())) {
+      evaluatedRules.push('mustHaveSkills');
+      // Skills are often only mentioned in role descriptions, so search the whole parsed profile
+      const profileText = normalize([
+        ...(resume.skills || []),
+        ...(resume.experience || []),
+        ...(resume.experienceEntries || []).map(entry => `${entry.title} ${entry.description || ''}`),
+        ...(resume.certifications || []),
+        resume.summary || '',
+      ].join(' | '));
+      const missing = this.missingTerms(rules.mustHaveSkills, profileText);
+      if (missing.length > 0) {
+        failures.push({ rule: 'mustHaveSkills', message: `Missing must-have skill: ${missing.join(', ')}`, missing });
+      }
+    }
+
+    return {
+      passed: failures.length === 0,
+      failures,
+      evaluatedRules,
+      unverifiableRules,
+      evaluatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Score stored for a knocked-out candidate in place of the AI scoring call.
+   */
+  knockoutScore(result: KnockoutResult): JobMatchScore {
+    const reason = result.failures.map(failure => failure.message).join('; ');
+    return {
+      overallScore: 0,
+      technicalSkillsScore: 0,
+      experienceScore: 0,
+      culturalFitScore: 0,
+      matchSummary: `Did not pass pre-screening rules: ${reason}`,
+      strengthsHighlights: [],
+      improvementAreas: result.failures.map(failure => failure.message),
+      disqualified: true,
+      disqualificationReason: `Knockout: ${reason}`,
+      scoringRunId: crypto.randomUUID(),
+      knockoutResult: result,
+    };
+  }
+}
+
+export const knockoutRulesService = new KnockoutRulesService();
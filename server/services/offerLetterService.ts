@@ -0,0 +1,777 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import {
+  offerLetters,
+  offerLetterVersions,
+  offerTemplates,
+  users,
+  OFFER_MERGE_FIELDS,
+  type AirtableJobApplication,
+  type Job,
+  type Organization,
+  type OfferLetter,
+  type OfferLetterStatus,
+  type OfferLetterVersion,
+  type OfferMergeField,
+  type OfferMergeValues,
+  type OfferTemplate,
+} from '@shared/schema';
+import { eq, and, desc, gt, inArray, isNotNull, isNull, lte } from 'drizzle-orm';
+import { emailService } from '../emailService';
+import { getAppBaseUrl } from '../auth';
+import { storage } from '../storage';
+import { offerPdfService } from './offerPdfService';
+import { applicantEventService } from './applicantEventService';
+
+const MAX_TEMPLATE_NAME_LENGTH = 80;
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 20000;
+const MAX_VALUE_LENGTH = 2000;
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const MAX_SIGNER_NAME_LENGTH = 120;
+const MAX_SIGNATURE_IMAGE_LENGTH = 400_000; // Data URL characters, roughly 300KB of JPEG
+const MAX_RESPONSE_DAYS = 90;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours before the deadline at which the candidate is reminded to respond
+const REMINDER_HOURS_BEFORE_EXPIRY = [72, 24];
+
+// Statuses that mean the candidate has answered and the offer can no longer change
+const ANSWERED_STATUSES: OfferLetterStatus[] = ['accepted', 'declined'];
+
+// Used when an organization hasn't written its own template yet
+export const DEFAULT_OFFER_TEMPLATE = {
+  name: 'Standard offer',
+  subject: null,
+  body: `Dear {{candidate_name}},
+
+We are delighted to offer you the position of {{position}} at {{company_name}}.
+
+POSITION DETAILS:
+Role: {{position}}
+Location: {{location}}
+Employment Type: {{employment_type}}
+Start Date: {{start_date}}
+Compensation: {{salary}}
+Reporting To: {{manager_name}}
+
+BENEFITS:
+{{benefits}}
+
+NEXT STEPS:
+Please review this offer carefully and reply to let us know your decision. Our HR team will follow up with formal documentation and details about onboarding.
+
+We're excited about the possibility of you joining our team and look forward to your response!
+
+Best regards,
+{{company_name}} Hiring Team`,
+};
+
+export type OfferResult =
+  | { success: true; offer: OfferLetter }
+  | { success: false; status: 400 | 403 | 409; message: string };
+
+export type OfferResponseAction = 'accept' | 'decline' | 'request_changes';
+
+export interface OfferResponseInput {
+  action: any;
+  signerName?: any;
+  signatureImage?: any;
+  reason?: any;
+  documentHash?: any;
+}
+
+export interface OfferTemplateInput {
+  name: string;
+  subject: string | null;
+  body: string;
+  isDefault: boolean;
+}
+
+class OfferLetterService {
+  normalizeTemplate(input: any): OfferTemplateInput {
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) {
+      throw new Error(`Template name must be 1-${MAX_TEMPLATE_NAME_LENGTH} characters`);
+    }
+    const subject = typeof input.subject === 'string' && input.subject.trim() ? input.subject.trim() : null;
+    if (subject && subject.length > MAX_SUBJECT_LENGTH) {
+      throw new Error(`Subject must be at most ${MAX_SUBJECT_LENGTH} characters`);
+    }
+    const body = typeof input.body === 'string' ? input.body.trim() : '';
+    if (!body || body.length > MAX_BODY_LENGTH) {
+      throw new Error(`Template text must be 1-${MAX_BODY_LENGTH} characters`);
+    }
+    const unknown = [subject || '', body]
+      .flatMap((text: string) => Array.from(text.matchAll(MERGE_FIELD_PATTERN), match => match[1]))
+      .find(field => !(OFFER_MERGE_FIELDS as readonly string[]).includes(field));
+    if (unknown) {
+      throw new Error(`Unknown merge field {{${unknown}}}`);
+    }
+    return { name, subject, body, isDefault: !!input.isDefault };
+  }
+
+  /**
+   * Per-offer values for the merge fields. Anything not given comes from the application, job and organization.
+   */
+  mergeValuesFor(application: AirtableJobApplication, job: Job, organization: Organization, overrides: any = {}): OfferMergeValues {
+    const salary = job.salaryRange
+      || (job.salaryMin && job.salaryMax ? `$${job.salaryMin.toLocaleString()} - $${job.salaryMax.toLocaleString()}` : '');
+    const values: OfferMergeValues = {
+      candidate_name: application.applicantName || 'Candidate',
+      position: application.jobTitle || job.title,
+      company_name: organization.companyName,
+      salary,
+      start_date: '',
+      benefits: job.benefits || '',
+      manager_name: '',
+      location: job.location || '',
+      employment_type: job.employmentType || '',
+    };
+    for (const field of OFFER_MERGE_FIELDS) {
+      const value = overrides?.[field];
+      if (typeof value === 'string') {
+        values[field] = value.trim().slice(0, MAX_VALUE_LENGTH);
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Fill a template's merge fields. Benefits become a bulleted list, and a line whose fields are all empty is left out.
+   */
+  render(text: string, values: OfferMergeValues): string {
+    const fill = (field: string) => {
+      const value = values[field as OfferMergeField] || '';
+      return field === 'benefits'
+        ? value.split(/\r?\n/).map(item => item.trim().replace(/^[•-]\s*/, '')).filter(Boolean).map(item => `• ${item}`).join('\n')
+        : value;
+    };
+    return text
+      .split('\n')
+      .filter(line => {
+        const fields = Array.from(line.matchAll(MERGE_FIELD_PATTERN), match => match[1]);
+        return fields.length === 0 || fields.some(field => fill(field));
+      })
+      .map(line => line.replace(MERGE_FIELD_PATTERN, (_match, field) => fill(field)))
+      .join('\n')
+      .trim();
+  }
+
+  async listTemplates(organizationId: string): Promise<OfferTemplate[]> {
+    return await db
+      .select()
+      .from(offerTemplates)
+      .where(and(eq(offerTemplates.organizationId, organizationId), isNull(offerTemplates.archivedAt)))
+      .orderBy(desc(offerTemplates.isDefault), offerTemplates.name);
+  }
+
+  async getTemplate(templateId: number): Promise<OfferTemplate | undefined> {
+    const [template] = await db.select().from(offerTemplates).where(eq(offerTemplates.id, templateId));
+    return template;
+  }
+
+  async createTemplate(organizationId: string, userId: string, input: OfferTemplateInput): Promise<OfferTemplate> {
+    if (input.isDefault) {
+      await this.clearDefault(organizationId);
+    }
+    const [template] = await db
+      .insert(offerTemplates)
+      .values({ ...input, organizationId, createdById: userId })
+      .returning();
+    return template;
+  }
+
+  async updateTemplate(template: OfferTemplate, input: OfferTemplateInput): Promise<OfferTemplate> {
+    if (input.isDefault && !template.isDefault) {
+      await this.clearDefault(template.organizationId);
+    }
+    const [updated] = await db
+      .update(offerTemplates)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(offerTemplates.id, template.id))
+      .returning();
+    return updated;
+  }
+
+  async archiveTemplate(template: OfferTemplate): Promise<void> {
+    await db
+      .update(offerTemplates)
+      .set({ archivedAt: new Date(), isDefault: false, updatedAt: new Date() })
+      .where(eq(offerTemplates.id, template.id));
+  }
+
+  private async clearDefault(organizationId: string) {
+    await db
+      .update(offerTemplates)
+      .set({ isDefault: false, updatedAt: new Date() })
+      .where(and(eq(offerTemplates.organizationId, organizationId), eq(offerTemplates.isDefault, true)));
+  }
+
+  async getOffer(offerId: string): Promise<OfferLetter | undefined> {
+    const [offer] = await db.select().from(offerLetters).where(eq(offerLetters.id, offerId));
+    return offer;
+  }
+
+  async listForApplicant(applicantId: string): Promise<OfferLetter[]> {
+    return await db
+      .select()
+      .from(offerLetters)
+      .where(eq(offerLetters.applicantId, applicantId))
+      .orderBy(desc(offerLetters.createdAt));
+  }
+
+  async listVersions(offerId: string): Promise<Array<OfferLetterVersion & { editedByName: string }>> {
+    const versions: Array<OfferLetterVersion & { firstName: string | null; lastName: string | null; email: string | null }> = await db
+      .select({
+        id: offerLetterVersions.id,
+        offerLetterId: offerLetterVersions.offerLetterId,
+        version: offerLetterVersions.version,
+        content: offerLetterVersions.content,
+        mergeValues: offerLetterVersions.mergeValues,
+        note: offerLetterVersions.note,
+        editedById: offerLetterVersions.editedById,
+        createdAt: offerLetterVersions.createdAt,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(offerLetterVersions)
+      .leftJoin(users, eq(users.id, offerLetterVersions.editedById))
+      .where(eq(offerLetterVersions.offerLetterId, offerId))
+      .orderBy(desc(offerLetterVersions.version));
+    return versions.map(({ firstName, lastName, email, ...version }) => ({
+      ...version,
+      editedByName: [firstName, lastName].filter(Boolean).join(' ') || email || 'Unknown user',
+    }));
+  }
+
+  /**
+   * Start a draft offer from a template (or the built-in one) as version 1.
+   */
+  async createDraft(params: {
+    application: AirtableJobApplication;
+    job: Job;
+    organization: Organization;
+    template: OfferTemplate | null;
+    values: OfferMergeValues;
+    userId: string;
+  }): Promise<OfferLetter> {
+    const { application, organization, template, values, userId } = params;
+    const content = this.render(template?.body || DEFAULT_OFFER_TEMPLATE.body, values);
+    const [offer] = await db
+      .insert(offerLetters)
+      .values({
+        applicantId: application.id,
+        jobId: application.jobId,
+        organizationId: organization.id,
+        offerContent: content,
+        position: values.position || params.job.title,
+        salary: values.salary || null,
+        startDate: values.start_date || null,
+        templateId: template?.id ?? null,
+        mergeValues: values,
+        recipientEmail: application.applicantEmail || '',
+        recipientName: values.candidate_name || 'Candidate',
+        status: 'draft',
+        createdBy: userId,
+      })
+      .returning();
+    await db.insert(offerLetterVersions).values({
+      offerLetterId: offer.id,
+      version: 1,
+      content,
+      mergeValues: values,
+      note: `Created from ${template?.name || DEFAULT_OFFER_TEMPLATE.name}`,
+      editedById: userId,
+    });
+    return offer;
+  }
+
+  /**
+   * Save edited text as a new version. Editing an offer that was approved or awaiting approval sends it back to draft.
+   */
+  async saveVersion(offer: OfferLetter, content: any, userId: string, note?: any): Promise<OfferResult> {
+    if (offer.status === 'sent') {
+      return { success: false, status: 409, message: 'This offer has already been sent' };
+    }
+    if (ANSWERED_STATUSES.includes(offer.status)) {
+      return { success: false, status: 409, message: `The candidate has already ${offer.status} this offer` };
+    }
+    const text = typeof content === 'string' ? content.trim() : '';
+    if (!text || text.length > MAX_BODY_LENGTH) {
+      return { success: false, status: 400, message: `Offer text must be 1-${MAX_BODY_LENGTH} characters` };
+    }
+    if (text === offer.offerContent) {
+      return { success: true, offer };
+    }
+    return await this.commitVersion(offer, text, offer.mergeValues, userId, typeof note === 'string' ? note : null);
+  }
+
+  /**
+   * Replace the letter of an offer that may already be with the candidate, such as after a counter-offer.
+   * The revision goes back to draft and supersedes the sent version once it is sent again.
+   */
+  async revise(offer: OfferLetter, content: string, values: OfferMergeValues, userId: string, note: string): Promise<OfferResult> {
+    if (ANSWERED_STATUSES.includes(offer.status)) {
+      return { success: false, status: 409, message: `The candidate has already ${offer.status} this offer` };
+    }
+    return await this.commitVersion(offer, content, values, userId, note);
+  }
+
+  private async commitVersion(offer: OfferLetter, content: string, values: OfferMergeValues | null, userId: string, note: string | null): Promise<OfferResult> {
+    const [updated] = await db
+      .update(offerLetters)
+      .set({
+        offerContent: content,
+        mergeValues: values,
+        salary: values?.salary || null,
+        startDate: values?.start_date || null,
+        version: offer.version + 1,
+        status: 'draft',
+        approvedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(offerLetters.id, offer.id), eq(offerLetters.version, offer.version)))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: 'Someone else saved this offer. Reload to see the latest version.' };
+    }
+    await db.insert(offerLetterVersions).values({
+      offerLetterId: offer.id,
+      version: updated.version,
+      content,
+      mergeValues: values,
+      note: note?.trim() ? note.trim().slice(0, 200) : null,
+      editedById: userId,
+    });
+    return { success: true, offer: updated };
+  }
+
+  /**
+   * Merge values that must still appear word for word in an edited letter.
+   */
+  keptValues(offer: OfferLetter): string[] {
+    const values = offer.mergeValues || {};
+    return (['candidate_name', 'position', 'salary', 'start_date', 'manager_name'] as OfferMergeField[])
+      .map(field => values[field])
+      .filter((value): value is string => !!value);
+  }
+
+  async requestApproval(offer: OfferLetter, approverId: any, actorId: string, memberIds: string[], organization: Organization): Promise<OfferResult> {
+    if (offer.status !== 'draft') {
+      return { success: false, status: 409, message: this.sendBlocker(offer, organization) || 'Save a new version before requesting approval' };
+    }
+    if (typeof approverId !== 'string' || !memberIds.includes(approverId)) {
+      return { success: false, status: 400, message: 'Choose a team member to approve this offer' };
+    }
+    if (approverId === actorId) {
+      return { success: false, status: 400, message: 'Choose someone else to approve this offer' };
+    }
+
+    const now = new Date();
+    const [updated] = await db
+      .update(offerLetters)
+      .set({ status: 'pending_approval', approverId, approvalRequestedAt: now, approvedAt: null, approvalNote: null, updatedAt: now })
+      .where(and(eq(offerLetters.id, offer.id), eq(offerLetters.status, 'draft')))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: 'The offer was changed by someone else. Reload and try again.' };
+    }
+    await this.notify(approverId, updated, organization, 'requested', actorId, null);
+    return { success: true, offer: updated };
+  }
+
+  /**
+   * The chosen approver approves the offer or sends it back to draft with a note.
+   */
+  async decide(offer: OfferLetter, actorId: string, approved: boolean, note: any, organization: Organization): Promise<OfferResult> {
+    if (offer.status !== 'pending_approval') {
+      return { success: false, status: 409, message: 'This offer is not waiting for approval' };
+    }
+    if (offer.approverId !== actorId) {
+      return { success: false, status: 403, message: 'Only the chosen approver can decide this offer' };
+    }
+    const comment = typeof note === 'string' && note.trim() ? note.trim().slice(0, MAX_VALUE_LENGTH) : null;
+    if (!approved && !comment) {
+      return { success: false, status: 400, message: 'Say what needs to change' };
+    }
+
+    const now = new Date();
+    const [updated] = await db
+      .update(offerLetters)
+      .set(approved
+        ? { status: 'approved', approvedAt: now, approvalNote: comment, updatedAt: now }
+        : { status: 'draft', approvalNote: comment, updatedAt: now })
+      .where(and(eq(offerLetters.id, offer.id), eq(offerLetters.status, 'pending_approval'), eq(offerLetters.version, offer.version)))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: 'The offer was changed while you were reviewing it. Reload and try again.' };
+    }
+    if (offer.createdBy) {
+      await this.notify(offer.createdBy, updated, organization, approved ? 'approved' : 'changes_requested', actorId, comment);
+    }
+    return { success: true, offer: updated };
+  }
+
+  /**
+   * Why an offer can't be sent yet, or null when it can.
+   */
+  sendBlocker(offer: OfferLetter, organization: Organization): string | null {
+    if (offer.status === 'sent') {
+      return 'This offer has already been sent';
+    }
+    if (ANSWERED_STATUSES.includes(offer.status)) {
+      return `The candidate has already ${offer.status} this offer`;
+    }
+    if (offer.status === 'expired') {
+      return 'This offer expired. Extend the deadline or revise it to send again.';
+    }
+    if (offer.status === 'changes_requested') {
+      return 'The candidate asked for changes. Save a new version before sending it again.';
+    }
+    if (offer.status === 'pending_approval') {
+      return 'This offer is waiting for approval';
+    }
+    if (organization.offerApprovalRequired && offer.status !== 'approved') {
+      return 'Offers must be approved before sending. Request approval first.';
+    }
+    return null;
+  }
+
+  /**
+   * Response deadline from a request body: an ISO date or datetime in the future, or empty for none.
+   */
+  normalizeExpiry(value: any): Date | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    const expiresAt = typeof value === 'string' ? new Date(value) : null;
+    if (!expiresAt || isNaN(expiresAt.getTime())) {
+      throw new Error('Response deadline must be a valid date');
+    }
+    const now = Date.now();
+    if (expiresAt.getTime() <= now + HOUR_MS) {
+      throw new Error('Response deadline must be in the future');
+    }
+    if (expiresAt.getTime() > now + MAX_RESPONSE_DAYS * 24 * HOUR_MS) {
+      throw new Error(`Response deadline must be within ${MAX_RESPONSE_DAYS} days`);
+    }
+    return expiresAt;
+  }
+
+  // Reminders whose time has already come, so an offer sent close to its deadline isn't reminded straight away
+  private remindersDue(expiresAt: Date | null, at: Date): number {
+    if (!expiresAt) {
+      return 0;
+    }
+    return REMINDER_HOURS_BEFORE_EXPIRY.filter(hours => expiresAt.getTime() - at.getTime() <= hours * HOUR_MS).length;
+  }
+
+  /**
+   * Mark the offer sent and issue its response link. A resent offer keeps the link the candidate already has.
+   */
+  async markSent(offer: OfferLetter, userId: string, expiresAt: Date | null): Promise<OfferLetter | undefined> {
+    const now = new Date();
+    const [sent] = await db
+      .update(offerLetters)
+      .set({
+        status: 'sent',
+        sentAt: now,
+        sentBy: userId,
+        responseToken: offer.responseToken || crypto.randomBytes(24).toString('hex'),
+        respondedAt: null,
+        responseNote: null,
+        expiresAt,
+        remindersSent: this.remindersDue(expiresAt, now),
+        updatedAt: now,
+      })
+      .where(and(eq(offerLetters.id, offer.id), eq(offerLetters.status, offer.status)))
+      .returning();
+    return sent;
+  }
+
+  /**
+   * Move or clear the deadline of an offer the candidate hasn't answered. Extending an expired offer reopens it.
+   */
+  async setExpiry(offer: OfferLetter, expiresAt: Date | null): Promise<OfferResult> {
+    if (offer.status !== 'sent' && offer.status !== 'expired') {
+      return { success: false, status: 409, message: 'Only offers waiting for the candidate have a deadline' };
+    }
+    const now = new Date();
+    const [updated] = await db
+      .update(offerLetters)
+      .set({ status: 'sent', expiresAt, remindersSent: this.remindersDue(expiresAt, now), updatedAt: now })
+      .where(and(eq(offerLetters.id, offer.id), eq(offerLetters.status, offer.status)))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: 'The offer was changed by someone else. Reload and try again.' };
+    }
+    return { success: true, offer: updated };
+  }
+
+  /**
+   * Periodic pass over sent offers: expire those past their deadline and remind candidates as it approaches.
+   */
+  async runDeadlines(now: Date = new Date()): Promise<{ reminded: number; expired: number }> {
+    const expired: OfferLetter[] = await db
+      .update(offerLetters)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(eq(offerLetters.status, 'sent'), lte(offerLetters.expiresAt, now)))
+      .returning();
+    for (const offer of expired) {
+      await applicantEventService.record({
+        applicationId: offer.applicantId,
+        organizationId: offer.organizationId,
+        action: 'offer_expired',
+        before: { status: 'sent' },
+        after: { status: 'expired' },
+        metadata: { offerLetterId: offer.id, version: offer.version, expiresAt: offer.expiresAt },
+      });
+      await this.notifyResponse(offer, await storage.getOrganizationById(offer.organizationId));
+    }
+
+    const horizon = new Date(now.getTime() + Math.max(...REMINDER_HOURS_BEFORE_EXPIRY) * HOUR_MS);
+    const upcoming: OfferLetter[] = await db
+      .select()
+      .from(offerLetters)
+      .where(and(eq(offerLetters.status, 'sent'), isNotNull(offerLetters.expiresAt), gt(offerLetters.expiresAt, now), lte(offerLetters.expiresAt, horizon)));
+    let reminded = 0;
+    for (const offer of upcoming) {
+      const due = this.remindersDue(offer.expiresAt, now);
+      if (due <= offer.remindersSent) {
+        continue;
+      }
+      // Claim the reminder so overlapping runs send it once
+      const [claimed] = await db
+        .update(offerLetters)
+        .set({ remindersSent: due })
+        .where(and(eq(offerLetters.id, offer.id), eq(offerLetters.remindersSent, offer.remindersSent), eq(offerLetters.status, 'sent')))
+        .returning();
+      if (!claimed || !offer.recipientEmail) {
+        continue;
+      }
+      const organization = await storage.getOrganizationById(offer.organizationId);
+      const sent = await emailService.sendOfferReminderEmail({
+        recipientEmail: offer.recipientEmail,
+        recipientName: offer.recipientName,
+        companyName: organization?.companyName || '',
+        position: offer.position,
+        expiresAt: offer.expiresAt!,
+        responseUrl: this.responseUrl(offer)!,
+      });
+      if (sent) {
+        reminded++;
+      }
+    }
+    return { reminded, expired: expired.length };
+  }
+
+  responseUrl(offer: OfferLetter): string | null {
+    return offer.responseToken ? `${getAppBaseUrl()}/offers/${offer.responseToken}` : null;
+  }
+
+  /**
+   * SHA-256 of the letter text, stamped on the signature so the signed wording can be verified later.
+   */
+  documentHash(content: string): string {
+    return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+  }
+
+  async getByResponseToken(token: string): Promise<OfferLetter | undefined> {
+    const [offer] = await db.select().from(offerLetters).where(eq(offerLetters.responseToken, token));
+    return offer;
+  }
+
+  // The letter is hidden from the candidate while the team is revising it
+  visibleToCandidate(offer: OfferLetter): boolean {
+    return offer.status === 'sent' || offer.status === 'changes_requested' || offer.status === 'expired' || ANSWERED_STATUSES.includes(offer.status);
+  }
+
+  /**
+   * What the candidate sees on the public offer page.
+   */
+  publicView(offer: OfferLetter, organization: Organization | undefined) {
+    const visible = this.visibleToCandidate(offer);
+    return {
+      candidateName: offer.recipientName,
+      position: offer.position,
+      companyName: organization?.companyName || null,
+      status: visible ? offer.status : 'revising',
+      content: visible ? offer.offerContent : null,
+      documentHash: visible ? this.documentHash(offer.offerContent) : null,
+      sentAt: offer.sentAt,
+      expiresAt: offer.expiresAt,
+      respondedAt: offer.respondedAt,
+      responseNote: offer.responseNote,
+      signerName: offer.signerName,
+      signedAt: offer.signedAt,
+    };
+  }
+
+  /**
+   * The candidate accepts with a signature, declines, or asks for changes. Accepting must name the exact text
+   * they read (by its hash) so a letter changed in the meantime can't be signed by accident.
+   */
+  async respond(offer: OfferLetter, input: OfferResponseInput, signerIp: string | null): Promise<OfferResult> {
+    if (offer.status === 'expired' || (offer.status === 'sent' && offer.expiresAt && offer.expiresAt <= new Date())) {
+      return { success: false, status: 409, message: 'This offer has expired. Please contact the hiring team.' };
+    }
+    if (offer.status !== 'sent') {
+      return {
+        success: false,
+        status: 409,
+        message: ANSWERED_STATUSES.includes(offer.status) || offer.status === 'changes_requested'
+          ? 'You have already responded to this offer'
+          : 'This offer is being updated. You will receive the new version by email.',
+      };
+    }
+    const action = input.action as OfferResponseAction;
+    if (!['accept', 'decline', 'request_changes'].includes(action)) {
+      return { success: false, status: 400, message: 'Choose to accept, decline or request changes' };
+    }
+    const reason = typeof input.reason === 'string' && input.reason.trim() ? input.reason.trim().slice(0, MAX_VALUE_LENGTH) : null;
+    if (action === 'request_changes' && !reason) {
+      return { success: false, status: 400, message: 'Say what you would like changed' };
+    }
+
+    const now = new Date();
+    let changes: Partial<OfferLetter>;
+    if (action === 'accept') {
+      const signerName = typeof input.signerName === 'string' ? input.signerName.trim() : '';
+      if (!signerName || signerName.length > MAX_SIGNER_NAME_LENGTH) {
+        return { success: false, status: 400, message: 'Type your full name to sign' };
+      }
+      const image = typeof input.signatureImage === 'string' && input.signatureImage ? input.signatureImage : null;
+      if (image && (!image.startsWith('data:image/jpeg;base64,') || image.length > MAX_SIGNATURE_IMAGE_LENGTH)) {
+        return { success: false, status: 400, message: 'The drawn signature could not be read. Please draw it again.' };
+      }
+      const documentHash = this.documentHash(offer.offerContent);
+      if (input.documentHash !== documentHash) {
+        return { success: false, status: 409, message: 'This offer has changed since you opened it. Reload the page to read the latest version.' };
+      }
+      changes = {
+        status: 'accepted',
+        signerName,
+        signatureType: image ? 'drawn' : 'typed',
+        signatureImage: image,
+        signerIp,
+        signedAt: now,
+        documentHash,
+        responseNote: reason,
+      };
+    } else {
+      changes = { status: action === 'decline' ? 'declined' : 'changes_requested', responseNote: reason };
+    }
+
+    const [updated] = await db
+      .update(offerLetters)
+      .set({ ...changes, respondedAt: now, updatedAt: now })
+      .where(and(eq(offerLetters.id, offer.id), eq(offerLetters.status, 'sent')))
+      .returning();
+    if (!updated) {
+      return { success: false, status: 409, message: 'You have already responded to this offer' };
+    }
+    return { success: true, offer: updated };
+  }
+
+  /**
+   * The letter as a PDF, carrying the signature block once it has been accepted.
+   */
+  async renderPdf(offer: OfferLetter, organization: Organization | undefined): Promise<Buffer> {
+    return await offerPdfService.render({
+      companyName: organization?.companyName || 'Offer Letter',
+      position: offer.position,
+      candidateName: offer.recipientName,
+      content: offer.offerContent,
+      signature: offer.status === 'accepted' && offer.signerName && offer.signedAt && offer.documentHash
+        ? {
+            name: offer.signerName,
+            type: offer.signatureType || 'typed',
+            image: offer.signatureImage,
+            signedAt: offer.signedAt,
+            ip: offer.signerIp,
+            documentHash: offer.documentHash,
+          }
+        : null,
+    });
+  }
+
+  pdfFileName(offer: OfferLetter): string {
+    const name = `${offer.recipientName} ${offer.position} offer${offer.status === 'accepted' ? ' signed' : ''}`;
+    return `${name.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'offer'}.pdf`;
+  }
+
+  /**
+   * Tell whoever sent the offer how the candidate responded (or that the deadline passed), attaching the signed PDF on acceptance.
+   */
+  async notifyResponse(offer: OfferLetter, organization: Organization | undefined) {
+    try {
+      const senderId = offer.sentBy || offer.createdBy;
+      if (!senderId || !['accepted', 'declined', 'changes_requested', 'expired'].includes(offer.status)) {
+        return;
+      }
+      const [sender] = await db
+        .select({ firstName: users.firstName, lastName: users.lastName, email: users.email })
+        .from(users)
+        .where(eq(users.id, senderId));
+      if (!sender?.email) {
+        return;
+      }
+      await emailService.sendOfferResponseNotification({
+        recipientEmail: sender.email,
+        recipientName: [sender.firstName, sender.lastName].filter(Boolean).join(' ') || sender.email,
+        response: offer.status as 'accepted' | 'declined' | 'changes_requested' | 'expired',
+        candidateName: offer.recipientName,
+        position: offer.position,
+        companyName: organization?.companyName || '',
+        note: offer.responseNote,
+        reviewUrl: `${getAppBaseUrl()}/hiring/applicants/shortlisted`,
+        signedPdf: offer.status === 'accepted'
+          ? { fileName: this.pdfFileName(offer), content: await this.renderPdf(offer, organization) }
+          : undefined,
+      });
+    } catch (error) {
+      console.error(`Error sending offer response notification for offer ${offer.id}:`, error);
+    }
+  }
+
+  // Best effort; a failed email never blocks the approval itself
+  private async notify(
+    recipientId: string,
+    offer: OfferLetter,
+    organization: Organization,
+    kind: 'requested' | 'approved' | 'changes_requested',
+    actorId: string,
+    note: string | null
+  ) {
+    try {
+      const people = await db
+        .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email })
+        .from(users)
+        .where(inArray(users.id, [recipientId, actorId]));
+      const nameOf = (person: { firstName: string | null; lastName: string | null; email: string }) =>
+        [person.firstName, person.lastName].filter(Boolean).join(' ') || person.email;
+      const recipient = people.find((person: { id: string }) => person.id === recipientId);
+      const actor = people.find((person: { id: string }) => person.id === actorId);
+      if (!recipient?.email) {
+        return;
+      }
+      await emailService.sendOfferApprovalNotification({
+        recipientEmail: recipient.email,
+        recipientName: nameOf(recipient),
+        kind,
+        actorName: actor ? nameOf(actor) : 'A team member',
+        candidateName: offer.recipientName,
+        position: offer.position,
+        companyName: organization.companyName,
+        note,
+        reviewUrl: `${getAppBaseUrl()}/hiring/applicants/shortlisted`,
+      });
+    } catch (error) {
+      console.error(`Error sending offer approval notification for offer ${offer.id}:`, error);
+    }
+  }
+}
+
+export const offerLetterService = new OfferLetterService();
@@ -0,0 +1,161 @@
+import { db } from '../db';
+import {
+  offerNegotiationEntries,
+  users,
+  OFFER_NEGOTIABLE_FIELDS,
+  type OfferLetter,
+  type OfferMergeValues,
+  type OfferNegotiationEntry,
+  type OfferNegotiationSource,
+  type OfferTermChanges,
+} from '@shared/schema';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { offerLetterService, DEFAULT_OFFER_TEMPLATE, type OfferResult } from './offerLetterService';
+
+const MAX_NOTE_LENGTH = 2000;
+const MAX_VALUE_LENGTH = 2000;
+
+// Offers that are with the candidate, or have come back from them, can be negotiated
+const NEGOTIABLE_STATUSES = ['sent', 'changes_requested', 'expired', 'draft', 'pending_approval', 'approved'];
+
+const FIELD_LABELS: Record<string, string> = { salary: 'salary', start_date: 'start date', benefits: 'benefits' };
+
+export interface NegotiationEntryInput {
+  source: OfferNegotiationSource;
+  changes: OfferTermChanges;
+  note: string | null;
+}
+
+export type NegotiationResult =
+  | { success: true; entry: OfferNegotiationEntry }
+  | { success: false; status: 400 | 409; message: string };
+
+class OfferNegotiationService {
+  /**
+   * Proposed terms from a request body, recorded as changes from the offer's current values.
+   */
+  normalizeEntry(input: any, offer: OfferLetter): NegotiationEntryInput {
+    const source = input?.source;
+    if (source !== 'candidate' && source !== 'company') {
+      throw new Error('Say whether the candidate or the company proposed these terms');
+    }
+    const current = offer.mergeValues || {};
+    const changes: OfferTermChanges = {};
+    for (const field of OFFER_NEGOTIABLE_FIELDS) {
+      const value = input.terms?.[field];
+      if (typeof value !== 'string') {
+        continue;
+      }
+      const to = value.trim().slice(0, MAX_VALUE_LENGTH);
+      const from = current[field] || '';
+      if (to && to !== from) {
+        changes[field] = { from, to };
+      }
+    }
+    const note = typeof input.note === 'string' && input.note.trim() ? input.note.trim().slice(0, MAX_NOTE_LENGTH) : null;
+    if (Object.keys(changes).length === 0 && !note) {
+      throw new Error('Enter the proposed terms or a note');
+    }
+    return { source, changes, note };
+  }
+
+  async list(offerId: string): Promise<Array<OfferNegotiationEntry & { createdByName: string | null }>> {
+    const entries: Array<OfferNegotiationEntry & { firstName: string | null; lastName: string | null; email: string | null }> = await db
+      .select({
+        id: offerNegotiationEntries.id,
+        offerLetterId: offerNegotiationEntries.offerLetterId,
+        source: offerNegotiationEntries.source,
+        changes: offerNegotiationEntries.changes,
+        note: offerNegotiationEntries.note,
+        offerVersion: offerNegotiationEntries.offerVersion,
+        revisedVersion: offerNegotiationEntries.revisedVersion,
+        createdById: offerNegotiationEntries.createdById,
+        createdAt: offerNegotiationEntries.createdAt,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(offerNegotiationEntries)
+      .leftJoin(users, eq(users.id, offerNegotiationEntries.createdById))
+      .where(eq(offerNegotiationEntries.offerLetterId, offerId))
+      .orderBy(desc(offerNegotiationEntries.createdAt));
+    return entries.map(({ firstName, lastName, email, ...entry }) => ({
+      ...entry,
+      createdByName: entry.createdById ? [firstName, lastName].filter(Boolean).join(' ') || email || 'Unknown user' : null,
+    }));
+  }
+
+  async getEntry(entryId: number): Promise<OfferNegotiationEntry | undefined> {
+    const [entry] = await db.select().from(offerNegotiationEntries).where(eq(offerNegotiationEntries.id, entryId));
+    return entry;
+  }
+
+  /**
+   * Add to the offer's negotiation thread. `userId` is null when the candidate asked through the offer page.
+   */
+  async log(offer: OfferLetter, input: NegotiationEntryInput, userId: string | null): Promise<NegotiationResult> {
+    if (!offer.sentAt || !NEGOTIABLE_STATUSES.includes(offer.status)) {
+      return {
+        success: false,
+        status: 409,
+        message: offer.sentAt ? `The candidate has already ${offer.status} this offer` : 'Send the offer before logging counter-offers',
+      };
+    }
+    const [entry] = await db
+      .insert(offerNegotiationEntries)
+      .values({
+        offerLetterId: offer.id,
+        source: input.source,
+        changes: input.changes,
+        note: input.note,
+        offerVersion: offer.version,
+        createdById: userId,
+      })
+      .returning();
+    return { success: true, entry };
+  }
+
+  /**
+   * Write a revised letter with the entry's proposed terms as a new version of the offer. Edits made to the
+   * letter by hand are kept where the old values can be found in it; otherwise the letter is rebuilt from its template.
+   */
+  async revise(entry: OfferNegotiationEntry, offer: OfferLetter, userId: string): Promise<OfferResult> {
+    if (entry.revisedVersion) {
+      return { success: false, status: 409, message: `Version ${entry.revisedVersion} was already generated from these terms` };
+    }
+    const fields = OFFER_NEGOTIABLE_FIELDS.filter(field => entry.changes[field]);
+    if (fields.length === 0) {
+      return { success: false, status: 400, message: 'This entry has no terms to apply. Edit the letter instead.' };
+    }
+
+    const current: OfferMergeValues = offer.mergeValues || {};
+    const values: OfferMergeValues = { ...current };
+    for (const field of fields) {
+      values[field] = entry.changes[field]!.to;
+    }
+
+    let content = offer.offerContent;
+    for (const field of fields) {
+      const before = offerLetterService.render(`{{${field}}}`, current);
+      const after = offerLetterService.render(`{{${field}}}`, values);
+      if (!before || !content.includes(before)) {
+        const template = offer.templateId ? await offerLetterService.getTemplate(offer.templateId) : undefined;
+        content = offerLetterService.render(template?.body || DEFAULT_OFFER_TEMPLATE.body, values);
+        break;
+      }
+      content = content.split(before).join(after);
+    }
+
+    const summary = fields.map(field => FIELD_LABELS[field]).join(', ');
+    const result = await offerLetterService.revise(offer, content, values, userId, `Revised ${summary} after ${entry.source} counter-offer`);
+    if (result.success) {
+      await db
+        .update(offerNegotiationEntries)
+        .set({ revisedVersion: result.offer.version })
+        .where(and(eq(offerNegotiationEntries.id, entry.id), isNull(offerNegotiationEntries.revisedVersion)));
+    }
+    return result;
+  }
+}
+
+export const offerNegotiationService = new OfferNegotiationService();
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { offerPdfService } from './offerPdfService';
+import { textExtractionService } from './textExtractionService';
+
+const ARABIC_OFFER = {
+  companyName: 'شركة النور للتقنية',
+  position: 'مهندسة برمجيات أولى',
+  candidateName: 'ليلى حسن',
+  content: 'عزيزتي ليلى،\n\nيسعدنا أن نعرض عليك وظيفة مهندسة برمجيات براتب شهري قدره 45000 جنيه.\nStart date: 1 May 2025',
+};
+
+async function textOf(pdf: Buffer): Promise<string> {
+  const result = await textExtractionService.extractLocally(pdf, 'application/pdf');
+  assert.ok(result, 'the PDF has extractable text');
+  return result.text;
+}
+
+test('an Arabic offer round-trips through the PDF', async () => {
+  const pdf = await offerPdfService.render(ARABIC_OFFER);
+  assert.equal(pdf.subarray(0, 5).toString(), '%PDF-');
+  // The font travels with the document instead of relying on the reader's built-in fonts
+  assert.match(pdf.toString('latin1'), /\/FontFile2/);
+
+  const text = await textOf(pdf);
+  for (const expected of ['شركة النور للتقنية', 'مهندسة برمجيات أولى', 'عزيزتي ليلى', 'براتب شهري قدره 45000 جنيه', 'Start date: 1 May 2025', 'Page 1 of 1']) {
+    assert.ok(text.includes(expected), `missing "${expected}" in ${JSON.stringify(text)}`);
+  }
+  assert.ok(!text.includes('?'));
+});
+
+test('signed offers carry the signature block', async () => {
+  const pdf = await offerPdfService.render({
+    ...ARABIC_OFFER,
+    signature: {
+      name: 'ليلى حسن',
+      type: 'typed',
+      image: null,
+      signedAt: new Date('2025-04-01T09:30:00Z'),
+      ip: '203.0.113.7',
+      documentHash: 'a'.repeat(64),
+    },
+  });
+
+  const text = await textOf(pdf);
+  assert.ok(text.includes('Accepted and signed electronically'));
+  assert.ok(text.includes('Signed by: ليلى حسن'));
+  assert.ok(text.includes('Signed at: 2025-04-01T09:30:00.000Z'));
+  assert.ok(text.includes('IP address: 203.0.113.7'));
+  assert.ok(text.includes(`Document SHA-256: ${'a'.repeat(64)}`));
+});
+
+test('long letters flow onto numbered pages', async () => {
+  const pdf = await offerPdfService.render({
+    companyName: 'Acme',
+    position: 'Engineer',
+    candidateName: 'Sam Lee',
+    content: Array.from({ length: 120 }, (_, index) => `Clause ${index + 1}`).join('\n'),
+  });
+
+  const text = await textOf(pdf);
+  assert.ok(text.includes('Clause 120'));
+  assert.match(text, /Page 1 of (\d+)/);
+  assert.ok(Number(text.match(/Page 1 of (\d+)/)![1]) > 1);
+});
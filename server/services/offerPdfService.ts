@@ -0,0 +1,156 @@
+import { createRequire } from 'module';
+import { createElement as h, type ReactElement } from 'react';
+import { Document, Font, Image, Page, StyleSheet, Text, View, renderToBuffer } from '@react-pdf/renderer';
+import type { OfferSignatureType } from '@shared/schema';
+
+const fontPath = (file: string) => createRequire(import.meta.url).resolve(`dejavu-fonts-ttf/ttf/${file}`);
+
+// Letters are not hyphenated; words only break when they are wider than the line
+Font.registerHyphenationCallback(word => [word]);
+
+// Arabic, Hebrew, Syriac, Thaana and N'Ko letters, plus the Hebrew and Arabic presentation forms
+const RTL_PATTERN = /[\u0590-\u07FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LTR_PATTERN = /[A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF]/;
+
+const styles = StyleSheet.create({
+  page: { paddingTop: 72, paddingBottom: 72, paddingHorizontal: 72, fontSize: 11 },
+  // On the content rather than the page: an inherited line height hides the page number footer
+  body: { lineHeight: 1.4 },
+  company: { fontSize: 16, fontWeight: 'bold' },
+  subtitle: { marginBottom: 18 },
+  blank: { height: 8 },
+  signatureBlock: { marginTop: 28, paddingTop: 6, borderTopWidth: 0.5, borderTopColor: '#cccccc' },
+  signatureHeading: { fontSize: 12, fontWeight: 'bold', marginBottom: 6 },
+  signatureImage: { maxWidth: 200, maxHeight: 60, objectFit: 'contain', objectPosition: 'left' },
+  typedSignature: { fontSize: 22 },
+  details: { marginTop: 8, fontSize: 9 },
+  hash: { fontSize: 8 },
+  footer: { position: 'absolute', bottom: 32, left: 72, right: 72, fontSize: 8, color: '#808080', textAlign: 'right' },
+});
+
+export interface OfferPdfSignature {
+  name: string;
+  type: OfferSignatureType;
+  image: string | null; // JPEG data URL for drawn signatures
+  signedAt: Date;
+  ip: string | null;
+  documentHash: string;
+}
+
+interface OfferFonts {
+  body: string;
+  signature: string;
+}
+
+export interface OfferPdfInput {
+  companyName: string;
+  position: string;
+  candidateName: string;
+  content: string;
+  signature?: OfferPdfSignature | null;
+}
+
+/**
+ * Writes offer letters as PDFs with an embedded Unicode font, so letters in Arabic and other non-Latin
+ * scripts print as written. Right-to-left paragraphs are right-aligned.
+ */
+class OfferPdfService {
+  private renders = 0;
+
+  async render(input: OfferPdfInput): Promise<Buffer> {
+    const fonts = this.registerFonts();
+    try {
+      return await renderToBuffer(this.document(input, fonts) as ReactElement<any>);
+    } finally {
+      fonts.release();
+    }
+  }
+
+  /**
+   * DejaVu Sans covers Latin, Greek, Cyrillic, Arabic and Hebrew. Its oblique face has no Arabic or Hebrew,
+   * so typed signatures in those scripts use the upright face. Each document loads its own copy: glyphs are
+   * cached on the loaded font and embedding one document changes them, which breaks right-to-left layout
+   * in the next document that reuses them.
+   */
+  private registerFonts(): OfferFonts & { release: () => void } {
+    const id = ++this.renders;
+    const fonts = { body: `OfferSans-${id}`, signature: `OfferSignature-${id}` };
+    Font.register({
+      family: fonts.body,
+      fonts: [
+        { src: fontPath('DejaVuSans.ttf') },
+        { src: fontPath('DejaVuSans-Bold.ttf'), fontWeight: 'bold' },
+      ],
+    });
+    Font.register({ family: fonts.signature, src: fontPath('DejaVuSans-Oblique.ttf') });
+    return {
+      ...fonts,
+      release: () => {
+        const registered = Font.getRegisteredFonts();
+        delete registered[fonts.body];
+        delete registered[fonts.signature];
+      },
+    };
+  }
+
+  private document(input: OfferPdfInput, fonts: OfferFonts): ReactElement {
+    const paragraphs = input.content.replace(/\r\n/g, '\n').split('\n').map((line, index) => line.trim()
+      ? h(Text, { key: index, style: this.isRtl(line) ? { textAlign: 'right', direction: 'rtl' } : {} }, line.replace(/\t/g, '    '))
+      : h(View, { key: index, style: styles.blank }));
+
+    return h(Document, {
+      title: `Offer letter: ${input.position} - ${input.candidateName}`,
+      producer: 'Plato Hiring',
+      creator: 'Plato Hiring',
+      creationDate: input.signature?.signedAt || new Date(),
+    }, h(Page, { size: 'LETTER', style: [styles.page, { fontFamily: fonts.body }] },
+      h(View, { style: styles.body },
+        h(Text, { style: [styles.company, this.align(input.companyName)] }, input.companyName),
+        h(Text, { style: styles.subtitle }, `Offer of employment: ${input.position}`),
+        ...paragraphs,
+        input.signature ? this.signatureBlock(input.signature, fonts) : null,
+      ),
+      h(Text, {
+        style: styles.footer,
+        fixed: true,
+        render: ({ pageNumber, totalPages }: { pageNumber: number; totalPages: number }) => `Page ${pageNumber} of ${totalPages}`,
+      }),
+    ));
+  }
+
+  private signatureBlock(signature: OfferPdfSignature, fonts: OfferFonts): ReactElement {
+    const image = signature.image ? this.jpegData(signature.image) : null;
+    return h(View, { style: styles.signatureBlock, wrap: false },
+      h(Text, { style: styles.signatureHeading }, 'Accepted and signed electronically'),
+      image
+        ? h(Image, { style: styles.signatureImage, src: { data: image, format: 'jpg' } })
+        : h(Text, {
+          style: [styles.typedSignature, this.isRtl(signature.name) ? { fontFamily: fonts.body, textAlign: 'right' as const } : { fontFamily: fonts.signature }],
+        }, signature.name),
+      h(View, { style: styles.details },
+        h(Text, null, `Signed by: ${signature.name}`),
+        h(Text, null, `Signed at: ${signature.signedAt.toISOString()}`),
+        signature.ip ? h(Text, null, `IP address: ${signature.ip}`) : null,
+        h(Text, { style: styles.hash }, `Document SHA-256: ${signature.documentHash}`),
+      ),
+    );
+  }
+
+  // Direction of a line from its first strong character
+  private isRtl(text: string): boolean {
+    const rtl = text.search(RTL_PATTERN);
+    const ltr = text.search(LTR_PATTERN);
+    return rtl >= 0 && (ltr < 0 || rtl < ltr);
+  }
+
+  private align(text: string) {
+    return this.isRtl(text) ? { textAlign: 'right' as const } : {};
+  }
+
+  private jpegData(dataUrl: string): Buffer | null {
+    const match = /^data:image\/jpeg;base64,(.+)$/.exec(dataUrl);
+    return match ? Buffer.from(match[1], 'base64') : null;
+  }
+}
+
+export const offerPdfService = new OfferPdfService();
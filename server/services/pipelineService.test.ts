@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pipelineService, DEFAULT_PIPELINE_STAGES } from './pipelineService';
+
+const MINIMAL = [
+  { key: 'applied', name: 'Applied' },
+  { key: 'hired', name: 'Hired', category: 'hired' },
+  { key: 'rejected', name: 'Rejected', category: 'rejected' },
+];
+
+function errorOf(input: any): string | undefined {
+  const result = pipelineService.validateStages(input);
+  return 'error' in result ? result.error : undefined;
+}
+
+test('the default pipeline is valid', () => {
+  assert.deepEqual(pipelineService.validateStages(DEFAULT_PIPELINE_STAGES), { stages: DEFAULT_PIPELINE_STAGES });
+});
+
+test('stages are cleaned and terminal stages carry the matching status', () => {
+  const result = pipelineService.validateStages([
+    { key: ' applied ', name: ' New ', applicationStatus: 'accepted', color: '' },
+    { key: 'phone_screen', name: 'Phone screen', applicationStatus: 'shortlisted', allowedTransitions: ['hired', 'rejected', 'hired'], color: '#3B82F6' },
+    { key: 'hired', name: 'Hired', category: 'hired', applicationStatus: 'applied' },
+    { key: 'rejected', name: 'Rejected', category: 'rejected' },
+  ]);
+  assert.ok('stages' in result);
+
+  assert.deepEqual(result.stages[0], {
+    key: 'applied', name: 'New', category: 'active', applicationStatus: 'applied', allowedTransitions: null, color: null,
+  });
+  assert.equal(result.stages[1].applicationStatus, 'shortlisted');
+  assert.deepEqual(result.stages[1].allowedTransitions, ['hired', 'rejected']);
+  assert.equal(result.stages[2].applicationStatus, 'accepted');
+  assert.equal(result.stages[3].applicationStatus, 'denied');
+});
+
+test('empty and malformed stage lists are rejected', () => {
+  assert.equal(errorOf([]), 'At least one stage is required');
+  assert.equal(errorOf({ stages: MINIMAL }), 'At least one stage is required');
+  assert.match(errorOf([{ key: 'Applied', name: 'Applied' }, ...MINIMAL.slice(1)])!, /Invalid stage key "Applied"/);
+  assert.equal(errorOf([{ key: 'applied', name: ' ' }, ...MINIMAL.slice(1)]), 'Stage "applied" needs a name');
+  assert.equal(errorOf([...MINIMAL, { key: 'hired', name: 'Hired again', category: 'hired' }]), 'Duplicate stage key "hired"');
+  assert.equal(errorOf([...MINIMAL, { key: 'archived', name: 'Archived', category: 'closed' }]), 'Invalid category for stage "archived"');
+});
+
+test('the pipeline starts active and has hired and rejected stages', () => {
+  assert.equal(errorOf([MINIMAL[1], MINIMAL[0], MINIMAL[2]]), 'The first stage must be an active stage');
+  assert.equal(errorOf(MINIMAL.slice(0, 2)), 'The pipeline needs a rejected stage');
+  assert.equal(errorOf([MINIMAL[0], MINIMAL[2]]), 'The pipeline needs a hired stage');
+});
+
+test('transitions must point at other existing stages', () => {
+  const withTransitions = (allowedTransitions: string[]) => [{ ...MINIMAL[0], allowedTransitions }, ...MINIMAL.slice(1)];
+
+  assert.equal(errorOf(withTransitions(['offer'])), 'Stage "applied" lists an invalid transition to "offer"');
+  assert.equal(errorOf(withTransitions(['applied'])), 'Stage "applied" lists an invalid transition to "applied"');
+  assert.equal(errorOf(withTransitions(['hired', 'rejected'])), undefined);
+});
+
+test('legacy status spellings normalize to the canonical status', () => {
+  assert.equal(pipelineService.normalizeStatus(' Declined '), 'denied');
+  assert.equal(pipelineService.normalizeStatus(null), 'applied');
+  assert.equal(pipelineService.normalizeStatus('On Hold'), 'on hold');
+  assert.deepEqual(pipelineService.statusAliases('hired'), ['accepted', 'hired']);
+});
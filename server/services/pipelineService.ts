@@ -0,0 +1,449 @@
+import { db, type DbTransaction } from '../db';
+import {
+  pipelineStages,
+  applicationStageHistory,
+  airtableJobApplications,
+  jobs,
+  type AirtableJobApplication,
+  type ApplicationStageHistory,
+  type PipelineStage,
+} from '@shared/schema';
+import { eq, and, isNull, inArray, desc, sql } from 'drizzle-orm';
+import { applicantEventService } from './applicantEventService';
+
+export type StageCategory = 'active' | 'hired' | 'rejected';
+
+// Canonical values of airtableJobApplications.status
+export type ApplicationStatus = 'applied' | 'shortlisted' | 'accepted' | 'denied';
+
+export interface StageDefinition {
+  key: string;
+  name: string;
+  category: StageCategory;
+  applicationStatus: ApplicationStatus;
+  allowedTransitions: string[] | null;
+  color: string | null;
+}
+
+export type TransitionResult =
+  | { success: true; application: AirtableJobApplication; fromStage: string | null; toStage: string; changed: boolean }
+  | { success: false; status: 400 | 404 | 409; message: string };
+
+export const DEFAULT_PIPELINE_STAGES: StageDefinition[] = [
+  { key: 'applied', name: 'Applied', category: 'active', applicationStatus: 'applied', allowedTransitions: null, color: '#64748B' },
+  { key: 'screened', name: 'Screened', category: 'active', applicationStatus: 'applied', allowedTransitions: null, color: '#3B82F6' },
+  { key: 'ai_interview', name: 'AI Interview', category: 'active', applicationStatus: 'applied', allowedTransitions: null, color: '#8B5CF6' },
+  { key: 'shortlisted', name: 'Shortlisted', category: 'active', applicationStatus: 'shortlisted', allowedTransitions: null, color: '#06B6D4' },
+  { key: 'onsite', name: 'Onsite', category: 'active', applicationStatus: 'shortlisted', allowedTransitions: null, color: '#F59E0B' },
+  { key: 'offer', name: 'Offer', category: 'active', applicationStatus: 'shortlisted', allowedTransitions: null, color: '#EC4899' },
+  { key: 'hired', name: 'Hired', category: 'hired', applicationStatus: 'accepted', allowedTransitions: null, color: '#10B981' },
+  { key: 'rejected', name: 'Rejected', category: 'rejected', applicationStatus: 'denied', allowedTransitions: null, color: '#EF4444' },
+];
+
+const STAGE_CATEGORIES: StageCategory[] = ['active', 'hired', 'rejected'];
+
+// Spellings written by older routes, keyed by the canonical status they stand for
+const STATUS_ALIASES: Record<ApplicationStatus, string[]> = {
+  applied: ['applied', 'pending', 'new'],
+  shortlisted: ['shortlisted'],
+  accepted: ['accepted', 'hired'],
+  denied: ['denied', 'declined', 'rejected'],
+};
+
+const APPLICATION_STATUSES = Object.keys(STATUS_ALIASES) as ApplicationStatus[];
+
+const STAGE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+function toDefinition(stage: PipelineStage): StageDefinition {
+  return {
+    key: stage.key,
+    name: stage.name,
+    category: stage.category as StageCategory,
+    applicationStatus: stage.applicationStatus as ApplicationStatus,
+    allowedTransitions: stage.allowedTransitions ?? null,
+    color: stage.color,
+  };
+}
+
+class PipelineService {
+  /**
+   * Canonical status for any spelling stored on an application; unknown values are returned lowercased.
+   */
+  normalizeStatus(status: string | null | undefined): string {
+    const value = (status || 'applied').trim().toLowerCase();
+    for (const canonical of APPLICATION_STATUSES) {
+      if (STATUS_ALIASES[canonical].includes(value)) {
+        return canonical;
+      }
+    }
+    return value;
+  }
+
+  statusIs(status: string | null | undefined, expected: ApplicationStatus): boolean {
+    return this.normalizeStatus(status) === expected;
+  }
+
+  // Lowercased stored values that count as the given status, for SQL filters
+  statusAliases(status: string): string[] {
+    const canonical = this.normalizeStatus(status);
+    return STATUS_ALIASES[canonical as ApplicationStatus] || [canonical];
+  }
+
+  /**
+   * Stages in effect for a job: its own configuration, else the organization's, else the defaults.
+   */
+  async getStages(organizationId: string, jobId?: number | null): Promise<{ stages: StageDefinition[]; source: 'job' | 'organization' | 'default' }> {
+    if (jobId) {
+      const jobStages = await db
+        .select()
+        .from(pipelineStages)
+        .where(and(eq(pipelineStages.organizationId, organizationId), eq(pipelineStages.jobId, jobId)))
+        .orderBy(pipelineStages.position);
+      if (jobStages.length > 0) {
+        return { stages: jobStages.map(toDefinition), source: 'job' };
+      }
+    }
+
+    const organizationStages = await db
+      .select()
+      .from(pipelineStages)
+      .where(and(eq(pipelineStages.organizationId, organizationId), isNull(pipelineStages.jobId)))
+      .orderBy(pipelineStages.position);
+    if (organizationStages.length > 0) {
+      return { stages: organizationStages.map(toDefinition), source: 'organization' };
+    }
+    return { stages: DEFAULT_PIPELINE_STAGES, source: 'default' };
+  }
+
+  /**
+   * Validate stages submitted by an admin. Returns the cleaned list or an error message.
+   */
+  validateStages(input: any): { stages: StageDefinition[] } | { error: string } {
+    if (!Array.isArray(input) || input.length === 0) {
+      return { error: 'At least one stage is required' };
+    }
+
+    const stages: StageDefinition[] = [];
+    for (const raw of input) {
+      const key = typeof raw?.key === 'string' ? raw.key.trim() : '';
+      const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+      if (!STAGE_KEY_PATTERN.test(key)) {
+        return { error: `Invalid stage key "${key}": use lowercase letters, digits and underscores` };
+      }
+      if (!name) {
+        return { error: `Stage "${key}" needs a name` };
+      }
+      if (stages.some(stage => stage.key === key)) {
+        return { error: `Duplicate stage key "${key}"` };
+      }
+      const category = (raw.category || 'active') as StageCategory;
+      if (!STAGE_CATEGORIES.includes(category)) {
+        return { error: `Invalid category for stage "${key}"` };
+      }
+      // Terminal stages always carry the matching status so the accepted and denied lists stay in sync
+      const applicationStatus: ApplicationStatus = category === 'hired' ? 'accepted'
+        : category === 'rejected' ? 'denied'
+        : raw.applicationStatus === 'shortlisted' ? 'shortlisted' : 'applied';
+      stages.push({
+        key,
+        name,
+        category,
+        applicationStatus,
+        allowedTransitions: Array.isArray(raw.allowedTransitions)
+          ? Array.from(new Set<string>(raw.allowedTransitions.map(String)))
+          : null,
+        color: typeof raw.color === 'string' && raw.color ? raw.color : null,
+      });
+    }
+
+    if (stages[0].category !== 'active') {
+      return { error: 'The first stage must be an active stage' };
+    }
+    for (const category of ['hired', 'rejected'] as const) {
+      if (!stages.some(stage => stage.category === category)) {
+        return { error: `The pipeline needs a ${category} stage` };
+      }
+    }
+    const keys = new Set(stages.map(stage => stage.key));
+    for (const stage of stages) {
+      const unknown = (stage.allowedTransitions || []).find(target => !keys.has(target) || target === stage.key);
+      if (unknown) {
+        return { error: `Stage "${stage.key}" lists an invalid transition to "${unknown}"` };
+      }
+    }
+    return { stages };
+  }
+
+  /**
+   * Replace the organization default (jobId null) or a job's stages. Refuses to drop a stage that
+   * still holds applications.
+   */
+  async saveStages(organizationId: string, jobId: number | null, stages: StageDefinition[]): Promise<{ error?: string }> {
+    const current = await this.getStages(organizationId, jobId);
+    const keys = new Set(stages.map(stage => stage.key));
+    const removed = current.stages.filter(stage => !keys.has(stage.key)).map(stage => stage.key);
+    const occupied = await this.occupiedStages(organizationId, jobId, removed);
+    if (occupied.length > 0) {
+      return { error: `Move applications out of ${occupied.join(', ')} before removing ${occupied.length === 1 ? 'that stage' : 'those stages'}` };
+    }
+
+    await db.transaction(async (tx: DbTransaction) => {
+      await tx.delete(pipelineStages).where(this.scopeCondition(organizationId, jobId));
+      await tx.insert(pipelineStages).values(stages.map((stage, position) => ({
+        organizationId,
+        jobId,
+        key: stage.key,
+        name: stage.name,
+        position,
+        category: stage.category,
+        applicationStatus: stage.applicationStatus,
+        allowedTransitions: stage.allowedTransitions,
+        color: stage.color,
+      })));
+    });
+    return {};
+  }
+
+  /**
+   * Drop a job's own stages so it follows the organization pipeline again.
+   */
+  async resetJobStages(organizationId: string, jobId: number): Promise<{ error?: string }> {
+    const own = await this.getStages(organizationId, jobId);
+    if (own.source !== 'job') {
+      return {};
+    }
+    const inherited = await this.getStages(organizationId, null);
+    const inheritedKeys = new Set(inherited.stages.map(stage => stage.key));
+    const occupied = await this.occupiedStages(organizationId, jobId,
+      own.stages.filter(stage => !inheritedKeys.has(stage.key)).map(stage => stage.key));
+    if (occupied.length > 0) {
+      return { error: `Move applications out of ${occupied.join(', ')} first; the organization pipeline has no such stage` };
+    }
+    await db.delete(pipelineStages).where(this.scopeCondition(organizationId, jobId));
+    return {};
+  }
+
+  private scopeCondition(organizationId: string, jobId: number | null) {
+    return and(
+      eq(pipelineStages.organizationId, organizationId),
+      jobId ? eq(pipelineStages.jobId, jobId) : isNull(pipelineStages.jobId)
+    );
+  }
+
+  // Stage keys among `keys` that applications of the organization (or the job) currently sit in
+  private async occupiedStages(organizationId: string, jobId: number | null, keys: string[]): Promise<string[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    const jobIds = jobId
+      ? [String(jobId)]
+      : (await db.select({ id: jobs.id }).from(jobs).where(eq(jobs.organizationId, organizationId)))
+          .map((job: { id: number }) => String(job.id));
+    if (jobIds.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .selectDistinct({ stage: airtableJobApplications.pipelineStage })
+      .from(airtableJobApplications)
+      .where(and(inArray(airtableJobApplications.jobId, jobIds), inArray(airtableJobApplications.pipelineStage, keys)));
+    return rows.map((row: { stage: string }) => row.stage);
+  }
+
+  /**
+   * Stage an application is in. Applications that predate the pipeline are placed by their status.
+   */
+  currentStage(application: Pick<AirtableJobApplication, 'pipelineStage' | 'status'>, stages: StageDefinition[]): StageDefinition {
+    const byKey = application.pipelineStage && stages.find(stage => stage.key === application.pipelineStage);
+    if (byKey) {
+      return byKey;
+    }
+    const status = this.normalizeStatus(application.status);
+    return stages.find(stage => stage.applicationStatus === status) || stages[0];
+  }
+
+  /**
+   * Stages an application may move to from `from`. Without explicit transitions, hired is final,
+   * rejected applications can only be reopened into an active stage, and active stages may move anywhere.
+   */
+  allowedTargets(from: StageDefinition, stages: StageDefinition[]): string[] {
+    if (from.allowedTransitions) {
+      return from.allowedTransitions.filter(key => stages.some(stage => stage.key === key));
+    }
+    if (from.category === 'hired') {
+      return [];
+    }
+    return stages
+      .filter(stage => stage.key !== from.key && (from.category === 'active' || stage.category === 'active'))
+      .map(stage => stage.key);
+  }
+
+  /**
+   * Move an application to a stage, recording the change. Moving to the stage it is already in is a no-op.
+   */
+  async transition(params: {
+    applicationId: string;
+    toStage: string;
+    organizationId?: string | null;
+    changedBy?: string | null;
+    reason?: string | null;
+  }): Promise<TransitionResult> {
+    const context = await this.loadContext(params.applicationId, params.organizationId);
+    if ('status' in context) {
+      return { success: false, ...context };
+    }
+    const { application, organizationId, stages } = context;
+
+    const target = stages.find(stage => stage.key === params.toStage);
+    if (!target) {
+      return { success: false, status: 400, message: `Unknown pipeline stage "${params.toStage}"` };
+    }
+    return await this.moveTo(application, organizationId, stages, target, params.changedBy ?? null, params.reason ?? null, false);
+  }
+
+  /**
+   * Legacy actions (accept, decline, shortlist, unshortlist) expressed as a move to the first stage
+   * carrying that status. `override` skips transition rules for corrections such as undoing an accept.
+   */
+  async moveToStatus(params: {
+    applicationId: string;
+    status: ApplicationStatus;
+    organizationId?: string | null;
+    changedBy?: string | null;
+    reason?: string | null;
+    override?: boolean;
+  }): Promise<TransitionResult> {
+    const context = await this.loadContext(params.applicationId, params.organizationId);
+    if ('status' in context) {
+      return { success: false, ...context };
+    }
+    const { application, organizationId, stages } = context;
+
+    const current = this.currentStage(application, stages);
+    if (current.applicationStatus === params.status) {
+      return await this.moveTo(application, organizationId, stages, current, params.changedBy ?? null, params.reason ?? null, false);
+    }
+    const target = stages.find(stage => stage.applicationStatus === params.status);
+    if (!target) {
+      return { success: false, status: 409, message: `The pipeline has no stage for status "${params.status}"` };
+    }
+    return await this.moveTo(application, organizationId, stages, target, params.changedBy ?? null, params.reason ?? null, !!params.override);
+  }
+
+  private async loadContext(applicationId: string, organizationId?: string | null): Promise<
+    { application: AirtableJobApplication; organizationId: string; stages: StageDefinition[] } | { status: 404; message: string }
+  > {
+    const [application] = await db.select().from(airtableJobApplications).where(eq(airtableJobApplications.id, applicationId));
+    if (!application) {
+      return { status: 404, message: 'Application not found' };
+    }
+    const jobId = parseInt(application.jobId);
+    const [job] = Number.isFinite(jobId)
+      ? await db.select({ organizationId: jobs.organizationId }).from(jobs).where(eq(jobs.id, jobId))
+      : [];
+    if (!job?.organizationId || (organizationId && job.organizationId !== organizationId)) {
+      return { status: 404, message: 'Application not found' };
+    }
+    const { stages } = await this.getStages(job.organizationId, jobId);
+    return { application, organizationId: job.organizationId, stages };
+  }
+
+  private async moveTo(
+    application: AirtableJobApplication,
+    organizationId: string,
+    stages: StageDefinition[],
+    target: StageDefinition,
+    changedBy: string | null,
+    reason: string | null,
+    override: boolean
+  ): Promise<TransitionResult> {
+    const current = this.currentStage(application, stages);
+    // Already there: only backfill the stage key and canonical status on applications that predate the pipeline
+    if (current.key === target.key) {
+      if (application.pipelineStage === target.key && application.status === target.applicationStatus) {
+        return { success: true, application, fromStage: current.key, toStage: target.key, changed: false };
+      }
+      const [updated] = await db.update(airtableJobApplications)
+        .set({ pipelineStage: target.key, status: target.applicationStatus, updatedAt: new Date() })
+        .where(eq(airtableJobApplications.id, application.id))
+        .returning();
+      return { success: true, application: updated, fromStage: current.key, toStage: target.key, changed: false };
+    }
+
+    if (!override && !this.allowedTargets(current, stages).includes(target.key)) {
+      return { success: false, status: 409, message: `Cannot move from ${current.name} to ${target.name}` };
+    }
+
+    const now = new Date();
+    const updated = await db.transaction(async (tx: DbTransaction) => {
+      const [row] = await tx.update(airtableJobApplications)
+        .set({ pipelineStage: target.key, status: target.applicationStatus, stageChangedAt: now, updatedAt: now })
+        .where(eq(airtableJobApplications.id, application.id))
+        .returning();
+      await tx.insert(applicationStageHistory).values({
+        applicationId: application.id,
+        organizationId,
+        jobId: application.jobId,
+        fromStage: current.key,
+        toStage: target.key,
+        changedBy,
+        reason,
+        createdAt: now,
+      });
+      await applicantEventService.record({
+        applicationId: application.id,
+        organizationId,
+        jobId: application.jobId,
+        actorId: changedBy,
+        action: 'stage_changed',
+        before: { stage: current.key, status: application.status },
+        after: { stage: target.key, status: target.applicationStatus },
+        metadata: reason || override ? { ...(reason && { reason }), ...(override && { override: true }) } : null,
+      }, tx);
+      return row;
+    });
+
+    console.log(`🔀 Application ${application.id} moved ${current.key} → ${target.key}`);
+    return { success: true, application: updated, fromStage: current.key, toStage: target.key, changed: true };
+  }
+
+  async getHistory(applicationId: string): Promise<ApplicationStageHistory[]> {
+    return await db
+      .select()
+      .from(applicationStageHistory)
+      .where(eq(applicationStageHistory.applicationId, applicationId))
+      .orderBy(desc(applicationStageHistory.createdAt));
+  }
+
+  /**
+   * Applications grouped into the stages of one job, or of the organization pipeline across all jobs.
+   */
+  async getBoard(organizationId: string, jobId?: number | null): Promise<{
+    stages: StageDefinition[];
+    applications: Array<AirtableJobApplication & { stage: string; allowedTransitions: string[] }>;
+  }> {
+    const { stages } = await this.getStages(organizationId, jobId);
+    const jobIds = jobId
+      ? [String(jobId)]
+      : (await db.select({ id: jobs.id }).from(jobs).where(eq(jobs.organizationId, organizationId)))
+          .map((job: { id: number }) => String(job.id));
+    if (jobIds.length === 0) {
+      return { stages, applications: [] };
+    }
+
+    const rows: AirtableJobApplication[] = await db
+      .select()
+      .from(airtableJobApplications)
+      .where(inArray(airtableJobApplications.jobId, jobIds))
+      .orderBy(desc(sql`coalesce(${airtableJobApplications.stageChangedAt}, ${airtableJobApplications.applicationDate})`));
+
+    return {
+      stages,
+      applications: rows.map(application => {
+        const stage = this.currentStage(application, stages);
+        return { ...application, stage: stage.key, allowedTransitions: this.allowedTargets(stage, stages) };
+      }),
+    };
+  }
+}
+
+export const pipelineService = new PipelineService();
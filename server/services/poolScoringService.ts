@@ -0,0 +1,320 @@
+import { db } from '../db';
+import {
+  poolScoringRuns,
+  resumeProfiles,
+  resumeJobScores,
+  type Job,
+  type PoolScoringRun,
+  type ResumeJobScore,
+} from '@shared/schema';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { cacheService, JOB_SCORING_PROMPT_VERSION } from '../cacheService';
+import { creditService } from '../creditService';
+import { resumeProcessingService, type ProcessedResume } from '../resumeProcessingService';
+import { resumeProcessingQueue } from '../queues';
+import { resumeVersionService } from './resumeVersionService';
+import { scoreHistoryService } from './scoreHistoryService';
+import { knockoutRulesService } from './knockoutRulesService';
+import { scoringWeightsService } from './scoringWeightsService';
+
+export type PoolScoringScope = 'all' | 'scored';
+
+export interface PoolScoringEstimate {
+  totalProfiles: number;   // Profiles in scope
+  upToDate: number;        // Already scored against the current job content, prompt and model
+  toScore: number;
+  cached: number;          // Of toScore, results available in the job scoring cache
+  estimatedCredits: number; // Upper bound: knocked-out candidates are not charged
+  availableCredits: number;
+}
+
+interface PoolTarget {
+  profileId: string;
+  cacheKey: string;
+  stale: boolean;
+}
+
+const ACTIVE_STATUSES = ['queued', 'running'];
+
+// Queue job id for a run, so a waiting run can be removed on cancellation
+const queueJobId = (runId: string) => `pool-scoring-${runId}`;
+
+type ScoreFreshness = Pick<ResumeJobScore, 'profileId' | 'jobSnapshotHash' | 'promptVersion' | 'scoringModel' | 'profileVersion'>;
+
+class PoolScoringService {
+  private isFresh(score: ScoreFreshness | undefined, job: Job, currentVersion: number): boolean {
+    if (!score || !score.jobSnapshotHash) {
+      return false;
+    }
+    const model = process.env.OPENAI_MODEL_RESUME_JOB_SCORING || 'gpt-4o';
+    return score.jobSnapshotHash === cacheService.jobSnapshotHash(job.title, job.description, job.requirements || job.description)
+      && score.promptVersion === JOB_SCORING_PROMPT_VERSION
+      && score.scoringModel === model
+      && (score.profileVersion === null || score.profileVersion === currentVersion);
+  }
+
+  // Parsing rules last used for the job's uploads, which its scores are produced with
+  private async rulesFor(job: Job, organizationId: string): Promise<string | undefined> {
+    const [rules] = await storage.getRecentCustomRules(organizationId, job.id, 1);
+    return rules?.rulesText;
+  }
+
+  /**
+   * Profiles in scope for a run, each flagged when its score for the job is missing or stale.
+   */
+  private async targets(job: Job, organizationId: string, scope: PoolScoringScope): Promise<PoolTarget[]> {
+    const scores: ScoreFreshness[] = await db
+      .select({
+        profileId: resumeJobScores.profileId,
+        jobSnapshotHash: resumeJobScores.jobSnapshotHash,
+        promptVersion: resumeJobScores.promptVersion,
+        scoringModel: resumeJobScores.scoringModel,
+        profileVersion: resumeJobScores.profileVersion,
+      })
+      .from(resumeJobScores)
+      .where(eq(resumeJobScores.jobId, job.id));
+    const scoreByProfile = new Map<string, ScoreFreshness>();
+    for (const score of scores) {
+      if (score.profileId) scoreByProfile.set(score.profileId, score);
+    }
+
+    // The resume text is hashed in the database so whole resumes aren't loaded for an estimate
+    const profiles: Array<{ id: string; textHash: string; currentVersion: number }> = await db
+      .select({
+        id: resumeProfiles.id,
+        textHash: sql<string>`encode(sha256(convert_to(${resumeProfiles.resumeText}, 'UTF8')), 'hex')`,
+        currentVersion: resumeProfiles.currentVersion,
+      })
+      .from(resumeProfiles)
+      .where(eq(resumeProfiles.organizationId, organizationId));
+
+    const requirements = job.requirements || job.description;
+    const rules = await this.rulesFor(job, organizationId);
+    return profiles
+      .filter(profile => scope === 'all' || scoreByProfile.has(profile.id))
+      .map(profile => ({
+        profileId: profile.id,
+        // Same key the rescore path uses, so results from earlier runs are reused
+        cacheKey: cacheService.jobScoringKeyForHash(profile.textHash, job.title, job.description, requirements, rules),
+        stale: !this.isFresh(scoreByProfile.get(profile.id), job, profile.currentVersion),
+      }));
+  }
+
+  async estimate(job: Job, organizationId: string, scope: PoolScoringScope): Promise<PoolScoringEstimate> {
+    const targets = await this.targets(job, organizationId, scope);
+    const stale = targets.filter(target => target.stale);
+    const cachedKeys = await cacheService.existingKeys(stale.map(target => target.cacheKey));
+    const cached = stale.filter(target => cachedKeys.has(target.cacheKey)).length;
+
+    const cost = await creditService.getActionCost('resume_processing');
+    const balance = await creditService.getCreditBalance(organizationId);
+
+    return {
+      totalProfiles: targets.length,
+      upToDate: targets.length - stale.length,
+      toScore: stale.length,
+      cached,
+      estimatedCredits: (stale.length - cached) * cost,
+      availableCredits: balance?.cvProcessingCredits ?? 0,
+    };
+  }
+
+  async getActiveRun(jobId: number): Promise<PoolScoringRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(poolScoringRuns)
+      .where(and(eq(poolScoringRuns.jobId, jobId), inArray(poolScoringRuns.status, ACTIVE_STATUSES)))
+      .orderBy(desc(poolScoringRuns.createdAt))
+      .limit(1);
+    return run;
+  }
+
+  async getLatestRun(jobId: number): Promise<PoolScoringRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(poolScoringRuns)
+      .where(eq(poolScoringRuns.jobId, jobId))
+      .orderBy(desc(poolScoringRuns.createdAt))
+      .limit(1);
+    return run;
+  }
+
+  async getRun(runId: string): Promise<PoolScoringRun | undefined> {
+    const [run] = await db.select().from(poolScoringRuns).where(eq(poolScoringRuns.id, runId));
+    return run;
+  }
+
+  /**
+   * Record a run and queue it. Callers check credits and for an active run first.
+   */
+  async startRun(params: {
+    job: Job;
+    organizationId: string;
+    requestedBy: string | null;
+    scope: PoolScoringScope;
+    trigger: 'manual' | 'job_updated';
+    estimate: PoolScoringEstimate;
+  }): Promise<PoolScoringRun> {
+    const [run] = await db.insert(poolScoringRuns).values({
+      organizationId: params.organizationId,
+      jobId: params.job.id,
+      requestedBy: params.requestedBy,
+      trigger: params.trigger,
+      scope: params.scope,
+      totalProfiles: params.estimate.toScore,
+      estimatedCredits: params.estimate.estimatedCredits,
+    }).returning();
+
+    await resumeProcessingQueue.add('score-pool-against-job', { runId: run.id }, {
+      priority: 15, // Behind interactive uploads and single re-scores
+      jobId: queueJobId(run.id),
+      attempts: 1,
+    });
+
+    return run;
+  }
+
+  /**
+   * Stop a queued or running run. A running run stops before its next profile.
+   */
+  async cancelRun(runId: string): Promise<PoolScoringRun | undefined> {
+    const [run] = await db.update(poolScoringRuns)
+      .set({ status: 'cancelled', completedAt: new Date() })
+      .where(and(eq(poolScoringRuns.id, runId), inArray(poolScoringRuns.status, ACTIVE_STATUSES)))
+      .returning();
+    if (!run) {
+      return undefined;
+    }
+
+    try {
+      const queued = await resumeProcessingQueue.getJob(queueJobId(runId));
+      if (queued && (await queued.isWaiting() || await queued.isDelayed())) {
+        await queued.remove();
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not remove queued pool scoring job for run ${runId}:`, error);
+    }
+    return run;
+  }
+
+  private async update(runId: string, values: Partial<PoolScoringRun>): Promise<void> {
+    await db.update(poolScoringRuns).set(values).where(eq(poolScoringRuns.id, runId));
+  }
+
+  /**
+   * Worker entry point: score every stale profile in the run's scope against its job.
+   */
+  async process(runId: string, onProgress: (percent: number) => void): Promise<PoolScoringRun | undefined> {
+    const run = await this.getRun(runId);
+    if (!run || run.status !== 'queued') {
+      console.log(`⏭️ Skipping pool scoring run ${runId}: ${run ? run.status : 'not found'}`);
+      return run;
+    }
+
+    const job = await storage.getJob(run.jobId);
+    if (!job || job.organizationId !== run.organizationId) {
+      await this.update(runId, { status: 'failed', error: 'Job not found', completedAt: new Date() });
+      return await this.getRun(runId);
+    }
+
+    // Targets are recomputed at start so profiles scored since the estimate are skipped
+    const targets = (await this.targets(job, run.organizationId, run.scope as PoolScoringScope)).filter(target => target.stale);
+    await this.update(runId, { status: 'running', startedAt: new Date(), totalProfiles: targets.length });
+
+    const cost = await creditService.getActionCost('resume_processing');
+    const weights = await scoringWeightsService.weightsForJob(job);
+    const rules = await this.rulesFor(job, run.organizationId);
+    const counts = { processedProfiles: 0, scoredProfiles: 0, cachedProfiles: 0, knockedOutProfiles: 0, failedProfiles: 0, creditsUsed: 0 };
+
+    for (const target of targets) {
+      const current = await this.getRun(runId);
+      if (current?.status === 'cancelled') {
+        console.log(`🛑 Pool scoring run ${runId} cancelled after ${counts.processedProfiles}/${targets.length} profiles`);
+        await this.update(runId, counts);
+        return await this.getRun(runId);
+      }
+
+      try {
+        const profile = await storage.getResumeProfileById(target.profileId);
+        if (!profile) {
+          counts.processedProfiles++;
+          continue;
+        }
+        const resume = await resumeVersionService.getCurrentParsedData(profile) as ProcessedResume;
+        const [existingScore] = await db
+          .select()
+          .from(resumeJobScores)
+          .where(and(eq(resumeJobScores.profileId, profile.id), eq(resumeJobScores.jobId, job.id)))
+          .limit(1);
+
+        const knockout = existingScore?.knockoutOverriddenBy ? null : knockoutRulesService.evaluate(resume, job);
+        if (knockout && !knockout.passed) {
+          await scoreHistoryService.saveScore(
+            { profileId: profile.id, jobId: job.id, profileVersion: profile.currentVersion },
+            knockoutRulesService.knockoutScore(knockout)
+          );
+          counts.knockedOutProfiles++;
+        } else {
+          const cached = (await cacheService.existingKeys([target.cacheKey])).has(target.cacheKey);
+          if (!cached && !(await creditService.checkCredits(run.organizationId, cost, 'cv_processing'))) {
+            await this.update(runId, {
+              ...counts,
+              status: 'failed',
+              error: `Ran out of credits after ${counts.processedProfiles} of ${targets.length} profiles`,
+              completedAt: new Date(),
+            });
+            return await this.getRun(runId);
+          }
+
+          const jobScore = await resumeProcessingService.scoreResumeAgainstJob(
+            resume,
+            job.title,
+            job.description,
+            job.requirements || job.description,
+            rules,
+            job.id,
+            profile.resumeText,
+            run.organizationId
+          );
+          await scoreHistoryService.saveScore(
+            { profileId: profile.id, jobId: job.id, profileVersion: profile.currentVersion },
+            scoringWeightsService.apply({ ...jobScore, knockoutResult: knockout }, weights)
+          );
+
+          if (cached) {
+            counts.cachedProfiles++;
+          } else {
+            await creditService.deductCredits(
+              run.organizationId,
+              cost,
+              'cv_processing',
+              'cv_processing',
+              `Talent pool scoring: ${profile.name} against ${job.title}`,
+              String(job.id),
+              'resume_processing'
+            );
+            counts.scoredProfiles++;
+            counts.creditsUsed += cost;
+          }
+        }
+      } catch (error) {
+        console.error(`❌ Pool scoring run ${runId} failed for profile ${target.profileId}:`, error);
+        counts.failedProfiles++;
+      }
+
+      counts.processedProfiles++;
+      await this.update(runId, counts);
+      onProgress(Math.round((counts.processedProfiles / targets.length) * 100));
+    }
+
+    // A cancellation that arrived during the last profile still wins
+    await db.update(poolScoringRuns)
+      .set({ ...counts, status: 'completed', completedAt: new Date() })
+      .where(and(eq(poolScoringRuns.id, runId), eq(poolScoringRuns.status, 'running')));
+    console.log(`✅ Pool scoring run ${runId} finished: ${counts.scoredProfiles} scored, ${counts.cachedProfiles} cached, ${counts.knockedOutProfiles} knocked out, ${counts.failedProfiles} failed`);
+    return await this.getRun(runId);
+  }
+}
+
+export const poolScoringService = new PoolScoringService();
@@ -0,0 +1,306 @@
+import { db, type DbTransaction } from '../db';
+import {
+  resumeProfiles,
+  resumeProfileVersions,
+  type ResumeProfile,
+  type InsertResumeProfile,
+  type ResumeProfileVersion,
+} from '@shared/schema';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import { cacheService } from '../cacheService';
+
+export interface VersionMetadata {
+  fileName?: string;
+  fileType?: string;
+  parsedData: Record<string, any>;
+}
+
+export interface FieldChange {
+  before: string | null;
+  after: string | null;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface VersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  fields: Record<string, FieldChange>; // Only scalar fields that changed
+  lists: Record<string, ListChange>;   // Only list fields with additions or removals
+}
+
+const SCALAR_FIELDS = ['name', 'email', 'phone', 'summary', 'headline', 'location', 'yearsOfExperience', 'seniorityLevel', 'totalTenureMonths'];
+const LIST_FIELDS = ['skills', 'experience', 'education', 'certifications', 'languages'];
+
+// Columns copied from the newest version onto the profile row
+const PROFILE_FIELDS = [
+  'name', 'email', 'phone', 'summary', 'experience', 'skills', 'education', 'certifications', 'languages',
+  'experienceEntries', 'educationEntries', 'certificationEntries', 'totalTenureMonths', 'careerGaps',
+  'resumeText', 'fileId', 'textExtractor', 'textExtractionConfidence',
+  'normalizedEmail', 'normalizedPhone', 'normalizedName', 'contentHash',
+] as const;
+
+class ResumeVersionService {
+  async getVersions(profileId: string): Promise<ResumeProfileVersion[]> {
+    return await db
+      .select()
+      .from(resumeProfileVersions)
+      .where(eq(resumeProfileVersions.profileId, profileId))
+      .orderBy(desc(resumeProfileVersions.versionNumber));
+  }
+
+  async getVersion(profileId: string, versionNumber: number): Promise<ResumeProfileVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(resumeProfileVersions)
+      .where(and(
+        eq(resumeProfileVersions.profileId, profileId),
+        eq(resumeProfileVersions.versionNumber, versionNumber)
+      ));
+    return version;
+  }
+
+  /**
+   * Parsed resume of the profile's current version, reconstructed from the row when it has no history.
+   */
+  async getCurrentParsedData(profile: ResumeProfile): Promise<Record<string, any>> {
+    const version = await this.getVersion(profile.id, profile.currentVersion);
+    return (version?.parsedData as Record<string, any>) || this.snapshotOf(profile, profile.currentVersion).parsedData;
+  }
+
+  /**
+   * Profile that already holds this exact file, either as its current or an older version.
+   */
+  async findProfileByContentHash(organizationId: string, contentHash: string): Promise<ResumeProfile | undefined> {
+    const [current] = await db
+      .select()
+      .from(resumeProfiles)
+      .where(and(eq(resumeProfiles.organizationId, organizationId), eq(resumeProfiles.contentHash, contentHash)))
+      .limit(1);
+    if (current) {
+      return current;
+    }
+
+    const [version] = await db
+      .select({ profileId: resumeProfileVersions.profileId })
+      .from(resumeProfileVersions)
+      .where(and(
+        eq(resumeProfileVersions.organizationId, organizationId),
+        eq(resumeProfileVersions.contentHash, contentHash)
+      ))
+      .limit(1);
+    if (!version) {
+      return undefined;
+    }
+
+    const [profile] = await db
+      .select()
+      .from(resumeProfiles)
+      .where(eq(resumeProfiles.id, version.profileId));
+    return profile;
+  }
+
+  // Version 1 reconstructed from a profile row (profiles created before version history existed)
+  private snapshotOf(profile: ResumeProfile, versionNumber: number) {
+    return {
+      profileId: profile.id,
+      organizationId: profile.organizationId!,
+      versionNumber,
+      resumeText: profile.resumeText,
+      contentHash: profile.contentHash || cacheService.generateHash(profile.resumeText),
+      parsedData: {
+        name: profile.name,
+        email: profile.email,
+        phone: profile.phone,
+        summary: profile.summary,
+        experience: profile.experience || [],
+        skills: profile.skills || [],
+        education: profile.education || [],
+        certifications: profile.certifications || [],
+        languages: profile.languages || [],
+        experienceEntries: profile.experienceEntries || [],
+        educationEntries: profile.educationEntries || [],
+        certificationEntries: profile.certificationEntries || [],
+        totalTenureMonths: profile.totalTenureMonths,
+      },
+      textExtractor: profile.textExtractor,
+      textExtractionConfidence: profile.textExtractionConfidence,
+      createdBy: profile.createdBy,
+      createdAt: profile.createdAt,
+    };
+  }
+
+  private async ensureHistory(tx: DbTransaction, profile: ResumeProfile): Promise<void> {
+    const [existing] = await tx
+      .select({ id: resumeProfileVersions.id })
+      .from(resumeProfileVersions)
+      .where(eq(resumeProfileVersions.profileId, profile.id))
+      .limit(1);
+    if (!existing) {
+      await tx.insert(resumeProfileVersions)
+        .values(this.snapshotOf(profile, profile.currentVersion || 1))
+        .onConflictDoNothing();
+    }
+  }
+
+  /**
+   * Record the first version of a newly created profile.
+   */
+  async recordInitialVersion(profile: ResumeProfile, metadata: VersionMetadata): Promise<void> {
+    await db.insert(resumeProfileVersions)
+      .values({
+        ...this.snapshotOf(profile, 1),
+        fileName: metadata.fileName,
+        fileType: metadata.fileType,
+        parsedData: metadata.parsedData,
+      })
+      .onConflictDoNothing();
+  }
+
+  /**
+   * Add an updated CV to an existing profile and make it the current version. Returns null when
+   * this file is already one of the profile's versions (e.g. a concurrent job for the same upload).
+   */
+  async appendVersion(
+    profileId: string,
+    profileData: InsertResumeProfile,
+    metadata: VersionMetadata
+  ): Promise<{ profile: ResumeProfile; version: ResumeProfileVersion } | null> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      // Lock the profile so concurrent uploads get consecutive version numbers
+      const [profile] = await tx
+        .select()
+        .from(resumeProfiles)
+        .where(eq(resumeProfiles.id, profileId))
+        .for('update');
+      if (!profile) {
+        throw new Error('Profile not found');
+      }
+
+      await this.ensureHistory(tx, profile);
+
+      const versions = await tx
+        .select({ versionNumber: resumeProfileVersions.versionNumber, contentHash: resumeProfileVersions.contentHash })
+        .from(resumeProfileVersions)
+        .where(eq(resumeProfileVersions.profileId, profileId));
+      if (versions.some((v) => v.contentHash === profileData.contentHash)) {
+        return null;
+      }
+      const versionNumber = Math.max(0, ...versions.map((v) => v.versionNumber)) + 1;
+
+      const [version] = await tx.insert(resumeProfileVersions)
+        .values({
+          profileId,
+          organizationId: profile.organizationId!,
+          versionNumber,
+          fileName: metadata.fileName,
+          fileType: metadata.fileType,
+          resumeText: profileData.resumeText,
+          contentHash: profileData.contentHash || cacheService.generateHash(profileData.resumeText),
+          parsedData: metadata.parsedData,
+          textExtractor: profileData.textExtractor,
+          textExtractionConfidence: profileData.textExtractionConfidence,
+          createdBy: profileData.createdBy,
+        })
+        .returning();
+
+      const updates: Record<string, any> = { currentVersion: versionNumber, updatedAt: new Date() };
+      for (const field of PROFILE_FIELDS) {
+        if (profileData[field] !== undefined) {
+          updates[field] = profileData[field];
+        }
+      }
+      const [updated] = await tx.update(resumeProfiles)
+        .set(updates)
+        .where(eq(resumeProfiles.id, profileId))
+        .returning();
+
+      console.log(`🗂️ Stored version ${versionNumber} of resume profile ${profileId}`);
+      return { profile: updated, version };
+    });
+  }
+
+  /**
+   * Move the version history of merged profiles onto the survivor, renumbering all versions
+   * chronologically. Runs inside the merge transaction.
+   */
+  async moveVersions(tx: DbTransaction, survivor: ResumeProfile, sources: ResumeProfile[]): Promise<number> {
+    for (const profile of [survivor, ...sources]) {
+      await this.ensureHistory(tx, profile);
+    }
+
+    const profileIds = [survivor.id, ...sources.map(source => source.id)];
+    const versions = await tx
+      .select()
+      .from(resumeProfileVersions)
+      .where(inArray(resumeProfileVersions.profileId, profileIds))
+      .orderBy(asc(resumeProfileVersions.createdAt), asc(resumeProfileVersions.id));
+
+    // The same file may exist on several merged profiles; keep its earliest upload
+    const seen = new Set<string>();
+    const kept: ResumeProfileVersion[] = [];
+    for (const version of versions) {
+      if (seen.has(version.contentHash)) {
+        await tx.delete(resumeProfileVersions).where(eq(resumeProfileVersions.id, version.id));
+      } else {
+        seen.add(version.contentHash);
+        kept.push(version);
+      }
+    }
+
+    // Park on negative numbers first so renumbering never collides with the unique index
+    for (const version of kept) {
+      await tx.update(resumeProfileVersions)
+        .set({ versionNumber: -version.id })
+        .where(eq(resumeProfileVersions.id, version.id));
+    }
+
+    let currentVersion = kept.length;
+    for (let i = 0; i < kept.length; i++) {
+      await tx.update(resumeProfileVersions)
+        .set({ profileId: survivor.id, versionNumber: i + 1 })
+        .where(eq(resumeProfileVersions.id, kept[i].id));
+      if (kept[i].contentHash === survivor.contentHash) {
+        currentVersion = i + 1;
+      }
+    }
+    return currentVersion;
+  }
+
+  private normalizeItem(item: string): string {
+    return item.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  diffVersions(from: ResumeProfileVersion, to: ResumeProfileVersion): VersionDiff {
+    const before = from.parsedData || {};
+    const after = to.parsedData || {};
+    const diff: VersionDiff = { fromVersion: from.versionNumber, toVersion: to.versionNumber, fields: {}, lists: {} };
+
+    for (const field of SCALAR_FIELDS) {
+      const a = before[field] ? String(before[field]) : null;
+      const b = after[field] ? String(after[field]) : null;
+      if ((a || '').trim() !== (b || '').trim()) {
+        diff.fields[field] = { before: a, after: b };
+      }
+    }
+
+    for (const field of LIST_FIELDS) {
+      const a: string[] = Array.isArray(before[field]) ? before[field] : [];
+      const b: string[] = Array.isArray(after[field]) ? after[field] : [];
+      const aKeys = new Set(a.map(item => this.normalizeItem(item)));
+      const bKeys = new Set(b.map(item => this.normalizeItem(item)));
+      const added = b.filter(item => !aKeys.has(this.normalizeItem(item)));
+      const removed = a.filter(item => !bKeys.has(this.normalizeItem(item)));
+      if (added.length > 0 || removed.length > 0) {
+        diff.lists[field] = { added, removed };
+      }
+    }
+
+    return diff;
+  }
+}
+
+export const resumeVersionService = new ResumeVersionService();
@@ -0,0 +1,186 @@
+import { db, type DbTransaction } from '../db';
+import {
+  resumeJobScores,
+  resumeJobScoreHistory,
+  type ResumeJobScore,
+  type ResumeJobScoreHistory,
+  type ScoringWeights,
+} from '@shared/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import type { JobMatchScore } from '../resumeProcessingService';
+import type { ListChange } from './resumeVersionService';
+
+// A current or archived score; archived entries are addressed by history id, the live row by 'current'
+export type ScoreSnapshot = (ResumeJobScore | ResumeJobScoreHistory) & { ref: string };
+
+export type ScoreChangeCause = 'knockout' | 'model' | 'prompt' | 'job' | 'custom_rules' | 'resume' | 'weights';
+
+export interface ScoreComparison {
+  from: string;
+  to: string;
+  scores: Record<string, { before: number | null; after: number | null; delta: number }>;
+  // Scoring inputs that differ between the two runs, in order of likely impact
+  causes: Array<{ type: ScoreChangeCause; before: string | null; after: string | null }>;
+  // True when neither run records its inputs (scored before provenance was tracked)
+  provenanceUnknown: boolean;
+  strengths: ListChange;
+  improvementAreas: ListChange;
+  disqualification: { before: string | null; after: string | null } | null;
+}
+
+const formatWeights = (weights: ScoringWeights | null | undefined) =>
+  weights ? `skills ${weights.technicalSkills}, experience ${weights.experience}, fit ${weights.culturalFit}, education ${weights.education}` : null;
+
+const SCORE_FIELDS = ['overallScore', 'technicalSkillsScore', 'experienceScore', 'culturalFitScore'] as const;
+
+// Columns copied from a scoring result onto the live score row
+const RESULT_FIELDS = [
+  'overallScore', 'technicalSkillsScore', 'experienceScore', 'culturalFitScore', 'matchSummary',
+  'strengthsHighlights', 'improvementAreas', 'disqualified', 'disqualificationReason', 'redFlags', 'fullResponse',
+  'scoringRunId', 'scoringModel', 'promptVersion', 'jobSnapshotHash', 'customRulesHash', 'knockoutResult',
+  'aiOverallScore', 'scoringWeights',
+] as const;
+
+class ScoreHistoryService {
+  /**
+   * Store a scoring result for a profile and job. An existing score produced by a different run
+   * is archived to the history table before being replaced.
+   */
+  async saveScore(
+    target: { profileId: string; jobId: number; profileVersion?: number | null },
+    jobScore: JobMatchScore
+  ): Promise<ResumeJobScore> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [existing] = await tx
+        .select()
+        .from(resumeJobScores)
+        .where(and(eq(resumeJobScores.profileId, target.profileId), eq(resumeJobScores.jobId, target.jobId)))
+        .orderBy(desc(resumeJobScores.updatedAt))
+        .limit(1)
+        .for('update');
+
+      const values: Record<string, any> = { profileVersion: target.profileVersion ?? null };
+      for (const field of RESULT_FIELDS) {
+        values[field] = jobScore[field] ?? null;
+      }
+
+      if (!existing) {
+        const [created] = await tx.insert(resumeJobScores)
+          .values({ profileId: target.profileId, jobId: target.jobId, ...values })
+          .returning();
+        return created;
+      }
+
+      // Same run served from cache: nothing new to archive
+      const now = new Date();
+      if (existing.scoringRunId && existing.scoringRunId === jobScore.scoringRunId) {
+        const [updated] = await tx.update(resumeJobScores)
+          .set({ profileVersion: values.profileVersion, updatedAt: now })
+          .where(eq(resumeJobScores.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const { id, updatedAt, ...archived } = existing;
+      await tx.insert(resumeJobScoreHistory).values({ ...archived, scoreId: id });
+
+      const [updated] = await tx.update(resumeJobScores)
+        .set({ ...values, scoredAt: now, updatedAt: now })
+        .where(eq(resumeJobScores.id, existing.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  /**
+   * Current score and archived scores for a profile and job, newest first.
+   */
+  async getHistory(profileId: string, jobId: number): Promise<{ current: ScoreSnapshot | null; history: ScoreSnapshot[] }> {
+    const [current] = await db
+      .select()
+      .from(resumeJobScores)
+      .where(and(eq(resumeJobScores.profileId, profileId), eq(resumeJobScores.jobId, jobId)))
+      .orderBy(desc(resumeJobScores.updatedAt))
+      .limit(1);
+
+    const history = await db
+      .select()
+      .from(resumeJobScoreHistory)
+      .where(and(eq(resumeJobScoreHistory.profileId, profileId), eq(resumeJobScoreHistory.jobId, jobId)))
+      .orderBy(desc(resumeJobScoreHistory.scoredAt), desc(resumeJobScoreHistory.id));
+
+    return {
+      current: current ? { ...current, ref: 'current' } : null,
+      history: history.map((entry: ResumeJobScoreHistory) => ({ ...entry, ref: String(entry.id) })),
+    };
+  }
+
+  private listChange(before: string[] | null | undefined, after: string[] | null | undefined): ListChange {
+    const normalize = (item: string) => item.trim().toLowerCase();
+    const a = Array.isArray(before) ? before : [];
+    const b = Array.isArray(after) ? after : [];
+    const aKeys = new Set(a.map(normalize));
+    const bKeys = new Set(b.map(normalize));
+    return {
+      added: b.filter(item => !aKeys.has(normalize(item))),
+      removed: a.filter(item => !bKeys.has(normalize(item))),
+    };
+  }
+
+  /**
+   * Explain the difference between two scores of the same profile and job.
+   */
+  compare(from: ScoreSnapshot, to: ScoreSnapshot): ScoreComparison {
+    const scores: ScoreComparison['scores'] = {};
+    for (const field of SCORE_FIELDS) {
+      const before = from[field] ?? null;
+      const after = to[field] ?? null;
+      scores[field] = { before, after, delta: (after ?? 0) - (before ?? 0) };
+    }
+
+    // A knocked-out score never reached the AI, so prompt/model/job provenance is not comparable
+    const knockedOut = (snapshot: ScoreSnapshot) =>
+      snapshot.knockoutResult && !snapshot.knockoutResult.passed
+        ? snapshot.knockoutResult.failures.map(failure => failure.message).join('; ')
+        : null;
+    const fromKnockout = knockedOut(from);
+    const toKnockout = knockedOut(to);
+
+    const inputs: Array<[ScoreChangeCause, string | null, string | null]> = [
+      ['knockout', fromKnockout, toKnockout],
+      ['resume', from.profileVersion != null ? `v${from.profileVersion}` : null, to.profileVersion != null ? `v${to.profileVersion}` : null],
+    ];
+    if (!fromKnockout && !toKnockout) {
+      inputs.push(
+        ['job', from.jobSnapshotHash, to.jobSnapshotHash],
+        ['custom_rules', from.customRulesHash, to.customRulesHash],
+        ['prompt', from.promptVersion, to.promptVersion],
+        ['model', from.scoringModel, to.scoringModel],
+        ['weights', formatWeights(from.scoringWeights), formatWeights(to.scoringWeights)],
+      );
+    }
+    const causes = inputs
+      .filter(([, before, after]) => (before || after) && before !== after)
+      .map(([type, before, after]) => ({ type, before, after }));
+
+    const disqualificationChanged = !!from.disqualified !== !!to.disqualified;
+
+    return {
+      from: from.ref,
+      to: to.ref,
+      scores,
+      causes,
+      provenanceUnknown: !from.scoringRunId && !to.scoringRunId,
+      strengths: this.listChange(from.strengthsHighlights, to.strengthsHighlights),
+      improvementAreas: this.listChange(from.improvementAreas, to.improvementAreas),
+      disqualification: disqualificationChanged
+        ? {
+            before: from.disqualified ? from.disqualificationReason || 'Disqualified' : null,
+            after: to.disqualified ? to.disqualificationReason || 'Disqualified' : null,
+          }
+        : null,
+    };
+  }
+}
+
+export const scoreHistoryService = new ScoreHistoryService();
@@ -0,0 +1,427 @@
+import { db, type DbTransaction } from '../db';
+import {
+  interviewScorecards,
+  realInterviews,
+  airtableJobApplications,
+  jobs,
+  users,
+  organizationMembers,
+  type InterviewScorecard,
+  type ScorecardTemplate,
+  type ScorecardRecommendation,
+} from '@shared/schema';
+import { eq, and, inArray, notInArray, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { applicantEventService } from './applicantEventService';
+
+type RealInterview = typeof realInterviews.$inferSelect;
+
+export const RECOMMENDATIONS: ScorecardRecommendation[] = ['strong_no', 'no', 'yes', 'strong_yes'];
+
+// Vote weight of each recommendation when the panel's feedback is combined
+const RECOMMENDATION_VALUES: Record<ScorecardRecommendation, number> = {
+  strong_no: -2,
+  no: -1,
+  yes: 1,
+  strong_yes: 2,
+};
+
+export const DEFAULT_SCORECARD_TEMPLATE: ScorecardTemplate = {
+  competencies: [
+    { key: 'technical_skills', name: 'Technical skills', description: null },
+    { key: 'problem_solving', name: 'Problem solving', description: null },
+    { key: 'communication', name: 'Communication', description: null },
+    { key: 'culture_add', name: 'Culture add', description: null },
+  ],
+  ratingScale: { max: 5, labels: ['Poor', 'Below expectations', 'Meets expectations', 'Exceeds expectations', 'Outstanding'] },
+  questions: [],
+};
+
+const MAX_COMPETENCIES = 20;
+const MAX_QUESTIONS = 20;
+
+export type PanelRecommendation = 'strong_hire' | 'hire' | 'mixed' | 'no_hire' | 'strong_no_hire';
+
+export interface ScorecardAggregate {
+  submitted: number;
+  pending: number;
+  recommendation: PanelRecommendation | null; // null until someone submits
+  votes: Record<ScorecardRecommendation, number>;
+  averageRating: number | null; // Mean of all competency ratings, as a percentage of the scale
+  competencyAverages: Array<{ key: string; name: string; average: number; max: number }>;
+}
+
+export type ScorecardWithInterviewer = InterviewScorecard & { interviewerName: string };
+
+export interface ScorecardView {
+  template: ScorecardTemplate;
+  interviewers: Array<{ userId: string; name: string; status: string; submittedAt: Date | null }>;
+  myScorecard: InterviewScorecard | null;
+  // Other interviewers' submitted scorecards; empty while the viewer's own scorecard is outstanding
+  scorecards: ScorecardWithInterviewer[];
+  blind: boolean;
+  aggregate: ScorecardAggregate | null;
+}
+
+export interface ScorecardInput {
+  ratings?: Record<string, any>;
+  answers?: Record<string, any>;
+  recommendation?: string | null;
+  notes?: string | null;
+  submit?: boolean;
+}
+
+type ScorecardResult =
+  | { success: true; scorecard: InterviewScorecard }
+  | { success: false; status: number; message: string };
+
+const toKey = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'item';
+
+function uniqueKey(preferred: string, taken: Set<string>): string {
+  let key = preferred;
+  for (let n = 2; taken.has(key); n++) key = `${preferred}_${n}`;
+  taken.add(key);
+  return key;
+}
+
+const isRecommendation = (value: any): value is ScorecardRecommendation => RECOMMENDATIONS.includes(value);
+
+class ScorecardService {
+  /**
+   * Validate a template submitted with a job. Returns null for "use the default template" and throws
+   * when the template is unusable. Existing keys are kept so submitted scorecards still line up.
+   */
+  normalizeTemplate(input: any): ScorecardTemplate | null {
+    if (input === null || input === undefined) {
+      return null;
+    }
+    if (typeof input !== 'object' || !Array.isArray(input.competencies)) {
+      throw new Error('Scorecard template must list competencies');
+    }
+
+    const competencyKeys = new Set<string>();
+    const competencies = input.competencies
+      .filter((competency: any) => competency && typeof competency.name === 'string' && competency.name.trim())
+      .map((competency: any) => ({
+        key: uniqueKey(typeof competency.key === 'string' && competency.key.trim() ? toKey(competency.key) : toKey(competency.name), competencyKeys),
+        name: competency.name.trim(),
+        description: typeof competency.description === 'string' && competency.description.trim() ? competency.description.trim() : null,
+      }));
+    if (competencies.length === 0) {
+      throw new Error('A scorecard needs at least one competency');
+    }
+    if (competencies.length > MAX_COMPETENCIES) {
+      throw new Error(`A scorecard can have at most ${MAX_COMPETENCIES} competencies`);
+    }
+
+    const max = Number(input.ratingScale?.max ?? DEFAULT_SCORECARD_TEMPLATE.ratingScale.max);
+    if (!Number.isInteger(max) || max < 2 || max > 10) {
+      throw new Error('Rating scale must run from 1 to between 2 and 10');
+    }
+    const labels: string[] = Array.isArray(input.ratingScale?.labels)
+      ? input.ratingScale.labels.map((label: any) => String(label ?? '').trim())
+      : [];
+    if (labels.some(Boolean) && labels.length !== max) {
+      throw new Error(`Provide one label per rating (${max}) or none`);
+    }
+
+    const questionKeys = new Set<string>();
+    const questions = (Array.isArray(input.questions) ? input.questions : [])
+      .filter((question: any) => question && typeof question.text === 'string' && question.text.trim())
+      .map((question: any) => ({
+        key: uniqueKey(typeof question.key === 'string' && question.key.trim() ? toKey(question.key) : toKey(question.text), questionKeys),
+        text: question.text.trim(),
+        required: question.required === true,
+      }));
+    if (questions.length > MAX_QUESTIONS) {
+      throw new Error(`A scorecard can have at most ${MAX_QUESTIONS} questions`);
+    }
+
+    return { competencies, ratingScale: { max, labels: labels.some(Boolean) ? labels : [] }, questions };
+  }
+
+  async templateForJob(jobId: string | number | null | undefined): Promise<ScorecardTemplate> {
+    const id = jobId === null || jobId === undefined ? NaN : parseInt(String(jobId));
+    if (isNaN(id)) {
+      return DEFAULT_SCORECARD_TEMPLATE;
+    }
+    const job = await storage.getJob(id);
+    return job?.scorecardTemplate || DEFAULT_SCORECARD_TEMPLATE;
+  }
+
+  async getInterview(interviewId: string, organizationId: string): Promise<RealInterview | undefined> {
+    const [interview] = await db
+      .select()
+      .from(realInterviews)
+      .where(and(eq(realInterviews.id, interviewId), eq(realInterviews.organizationId, organizationId)));
+    return interview;
+  }
+
+  private async withInterviewerNames(scorecards: InterviewScorecard[]): Promise<ScorecardWithInterviewer[]> {
+    const ids = Array.from(new Set(scorecards.map(scorecard => scorecard.interviewerId)));
+    const people = ids.length > 0
+      ? await db
+          .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email })
+          .from(users)
+          .where(inArray(users.id, ids))
+      : [];
+    const names = new Map<string, string>(people.map((person: { id: string; firstName: string | null; lastName: string | null; email: string }) => [
+      person.id,
+      [person.firstName, person.lastName].filter(Boolean).join(' ') || person.email,
+    ]));
+    return scorecards.map(scorecard => ({ ...scorecard, interviewerName: names.get(scorecard.interviewerId) || 'Unknown' }));
+  }
+
+  /**
+   * Replace the interview's panel. Interviewers must be members of the organization, and those who
+   * already submitted cannot be removed. Outstanding drafts of removed interviewers are discarded.
+   */
+  async setInterviewers(interview: RealInterview, userIds: string[], assignedBy: string): Promise<{ success: true } | { success: false; status: number; message: string }> {
+    const organizationId = interview.organizationId!;
+    const requested = Array.from(new Set(userIds.filter(id => typeof id === 'string' && id)));
+
+    const members = requested.length > 0
+      ? await db
+          .select({ userId: organizationMembers.userId })
+          .from(organizationMembers)
+          .where(and(eq(organizationMembers.organizationId, organizationId), inArray(organizationMembers.userId, requested)))
+      : [];
+    const memberIds = new Set(members.map((member: { userId: string | null }) => member.userId));
+    const outsiders = requested.filter(id => !memberIds.has(id));
+    if (outsiders.length > 0) {
+      return { success: false, status: 400, message: 'Interviewers must be members of your organization' };
+    }
+
+    const existing: InterviewScorecard[] = await db
+      .select()
+      .from(interviewScorecards)
+      .where(eq(interviewScorecards.interviewId, interview.id));
+    const submittedRemoved = existing.filter(scorecard => scorecard.status === 'submitted' && !requested.includes(scorecard.interviewerId));
+    if (submittedRemoved.length > 0) {
+      return { success: false, status: 409, message: 'Interviewers who submitted a scorecard cannot be removed' };
+    }
+
+    const existingIds = new Set(existing.map(scorecard => scorecard.interviewerId));
+    await db.transaction(async (tx: DbTransaction) => {
+      await tx.delete(interviewScorecards).where(and(
+        eq(interviewScorecards.interviewId, interview.id),
+        requested.length > 0 ? notInArray(interviewScorecards.interviewerId, requested) : undefined
+      ));
+      const added = requested.filter(id => !existingIds.has(id));
+      if (added.length > 0) {
+        await tx.insert(interviewScorecards).values(added.map(interviewerId => ({
+          interviewId: interview.id,
+          organizationId,
+          interviewerId,
+          assignedBy,
+        })));
+      }
+
+      // Keep the display name on the interview in step with the panel
+      const panel = await this.withInterviewerNames(requested.map(interviewerId => ({ interviewerId } as InterviewScorecard)));
+      if (panel.length > 0) {
+        await tx.update(realInterviews)
+          .set({ interviewer: panel.map(member => member.interviewerName).join(', '), updatedAt: new Date() })
+          .where(eq(realInterviews.id, interview.id));
+      }
+    });
+    return { success: true };
+  }
+
+  /**
+   * Save the viewer's own scorecard as a draft, or submit it. Submitted scorecards are final.
+   */
+  async saveScorecard(interview: RealInterview, interviewerId: string, input: ScorecardInput): Promise<ScorecardResult> {
+    const [scorecard] = await db
+      .select()
+      .from(interviewScorecards)
+      .where(and(eq(interviewScorecards.interviewId, interview.id), eq(interviewScorecards.interviewerId, interviewerId)));
+    if (!scorecard) {
+      return { success: false, status: 403, message: 'You are not on the panel for this interview' };
+    }
+    if (scorecard.status === 'submitted') {
+      return { success: false, status: 409, message: 'This scorecard has already been submitted' };
+    }
+
+    const template = await this.templateForJob(interview.jobId);
+    const ratings: Record<string, number> = {};
+    for (const competency of template.competencies) {
+      const value = input.ratings?.[competency.key];
+      if (value === undefined || value === null || value === '') continue;
+      const rating = Number(value);
+      if (!Number.isInteger(rating) || rating < 1 || rating > template.ratingScale.max) {
+        return { success: false, status: 400, message: `Rating for ${competency.name} must be between 1 and ${template.ratingScale.max}` };
+      }
+      ratings[competency.key] = rating;
+    }
+    const answers: Record<string, string> = {};
+    for (const question of template.questions) {
+      const answer = input.answers?.[question.key];
+      if (typeof answer === 'string' && answer.trim()) {
+        answers[question.key] = answer.trim();
+      }
+    }
+    const recommendation = input.recommendation ? input.recommendation : null;
+    if (recommendation !== null && !isRecommendation(recommendation)) {
+      return { success: false, status: 400, message: 'Invalid recommendation' };
+    }
+
+    if (input.submit) {
+      const unrated = template.competencies.filter(competency => ratings[competency.key] === undefined);
+      if (unrated.length > 0) {
+        return { success: false, status: 400, message: `Rate every competency before submitting (missing: ${unrated.map(c => c.name).join(', ')})` };
+      }
+      const unanswered = template.questions.filter(question => question.required && !answers[question.key]);
+      if (unanswered.length > 0) {
+        return { success: false, status: 400, message: 'Answer every required question before submitting' };
+      }
+      if (!recommendation) {
+        return { success: false, status: 400, message: 'Choose a hire recommendation before submitting' };
+      }
+    }
+
+    const [saved] = await db
+      .update(interviewScorecards)
+      .set({
+        ratings,
+        answers,
+        recommendation,
+        notes: typeof input.notes === 'string' ? input.notes : scorecard.notes,
+        status: input.submit ? 'submitted' : 'draft',
+        template: input.submit ? template : null,
+        submittedAt: input.submit ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(interviewScorecards.id, scorecard.id))
+      .returning();
+
+    if (input.submit) {
+      await applicantEventService.recordForCandidate({ applicantUserId: interview.candidateId, jobId: interview.jobId }, {
+        organizationId: interview.organizationId,
+        action: 'scorecard_submitted',
+        actorId: interviewerId,
+        after: { recommendation },
+        metadata: { interviewId: interview.id },
+      });
+    }
+    return { success: true, scorecard: saved };
+  }
+
+  /**
+   * Combine submitted scorecards into one panel recommendation. Ratings are compared as a share
+   * of each scorecard's own scale, since the template may change between interviews.
+   */
+  aggregate(scorecards: InterviewScorecard[], template: ScorecardTemplate): ScorecardAggregate {
+    const submitted = scorecards.filter(scorecard => scorecard.status === 'submitted');
+    const votes: Record<ScorecardRecommendation, number> = { strong_no: 0, no: 0, yes: 0, strong_yes: 0 };
+    const shares: number[] = [];
+    const byCompetency = new Map<string, number[]>();
+
+    for (const scorecard of submitted) {
+      if (scorecard.recommendation && isRecommendation(scorecard.recommendation)) {
+        votes[scorecard.recommendation]++;
+      }
+      const max = scorecard.template?.ratingScale.max || template.ratingScale.max;
+      for (const [key, rating] of Object.entries(scorecard.ratings || {})) {
+        shares.push(rating / max);
+        byCompetency.set(key, [...(byCompetency.get(key) || []), (rating / max) * template.ratingScale.max]);
+      }
+    }
+
+    const voteCount = RECOMMENDATIONS.reduce((sum, recommendation) => sum + votes[recommendation], 0);
+    const mean = voteCount > 0
+      ? RECOMMENDATIONS.reduce((sum, recommendation) => sum + votes[recommendation] * RECOMMENDATION_VALUES[recommendation], 0) / voteCount
+      : null;
+    const recommendation: PanelRecommendation | null = mean === null ? null
+      : mean >= 1.5 ? 'strong_hire'
+      : mean > 0 ? 'hire'
+      : mean === 0 ? 'mixed'
+      : mean > -1.5 ? 'no_hire'
+      : 'strong_no_hire';
+
+    const round = (value: number) => Math.round(value * 10) / 10;
+    return {
+      submitted: submitted.length,
+      pending: scorecards.length - submitted.length,
+      recommendation,
+      votes,
+      averageRating: shares.length > 0 ? Math.round((shares.reduce((sum, share) => sum + share, 0) / shares.length) * 100) : null,
+      competencyAverages: template.competencies
+        .filter(competency => byCompetency.has(competency.key))
+        .map(competency => {
+          const ratings = byCompetency.get(competency.key)!;
+          return {
+            key: competency.key,
+            name: competency.name,
+            average: round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length),
+            max: template.ratingScale.max,
+          };
+        }),
+    };
+  }
+
+  /**
+   * Build what the viewer may see of a set of scorecards. An interviewer whose own scorecard is
+   * still outstanding sees neither the others' feedback nor the aggregate, so it cannot anchor theirs.
+   */
+  private async view(scorecards: InterviewScorecard[], template: ScorecardTemplate, viewerId: string): Promise<ScorecardView> {
+    const named = await this.withInterviewerNames(scorecards);
+    const mine = named.filter(scorecard => scorecard.interviewerId === viewerId);
+    const blind = mine.some(scorecard => scorecard.status !== 'submitted');
+    return {
+      template,
+      interviewers: named.map(scorecard => ({
+        userId: scorecard.interviewerId,
+        name: scorecard.interviewerName,
+        status: scorecard.status,
+        submittedAt: scorecard.submittedAt,
+      })),
+      myScorecard: mine.find(scorecard => scorecard.status !== 'submitted') || mine[0] || null,
+      scorecards: blind ? [] : named.filter(scorecard => scorecard.status === 'submitted' && scorecard.interviewerId !== viewerId),
+      blind,
+      aggregate: blind ? null : this.aggregate(scorecards, template),
+    };
+  }
+
+  async getInterviewView(interview: RealInterview, viewerId: string): Promise<ScorecardView> {
+    const scorecards = await db
+      .select()
+      .from(interviewScorecards)
+      .where(eq(interviewScorecards.interviewId, interview.id))
+      .orderBy(interviewScorecards.createdAt);
+    return await this.view(scorecards, await this.templateForJob(interview.jobId), viewerId);
+  }
+
+  /**
+   * Feedback across every interview of one application, for the applicant page.
+   */
+  async getApplicationView(applicationId: string, organizationId: string, viewerId: string): Promise<ScorecardView | null> {
+    const [application] = await db
+      .select({ applicantUserId: airtableJobApplications.applicantUserId, jobId: airtableJobApplications.jobId })
+      .from(airtableJobApplications)
+      .innerJoin(jobs, eq(sql`${jobs.id}::text`, airtableJobApplications.jobId))
+      .where(and(eq(airtableJobApplications.id, applicationId), eq(jobs.organizationId, organizationId)));
+    if (!application) {
+      return null;
+    }
+
+    const template = await this.templateForJob(application.jobId);
+    if (!application.applicantUserId) {
+      return await this.view([], template, viewerId);
+    }
+    const scorecards = await db
+      .select({ scorecard: interviewScorecards })
+      .from(interviewScorecards)
+      .innerJoin(realInterviews, eq(realInterviews.id, interviewScorecards.interviewId))
+      .where(and(
+        eq(realInterviews.organizationId, organizationId),
+        eq(realInterviews.candidateId, application.applicantUserId),
+        eq(realInterviews.jobId, application.jobId)
+      ))
+      .orderBy(interviewScorecards.createdAt);
+    return await this.view(scorecards.map((row: { scorecard: InterviewScorecard }) => row.scorecard), template, viewerId);
+  }
+}
+
+export const scorecardService = new ScorecardService();
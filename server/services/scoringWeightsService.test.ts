@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ScoringWeights } from '@shared/schema';
+import type { JobMatchScore } from '../resumeProcessingService';
+import { scoringWeightsService } from './scoringWeightsService';
+
+const WEIGHTS: ScoringWeights = { technicalSkills: 50, experience: 30, culturalFit: 20, education: 0 };
+
+const STORED = {
+  overallScore: 70,
+  technicalSkillsScore: 90,
+  experienceScore: 60,
+  culturalFitScore: 50,
+};
+
+test('normalize rounds weights, fills missing dimensions and rejects unusable input', () => {
+  assert.equal(scoringWeightsService.normalize(null), null);
+  assert.deepEqual(scoringWeightsService.normalize({ technicalSkills: '40.6', experience: 60 }), {
+    technicalSkills: 41, experience: 60, culturalFit: 0, education: 0,
+  });
+  assert.throws(() => scoringWeightsService.normalize('heavy'), /must be an object/);
+  assert.throws(() => scoringWeightsService.normalize({ technicalSkills: 120 }), /technicalSkills must be between 0 and 100/);
+  assert.throws(() => scoringWeightsService.normalize({ experience: -1 }), /between 0 and 100/);
+  assert.throws(() => scoringWeightsService.normalize({ technicalSkills: 0 }), /At least one/);
+});
+
+test('job weights take precedence over the organization default', () => {
+  const orgDefault = { ...WEIGHTS, technicalSkills: 10 };
+  assert.equal(scoringWeightsService.resolve({ scoringWeights: WEIGHTS }, { defaultScoringWeights: orgDefault }), WEIGHTS);
+  assert.equal(scoringWeightsService.resolve({ scoringWeights: null }, { defaultScoringWeights: orgDefault }), orgDefault);
+  assert.equal(scoringWeightsService.resolve({ scoringWeights: null }, null), null);
+  assert.equal(scoringWeightsService.sameWeights(null, undefined), true);
+  assert.equal(scoringWeightsService.sameWeights(WEIGHTS, orgDefault), false);
+});
+
+test('weighted overall averages stored sub-scores', () => {
+  // (90 * 50 + 60 * 30 + 50 * 20) / 100
+  assert.equal(scoringWeightsService.weightedOverall(STORED, WEIGHTS), 73);
+  assert.equal(scoringWeightsService.weightedOverall(STORED, null), 70);
+});
+
+test('education comes from the section D breakdown and section F adjusts within five points', () => {
+  const weights = { technicalSkills: 50, experience: 0, culturalFit: 0, education: 50 };
+  const score = {
+    ...STORED,
+    fullResponse: {
+      detailedBreakdown: {
+        sectionD: { D1_education: { score: 5 }, D2_certifications: { score: 2 } },
+        sectionF: { bonusPoints: { score: 3 }, penalties: { score: 10 } },
+      },
+    },
+  };
+
+  // (90 + 70) / 2 = 80, then 3 bonus - 10 penalty clamped to -5
+  assert.equal(scoringWeightsService.weightedOverall(score, weights), 75);
+  assert.equal(scoringWeightsService.weightedOverall({ ...score, fullResponse: { sectionD: 4, sectionF: 2 } }, weights), 67);
+});
+
+test('dimensions without a stored value are left out', () => {
+  const weights = { technicalSkills: 50, experience: 0, culturalFit: 0, education: 50 };
+  assert.equal(scoringWeightsService.weightedOverall(STORED, weights), 90);
+  assert.equal(scoringWeightsService.weightedOverall(STORED, { technicalSkills: 0, experience: 0, culturalFit: 0, education: 100 }), 70);
+});
+
+test('disqualified and knocked-out scores keep the model overall score', () => {
+  assert.equal(scoringWeightsService.weightedOverall({ ...STORED, disqualified: true }, WEIGHTS), 70);
+  assert.equal(scoringWeightsService.weightedOverall({ ...STORED, knockoutResult: { passed: false } }, WEIGHTS), 70);
+  assert.equal(scoringWeightsService.weightedOverall({ ...STORED, aiOverallScore: 65, overallScore: 73 }, null), 65);
+});
+
+test('apply keeps the model overall score alongside the weighted one', () => {
+  const applied = scoringWeightsService.apply({ ...STORED, matchSummary: '' } as JobMatchScore, WEIGHTS);
+
+  assert.equal(applied.overallScore, 73);
+  assert.equal(applied.aiOverallScore, 70);
+  assert.equal(applied.scoringWeights, WEIGHTS);
+
+  // Re-applying to an already weighted result starts from the model's score again
+  const reweighted = scoringWeightsService.apply(applied, null);
+  assert.equal(reweighted.overallScore, 70);
+});
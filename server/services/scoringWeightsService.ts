@@ -0,0 +1,204 @@
+import { db } from '../db';
+import { resumeJobScores, jobs, type Job, type Organization, type ScoringWeights } from '@shared/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { storage } from '../storage';
+import type { JobMatchScore } from '../resumeProcessingService';
+
+export const SCORING_DIMENSIONS = ['technicalSkills', 'experience', 'culturalFit', 'education'] as const;
+
+type StoredScore = {
+  overallScore: number | null;
+  aiOverallScore?: number | null;
+  technicalSkillsScore: number | null;
+  experienceScore: number | null;
+  culturalFitScore: number | null;
+  disqualified?: boolean | null;
+  knockoutResult?: { passed: boolean } | null;
+  fullResponse?: any;
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function toNumber(value: any): number | null {
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+class ScoringWeightsService {
+  /**
+   * Validate weights submitted by a recruiter. Returns null for "no weights" (use the model's
+   * overall score) and throws when the values are unusable.
+   */
+  normalize(input: any): ScoringWeights | null {
+    if (input === null || input === undefined) {
+      return null;
+    }
+    if (typeof input !== 'object') {
+      throw new Error('Scoring weights must be an object');
+    }
+    const weights = {} as ScoringWeights;
+    for (const dimension of SCORING_DIMENSIONS) {
+      const value = toNumber(input[dimension] ?? 0);
+      if (value === null || value < 0 || value > 100) {
+        throw new Error(`Weight for ${dimension} must be between 0 and 100`);
+      }
+      weights[dimension] = Math.round(value);
+    }
+    if (SCORING_DIMENSIONS.every(dimension => weights[dimension] === 0)) {
+      throw new Error('At least one scoring weight must be greater than 0');
+    }
+    return weights;
+  }
+
+  sameWeights(a: ScoringWeights | null | undefined, b: ScoringWeights | null | undefined): boolean {
+    if (!a || !b) {
+      return !a && !b;
+    }
+    return SCORING_DIMENSIONS.every(dimension => (a[dimension] ?? 0) === (b[dimension] ?? 0));
+  }
+
+  /**
+   * Weights in effect for a job: its own configuration, else the organization default.
+   */
+  resolve(job: Pick<Job, 'scoringWeights'>, organization?: Pick<Organization, 'defaultScoringWeights'> | null): ScoringWeights | null {
+    return job.scoringWeights || organization?.defaultScoringWeights || null;
+  }
+
+  async weightsForJob(job: Job): Promise<ScoringWeights | null> {
+    if (job.scoringWeights) {
+      return job.scoringWeights;
+    }
+    const organization = job.organizationId ? await storage.getOrganizationById(job.organizationId) : undefined;
+    return this.resolve(job, organization);
+  }
+
+  /**
+   * Education has no stored sub-score, so it is read from the model's section D breakdown (0-10 points).
+   */
+  private educationScore(fullResponse: any): number | null {
+    if (!fullResponse) {
+      return null;
+    }
+    const sectionTotal = toNumber(fullResponse.sectionD);
+    if (sectionTotal !== null) {
+      return clamp(Math.round(sectionTotal * 10), 0, 100);
+    }
+    const sectionD = fullResponse.detailedBreakdown?.sectionD;
+    const education = toNumber(sectionD?.D1_education?.score);
+    const certifications = toNumber(sectionD?.D2_certifications?.score);
+    if (education === null && certifications === null) {
+      return null;
+    }
+    return clamp(Math.round(((education ?? 0) + (certifications ?? 0)) * 10), 0, 100);
+  }
+
+  // Bonus and penalty points (section F) are applied on top of the weighted average
+  private adjustment(fullResponse: any): number {
+    const sectionTotal = toNumber(fullResponse?.sectionF);
+    if (sectionTotal !== null) {
+      return clamp(sectionTotal, -5, 5);
+    }
+    const sectionF = fullResponse?.detailedBreakdown?.sectionF;
+    const bonus = toNumber(sectionF?.bonusPoints?.score) ?? 0;
+    const penalty = toNumber(sectionF?.penalties?.score) ?? 0;
+    return clamp(bonus + (penalty > 0 ? -penalty : penalty), -5, 5);
+  }
+
+  /**
+   * Overall score for stored sub-scores under the given weights, without calling the model.
+   * Disqualified and knocked-out scores keep the model's overall score.
+   */
+  weightedOverall(score: StoredScore, weights: ScoringWeights | null): number | null {
+    const aiOverall = score.aiOverallScore ?? score.overallScore;
+    if (!weights || score.disqualified || (score.knockoutResult && !score.knockoutResult.passed)) {
+      return aiOverall;
+    }
+
+    const values: Record<typeof SCORING_DIMENSIONS[number], number | null> = {
+      technicalSkills: score.technicalSkillsScore,
+      experience: score.experienceScore,
+      culturalFit: score.culturalFitScore,
+      education: this.educationScore(score.fullResponse),
+    };
+
+    // Dimensions without a stored value are left out and the remaining weights rescaled
+    let total = 0;
+    let weightSum = 0;
+    for (const dimension of SCORING_DIMENSIONS) {
+      const value = values[dimension];
+      if (value === null || value === undefined || !weights[dimension]) {
+        continue;
+      }
+      total += value * weights[dimension];
+      weightSum += weights[dimension];
+    }
+    if (weightSum === 0) {
+      return aiOverall;
+    }
+
+    return clamp(Math.round(total / weightSum + this.adjustment(score.fullResponse)), 0, 100);
+  }
+
+  /**
+   * Apply a job's weights to a fresh scoring result, keeping the model's own overall score.
+   */
+  apply(jobScore: JobMatchScore, weights: ScoringWeights | null): JobMatchScore {
+    const aiOverallScore = jobScore.aiOverallScore ?? jobScore.overallScore;
+    const scored = { ...jobScore, aiOverallScore };
+    return {
+      ...scored,
+      overallScore: this.weightedOverall(scored, weights) ?? aiOverallScore,
+      scoringWeights: weights,
+    };
+  }
+
+  /**
+   * Recompute overallScore for every stored score of a job under its current weights.
+   * Returns the number of scores whose overall score changed.
+   */
+  async recomputeJob(jobId: number): Promise<number> {
+    const job = await storage.getJob(jobId);
+    if (!job) {
+      return 0;
+    }
+    const weights = await this.weightsForJob(job);
+
+    const scores = await db.select().from(resumeJobScores).where(eq(resumeJobScores.jobId, jobId));
+    let changed = 0;
+    for (const score of scores) {
+      const overallScore = this.weightedOverall(score, weights);
+      // Scores stored before weighting existed carry the model's overall score in overallScore
+      const aiOverallScore = score.aiOverallScore ?? score.overallScore;
+      if (overallScore === score.overallScore && aiOverallScore === score.aiOverallScore
+        && this.sameWeights(weights, score.scoringWeights)) {
+        continue;
+      }
+      await db.update(resumeJobScores)
+        .set({ overallScore, aiOverallScore, scoringWeights: weights })
+        .where(eq(resumeJobScores.id, score.id));
+      if (overallScore !== score.overallScore) {
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Recompute the jobs of an organization that inherit its default weights.
+   */
+  async recomputeOrganization(organizationId: string): Promise<number> {
+    const inheriting = await db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.organizationId, organizationId), isNull(jobs.scoringWeights)));
+    let changed = 0;
+    for (const job of inheriting) {
+      changed += await this.recomputeJob(job.id);
+    }
+    return changed;
+  }
+}
+
+export const scoringWeightsService = new ScoringWeightsService();
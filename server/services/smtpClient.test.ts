@@ -0,0 +1,139 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { buildMimeMessage, sendSmtp, type SmtpConfig } from './smtpClient';
+import type { OutgoingEmail } from './emailTransportService';
+
+// A tiny SMTP relay: it answers each command and records the conversation
+let commands: string[] = [];
+let messages: string[] = [];
+let extensions = ['AUTH PLAIN LOGIN'];
+let server: net.Server;
+let port: number;
+
+before(async () => {
+  server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test.local ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        messages.push(buffer.slice(0, end + 2));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        commands.push(line);
+        if (line.startsWith('EHLO')) {
+          const lines = ['test.local', ...extensions];
+          socket.write(lines.map((text, index) => `250${index === lines.length - 1 ? ' ' : '-'}${text}\r\n`).join(''));
+        } else if (line.startsWith('AUTH PLAIN')) {
+          socket.write('235 ok\r\n');
+        } else if (line === 'AUTH LOGIN') {
+          socket.write('334 VXNlcm5hbWU6\r\n');
+        } else if (commands[commands.length - 2] === 'AUTH LOGIN') {
+          socket.write('334 UGFzc3dvcmQ6\r\n');
+        } else if (commands[commands.length - 3] === 'AUTH LOGIN') {
+          socket.write('235 ok\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else if (line.startsWith('RCPT TO:<rejected@')) {
+          socket.write('550 no such user\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => {
+  server.close();
+});
+
+const config = (overrides: Partial<SmtpConfig> = {}): SmtpConfig => ({
+  host: '127.0.0.1', port, security: 'none', username: '', password: '', ...overrides,
+});
+
+const message = (overrides: Partial<OutgoingEmail> = {}): OutgoingEmail => ({
+  to: 'sara@example.com',
+  from: { email: 'jobs@acme.example', name: 'Acme Hiring' },
+  subject: 'Your interview',
+  text: 'Hello Sara',
+  html: '<p>Hello Sara</p>',
+  ...overrides,
+});
+
+test('a message is delivered through the relay', async () => {
+  commands = [];
+  messages = [];
+  await sendSmtp(config(), message({ text: 'Line one\n.hidden line', html: '' }));
+
+  assert.ok(commands[0].startsWith('EHLO '));
+  assert.deepEqual(commands.slice(1), ['MAIL FROM:<jobs@acme.example>', 'RCPT TO:<sara@example.com>', 'DATA', 'QUIT']);
+  assert.equal(messages.length, 1);
+  assert.match(messages[0], /^From: "Acme Hiring" <jobs@acme\.example>\r\nTo: sara@example\.com\r\nSubject: Your interview\r\n/);
+  // The body is base64, so a leading dot in the text never reaches the wire as one
+  assert.ok(messages[0].includes(Buffer.from('Line one\n.hidden line').toString('base64')));
+});
+
+test('credentials use AUTH PLAIN, or AUTH LOGIN when that is all the server offers', async () => {
+  commands = [];
+  await sendSmtp(config({ username: 'relay', password: 'secret' }), message());
+  assert.equal(commands[1], `AUTH PLAIN ${Buffer.from('\0relay\0secret').toString('base64')}`);
+
+  commands = [];
+  extensions = ['AUTH LOGIN'];
+  try {
+    await sendSmtp(config({ username: 'relay', password: 'secret' }), message());
+  } finally {
+    extensions = ['AUTH PLAIN LOGIN'];
+  }
+  assert.deepEqual(commands.slice(1, 4), ['AUTH LOGIN', Buffer.from('relay').toString('base64'), Buffer.from('secret').toString('base64')]);
+});
+
+test('rejections and missing STARTTLS are reported', async () => {
+  await assert.rejects(sendSmtp(config(), message({ to: 'rejected@example.com' })), /SMTP RCPT TO:<rejected@example\.com> failed: 550 no such user/);
+  await assert.rejects(sendSmtp(config({ security: 'starttls' }), message()), /does not offer STARTTLS/);
+});
+
+test('addresses with line breaks are refused before anything is sent', async () => {
+  commands = [];
+  for (const to of ['sara@example.com\r\nRCPT TO:<other@example.com>', 'sara@example.com>\r\nBcc: other@example.com', 'sara@example.com\nBcc: x@example.com']) {
+    await assert.rejects(sendSmtp(config(), message({ to })), /Invalid email address/);
+    assert.throws(() => buildMimeMessage(message({ to })), /Invalid email address/);
+  }
+  await assert.rejects(
+    sendSmtp(config(), message({ from: { email: 'jobs@acme.example\r\nBcc: x@example.com', name: 'Acme' } })),
+    /Invalid email address/,
+  );
+  assert.deepEqual(commands, []);
+});
+
+test('headers that are not plain ASCII are encoded and attachments are base64 parts', () => {
+  const mime = buildMimeMessage(message({
+    subject: 'مقابلتك',
+    from: { email: 'jobs@acme.example', name: 'شركة النور' },
+    attachments: [{ content: Buffer.from('BEGIN:VCALENDAR').toString('base64'), filename: 'invite\r\n.ics', type: 'text/calendar; method=REQUEST', disposition: 'attachment' }],
+  }), new Date('2025-03-03T12:00:00Z'));
+
+  assert.ok(mime.includes(`Subject: =?UTF-8?B?${Buffer.from('مقابلتك').toString('base64')}?=`));
+  assert.ok(mime.includes(`From: =?UTF-8?B?${Buffer.from('شركة النور').toString('base64')}?= <jobs@acme.example>`));
+  assert.ok(mime.includes('Date: Mon, 03 Mar 2025 12:00:00 GMT'));
+  assert.match(mime, /Content-Type: multipart\/mixed; boundary=/);
+  assert.ok(mime.includes('Content-Disposition: attachment; filename="invite.ics"'));
+  assert.ok(mime.includes(Buffer.from('BEGIN:VCALENDAR').toString('base64')));
+});
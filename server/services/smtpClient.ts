@@ -0,0 +1,263 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import crypto from 'crypto';
+import type { SmtpSecurity } from '@shared/schema';
+import type { OutgoingEmail } from './emailTransportService';
+
+const TIMEOUT_MS = 20000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username: string;
+  password: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// RFC 2047 encoded-word for headers that aren't plain ASCII (Arabic subjects, accented names)
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+// Addresses go into headers and SMTP commands as they are, so a line break or bracket would start a new one
+function checkAddress(email: string): string {
+  if (!email || /[\s<>\x00-\x1f\x7f]/.test(email)) {
+    throw new Error(`Invalid email address: ${JSON.stringify(email)}`);
+  }
+  return email;
+}
+
+function formatAddress(address: { email: string; name?: string } | string): string {
+  if (typeof address === 'string') {
+    return checkAddress(address);
+  }
+  if (!address.name) {
+    return checkAddress(address.email);
+  }
+  const name = /^[\x20-\x7e]*$/.test(address.name) ? `"${address.name.replace(/["\\]/g, '\\$&')}"` : encodeHeader(address.name);
+  return `${name} <${checkAddress(address.email)}>`;
+}
+
+function base64Lines(content: Buffer | string): string {
+  const encoded = Buffer.isBuffer(content) ? content.toString('base64') : Buffer.from(content).toString('base64');
+  return encoded.replace(/.{1,76}/g, '$&\r\n').trimEnd();
+}
+
+function boundary(): string {
+  return `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+function multipart(type: string, parts: string[]): string {
+  const separator = boundary();
+  return [
+    `Content-Type: multipart/${type}; boundary="${separator}"`,
+    '',
+    ...parts.map(part => `--${separator}\r\n${part}`),
+    `--${separator}--`,
+  ].join('\r\n');
+}
+
+function textPart(type: 'plain' | 'html', content: string): string {
+  return `Content-Type: text/${type}; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${base64Lines(content)}`;
+}
+
+/**
+ * The message as an RFC 5322 document: what goes after SMTP DATA, and what the outbox writes as a .eml file.
+ */
+export function buildMimeMessage(message: OutgoingEmail, date: Date = new Date()): string {
+  const domain = message.from.email.split('@')[1] || 'localhost';
+  const bodies = [
+    message.text ? textPart('plain', message.text) : null,
+    message.html ? textPart('html', message.html) : null,
+  ].filter((part): part is string => !!part);
+  let body = bodies.length === 1 ? bodies[0] : multipart('alternative', bodies);
+
+  if (message.attachments?.length) {
+    const attachments = message.attachments.map(attachment => {
+      const filename = attachment.filename.replace(/["\x00-\x1f\x7f]/g, '');
+      return [
+        `Content-Type: ${attachment.type}; name="${filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: ${attachment.disposition || 'attachment'}; filename="${filename}"`,
+        '',
+        base64Lines(Buffer.from(attachment.content, 'base64')),
+      ].join('\r\n');
+    });
+    body = multipart('mixed', [body, ...attachments]);
+  }
+
+  return [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    body,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * One SMTP conversation (RFC 5321) over a plain, implicit-TLS or STARTTLS-upgraded socket.
+ */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private config: SmtpConfig) {}
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(TIMEOUT_MS);
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('timeout', () => this.fail(new Error(`SMTP server ${this.config.host} timed out`)));
+    socket.on('close', () => this.fail(new Error('SMTP server closed the connection')));
+  }
+
+  private detach() {
+    for (const event of ['data', 'error', 'timeout', 'close']) {
+      this.socket.removeAllListeners(event);
+    }
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line.slice(4));
+      // "250-..." continues a multiline reply; "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error;
+    this.waiting?.reject(this.failure);
+    this.waiting = null;
+    this.socket.destroy();
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private async command(line: string | null, expected: number[], shown = line): Promise<SmtpReply> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`);
+    }
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${shown ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  // SNI takes a hostname only
+  private get servername(): string | undefined {
+    return net.isIP(this.config.host) ? undefined : this.config.host;
+  }
+
+  private connectSocket(): Promise<void> {
+    const { host, port, security } = this.config;
+    return new Promise((resolve, reject) => {
+      const socket = security === 'tls'
+        ? tls.connect({ host, port, servername: this.servername }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  private upgrade(): Promise<void> {
+    this.detach();
+    const plain = this.socket;
+    return new Promise((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: this.servername }, () => resolve());
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  private async hello(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+    return reply.lines.map(line => line.toUpperCase());
+  }
+
+  private async authenticate(extensions: string[]) {
+    const { username, password } = this.config;
+    const auth = extensions.find(line => line.startsWith('AUTH')) || '';
+    if (auth.includes('PLAIN')) {
+      const token = Buffer.from(`\0${username}\0${password}`).toString('base64');
+      await this.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+    } else {
+      await this.command('AUTH LOGIN', [334]);
+      await this.command(Buffer.from(username).toString('base64'), [334], 'AUTH LOGIN username');
+      await this.command(Buffer.from(password).toString('base64'), [235], 'AUTH LOGIN password');
+    }
+  }
+
+  async send(from: string, to: string, data: string): Promise<void> {
+    try {
+      await this.connectSocket();
+      await this.command(null, [220]);
+      let extensions = await this.hello();
+      if (this.config.security === 'starttls') {
+        if (!extensions.some(line => line.startsWith('STARTTLS'))) {
+          throw new Error(`SMTP server ${this.config.host} does not offer STARTTLS`);
+        }
+        await this.command('STARTTLS', [220]);
+        await this.upgrade();
+        extensions = await this.hello();
+      }
+      if (this.config.username) {
+        await this.authenticate(extensions);
+      }
+      await this.command(`MAIL FROM:<${from}>`, [250]);
+      await this.command(`RCPT TO:<${to}>`, [250, 251]);
+      await this.command('DATA', [354]);
+      // Dot-stuffing: a line starting with "." would otherwise end the message early
+      const body = data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+      await this.command(`${body}${body.endsWith('\r\n') ? '' : '\r\n'}.`, [250], 'message');
+      await this.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      this.detach();
+      this.socket?.on('error', () => undefined);
+      this.socket?.destroy();
+    }
+  }
+}
+
+/**
+ * Deliver one message through an SMTP relay.
+ */
+export async function sendSmtp(config: SmtpConfig, message: OutgoingEmail): Promise<void> {
+  await new SmtpSession(config).send(checkAddress(message.from.email), checkAddress(message.to), buildMimeMessage(message));
+}
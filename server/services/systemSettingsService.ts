@@ -1,5 +1,5 @@
 import { db } from '../db';
-import { systemSettings } from '@shared/schema';
+import { systemSettings, type EmailTransportKind, type SmtpSecurity } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { encrypt, decrypt, isEncryptionAvailable } from '../utils/encryption';
 
@@ -10,6 +10,19 @@ export interface TwilioSettings {
   isConfigured: boolean;
 }
 
+export interface EmailSettings {
+  transport: EmailTransportKind | null; // null until a super admin picks one
+  fromEmail: string;
+  fromName: string;
+  sendgridApiKey: string;
+  smtpHost: string;
+  smtpPort: number | null;
+  smtpSecurity: SmtpSecurity;
+  smtpUsername: string;
+  smtpPassword: string;
+  outboxDirectory: string;
+}
+
 interface CacheEntry {
   value: string;
   timestamp: number;
@@ -156,6 +169,63 @@ class SystemSettingsService {
     }
   }
 
+  /**
+   * Get all email delivery settings
+   */
+  async getEmailSettings(): Promise<EmailSettings> {
+    const [transport, fromEmail, fromName, sendgridApiKey, smtpHost, smtpPort, smtpSecurity, smtpUsername, smtpPassword, outboxDirectory] =
+      await Promise.all([
+        'transport', 'from_email', 'from_name', 'sendgrid_api_key', 'smtp_host', 'smtp_port', 'smtp_security', 'smtp_username',
+        'smtp_password', 'outbox_directory',
+      ].map(key => this.getSetting('email', key)));
+
+    return {
+      transport: (transport || null) as EmailTransportKind | null,
+      fromEmail: fromEmail || '',
+      fromName: fromName || '',
+      sendgridApiKey: sendgridApiKey || '',
+      smtpHost: smtpHost || '',
+      smtpPort: smtpPort ? Number(smtpPort) : null,
+      smtpSecurity: (smtpSecurity || 'starttls') as SmtpSecurity,
+      smtpUsername: smtpUsername || '',
+      smtpPassword: smtpPassword || '',
+      outboxDirectory: outboxDirectory || '',
+    };
+  }
+
+  /**
+   * Set email delivery settings. The SendGrid key and SMTP password are stored encrypted.
+   */
+  async setEmailSettings(settings: Partial<EmailSettings>): Promise<void> {
+    const plain: Array<[keyof EmailSettings, string, string]> = [
+      ['transport', 'transport', 'Email transport (sendgrid, smtp or outbox)'],
+      ['fromEmail', 'from_email', 'Sender email address'],
+      ['fromName', 'from_name', 'Sender display name'],
+      ['smtpHost', 'smtp_host', 'SMTP server host'],
+      ['smtpPort', 'smtp_port', 'SMTP server port'],
+      ['smtpSecurity', 'smtp_security', 'SMTP connection security'],
+      ['smtpUsername', 'smtp_username', 'SMTP username'],
+      ['outboxDirectory', 'outbox_directory', 'Directory the outbox transport also writes .eml files to'],
+    ];
+    for (const [field, key, description] of plain) {
+      if (settings[field] !== undefined) {
+        await this.setSetting('email', key, String(settings[field] ?? ''), { description });
+      }
+    }
+    if (settings.sendgridApiKey !== undefined) {
+      await this.setSetting('email', 'sendgrid_api_key', settings.sendgridApiKey, {
+        encrypt: true,
+        description: 'SendGrid API key (encrypted)',
+      });
+    }
+    if (settings.smtpPassword !== undefined) {
+      await this.setSetting('email', 'smtp_password', settings.smtpPassword, {
+        encrypt: true,
+        description: 'SMTP password (encrypted)',
+      });
+    }
+  }
+
   /**
    * Clear the settings cache
    */
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { textExtractionService } from './textExtractionService';
+
+const RESUME_LINES = [
+  'Jane Doe - Senior Backend Engineer',
+  'Experience: Acme Corp 2019-2024, built payment APIs in Node.js and PostgreSQL for millions of users.',
+  'Education: BSc Computer Science, Cairo University. Skills: TypeScript, Go, Kubernetes, Redis.',
+];
+
+// Minimal single-entry ZIP archive with a deflated entry, as Word writes them
+function zipWith(name: string, content: string): Buffer {
+  const data = zlib.deflateRawSync(Buffer.from(content));
+  const nameBytes = Buffer.from(name);
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(content.length, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  central.writeUInt32LE(0, 42);
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+  return Buffer.concat([local, nameBytes, data, central, nameBytes, end]);
+}
+
+test('plain text is normalized and scored as readable', async () => {
+  const result = await textExtractionService.extractLocally(Buffer.from(RESUME_LINES.join('\r\n\r\n\r\n')), 'text/plain');
+  assert.equal(result?.extractor, 'plain_text');
+  assert.equal(result?.text, RESUME_LINES.join('\n\n'));
+  assert.ok(textExtractionService.isAcceptable(result));
+});
+
+test('HTML drops scripts and styles and decodes entities', async () => {
+  const html = `<html><head><style>p{}</style></head><body><script>alert(1)</script><h1>Jane &amp; Co</h1><ul><li>Go</li><li>&#x645;&#x647;&#x646;&#x62f;&#x633;</li></ul></body></html>`;
+  const result = await textExtractionService.extractLocally(Buffer.from(html), 'text/html');
+  assert.equal(result?.text, 'Jane & Co\n- Go\n- مهندس');
+});
+
+test('RTF keeps visible text, unicode escapes and paragraph breaks', async () => {
+  const rtf = String.raw`{\rtf1\ansi{\fonttbl{\f0 Arial;}}{\*\generator Word;}\f0 Jane Doe\par Caf\'e9 owner \u1605?\u1607?\par}`;
+  const result = await textExtractionService.extractLocally(Buffer.from(rtf, 'latin1'), 'application/rtf');
+  assert.equal(result?.text, 'Jane Doe\nCafé owner مه');
+});
+
+test('DOCX text comes from word/document.xml', async () => {
+  const xml = `<w:document><w:body>${RESUME_LINES.map(line => `<w:p><w:r><w:t>${line.replace('&', '&amp;')}</w:t></w:r></w:p>`).join('')}</w:body></w:document>`;
+  const result = await textExtractionService.extractLocally(zipWith('word/document.xml', xml), 'application/octet-stream', 'cv.docx');
+  assert.equal(result?.extractor, 'docx');
+  assert.equal(result?.text, RESUME_LINES.join('\n'));
+});
+
+test('a DOCX without a document part fails locally instead of throwing', async () => {
+  assert.equal(await textExtractionService.extractLocally(zipWith('other.xml', '<x/>'), 'application/octet-stream', 'cv.docx'), null);
+});
+
+test('garbled or short output is not acceptable', () => {
+  assert.equal(textExtractionService.measureQuality('too short').confidence, 0);
+  const garbage = Array.from({ length: 200 }, (_, i) => String.fromCharCode(0x2500 + (i % 90))).join('') + ' ÿþ ¤¤';
+  assert.ok(textExtractionService.measureQuality(garbage).confidence < 0.6);
+  assert.equal(textExtractionService.isAcceptable(null), false);
+});
+
+test('unknown file types have no local extractor', async () => {
+  assert.equal(await textExtractionService.extractLocally(Buffer.from('x'), 'image/png', 'scan.png'), null);
+});
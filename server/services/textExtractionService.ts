@@ -0,0 +1,296 @@
+import zlib from 'zlib';
+import { PDFParse } from 'pdf-parse';
+
+export interface TextExtractor {
+  name: string;
+  canHandle(mimeType: string, fileName?: string): boolean;
+  extract(buffer: Buffer): Promise<string>;
+}
+
+export interface TextQuality {
+  confidence: number; // 0-1
+  charCount: number;
+  wordCount: number;
+}
+
+export interface ExtractionResult extends TextQuality {
+  text: string;
+  extractor: string;
+}
+
+// Minimum confidence for locally extracted text to be accepted without escalating to the model
+export const MIN_LOCAL_EXTRACTION_CONFIDENCE = parseFloat(process.env.TEXT_EXTRACTION_MIN_CONFIDENCE || '') || 0.6;
+
+// Latin (incl. accented) and Arabic letters plus digits - the scripts resumes are expected in
+const WORD_CHARS = 'A-Za-z0-9\u00C0-\u024F\u0600-\u06FF';
+const WORD_TOKEN = new RegExp(`^[${WORD_CHARS}][${WORD_CHARS}'’.\\-@/+]*[,.;:)]?$`);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (match, name) => HTML_ENTITIES[name.toLowerCase()] ?? match);
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function extensionOf(fileName?: string): string {
+  const match = (fileName || '').toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match ? match[1] : '';
+}
+
+/**
+ * Read a single entry out of a ZIP archive (used for DOCX, which is a zipped set of XML parts).
+ */
+function readZipEntry(buffer: Buffer, entryName: string): Buffer | null {
+  // Locate the End Of Central Directory record (signature 0x06054b50), scanning back over the comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) return null;
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+      const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+      const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return Buffer.from(data);
+      if (method === 8) return zlib.inflateRawSync(data);
+      return null;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+const plainTextExtractor: TextExtractor = {
+  name: 'plain_text',
+  canHandle: (mimeType, fileName) =>
+    mimeType === 'text' || mimeType === 'text/plain' || mimeType === 'text/csv' || ['txt', 'csv', 'md'].includes(extensionOf(fileName)),
+  extract: async (buffer) => normalizeWhitespace(buffer.toString('utf8')),
+};
+
+const htmlExtractor: TextExtractor = {
+  name: 'html',
+  canHandle: (mimeType, fileName) =>
+    mimeType === 'text/html' || mimeType === 'application/xhtml+xml' || ['html', 'htm'].includes(extensionOf(fileName)),
+  extract: async (buffer) => {
+    const html = buffer.toString('utf8')
+      .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|tr|h[1-6]|section|article|header|footer)>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<[^>]+>/g, ' ');
+    return normalizeWhitespace(decodeEntities(html));
+  },
+};
+
+const rtfExtractor: TextExtractor = {
+  name: 'rtf',
+  canHandle: (mimeType, fileName) =>
+    mimeType === 'text/rtf' || mimeType === 'application/rtf' || extensionOf(fileName) === 'rtf',
+  extract: async (buffer) => {
+    const rtf = buffer.toString('latin1');
+    let output = '';
+    let depth = 0;
+    let skipDepth = -1; // Depth of an ignorable destination group being skipped
+    let i = 0;
+
+    while (i < rtf.length) {
+      const ch = rtf[i];
+
+      if (ch === '{') {
+        depth++;
+        // {\* ...} and well-known metadata groups carry no visible text
+        if (skipDepth === -1 && /^\{\\(\*|fonttbl|colortbl|stylesheet|info|pict|header|footer)/.test(rtf.slice(i, i + 12))) {
+          skipDepth = depth;
+        }
+        i++;
+        continue;
+      }
+
+      if (ch === '}') {
+        if (skipDepth === depth) skipDepth = -1;
+        depth--;
+        i++;
+        continue;
+      }
+
+      if (ch === '\\') {
+        const next = rtf[i + 1];
+        if (next === '\\' || next === '{' || next === '}') {
+          if (skipDepth === -1) output += next;
+          i += 2;
+          continue;
+        }
+        if (next === "'") {
+          if (skipDepth === -1) output += String.fromCharCode(parseInt(rtf.slice(i + 2, i + 4), 16));
+          i += 4;
+          continue;
+        }
+
+        const control = rtf.slice(i + 1).match(/^([a-z]+)(-?\d+)? ?/i);
+        if (!control) {
+          i += 2;
+          continue;
+        }
+        const [whole, word, param] = control;
+        if (skipDepth === -1) {
+          if (word === 'par' || word === 'line' || word === 'row') output += '\n';
+          else if (word === 'tab' || word === 'cell') output += '\t';
+          else if (word === 'u' && param) {
+            output += String.fromCharCode((parseInt(param, 10) + 65536) % 65536);
+            // Skip the single-character ANSI fallback that follows a \uN escape
+            const fallback = rtf[i + 1 + whole.length];
+            if (fallback && !'\\{}'.includes(fallback)) i++;
+          }
+        }
+        i += 1 + whole.length;
+        continue;
+      }
+
+      if (skipDepth === -1 && ch !== '\r' && ch !== '\n') output += ch;
+      i++;
+    }
+
+    return normalizeWhitespace(output);
+  },
+};
+
+const docxExtractor: TextExtractor = {
+  name: 'docx',
+  canHandle: (mimeType, fileName) =>
+    mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || extensionOf(fileName) === 'docx',
+  extract: async (buffer) => {
+    const documentXml = readZipEntry(buffer, 'word/document.xml');
+    if (!documentXml) {
+      throw new Error('word/document.xml not found in DOCX archive');
+    }
+    const xml = documentXml.toString('utf8')
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '');
+    return normalizeWhitespace(decodeEntities(xml));
+  },
+};
+
+const pdfExtractor: TextExtractor = {
+  name: 'pdf',
+  canHandle: (mimeType, fileName) => mimeType === 'application/pdf' || extensionOf(fileName) === 'pdf',
+  extract: async (buffer) => {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+    try {
+      const result = await parser.getText();
+      return normalizeWhitespace(result.text || '');
+    } finally {
+      await parser.destroy();
+    }
+  },
+};
+
+class TextExtractionService {
+  private extractors: TextExtractor[] = [
+    plainTextExtractor,
+    htmlExtractor,
+    rtfExtractor,
+    docxExtractor,
+    pdfExtractor,
+  ];
+
+  /**
+   * Register an additional extractor. Later registrations take precedence over built-ins.
+   */
+  registerExtractor(extractor: TextExtractor): void {
+    this.extractors.unshift(extractor);
+  }
+
+  /**
+   * Heuristic quality score for extracted text: penalizes short output, binary garbage and
+   * fragments that do not look like words (typical of scanned PDFs or broken encodings).
+   */
+  measureQuality(text: string): TextQuality {
+    const trimmed = (text || '').trim();
+    const charCount = trimmed.length;
+    const tokens = trimmed.split(/\s+/).filter(Boolean);
+    const wordCount = tokens.length;
+
+    if (charCount < 50 || wordCount === 0) {
+      return { confidence: 0, charCount, wordCount };
+    }
+
+    const readableChars = (trimmed.match(new RegExp(`[${WORD_CHARS}\\s.,;:!?'"()\\-+@/&%#*•|]`, 'g')) || []).length;
+    const readableRatio = readableChars / charCount;
+    const wordLikeTokens = tokens.filter(token => WORD_TOKEN.test(token)).length;
+    const wordRatio = wordLikeTokens / wordCount;
+    const lengthFactor = Math.min(1, charCount / 800);
+
+    const confidence = Math.round((0.4 * readableRatio + 0.4 * wordRatio + 0.2 * lengthFactor) * 100) / 100;
+    return { confidence, charCount, wordCount };
+  }
+
+  /**
+   * Run the first local extractor that handles this file type.
+   * Returns null when no extractor applies or the extractor fails.
+   */
+  async extractLocally(buffer: Buffer, mimeType: string, fileName?: string): Promise<ExtractionResult | null> {
+    const extractor = this.extractors.find(e => e.canHandle(mimeType, fileName));
+    if (!extractor) {
+      return null;
+    }
+
+    try {
+      const text = await extractor.extract(buffer);
+      return { text, extractor: extractor.name, ...this.measureQuality(text) };
+    } catch (error) {
+      console.warn(`⚠️ Local ${extractor.name} extraction failed:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether a locally extracted result is good enough to skip the model fallback.
+   */
+  isAcceptable(result: ExtractionResult | null): boolean {
+    return !!result && result.confidence >= MIN_LOCAL_EXTRACTION_CONFIDENCE;
+  }
+}
+
+export const textExtractionService = new TextExtractionService();
@@ -14,6 +14,9 @@ import {
   shortlistedApplicants,
   resumeProfiles,
   resumeJobScores,
+  resumeJobScoreHistory,
+  resumeProfileDuplicates,
+  resumeProfileVersions,
   customRules,
   creditTransactions,
   creditPricing,
@@ -53,7 +56,63 @@ import {
   type InsertCreditPricing,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, count, gt, inArray } from "drizzle-orm";
+import { eq, and, or, desc, sql, count, gt, inArray } from "drizzle-orm";
+
+// Structured-entity filters for the resume list (employer/title/degree are substring matches)
+export interface ResumeProfileFilters {
+  employer?: string;
+  title?: string;
+  degree?: string;
+  minTenureYears?: number;
+  maxTenureYears?: number;
+  graduationYearFrom?: number;
+  graduationYearTo?: number;
+}
+
+function buildResumeProfileFilterConditions(filters?: ResumeProfileFilters): string {
+  if (!filters) {
+    return '';
+  }
+
+  const like = (value: string) => `'%${value.trim().toLowerCase().replace(/'/g, "''").replace(/[%_\\]/g, '\\$&')}%'`;
+  let conditions = '';
+
+  if (filters.employer && filters.employer.trim()) {
+    conditions += ` AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(rp.experience_entries, '[]'::jsonb)) e
+      WHERE LOWER(e->>'company') LIKE ${like(filters.employer)}
+    )`;
+  }
+  if (filters.title && filters.title.trim()) {
+    conditions += ` AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(rp.experience_entries, '[]'::jsonb)) e
+      WHERE LOWER(e->>'title') LIKE ${like(filters.title)}
+    )`;
+  }
+  if (filters.degree && filters.degree.trim()) {
+    conditions += ` AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(rp.education_entries, '[]'::jsonb)) e
+      WHERE LOWER(e->>'degree') LIKE ${like(filters.degree)} OR LOWER(e->>'field') LIKE ${like(filters.degree)}
+    )`;
+  }
+  if (Number.isFinite(filters.minTenureYears)) {
+    conditions += ` AND rp.total_tenure_months >= ${Math.round(filters.minTenureYears! * 12)}`;
+  }
+  if (Number.isFinite(filters.maxTenureYears)) {
+    conditions += ` AND rp.total_tenure_months <= ${Math.round(filters.maxTenureYears! * 12)}`;
+  }
+  if (Number.isFinite(filters.graduationYearFrom) || Number.isFinite(filters.graduationYearTo)) {
+    const from = Number.isFinite(filters.graduationYearFrom) ? Math.trunc(filters.graduationYearFrom!) : 1900;
+    const to = Number.isFinite(filters.graduationYearTo) ? Math.trunc(filters.graduationYearTo!) : 2100;
+    conditions += ` AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(rp.education_entries, '[]'::jsonb)) e
+      WHERE jsonb_typeof(e->'graduationYear') = 'number'
+        AND (e->>'graduationYear')::int BETWEEN ${from} AND ${to}
+    )`;
+  }
+
+  return conditions;
+}
 
 export interface IStorage {
   // User operations (updated for custom auth)
@@ -84,7 +143,7 @@ export interface IStorage {
   updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization>;
   getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]>;
   addOrganizationMember(member: { organizationId: number; userId: string; role: string }): Promise<OrganizationMember>;
-  isOrganizationAdmin(userId: string, organizationId: number): Promise<boolean>;
+  isOrganizationAdmin(userId: string, organizationId: string | number): Promise<boolean>;
 
   // Organization invitation operations
   createInvitation(invitationData: InsertOrganizationInvitation): Promise<OrganizationInvitation>;
@@ -94,7 +153,7 @@ export interface IStorage {
   updateInvitationStatus(invitationId: number, status: string): Promise<void>;
   getPendingInvitationByEmailAndOrg(email: string, organizationId: number): Promise<OrganizationInvitation | undefined>;
   acceptInvitation(token: string, userId: string): Promise<{ organization: Organization; member: OrganizationMember } | null>;
-  getOrganizationMember(userId: string, organizationId: number): Promise<OrganizationMember | undefined>;
+  getOrganizationMember(userId: string, organizationId: string | number): Promise<OrganizationMember | undefined>;
   
   // Team member operations
   addTeamMember(memberData: { organizationId: number; userId: string; role: string; joinedAt: Date }): Promise<OrganizationMember>;
@@ -457,7 +516,7 @@ export class DatabaseStorage implements IStorage {
     return invitation;
   }
 
-  async getOrganizationMember(userId: string, organizationId: number): Promise<OrganizationMember | undefined> {
+  async getOrganizationMember(userId: string, organizationId: string | number): Promise<OrganizationMember | undefined> {
     const [member] = await db
       .select()
       .from(organizationMembers)
@@ -468,7 +527,7 @@ export class DatabaseStorage implements IStorage {
     return member;
   }
 
-  async isOrganizationAdmin(userId: string, organizationId: number): Promise<boolean> {
+  async isOrganizationAdmin(userId: string, organizationId: string | number): Promise<boolean> {
     const member = await this.getOrganizationMember(userId, organizationId);
     return member?.role === 'owner';
   }
@@ -609,8 +668,8 @@ export class DatabaseStorage implements IStorage {
       .from(jobs)
       .where(eq(jobs.organizationId, organizationId));
     
-    // Count active jobs manually for now to avoid SQL syntax issues
-    return allJobs.filter(job => job.is_active !== false).length;
+    // Count open jobs manually for now to avoid SQL syntax issues
+    return allJobs.filter(job => job.is_active !== false && job.status === 'open').length;
   }
 
   // Candidate operations
@@ -920,12 +979,14 @@ export class DatabaseStorage implements IStorage {
     sortOrder: string = 'desc',
     search?: string,
     status?: string,
-    jobId?: string
+    jobId?: string,
+    filters?: ResumeProfileFilters
   ): Promise<Array<{
     id: string;
     name: string;
     email: string | null;
     phone: string | null;
+    totalTenureMonths: number | null;
     createdAt: Date | null;
   }>> {
     const offset = (page - 1) * limit;
@@ -970,6 +1031,8 @@ export class DatabaseStorage implements IStorage {
       // which is handled in-memory in the routes.ts for now
     }
 
+    whereConditions += buildResumeProfileFilterConditions(filters);
+
     // Build ORDER BY
     const normalizedSortOrder = sortOrder === 'asc' ? 'ASC' : 'DESC';
     let orderBy = `rp.created_at ${normalizedSortOrder}`;
@@ -983,6 +1046,7 @@ export class DatabaseStorage implements IStorage {
         rp.name,
         rp.email,
         rp.phone,
+        rp.total_tenure_months,
         rp.created_at
       FROM resume_profiles rp
       LEFT JOIN (
@@ -1004,6 +1068,7 @@ export class DatabaseStorage implements IStorage {
       name: row.name,
       email: row.email,
       phone: row.phone,
+      totalTenureMonths: row.total_tenure_months,
       createdAt: row.created_at
     }));
   }
@@ -1012,7 +1077,8 @@ export class DatabaseStorage implements IStorage {
     organizationId: string,
     search?: string,
     status?: string,
-    jobId?: string
+    jobId?: string,
+    filters?: ResumeProfileFilters
   ): Promise<number> {
     // Build WHERE conditions
     let whereConditions = `rp.organization_id = '${organizationId}'`;
@@ -1050,6 +1116,8 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    whereConditions += buildResumeProfileFilterConditions(filters);
+
     const query = sql.raw(`
       SELECT COUNT(DISTINCT rp.id) as count
       FROM resume_profiles rp
@@ -1123,6 +1191,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteResumeProfile(id: string): Promise<void> {
+    await db.delete(resumeProfileDuplicates).where(
+      or(eq(resumeProfileDuplicates.profileId, id), eq(resumeProfileDuplicates.duplicateProfileId, id))
+    );
+    await db.delete(resumeProfileVersions).where(eq(resumeProfileVersions.profileId, id));
+    await db.delete(resumeJobScoreHistory).where(eq(resumeJobScoreHistory.profileId, id));
     await db.delete(resumeProfiles).where(eq(resumeProfiles.id, id));
   }
 
@@ -1175,6 +1248,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteJobScore(id: number): Promise<void> {
+    await db.delete(resumeJobScoreHistory).where(eq(resumeJobScoreHistory.scoreId, id));
     await db.delete(resumeJobScores).where(eq(resumeJobScores.id, id));
   }
 
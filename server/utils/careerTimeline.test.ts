@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeCareerTimeline,
+  experienceEntriesFromLegacy,
+  normalizeEducationEntries,
+  normalizeExperienceEntries,
+  normalizeResumeDate,
+} from './careerTimeline';
+
+test('free-form dates normalize to year-month or year', () => {
+  assert.equal(normalizeResumeDate('Jan 2020'), '2020-01');
+  assert.equal(normalizeResumeDate('Sept. 2019'), '2019-09');
+  assert.equal(normalizeResumeDate('September 2019'), '2019-09');
+  assert.equal(normalizeResumeDate('03/2021'), '2021-03');
+  assert.equal(normalizeResumeDate('2020-01-15'), '2020-01');
+  assert.equal(normalizeResumeDate('2018'), '2018');
+  assert.equal(normalizeResumeDate(2017), '2017');
+  assert.equal(normalizeResumeDate('Summer of 2016'), '2016');
+  assert.equal(normalizeResumeDate('2020-13'), '2020');
+  assert.equal(normalizeResumeDate('Present'), null);
+  assert.equal(normalizeResumeDate('unknown'), null);
+  assert.equal(normalizeResumeDate(''), null);
+});
+
+test('experience entries mark "present" end dates as current and drop empty ones', () => {
+  const entries = normalizeExperienceEntries([
+    { company: ' Acme ', title: 'Engineer', startDate: 'Jan 2020', endDate: 'Present' },
+    { company: 'Globex', title: 'Intern', startDate: '2018', endDate: '06/2019', description: '  ' },
+    { company: '', title: '' },
+    'not an entry',
+  ]);
+
+  assert.equal(entries.length, 2);
+  assert.deepEqual(entries[0], {
+    company: 'Acme', title: 'Engineer', startDate: '2020-01', endDate: null, isCurrent: true, location: null,
+  });
+  assert.equal(entries[1].endDate, '2019-06');
+  assert.equal(entries[1].isCurrent, false);
+  assert.equal('description' in entries[1], false);
+  assert.deepEqual(normalizeExperienceEntries(null), []);
+});
+
+test('education graduation year falls back to the end date and ignores implausible years', () => {
+  const [fromEnd, invalid] = normalizeEducationEntries([
+    { degree: 'BSc', institution: 'Cairo University', endDate: 'June 2015' },
+    { degree: 'MSc', institution: 'Somewhere', graduationYear: 3000 },
+  ]);
+
+  assert.equal(fromEnd.graduationYear, 2015);
+  assert.equal(invalid.graduationYear, null);
+});
+
+test('legacy experience strings are parsed into entries', () => {
+  const entries = experienceEntriesFromLegacy([
+    'Senior Developer at Google (Jan 2020 - Present): led the team',
+    'Developer at Initech (2016 to Dec 2019)',
+    'Freelance work',
+  ]);
+
+  assert.deepEqual(entries.map(entry => [entry.title, entry.company, entry.startDate, entry.endDate, entry.isCurrent]), [
+    ['Senior Developer', 'Google', '2020-01', null, true],
+    ['Developer', 'Initech', '2016', '2019-12', false],
+  ]);
+});
+
+test('overlapping roles count once toward tenure', () => {
+  const { totalTenureMonths, careerGaps } = computeCareerTimeline(normalizeExperienceEntries([
+    { company: 'A', title: 'Dev', startDate: '2018-01', endDate: '2019-12' },
+    { company: 'B', title: 'Consultant', startDate: '2019-06', endDate: '2020-06' },
+  ]));
+
+  assert.equal(totalTenureMonths, 30);
+  assert.deepEqual(careerGaps, []);
+});
+
+test('gaps of three months or more between roles are reported', () => {
+  const { totalTenureMonths, careerGaps } = computeCareerTimeline(normalizeExperienceEntries([
+    { company: 'C', title: 'Lead', startDate: '2021-01', endDate: 'Present' },
+    { company: 'A', title: 'Dev', startDate: '2018-01', endDate: '2018-12' },
+    { company: 'B', title: 'Dev', startDate: '2019-02', endDate: '2020-06' },
+  ]), new Date(2021, 11, 15));
+
+  // 12 + 17 + 12 months; the one-month gap in January 2019 is a normal job change
+  assert.equal(totalTenureMonths, 41);
+  assert.deepEqual(careerGaps, [{ startDate: '2020-07', endDate: '2020-12', months: 6 }]);
+});
+
+test('year-only dates span the whole year and undated roles are ignored', () => {
+  const result = computeCareerTimeline(normalizeExperienceEntries([
+    { company: 'A', title: 'Dev', startDate: '2015', endDate: '2016' },
+    { company: 'B', title: 'Dev', startDate: null, endDate: '2019' },
+  ]));
+
+  assert.equal(result.totalTenureMonths, 24);
+  assert.deepEqual(computeCareerTimeline([]), { totalTenureMonths: null, careerGaps: [] });
+});
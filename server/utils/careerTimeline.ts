@@ -0,0 +1,184 @@
+import type { ExperienceEntry, EducationEntry, CertificationEntry, CareerGap } from '@shared/schema';
+
+// Gaps shorter than this between roles are normal job changes and are not reported
+const MIN_CAREER_GAP_MONTHS = 3;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const PRESENT_PATTERN = /^(present|current|now|ongoing|today|till date|to date)$/i;
+
+function str(value: unknown): string | null {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+export function isPresentDate(value: unknown): boolean {
+  const text = str(value);
+  return !!text && PRESENT_PATTERN.test(text);
+}
+
+/**
+ * Normalize free-form dates ("Jan 2020", "01/2020", "2020-01-15", "2020") to "YYYY-MM" or "YYYY".
+ */
+export function normalizeResumeDate(value: unknown): string | null {
+  const text = str(value);
+  if (!text || isPresentDate(text)) {
+    return null;
+  }
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?$/);
+  if (match) {
+    const month = parseInt(match[2], 10);
+    return month >= 1 && month <= 12 ? `${match[1]}-${String(month).padStart(2, '0')}` : match[1];
+  }
+
+  match = text.match(/^(\d{1,2})[-/.](\d{4})$/);
+  if (match) {
+    const month = parseInt(match[1], 10);
+    return month >= 1 && month <= 12 ? `${match[2]}-${String(month).padStart(2, '0')}` : match[2];
+  }
+
+  match = text.match(/^([a-z]{3,9})\.?,?\s+(\d{4})$/i);
+  if (match) {
+    const month = MONTHS[match[1].slice(0, 4).toLowerCase()] || MONTHS[match[1].slice(0, 3).toLowerCase()];
+    return month ? `${match[2]}-${String(month).padStart(2, '0')}` : match[2];
+  }
+
+  match = text.match(/\b(19|20)\d{2}\b/);
+  return match ? match[0] : null;
+}
+
+// Month index (year * 12 + month - 1); year-only dates resolve to January or December
+function monthIndex(date: string, edge: 'start' | 'end'): number {
+  const [year, month] = date.split('-').map(part => parseInt(part, 10));
+  return year * 12 + (month ? month - 1 : edge === 'start' ? 0 : 11);
+}
+
+function formatMonth(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+export function normalizeExperienceEntries(raw: unknown): ExperienceEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(entry => entry && typeof entry === 'object')
+    .map((entry: any) => {
+      const isCurrent = entry.isCurrent === true || isPresentDate(entry.endDate);
+      return {
+        company: str(entry.company) || '',
+        title: str(entry.title) || '',
+        startDate: normalizeResumeDate(entry.startDate),
+        endDate: isCurrent ? null : normalizeResumeDate(entry.endDate),
+        isCurrent,
+        location: str(entry.location),
+        ...(str(entry.description) ? { description: str(entry.description)! } : {}),
+      };
+    })
+    .filter(entry => entry.company || entry.title);
+}
+
+export function normalizeEducationEntries(raw: unknown): EducationEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(entry => entry && typeof entry === 'object')
+    .map((entry: any) => {
+      const endDate = normalizeResumeDate(entry.endDate);
+      const year = parseInt(String(entry.graduationYear ?? endDate ?? ''), 10);
+      return {
+        degree: str(entry.degree),
+        field: str(entry.field),
+        institution: str(entry.institution) || '',
+        startDate: normalizeResumeDate(entry.startDate),
+        endDate,
+        graduationYear: year >= 1900 && year <= 2100 ? year : null,
+        location: str(entry.location),
+      };
+    })
+    .filter(entry => entry.institution || entry.degree);
+}
+
+export function normalizeCertificationEntries(raw: unknown): CertificationEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(entry => entry && typeof entry === 'object')
+    .map((entry: any) => ({
+      name: str(entry.name) || '',
+      issuer: str(entry.issuer),
+      issueDate: normalizeResumeDate(entry.issueDate),
+      expiryDate: normalizeResumeDate(entry.expiryDate),
+    }))
+    .filter(entry => entry.name);
+}
+
+/**
+ * Best-effort structured entries from legacy strings shaped like
+ * "Senior Developer at Google (Jan 2020 - Present): ...", used when the model omits them.
+ */
+export function experienceEntriesFromLegacy(experience: string[]): ExperienceEntry[] {
+  const entries: ExperienceEntry[] = [];
+  for (const line of experience || []) {
+    const match = line.match(/^\s*(.+?)\s+at\s+(.+?)\s*\(([^)]*?)\s*(?:-|–|—|to)\s*([^)]*?)\)/i);
+    if (!match) continue;
+    const isCurrent = isPresentDate(match[4]);
+    entries.push({
+      title: match[1].trim(),
+      company: match[2].trim(),
+      startDate: normalizeResumeDate(match[3]),
+      endDate: isCurrent ? null : normalizeResumeDate(match[4]),
+      isCurrent,
+      location: null,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Total employment tenure (overlapping roles counted once) and gaps between roles.
+ */
+export function computeCareerTimeline(
+  entries: ExperienceEntry[],
+  now: Date = new Date()
+): { totalTenureMonths: number | null; careerGaps: CareerGap[] } {
+  const currentMonth = now.getFullYear() * 12 + now.getMonth();
+  const intervals = entries
+    .filter(entry => entry.startDate && (entry.endDate || entry.isCurrent))
+    .map(entry => ({
+      start: monthIndex(entry.startDate!, 'start'),
+      end: entry.isCurrent ? currentMonth : monthIndex(entry.endDate!, 'end'),
+    }))
+    .filter(interval => interval.end >= interval.start)
+    .sort((a, b) => a.start - b.start);
+
+  if (intervals.length === 0) {
+    return { totalTenureMonths: null, careerGaps: [] };
+  }
+
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end + 1) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  const totalTenureMonths = merged.reduce((sum, interval) => sum + (interval.end - interval.start + 1), 0);
+  const careerGaps: CareerGap[] = [];
+  for (let i = 1; i < merged.length; i++) {
+    const months = merged[i].start - merged[i - 1].end - 1;
+    if (months >= MIN_CAREER_GAP_MONTHS) {
+      careerGaps.push({
+        startDate: formatMonth(merged[i - 1].end + 1),
+        endDate: formatMonth(merged[i].start - 1),
+        months,
+      });
+    }
+  }
+
+  return { totalTenureMonths, careerGaps };
+}
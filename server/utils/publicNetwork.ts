@@ -0,0 +1,63 @@
+import dns from 'dns';
+import net from 'net';
+import type { LookupFunction } from 'net';
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges by BlockList itself.
+const NON_PUBLIC = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+export class NonPublicAddressError extends Error {
+  code = 'ENOTPUBLIC';
+
+  constructor(host: string) {
+    super(`${host} is not a public address`);
+    this.name = 'NonPublicAddressError';
+  }
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Hostname of a URL when it is an IP literal, without IPv6 brackets. Connections to IP literals skip the
+ * lookup below, so callers check these themselves.
+ */
+export function ipLiteralOf(url: URL): string | null {
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  return net.isIP(host) ? host : null;
+}
+
+/**
+ * DNS lookup for outgoing requests to user-supplied URLs: fails unless every address the name resolves to
+ * is public, so the check applies to the address actually connected to.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+    if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+      return callback(new NonPublicAddressError(hostname), '', 0);
+    }
+    if (options.all) {
+      return (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -1,7 +1,7 @@
 import 'dotenv/config';
 import { Worker } from 'bullmq';
 import { redisConnection, closeRedisConnection } from './redis';
-import { resumeProcessingService } from './resumeProcessingService';
+import { resumeProcessingService, type ProcessedResume, type JobMatchScore } from './resumeProcessingService';
 import { emailService } from './emailService';
 import { matchingService } from './matchingService';
 import { fileStorageService } from './fileStorageService';
@@ -9,6 +9,15 @@ import { ragIndexingService } from './ragIndexingService';
 import { localDatabaseService } from './localDatabaseService';
 import { twilioVoiceService } from './services/twilioVoiceService';
 import { interviewReminderQueue } from './queues';
+import { cacheService } from './cacheService';
+import { candidateDedupService } from './services/candidateDedupService';
+import { scheduleMaintenanceJobs } from './jobProducers';
+import { interviewScheduleService } from './services/interviewScheduleService';
+import { calendarSyncService } from './services/calendarSyncService';
+import { invitationReminderService } from './services/invitationReminderService';
+import { offerLetterService } from './services/offerLetterService';
+import { aiInterviewInvitationService } from './services/aiInterviewInvitationService';
+import { jobLifecycleService } from './services/jobLifecycleService';
 
 // Check Redis connection health
 const checkRedisHealth = async () => {
@@ -53,10 +62,9 @@ const resumeProcessingWorker = new Worker(
 
         job.updateProgress(10);
 
-        // Process resume with AI
-        const fileSize = fileContent?.length || 0;
-        console.log(`🔄 Processing resume with AI, file type: ${fileType}, file size: ${fileSize}, custom rules: ${customRules ? 'provided' : 'none'}`);
-        const processedResume = await resumeProcessingService.processResume(fileContent, fileType, customRules, fileSize);
+        // Process resume with AI (parse cache is keyed on the decoded file content)
+        console.log(`🔄 Processing resume with AI, file type: ${fileType}, custom rules: ${customRules ? 'provided' : 'none'}`);
+        const processedResume = await resumeProcessingService.processResume(fileContent, fileType, customRules, organizationId);
         console.log(`✅ Resume processed successfully:`, { name: processedResume.name, email: processedResume.email });
 
         job.updateProgress(30);
@@ -76,30 +84,73 @@ const resumeProcessingWorker = new Worker(
           createdBy: userId,
         };
 
-        const savedProfile = await storage.createResumeProfile(profileData);
-        console.log(`💾 Saved profile to database: ${savedProfile.id}`);
+        // Re-uploads of the same file reuse the stored profile; an updated CV from a known candidate becomes a new version
+        const { profile: savedProfile, reused, isNewVersion } = await candidateDedupService.ingestProfile(profileData, {
+          fileName,
+          fileType,
+          parsedData: processedResume as unknown as Record<string, any>,
+        });
+        if (reused) {
+          console.log(`♻️ Reusing existing profile for identical resume: ${savedProfile.id}`);
+        } else if (isNewVersion) {
+          console.log(`🗂️ Saved resume as version ${savedProfile.currentVersion} of profile ${savedProfile.id}`);
+        } else {
+          console.log(`💾 Saved profile to database: ${savedProfile.id}`);
+        }
+
+        if (!reused) {
+          try {
+            await candidateDedupService.detectDuplicates(savedProfile);
+          } catch (dedupError) {
+            console.error(`⚠️ Duplicate detection failed (non-blocking):`, dedupError);
+          }
+        }
 
         // Index resume in RAG system for semantic search
-        try {
-          console.log(`📚 Indexing resume ${savedProfile.id} in RAG system...`);
-          const ragResult = await ragIndexingService.indexResume({
-            id: savedProfile.id,
-            name: savedProfile.name,
-            email: savedProfile.email,
-            phone: savedProfile.phone,
-            summary: savedProfile.summary,
-            experience: savedProfile.experience,
-            skills: savedProfile.skills,
-            education: savedProfile.education,
-            certifications: savedProfile.certifications,
-            languages: savedProfile.languages,
-            resumeText: savedProfile.resumeText,
-            organizationId: savedProfile.organizationId
-          });
-          console.log(`📚 RAG indexing result:`, ragResult.message);
-        } catch (ragError) {
-          console.error(`⚠️ Failed to index resume in RAG (non-blocking):`, ragError);
-          // Don't fail the entire job if RAG indexing fails
+        if (!reused) {
+          try {
+            console.log(`📚 Indexing resume ${savedProfile.id} in RAG system...`);
+            const ragResult = await ragIndexingService.indexResume({
+              id: savedProfile.id,
+              name: savedProfile.name,
+              email: savedProfile.email,
+              phone: savedProfile.phone,
+              summary: savedProfile.summary,
+              experience: savedProfile.experience,
+              skills: savedProfile.skills,
+              education: savedProfile.education,
+              certifications: savedProfile.certifications,
+              languages: savedProfile.languages,
+              resumeText: savedProfile.resumeText,
+              organizationId: savedProfile.organizationId
+            });
+            console.log(`📚 RAG indexing result:`, ragResult.message);
+          } catch (ragError) {
+            console.error(`⚠️ Failed to index resume in RAG (non-blocking):`, ragError);
+            // Don't fail the entire job if RAG indexing fails
+          }
+        }
+
+        // Bring scores for previously scored jobs up to date with the newest version
+        if (isNewVersion) {
+          try {
+            const { addProfileRescoreJob } = await import('./jobProducers');
+            const previousJobIds = (await storage.getJobScoresByProfile(savedProfile.id))
+              .map(score => score.jobId)
+              .filter((id): id is number => id !== null && id !== numericJobId);
+            if (previousJobIds.length > 0) {
+              await addProfileRescoreJob({
+                profileId: savedProfile.id,
+                versionNumber: savedProfile.currentVersion,
+                organizationId: organization.id,
+                userId,
+                jobIds: Array.from(new Set(previousJobIds)),
+              });
+              console.log(`🔁 Queued re-scoring of version ${savedProfile.currentVersion} against ${previousJobIds.length} previously scored job(s)`);
+            }
+          } catch (rescoreError) {
+            console.error(`⚠️ Failed to queue re-scoring for new resume version (non-blocking):`, rescoreError);
+          }
         }
 
         job.updateProgress(50);
@@ -119,28 +170,49 @@ const resumeProcessingWorker = new Worker(
 
         // Process job scoring and invitation for the single job
         try {
-          const jobScore = await resumeProcessingService.scoreResumeAgainstJob(
-            processedResume,
-            targetJob.title,
-            targetJob.description,
-            targetJob.requirements || targetJob.description,
-            customRules,
-            targetJob.id,
-            fileContent
+          // Deterministic knockout rules run first; knocked-out candidates skip the paid scoring call
+          const { knockoutRulesService } = await import('./services/knockoutRulesService');
+          const previousScore = reused || isNewVersion
+            ? (await storage.getJobScoresByProfile(savedProfile.id)).find(s => s.jobId === targetJob.id)
+            : undefined;
+          const knockout = previousScore?.knockoutOverriddenBy ? null : knockoutRulesService.evaluate(processedResume, targetJob);
+
+          let jobScore: JobMatchScore;
+          if (knockout && !knockout.passed) {
+            console.log(`🚫 Candidate knocked out for job ${targetJob.id}: ${knockout.failures.map(f => f.rule).join(', ')}`);
+            jobScore = knockoutRulesService.knockoutScore(knockout);
+          } else {
+            jobScore = {
+              ...await resumeProcessingService.scoreResumeAgainstJob(
+                processedResume,
+                targetJob.title,
+                targetJob.description,
+                targetJob.requirements || targetJob.description,
+                customRules,
+                targetJob.id,
+                fileContent,
+                organization.id
+              ),
+              knockoutResult: knockout,
+            };
+          }
+          const { scoringWeightsService } = await import('./services/scoringWeightsService');
+          jobScore = scoringWeightsService.apply(jobScore, scoringWeightsService.resolve(targetJob, organization));
+
+          // An existing profile may already have a score for this job; the previous one is archived and replaced
+          const { scoreHistoryService } = await import('./services/scoreHistoryService');
+          await scoreHistoryService.saveScore(
+            { profileId: savedProfile.id, jobId: targetJob.id, profileVersion: savedProfile.currentVersion },
+            jobScore
           );
 
-          await storage.createJobScore({
-            profileId: savedProfile.id,
-            jobId: targetJob.id,
-            ...jobScore,
-          });
-
           job.updateProgress(80);
 
-          // Auto-invite if score meets threshold
+          // Auto-invite if score meets threshold (once per profile and job, and only while the job is open)
           const threshold = typeof (targetJob as any).emailInviteThreshold === 'number' ? (targetJob as any).emailInviteThreshold : (typeof (targetJob as any).scoreMatchingThreshold === 'number' ? (targetJob as any).scoreMatchingThreshold : 30);
           const overall = jobScore.overallScore ?? 0;
-          if (overall >= threshold && processedResume.email) {
+          const alreadyInvited = (reused || isNewVersion) && !!(await localDatabaseService.getJobMatchByUserAndJob(savedProfile.id, targetJob.id.toString()));
+          if (overall >= threshold && processedResume.email && !alreadyInvited && jobLifecycleService.isAcceptingCandidates(targetJob)) {
             const { localDatabaseService } = await import('./localDatabaseService');
             const companyName = organization.companyName || 'Our Company';
 
@@ -168,8 +240,9 @@ const resumeProcessingWorker = new Worker(
             }
 
             // Create interview invitation
+            let invitationMatch = null;
             try {
-              await localDatabaseService.createJobMatch({
+              invitationMatch = await localDatabaseService.createJobMatch({
                 userId: savedProfile.id.toString(),
                 jobId: targetJob.id.toString(),
                 name: processedResume.name || processedResume.email,
@@ -180,6 +253,7 @@ const resumeProcessingWorker = new Worker(
                 status: 'invited',
                 interviewDate: new Date(),
                 token: token,
+                expiresAt: aiInterviewInvitationService.expiryFor(targetJob),
               } as any);
               console.log(`✅ Created interview invitation in local database`);
             } catch (aiErr) {
@@ -199,35 +273,23 @@ const resumeProcessingWorker = new Worker(
               invitationLink,
               matchScore: overall,
               matchSummary: jobScore.matchSummary,
+              organizationId: targetJob.organizationId,
             }).catch(err => console.warn('📧 Invitation email failed (non-blocking):', err));
 
-            // Schedule 2-day voice call reminder (only if phone number is available)
-            if (processedResume.phone) {
+            // Schedule the job's reminder sequence
+            if (invitationMatch) {
               try {
-                const TWO_DAYS_MS = 2 * 24 * 60 * 60 * 1000;
-                const reminderJob = await interviewReminderQueue.add(
-                  'interview-call-reminder',
-                  {
-                    matchId: savedProfile.id.toString(),
-                    profileId: savedProfile.id,
-                    jobId: targetJob.id,
-                    jobTitle: targetJob.title,
-                    companyName,
-                    applicantName: processedResume.name || processedResume.email,
-                    applicantPhone: processedResume.phone,
-                    token: token,
-                  },
-                  {
-                    delay: TWO_DAYS_MS,
-                    jobId: `reminder-${savedProfile.id}-${targetJob.id}`,
-                  }
-                );
-                console.log(`⏰ Scheduled voice call reminder for 2 days: job ${reminderJob.id}`);
+                await invitationReminderService.scheduleForMatch(invitationMatch, targetJob, {
+                  applicantName: processedResume.name || processedResume.email,
+                  applicantEmail: processedResume.email,
+                  applicantPhone: processedResume.phone || null,
+                  jobTitle: targetJob.title,
+                  companyName,
+                  invitationLink,
+                });
               } catch (reminderErr) {
-                console.error('Error scheduling voice call reminder (non-blocking):', reminderErr);
+                console.error('Error scheduling invitation reminders (non-blocking):', reminderErr);
               }
-            } else {
-              console.log(`📵 No phone number for ${processedResume.name || processedResume.email}, skipping voice call reminder scheduling`);
             }
           }
 
@@ -250,6 +312,118 @@ const resumeProcessingWorker = new Worker(
           message: 'Resume processed successfully'
         };
 
+      } else if (job.name === 'rescore-profile-version') {
+        const { profileId, versionNumber, organizationId, jobIds, force, userInitiated } = job.data;
+        const { storage } = await import('./storage');
+        const { creditService } = await import('./creditService');
+        const { resumeVersionService } = await import('./services/resumeVersionService');
+        const { scoreHistoryService } = await import('./services/scoreHistoryService');
+        const { knockoutRulesService } = await import('./services/knockoutRulesService');
+        const { scoringWeightsService } = await import('./services/scoringWeightsService');
+
+        const profile = await storage.getResumeProfileById(profileId);
+        if (!profile || profile.currentVersion !== versionNumber) {
+          console.log(`⏭️ Skipping re-score of profile ${profileId} v${versionNumber}: profile removed or superseded`);
+          return { success: true, rescored: 0, skipped: jobIds.length };
+        }
+
+        const version = await resumeVersionService.getVersion(profileId, versionNumber);
+        if (!version) {
+          throw new Error(`Version ${versionNumber} of profile ${profileId} not found`);
+        }
+
+        // Re-scores nobody asked for are only charged when the organization opted into them
+        const organization = await storage.getOrganizationById(organizationId);
+        const chargeable = !!userInitiated || !!organization?.autoRescoreNewVersions;
+
+        const resume = version.parsedData as ProcessedResume;
+        const scores = await storage.getJobScoresByProfile(profileId);
+        const cost = await creditService.getActionCost('resume_processing');
+        let rescored = 0;
+        let skipped = 0;
+
+        for (let i = 0; i < jobIds.length; i++) {
+          const jobId: number = jobIds[i];
+          const existingScore = scores.find(score => score.jobId === jobId);
+
+          // Already scored against this version (e.g. the upload targeted this job too)
+          if (!force && existingScore?.updatedAt && version.createdAt && existingScore.updatedAt >= version.createdAt) {
+            skipped++;
+            continue;
+          }
+
+          const targetJob = await storage.getJob(jobId);
+          if (!targetJob || targetJob.organizationId !== organizationId) {
+            skipped++;
+            continue;
+          }
+
+          // Knocked-out versions are recorded without a paid scoring call
+          const knockout = existingScore?.knockoutOverriddenBy ? null : knockoutRulesService.evaluate(resume, targetJob);
+          if (knockout && !knockout.passed) {
+            await scoreHistoryService.saveScore(
+              { profileId, jobId: targetJob.id, profileVersion: versionNumber },
+              knockoutRulesService.knockoutScore(knockout)
+            );
+            rescored++;
+            continue;
+          }
+
+          if (!chargeable) {
+            skipped++;
+            continue;
+          }
+
+          const hasCredits = await creditService.checkCredits(organizationId, cost, 'cv_processing');
+          if (!hasCredits) {
+            console.warn(`💳 Insufficient credits to re-score profile ${profileId} against job ${jobId}, stopping`);
+            skipped += jobIds.length - i;
+            break;
+          }
+
+          // Same rules the job's uploads are scored with
+          const [jobRules] = await storage.getRecentCustomRules(organizationId, targetJob.id, 1);
+
+          const jobScore = await resumeProcessingService.scoreResumeAgainstJob(
+            resume,
+            targetJob.title,
+            targetJob.description,
+            targetJob.requirements || targetJob.description,
+            jobRules?.rulesText,
+            targetJob.id,
+            version.resumeText,
+            organizationId
+          );
+
+          await scoreHistoryService.saveScore(
+            { profileId, jobId: targetJob.id, profileVersion: versionNumber },
+            scoringWeightsService.apply({ ...jobScore, knockoutResult: knockout }, await scoringWeightsService.weightsForJob(targetJob))
+          );
+
+          await creditService.deductCredits(
+            organizationId,
+            cost,
+            'cv_processing',
+            'cv_processing',
+            `Re-scoring updated resume: ${profile.name} (v${versionNumber}) against ${targetJob.title}`,
+            String(targetJob.id),
+            'resume_processing'
+          );
+
+          rescored++;
+          job.updateProgress(Math.round(((i + 1) / jobIds.length) * 100));
+        }
+
+        console.log(`✅ Re-scored profile ${profileId} v${versionNumber}: ${rescored} updated, ${skipped} skipped`);
+        return { success: true, rescored, skipped };
+
+      } else if (job.name === 'score-pool-against-job') {
+        const { runId } = job.data;
+        const { poolScoringService } = await import('./services/poolScoringService');
+
+        const run = await poolScoringService.process(runId, (percent) => job.updateProgress(percent));
+        return { success: run?.status === 'completed', status: run?.status, runId };
+
       } else {
         // Legacy resume processing (for backward compatibility)
         const { resumeId, userId, fileContent, fileName } = job.data;
@@ -394,6 +568,19 @@ const emailWorker = new Worker(
       }
     }
 
+    if (job.name === 'send-upcoming-interview-reminder') {
+      const { interviewId, reminderType, icsSequence } = job.data;
+
+      console.log(`Processing upcoming interview reminder (${reminderType}) for interview ${interviewId}`);
+
+      try {
+        return await interviewScheduleService.sendReminder(interviewId, reminderType, icsSequence);
+      } catch (error) {
+        console.error(`Error sending upcoming interview reminder for ${interviewId}:`, error);
+        throw error;
+      }
+    }
+
     console.warn(`Unhandled email job type: ${job.name}`);
     return { success: false, reason: 'unsupported_job' };
   },
@@ -494,10 +681,24 @@ const voiceCallWorker = new Worker(
   }
 );
 
-// Interview call reminder worker - calls candidates 2 days after invitation if they haven't started
+// Interview reminder worker - runs each step of an invitation's reminder sequence while the candidate hasn't started
 const interviewReminderWorker = new Worker(
   'interview-reminders',
   async (job) => {
+    if (job.name === 'invitation-reminder') {
+      const { reminderId } = job.data;
+
+      console.log(`⏰ Processing invitation reminder ${reminderId}`);
+
+      try {
+        return await invitationReminderService.sendReminder(reminderId);
+      } catch (error) {
+        console.error(`Error processing invitation reminder ${reminderId}:`, error);
+        throw error;
+      }
+    }
+
+    // Calls queued before reminder sequences were configurable
     if (job.name === 'interview-call-reminder') {
       const { matchId, profileId, jobId, jobTitle, companyName, applicantName, applicantPhone, token } = job.data;
 
@@ -524,28 +725,16 @@ const interviewReminderWorker = new Worker(
           return { success: false, reason: 'no_phone_number' };
         }
 
-        // Build prompts with job context
-        const systemPrompt = `You are an AI recruitment assistant. The candidate was invited to interview for the ${jobTitle} position at ${companyName} 2 days ago but hasn't started yet. Your goal is to remind them about this opportunity and encourage them to complete their interview. Be professional, friendly, and create urgency without being pushy.
-
-CRITICAL LANGUAGE REQUIREMENT: You must speak Egyptian Arabic dialect ONLY. All responses must be in Egyptian Arabic, not formal Arabic or any other dialect. Use common Egyptian expressions and phrases that Egyptians use in daily conversation.`;
-
-        const greetingMessage = `اهلاً! أنا بلاتو بتكلم بالنيابة عن ${companyName}. اتم دعيتك للمقابلة بتاعة وظيفة ${jobTitle} قبل يومين. عاوز أتأكد لو عندك أي أسئلة عن الفرصة دي!`;
-
-        // Initiate the call
-        const result = await twilioVoiceService.initiateCall({
-          toPhoneNumber: applicantPhone,
-          systemPrompt,
-          voice: 'marin',
-          greetingMessage,
+        const result = await invitationReminderService.placeReminderCall({
+          applicantPhone,
+          jobTitle,
+          companyName,
+          invitedAt: new Date(job.timestamp),
         });
-
-        if (result.success) {
-          console.log(`✅ Interview reminder call initiated: ${result.callId}`);
-          return { success: true, callId: result.callId };
-        } else {
-          console.error(`❌ Failed to initiate reminder call: ${result.error}`);
-          throw new Error(result.error);
+        if (result.status === 'failed') {
+          throw new Error(result.reason);
         }
+        return { success: true };
       } catch (error) {
         console.error(`Error processing interview reminder for ${applicantName}:`, error);
         throw error;
@@ -569,6 +758,55 @@ CRITICAL LANGUAGE REQUIREMENT: You must speak Egyptian Arabic dialect ONLY. All
   }
 );
 
+// Maintenance worker - periodic housekeeping (cache eviction, calendar sync, invitation expiry, offer deadlines) and per-interview calendar syncs
+const maintenanceWorker = new Worker(
+  'maintenance',
+  async (job) => {
+    if (job.name === 'cache-eviction') {
+      const evicted = await cacheService.evictExpired();
+      console.log(`🧹 Evicted ${evicted} expired cache entr${evicted === 1 ? 'y' : 'ies'}`);
+      return { evicted };
+    }
+
+    if (job.name === 'invitation-expiry') {
+      const expired = await aiInterviewInvitationService.expireStale();
+      console.log(`⌛ Expired ${expired} AI interview invitation${expired === 1 ? '' : 's'}`);
+      return { expired };
+    }
+
+    if (job.name === 'offer-deadlines') {
+      const result = await offerLetterService.runDeadlines();
+      console.log(`📝 Offer deadlines: reminded ${result.reminded}, expired ${result.expired}`);
+      return result;
+    }
+
+    if (job.name === 'job-lifecycle') {
+      const result = await jobLifecycleService.runScheduled();
+      console.log(`📋 Job lifecycle: published ${result.published}, closed ${result.closed}`);
+      return result;
+    }
+
+    if (job.name === 'calendar-sync') {
+      const result = await calendarSyncService.pullAll();
+      console.log(`📅 Calendar sync checked ${result.connections} connection(s), applied ${result.updated} change(s)`);
+      return result;
+    }
+
+    if (job.name === 'interview-calendar-sync') {
+      const { organizationId, interviewId } = job.data;
+      await calendarSyncService.syncInterview(organizationId, interviewId);
+      return { success: true };
+    }
+
+    console.warn(`Unhandled maintenance job type: ${job.name}`);
+    return { success: false, reason: 'unsupported_job' };
+  },
+  {
+    connection: redisConnection,
+    concurrency: 1,
+  }
+);
+
 // Handle worker events
 const setupWorkerEvents = (worker: Worker, workerName: string) => {
   worker.on('completed', (job) => {
@@ -589,6 +827,7 @@ setupWorkerEvents(emailWorker, 'Email Worker');
 setupWorkerEvents(candidateMatchingWorker, 'Candidate Matching Worker');
 setupWorkerEvents(voiceCallWorker, 'Voice Call Worker');
 setupWorkerEvents(interviewReminderWorker, 'Interview Reminder Worker');
+setupWorkerEvents(maintenanceWorker, 'Maintenance Worker');
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
@@ -599,6 +838,7 @@ process.on('SIGINT', async () => {
     candidateMatchingWorker.close(),
     voiceCallWorker.close(),
     interviewReminderWorker.close(),
+    maintenanceWorker.close(),
   ]);
   await closeRedisConnection();
   process.exit(0);
@@ -612,6 +852,7 @@ process.on('SIGTERM', async () => {
     candidateMatchingWorker.close(),
     voiceCallWorker.close(),
     interviewReminderWorker.close(),
+    maintenanceWorker.close(),
   ]);
   await closeRedisConnection();
   process.exit(0);
@@ -620,6 +861,11 @@ process.on('SIGTERM', async () => {
 // Start workers
 console.log('BullMQ workers started...');
 
+// Register recurring maintenance jobs
+scheduleMaintenanceJobs().catch((error) => {
+  console.error('❌ Failed to register maintenance job schedulers:', error);
+});
+
 // Optional: Check Redis health after a delay
 setTimeout(() => {
   checkRedisHealth();
@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   boolean,
@@ -75,6 +76,11 @@ export const organizations = pgTable("organizations", {
   // White label branding fields
   brandLogoPath: varchar("brand_logo_path"),
   brandPrimaryColor: varchar("brand_primary_color"), // HSL format: "207, 90%, 54%"
+  defaultScoringWeights: jsonb("default_scoring_weights").$type<ScoringWeights>(), // Used by jobs without their own weights
+  autoRescoreNewVersions: boolean("auto_rescore_new_versions").notNull().default(false), // Spend credits re-scoring a re-uploaded resume against jobs it was scored for
+  requisitionApprovalChain: jsonb("requisition_approval_chain").$type<RequisitionApprovalStep[]>(), // null publishes jobs without approval
+  offerApprovalRequired: boolean("offer_approval_required").notNull().default(false), // Offers must be approved by a teammate before sending
+  emailLocale: varchar("email_locale").$type<EmailLocale>().notNull().default("en"), // Language of the templated emails candidates and invitees receive
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -302,6 +308,7 @@ export const jobs = pgTable("jobs", {
   salaryMin: integer("salary_min"),
   salaryMax: integer("salary_max"),
   salaryNegotiable: boolean("salary_negotiable").default(false),
+  headcount: integer("headcount").notNull().default(1),
   softSkills: text("soft_skills").array(),
   technicalSkills: text("technical_skills").array(),
   employerQuestions: text("employer_questions").array(),
@@ -315,12 +322,23 @@ export const jobs = pgTable("jobs", {
   seniorityLevel: varchar("seniority_level").notNull(),
   industry: varchar("industry").notNull(),
   languagesRequired: jsonb("languages_required"),
+  knockoutRules: jsonb("knockout_rules").$type<KnockoutRules>(),
+  scoringWeights: jsonb("scoring_weights").$type<ScoringWeights>(), // null inherits the organization default
+  scorecardTemplate: jsonb("scorecard_template").$type<ScorecardTemplate>(), // null uses the default interview scorecard
+  reminderCadence: jsonb("reminder_cadence").$type<InvitationReminderStep[]>(), // null uses the default invitation reminders
+  invitationExpiryDays: integer("invitation_expiry_days").notNull().default(14), // AI interview invitation tokens stop working after this long
   assessmentQuestions: jsonb("assessment_questions"),
   interviewLanguage: varchar("interview_language"),
   certifications: text("certifications"),
   organizationId: varchar("organization_id"),
   createdById: varchar("created_by_id"),
-  is_active: boolean("is_active").notNull().default(true),
+  is_active: boolean("is_active").notNull().default(true), // false once the job is deleted
+  status: varchar("status").$type<JobStatus>().notNull().default("open"),
+  publishAt: timestamp("publish_at"), // when a scheduled job opens
+  closesAt: timestamp("closes_at"), // an open or paused job closes automatically at this time
+  closedAt: timestamp("closed_at"),
+  archivedAt: timestamp("archived_at"),
+  clonedFromId: integer("cloned_from_id"),
   views: integer("views").notNull().default(0),
   company: varchar("company"),
   experienceLevel: varchar("experience_level"),
@@ -617,14 +635,20 @@ export const realInterviews = pgTable("real_interviews", {
   candidateId: varchar("candidate_id"),
   jobId: varchar("job_id"),
   jobTitle: varchar("job_title"),
-  scheduledDate: varchar("scheduled_date"),
+  scheduledDate: varchar("scheduled_date"), // Wall-clock date in timeZone, kept for display and older clients
   scheduledTime: varchar("scheduled_time"),
-  timeZone: varchar("time_zone").default('UTC'),
+  timeZone: varchar("time_zone").default('UTC'), // IANA zone the interview was scheduled in
+  scheduledAt: timestamp("scheduled_at"), // The instant the interview starts; null on rows that predate it
+  durationMinutes: integer("duration_minutes").default(60),
+  candidateTimeZone: varchar("candidate_time_zone"), // Zone candidate-facing emails render in, when known
   interviewType: varchar("interview_type").default('video'),
   meetingLink: varchar("meeting_link"),
   interviewer: varchar("interviewer"),
   status: varchar("status").default('scheduled'),
   notes: text("notes"),
+  manageToken: varchar("manage_token").unique(), // Candidate's reschedule/cancel link
+  icsSequence: integer("ics_sequence").notNull().default(0), // Bumped on every change so calendars replace the event
+  createdBy: varchar("created_by"),
   organizationId: varchar("organization_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -655,15 +679,40 @@ export const offerLetters = pgTable("offer_letters", {
   position: varchar("position").notNull(),
   salary: varchar("salary"),
   startDate: varchar("start_date"),
+  templateId: integer("template_id"), // null for offers written before templates
+  mergeValues: jsonb("merge_values").$type<OfferMergeValues>(),
+  version: integer("version").notNull().default(1), // Latest row in offer_letter_versions
 
   // Email tracking
   recipientEmail: varchar("recipient_email").notNull(),
   recipientName: varchar("recipient_name").notNull(),
 
   // Status tracking
-  status: varchar("status").notNull().default("sent"),
-  sentAt: timestamp("sent_at").notNull(),
-  sentBy: varchar("sent_by").notNull(),
+  status: varchar("status").$type<OfferLetterStatus>().notNull().default("sent"),
+  createdBy: varchar("created_by"),
+  sentAt: timestamp("sent_at"), // null until sent
+  sentBy: varchar("sent_by"),
+
+  // Approval before sending
+  approverId: varchar("approver_id"),
+  approvalRequestedAt: timestamp("approval_requested_at"),
+  approvedAt: timestamp("approved_at"),
+  approvalNote: text("approval_note"), // Approver's note when asking for changes
+
+  // Candidate response through the public offer page
+  responseToken: varchar("response_token").unique(), // Issued each time the offer is sent
+  respondedAt: timestamp("responded_at"),
+  responseNote: text("response_note"), // Decline reason or requested changes
+  signerName: varchar("signer_name"),
+  signatureType: varchar("signature_type").$type<OfferSignatureType>(),
+  signatureImage: text("signature_image"), // JPEG data URL for drawn signatures
+  signerIp: varchar("signer_ip"),
+  signedAt: timestamp("signed_at"),
+  documentHash: varchar("document_hash"), // SHA-256 of the letter text the candidate signed
+
+  // Response deadline
+  expiresAt: timestamp("expires_at"), // null for offers without a deadline
+  remindersSent: integer("reminders_sent").notNull().default(0), // Deadline reminders already emailed for this send
 
   // Metadata
   createdAt: timestamp("created_at").defaultNow(),
@@ -681,8 +730,22 @@ export const resumeProfiles = pgTable("resume_profiles", {
   education: jsonb("education").$type<string[]>(),
   certifications: jsonb("certifications").$type<string[]>(),
   languages: jsonb("languages").$type<string[]>(),
+  // Structured entries parsed alongside the legacy string arrays above
+  experienceEntries: jsonb("experience_entries").$type<ExperienceEntry[]>(),
+  educationEntries: jsonb("education_entries").$type<EducationEntry[]>(),
+  certificationEntries: jsonb("certification_entries").$type<CertificationEntry[]>(),
+  totalTenureMonths: integer("total_tenure_months"), // Months of employment, overlapping roles counted once
+  careerGaps: jsonb("career_gaps").$type<CareerGap[]>(),
   resumeText: text("resume_text").notNull(),
   fileId: varchar("file_id"),
+  textExtractor: varchar("text_extractor"), // 'pdf', 'docx', 'rtf', 'html', 'plain_text', 'openai_files', 'openai_ocr'
+  textExtractionConfidence: real("text_extraction_confidence"), // 0-1 quality score of the extracted text
+  // Duplicate detection keys, populated at ingest
+  normalizedEmail: varchar("normalized_email"),
+  normalizedPhone: varchar("normalized_phone"),
+  normalizedName: varchar("normalized_name"),
+  contentHash: varchar("content_hash"), // SHA-256 of the decoded resume file
+  currentVersion: integer("current_version").notNull().default(1),
   organizationId: varchar("organization_id"),
   createdBy: varchar("created_by"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -690,6 +753,51 @@ export const resumeProfiles = pgTable("resume_profiles", {
 }, (table) => [
   index("idx_resume_profiles_organization_id").on(table.organizationId),
   index("idx_resume_profiles_created_at").on(table.createdAt),
+  index("idx_resume_profiles_org_email").on(table.organizationId, table.normalizedEmail),
+  index("idx_resume_profiles_org_phone").on(table.organizationId, table.normalizedPhone),
+  index("idx_resume_profiles_org_name").on(table.organizationId, table.normalizedName),
+  uniqueIndex("uq_resume_profiles_org_content_hash").on(table.organizationId, table.contentHash),
+]);
+
+// Every uploaded file and parsed result for a resume profile; the profile row mirrors the newest version
+export const resumeProfileVersions = pgTable("resume_profile_versions", {
+  id: serial("id").primaryKey(),
+  profileId: varchar("profile_id").notNull(),
+  organizationId: varchar("organization_id").notNull(),
+  versionNumber: integer("version_number").notNull(),
+  fileName: varchar("file_name"),
+  fileType: varchar("file_type"),
+  resumeText: text("resume_text").notNull(), // Uploaded file content (base64, or raw text for text uploads)
+  contentHash: varchar("content_hash").notNull(),
+  parsedData: jsonb("parsed_data").$type<Record<string, any>>().notNull(), // Full ProcessedResume for this upload
+  textExtractor: varchar("text_extractor"),
+  textExtractionConfidence: real("text_extraction_confidence"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_resume_profile_versions_profile_id").on(table.profileId),
+  index("idx_resume_profile_versions_org_content_hash").on(table.organizationId, table.contentHash),
+  uniqueIndex("uq_resume_profile_versions_profile_version").on(table.profileId, table.versionNumber),
+  uniqueIndex("uq_resume_profile_versions_profile_content_hash").on(table.profileId, table.contentHash),
+]);
+
+// Possible duplicate pairs detected at ingest, resolved by a recruiter (merge or dismiss)
+export const resumeProfileDuplicates = pgTable("resume_profile_duplicates", {
+  id: serial("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  profileId: varchar("profile_id").notNull(), // Newer profile that triggered the detection
+  duplicateProfileId: varchar("duplicate_profile_id").notNull(), // Existing profile it resembles
+  matchReasons: jsonb("match_reasons").$type<string[]>().notNull(), // 'email', 'phone', 'name', 'text'
+  similarity: real("similarity"), // 0-1 fuzzy text similarity
+  status: varchar("status").notNull().default("pending"), // 'pending', 'merged', 'dismissed'
+  resolvedBy: varchar("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_resume_profile_duplicates_org_status").on(table.organizationId, table.status),
+  index("idx_resume_profile_duplicates_profile_id").on(table.profileId),
+  index("idx_resume_profile_duplicates_duplicate_profile_id").on(table.duplicateProfileId),
+  uniqueIndex("uq_resume_profile_duplicates_pair").on(table.profileId, table.duplicateProfileId),
 ]);
 
 export const resumeJobScores = pgTable("resume_job_scores", {
@@ -707,6 +815,18 @@ export const resumeJobScores = pgTable("resume_job_scores", {
   disqualificationReason: text("disqualification_reason"),
   redFlags: jsonb("red_flags").$type<Array<{ issue: string; evidence: string; reason: string }>>(),
   fullResponse: jsonb("full_response"),
+  // Provenance of the scoring run that produced this row
+  scoringRunId: varchar("scoring_run_id"),
+  scoringModel: text("scoring_model"),
+  promptVersion: text("prompt_version"),
+  jobSnapshotHash: text("job_snapshot_hash"), // Hash of job title + description + requirements
+  customRulesHash: text("custom_rules_hash"),
+  profileVersion: integer("profile_version"), // Resume profile version that was scored
+  knockoutResult: jsonb("knockout_result").$type<KnockoutResult>(), // Set when pre-screening rules were evaluated
+  aiOverallScore: integer("ai_overall_score"), // Overall score as returned by the model, before job weights
+  scoringWeights: jsonb("scoring_weights").$type<ScoringWeights>(), // Weights overallScore was computed with, null when unweighted
+  knockoutOverriddenBy: varchar("knockout_overridden_by"), // Recruiter who let a knocked-out candidate through to AI scoring
+  knockoutOverriddenAt: timestamp("knockout_overridden_at"),
   scoredAt: timestamp("scored_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -716,6 +836,65 @@ export const resumeJobScores = pgTable("resume_job_scores", {
   index("idx_resume_job_scores_profile_job").on(table.profileId, table.jobId),
 ]);
 
+// Superseded job scores, archived whenever a profile is re-scored against the same job
+export const resumeJobScoreHistory = pgTable("resume_job_score_history", {
+  id: serial("id").primaryKey(),
+  scoreId: integer("score_id").notNull(), // resume_job_scores row that was overwritten
+  profileId: varchar("profile_id"),
+  jobId: integer("job_id"),
+  overallScore: integer("overall_score"),
+  technicalSkillsScore: integer("technical_skills_score"),
+  experienceScore: integer("experience_score"),
+  culturalFitScore: integer("cultural_fit_score"),
+  matchSummary: text("match_summary"),
+  strengthsHighlights: jsonb("strengths_highlights").$type<string[]>(),
+  improvementAreas: jsonb("improvement_areas").$type<string[]>(),
+  disqualified: boolean("disqualified"),
+  disqualificationReason: text("disqualification_reason"),
+  redFlags: jsonb("red_flags").$type<Array<{ issue: string; evidence: string; reason: string }>>(),
+  fullResponse: jsonb("full_response"),
+  scoringRunId: varchar("scoring_run_id"),
+  scoringModel: text("scoring_model"),
+  promptVersion: text("prompt_version"),
+  jobSnapshotHash: text("job_snapshot_hash"),
+  customRulesHash: text("custom_rules_hash"),
+  profileVersion: integer("profile_version"),
+  knockoutResult: jsonb("knockout_result").$type<KnockoutResult>(),
+  aiOverallScore: integer("ai_overall_score"),
+  scoringWeights: jsonb("scoring_weights").$type<ScoringWeights>(),
+  scoredAt: timestamp("scored_at"),
+  archivedAt: timestamp("archived_at").defaultNow(),
+}, (table) => [
+  index("idx_resume_job_score_history_profile_job").on(table.profileId, table.jobId),
+  index("idx_resume_job_score_history_score_id").on(table.scoreId),
+]);
+
+// Queued runs that score an organization's resume bank against one job
+export const poolScoringRuns = pgTable("pool_scoring_runs", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  organizationId: varchar("organization_id").notNull(),
+  jobId: integer("job_id").notNull(),
+  requestedBy: varchar("requested_by"), // null when started automatically
+  trigger: varchar("trigger").notNull().default("manual"), // 'manual', 'job_updated'
+  scope: varchar("scope").notNull().default("all"), // 'all' profiles or only those already 'scored' for the job
+  status: varchar("status").notNull().default("queued"), // queued, running, completed, cancelled, failed
+  totalProfiles: integer("total_profiles").notNull().default(0),
+  processedProfiles: integer("processed_profiles").notNull().default(0),
+  scoredProfiles: integer("scored_profiles").notNull().default(0), // Scored by the model
+  cachedProfiles: integer("cached_profiles").notNull().default(0), // Served from the job scoring cache
+  knockedOutProfiles: integer("knocked_out_profiles").notNull().default(0),
+  failedProfiles: integer("failed_profiles").notNull().default(0),
+  estimatedCredits: integer("estimated_credits").notNull().default(0),
+  creditsUsed: integer("credits_used").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_pool_scoring_runs_job").on(table.jobId, table.createdAt),
+  index("idx_pool_scoring_runs_organization").on(table.organizationId),
+]);
+
 // Custom rules for resume parsing
 export const customRules = pgTable("custom_rules", {
   id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -907,14 +1086,231 @@ export type ScoredApplicant = typeof scoredApplicants.$inferSelect;
 export type InsertScoredApplicant = typeof scoredApplicants.$inferInsert;
 export type ResumeProfile = typeof resumeProfiles.$inferSelect;
 export type InsertResumeProfile = typeof resumeProfiles.$inferInsert;
+export type ResumeProfileVersion = typeof resumeProfileVersions.$inferSelect;
+export type InsertResumeProfileVersion = typeof resumeProfileVersions.$inferInsert;
+export type ResumeProfileDuplicate = typeof resumeProfileDuplicates.$inferSelect;
+export type InsertResumeProfileDuplicate = typeof resumeProfileDuplicates.$inferInsert;
 export type ResumeJobScore = typeof resumeJobScores.$inferSelect;
 export type InsertResumeJobScore = typeof resumeJobScores.$inferInsert;
+export type ResumeJobScoreHistory = typeof resumeJobScoreHistory.$inferSelect;
+export type InsertResumeJobScoreHistory = typeof resumeJobScoreHistory.$inferInsert;
+export type PoolScoringRun = typeof poolScoringRuns.$inferSelect;
+export type InsertPoolScoringRun = typeof poolScoringRuns.$inferInsert;
 export type CustomRule = typeof customRules.$inferSelect;
 export type InsertCustomRule = typeof customRules.$inferInsert;
 export type InsertOpenAIRequest = typeof openaiRequests.$inferInsert;
 export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
 export type InsertOrganizationInvitation = typeof organizationInvitations.$inferInsert;
 
+// Structured resume entities. Dates are "YYYY-MM" (or "YYYY" when only the year is known).
+export interface ExperienceEntry {
+  company: string;
+  title: string;
+  startDate: string | null;
+  endDate: string | null; // null with isCurrent = true for ongoing roles
+  isCurrent: boolean;
+  location: string | null;
+  description?: string;
+}
+
+export interface EducationEntry {
+  degree: string | null;
+  field: string | null;
+  institution: string;
+  startDate: string | null;
+  endDate: string | null;
+  graduationYear: number | null;
+  location: string | null;
+}
+
+export interface CertificationEntry {
+  name: string;
+  issuer: string | null;
+  issueDate: string | null;
+  expiryDate: string | null;
+}
+
+export interface CareerGap {
+  startDate: string; // First month without a role
+  endDate: string;   // Last month without a role
+  months: number;
+}
+
+// Relative weight of each scoring dimension when computing a job's overall score
+export interface ScoringWeights {
+  technicalSkills: number;
+  experience: number;
+  culturalFit: number;
+  education: number;
+}
+
+// Deterministic pre-screening rules evaluated before AI scoring; an empty rule is not checked
+export interface KnockoutRules {
+  enabled: boolean;
+  requireLanguages: boolean;         // Candidate must list every language in jobs.languagesRequired
+  minYearsExperience: number | null;
+  allowedLocations: string[];        // Candidate location must contain one of these
+  skipLocationForRemote: boolean;    // Ignore allowedLocations when the job is remote
+  requiredCertifications: string[];
+  mustHaveSkills: string[];
+}
+
+export type KnockoutRuleType = 'languages' | 'minYearsExperience' | 'location' | 'certifications' | 'mustHaveSkills';
+
+export interface KnockoutFailure {
+  rule: KnockoutRuleType;
+  message: string;
+  missing: string[];
+}
+
+export interface KnockoutResult {
+  passed: boolean;
+  failures: KnockoutFailure[];
+  evaluatedRules: KnockoutRuleType[];
+  // Rules that could not be checked because the resume lacks the data; these never knock out
+  unverifiableRules: KnockoutRuleType[];
+  evaluatedAt: string;
+}
+
+// Structured feedback form interviewers fill in for a job's interviews
+export interface ScorecardCompetency {
+  key: string;
+  name: string;
+  description: string | null;
+}
+
+export interface ScorecardQuestion {
+  key: string;
+  text: string;
+  required: boolean;
+}
+
+export interface ScorecardTemplate {
+  competencies: ScorecardCompetency[];
+  ratingScale: { max: number; labels: string[] }; // Ratings run from 1 to max; labels are optional, one per point
+  questions: ScorecardQuestion[];
+}
+
+export type ScorecardRecommendation = 'strong_no' | 'no' | 'yes' | 'strong_yes';
+
+// One bookable stretch of an interviewer's day, as wall-clock "HH:mm" in their time zone
+export interface AvailabilityWindow {
+  start: string;
+  end: string;
+}
+
+// Weekday (0 = Sunday) -> windows the interviewer takes interviews in
+export type WeeklyAvailability = Record<string, AvailabilityWindow[]>;
+
+// Only open jobs take applicants; archived jobs keep their applicants and scores for reporting
+export const JOB_STATUSES = ['draft', 'scheduled', 'open', 'paused', 'closed', 'archived'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// One stage of an organization's job requisition approval chain; any listed approver can sign it off
+export interface RequisitionApprovalStep {
+  name: string; // e.g. "Finance" or "HR"
+  approverIds: string[];
+}
+
+// What approvers sign off on; a change to any of these after approval needs a new request
+export interface RequisitionTerms {
+  salaryRange: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  headcount: number;
+}
+
+export type JobApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type JobApprovalAction = 'submitted' | 'approved' | 'rejected' | 'commented' | 'cancelled';
+
+// Fields an offer template can use as {{field}}; values are filled in per offer
+export const OFFER_MERGE_FIELDS = [
+  'candidate_name', 'position', 'company_name', 'salary', 'start_date', 'benefits', 'manager_name', 'location', 'employment_type',
+] as const;
+export type OfferMergeField = typeof OFFER_MERGE_FIELDS[number];
+export type OfferMergeValues = Partial<Record<OfferMergeField, string>>;
+
+export type OfferLetterStatus = 'draft' | 'pending_approval' | 'approved' | 'sent' | 'accepted' | 'declined' | 'changes_requested' | 'expired';
+export type OfferSignatureType = 'typed' | 'drawn';
+
+// Offer terms tracked through negotiation, as before/after values of their merge fields
+export const OFFER_NEGOTIABLE_FIELDS = ['salary', 'start_date', 'benefits'] as const;
+export type OfferNegotiableField = typeof OFFER_NEGOTIABLE_FIELDS[number];
+export type OfferTermChanges = Partial<Record<OfferNegotiableField, { from: string; to: string }>>;
+export type OfferNegotiationSource = 'candidate' | 'company';
+
+// Emails an organization can reword, and the {{variables}} each one's template may use
+export const EMAIL_TEMPLATE_TYPES = [
+  'interview_scheduled', 'interview_cancelled', 'interviewer_rescheduled', 'interviewer_cancelled', 'interview_invitation',
+  'interview_reminder', 'application_accepted', 'application_rejected', 'application_shortlisted', 'offer_letter',
+  'team_invitation', 'email_verification', 'password_reset',
+] as const;
+export type EmailTemplateType = typeof EMAIL_TEMPLATE_TYPES[number];
+export const EMAIL_LOCALES = ['en', 'ar'] as const;
+export type EmailLocale = typeof EMAIL_LOCALES[number];
+
+// Where outgoing email is handed off, chosen by the super admin in system settings
+export const EMAIL_TRANSPORTS = ['sendgrid', 'smtp', 'outbox'] as const;
+export type EmailTransportKind = typeof EMAIL_TRANSPORTS[number];
+export const SMTP_SECURITY_MODES = ['tls', 'starttls', 'none'] as const;
+export type SmtpSecurity = typeof SMTP_SECURITY_MODES[number];
+
+export interface EmailOutboxAttachment {
+  filename: string;
+  type: string;
+  content: string; // base64
+}
+
+export const EMAIL_TEMPLATE_VARIABLES: Record<EmailTemplateType, readonly string[]> = {
+  interview_scheduled: ['candidate_name', 'job_title', 'company_name', 'notice', 'interview_date', 'interview_time', 'time_zone', 'interview_type', 'meeting_link', 'notes', 'manage_url'],
+  interview_cancelled: ['candidate_name', 'job_title', 'company_name'],
+  interviewer_rescheduled: ['recipient_name', 'candidate_name', 'job_title', 'company_name', 'previous_time', 'new_time', 'reason'],
+  interviewer_cancelled: ['recipient_name', 'candidate_name', 'job_title', 'company_name', 'previous_time', 'reason'],
+  interview_invitation: ['candidate_name', 'job_title', 'company_name', 'invitation_link'],
+  interview_reminder: ['candidate_name', 'job_title', 'company_name', 'reminder_message', 'invitation_link'],
+  application_accepted: ['candidate_name', 'job_title', 'company_name', 'applied_date', 'skills', 'match_score'],
+  application_rejected: ['candidate_name', 'job_title', 'company_name', 'applied_date', 'skills', 'match_score'],
+  application_shortlisted: ['candidate_name', 'job_title', 'company_name', 'applied_date', 'skills', 'match_score'],
+  offer_letter: ['candidate_name', 'job_title', 'company_name', 'offer_content', 'response_url', 'response_deadline'],
+  team_invitation: ['company_name', 'invited_by', 'role', 'message', 'registration_link', 'invite_code'],
+  email_verification: ['first_name', 'verification_link'],
+  password_reset: ['first_name', 'reset_link'],
+};
+
+// Variables a template can't leave out, because the email is useless without them
+export const EMAIL_TEMPLATE_REQUIRED_VARIABLES: Partial<Record<EmailTemplateType, readonly string[]>> = {
+  interview_invitation: ['invitation_link'],
+  interview_reminder: ['invitation_link'],
+  offer_letter: ['offer_content'],
+  team_invitation: ['registration_link'],
+  email_verification: ['verification_link'],
+  password_reset: ['reset_link'],
+};
+
+export type InvitationReminderChannel = 'email' | 'voice_call';
+
+// One step of the reminder sequence for an unanswered AI interview invitation
+export interface InvitationReminderStep {
+  channel: InvitationReminderChannel;
+  delayHours: number; // Counted from when the invitation was sent
+}
+
+export type CalendarProviderName = 'caldav';
+
+// Where and how to reach a user's external calendar
+export interface CalendarConnectionConfig {
+  url: string;       // CalDAV: the calendar collection URL
+  username: string;
+  password: string;
+}
+
+// The config as saved on the connection; the password is only decrypted to talk to the calendar
+export interface StoredCalendarConnectionConfig {
+  url: string;
+  username: string;
+  encryptedPassword: string; // AES-256-GCM with ENCRYPTION_KEY, see server/utils/encryption
+}
+
 // Assessment question types for job postings
 export type AssessmentQuestionType =
   | 'text'
@@ -968,6 +1364,7 @@ export interface AssessmentSubmission {
 
 export const insertOrganizationSchema = createInsertSchema(organizations, {
   url: (schema) => schema.trim().min(1, "Organization URL is required"),
+  emailLocale: z.enum(EMAIL_LOCALES).optional(),
 }).omit({
   id: true,
   createdAt: true,
@@ -1035,7 +1432,10 @@ export const insertOrganizationInvitationSchema = createInsertSchema(organizatio
   createdAt: true,
 });
 
-export const insertJobSchema = createInsertSchema(jobs).omit({
+export const insertJobSchema = createInsertSchema(jobs, {
+  status: z.enum(JOB_STATUSES),
+  headcount: z.number().int().min(1),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -1091,6 +1491,7 @@ export const airtableUserProfiles = pgTable("airtable_user_profiles", {
   location: varchar("location"),
   age: integer("age"),
   fileId: varchar("file_id"),
+  mergedInto: varchar("merged_into"), // Resume profile id this candidate was merged into; merged rows are kept for history
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -1129,6 +1530,8 @@ export const airtableJobApplications = pgTable("airtable_job_applications", {
   sessionId: integer("session_id"), // Reference to interview session for video URL
   applicantProfileId: integer("applicant_profile_id"), // Reference to applicant_profiles.id for precise profile lookup
   generatedProfile: jsonb("generated_profile"), // AI-generated profile from interview completion
+  pipelineStage: varchar("pipeline_stage"), // pipeline_stages.key; null for applications not yet moved through the pipeline
+  stageChangedAt: timestamp("stage_changed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -1149,6 +1552,7 @@ export const airtableJobMatches = pgTable("airtable_job_matches", {
   interviewComments: text("interview_comments"), // AI-generated feedback
   status: varchar("status").default("pending"),
   token: varchar("token").unique().notNull(),
+  expiresAt: timestamp("expires_at"), // null for invitations sent before expiry existed; the job's window then counts from createdAt
   reminder1hSent: boolean("reminder_1h_sent").default(false),
   reminder24hSent: boolean("reminder_24h_sent").default(false),
   reminder1hJobId: varchar("reminder_1h_job_id"),
@@ -1162,6 +1566,330 @@ export const airtableJobMatches = pgTable("airtable_job_matches", {
   index("idx_airtable_job_matches_job_user").on(table.jobId, table.userId),
 ]);
 
+// Hiring pipeline stages. Rows without a jobId are the organization default; a job with its own rows uses those instead.
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  organizationId: varchar("organization_id").notNull(),
+  jobId: integer("job_id"),
+  key: varchar("key").notNull(), // Stable identifier stored on applications
+  name: varchar("name").notNull(),
+  position: integer("position").notNull(),
+  category: varchar("category").notNull().default("active"), // 'active', 'hired', 'rejected'
+  applicationStatus: varchar("application_status").notNull(), // Status written to applications in this stage
+  allowedTransitions: jsonb("allowed_transitions").$type<string[]>(), // Stage keys; null applies the default rules
+  color: varchar("color"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_pipeline_stages_organization_job").on(table.organizationId, table.jobId),
+]);
+
+// Every stage change of an application, including the legacy accept/decline/shortlist actions
+export const applicationStageHistory = pgTable("application_stage_history", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  applicationId: varchar("application_id").notNull(),
+  organizationId: varchar("organization_id").notNull(),
+  jobId: varchar("job_id").notNull(),
+  fromStage: varchar("from_stage"),
+  toStage: varchar("to_stage").notNull(),
+  changedBy: varchar("changed_by"), // null for automated transitions
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_application_stage_history_application").on(table.applicationId, table.createdAt),
+  index("idx_application_stage_history_organization").on(table.organizationId, table.createdAt),
+]);
+
+// Append-only audit trail of everything done to an application. Rows are never updated or deleted.
+export const applicantEvents = pgTable("applicant_events", {
+  id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  organizationId: varchar("organization_id").notNull(),
+  applicationId: varchar("application_id").notNull(),
+  jobId: varchar("job_id"),
+  actorId: varchar("actor_id"), // null for automated actions
+  action: varchar("action").notNull(), // e.g. 'stage_changed', 'interview_scheduled', 'offer_sent'
+  before: jsonb("before").$type<Record<string, any>>(),
+  after: jsonb("after").$type<Record<string, any>>(),
+  metadata: jsonb("metadata").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_applicant_events_application").on(table.applicationId, table.createdAt),
+  index("idx_applicant_events_organization").on(table.organizationId, table.createdAt),
+]);
+
+// One interviewer's assignment to an interview and the scorecard they fill in for it
+export const interviewScorecards = pgTable("interview_scorecards", {
+  id: serial("id").primaryKey(),
+  interviewId: varchar("interview_id").notNull(),
+  organizationId: varchar("organization_id").notNull(),
+  interviewerId: varchar("interviewer_id").notNull(),
+  assignedBy: varchar("assigned_by"),
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'draft' | 'submitted'
+  ratings: jsonb("ratings").$type<Record<string, number>>(), // Competency key -> rating
+  answers: jsonb("answers").$type<Record<string, string>>(), // Question key -> answer
+  recommendation: varchar("recommendation").$type<ScorecardRecommendation>(),
+  notes: text("notes"),
+  template: jsonb("template").$type<ScorecardTemplate>(), // Template the scorecard was submitted against
+  submittedAt: timestamp("submitted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_interview_scorecards_interview_interviewer").on(table.interviewId, table.interviewerId),
+  index("idx_interview_scorecards_interviewer").on(table.interviewerId, table.status),
+]);
+
+// Hours an interviewer takes interviews in, used to offer candidates bookable slots
+export const interviewerAvailability = pgTable("interviewer_availability", {
+  id: serial("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  timeZone: varchar("time_zone").notNull().default("UTC"), // IANA zone weeklyHours are in
+  weeklyHours: jsonb("weekly_hours").$type<WeeklyAvailability>().notNull().default({}),
+  blackoutDates: jsonb("blackout_dates").$type<string[]>().notNull().default([]), // "YYYY-MM-DD" in timeZone
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_interviewer_availability_org_user").on(table.organizationId, table.userId),
+]);
+
+// A candidate's link to pick their own interview slot from the panel's open availability
+export const interviewBookingLinks = pgTable("interview_booking_links", {
+  id: serial("id").primaryKey(),
+  token: varchar("token").notNull().unique(),
+  organizationId: varchar("organization_id").notNull(),
+  applicationId: varchar("application_id").notNull(),
+  candidateId: varchar("candidate_id"),
+  candidateName: varchar("candidate_name").notNull(),
+  candidateEmail: varchar("candidate_email"),
+  jobId: varchar("job_id"),
+  jobTitle: varchar("job_title"),
+  interviewerIds: jsonb("interviewer_ids").$type<string[]>().notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  interviewType: varchar("interview_type").default('video'),
+  meetingLink: varchar("meeting_link"),
+  notes: text("notes"),
+  status: varchar("status").notNull().default("open"), // 'open' | 'booked' | 'cancelled'
+  interviewId: varchar("interview_id"), // Set once the candidate books
+  expiresAt: timestamp("expires_at").notNull(),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  bookedAt: timestamp("booked_at"),
+}, (table) => [
+  index("idx_interview_booking_links_application").on(table.applicationId),
+]);
+
+// Secret address of a user's subscribable feed of the interviews they are on
+export const interviewCalendarFeeds = pgTable("interview_calendar_feeds", {
+  id: serial("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  token: varchar("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_interview_calendar_feeds_org_user").on(table.organizationId, table.userId),
+]);
+
+// A user's external calendar that interviews are pushed to and pulled back from
+export const calendarConnections = pgTable("calendar_connections", {
+  id: serial("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  provider: varchar("provider").$type<CalendarProviderName>().notNull(),
+  config: jsonb("config").$type<StoredCalendarConnectionConfig>().notNull(),
+  status: varchar("status").notNull().default("active"), // 'active' | 'error'
+  lastError: text("last_error"),
+  lastSyncedAt: timestamp("last_synced_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_calendar_connections_org_user_provider").on(table.organizationId, table.userId, table.provider),
+]);
+
+// The copy of an interview held in one connected calendar
+export const calendarEventLinks = pgTable("calendar_event_links", {
+  id: serial("id").primaryKey(),
+  connectionId: integer("connection_id").notNull(),
+  interviewId: varchar("interview_id").notNull(),
+  externalId: varchar("external_id").notNull(), // Provider's handle for the event, e.g. the CalDAV resource URL
+  etag: varchar("etag"),
+  syncedSequence: integer("synced_sequence").notNull().default(0), // Interview icsSequence last pushed or pulled
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_calendar_event_links_connection_interview").on(table.connectionId, table.interviewId),
+  index("idx_calendar_event_links_interview").on(table.interviewId),
+]);
+
+// What a reminder step needs to reach the candidate, captured when the invitation is sent
+export interface InvitationReminderPayload {
+  applicantName: string;
+  applicantEmail: string;
+  applicantPhone: string | null;
+  jobTitle: string;
+  companyName: string;
+  invitationLink: string;
+}
+
+// A reminder step queued for one invitation; pending steps are cancelled once the match leaves 'invited'
+export const invitationReminders = pgTable("invitation_reminders", {
+  id: serial("id").primaryKey(),
+  matchId: varchar("match_id").notNull(), // airtable_job_matches.id
+  organizationId: varchar("organization_id"),
+  profileId: varchar("profile_id").notNull(),
+  jobId: varchar("job_id").notNull(),
+  stepIndex: integer("step_index").notNull(),
+  channel: varchar("channel").$type<InvitationReminderChannel>().notNull(),
+  finalStep: boolean("final_step").notNull().default(false),
+  payload: jsonb("payload").$type<InvitationReminderPayload>().notNull(),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  status: varchar("status").notNull().default("pending"), // 'pending' | 'sent' | 'skipped' | 'failed' | 'cancelled'
+  statusReason: varchar("status_reason"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_invitation_reminders_match").on(table.matchId),
+  index("idx_invitation_reminders_profile").on(table.profileId),
+]);
+
+// A request to publish a draft job, worked through the organization's approval chain one step at a time
+export const jobApprovalRequests = pgTable("job_approval_requests", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  organizationId: varchar("organization_id").notNull(),
+  requestedById: varchar("requested_by_id").notNull(),
+  chain: jsonb("chain").$type<RequisitionApprovalStep[]>().notNull(), // Copied at submission so later chain edits don't move the goalposts
+  currentStep: integer("current_step").notNull().default(0),
+  terms: jsonb("terms").$type<RequisitionTerms>().notNull(),
+  status: varchar("status").$type<JobApprovalStatus>().notNull().default("pending"),
+  publishOnApproval: boolean("publish_on_approval").notNull().default(false),
+  publishAt: timestamp("publish_at"), // Publish date requested alongside publishOnApproval
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_job_approval_requests_job").on(table.jobId),
+  index("idx_job_approval_requests_org_status").on(table.organizationId, table.status),
+]);
+
+// Submissions, decisions and comments on an approval request
+export const jobApprovalEvents = pgTable("job_approval_events", {
+  id: serial("id").primaryKey(),
+  requestId: integer("request_id").notNull(),
+  stepIndex: integer("step_index"), // The chain step acted on; null for submissions, comments and cancellations
+  actorId: varchar("actor_id").notNull(),
+  action: varchar("action").$type<JobApprovalAction>().notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_job_approval_events_request").on(table.requestId),
+]);
+
+// Organization-owned offer letter layouts with {{merge_field}} placeholders
+export const offerTemplates = pgTable("offer_templates", {
+  id: serial("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  name: varchar("name").notNull(),
+  subject: varchar("subject"), // Email subject; null uses the standard "Job Offer" subject
+  body: text("body").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdById: varchar("created_by_id").notNull(),
+  archivedAt: timestamp("archived_at"), // Archived templates stay attached to the offers made from them
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_offer_templates_org").on(table.organizationId),
+]);
+
+// Every saved revision of an offer letter's text
+export const offerLetterVersions = pgTable("offer_letter_versions", {
+  id: serial("id").primaryKey(),
+  offerLetterId: varchar("offer_letter_id").notNull(),
+  version: integer("version").notNull(),
+  content: text("content").notNull(),
+  mergeValues: jsonb("merge_values").$type<OfferMergeValues>(),
+  note: varchar("note"), // e.g. "Created from Standard offer" or "Applied AI suggestion"
+  editedById: varchar("edited_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_offer_letter_versions_offer").on(table.offerLetterId),
+]);
+
+// Counter-offers and proposals exchanged after an offer is sent
+export const offerNegotiationEntries = pgTable("offer_negotiation_entries", {
+  id: serial("id").primaryKey(),
+  offerLetterId: varchar("offer_letter_id").notNull(),
+  source: varchar("source").$type<OfferNegotiationSource>().notNull(),
+  changes: jsonb("changes").$type<OfferTermChanges>().notNull(),
+  note: text("note"),
+  offerVersion: integer("offer_version").notNull(), // Letter version the entry responds to
+  revisedVersion: integer("revised_version"), // Letter version generated from this entry
+  createdById: varchar("created_by_id"), // null when the candidate asked through the offer page
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_offer_negotiation_entries_offer").on(table.offerLetterId),
+]);
+
+// An organization's wording for one email type in one language; types without a row use the built-in template
+export const emailTemplates = pgTable("email_templates", {
+  id: serial("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  type: varchar("type").$type<EmailTemplateType>().notNull(),
+  locale: varchar("locale").$type<EmailLocale>().notNull(),
+  subject: varchar("subject").notNull(),
+  body: text("body").notNull(),
+  updatedById: varchar("updated_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_email_templates_org_type_locale").on(table.organizationId, table.type, table.locale),
+]);
+
+// Messages kept by the "outbox" email transport instead of being delivered, for development and tests
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  toAddress: varchar("to_address").notNull(),
+  fromAddress: varchar("from_address").notNull(),
+  subject: varchar("subject").notNull(),
+  text: text("text"),
+  html: text("html"),
+  attachments: jsonb("attachments").$type<EmailOutboxAttachment[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_email_outbox_to").on(table.toAddress),
+]);
+
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type InsertPipelineStage = typeof pipelineStages.$inferInsert;
+export type ApplicationStageHistory = typeof applicationStageHistory.$inferSelect;
+export type InsertApplicationStageHistory = typeof applicationStageHistory.$inferInsert;
+export type ApplicantEvent = typeof applicantEvents.$inferSelect;
+export type InsertApplicantEvent = typeof applicantEvents.$inferInsert;
+export type InterviewScorecard = typeof interviewScorecards.$inferSelect;
+export type InsertInterviewScorecard = typeof interviewScorecards.$inferInsert;
+export type InterviewerAvailability = typeof interviewerAvailability.$inferSelect;
+export type InsertInterviewerAvailability = typeof interviewerAvailability.$inferInsert;
+export type InterviewBookingLink = typeof interviewBookingLinks.$inferSelect;
+export type InsertInterviewBookingLink = typeof interviewBookingLinks.$inferInsert;
+export type InvitationReminder = typeof invitationReminders.$inferSelect;
+export type InsertInvitationReminder = typeof invitationReminders.$inferInsert;
+export type InterviewCalendarFeed = typeof interviewCalendarFeeds.$inferSelect;
+export type CalendarConnection = typeof calendarConnections.$inferSelect;
+export type InsertCalendarConnection = typeof calendarConnections.$inferInsert;
+export type CalendarEventLink = typeof calendarEventLinks.$inferSelect;
+export type InsertCalendarEventLink = typeof calendarEventLinks.$inferInsert;
+export type JobApprovalRequest = typeof jobApprovalRequests.$inferSelect;
+export type InsertJobApprovalRequest = typeof jobApprovalRequests.$inferInsert;
+export type JobApprovalEvent = typeof jobApprovalEvents.$inferSelect;
+export type InsertJobApprovalEvent = typeof jobApprovalEvents.$inferInsert;
+export type OfferLetter = typeof offerLetters.$inferSelect;
+export type OfferTemplate = typeof offerTemplates.$inferSelect;
+export type InsertOfferTemplate = typeof offerTemplates.$inferInsert;
+export type OfferLetterVersion = typeof offerLetterVersions.$inferSelect;
+export type InsertOfferLetterVersion = typeof offerLetterVersions.$inferInsert;
+export type OfferNegotiationEntry = typeof offerNegotiationEntries.$inferSelect;
+export type InsertOfferNegotiationEntry = typeof offerNegotiationEntries.$inferInsert;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = typeof emailTemplates.$inferInsert;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+
 // Type definitions for Airtable replacement tables
 export type AirtableUserProfile = typeof airtableUserProfiles.$inferSelect;
 export type InsertAirtableUserProfile = typeof airtableUserProfiles.$inferInsert;
@@ -1201,10 +1929,17 @@ export const insertAirtableJobMatchSchema = createInsertSchema(airtableJobMatche
 export const cache = pgTable("cache", {
   id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   key: varchar("key", { length: 255 }).notNull().unique(),
+  namespace: varchar("namespace"), // 'resume_parsing', 'job_scoring'
+  organizationId: varchar("organization_id"), // Owning organization, used for per-organization purges
   value: jsonb("value").notNull(),
+  hitCount: integer("hit_count").notNull().default(0),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  expiresAt: timestamp("expires_at"), // null = never expires
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_cache_key").on(table.key),
+  index("idx_cache_organization_id").on(table.organizationId),
+  index("idx_cache_expires_at").on(table.expiresAt),
 ]);
 
 export type Cache = typeof cache.$inferSelect;